@@ -10,7 +10,7 @@ export default class twoFactor
   id!: string;
   userId!: string;
   secret!: string;
-  type!: "EMAIL" | "SMS" | "APP";
+  type!: "EMAIL" | "SMS" | "APP" | "PASSKEY";
   enabled!: boolean;
   recoveryCodes?: string;
   createdAt?: Date;
@@ -48,12 +48,12 @@ export default class twoFactor
           },
         },
         type: {
-          type: DataTypes.ENUM("EMAIL", "SMS", "APP"),
+          type: DataTypes.ENUM("EMAIL", "SMS", "APP", "PASSKEY"),
           allowNull: false,
           validate: {
             isIn: {
-              args: [["EMAIL", "SMS", "APP"]],
-              msg: "type: Type must be one of ['EMAIL', 'SMS', 'APP']",
+              args: [["EMAIL", "SMS", "APP", "PASSKEY"]],
+              msg: "type: Type must be one of ['EMAIL', 'SMS', 'APP', 'PASSKEY']",
             },
           },
         },
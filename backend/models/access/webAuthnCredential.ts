@@ -0,0 +1,122 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import user from "../user";
+
+export default class webAuthnCredential
+  extends Model<
+    webAuthnCredentialAttributes,
+    webAuthnCredentialCreationAttributes
+  >
+  implements webAuthnCredentialAttributes
+{
+  id!: string;
+  userId!: string;
+  name!: string;
+  credentialId!: string;
+  publicKey!: string;
+  algorithm!: number;
+  counter!: number;
+  transports!: string[];
+  lastUsedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // webAuthnCredential belongsTo user via userId
+  user!: user;
+  getUser!: Sequelize.BelongsToGetAssociationMixin<user>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof webAuthnCredential {
+    return webAuthnCredential.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "userId: User ID cannot be null" },
+            isUUID: { args: 4, msg: "userId: User ID must be a valid UUID" },
+          },
+        },
+        name: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "name: Passkey name must not be empty" },
+          },
+          comment: "Label chosen by the user, such as the device it lives on",
+        },
+        credentialId: {
+          type: DataTypes.STRING(512),
+          allowNull: false,
+          comment: "Base64url credential ID assigned by the authenticator",
+        },
+        publicKey: {
+          type: DataTypes.TEXT,
+          allowNull: false,
+          comment: "Base64url COSE public key of the credential",
+        },
+        algorithm: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          comment: "COSE algorithm of the public key",
+        },
+        counter: {
+          type: DataTypes.INTEGER.UNSIGNED,
+          allowNull: false,
+          defaultValue: 0,
+          comment: "Last signature counter reported by the authenticator",
+        },
+        transports: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          defaultValue: [],
+        },
+        lastUsedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "webAuthnCredential",
+        tableName: "webauthn_credential",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "webAuthnCredentialIdKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "credentialId" }],
+          },
+          {
+            name: "webAuthnCredentialUserIdForeign",
+            using: "BTREE",
+            fields: [{ name: "userId" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    webAuthnCredential.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
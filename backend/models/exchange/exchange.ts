@@ -14,6 +14,7 @@ export default class exchange
   version?: string;
   productId?: string;
   type?: string;
+  priority?: number;
 
   public static initModel(sequelize: Sequelize.Sequelize): typeof exchange {
     return exchange.init(
@@ -95,6 +96,16 @@ export default class exchange
           },
           comment: "Type of exchange (spot, futures, etc.)",
         },
+        priority: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+          validate: {
+            isInt: { msg: "priority: Priority must be an integer" },
+          },
+          comment:
+            "Routing order among active providers, lower values are tried first",
+        },
       },
       {
         sequelize,
@@ -11,6 +11,7 @@ export default class exchangeMarket
   isTrending?: boolean;
   isHot?: boolean;
   metadata?: string;
+  providers?: string[] | null;
   status!: boolean;
 
   public static initModel(sequelize: Sequelize.Sequelize): typeof exchangeMarket {
@@ -80,6 +81,23 @@ export default class exchangeMarket
           },
           comment: "Additional market configuration and precision settings",
         },
+        providers: {
+          type: DataTypes.JSON,
+          allowNull: true,
+          get() {
+            const rawData = this.getDataValue("providers");
+            if (typeof rawData === "string") {
+              try {
+                return JSON.parse(rawData);
+              } catch {
+                return null;
+              }
+            }
+            return rawData ?? null;
+          },
+          comment:
+            "Provider names in the order new orders on this market are routed to, null for the global priority",
+        },
 
         status: {
           type: DataTypes.BOOLEAN,
@@ -6,13 +6,21 @@ export interface exchangeOrderAttributes {
   id: string;
 
   referenceId?: string;
+  provider?: string;
   userId: string;
-  status: "OPEN" | "CLOSED" | "CANCELED" | "EXPIRED" | "REJECTED";
+  status:
+    | "OPEN"
+    | "TRIGGERING"
+    | "CLOSED"
+    | "CANCELED"
+    | "EXPIRED"
+    | "REJECTED";
   symbol: string;
-  type: "MARKET" | "LIMIT";
+  type: "MARKET" | "LIMIT" | "STOP_MARKET" | "STOP_LIMIT";
   timeInForce: "GTC" | "IOC" | "FOK" | "PO";
   side: "BUY" | "SELL";
   price: number;
+  stopPrice?: number;
   average?: number;
   amount: number;
   filled: number;
@@ -31,6 +39,8 @@ export type exchangeOrderId = exchangeOrder[exchangeOrderPk];
 export type exchangeOrderOptionalAttributes =
   | "id"
   | "referenceId"
+  | "provider"
+  | "stopPrice"
   | "average"
   | "trades"
   | "createdAt"
@@ -47,13 +57,21 @@ export default class exchangeOrder
 {
   id!: string;
   referenceId?: string;
+  provider?: string;
   userId!: string;
-  status!: "OPEN" | "CLOSED" | "CANCELED" | "EXPIRED" | "REJECTED";
+  status!:
+    | "OPEN"
+    | "TRIGGERING"
+    | "CLOSED"
+    | "CANCELED"
+    | "EXPIRED"
+    | "REJECTED";
   symbol!: string;
-  type!: "MARKET" | "LIMIT";
+  type!: "MARKET" | "LIMIT" | "STOP_MARKET" | "STOP_LIMIT";
   timeInForce!: "GTC" | "IOC" | "FOK" | "PO";
   side!: "BUY" | "SELL";
   price!: number;
+  stopPrice?: number;
   average?: number;
   amount!: number;
   filled!: number;
@@ -96,12 +114,18 @@ export default class exchangeOrder
         referenceId: {
           type: DataTypes.STRING(191),
           allowNull: true,
-          unique: "exchangeOrderReferenceIdKey",
           comment: "External reference ID from exchange",
         },
+        provider: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+          comment:
+            "Exchange provider the order was placed on, null for untriggered stop orders and orders placed on the primary before routing",
+        },
         status: {
           type: DataTypes.ENUM(
             "OPEN",
+            "TRIGGERING",
             "CLOSED",
             "CANCELED",
             "EXPIRED",
@@ -110,8 +134,17 @@ export default class exchangeOrder
           allowNull: false,
           validate: {
             isIn: {
-              args: [["OPEN", "CLOSED", "CANCELED", "EXPIRED", "REJECTED"]],
-              msg: "status: Must be one of OPEN, CLOSED, CANCELED, EXPIRED, REJECTED",
+              args: [
+                [
+                  "OPEN",
+                  "TRIGGERING",
+                  "CLOSED",
+                  "CANCELED",
+                  "EXPIRED",
+                  "REJECTED",
+                ],
+              ],
+              msg: "status: Must be one of OPEN, TRIGGERING, CLOSED, CANCELED, EXPIRED, REJECTED",
             },
           },
           comment: "Current status of the exchange order",
@@ -125,15 +158,20 @@ export default class exchangeOrder
           comment: "Trading symbol/pair for this order",
         },
         type: {
-          type: DataTypes.ENUM("MARKET", "LIMIT"),
+          type: DataTypes.ENUM(
+            "MARKET",
+            "LIMIT",
+            "STOP_MARKET",
+            "STOP_LIMIT"
+          ),
           allowNull: false,
           validate: {
             isIn: {
-              args: [["MARKET", "LIMIT"]],
-              msg: "type: Must be either MARKET or LIMIT",
+              args: [["MARKET", "LIMIT", "STOP_MARKET", "STOP_LIMIT"]],
+              msg: "type: Must be one of MARKET, LIMIT, STOP_MARKET, STOP_LIMIT",
             },
           },
-          comment: "Type of order (market or limit)",
+          comment: "Type of order (market, limit, stop-market or stop-limit)",
         },
         timeInForce: {
           type: DataTypes.ENUM("GTC", "IOC", "FOK", "PO"),
@@ -165,6 +203,12 @@ export default class exchangeOrder
           },
           comment: "Order price per unit",
         },
+        stopPrice: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          comment:
+            "Trigger price for stop orders, the order is held locally until it is reached",
+        },
         average: {
           type: DataTypes.DOUBLE,
           allowNull: true,
@@ -248,10 +292,10 @@ export default class exchangeOrder
             fields: [{ name: "id" }],
           },
           {
-            name: "exchangeOrderReferenceIdKey",
+            name: "exchangeOrderProviderReferenceIdKey",
             unique: true,
             using: "BTREE",
-            fields: [{ name: "referenceId" }],
+            fields: [{ name: "provider" }, { name: "referenceId" }],
           },
           {
             name: "exchangeOrderUserIdForeign",
@@ -0,0 +1,207 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import user from "../user";
+
+export default class priceAlert
+  extends Model<priceAlertAttributes, priceAlertCreationAttributes>
+  implements priceAlertAttributes
+{
+  id!: string;
+  userId!: string;
+  symbol!: string;
+  marketType!: "SPOT" | "ECO";
+  condition!: "ABOVE" | "BELOW" | "CROSSES" | "PERCENT_CHANGE";
+  price?: number;
+  percentChange?: number;
+  timeWindow?: number;
+  mode!: "ONCE" | "RECURRING";
+  cooldown!: number;
+  notifyEmail!: boolean;
+  note?: string;
+  status!: "ACTIVE" | "TRIGGERED" | "DISABLED";
+  lastPrice?: number;
+  triggerCount!: number;
+  triggeredAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // priceAlert belongsTo user via userId
+  user!: user;
+  getUser!: Sequelize.BelongsToGetAssociationMixin<user>;
+  setUser!: Sequelize.BelongsToSetAssociationMixin<user, userId>;
+  createUser!: Sequelize.BelongsToCreateAssociationMixin<user>;
+
+  public static initModel(sequelize: Sequelize.Sequelize): typeof priceAlert {
+    return priceAlert.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "userId: User ID cannot be null" },
+            isUUID: { args: 4, msg: "userId: User ID must be a valid UUID" },
+          },
+          comment: "ID of the user who owns this alert",
+        },
+        symbol: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "symbol: Symbol must not be empty" },
+          },
+          comment: "Trading symbol/pair being watched",
+        },
+        marketType: {
+          type: DataTypes.ENUM("SPOT", "ECO"),
+          allowNull: false,
+          defaultValue: "SPOT",
+          validate: {
+            isIn: {
+              args: [["SPOT", "ECO"]],
+              msg: "marketType: Market type must be either 'SPOT' or 'ECO'",
+            },
+          },
+          comment: "Exchange spot market or ecosystem market",
+        },
+        condition: {
+          type: DataTypes.ENUM("ABOVE", "BELOW", "CROSSES", "PERCENT_CHANGE"),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [["ABOVE", "BELOW", "CROSSES", "PERCENT_CHANGE"]],
+              msg: "condition: Condition must be one of 'ABOVE', 'BELOW', 'CROSSES' or 'PERCENT_CHANGE'",
+            },
+          },
+        },
+        price: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            isFloat: { msg: "price: Price must be a number" },
+            min: { args: [0], msg: "price: Price cannot be negative" },
+          },
+          comment: "Target price for ABOVE, BELOW and CROSSES alerts",
+        },
+        percentChange: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            isFloat: { msg: "percentChange: Percent change must be a number" },
+          },
+          comment:
+            "Signed change in percent for PERCENT_CHANGE alerts, negative for drops",
+        },
+        timeWindow: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+          validate: {
+            isInt: { msg: "timeWindow: Time window must be an integer" },
+            min: {
+              args: [1],
+              msg: "timeWindow: Time window must be at least 1",
+            },
+            max: {
+              args: [1440],
+              msg: "timeWindow: Time window cannot exceed 1440 minutes",
+            },
+          },
+          comment: "Window in minutes the percent change is measured over",
+        },
+        mode: {
+          type: DataTypes.ENUM("ONCE", "RECURRING"),
+          allowNull: false,
+          defaultValue: "ONCE",
+          validate: {
+            isIn: {
+              args: [["ONCE", "RECURRING"]],
+              msg: "mode: Mode must be either 'ONCE' or 'RECURRING'",
+            },
+          },
+        },
+        cooldown: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+          validate: {
+            isInt: { msg: "cooldown: Cooldown must be an integer" },
+            min: { args: [0], msg: "cooldown: Cooldown cannot be negative" },
+          },
+          comment: "Minutes a recurring alert stays quiet after triggering",
+        },
+        notifyEmail: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        note: {
+          type: DataTypes.STRING(255),
+          allowNull: true,
+        },
+        status: {
+          type: DataTypes.ENUM("ACTIVE", "TRIGGERED", "DISABLED"),
+          allowNull: false,
+          defaultValue: "ACTIVE",
+          validate: {
+            isIn: {
+              args: [["ACTIVE", "TRIGGERED", "DISABLED"]],
+              msg: "status: Status must be one of 'ACTIVE', 'TRIGGERED' or 'DISABLED'",
+            },
+          },
+        },
+        lastPrice: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          comment:
+            "Price when the alert was created or last triggered, used to detect crossings",
+        },
+        triggerCount: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        triggeredAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "priceAlert",
+        tableName: "price_alert",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "priceAlertUserIdForeign",
+            using: "BTREE",
+            fields: [{ name: "userId" }],
+          },
+          {
+            name: "priceAlertStatusIdx",
+            using: "BTREE",
+            fields: [{ name: "status" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    priceAlert.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -12,9 +12,14 @@ export default class ecommerceDiscount
 {
   id!: string;
   code!: string;
+  type!: "PERCENTAGE" | "FIXED" | "FREE_SHIPPING";
   percentage!: number;
+  amount?: number | null;
+  minSpend?: number | null;
+  maxUses?: number | null;
+  usageCount!: number;
   validUntil!: Date;
-  productId!: string;
+  productId?: string | null;
   status!: boolean;
   createdAt?: Date;
   deletedAt?: Date;
@@ -79,9 +84,21 @@ export default class ecommerceDiscount
             notEmpty: { msg: "code: Code must not be empty" },
           },
         },
+        type: {
+          type: DataTypes.ENUM("PERCENTAGE", "FIXED", "FREE_SHIPPING"),
+          allowNull: false,
+          defaultValue: "PERCENTAGE",
+          validate: {
+            isIn: {
+              args: [["PERCENTAGE", "FIXED", "FREE_SHIPPING"]],
+              msg: "type: Must be 'PERCENTAGE', 'FIXED', or 'FREE_SHIPPING'",
+            },
+          },
+        },
         percentage: {
           type: DataTypes.INTEGER,
           allowNull: false,
+          defaultValue: 0,
           validate: {
             isInt: { msg: "percentage: Percentage must be an integer" },
             min: {
@@ -94,6 +111,41 @@ export default class ecommerceDiscount
             },
           },
         },
+        amount: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            isFloat: { msg: "amount: Amount must be a valid number" },
+            min: { args: [0], msg: "amount: Amount cannot be negative" },
+          },
+          comment: "Value taken off a FIXED discount, in the product currency",
+        },
+        minSpend: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            isFloat: { msg: "minSpend: Minimum spend must be a valid number" },
+            min: {
+              args: [0],
+              msg: "minSpend: Minimum spend cannot be negative",
+            },
+          },
+        },
+        maxUses: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+          validate: {
+            isInt: { msg: "maxUses: Maximum uses must be an integer" },
+            min: { args: [1], msg: "maxUses: Maximum uses must be at least 1" },
+          },
+          comment:
+            "Total number of orders the code may be used on, null for unlimited",
+        },
+        usageCount: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
         validUntil: {
           type: DataTypes.DATE(3),
           allowNull: false,
@@ -110,8 +162,9 @@ export default class ecommerceDiscount
         },
         productId: {
           type: DataTypes.UUID,
-          allowNull: false,
-
+          allowNull: true,
+          comment:
+            "Product the discount is limited to, null for a cart-wide code",
           validate: {
             isUUID: {
               args: 4,
@@ -157,6 +210,12 @@ export default class ecommerceDiscount
     );
   }
   public static associate(models: any) {
+    ecommerceDiscount.hasMany(models.ecommerceOrder, {
+      as: "ecommerceOrders",
+      foreignKey: "discountId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
     ecommerceDiscount.belongsTo(models.ecommerceProduct, {
       as: "product",
       foreignKey: "productId",
@@ -8,11 +8,32 @@ export default class ecommerceOrder
 {
   id!: string;
   userId!: string;
-  status!: "PENDING" | "COMPLETED" | "CANCELLED" | "REJECTED";
+  status!:
+    | "PENDING"
+    | "PAID"
+    | "PROCESSING"
+    | "SHIPPED"
+    | "DELIVERED"
+    | "COMPLETED"
+    | "RETURN_REQUESTED"
+    | "REFUNDED"
+    | "CANCELLED"
+    | "REJECTED";
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
   shippingId?: string; // Added shippingId
+  discountId?: string | null;
+  currency?: string | null;
+  walletType?: "FIAT" | "SPOT" | "ECO" | null;
+  subtotal!: number;
+  discountAmount!: number;
+  shippingCost!: number;
+  taxRate!: number;
+  taxAmount!: number;
+  total!: number;
+  refundedAmount!: number;
+  returnReason?: string | null;
 
   // ecommerceOrder hasMany ecommerceOrderItem via orderId
   ecommerceOrderItems!: ecommerceOrderItem[];
@@ -67,13 +88,37 @@ export default class ecommerceOrder
           },
         },
         status: {
-          type: DataTypes.ENUM("PENDING", "COMPLETED", "CANCELLED", "REJECTED"),
+          type: DataTypes.ENUM(
+            "PENDING",
+            "PAID",
+            "PROCESSING",
+            "SHIPPED",
+            "DELIVERED",
+            "COMPLETED",
+            "RETURN_REQUESTED",
+            "REFUNDED",
+            "CANCELLED",
+            "REJECTED"
+          ),
           allowNull: false,
           defaultValue: "PENDING",
           validate: {
             isIn: {
-              args: [["PENDING", "COMPLETED", "CANCELLED", "REJECTED"]],
-              msg: "status: Must be 'PENDING', 'COMPLETED', 'CANCELLED', or 'REJECTED'",
+              args: [
+                [
+                  "PENDING",
+                  "PAID",
+                  "PROCESSING",
+                  "SHIPPED",
+                  "DELIVERED",
+                  "COMPLETED",
+                  "RETURN_REQUESTED",
+                  "REFUNDED",
+                  "CANCELLED",
+                  "REJECTED",
+                ],
+              ],
+              msg: "status: Must be 'PENDING', 'PAID', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'COMPLETED', 'RETURN_REQUESTED', 'REFUNDED', 'CANCELLED', or 'REJECTED'",
             },
           },
         },
@@ -81,6 +126,60 @@ export default class ecommerceOrder
           type: DataTypes.UUID,
           allowNull: true,
         },
+        discountId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+        },
+        walletType: {
+          type: DataTypes.ENUM("FIAT", "SPOT", "ECO"),
+          allowNull: true,
+        },
+        subtotal: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+          comment: "Sum of the item prices before discount, shipping and tax",
+        },
+        discountAmount: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        shippingCost: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        taxRate: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+          comment: "Tax percentage applied for the shipping country",
+        },
+        taxAmount: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        total: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        refundedAmount: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+          comment: "Sum of the refunds credited back to the buyer's wallet",
+        },
+        returnReason: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
       },
       {
         sequelize,
@@ -111,6 +210,11 @@ export default class ecommerceOrder
             using: "BTREE",
             fields: [{ name: "shippingId" }],
           },
+          {
+            name: "ecommerceOrderDiscountIdFkey",
+            using: "BTREE",
+            fields: [{ name: "discountId" }],
+          },
         ],
       }
     );
@@ -136,6 +240,12 @@ export default class ecommerceOrder
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    ecommerceOrder.belongsTo(models.ecommerceDiscount, {
+      as: "discount",
+      foreignKey: "discountId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
     ecommerceOrder.hasOne(models.ecommerceShippingAddress, {
       as: "shippingAddress",
       foreignKey: "orderId",
@@ -2,6 +2,7 @@ import * as Sequelize from "sequelize";
 import { DataTypes, Model } from "sequelize";
 import ecommerceOrder from "./ecommerceOrder";
 import ecommerceProduct from "./ecommerceProduct";
+import ecommerceProductVariant from "./ecommerceProductVariant";
 
 export default class ecommerceOrderItem
   extends Model<
@@ -13,7 +14,9 @@ export default class ecommerceOrderItem
   id!: string;
   orderId!: string;
   productId!: string;
+  variantId?: string | null;
   quantity!: number;
+  price?: number | null;
   key?: string;
   filePath?: string;
   instructions?: string;
@@ -34,6 +37,9 @@ export default class ecommerceOrderItem
     ecommerceProductId
   >;
   createProduct!: Sequelize.BelongsToCreateAssociationMixin<ecommerceProduct>;
+  // ecommerceOrderItem belongsTo ecommerceProductVariant via variantId
+  variant?: ecommerceProductVariant;
+  getVariant!: Sequelize.BelongsToGetAssociationMixin<ecommerceProductVariant>;
 
   public static initModel(
     sequelize: Sequelize.Sequelize
@@ -65,6 +71,10 @@ export default class ecommerceOrderItem
             },
           },
         },
+        variantId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
         quantity: {
           type: DataTypes.INTEGER,
           allowNull: false,
@@ -73,6 +83,11 @@ export default class ecommerceOrderItem
             min: { args: [1], msg: "quantity: Quantity must be at least 1" },
           },
         },
+        price: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          comment: "Unit price charged when the order was placed",
+        },
         key: {
           type: DataTypes.STRING(191),
           allowNull: true,
@@ -99,16 +114,25 @@ export default class ecommerceOrderItem
             fields: [{ name: "id" }],
           },
           {
-            name: "ecommerceOrderItemOrderIdProductIdKey",
+            name: "ecommerceOrderItemOrderIdProductIdVariantIdKey",
             unique: true,
             using: "BTREE",
-            fields: [{ name: "orderId" }, { name: "productId" }],
+            fields: [
+              { name: "orderId" },
+              { name: "productId" },
+              { name: "variantId" },
+            ],
           },
           {
             name: "ecommerceOrderItemProductIdFkey",
             using: "BTREE",
             fields: [{ name: "productId" }],
           },
+          {
+            name: "ecommerceOrderItemVariantIdFkey",
+            using: "BTREE",
+            fields: [{ name: "variantId" }],
+          },
         ],
       }
     );
@@ -120,6 +144,12 @@ export default class ecommerceOrderItem
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    ecommerceOrderItem.belongsTo(models.ecommerceProductVariant, {
+      as: "variant",
+      foreignKey: "variantId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
     ecommerceOrderItem.belongsTo(models.ecommerceOrder, {
       as: "order",
       foreignKey: "orderId",
@@ -3,6 +3,7 @@ import { DataTypes, Model } from "sequelize";
 import ecommerceCategory from "./ecommerceCategory";
 import ecommerceDiscount from "./ecommerceDiscount";
 import ecommerceOrderItem from "./ecommerceOrderItem";
+import ecommerceProductVariant from "./ecommerceProductVariant";
 import ecommerceReview from "./ecommerceReview";
 import ecommerceWishlist from "./ecommerceWishlist";
 
@@ -23,6 +24,7 @@ export default class ecommerceProduct
   image?: string;
   currency!: string;
   walletType!: "FIAT" | "SPOT" | "ECO";
+  options?: ecommerceProductOption[] | null;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -134,6 +136,10 @@ export default class ecommerceProduct
     ecommerceReviewId
   >;
   countEcommerceReviews!: Sequelize.HasManyCountAssociationsMixin;
+  // ecommerceProduct hasMany ecommerceProductVariant via productId
+  variants!: ecommerceProductVariant[];
+  getVariants!: Sequelize.HasManyGetAssociationsMixin<ecommerceProductVariant>;
+  countVariants!: Sequelize.HasManyCountAssociationsMixin;
   // ecommerceProduct hasMany ecommerceWishlist via productId
   ecommerceWishlists!: ecommerceWishlist[];
   getEcommerceWishlists!: Sequelize.HasManyGetAssociationsMixin<ecommerceWishlist>;
@@ -279,6 +285,23 @@ export default class ecommerceProduct
             },
           },
         },
+        options: {
+          type: DataTypes.JSON,
+          allowNull: true,
+          get() {
+            const rawData = this.getDataValue("options");
+            if (typeof rawData === "string") {
+              try {
+                return JSON.parse(rawData);
+              } catch {
+                return null;
+              }
+            }
+            return rawData ?? null;
+          },
+          comment:
+            "Options the variants are built from, e.g. [{ name: 'Size', values: ['S', 'M'] }]",
+        },
       },
       {
         sequelize,
@@ -332,6 +355,12 @@ export default class ecommerceProduct
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    ecommerceProduct.hasMany(models.ecommerceProductVariant, {
+      as: "variants",
+      foreignKey: "productId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
     ecommerceProduct.hasMany(models.ecommerceOrderItem, {
       as: "ecommerceOrderItems",
       foreignKey: "productId",
@@ -0,0 +1,162 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import ecommerceProduct from "./ecommerceProduct";
+
+export default class ecommerceProductVariant
+  extends Model<
+    ecommerceProductVariantAttributes,
+    ecommerceProductVariantCreationAttributes
+  >
+  implements ecommerceProductVariantAttributes
+{
+  id!: string;
+  productId!: string;
+  sku!: string;
+  options!: Record<string, string>;
+  price!: number;
+  inventoryQuantity!: number;
+  image?: string;
+  status!: boolean;
+  createdAt?: Date;
+  deletedAt?: Date;
+  updatedAt?: Date;
+
+  // ecommerceProductVariant belongsTo ecommerceProduct via productId
+  product!: ecommerceProduct;
+  getProduct!: Sequelize.BelongsToGetAssociationMixin<ecommerceProduct>;
+  setProduct!: Sequelize.BelongsToSetAssociationMixin<
+    ecommerceProduct,
+    ecommerceProductId
+  >;
+  createProduct!: Sequelize.BelongsToCreateAssociationMixin<ecommerceProduct>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof ecommerceProductVariant {
+    return ecommerceProductVariant.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        productId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            isUUID: {
+              args: 4,
+              msg: "productId: Product ID must be a valid UUID",
+            },
+          },
+        },
+        sku: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          unique: "ecommerceProductVariantSkuKey",
+          validate: {
+            notEmpty: { msg: "sku: SKU must not be empty" },
+          },
+        },
+        options: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          get() {
+            const rawData = this.getDataValue("options");
+            if (typeof rawData === "string") {
+              try {
+                return JSON.parse(rawData);
+              } catch {
+                return {};
+              }
+            }
+            return rawData ?? {};
+          },
+          comment:
+            "Selected value of each product option, e.g. { Size: 'M', Color: 'Red' }",
+        },
+        price: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          validate: {
+            isFloat: { msg: "price: Price must be a valid number" },
+            min: { args: [0], msg: "price: Price cannot be negative" },
+          },
+        },
+        inventoryQuantity: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+          validate: {
+            isInt: {
+              msg: "inventoryQuantity: Inventory quantity must be an integer",
+            },
+            min: {
+              args: [0],
+              msg: "inventoryQuantity: Inventory quantity cannot be negative",
+            },
+          },
+        },
+        image: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+          validate: {
+            is: {
+              args: ["^/(uploads|img)/.*$", "i"],
+              msg: "image: Image must be a valid URL",
+            },
+          },
+        },
+        status: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+          validate: {
+            isBoolean: { msg: "status: Status must be a boolean value" },
+          },
+        },
+      },
+      {
+        sequelize,
+        modelName: "ecommerceProductVariant",
+        tableName: "ecommerce_product_variant",
+        timestamps: true,
+        paranoid: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "ecommerceProductVariantSkuKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "sku" }],
+          },
+          {
+            name: "ecommerceProductVariantProductIdFkey",
+            using: "BTREE",
+            fields: [{ name: "productId" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    ecommerceProductVariant.belongsTo(models.ecommerceProduct, {
+      as: "product",
+      foreignKey: "productId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    ecommerceProductVariant.hasMany(models.ecommerceOrderItem, {
+      as: "ecommerceOrderItems",
+      foreignKey: "variantId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
+  }
+}
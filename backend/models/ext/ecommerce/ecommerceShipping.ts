@@ -22,6 +22,7 @@ export default class ecommerceShipping
   cost?: number;
   tax?: number;
   deliveryDate?: Date;
+  trackingNumber?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 
@@ -152,6 +153,11 @@ export default class ecommerceShipping
           type: DataTypes.DATE,
           allowNull: true,
         },
+        trackingNumber: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+          comment: "Carrier tracking number shown to buyers once shipped",
+        },
       },
       {
         sequelize,
@@ -0,0 +1,92 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class ecommerceTaxRule
+  extends Model<ecommerceTaxRuleAttributes, ecommerceTaxRuleCreationAttributes>
+  implements ecommerceTaxRuleAttributes
+{
+  id!: string;
+  name!: string;
+  country!: string;
+  rate!: number;
+  status!: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof ecommerceTaxRule {
+    return ecommerceTaxRule.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        name: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "name: Name must not be empty" },
+          },
+        },
+        country: {
+          type: DataTypes.STRING(2),
+          allowNull: false,
+          unique: "ecommerceTaxRuleCountryKey",
+          set(value: string) {
+            this.setDataValue(
+              "country",
+              typeof value === "string" ? value.trim().toUpperCase() : value
+            );
+          },
+          validate: {
+            is: {
+              args: ["^[A-Z]{2}$"],
+              msg: "country: Country must be an ISO 3166-1 alpha-2 code",
+            },
+          },
+        },
+        rate: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          validate: {
+            isFloat: { msg: "rate: Rate must be a valid number" },
+            min: { args: [0], msg: "rate: Rate cannot be negative" },
+            max: { args: [100], msg: "rate: Rate cannot be more than 100" },
+          },
+        },
+        status: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+          validate: {
+            isBoolean: { msg: "status: Status must be a boolean value" },
+          },
+        },
+      },
+      {
+        sequelize,
+        modelName: "ecommerceTaxRule",
+        tableName: "ecommerce_tax_rule",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "ecommerceTaxRuleCountryKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "country" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {}
+}
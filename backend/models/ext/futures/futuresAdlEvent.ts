@@ -0,0 +1,145 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class futuresAdlEvent
+  extends Model<futuresAdlEventAttributes, futuresAdlEventCreationAttributes>
+  implements futuresAdlEventAttributes
+{
+  id!: string;
+  symbol!: string;
+  currency!: string;
+  liquidatedUserId!: string;
+  liquidatedPositionId!: string;
+  userId!: string;
+  positionId!: string;
+  side!: "BUY" | "SELL";
+  amount!: number;
+  price!: number;
+  markPrice!: number;
+  pnl!: number;
+  rankScore!: number;
+  shortfallCovered!: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof futuresAdlEvent {
+    return futuresAdlEvent.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        symbol: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "symbol: Symbol must not be empty" },
+          },
+        },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+        },
+        liquidatedUserId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+        },
+        liquidatedPositionId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "userId: User ID cannot be null" },
+            isUUID: { args: 4, msg: "userId: User ID must be a valid UUID" },
+          },
+        },
+        positionId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+        },
+        side: {
+          type: DataTypes.ENUM("BUY", "SELL"),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [["BUY", "SELL"]],
+              msg: "side: Must be either BUY or SELL",
+            },
+          },
+        },
+        amount: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          comment: "Size of the deleveraged position that was closed",
+        },
+        price: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          comment: "Bankruptcy price of the liquidated position",
+        },
+        markPrice: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+        },
+        pnl: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          comment: "PnL realized by the deleveraged position",
+        },
+        rankScore: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+        },
+        shortfallCovered: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+        },
+      },
+      {
+        sequelize,
+        modelName: "futuresAdlEvent",
+        tableName: "futures_adl_event",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "futuresAdlEventUserIdx",
+            using: "BTREE",
+            fields: [{ name: "userId" }],
+          },
+          {
+            name: "futuresAdlEventLiquidatedPositionIdx",
+            using: "BTREE",
+            fields: [{ name: "liquidatedPositionId" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    futuresAdlEvent.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    futuresAdlEvent.belongsTo(models.user, {
+      as: "liquidatedUser",
+      foreignKey: "liquidatedUserId",
+      constraints: false,
+    });
+  }
+}
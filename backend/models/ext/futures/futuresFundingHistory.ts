@@ -0,0 +1,130 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class futuresFundingHistory
+  extends Model<
+    futuresFundingHistoryAttributes,
+    futuresFundingHistoryCreationAttributes
+  >
+  implements futuresFundingHistoryAttributes
+{
+  id!: string;
+  userId!: string;
+  positionId!: string;
+  symbol!: string;
+  side!: "BUY" | "SELL";
+  amount!: number;
+  markPrice!: number;
+  indexPrice!: number;
+  fundingRate!: number;
+  payment!: number;
+  currency!: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof futuresFundingHistory {
+    return futuresFundingHistory.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "userId: User ID cannot be null" },
+            isUUID: { args: 4, msg: "userId: User ID must be a valid UUID" },
+          },
+        },
+        positionId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "positionId: Position ID cannot be null" },
+          },
+        },
+        symbol: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "symbol: Symbol must not be empty" },
+          },
+        },
+        side: {
+          type: DataTypes.ENUM("BUY", "SELL"),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [["BUY", "SELL"]],
+              msg: "side: Must be either BUY or SELL",
+            },
+          },
+        },
+        amount: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          comment: "Position size at the time of settlement",
+        },
+        markPrice: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+        },
+        indexPrice: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+        },
+        fundingRate: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+        },
+        payment: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          comment: "Funding received (positive) or paid (negative)",
+        },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+        },
+      },
+      {
+        sequelize,
+        modelName: "futuresFundingHistory",
+        tableName: "futures_funding_history",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "futuresFundingHistoryUserIdx",
+            using: "BTREE",
+            fields: [{ name: "userId" }],
+          },
+          {
+            name: "futuresFundingHistoryPositionIdx",
+            using: "BTREE",
+            fields: [{ name: "positionId" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    futuresFundingHistory.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class futuresInsuranceFund
+  extends Model<
+    futuresInsuranceFundAttributes,
+    futuresInsuranceFundCreationAttributes
+  >
+  implements futuresInsuranceFundAttributes
+{
+  id!: string;
+  currency!: string;
+  balance!: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof futuresInsuranceFund {
+    return futuresInsuranceFund.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          unique: "futuresInsuranceFundCurrencyKey",
+          validate: {
+            notEmpty: { msg: "currency: Currency must not be empty" },
+          },
+        },
+        balance: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+          validate: {
+            min: { args: [0], msg: "balance: Balance cannot be negative" },
+          },
+        },
+      },
+      {
+        sequelize,
+        modelName: "futuresInsuranceFund",
+        tableName: "futures_insurance_fund",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "futuresInsuranceFundCurrencyKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "currency" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    futuresInsuranceFund.hasMany(models.futuresInsuranceFundHistory, {
+      as: "history",
+      foreignKey: "fundId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class futuresInsuranceFundHistory
+  extends Model<
+    futuresInsuranceFundHistoryAttributes,
+    futuresInsuranceFundHistoryCreationAttributes
+  >
+  implements futuresInsuranceFundHistoryAttributes
+{
+  id!: string;
+  fundId!: string;
+  currency!: string;
+  type!: "LIQUIDATION_SURPLUS" | "LIQUIDATION_DEFICIT";
+  amount!: number;
+  balance!: number;
+  shortfall!: number;
+  symbol?: string;
+  userId?: string;
+  positionId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof futuresInsuranceFundHistory {
+    return futuresInsuranceFundHistory.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        fundId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "fundId: Fund ID cannot be null" },
+          },
+        },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+        },
+        type: {
+          type: DataTypes.ENUM("LIQUIDATION_SURPLUS", "LIQUIDATION_DEFICIT"),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [["LIQUIDATION_SURPLUS", "LIQUIDATION_DEFICIT"]],
+              msg: "type: Must be either LIQUIDATION_SURPLUS or LIQUIDATION_DEFICIT",
+            },
+          },
+        },
+        amount: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          comment: "Amount paid into (positive) or out of (negative) the fund",
+        },
+        balance: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          comment: "Fund balance after this entry",
+        },
+        shortfall: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+          comment: "Part of a deficit the fund could not cover",
+        },
+        symbol: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+        positionId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "futuresInsuranceFundHistory",
+        tableName: "futures_insurance_fund_history",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "futuresInsuranceFundHistoryFundIdx",
+            using: "BTREE",
+            fields: [{ name: "fundId" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    futuresInsuranceFundHistory.belongsTo(models.futuresInsuranceFund, {
+      as: "fund",
+      foreignKey: "fundId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    futuresInsuranceFundHistory.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      constraints: false,
+    });
+  }
+}
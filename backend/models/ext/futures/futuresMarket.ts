@@ -11,6 +11,12 @@ export default class futuresMarket
   isTrending?: boolean;
   isHot?: boolean;
   metadata?: string;
+  fundingIntervalHours!: number;
+  fundingRateCap!: number;
+  interestRate!: number;
+  fundingRate!: number;
+  nextFundingTime?: Date;
+  maintenanceMarginTiers?: futuresMaintenanceMarginTier[] | null;
   status!: boolean;
   createdAt?: Date;
   deletedAt?: Date;
@@ -76,6 +82,81 @@ export default class futuresMarket
             return value ? JSON.parse(value) : null;
           },
         },
+        fundingIntervalHours: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 8,
+          validate: {
+            isInt: { msg: "fundingIntervalHours: Must be an integer" },
+            min: {
+              args: [1],
+              msg: "fundingIntervalHours: Must be at least 1 hour",
+            },
+          },
+        },
+        fundingRateCap: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0.0075,
+          validate: {
+            isFloat: { msg: "fundingRateCap: Must be a number" },
+            min: { args: [0], msg: "fundingRateCap: Cannot be negative" },
+          },
+        },
+        interestRate: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0.0001,
+          validate: {
+            isFloat: { msg: "interestRate: Must be a number" },
+          },
+        },
+        fundingRate: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        nextFundingTime: {
+          type: DataTypes.DATE(3),
+          allowNull: true,
+        },
+        maintenanceMarginTiers: {
+          type: DataTypes.JSON,
+          allowNull: true,
+          validate: {
+            isValidTiers(value) {
+              if (value === null || value === undefined) return;
+              if (!Array.isArray(value) || value.length === 0) {
+                throw new Error(
+                  "maintenanceMarginTiers: Must be a non-empty array"
+                );
+              }
+              for (const tier of value) {
+                if (
+                  tier.maxNotional !== null &&
+                  !(Number(tier.maxNotional) > 0)
+                ) {
+                  throw new Error(
+                    "maintenanceMarginTiers: maxNotional must be positive or null"
+                  );
+                }
+                if (
+                  !(Number(tier.maintenanceMarginRate) > 0) ||
+                  Number(tier.maintenanceMarginRate) >= 1
+                ) {
+                  throw new Error(
+                    "maintenanceMarginTiers: maintenanceMarginRate must be between 0 and 1"
+                  );
+                }
+                if (!(Number(tier.maxLeverage) >= 1)) {
+                  throw new Error(
+                    "maintenanceMarginTiers: maxLeverage must be at least 1"
+                  );
+                }
+              }
+            },
+          },
+        },
         status: {
           type: DataTypes.BOOLEAN,
           allowNull: false,
@@ -16,6 +16,7 @@ export default class nftSale
   royaltyFee!: number;
   totalFee!: number;
   netAmount!: number;
+  refundedAmount?: number;
   transactionHash?: string;
   blockNumber?: number;
   status!: "PENDING" | "COMPLETED" | "FAILED" | "CANCELLED";
@@ -110,6 +111,14 @@ export default class nftSale
             min: { args: [0], msg: "netAmount: Net amount must be non-negative" },
           },
         },
+        refundedAmount: {
+          type: DataTypes.DECIMAL(36, 18),
+          allowNull: false,
+          defaultValue: 0,
+          validate: {
+            min: { args: [0], msg: "refundedAmount: Refunded amount must be non-negative" },
+          },
+        },
         transactionHash: {
           type: DataTypes.STRING(255),
           allowNull: true,
@@ -17,10 +17,14 @@ export default class p2pOffer
     availableBalance?: number;
   };
   public priceConfig!: {
-    model: "FIXED" | "MARGIN";
+    model: "FIXED" | "MARGIN" | "MARKET";
     value: number;
+    marginType?: "percentage" | "fixed";
+    floorPrice?: number;
+    ceilingPrice?: number;
     marketPrice?: number;
     finalPrice: number;
+    priceUpdatedAt?: string;
   };
   public tradeSettings!: {
     autoCancel: number;
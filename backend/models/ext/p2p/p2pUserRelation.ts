@@ -0,0 +1,130 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model, Optional } from "sequelize";
+
+export interface p2pUserRelationAttributes {
+  id: string;
+  userId: string;
+  targetUserId: string;
+  type: "TRUSTED" | "BLOCKED";
+  tradeId?: string;
+  note?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface p2pUserRelationCreationAttributes extends Optional<
+  p2pUserRelationAttributes,
+  "id" | "tradeId" | "note" | "createdAt" | "updatedAt"
+> {}
+
+export default class p2pUserRelation
+  extends Model<p2pUserRelationAttributes, p2pUserRelationCreationAttributes>
+  implements p2pUserRelationAttributes
+{
+  public id!: string;
+  public userId!: string;
+  public targetUserId!: string;
+  public type!: "TRUSTED" | "BLOCKED";
+  public tradeId?: string;
+  public note?: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof p2pUserRelation {
+    return p2pUserRelation.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "userId cannot be null" },
+            isUUID: { args: 4, msg: "userId must be a valid UUID" },
+          },
+        },
+        targetUserId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "targetUserId cannot be null" },
+            isUUID: { args: 4, msg: "targetUserId must be a valid UUID" },
+          },
+        },
+        type: {
+          type: DataTypes.ENUM("TRUSTED", "BLOCKED"),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [["TRUSTED", "BLOCKED"]],
+              msg: "type must be TRUSTED or BLOCKED",
+            },
+          },
+        },
+        tradeId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+          validate: {
+            isUUID: { args: 4, msg: "tradeId must be a valid UUID" },
+          },
+        },
+        note: {
+          type: DataTypes.STRING(255),
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "p2pUserRelation",
+        tableName: "p2p_user_relations",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "p2pUserRelationUserTargetKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "userId" }, { name: "targetUserId" }],
+          },
+          {
+            name: "p2pUserRelationTargetUserIdIdx",
+            using: "BTREE",
+            fields: [{ name: "targetUserId" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    p2pUserRelation.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    p2pUserRelation.belongsTo(models.user, {
+      as: "targetUser",
+      foreignKey: "targetUserId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    p2pUserRelation.belongsTo(models.p2pTrade, {
+      as: "trade",
+      foreignKey: "tradeId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -11,15 +11,32 @@ export default class paymentIntent
   id!: string;
   userId?: string;
   walletId?: string;
+  merchantId?: string;
+  walletType!: "FIAT" | "SPOT";
+  reference?: string | null;
   amount!: number;
   currency!: string;
   tax!: number; // New field
   discount!: number; // New field
-  status!: "PENDING" | "COMPLETED" | "FAILED" | "EXPIRED";
+  fee!: number;
+  refundedAmount!: number;
+  status!:
+    | "PENDING"
+    | "COMPLETED"
+    | "FAILED"
+    | "EXPIRED"
+    | "CANCELLED"
+    | "REFUNDED"
+    | "PARTIALLY_REFUNDED";
   ipnUrl!: string;
   apiKey!: string;
   successUrl!: string;
   failUrl!: string;
+  expiresAt?: Date | null;
+  paidAt?: Date | null;
+  ipnAttempts!: number;
+  ipnNextAttemptAt?: Date | null;
+  ipnDeliveredAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 
@@ -43,6 +60,21 @@ export default class paymentIntent
           type: DataTypes.UUID,
           allowNull: true,
         },
+        merchantId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+          comment: "Owner of the plugin API key that created the intent",
+        },
+        walletType: {
+          type: DataTypes.ENUM("FIAT", "SPOT"),
+          allowNull: false,
+          defaultValue: "SPOT",
+        },
+        reference: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+          comment: "Merchant's own order reference",
+        },
         amount: {
           type: DataTypes.DOUBLE,
           allowNull: false,
@@ -70,8 +102,27 @@ export default class paymentIntent
             isFloat: { msg: "discount: Discount must be a valid number" },
           },
         },
+        fee: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+          comment: "Gateway fee deducted from the merchant's proceeds",
+        },
+        refundedAmount: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
         status: {
-          type: DataTypes.ENUM("PENDING", "COMPLETED", "FAILED", "EXPIRED"),
+          type: DataTypes.ENUM(
+            "PENDING",
+            "COMPLETED",
+            "FAILED",
+            "EXPIRED",
+            "CANCELLED",
+            "REFUNDED",
+            "PARTIALLY_REFUNDED"
+          ),
           allowNull: false,
           defaultValue: "PENDING",
         },
@@ -102,6 +153,29 @@ export default class paymentIntent
           type: DataTypes.TEXT,
           allowNull: true,
         },
+        expiresAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        paidAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        ipnAttempts: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        ipnNextAttemptAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+          comment:
+            "When the next IPN delivery is due; null when none is pending",
+        },
+        ipnDeliveredAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
       },
       {
         sequelize,
@@ -119,6 +193,12 @@ export default class paymentIntent
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    paymentIntent.belongsTo(models.user, {
+      as: "merchant",
+      foreignKey: "merchantId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
     paymentIntent.belongsTo(models.wallet, {
       as: "wallet",
       foreignKey: "walletId",
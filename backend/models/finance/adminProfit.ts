@@ -20,7 +20,9 @@ export default class adminProfit
     | "FOREX_INVESTMENT"
     | "ICO_CONTRIBUTION"
     | "STAKING"
-    | "P2P_TRADE";
+    | "P2P_TRADE"
+    | "NFT_SALE"
+    | "PAYMENT";
   amount!: number;
   currency!: string;
   chain?: string | null;
@@ -64,7 +66,9 @@ export default class adminProfit
             "FOREX_INVESTMENT",
             "ICO_CONTRIBUTION",
             "STAKING",
-            "P2P_TRADE"
+            "P2P_TRADE",
+            "NFT_SALE",
+            "PAYMENT"
           ),
           allowNull: false,
           validate: {
@@ -84,6 +88,8 @@ export default class adminProfit
                   "ICO_CONTRIBUTION",
                   "STAKING",
                   "P2P_TRADE",
+                  "NFT_SALE",
+                  "PAYMENT",
                 ],
               ],
               msg: "type: Type must be one of the defined transaction types",
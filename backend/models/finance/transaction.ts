@@ -32,7 +32,10 @@ export default class transaction
     | "STAKING"
     | "STAKING_REWARD"
     | "P2P_OFFER_TRANSFER"
-    | "P2P_TRADE";
+    | "P2P_TRADE"
+    | "NFT_PURCHASE"
+    | "NFT_SALE"
+    | "NFT_ROYALTY";
   status!:
     | "PENDING"
     | "COMPLETED"
@@ -105,7 +108,10 @@ export default class transaction
             "STAKING",
             "STAKING_REWARD",
             "P2P_OFFER_TRANSFER",
-            "P2P_TRADE"
+            "P2P_TRADE",
+            "NFT_PURCHASE",
+            "NFT_SALE",
+            "NFT_ROYALTY"
           ),
           allowNull: false,
           validate: {
@@ -136,9 +142,12 @@ export default class transaction
                   "STAKING_REWARD",
                   "P2P_OFFER_TRANSFER",
                   "P2P_TRADE",
+                  "NFT_PURCHASE",
+                  "NFT_SALE",
+                  "NFT_ROYALTY",
                 ],
               ],
-              msg: "type: Type must be one of ['FAILED', 'DEPOSIT', 'WITHDRAW', 'OUTGOING_TRANSFER', 'INCOMING_TRANSFER', 'PAYMENT', 'REFUND', 'BINARY_ORDER', 'EXCHANGE_ORDER', 'INVESTMENT', 'INVESTMENT_ROI', 'AI_INVESTMENT', 'AI_INVESTMENT_ROI', 'INVOICE', 'FOREX_DEPOSIT', 'FOREX_WITHDRAW', 'FOREX_INVESTMENT', 'FOREX_INVESTMENT_ROI', 'ICO_CONTRIBUTION', 'REFERRAL_REWARD', 'STAKING', 'STAKING_REWARD', 'P2P_OFFER_TRANSFER', 'P2P_TRADE']",
+              msg: "type: Type must be one of ['FAILED', 'DEPOSIT', 'WITHDRAW', 'OUTGOING_TRANSFER', 'INCOMING_TRANSFER', 'PAYMENT', 'REFUND', 'BINARY_ORDER', 'EXCHANGE_ORDER', 'INVESTMENT', 'INVESTMENT_ROI', 'AI_INVESTMENT', 'AI_INVESTMENT_ROI', 'INVOICE', 'FOREX_DEPOSIT', 'FOREX_WITHDRAW', 'FOREX_INVESTMENT', 'FOREX_INVESTMENT_ROI', 'ICO_CONTRIBUTION', 'REFERRAL_REWARD', 'STAKING', 'STAKING_REWARD', 'P2P_OFFER_TRANSFER', 'P2P_TRADE', 'NFT_PURCHASE', 'NFT_SALE', 'NFT_ROYALTY']",
             },
           },
           comment: "Type of transaction (deposit, withdrawal, transfer, trading, etc.)",
@@ -274,5 +283,11 @@ export default class transaction
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    transaction.hasMany(models.withdrawalApproval, {
+      as: "withdrawalApprovals",
+      foreignKey: "transactionId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
   }
 }
@@ -0,0 +1,137 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import user from "../user";
+
+export default class withdrawalAddress
+  extends Model<
+    withdrawalAddressAttributes,
+    withdrawalAddressCreationAttributes
+  >
+  implements withdrawalAddressAttributes
+{
+  id!: string;
+  userId!: string;
+  chain!: string;
+  address!: string;
+  memo?: string;
+  label!: string;
+  status!: "PENDING" | "ACTIVE";
+  confirmedAt?: Date;
+  activatesAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // withdrawalAddress belongsTo user via userId
+  user!: user;
+  getUser!: Sequelize.BelongsToGetAssociationMixin<user>;
+  setUser!: Sequelize.BelongsToSetAssociationMixin<user, userId>;
+  createUser!: Sequelize.BelongsToCreateAssociationMixin<user>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof withdrawalAddress {
+    return withdrawalAddress.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "userId: User ID cannot be null" },
+            isUUID: { args: 4, msg: "userId: User ID must be a valid UUID" },
+          },
+          comment: "ID of the user who owns this address",
+        },
+        chain: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "chain: Chain must not be empty" },
+          },
+          comment: "Blockchain network of the address",
+        },
+        address: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "address: Address must not be empty" },
+          },
+          comment: "Destination address",
+        },
+        memo: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+          comment: "Memo or destination tag required by some networks",
+        },
+        label: {
+          type: DataTypes.STRING(100),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "label: Label must not be empty" },
+          },
+          comment: "Name the user gave to the address",
+        },
+        status: {
+          type: DataTypes.ENUM("PENDING", "ACTIVE"),
+          allowNull: false,
+          defaultValue: "PENDING",
+          validate: {
+            isIn: {
+              args: [["PENDING", "ACTIVE"]],
+              msg: "status: Status must be either 'PENDING' or 'ACTIVE'",
+            },
+          },
+          comment: "PENDING until the user confirms the address",
+        },
+        confirmedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+          comment: "When the user confirmed the address",
+        },
+        activatesAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+          comment: "When the confirmed address can first be withdrawn to",
+        },
+      },
+      {
+        sequelize,
+        modelName: "withdrawalAddress",
+        tableName: "withdrawal_address",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "withdrawalAddressUserChainAddressUnique",
+            unique: true,
+            using: "BTREE",
+            fields: [
+              { name: "userId" },
+              { name: "chain" },
+              { name: "address" },
+              { name: "memo" },
+            ],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    withdrawalAddress.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -0,0 +1,102 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import transaction from "./transaction";
+import user from "../user";
+
+export default class withdrawalApproval
+  extends Model<
+    withdrawalApprovalAttributes,
+    withdrawalApprovalCreationAttributes
+  >
+  implements withdrawalApprovalAttributes
+{
+  id!: string;
+  transactionId!: string;
+  adminId!: string;
+  note?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // withdrawalApproval belongsTo transaction via transactionId
+  transaction!: transaction;
+  getTransaction!: Sequelize.BelongsToGetAssociationMixin<transaction>;
+
+  // withdrawalApproval belongsTo user via adminId
+  admin!: user;
+  getAdmin!: Sequelize.BelongsToGetAssociationMixin<user>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof withdrawalApproval {
+    return withdrawalApproval.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        transactionId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "transactionId: Transaction ID cannot be null" },
+            isUUID: {
+              args: 4,
+              msg: "transactionId: Transaction ID must be a valid UUID",
+            },
+          },
+          comment: "ID of the withdrawal transaction being approved",
+        },
+        adminId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "adminId: Admin ID cannot be null" },
+            isUUID: { args: 4, msg: "adminId: Admin ID must be a valid UUID" },
+          },
+          comment: "ID of the admin who approved the withdrawal",
+        },
+        note: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+          comment: "Optional note left by the approving admin",
+        },
+      },
+      {
+        sequelize,
+        modelName: "withdrawalApproval",
+        tableName: "withdrawal_approval",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "withdrawalApprovalTransactionAdminUnique",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "transactionId" }, { name: "adminId" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    withdrawalApproval.belongsTo(models.transaction, {
+      as: "transaction",
+      foreignKey: "transactionId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    withdrawalApproval.belongsTo(models.user, {
+      as: "admin",
+      foreignKey: "adminId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
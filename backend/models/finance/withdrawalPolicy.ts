@@ -0,0 +1,148 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class withdrawalPolicy
+  extends Model<withdrawalPolicyAttributes, withdrawalPolicyCreationAttributes>
+  implements withdrawalPolicyAttributes
+{
+  id!: string;
+  name!: string;
+  kycLevel?: number | null;
+  walletType?: "FIAT" | "SPOT" | "ECO" | null;
+  currency?: string | null;
+  dailyLimit?: number | null;
+  monthlyLimit?: number | null;
+  dailyLimitUsd?: number | null;
+  monthlyLimitUsd?: number | null;
+  approvalThresholdUsd?: number | null;
+  requiredApprovals!: number;
+  status!: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof withdrawalPolicy {
+    return withdrawalPolicy.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        name: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "name: Name must not be empty" },
+          },
+          comment: "Name of the policy shown to admins",
+        },
+        kycLevel: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+          validate: {
+            min: { args: [0], msg: "kycLevel: KYC level cannot be negative" },
+          },
+          comment: "KYC level the policy applies to, any level when null",
+        },
+        walletType: {
+          type: DataTypes.ENUM("FIAT", "SPOT", "ECO"),
+          allowNull: true,
+          validate: {
+            isIn: {
+              args: [["FIAT", "SPOT", "ECO"]],
+              msg: "walletType: Wallet type must be 'FIAT', 'SPOT' or 'ECO'",
+            },
+          },
+          comment: "Wallet type the policy applies to, any type when null",
+        },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+          comment: "Currency the policy applies to, any currency when null",
+        },
+        dailyLimit: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            min: { args: [0], msg: "dailyLimit: Limit cannot be negative" },
+          },
+          comment: "Maximum amount in the currency over a rolling 24 hours",
+        },
+        monthlyLimit: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            min: { args: [0], msg: "monthlyLimit: Limit cannot be negative" },
+          },
+          comment: "Maximum amount in the currency over a rolling 30 days",
+        },
+        dailyLimitUsd: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            min: { args: [0], msg: "dailyLimitUsd: Limit cannot be negative" },
+          },
+          comment: "Maximum USD value over a rolling 24 hours",
+        },
+        monthlyLimitUsd: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            min: {
+              args: [0],
+              msg: "monthlyLimitUsd: Limit cannot be negative",
+            },
+          },
+          comment: "Maximum USD value over a rolling 30 days",
+        },
+        approvalThresholdUsd: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            min: {
+              args: [0],
+              msg: "approvalThresholdUsd: Threshold cannot be negative",
+            },
+          },
+          comment: "USD value from which a withdrawal needs admin approval",
+        },
+        requiredApprovals: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 1,
+          validate: {
+            isIn: {
+              args: [[1, 2]],
+              msg: "requiredApprovals: Required approvals must be 1 or 2",
+            },
+          },
+          comment: "Distinct admin approvals needed to release a withdrawal",
+        },
+        status: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+          comment: "Whether the policy is enforced",
+        },
+      },
+      {
+        sequelize,
+        modelName: "withdrawalPolicy",
+        tableName: "withdrawal_policy",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {}
+}
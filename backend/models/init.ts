@@ -2,6 +2,7 @@ import fs from "fs";
 import path from "path";
 import { Op, Sequelize } from "sequelize";
 import { RedisSingleton } from "@b/utils/redis";
+import { revokeUserSessions } from "@b/utils/session";
 
 // Check if the environment is production
 const isProduction = process.env.NODE_ENV === "production";
@@ -103,8 +104,16 @@ function extractUserIdsFromWhere(where: any): string[] {
 }
 
 /**
- * Returns hooks for cache invalidation that clear the Redis key:
+ * Clears the cached profile and KYC access of a user.
+ */
+async function clearUserCache(userId: string) {
+  await redis.del(`user:${userId}:profile`, `user:${userId}:kyc`);
+}
+
+/**
+ * Returns hooks for cache invalidation that clear the Redis keys:
  *   user:${userId}:profile
+ *   user:${userId}:kyc
  *
  * @param getUserId - A function to extract the user id from an instance (default: instance.userId)
  */
@@ -114,16 +123,13 @@ export function createUserCacheHooks(
   return {
     // Single record hooks
     afterCreate: async (instance: any) => {
-      const userId = getUserId(instance);
-      await redis.del(`user:${userId}:profile`);
+      await clearUserCache(getUserId(instance));
     },
     afterUpdate: async (instance: any) => {
-      const userId = getUserId(instance);
-      await redis.del(`user:${userId}:profile`);
+      await clearUserCache(getUserId(instance));
     },
     afterDestroy: async (instance: any) => {
-      const userId = getUserId(instance);
-      await redis.del(`user:${userId}:profile`);
+      await clearUserCache(getUserId(instance));
     },
 
     // Bulk hooks (use non-arrow functions so "this" refers to the model)
@@ -134,7 +140,7 @@ export function createUserCacheHooks(
         userIds = instances.map((inst: any) => getUserId(inst));
       }
       for (const uid of [...new Set(userIds)]) {
-        await redis.del(`user:${uid}:profile`);
+        await clearUserCache(uid);
       }
     },
 
@@ -145,10 +151,76 @@ export function createUserCacheHooks(
         userIds = instances.map((inst: any) => getUserId(inst));
       }
       for (const uid of [...new Set(userIds)]) {
-        await redis.del(`user:${uid}:profile`);
+        await clearUserCache(uid);
       }
     },
   };
 }
 
+// User statuses that end every session of the account
+const LOCKED_USER_STATUSES = ["SUSPENDED", "BANNED"];
+
+/**
+ * Returns user hooks that revoke every session of an account when its
+ * password changes or it is suspended or banned.
+ */
+export function createSessionRevocationHooks() {
+  return {
+    afterUpdate: async (instance: any) => {
+      if (
+        instance.changed("password") ||
+        (instance.changed("status") &&
+          LOCKED_USER_STATUSES.includes(instance.status))
+      ) {
+        await revokeUserSessions(instance.id);
+      }
+    },
+
+    afterBulkUpdate: async function (options: any) {
+      const values = options.attributes || {};
+      if (
+        values.password === undefined &&
+        !LOCKED_USER_STATUSES.includes(values.status)
+      ) {
+        return;
+      }
+
+      const id = options.where?.id;
+      let userIds: string[] = [];
+      if (typeof id === "string" || Array.isArray(id)) {
+        userIds = Array.isArray(id) ? id : [id];
+      } else {
+        const instances = await this.findAll({
+          where: options.where,
+          attributes: ["id"],
+        });
+        userIds = instances.map((inst: any) => inst.id);
+      }
+      for (const uid of [...new Set(userIds)]) {
+        await revokeUserSessions(uid);
+      }
+    },
+  };
+}
+
+/**
+ * Combines hook sets so that several of them can listen to the same event,
+ * running them in the order given.
+ */
+export function combineHooks(...hookSets: Record<string, any>[]) {
+  const combined: Record<string, any> = {};
+  for (const hooks of hookSets) {
+    for (const [name, hook] of Object.entries(hooks)) {
+      const previous = combined[name];
+      combined[name] = previous
+        ? async function (...args: any[]) {
+            await previous.apply(this, args);
+            await hook.apply(this, args);
+          }
+        : hook;
+    }
+  }
+  return combined;
+}
+
 export type Models = ReturnType<typeof initModels>;
@@ -9,10 +9,18 @@ export default class kycApplication
   id!: string;
   userId!: string;
   levelId!: string;
-  status!: "PENDING" | "APPROVED" | "REJECTED" | "ADDITIONAL_INFO_REQUIRED";
+  status!:
+    | "PENDING"
+    | "APPROVED"
+    | "REJECTED"
+    | "ADDITIONAL_INFO_REQUIRED"
+    | "EXPIRED";
   data!: any;
   adminNotes?: string;
   reviewedAt?: Date;
+  expiresAt?: Date | null;
+  documentExpiresAt?: Date | null;
+  expiryNotifiedAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
   deletedAt?: Date;
@@ -52,14 +60,21 @@ export default class kycApplication
             "PENDING",
             "APPROVED",
             "REJECTED",
-            "ADDITIONAL_INFO_REQUIRED"
+            "ADDITIONAL_INFO_REQUIRED",
+            "EXPIRED"
           ),
           allowNull: false,
           defaultValue: "PENDING",
           validate: {
             isIn: {
               args: [
-                ["PENDING", "APPROVED", "REJECTED", "ADDITIONAL_INFO_REQUIRED"],
+                [
+                  "PENDING",
+                  "APPROVED",
+                  "REJECTED",
+                  "ADDITIONAL_INFO_REQUIRED",
+                  "EXPIRED",
+                ],
               ],
               msg: "status: Invalid status value",
             },
@@ -81,6 +96,21 @@ export default class kycApplication
           allowNull: true,
           comment: "Date and time when the application was reviewed by admin",
         },
+        expiresAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+          comment: "When the approval lapses and the user must verify again",
+        },
+        documentExpiresAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+          comment: "Earliest expiry date of the documents in the submitted data",
+        },
+        expiryNotifiedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+          comment: "When the user was warned that the approval is about to expire",
+        },
       },
       {
         sequelize,
@@ -95,6 +125,11 @@ export default class kycApplication
             using: "BTREE",
             fields: [{ name: "id" }],
           },
+          {
+            name: "kycApplicationStatusExpiresAtIdx",
+            using: "BTREE",
+            fields: [{ name: "status" }, { name: "expiresAt" }],
+          },
         ],
         hooks: {
           ...createUserCacheHooks(),
@@ -13,6 +13,7 @@ export default class kycLevel
   level!: number;
   fields?: any;
   features?: any;
+  validityDays?: number | null;
   status!: "ACTIVE" | "DRAFT" | "INACTIVE";
   createdAt?: Date;
   updatedAt?: Date;
@@ -63,6 +64,20 @@ export default class kycLevel
           allowNull: true,
           comment: "Features and benefits unlocked at this KYC level",
         },
+        validityDays: {
+          type: DataTypes.INTEGER.UNSIGNED,
+          allowNull: true,
+          validate: {
+            isInt: {
+              msg: "validityDays: Validity must be a whole number of days",
+            },
+            min: {
+              args: [1],
+              msg: "validityDays: Validity must be at least one day",
+            },
+          },
+          comment: "Days an approval at this level stays valid before re-verification, null for no expiry",
+        },
         status: {
           type: DataTypes.ENUM("ACTIVE", "DRAFT", "INACTIVE"),
           allowNull: false,
@@ -91,10 +106,19 @@ export default class kycLevel
           },
         ],
         hooks: {
+          // Gated routes cache the active levels and what each unlocks
+          afterCreate: async () => {
+            await RedisSingleton.getInstance().del("kyc:levels");
+          },
+          afterDestroy: async () => {
+            await RedisSingleton.getInstance().del("kyc:levels");
+          },
+
           // Clear cache for all users with this KYC level when level is updated
           afterUpdate: async (instance: any) => {
             try {
               const redis = RedisSingleton.getInstance();
+              await redis.del("kyc:levels");
               // Get all users with this KYC level
               const applications = await sequelize.models.kycApplication.findAll({
                 where: { 
@@ -107,7 +131,10 @@ export default class kycLevel
               // Clear cache for all affected users
               for (const app of applications) {
                 const appData = app.get({ plain: true }) as any;
-                await redis.del(`user:${appData.userId}:profile`);
+                await redis.del(
+                  `user:${appData.userId}:profile`,
+                  `user:${appData.userId}:kyc`
+                );
               }
             } catch (error) {
               console.error("Error clearing user caches after KYC level update:", error);
@@ -119,6 +146,7 @@ export default class kycLevel
           afterBulkUpdate: async (options: any) => {
             try {
               const redis = RedisSingleton.getInstance();
+              await redis.del("kyc:levels");
               
               // Find all affected levels
               const levels = await kycLevel.findAll({ 
@@ -139,7 +167,10 @@ export default class kycLevel
                 // Clear cache for all affected users
                 for (const app of applications) {
                   const appData = app.get({ plain: true }) as any;
-                  await redis.del(`user:${appData.userId}:profile`);
+                  await redis.del(
+                    `user:${appData.userId}:profile`,
+                    `user:${appData.userId}:kyc`
+                  );
                 }
               }
             } catch (error) {
@@ -0,0 +1,188 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class kycScreeningMatch
+  extends Model<
+    kycScreeningMatchAttributes,
+    kycScreeningMatchCreationAttributes
+  >
+  implements kycScreeningMatchAttributes
+{
+  id!: string;
+  userId!: string;
+  applicationId?: string | null;
+  trigger!: "REGISTRATION" | "KYC_SUBMISSION" | "RESCAN";
+  source!: "OFAC" | "EU" | "UN";
+  externalId!: string;
+  entryId?: string | null;
+  entry!: kycScreeningMatchEntry;
+  screenedName!: string;
+  matchedName!: string;
+  score!: number;
+  birthDateMatched?: boolean | null;
+  status!: "PENDING" | "ACCEPTED" | "DISMISSED";
+  holdId?: string | null;
+  reviewedBy?: string | null;
+  reviewedAt?: Date | null;
+  reviewNote?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof kycScreeningMatch {
+    return kycScreeningMatch.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+          comment: "Unique identifier for the screening match",
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          comment: "ID of the screened user",
+        },
+        applicationId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+          comment: "KYC application whose submission triggered the screening",
+        },
+        trigger: {
+          type: DataTypes.ENUM("REGISTRATION", "KYC_SUBMISSION", "RESCAN"),
+          allowNull: false,
+          comment: "Event that ran the screening",
+        },
+        source: {
+          type: DataTypes.ENUM("OFAC", "EU", "UN"),
+          allowNull: false,
+          comment: "Sanctions list the matched entry belongs to",
+        },
+        externalId: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          comment: "Identifier of the matched entry in the source list",
+        },
+        entryId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+          comment:
+            "Matched watchlist entry, cleared when the list is imported again",
+        },
+        entry: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          comment: "Copy of the matched entry at the time of screening",
+        },
+        screenedName: {
+          type: DataTypes.STRING(500),
+          allowNull: false,
+          comment: "Name of the user that was screened",
+        },
+        matchedName: {
+          type: DataTypes.STRING(500),
+          allowNull: false,
+          comment: "Listed name or alias that matched",
+        },
+        score: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          validate: {
+            min: { args: [0], msg: "score: Cannot be negative" },
+            max: { args: [100], msg: "score: Cannot exceed 100" },
+          },
+          comment: "Match confidence from 0 to 100",
+        },
+        birthDateMatched: {
+          type: DataTypes.BOOLEAN,
+          allowNull: true,
+          comment:
+            "Whether the dates of birth agree, null when either side has none",
+        },
+        status: {
+          type: DataTypes.ENUM("PENDING", "ACCEPTED", "DISMISSED"),
+          allowNull: false,
+          defaultValue: "PENDING",
+          validate: {
+            isIn: {
+              args: [["PENDING", "ACCEPTED", "DISMISSED"]],
+              msg: "status: Must be 'PENDING', 'ACCEPTED' or 'DISMISSED'",
+            },
+          },
+          comment:
+            "Review outcome: ACCEPTED confirms the user is listed, DISMISSED marks a false positive",
+        },
+        holdId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+          comment: "User block holding the account while the match is reviewed",
+        },
+        reviewedBy: {
+          type: DataTypes.UUID,
+          allowNull: true,
+          comment: "ID of the admin who reviewed the match",
+        },
+        reviewedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+          comment: "When the match was reviewed",
+        },
+        reviewNote: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+          comment: "Reviewer's note on the decision",
+        },
+      },
+      {
+        sequelize,
+        modelName: "kycScreeningMatch",
+        tableName: "kyc_screening_match",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "kycScreeningMatchUserIdIdx",
+            using: "BTREE",
+            fields: [{ name: "userId" }],
+          },
+          {
+            name: "kycScreeningMatchStatusIdx",
+            using: "BTREE",
+            fields: [{ name: "status" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    kycScreeningMatch.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    kycScreeningMatch.belongsTo(models.user, {
+      as: "reviewer",
+      foreignKey: "reviewedBy",
+      constraints: false,
+    });
+    kycScreeningMatch.belongsTo(models.kycApplication, {
+      as: "application",
+      foreignKey: "applicationId",
+      constraints: false,
+    });
+    kycScreeningMatch.belongsTo(models.userBlock, {
+      as: "hold",
+      foreignKey: "holdId",
+      constraints: false,
+    });
+  }
+}
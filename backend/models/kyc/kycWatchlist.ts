@@ -0,0 +1,106 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class kycWatchlist
+  extends Model<kycWatchlistAttributes, kycWatchlistCreationAttributes>
+  implements kycWatchlistAttributes
+{
+  id!: string;
+  source!: "OFAC" | "EU" | "UN";
+  format!: "XML" | "CSV";
+  fileName!: string;
+  entryCount!: number;
+  status!: "ACTIVE" | "REPLACED";
+  importedBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(sequelize: Sequelize.Sequelize): typeof kycWatchlist {
+    return kycWatchlist.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+          comment: "Unique identifier for the watchlist import",
+        },
+        source: {
+          type: DataTypes.ENUM("OFAC", "EU", "UN"),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [["OFAC", "EU", "UN"]],
+              msg: "source: Source must be one of 'OFAC', 'EU' or 'UN'",
+            },
+          },
+          comment: "Authority that publishes the sanctions list",
+        },
+        format: {
+          type: DataTypes.ENUM("XML", "CSV"),
+          allowNull: false,
+          comment: "Format of the uploaded list file",
+        },
+        fileName: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "fileName: File name must not be empty" },
+          },
+          comment: "Name of the uploaded list file",
+        },
+        entryCount: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+          comment: "Number of entries imported from the file",
+        },
+        status: {
+          type: DataTypes.ENUM("ACTIVE", "REPLACED"),
+          allowNull: false,
+          defaultValue: "ACTIVE",
+          comment:
+            "ACTIVE lists are screened against; REPLACED imports are kept as history",
+        },
+        importedBy: {
+          type: DataTypes.UUID,
+          allowNull: true,
+          comment: "ID of the admin who uploaded the list",
+        },
+      },
+      {
+        sequelize,
+        modelName: "kycWatchlist",
+        tableName: "kyc_watchlist",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "kycWatchlistSourceStatusIdx",
+            using: "BTREE",
+            fields: [{ name: "source" }, { name: "status" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    kycWatchlist.hasMany(models.kycWatchlistEntry, {
+      as: "entries",
+      foreignKey: "watchlistId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    kycWatchlist.belongsTo(models.user, {
+      as: "importer",
+      foreignKey: "importedBy",
+      constraints: false,
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class kycWatchlistEntry
+  extends Model<
+    kycWatchlistEntryAttributes,
+    kycWatchlistEntryCreationAttributes
+  >
+  implements kycWatchlistEntryAttributes
+{
+  id!: string;
+  watchlistId!: string;
+  source!: "OFAC" | "EU" | "UN";
+  externalId!: string;
+  type!: "INDIVIDUAL" | "ENTITY";
+  name!: string;
+  aliases!: string[];
+  birthDates!: string[];
+  nationalities!: string[];
+  programs!: string[];
+  remarks?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof kycWatchlistEntry {
+    return kycWatchlistEntry.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+          comment: "Unique identifier for the watchlist entry",
+        },
+        watchlistId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          comment: "ID of the watchlist import this entry came from",
+        },
+        source: {
+          type: DataTypes.ENUM("OFAC", "EU", "UN"),
+          allowNull: false,
+          comment: "Authority that listed the person or entity",
+        },
+        externalId: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          comment: "Identifier of the entry in the source list",
+        },
+        type: {
+          type: DataTypes.ENUM("INDIVIDUAL", "ENTITY"),
+          allowNull: false,
+          defaultValue: "INDIVIDUAL",
+          comment: "Whether the entry lists a person or an organisation",
+        },
+        name: {
+          type: DataTypes.STRING(500),
+          allowNull: false,
+          comment: "Primary listed name",
+        },
+        aliases: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          defaultValue: [],
+          comment: "Other names the entry is known by",
+        },
+        birthDates: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          defaultValue: [],
+          comment:
+            "Listed dates of birth as YYYY-MM-DD, YYYY-MM or YYYY depending on precision",
+        },
+        nationalities: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          defaultValue: [],
+          comment: "Listed nationalities or citizenships",
+        },
+        programs: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          defaultValue: [],
+          comment: "Sanctions programmes or regimes the entry is listed under",
+        },
+        remarks: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+          comment: "Free text remarks from the source list",
+        },
+      },
+      {
+        sequelize,
+        modelName: "kycWatchlistEntry",
+        tableName: "kyc_watchlist_entry",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "kycWatchlistEntryWatchlistIdIdx",
+            using: "BTREE",
+            fields: [{ name: "watchlistId" }],
+          },
+          {
+            name: "kycWatchlistEntrySourceExternalIdIdx",
+            using: "BTREE",
+            fields: [{ name: "source" }, { name: "externalId" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    kycWatchlistEntry.belongsTo(models.kycWatchlist, {
+      as: "watchlist",
+      foreignKey: "watchlistId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
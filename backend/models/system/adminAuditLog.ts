@@ -0,0 +1,147 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+const appendOnly = () => {
+  throw new Error("Admin audit log entries cannot be modified or deleted");
+};
+
+export default class adminAuditLog
+  extends Model<adminAuditLogAttributes, adminAuditLogCreationAttributes>
+  implements adminAuditLogAttributes
+{
+  id!: string;
+  adminId!: string;
+  method!: string;
+  route!: string;
+  path!: string;
+  targetModel?: string | null;
+  targetId?: string | null;
+  changes?: adminAuditChange[] | null;
+  omittedChanges!: number;
+  requestBody?: Record<string, any> | null;
+  statusCode!: number;
+  error?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof adminAuditLog {
+    return adminAuditLog.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        adminId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            isUUID: { args: 4, msg: "adminId: Must be a valid UUID" },
+          },
+        },
+        method: {
+          type: DataTypes.STRING(10),
+          allowNull: false,
+        },
+        route: {
+          type: DataTypes.STRING(255),
+          allowNull: false,
+          comment: "Route pattern that handled the request",
+        },
+        path: {
+          type: DataTypes.STRING(255),
+          allowNull: false,
+          comment: "Requested URL path",
+        },
+        targetModel: {
+          type: DataTypes.STRING(100),
+          allowNull: true,
+        },
+        targetId: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+        },
+        changes: {
+          type: DataTypes.JSON,
+          allowNull: true,
+          comment:
+            "Records created, updated or deleted with before/after values",
+        },
+        omittedChanges: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+          comment: "Changes beyond the per-entry limit that were not listed",
+        },
+        requestBody: {
+          type: DataTypes.JSON,
+          allowNull: true,
+        },
+        statusCode: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+        },
+        error: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        ip: {
+          type: DataTypes.STRING(45),
+          allowNull: true,
+        },
+        userAgent: {
+          type: DataTypes.STRING(255),
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "adminAuditLog",
+        tableName: "admin_audit_log",
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "adminAuditLogAdminIdIdx",
+            using: "BTREE",
+            fields: [{ name: "adminId" }],
+          },
+          {
+            name: "adminAuditLogTargetIdx",
+            using: "BTREE",
+            fields: [{ name: "targetModel" }, { name: "targetId" }],
+          },
+          {
+            name: "adminAuditLogCreatedAtIdx",
+            using: "BTREE",
+            fields: [{ name: "createdAt" }],
+          },
+        ],
+        hooks: {
+          beforeUpdate: appendOnly,
+          beforeBulkUpdate: appendOnly,
+          beforeDestroy: appendOnly,
+          beforeBulkDestroy: appendOnly,
+        },
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    adminAuditLog.belongsTo(models.user, {
+      as: "admin",
+      foreignKey: "adminId",
+      constraints: false,
+    });
+  }
+}
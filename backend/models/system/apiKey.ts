@@ -13,6 +13,7 @@ export default class apiKey
   permissions!: string[];
   ipRestriction!: boolean;
   ipWhitelist!: string[];
+  secret?: string;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -73,6 +74,12 @@ export default class apiKey
           allowNull: false,
           defaultValue: [],
         },
+        secret: {
+          type: DataTypes.STRING(255),
+          allowNull: true,
+          comment:
+            "HMAC secret; when set, requests made with this key must be signed",
+        },
       },
       {
         sequelize,
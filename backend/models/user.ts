@@ -1,6 +1,10 @@
 import * as Sequelize from "sequelize";
 import { DataTypes, Model } from "sequelize";
-import { createUserCacheHooks } from "./init";
+import {
+  combineHooks,
+  createSessionRevocationHooks,
+  createUserCacheHooks,
+} from "./init";
 
 export default class user
   extends Model<userAttributes, userCreationAttributes>
@@ -214,9 +218,10 @@ export default class user
             fields: [{ name: "roleId" }],
           },
         ],
-        hooks: {
-          ...createUserCacheHooks((instance) => instance.id),
-        },
+        hooks: combineHooks(
+          createUserCacheHooks((instance) => instance.id),
+          createSessionRevocationHooks()
+        ),
       }
     );
   }
@@ -287,6 +292,18 @@ export default class user
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    user.hasMany(models.priceAlert, {
+      as: "priceAlerts",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    user.hasMany(models.withdrawalAddress, {
+      as: "withdrawalAddresses",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
     user.hasMany(models.forexAccount, {
       as: "forexAccounts",
       foreignKey: "userId",
@@ -377,6 +394,12 @@ export default class user
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    user.hasMany(models.webAuthnCredential, {
+      as: "webAuthnCredentials",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
     user.hasMany(models.wallet, {
       as: "wallets",
       foreignKey: "userId",
@@ -423,6 +446,12 @@ export default class user
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    user.hasMany(models.p2pUserRelation, {
+      as: "p2pUserRelations",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
 
     // NFT associations
     user.hasOne(models.nftCreator, {
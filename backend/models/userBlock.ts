@@ -7,7 +7,7 @@ export default class userBlock
 {
   id!: string;
   userId!: string;
-  adminId!: string;
+  adminId?: string | null; // Null for holds placed automatically
   reason!: string;
   isTemporary!: boolean;
   duration?: number; // Duration in hours
@@ -32,8 +32,9 @@ export default class userBlock
         },
         adminId: {
           type: DataTypes.UUID,
-          allowNull: false,
-          comment: "ID of the admin who created this block",
+          allowNull: true,
+          comment:
+            "ID of the admin who created this block, null for automatic holds",
         },
         reason: {
           type: DataTypes.TEXT,
@@ -133,7 +134,7 @@ export default class userBlock
 export interface userBlockAttributes {
   id: string;
   userId: string;
-  adminId: string;
+  adminId?: string | null;
   reason: string;
   isTemporary: boolean;
   duration?: number;
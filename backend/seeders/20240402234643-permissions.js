@@ -34,6 +34,7 @@ const permissionsList = [
   "access.ecommerce.product",
   "access.ecommerce.review",
   "access.ecommerce.shipping",
+  "access.ecommerce.tax",
   "access.ecommerce.wishlist",
   "access.ecosystem",
   "access.ecosystem.custodial.wallet",
@@ -43,6 +44,7 @@ const permissionsList = [
   "access.ecosystem.private.ledger",
   "access.ecosystem.token",
   "access.ecosystem.utxo",
+  "access.ecosystem.withdrawal",
   "access.exchange",
   "access.exchange.market",
   "access.exchange.order",
@@ -59,6 +61,8 @@ const permissionsList = [
   "access.futures.market",
   "access.futures.order",
   "access.futures.position",
+  "access.futures.insurance",
+  "access.futures.adl",
   "access.ico.offer",
   "access.ico.stat",
   "access.ico.transaction",
@@ -82,12 +86,14 @@ const permissionsList = [
   "access.support.ticket",
   "access.system.announcement",
   "access.system.log",
+  "access.system.audit",
   "access.transaction",
   "access.transfer",
   "access.user",
   "access.wallet",
   "access.withdraw",
   "access.withdraw.method",
+  "access.withdraw.policy",
   "create.admin.profit",
   "create.affiliate.condition",
   "create.affiliate.referral",
@@ -115,6 +121,7 @@ const permissionsList = [
   "create.ecommerce.product",
   "create.ecommerce.review",
   "create.ecommerce.shipping",
+  "create.ecommerce.tax",
   "create.ecommerce.wishlist",
   "create.ecosystem.custodial.wallet",
   "create.ecosystem.market",
@@ -145,6 +152,7 @@ const permissionsList = [
   "create.investment.duration",
   "create.investment.plan",
   "create.kyc.level",
+  "create.kyc.screening",
   "create.license",
   "create.mailwizard.campaign",
   "create.mailwizard.template",
@@ -170,9 +178,11 @@ const permissionsList = [
   "create.user",
   "import.user",
   "export.user",
+  "export.system.audit",
   "create.wallet",
   "create.withdraw",
   "create.withdraw.method",
+  "create.withdraw.policy",
   "delete.admin.profit",
   "delete.affiliate.condition",
   "delete.affiliate.referral",
@@ -200,6 +210,7 @@ const permissionsList = [
   "delete.ecommerce.product",
   "delete.ecommerce.review",
   "delete.ecommerce.shipping",
+  "delete.ecommerce.tax",
   "delete.ecommerce.wishlist",
   "delete.ecosystem.custodial.wallet",
   "delete.ecosystem.market",
@@ -231,6 +242,7 @@ const permissionsList = [
   "delete.investment.plan",
   "delete.kyc.application",
   "delete.kyc.level",
+  "delete.kyc.screening",
   "delete.mailwizard.campaign",
   "delete.mailwizard.template",
   "delete.notification.template",
@@ -254,6 +266,7 @@ const permissionsList = [
   "delete.wallet",
   "delete.withdraw",
   "delete.withdraw.method",
+  "delete.withdraw.policy",
   "edit.admin.profit",
   "edit.affiliate.condition",
   "edit.affiliate.referral",
@@ -281,6 +294,7 @@ const permissionsList = [
   "edit.ecommerce.product",
   "edit.ecommerce.review",
   "edit.ecommerce.shipping",
+  "edit.ecommerce.tax",
   "edit.ecommerce.wishlist",
   "edit.ecosystem.blockchain",
   "edit.ecosystem.custodial.wallet",
@@ -290,6 +304,7 @@ const permissionsList = [
   "edit.ecosystem.private.ledger",
   "edit.ecosystem.token",
   "edit.ecosystem.utxo",
+  "edit.ecosystem.withdrawal",
   "edit.exchange",
   "edit.exchange.market",
   "edit.exchange.order",
@@ -316,6 +331,7 @@ const permissionsList = [
   "edit.investment.plan",
   "edit.kyc.application",
   "edit.kyc.level",
+  "edit.kyc.screening",
   "edit.kyc.verification",
   "edit.mailwizard.campaign",
   "edit.mailwizard.template",
@@ -342,6 +358,7 @@ const permissionsList = [
   "edit.wallet",
   "edit.withdraw",
   "edit.withdraw.method",
+  "edit.withdraw.policy",
   "view.admin.profit",
   "view.affiliate.condition",
   "view.affiliate.referral",
@@ -371,6 +388,7 @@ const permissionsList = [
   "view.ecommerce.product",
   "view.ecommerce.review",
   "view.ecommerce.shipping",
+  "view.ecommerce.tax",
   "view.ecommerce.wishlist",
   "view.ecosystem.blockchain",
   "view.ecosystem.custodial.wallet",
@@ -380,6 +398,7 @@ const permissionsList = [
   "view.ecosystem.private.ledger",
   "view.ecosystem.token",
   "view.ecosystem.utxo",
+  "view.ecosystem.withdrawal",
   "view.exchange",
   "view.exchange.balance",
   "view.exchange.fee",
@@ -402,6 +421,8 @@ const permissionsList = [
   "view.futures.market",
   "view.futures.order",
   "view.futures.position",
+  "view.futures.insurance",
+  "view.futures.adl",
   "view.ico.offer",
   "view.ico.settings",
   "view.ico.transaction",
@@ -410,6 +431,7 @@ const permissionsList = [
   "view.investment.plan",
   "view.kyc.application",
   "view.kyc.level",
+  "view.kyc.screening",
   "view.kyc.verification",
   "view.mailwizard.campaign",
   "view.mailwizard.template",
@@ -432,12 +454,14 @@ const permissionsList = [
   "view.support.ticket",
   "view.system.announcement",
   "view.system.log",
+  "view.system.audit",
   "view.transaction",
   "view.transfer",
   "view.user",
   "view.wallet",
   "view.withdraw",
   "view.withdraw.method",
+  "view.withdraw.policy",
   "access.nft",
   "access.nft.category",
   "access.nft.collection",
@@ -446,6 +470,9 @@ const permissionsList = [
   "access.nft.auction",
   "access.nft.activity",
   "access.nft.sale",
+  "access.nft.offer",
+  "access.nft.creator",
+  "access.nft.dispute",
   "access.nft.analytics",
   "access.nft.settings",
   "access.nft.staking",
@@ -464,6 +491,9 @@ const permissionsList = [
   "edit.nft.auction",
   "edit.nft.activity",
   "edit.nft.sale",
+  "edit.nft.offer",
+  "edit.nft.creator",
+  "edit.nft.dispute",
   "edit.nft.analytics",
   "edit.nft.settings",
   "edit.nft.staking",
@@ -474,6 +504,7 @@ const permissionsList = [
   "delete.nft.auction",
   "delete.nft.activity",
   "delete.nft.sale",
+  "delete.nft.offer",
   "delete.nft.staking",
   "view.nft.category",
   "view.nft.collection",
@@ -482,6 +513,9 @@ const permissionsList = [
   "view.nft.auction",
   "view.nft.activity",
   "view.nft.sale",
+  "view.nft.offer",
+  "view.nft.creator",
+  "view.nft.dispute",
   "view.nft.analytics",
   "view.nft.settings",
   "view.nft.staking",
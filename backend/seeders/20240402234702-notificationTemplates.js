@@ -1109,6 +1109,40 @@ const notificationTemplates = [
     shortCodes: ["SELLER_NAME", "OFFERING_NAME", "TRANSACTION_ID"],
     email: true,
   },
+  {
+    id: 74,
+    name: "PriceAlertTriggered",
+    subject: "Price Alert: %SYMBOL%",
+    emailBody:
+      "<p>Dear %FIRSTNAME%,</p><p>Your price alert for <strong>%SYMBOL%</strong> has been triggered.</p><p>Condition: %CONDITION%</p><p>Current price: %PRICE%</p><p>Note: %NOTE%</p><p>Triggered at: %TRIGGERED_AT%</p><p>You can manage your alerts from the trading page.</p>",
+    shortCodes: [
+      "FIRSTNAME",
+      "SYMBOL",
+      "CONDITION",
+      "PRICE",
+      "NOTE",
+      "TRIGGERED_AT",
+    ],
+    email: true,
+  },
+  {
+    id: 75,
+    name: "WithdrawalAddressConfirmation",
+    subject: "Confirm your withdrawal address book change",
+    emailBody:
+      "<p>Dear %FIRSTNAME%,</p><p>Use the code below to confirm the following change to your withdrawal address book:</p><p><strong>%ACTION%</strong></p><p style='font-size:20px;letter-spacing:4px;'><strong>%CODE%</strong></p><p>The code expires in %EXPIRES% minutes. If you did not request this change, do not share the code and secure your account immediately.</p>",
+    shortCodes: ["FIRSTNAME", "ACTION", "CODE", "EXPIRES"],
+    email: true,
+  },
+  {
+    id: 76,
+    name: "WithdrawalAddressBookChanged",
+    subject: "Your withdrawal address book was changed",
+    emailBody:
+      "<p>Dear %FIRSTNAME%,</p><p>The following change was made to your withdrawal address book:</p><p><strong>%ACTION%</strong></p><p>Address: %ADDRESS%</p><p>Time: %CHANGED_AT%</p><p>If you did not make this change, change your password, review your 2FA settings and contact support immediately.</p>",
+    shortCodes: ["FIRSTNAME", "ACTION", "ADDRESS", "CHANGED_AT"],
+    email: true,
+  },
 ];
 
 /** @type {import('sequelize-cli').Migration} */
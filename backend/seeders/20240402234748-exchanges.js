@@ -24,6 +24,14 @@ const Exchanges = [
     version: "1.0.0",
     type: "spot",
   },
+  // simulated venue for staging, demos and tests
+  {
+    name: "paper",
+    title: "Paper Trading",
+    productId: "PAPER",
+    version: "1.0.0",
+    type: "spot",
+  },
 ];
 
 /** @type {import('sequelize-cli').Migration} */
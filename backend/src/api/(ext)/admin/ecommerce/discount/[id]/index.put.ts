@@ -1,5 +1,5 @@
 import { updateRecord, updateRecordResponses } from "@b/utils/query";
-import { discountUpdateSchema } from "../utils";
+import { discountUpdateSchema, getDiscountData } from "../utils";
 
 export const metadata: OperationObject = {
   summary: "Updates a specific ecommerce discount",
@@ -33,13 +33,6 @@ export const metadata: OperationObject = {
 export default async (data) => {
   const { body, params } = data;
   const { id } = params;
-  const { code, percentage, validUntil, productId, status } = body;
 
-  return await updateRecord("ecommerceDiscount", id, {
-    code,
-    percentage,
-    validUntil,
-    productId,
-    status,
-  });
+  return await updateRecord("ecommerceDiscount", id, getDiscountData(body));
 };
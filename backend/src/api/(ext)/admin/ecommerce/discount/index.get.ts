@@ -54,7 +54,13 @@ export default async (data: Handler) => {
     model: models.ecommerceDiscount,
     query,
     sortField: query.sortField || "validUntil",
-    numericFields: ["percentage"],
+    numericFields: [
+      "percentage",
+      "amount",
+      "minSpend",
+      "maxUses",
+      "usageCount",
+    ],
     includeModels: [
       {
         model: models.ecommerceProduct,
@@ -1,7 +1,11 @@
 // /api/admin/ecommerce/discounts/store.post.ts
 
 import { storeRecord, storeRecordResponses } from "@b/utils/query";
-import { discountStoreSchema, discountUpdateSchema } from "./utils";
+import {
+  discountStoreSchema,
+  discountUpdateSchema,
+  getDiscountData,
+} from "./utils";
 
 export const metadata: OperationObject = {
   summary: "Stores a new E-commerce Discount",
@@ -22,16 +26,9 @@ export const metadata: OperationObject = {
 
 export default async (data: Handler) => {
   const { body } = data;
-  const { code, percentage, validUntil, productId, status } = body;
 
   return await storeRecord({
     model: "ecommerceDiscount",
-    data: {
-      code,
-      percentage,
-      validUntil,
-      productId,
-      status,
-    },
+    data: getDiscountData(body),
   });
 };
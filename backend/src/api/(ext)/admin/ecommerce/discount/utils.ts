@@ -3,19 +3,47 @@ import {
   baseNumberSchema,
   baseDateTimeSchema,
   baseBooleanSchema,
+  baseEnumSchema,
+  baseIntegerSchema,
 } from "@b/utils/schema";
+import { createError } from "@b/utils/error";
 
 const id = baseStringSchema("ID of the e-commerce discount");
 const code = baseStringSchema("Discount code", 191);
+const type = baseEnumSchema("How the discount is applied", [
+  "PERCENTAGE",
+  "FIXED",
+  "FREE_SHIPPING",
+]);
 const percentage = baseNumberSchema("Discount percentage", false);
+const amount = baseNumberSchema("Amount taken off a fixed discount", true);
+const minSpend = baseNumberSchema(
+  "Cart subtotal required to use the code",
+  true
+);
+const maxUses = baseIntegerSchema(
+  "Number of orders the code can be used on, empty for unlimited",
+  true
+);
+const usageCount = baseIntegerSchema("Number of orders that used the code");
 const validUntil = baseDateTimeSchema("Validity date of the discount", false);
-const productId = baseStringSchema("Associated product ID");
+const productId = baseStringSchema(
+  "Associated product ID, empty for a cart-wide code",
+  191,
+  0,
+  true
+);
 const status = baseBooleanSchema("Status of the discount");
 
 export const ecommerceDiscountSchema = {
   id,
   code,
+  type,
   percentage,
+  amount,
+  minSpend,
+  maxUses,
+  usageCount,
   validUntil,
   productId,
   status,
@@ -24,7 +52,12 @@ export const ecommerceDiscountSchema = {
 export const baseEcommerceDiscountSchema = {
   id,
   code,
+  type,
   percentage,
+  amount,
+  minSpend,
+  maxUses,
+  usageCount,
   validUntil,
   productId,
   status,
@@ -34,12 +67,16 @@ export const discountUpdateSchema = {
   type: "object",
   properties: {
     code,
+    type,
     percentage,
+    amount,
+    minSpend,
+    maxUses,
     validUntil,
     productId,
     status,
   },
-  required: ["code", "percentage", "validUntil", "productId", "status"],
+  required: ["code", "validUntil", "status"],
 };
 
 export const discountStoreSchema = {
@@ -53,3 +90,46 @@ export const discountStoreSchema = {
     },
   },
 };
+
+/**
+ * Picks the discount fields from a request and checks that the value matches
+ * the discount type. An empty product makes the code cart-wide.
+ */
+export function getDiscountData(body: Record<string, any>) {
+  const {
+    code,
+    type = "PERCENTAGE",
+    percentage,
+    amount,
+    minSpend,
+    maxUses,
+    validUntil,
+    productId,
+    status,
+  } = body;
+
+  if (type === "PERCENTAGE" && !(percentage > 0 && percentage <= 100)) {
+    throw createError({
+      statusCode: 400,
+      message: "Percentage discounts need a percentage between 1 and 100",
+    });
+  }
+  if (type === "FIXED" && !(amount > 0)) {
+    throw createError({
+      statusCode: 400,
+      message: "Fixed discounts need an amount greater than 0",
+    });
+  }
+
+  return {
+    code,
+    type,
+    percentage: type === "PERCENTAGE" ? percentage : 0,
+    amount: type === "FIXED" ? amount : null,
+    minSpend: minSpend || null,
+    maxUses: maxUses || null,
+    validUntil,
+    productId: productId || null,
+    status,
+  };
+}
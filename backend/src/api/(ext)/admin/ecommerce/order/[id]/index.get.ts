@@ -6,6 +6,7 @@ import {
 } from "@b/utils/query";
 import { baseEcommerceOrderSchema } from "../utils";
 import { models } from "@b/db";
+import { getNextOrderStatuses } from "@b/api/(ext)/ecommerce/utils/order";
 
 export const metadata: OperationObject = {
   summary: "Retrieves detailed information of a specific ecommerce order by ID",
@@ -44,12 +45,20 @@ export const metadata: OperationObject = {
 export default async (data) => {
   const { params } = data;
 
-  const order = await getRecord("ecommerceOrder", params.id, [
+  const order: any = await getRecord("ecommerceOrder", params.id, [
     {
       model: models.ecommerceProduct,
       as: "products",
       through: {
-        attributes: ["quantity", "key", "filePath", "id", "instructions"],
+        attributes: [
+          "quantity",
+          "variantId",
+          "price",
+          "key",
+          "filePath",
+          "id",
+          "instructions",
+        ],
       },
       attributes: [
         "name",
@@ -77,6 +86,25 @@ export default async (data) => {
       model: models.ecommerceShippingAddress,
       as: "shippingAddress",
     },
+    {
+      model: models.ecommerceOrderItem,
+      as: "ecommerceOrderItems",
+      attributes: ["id", "productId", "variantId", "quantity", "price"],
+      includeModels: [
+        {
+          model: models.ecommerceProductVariant,
+          as: "variant",
+          attributes: ["id", "sku", "options"],
+          paranoid: false,
+        },
+      ],
+    },
+    {
+      model: models.ecommerceDiscount,
+      as: "discount",
+      attributes: ["id", "code", "type"],
+      paranoid: false,
+    },
     {
       model: models.ecommerceShipping,
       as: "shipping",
@@ -92,6 +120,7 @@ export default async (data) => {
 
   return {
     order,
+    nextStatuses: getNextOrderStatuses(order.status),
     shipments: shipments.map((shipment) => shipment.get({ plain: true })),
   };
 };
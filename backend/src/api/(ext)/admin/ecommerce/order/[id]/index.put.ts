@@ -1,9 +1,11 @@
 import { updateRecordResponses } from "@b/utils/query";
+import { ecommerceOrderUpdateSchema } from "../utils";
+import { sequelize } from "@b/db";
 import {
-  ecommerceOrderUpdateSchema,
-  sendOrderStatusUpdateEmail,
-} from "../utils";
-import { models, sequelize } from "@b/db";
+  getLockedOrder,
+  notifyOrderStatus,
+  transitionOrder,
+} from "@b/api/(ext)/ecommerce/utils/order";
 
 export const metadata: OperationObject = {
   summary: "Updates a specific ecommerce order",
@@ -37,47 +39,22 @@ export const metadata: OperationObject = {
 export default async (data) => {
   const { body, params } = data;
   const { id } = params;
-  const { status } = body;
-
-  const order = await models.ecommerceOrder.findByPk(id);
-  if (!order) {
-    throw new Error("Order not found");
-  }
-
-  if (order.status !== "PENDING") {
-    throw new Error("Order status is not PENDING");
-  }
-
-  const transaction = await models.transaction.findOne({
-    where: { referenceId: order.id },
-  });
-
-  if (!transaction) {
-    throw new Error("Transaction not found");
-  }
-
-  const wallet = await models.wallet.findByPk(transaction.walletId);
-
-  if (!wallet) {
-    throw new Error("Wallet not found");
-  }
-
-  await sequelize.transaction(async (t) => {
-    order.status = status;
-    await order.save({ transaction: t });
-
-    if (status === "CANCELLED" || status === "REJECTED") {
-      wallet.balance += transaction.amount;
-      wallet.save({ transaction: t });
+  const { status, trackingNumber, reason } = body;
+
+  const { order, refunded } = await sequelize.transaction(
+    async (transaction) => {
+      const order = await getLockedOrder(id, transaction);
+      const refunded = await transitionOrder(
+        order,
+        status,
+        { trackingNumber, reason },
+        transaction
+      );
+      return { order, refunded };
     }
+  );
 
-    return order;
-  });
+  await notifyOrderStatus(order, status, refunded);
 
-  try {
-    const user = await models.user.findByPk(order.userId);
-    await sendOrderStatusUpdateEmail(user, order, status);
-  } catch (error) {
-    console.error("Failed to send order status update email:", error);
-  }
+  return { message: "Order updated successfully" };
 };
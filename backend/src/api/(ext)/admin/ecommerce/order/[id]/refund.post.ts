@@ -0,0 +1,118 @@
+import { sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  getLockedOrder,
+  isOrderFinal,
+  notifyOrderStatus,
+  refundOrder,
+  transitionOrder,
+} from "@b/api/(ext)/ecommerce/utils/order";
+
+export const metadata: OperationObject = {
+  summary: "Refunds an ecommerce order",
+  description:
+    "Credits part or all of an order's payment back to the wallet it was paid from. Once the whole payment has been refunded the order is marked as refunded and its stock and discount are released.",
+  operationId: "refundEcommerceOrder",
+  tags: ["Admin", "Ecommerce Orders"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the ecommerce order to refund",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            amount: {
+              type: "number",
+              description:
+                "Amount to refund, defaults to everything not yet refunded",
+              nullable: true,
+            },
+            reason: {
+              type: "string",
+              description: "Reason shown to the buyer",
+              nullable: true,
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Order refunded successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              refunded: { type: "number" },
+              remaining: { type: "number" },
+              status: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid refund amount or order status" },
+    401: { description: "Unauthorized" },
+    404: { description: "Order not found" },
+  },
+  requiresAuth: true,
+  permission: "edit.ecommerce.order",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const amount =
+    body.amount === undefined || body.amount === null
+      ? null
+      : parseFloat(body.amount);
+
+  const { order, refunded, remaining } = await sequelize.transaction(
+    async (transaction) => {
+      const order = await getLockedOrder(params.id, transaction);
+      if (isOrderFinal(order.status)) {
+        throw createError({
+          statusCode: 400,
+          message: `A ${order.status.toLowerCase()} order cannot be refunded`,
+        });
+      }
+
+      const { amount: refunded, remaining } = await refundOrder(
+        order,
+        amount,
+        body.reason || null,
+        transaction
+      );
+      if (remaining <= 0) {
+        await transitionOrder(
+          order,
+          "REFUNDED",
+          { reason: body.reason || null },
+          transaction
+        );
+      }
+      return { order, refunded, remaining };
+    }
+  );
+
+  await notifyOrderStatus(order, order.status, refunded);
+
+  return {
+    message: "Order refunded successfully",
+    refunded,
+    remaining,
+    status: order.status,
+  };
+};
@@ -1,9 +1,16 @@
-import { models, sequelize } from "@b/db";
-import { updateRecordResponses, updateStatus } from "@b/utils/query";
-import { sendOrderStatusUpdateEmail } from "./utils";
+import { sequelize } from "@b/db";
+import { updateRecordResponses } from "@b/utils/query";
+import {
+  getLockedOrder,
+  notifyOrderStatus,
+  ORDER_STATUSES,
+  transitionOrder,
+} from "@b/api/(ext)/ecommerce/utils/order";
 
 export const metadata: OperationObject = {
   summary: "Bulk updates the status of ecommerce orders",
+  description:
+    "Moves several orders to the same status. Every order must allow the change, otherwise none is updated.",
   operationId: "bulkUpdateEcommerceOrderStatus",
   tags: ["Admin", "Ecommerce Orders"],
   requestBody: {
@@ -20,7 +27,7 @@ export const metadata: OperationObject = {
             },
             status: {
               type: "string",
-              enum: ["PENDING", "COMPLETED", "CANCELLED", "REJECTED"],
+              enum: [...ORDER_STATUSES],
               description: "New status to apply to the ecommerce orders",
             },
           },
@@ -38,48 +45,19 @@ export default async (data: Handler) => {
   const { body } = data;
   const { ids, status } = body;
 
-  const orders = await models.ecommerceOrder.findAll({
-    where: { id: ids },
+  const updated = await sequelize.transaction(async (transaction) => {
+    const updated: { order: any; refunded: number }[] = [];
+    for (const id of ids) {
+      const order = await getLockedOrder(id, transaction);
+      const refunded = await transitionOrder(order, status, {}, transaction);
+      updated.push({ order, refunded });
+    }
+    return updated;
   });
 
-  if (!orders.length) {
-    throw new Error("Orders not found");
+  for (const { order, refunded } of updated) {
+    await notifyOrderStatus(order, status, refunded);
   }
 
-  await sequelize.transaction(async (t) => {
-    for (const order of orders) {
-      if (order.status !== "PENDING") {
-        throw new Error(`Order ${order.id} status is not PENDING`);
-      }
-
-      const transaction = await models.transaction.findOne({
-        where: { referenceId: order.id },
-      });
-
-      if (!transaction) {
-        throw new Error(`Transaction not found for order ${order.id}`);
-      }
-
-      const wallet = await models.wallet.findByPk(transaction.walletId);
-
-      if (!wallet) {
-        throw new Error(`Wallet not found for transaction ${transaction.id}`);
-      }
-
-      order.status = status;
-      await order.save({ transaction: t });
-
-      if (status === "CANCELLED" || status === "REJECTED") {
-        wallet.balance += transaction.amount;
-        await wallet.save({ transaction: t });
-      }
-    }
-
-    await Promise.all(
-      orders.map(async (order) => {
-        const user = await models.user.findByPk(order.userId);
-        await sendOrderStatusUpdateEmail(user, order, status);
-      })
-    );
-  });
+  return { message: "Order statuses updated successfully" };
 };
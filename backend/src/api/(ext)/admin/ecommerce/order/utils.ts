@@ -1,19 +1,28 @@
-import { models } from "@b/db";
-import { emailQueue } from "@b/utils/emails";
+import { ORDER_STATUSES } from "@b/api/(ext)/ecommerce/utils/order";
 import {
   baseStringSchema,
   baseEnumSchema,
   baseDateTimeSchema,
+  baseNumberSchema,
 } from "@b/utils/schema";
 
 const id = baseStringSchema("ID of the e-commerce order");
 const userId = baseStringSchema("User ID associated with the order");
-const status = baseEnumSchema("Status of the order", [
-  "PENDING",
-  "COMPLETED",
-  "CANCELLED",
-  "REJECTED",
-]);
+const status = baseEnumSchema("Status of the order", [...ORDER_STATUSES]);
+const currency = baseStringSchema("Currency the order was paid in");
+const subtotal = baseNumberSchema("Sum of the item prices");
+const discountAmount = baseNumberSchema("Amount taken off by the discount");
+const shippingCost = baseNumberSchema("Shipping cost of the order");
+const taxRate = baseNumberSchema("Tax percentage of the shipping country");
+const taxAmount = baseNumberSchema("Tax charged on the discounted subtotal");
+const total = baseNumberSchema("Amount charged to the wallet");
+const refundedAmount = baseNumberSchema("Amount refunded to the wallet");
+const returnReason = baseStringSchema(
+  "Reason given by the buyer for the return",
+  1000,
+  0,
+  true
+);
 const createdAt = baseDateTimeSchema("Creation date of the order", true);
 const updatedAt = baseDateTimeSchema("Last update date of the order", true);
 const deletedAt = baseDateTimeSchema("Deletion date of the order", true);
@@ -22,6 +31,15 @@ export const ecommerceOrderSchema = {
   id,
   userId,
   status,
+  currency,
+  subtotal,
+  discountAmount,
+  shippingCost,
+  taxRate,
+  taxAmount,
+  total,
+  refundedAmount,
+  returnReason,
   createdAt,
   updatedAt,
   deletedAt,
@@ -31,6 +49,15 @@ export const baseEcommerceOrderSchema = {
   id,
   userId,
   status,
+  currency,
+  subtotal,
+  discountAmount,
+  shippingCost,
+  taxRate,
+  taxAmount,
+  total,
+  refundedAmount,
+  returnReason,
   createdAt,
   deletedAt,
   updatedAt,
@@ -40,41 +67,13 @@ export const ecommerceOrderUpdateSchema = {
   type: "object",
   properties: {
     status,
+    trackingNumber: baseStringSchema(
+      "Tracking number to record on the shipment when shipping",
+      191,
+      0,
+      true
+    ),
+    reason: baseStringSchema("Reason shown to the buyer", 1000, 0, true),
   },
   required: ["status"],
 };
-
-export async function sendOrderStatusUpdateEmail(user, order, status) {
-  // Retrieve all products in the order
-  const orderItems = await models.ecommerceOrderItem.findAll({
-    where: { orderId: order.id },
-    include: [
-      {
-        model: models.ecommerceProduct,
-        as: "product",
-        attributes: ["name", "price", "currency"],
-      },
-    ],
-  });
-
-  // Construct the product details string
-  const productDetails = orderItems
-    .map(
-      (item) => `
-    <li>Product Name: ${item.product.name}</li>
-    <li>Quantity: ${item.quantity}</li>
-    <li>Price: ${item.product.price} ${item.product.currency}</li>
-  `
-    )
-    .join("");
-
-  const emailData = {
-    TO: user.email,
-    CUSTOMER_NAME: user.firstName,
-    ORDER_NUMBER: order.id,
-    ORDER_STATUS: status,
-    PRODUCT_DETAILS: productDetails, // Replacing product-specific placeholders with this
-  };
-
-  await emailQueue.add({ emailData, emailType: "OrderStatusUpdate" });
-}
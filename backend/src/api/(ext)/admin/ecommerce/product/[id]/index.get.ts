@@ -51,6 +51,11 @@ export default async (data) => {
       as: "category",
       attributes: ["name"],
     },
+    {
+      model: models.ecommerceProductVariant,
+      as: "variants",
+      required: false,
+    },
     {
       model: models.ecommerceReview,
       as: "ecommerceReviews",
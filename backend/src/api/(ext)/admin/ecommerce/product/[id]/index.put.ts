@@ -1,5 +1,11 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
 import { updateRecord, updateRecordResponses } from "@b/utils/query";
-import { ecommerceProductUpdateSchema } from "../utils";
+import {
+  ecommerceProductUpdateSchema,
+  normalizeProductOptions,
+  validateVariantOptions,
+} from "../utils";
 
 export const metadata: OperationObject = {
   summary: "Updates a specific ecommerce product",
@@ -45,6 +51,28 @@ export default async (data) => {
     walletType,
     inventoryQuantity,
   } = body;
+  // Options are left alone when the request does not send them
+  const options =
+    body.options === undefined
+      ? undefined
+      : normalizeProductOptions(body.options);
+
+  if (options !== undefined) {
+    // Existing variants must still match the options
+    const variants = await models.ecommerceProductVariant.findAll({
+      where: { productId: id },
+    });
+    for (const variant of variants) {
+      try {
+        validateVariantOptions(options, variant.options);
+      } catch (error) {
+        throw createError({
+          statusCode: 400,
+          message: `Variant ${variant.sku} no longer matches the options: ${error.message}`,
+        });
+      }
+    }
+  }
 
   return await updateRecord("ecommerceProduct", id, {
     name,
@@ -57,5 +85,6 @@ export default async (data) => {
     currency,
     walletType,
     inventoryQuantity,
+    options,
   });
 };
@@ -0,0 +1,45 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { deleteRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Removes a variant from an ecommerce product",
+  description:
+    "Soft-deletes the variant so that past orders keep their reference to it.",
+  operationId: "deleteEcommerceProductVariant",
+  tags: ["Admin", "Ecommerce Products"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the ecommerce product",
+      schema: { type: "string" },
+    },
+    {
+      index: 1,
+      name: "variantId",
+      in: "path",
+      required: true,
+      description: "ID of the variant to remove",
+      schema: { type: "string" },
+    },
+  ],
+  responses: deleteRecordResponses("E-commerce Product Variant"),
+  requiresAuth: true,
+  permission: "edit.ecommerce.product",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const deleted = await models.ecommerceProductVariant.destroy({
+    where: { id: params.variantId, productId: params.id },
+  });
+  if (!deleted) {
+    throw createError({ statusCode: 404, message: "Variant not found" });
+  }
+
+  return { message: "Variant removed successfully" };
+};
@@ -0,0 +1,54 @@
+import { updateRecord, updateRecordResponses } from "@b/utils/query";
+import {
+  ecommerceProductVariantUpdateSchema,
+  getVariantData,
+} from "../../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Updates a variant of an ecommerce product",
+  operationId: "updateEcommerceProductVariant",
+  tags: ["Admin", "Ecommerce Products"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the ecommerce product",
+      schema: { type: "string" },
+    },
+    {
+      index: 1,
+      name: "variantId",
+      in: "path",
+      required: true,
+      description: "ID of the variant to update",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: ecommerceProductVariantUpdateSchema,
+      },
+    },
+  },
+  responses: updateRecordResponses("E-commerce Product Variant"),
+  requiresAuth: true,
+  permission: "edit.ecommerce.product",
+};
+
+export default async (data: Handler) => {
+  const { params, body } = data;
+  const { id, variantId } = params;
+
+  return await updateRecord(
+    "ecommerceProductVariant",
+    variantId,
+    await getVariantData(id, body, variantId),
+    false,
+    [],
+    { productId: id }
+  );
+};
@@ -0,0 +1,62 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { ecommerceProductVariantSchema } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists the variants of an ecommerce product",
+  operationId: "listEcommerceProductVariants",
+  tags: ["Admin", "Ecommerce Products"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the ecommerce product",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Variants of the product",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: ecommerceProductVariantSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Ecommerce Product"),
+    500: serverErrorResponse,
+  },
+  permission: "view.ecommerce.product",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const product = await models.ecommerceProduct.findByPk(params.id, {
+    attributes: ["id"],
+  });
+  if (!product) {
+    throw createError({ statusCode: 404, message: "Product not found" });
+  }
+
+  const variants = await models.ecommerceProductVariant.findAll({
+    where: { productId: params.id },
+    order: [["createdAt", "ASC"]],
+  });
+  return variants.map((variant) => variant.get({ plain: true }));
+};
@@ -0,0 +1,57 @@
+import { storeRecord, storeRecordResponses } from "@b/utils/query";
+import {
+  ecommerceProductVariantSchema,
+  ecommerceProductVariantUpdateSchema,
+  getVariantData,
+} from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Adds a variant to an ecommerce product",
+  description:
+    "Creates a variant with its own SKU, price and stock. Its options must pick one value of every option of the product, and no other variant may have the same combination.",
+  operationId: "storeEcommerceProductVariant",
+  tags: ["Admin", "Ecommerce Products"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the ecommerce product",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: ecommerceProductVariantUpdateSchema,
+      },
+    },
+  },
+  responses: storeRecordResponses(
+    {
+      description: "Variant created successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: ecommerceProductVariantSchema,
+          },
+        },
+      },
+    },
+    "E-commerce Product Variant"
+  ),
+  requiresAuth: true,
+  permission: "edit.ecommerce.product",
+};
+
+export default async (data: Handler) => {
+  const { params, body } = data;
+
+  return await storeRecord({
+    model: "ecommerceProductVariant",
+    data: await getVariantData(params.id, body),
+  });
+};
@@ -4,6 +4,7 @@ import { storeRecord, storeRecordResponses } from "@b/utils/query";
 import {
   ecommerceProductStoreSchema,
   ecommerceProductUpdateSchema,
+  normalizeProductOptions,
 } from "./utils";
 import { models } from "@b/db";
 import { createError } from "@b/utils/error";
@@ -43,6 +44,7 @@ export default async (data: Handler) => {
     image,
     currency,
     walletType,
+    options,
   } = body;
 
   // Validate required fields
@@ -91,6 +93,7 @@ export default async (data: Handler) => {
       image,
       currency,
       walletType,
+      options: normalizeProductOptions(options),
     },
   });
 };
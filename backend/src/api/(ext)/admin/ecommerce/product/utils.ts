@@ -5,6 +5,8 @@ import {
   baseDateTimeSchema,
   baseBooleanSchema,
 } from "@b/utils/schema";
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
 
 const id = baseStringSchema("ID of the e-commerce product");
 const name = baseStringSchema("Name of the e-commerce product");
@@ -51,6 +53,24 @@ const walletType = baseEnumSchema(
   "Wallet type associated with the e-commerce product",
   ["FIAT", "SPOT", "ECO"]
 );
+const options = {
+  type: "array",
+  description:
+    "Options the product variants are built from, e.g. Size with S, M and L",
+  nullable: true,
+  items: {
+    type: "object",
+    properties: {
+      name: baseStringSchema("Option name", 191),
+      values: {
+        type: "array",
+        items: { type: "string" },
+        minItems: 1,
+      },
+    },
+    required: ["name", "values"],
+  },
+};
 const createdAt = baseDateTimeSchema(
   "Creation date of the e-commerce product",
   true
@@ -78,6 +98,7 @@ export const ecommerceProductSchema = {
   image,
   currency,
   walletType,
+  options,
   createdAt,
   updatedAt,
   deletedAt,
@@ -97,6 +118,7 @@ export const baseEcommerceProductSchema = {
   image,
   currency,
   walletType,
+  options,
   createdAt,
   deletedAt,
   updatedAt,
@@ -116,6 +138,7 @@ export const ecommerceProductUpdateSchema = {
     currency,
     walletType,
     inventoryQuantity,
+    options,
   },
   required: ["name", "description", "type", "price", "categoryId", "currency", "walletType", "inventoryQuantity"],
 };
@@ -131,3 +154,166 @@ export const ecommerceProductStoreSchema = {
     },
   },
 };
+
+const sku = baseStringSchema("Stock keeping unit of the variant", 191);
+const variantOptions = {
+  type: "object",
+  description: "Value of each product option, e.g. { Size: 'M' }",
+  additionalProperties: { type: "string" },
+};
+
+export const ecommerceProductVariantSchema = {
+  id: baseStringSchema("ID of the product variant"),
+  productId: baseStringSchema("ID of the product"),
+  sku,
+  options: variantOptions,
+  price: baseNumberSchema("Price of the variant"),
+  inventoryQuantity: baseNumberSchema("Inventory quantity of the variant"),
+  image: baseStringSchema("URL to the image of the variant", 191, 0, true),
+  status: baseBooleanSchema("Whether the variant is on sale"),
+};
+
+export const ecommerceProductVariantUpdateSchema = {
+  type: "object",
+  properties: {
+    sku,
+    options: variantOptions,
+    price: baseNumberSchema("Price of the variant"),
+    inventoryQuantity: baseNumberSchema("Inventory quantity of the variant"),
+    image: baseStringSchema("URL to the image of the variant", 191, 0, true),
+    status: baseBooleanSchema("Whether the variant is on sale"),
+  },
+  required: ["sku", "options", "price", "inventoryQuantity"],
+};
+
+/**
+ * Trims option names and values and drops duplicates, an empty list clears
+ * the options.
+ */
+export function normalizeProductOptions(
+  value: any
+): ecommerceProductOption[] | null {
+  if (!Array.isArray(value) || !value.length) return null;
+
+  const names = new Set<string>();
+  return value.map((option) => {
+    const name = String(option?.name || "").trim();
+    const values = Array.from(
+      new Set(
+        (Array.isArray(option?.values) ? option.values : [])
+          .map((entry) => String(entry).trim())
+          .filter(Boolean)
+      )
+    ) as string[];
+    if (!name || !values.length) {
+      throw createError({
+        statusCode: 400,
+        message: "Each option needs a name and at least one value",
+      });
+    }
+    if (names.has(name.toLowerCase())) {
+      throw createError({
+        statusCode: 400,
+        message: `Option ${name} is listed twice`,
+      });
+    }
+    names.add(name.toLowerCase());
+    return { name, values };
+  });
+}
+
+/**
+ * Checks that a variant picks exactly one allowed value of every product
+ * option and returns them keyed by option name.
+ */
+export function validateVariantOptions(
+  productOptions: ecommerceProductOption[] | null | undefined,
+  selected: Record<string, any>
+): Record<string, string> {
+  if (!productOptions?.length) {
+    throw createError({
+      statusCode: 400,
+      message: "Add options to the product before creating variants",
+    });
+  }
+  if (!selected || typeof selected !== "object") {
+    throw createError({ statusCode: 400, message: "Variant options required" });
+  }
+
+  const unknown = Object.keys(selected).find(
+    (key) => !productOptions.some((option) => option.name === key)
+  );
+  if (unknown) {
+    throw createError({
+      statusCode: 400,
+      message: `Product has no option ${unknown}`,
+    });
+  }
+
+  return productOptions.reduce(
+    (acc, option) => {
+      const value = String(selected[option.name] ?? "").trim();
+      if (!option.values.includes(value)) {
+        throw createError({
+          statusCode: 400,
+          message: `Choose one of ${option.values.join(", ")} for ${option.name}`,
+        });
+      }
+      acc[option.name] = value;
+      return acc;
+    },
+    {} as Record<string, string>
+  );
+}
+
+/** Whether two variants pick the same value for every option */
+export function isSameVariant(
+  a: Record<string, string>,
+  b: Record<string, string>
+): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key] === b[key])
+  );
+}
+
+/**
+ * Builds the variant fields from a request, rejecting options the product
+ * does not offer and combinations another variant already covers.
+ */
+export async function getVariantData(
+  productId: string,
+  body: Record<string, any>,
+  variantId?: string
+) {
+  const product = await models.ecommerceProduct.findByPk(productId, {
+    include: [{ model: models.ecommerceProductVariant, as: "variants" }],
+  });
+  if (!product) {
+    throw createError({ statusCode: 404, message: "Product not found" });
+  }
+
+  const options = validateVariantOptions(product.options, body.options);
+  const duplicate = product.variants.find(
+    (variant) =>
+      variant.id !== variantId && isSameVariant(variant.options, options)
+  );
+  if (duplicate) {
+    throw createError({
+      statusCode: 400,
+      message: `Variant ${duplicate.sku} already has these options`,
+    });
+  }
+
+  const { sku, price, inventoryQuantity, image, status } = body;
+  return {
+    productId,
+    sku: typeof sku === "string" ? sku.trim() : sku,
+    options,
+    price,
+    inventoryQuantity,
+    image: image || null,
+    status,
+  };
+}
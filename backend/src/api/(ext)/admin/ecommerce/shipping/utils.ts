@@ -23,6 +23,12 @@ const vehicle = baseStringSchema("Vehicle used for shipping");
 const cost = baseNumberSchema("Shipping cost", false);
 const tax = baseNumberSchema("Shipping tax", false);
 const deliveryDate = baseDateTimeSchema("Expected delivery date", false);
+const trackingNumber = baseStringSchema(
+  "Carrier tracking number",
+  191,
+  0,
+  true
+);
 const createdAt = baseDateTimeSchema("Creation date of the shipping", true);
 const updatedAt = baseDateTimeSchema("Last update date of the shipping", true);
 
@@ -40,6 +46,7 @@ export const ecommerceShippingSchema = {
   cost,
   tax,
   deliveryDate,
+  trackingNumber,
   createdAt,
   updatedAt,
 };
@@ -64,6 +71,7 @@ export const ecommerceShippingUpdateSchema = {
     cost,
     tax,
     deliveryDate,
+    trackingNumber,
   },
   required: [
     "loadId",
@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Deletes a specific ecommerce tax rule",
+  operationId: "deleteEcommerceTaxRule",
+  tags: ["Admin", "Ecommerce", "Tax"],
+  parameters: deleteRecordParams("E-commerce tax rule"),
+  responses: deleteRecordResponses("E-commerce tax rule"),
+  permission: "delete.ecommerce.tax",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "ecommerceTaxRule",
+    id: params.id,
+    query,
+  });
+};
@@ -0,0 +1,47 @@
+import {
+  getRecord,
+  unauthorizedResponse,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+} from "@b/utils/query";
+import { ecommerceTaxRuleSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific ecommerce tax rule by ID",
+  operationId: "getEcommerceTaxRuleById",
+  tags: ["Admin", "Ecommerce", "Tax"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the tax rule to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Tax rule details",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: ecommerceTaxRuleSchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("E-commerce Tax Rule"),
+    500: serverErrorResponse,
+  },
+  permission: "view.ecommerce.tax",
+  requiresAuth: true,
+};
+
+export default async (data) => {
+  const { params } = data;
+
+  return await getRecord("ecommerceTaxRule", params.id);
+};
@@ -0,0 +1,44 @@
+import { updateRecord, updateRecordResponses } from "@b/utils/query";
+import { ecommerceTaxRuleUpdateSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Updates a specific ecommerce tax rule",
+  operationId: "updateEcommerceTaxRule",
+  tags: ["Admin", "Ecommerce", "Tax"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the tax rule to update",
+      required: true,
+      schema: {
+        type: "string",
+      },
+    },
+  ],
+  requestBody: {
+    description: "New data for the tax rule",
+    content: {
+      "application/json": {
+        schema: ecommerceTaxRuleUpdateSchema,
+      },
+    },
+  },
+  responses: updateRecordResponses("E-commerce Tax Rule"),
+  requiresAuth: true,
+  permission: "edit.ecommerce.tax",
+};
+
+export default async (data) => {
+  const { body, params } = data;
+  const { id } = params;
+  const { name, country, rate, status } = body;
+
+  return await updateRecord("ecommerceTaxRule", id, {
+    name,
+    country,
+    rate,
+    status,
+  });
+};
@@ -0,0 +1,45 @@
+import { updateStatus, updateRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Updates the status of an ecommerce tax rule",
+  operationId: "updateEcommerceTaxRuleStatus",
+  tags: ["Admin", "Ecommerce", "Tax"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the tax rule to update",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            status: {
+              type: "boolean",
+              description:
+                "New status of the tax rule (true to apply it, false to fall back to the default rate)",
+            },
+          },
+          required: ["status"],
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("E-commerce Tax Rule"),
+  requiresAuth: true,
+  permission: "edit.ecommerce.tax",
+};
+
+export default async (data) => {
+  const { body, params } = data;
+  const { id } = params;
+  const { status } = body;
+  return updateStatus("ecommerceTaxRule", id, status);
+};
@@ -0,0 +1,43 @@
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Bulk deletes ecommerce tax rules by IDs",
+  operationId: "bulkDeleteEcommerceTaxRules",
+  tags: ["Admin", "Ecommerce", "Tax"],
+  parameters: commonBulkDeleteParams("E-commerce Tax Rules"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of tax rule IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("E-commerce Tax Rules"),
+  requiresAuth: true,
+  permission: "delete.ecommerce.tax",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "ecommerceTaxRule",
+    ids,
+    query,
+  });
+};
@@ -0,0 +1,54 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { ecommerceTaxRuleSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists the ecommerce tax rules with pagination and filtering",
+  operationId: "listEcommerceTaxRules",
+  tags: ["Admin", "Ecommerce", "Tax"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of tax rules by shipping country",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: ecommerceTaxRuleSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("E-commerce Tax Rules"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.ecommerce.tax",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.ecommerceTaxRule,
+    query,
+    sortField: query.sortField || "country",
+    numericFields: ["rate"],
+  });
+};
@@ -0,0 +1,37 @@
+import { storeRecord, storeRecordResponses } from "@b/utils/query";
+import {
+  ecommerceTaxRuleStoreSchema,
+  ecommerceTaxRuleUpdateSchema,
+} from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Stores a new ecommerce tax rule",
+  description:
+    "Adds the tax rate charged on orders shipped to a country. Countries without a rule use the default tax rate.",
+  operationId: "storeEcommerceTaxRule",
+  tags: ["Admin", "Ecommerce", "Tax"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: ecommerceTaxRuleUpdateSchema,
+      },
+    },
+  },
+  responses: storeRecordResponses(
+    ecommerceTaxRuleStoreSchema,
+    "E-commerce Tax Rule"
+  ),
+  requiresAuth: true,
+  permission: "create.ecommerce.tax",
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+  const { name, country, rate, status } = body;
+
+  return await storeRecord({
+    model: "ecommerceTaxRule",
+    data: { name, country, rate, status },
+  });
+};
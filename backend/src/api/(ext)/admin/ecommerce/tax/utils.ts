@@ -0,0 +1,53 @@
+import {
+  baseStringSchema,
+  baseNumberSchema,
+  baseDateTimeSchema,
+  baseBooleanSchema,
+} from "@b/utils/schema";
+
+const id = baseStringSchema("ID of the tax rule");
+const name = baseStringSchema("Name of the tax rule, e.g. UK VAT", 191);
+const country = baseStringSchema(
+  "Shipping country the rule applies to, as an ISO 3166-1 alpha-2 code",
+  2,
+  2,
+  false,
+  "^[A-Za-z]{2}$"
+);
+const rate = baseNumberSchema("Tax percentage charged on the order");
+const status = baseBooleanSchema("Whether the rule is applied");
+const createdAt = baseDateTimeSchema("Creation date of the tax rule", true);
+const updatedAt = baseDateTimeSchema("Last update date of the tax rule", true);
+
+export const ecommerceTaxRuleSchema = {
+  id,
+  name,
+  country,
+  rate,
+  status,
+  createdAt,
+  updatedAt,
+};
+
+export const ecommerceTaxRuleUpdateSchema = {
+  type: "object",
+  properties: {
+    name,
+    country,
+    rate,
+    status,
+  },
+  required: ["name", "country", "rate"],
+};
+
+export const ecommerceTaxRuleStoreSchema = {
+  description: `Tax rule created or updated successfully`,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: ecommerceTaxRuleSchema,
+      },
+    },
+  },
+};
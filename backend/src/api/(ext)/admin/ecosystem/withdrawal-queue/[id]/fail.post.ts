@@ -0,0 +1,76 @@
+import { createError } from "@b/utils/error";
+import {
+  unauthorizedResponse,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+} from "@b/utils/query";
+import WithdrawalQueue from "@b/api/(ext)/ecosystem/utils/withdrawalQueue";
+
+export const metadata: OperationObject = {
+  summary: "Fails a dead-lettered ecosystem withdrawal",
+  description:
+    "Marks a dead-lettered withdrawal as failed and refunds the user. Use only after confirming nothing was sent on-chain.",
+  operationId: "failEcosystemWithdrawal",
+  tags: ["Admin", "Ecosystem Withdrawals"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the withdrawal transaction",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            reason: {
+              type: "string",
+              description: "Reason shown to the user",
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Withdrawal failed and refunded successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Withdrawal"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "edit.ecosystem.withdrawal",
+};
+
+export default async (data: Handler) => {
+  const { params, body } = data;
+
+  try {
+    await WithdrawalQueue.getInstance().failDeadLetter(
+      params.id,
+      body?.reason || "Withdrawal could not be processed"
+    );
+  } catch (error) {
+    throw createError({ statusCode: 400, message: error.message });
+  }
+
+  return { message: "Withdrawal failed and refunded successfully" };
+};
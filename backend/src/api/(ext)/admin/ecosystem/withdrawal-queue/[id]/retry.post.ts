@@ -0,0 +1,57 @@
+import { createError } from "@b/utils/error";
+import {
+  unauthorizedResponse,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+} from "@b/utils/query";
+import WithdrawalQueue from "@b/api/(ext)/ecosystem/utils/withdrawalQueue";
+
+export const metadata: OperationObject = {
+  summary: "Retries a dead-lettered ecosystem withdrawal",
+  description:
+    "Puts a dead-lettered withdrawal back in the queue. Only withdrawals without a recorded blockchain transaction can be retried.",
+  operationId: "retryEcosystemWithdrawal",
+  tags: ["Admin", "Ecosystem Withdrawals"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the withdrawal transaction",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Withdrawal requeued successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Withdrawal"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "edit.ecosystem.withdrawal",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  try {
+    await WithdrawalQueue.getInstance().retryDeadLetter(params.id);
+  } catch (error) {
+    throw createError({ statusCode: 400, message: error.message });
+  }
+
+  return { message: "Withdrawal requeued successfully" };
+};
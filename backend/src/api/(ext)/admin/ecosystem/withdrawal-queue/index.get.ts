@@ -0,0 +1,105 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { unauthorizedResponse, serverErrorResponse } from "@b/utils/query";
+import WithdrawalQueue from "@b/api/(ext)/ecosystem/utils/withdrawalQueue";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves the state of the ecosystem withdrawal queue",
+  description:
+    "Lists queued, in-flight, retrying and dead-lettered ecosystem withdrawals with per-chain counts.",
+  operationId: "getEcosystemWithdrawalQueue",
+  tags: ["Admin", "Ecosystem Withdrawals"],
+  responses: {
+    200: {
+      description: "Ecosystem withdrawal queue state",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              chains: {
+                type: "object",
+                description: "Job counts per chain, keyed by job status",
+              },
+              jobs: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    transactionId: { type: "string" },
+                    chain: { type: "string" },
+                    status: {
+                      type: "string",
+                      enum: ["QUEUED", "PROCESSING", "RETRYING", "DEAD"],
+                    },
+                    stage: { type: "string", nullable: true },
+                    attempts: { type: "number" },
+                    lastError: { type: "string", nullable: true },
+                    worker: { type: "string", nullable: true },
+                    enqueuedAt: { type: "number" },
+                    updatedAt: { type: "number" },
+                    nextAttemptAt: { type: "number", nullable: true },
+                    transaction: { type: "object", nullable: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.ecosystem.withdrawal",
+};
+
+export default async () => {
+  const { chains, jobs } = await WithdrawalQueue.getInstance().getOverview();
+
+  const transactions = jobs.length
+    ? await models.transaction.findAll({
+        where: { id: { [Op.in]: jobs.map((job) => job.transactionId) } },
+        attributes: [
+          "id",
+          "userId",
+          "walletId",
+          "status",
+          "amount",
+          "fee",
+          "trxId",
+          "metadata",
+          "createdAt",
+        ],
+        include: [
+          {
+            model: models.wallet,
+            as: "wallet",
+            attributes: ["currency"],
+          },
+          {
+            model: models.user,
+            as: "user",
+            attributes: ["id", "firstName", "lastName", "email"],
+          },
+        ],
+      })
+    : [];
+  const transactionMap = new Map(
+    transactions.map((transaction) => [
+      transaction.id,
+      transaction.get({ plain: true }),
+    ])
+  );
+
+  return {
+    chains,
+    jobs: jobs
+      .map((job) => ({
+        ...job,
+        transaction: transactionMap.get(job.transactionId) || null,
+      }))
+      .sort((a, b) => a.enqueuedAt - b.enqueuedAt),
+  };
+};
@@ -0,0 +1,53 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { adlEventIncludes, adlEventSchema } from "./utils";
+
+export const metadata = {
+  summary: "Lists futures auto-deleveraging events",
+  operationId: "listFuturesAdlEvents",
+  tags: ["Admin", "Futures Insurance Fund"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Positions closed by auto-deleveraging",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              items: {
+                type: "array",
+                items: { type: "object", properties: adlEventSchema },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("ADL Events"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.futures.adl",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.futuresAdlEvent,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    numericFields: ["amount", "price", "markPrice", "pnl", "shortfallCovered"],
+    includeModels: adlEventIncludes(),
+  });
+};
@@ -0,0 +1,54 @@
+import { models } from "@b/db";
+
+const userSchema = {
+  type: "object",
+  nullable: true,
+  properties: {
+    firstName: { type: "string" },
+    lastName: { type: "string" },
+    email: { type: "string" },
+    avatar: { type: "string" },
+  },
+};
+
+export const adlEventSchema = {
+  id: { type: "string", format: "uuid" },
+  symbol: { type: "string" },
+  currency: { type: "string" },
+  liquidatedUserId: { type: "string", format: "uuid" },
+  liquidatedPositionId: { type: "string", format: "uuid" },
+  userId: { type: "string", format: "uuid" },
+  positionId: { type: "string", format: "uuid" },
+  side: { type: "string", enum: ["BUY", "SELL"] },
+  amount: {
+    type: "number",
+    description: "Size of the deleveraged position that was closed",
+  },
+  price: {
+    type: "number",
+    description: "Bankruptcy price of the liquidated position",
+  },
+  markPrice: { type: "number" },
+  pnl: {
+    type: "number",
+    description: "PnL realized by the deleveraged position",
+  },
+  rankScore: { type: "number" },
+  shortfallCovered: { type: "number" },
+  createdAt: { type: "string", format: "date-time" },
+  user: userSchema,
+  liquidatedUser: userSchema,
+};
+
+export const adlEventIncludes = () => [
+  {
+    model: models.user,
+    as: "user",
+    attributes: ["firstName", "lastName", "email", "avatar"],
+  },
+  {
+    model: models.user,
+    as: "liquidatedUser",
+    attributes: ["firstName", "lastName", "email", "avatar"],
+  },
+];
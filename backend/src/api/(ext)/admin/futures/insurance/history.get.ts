@@ -0,0 +1,60 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  insuranceFundHistoryIncludes,
+  insuranceFundHistorySchema,
+} from "./utils";
+
+export const metadata = {
+  summary: "Lists futures insurance fund ledger entries",
+  operationId: "listFuturesInsuranceFundHistory",
+  tags: ["Admin", "Futures Insurance Fund"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description:
+        "Liquidation surpluses and deficits with the fund balance after each",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              items: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: insuranceFundHistorySchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Insurance Fund History"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.futures.insurance",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.futuresInsuranceFundHistory,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    numericFields: ["amount", "balance", "shortfall"],
+    includeModels: insuranceFundHistoryIncludes(),
+  });
+};
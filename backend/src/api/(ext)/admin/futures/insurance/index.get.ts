@@ -0,0 +1,52 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { insuranceFundSchema } from "./utils";
+
+export const metadata = {
+  summary: "Lists futures insurance fund balances",
+  operationId: "listFuturesInsuranceFunds",
+  tags: ["Admin", "Futures Insurance Fund"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Insurance fund balance per settlement currency",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              items: {
+                type: "array",
+                items: { type: "object", properties: insuranceFundSchema },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Insurance Funds"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.futures.insurance",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.futuresInsuranceFund,
+    query,
+    sortField: query.sortField || "currency",
+    paranoid: false,
+    numericFields: ["balance"],
+  });
+};
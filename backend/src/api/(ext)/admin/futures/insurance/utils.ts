@@ -0,0 +1,50 @@
+import { models } from "@b/db";
+
+export const insuranceFundSchema = {
+  id: { type: "string", format: "uuid" },
+  currency: { type: "string" },
+  balance: { type: "number" },
+  createdAt: { type: "string", format: "date-time" },
+  updatedAt: { type: "string", format: "date-time" },
+};
+
+export const insuranceFundHistorySchema = {
+  id: { type: "string", format: "uuid" },
+  fundId: { type: "string", format: "uuid" },
+  currency: { type: "string" },
+  type: {
+    type: "string",
+    enum: ["LIQUIDATION_SURPLUS", "LIQUIDATION_DEFICIT"],
+  },
+  amount: {
+    type: "number",
+    description: "Amount paid into (positive) or out of (negative) the fund",
+  },
+  balance: { type: "number", description: "Fund balance after the entry" },
+  shortfall: {
+    type: "number",
+    description: "Part of a deficit the fund could not cover",
+  },
+  symbol: { type: "string", nullable: true },
+  userId: { type: "string", format: "uuid", nullable: true },
+  positionId: { type: "string", format: "uuid", nullable: true },
+  createdAt: { type: "string", format: "date-time" },
+  user: {
+    type: "object",
+    nullable: true,
+    properties: {
+      firstName: { type: "string" },
+      lastName: { type: "string" },
+      email: { type: "string" },
+      avatar: { type: "string" },
+    },
+  },
+};
+
+export const insuranceFundHistoryIncludes = () => [
+  {
+    model: models.user,
+    as: "user",
+    attributes: ["firstName", "lastName", "email", "avatar"],
+  },
+];
@@ -33,9 +33,12 @@ export const metadata: OperationObject = {
 export default async (data) => {
   const { body, params } = data;
   const { id } = params;
-  const { metadata } = body;
+  const { metadata, maintenanceMarginTiers } = body;
 
   return await updateRecord("futuresMarket", id, {
     metadata,
+    maintenanceMarginTiers: maintenanceMarginTiers?.length
+      ? maintenanceMarginTiers
+      : null,
   });
 };
@@ -22,7 +22,14 @@ export const metadata: OperationObject = {
 
 export default async (data: Handler) => {
   const { body } = data;
-  const { currency, pair, isTrending, isHot, metadata } = body;
+  const {
+    currency,
+    pair,
+    isTrending,
+    isHot,
+    metadata,
+    maintenanceMarginTiers,
+  } = body;
 
   // 1) Find the currency token by ID
   const currencyToken = await models.ecosystemToken.findOne({
@@ -65,6 +72,9 @@ export default async (data: Handler) => {
         isTrending,
         isHot,
         metadata,
+        maintenanceMarginTiers: maintenanceMarginTiers?.length
+          ? maintenanceMarginTiers
+          : null,
         status: true,
       },
     });
@@ -62,6 +62,26 @@ const metadata = {
 };
 
 const status = baseBooleanSchema("Operational status of the futures market");
+const maintenanceMarginTiers = {
+  type: "array",
+  nullable: true,
+  description:
+    "Maintenance margin tiers by position notional, ordered from the smallest; leave empty to use the default tiers",
+  items: {
+    type: "object",
+    properties: {
+      maxNotional: baseNumberSchema(
+        "Largest position notional covered by the tier, null for the last tier",
+        true
+      ),
+      maintenanceMarginRate: baseNumberSchema(
+        "Share of the notional that must remain as equity, e.g. 0.005"
+      ),
+      maxLeverage: baseNumberSchema("Highest leverage allowed in the tier"),
+    },
+    required: ["maxNotional", "maintenanceMarginRate", "maxLeverage"],
+  },
+};
 
 export const futuresMarketSchema = {
   id,
@@ -70,6 +90,7 @@ export const futuresMarketSchema = {
   isTrending,
   isHot,
   metadata,
+  maintenanceMarginTiers,
   status,
 };
 
@@ -80,6 +101,7 @@ export const baseFuturesMarketSchema = {
   isTrending,
   isHot,
   metadata,
+  maintenanceMarginTiers,
   status,
 };
 
@@ -89,6 +111,7 @@ export const FuturesMarketUpdateSchema = {
     isTrending,
     isHot,
     metadata,
+    maintenanceMarginTiers,
   },
 };
 
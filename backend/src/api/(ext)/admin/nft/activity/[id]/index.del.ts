@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Deletes a specific NFT activity",
+  operationId: "deleteNftActivity",
+  tags: ["Admin", "NFT", "Activity"],
+  parameters: deleteRecordParams("NFT activity"),
+  responses: deleteRecordResponses("NFT activity"),
+  permission: "delete.nft.activity",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "nftActivity",
+    id: params.id,
+    query,
+  });
+};
@@ -0,0 +1,64 @@
+import { models } from "@b/db";
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific NFT activity by ID",
+  operationId: "getNftActivityById",
+  tags: ["Admin", "NFT", "Activity"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the NFT activity to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT activity details",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Activity"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.activity",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  return await getRecord("nftActivity", params.id, [
+    {
+      model: models.nftToken,
+      as: "token",
+      attributes: ["id", "name", "image", "tokenId"],
+    },
+    {
+      model: models.nftCollection,
+      as: "collection",
+      attributes: ["id", "name", "slug"],
+    },
+    {
+      model: models.user,
+      as: "fromUser",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+    {
+      model: models.user,
+      as: "toUser",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+  ]);
+};
@@ -0,0 +1,43 @@
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Bulk deletes NFT activities by IDs",
+  operationId: "bulkDeleteNftActivities",
+  tags: ["Admin", "NFT", "Activity"],
+  parameters: commonBulkDeleteParams("NFT activities"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of NFT activities IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("NFT activities"),
+  requiresAuth: true,
+  permission: "delete.nft.activity",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "nftActivity",
+    ids,
+    query,
+  });
+};
@@ -0,0 +1,69 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Lists all NFT activities with pagination and optional filtering",
+  operationId: "listNftActivities",
+  tags: ["Admin", "NFT", "Activity"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of NFT activities with pagination",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Activities"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.activity",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftActivity,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: [
+      {
+        model: models.nftToken,
+        as: "token",
+        attributes: ["id", "name", "image", "tokenId"],
+      },
+      {
+        model: models.nftCollection,
+        as: "collection",
+        attributes: ["id", "name", "slug"],
+      },
+      {
+        model: models.user,
+        as: "fromUser",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+      {
+        model: models.user,
+        as: "toUser",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+    ],
+    numericFields: ["price"],
+  });
+};
@@ -0,0 +1,64 @@
+import { models } from "@b/db";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Get recent NFT activity",
+  description:
+    "Retrieves the latest marketplace events for the NFT admin dashboard.",
+  operationId: "getRecentNftActivity",
+  tags: ["Admin", "NFT", "Activity"],
+  parameters: [
+    {
+      name: "limit",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 10 },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Recent activity retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: { type: "object" } },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.activity",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+  const limit = Math.min(parseInt(query.limit) || 10, 50);
+
+  const activities = await models.nftActivity.findAll({
+    include: [
+      { model: models.nftToken, as: "token", attributes: ["name"] },
+      { model: models.nftCollection, as: "collection", attributes: ["name"] },
+      {
+        model: models.user,
+        as: "fromUser",
+        attributes: ["firstName", "lastName"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+    limit,
+  });
+
+  return activities.map((activity: any) => ({
+    id: activity.id,
+    type: activity.type,
+    tokenName: activity.token?.name || "",
+    collectionName: activity.collection?.name || "",
+    user: activity.fromUser
+      ? `${activity.fromUser.firstName} ${activity.fromUser.lastName}`.trim()
+      : "",
+    price: activity.price ?? undefined,
+    currency: activity.currency ?? undefined,
+    timestamp: activity.createdAt,
+  }));
+};
@@ -0,0 +1,355 @@
+import { models, sequelize } from "@b/db";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "Get NFT marketplace analytics",
+  description:
+    "Retrieves overview totals, period-over-period growth, top collections and creators, recent sales and chart series for the NFT analytics page.",
+  operationId: "getNftAdminAnalytics",
+  tags: ["Admin", "NFT", "Analytics"],
+  parameters: [
+    {
+      name: "timeRange",
+      in: "query",
+      required: false,
+      schema: {
+        type: "string",
+        enum: ["7d", "30d", "90d", "1y"],
+        default: "30d",
+      },
+    },
+  ],
+  responses: {
+    200: { description: "Analytics retrieved successfully" },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.analytics",
+};
+
+const RANGE_DAYS: Record<string, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  "1y": 365,
+};
+
+const PRICE_RANGES = [
+  { range: "< 0.1", min: 0, max: 0.1 },
+  { range: "0.1 - 1", min: 0.1, max: 1 },
+  { range: "1 - 10", min: 1, max: 10 },
+  { range: "10 - 100", min: 10, max: 100 },
+  { range: "100+", min: 100, max: Infinity },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const growth = (current: number, previous: number) =>
+  previous > 0
+    ? ((current - previous) / previous) * 100
+    : current > 0
+      ? 100
+      : 0;
+
+const fullName = (user: any) =>
+  user ? `${user.firstName || ""} ${user.lastName || ""}`.trim() : "";
+
+export default async (data: Handler) => {
+  const { query } = data;
+  const days = RANGE_DAYS[query.timeRange] || 30;
+  const now = Date.now();
+  const periodStart = new Date(now - days * DAY_MS);
+  const previousStart = new Date(now - 2 * days * DAY_MS);
+  const completed = { status: "COMPLETED" };
+
+  const inPeriod = { [Op.gte]: periodStart };
+  const inPreviousPeriod = { [Op.gte]: previousStart, [Op.lt]: periodStart };
+
+  const [
+    totalCollections,
+    totalTokens,
+    totalListings,
+    totalSales,
+    totalVolume,
+    totalUsers,
+    totalActivity,
+    collectionsNow,
+    collectionsBefore,
+    tokensNow,
+    tokensBefore,
+    salesNow,
+    salesBefore,
+    volumeNow,
+    volumeBefore,
+  ] = await Promise.all([
+    models.nftCollection.count(),
+    models.nftToken.count(),
+    models.nftListing.count({ where: { status: "ACTIVE" } }),
+    models.nftSale.count({ where: completed }),
+    models.nftSale.sum("price", { where: completed }),
+    models.nftActivity.count({ distinct: true, col: "fromUserId" }),
+    models.nftActivity.count(),
+    models.nftCollection.count({ where: { createdAt: inPeriod } }),
+    models.nftCollection.count({ where: { createdAt: inPreviousPeriod } }),
+    models.nftToken.count({ where: { createdAt: inPeriod } }),
+    models.nftToken.count({ where: { createdAt: inPreviousPeriod } }),
+    models.nftSale.count({ where: { ...completed, createdAt: inPeriod } }),
+    models.nftSale.count({
+      where: { ...completed, createdAt: inPreviousPeriod },
+    }),
+    models.nftSale.sum("price", {
+      where: { ...completed, createdAt: inPeriod },
+    }),
+    models.nftSale.sum("price", {
+      where: { ...completed, createdAt: inPreviousPeriod },
+    }),
+  ]);
+
+  const volume = parseFloat(totalVolume as any) || 0;
+
+  // Period sales with their token, collection and creator, used for rankings
+  const periodSales = await models.nftSale.findAll({
+    where: { ...completed, createdAt: inPeriod },
+    include: [
+      {
+        model: models.nftToken,
+        as: "token",
+        attributes: ["id", "name", "collectionId", "creatorId"],
+        include: [
+          {
+            model: models.nftCollection,
+            as: "collection",
+            attributes: ["id", "name", "chain", "creatorId"],
+          },
+          {
+            model: models.user,
+            as: "creator",
+            attributes: ["id", "firstName", "lastName", "email"],
+          },
+        ],
+      },
+      {
+        model: models.user,
+        as: "buyer",
+        attributes: ["firstName", "lastName"],
+      },
+      {
+        model: models.user,
+        as: "seller",
+        attributes: ["firstName", "lastName"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+  });
+
+  const collectionStats = new Map<string, any>();
+  const creatorStats = new Map<string, any>();
+  const dailyVolume = new Map<string, { volume: number; sales: number }>();
+  const priceCounts = PRICE_RANGES.map(() => 0);
+  const dayAgo = now - DAY_MS;
+  const twoDaysAgo = now - 2 * DAY_MS;
+
+  for (const sale of periodSales as any[]) {
+    const price = Number(sale.price) || 0;
+    const createdAt = new Date(sale.createdAt).getTime();
+    const collection = sale.token?.collection;
+
+    if (collection) {
+      const stats = collectionStats.get(collection.id) || {
+        id: collection.id,
+        name: collection.name,
+        volume: 0,
+        sales: 0,
+        volume24h: 0,
+        volumePrev24h: 0,
+      };
+      stats.volume += price;
+      stats.sales += 1;
+      if (createdAt >= dayAgo) stats.volume24h += price;
+      else if (createdAt >= twoDaysAgo) stats.volumePrev24h += price;
+      collectionStats.set(collection.id, stats);
+    }
+
+    const creator = sale.token?.creator;
+    if (creator) {
+      const stats = creatorStats.get(creator.id) || {
+        id: creator.id,
+        name: fullName(creator),
+        email: creator.email,
+        volume: 0,
+        sales: 0,
+        collections: 0,
+      };
+      stats.volume += price;
+      stats.sales += 1;
+      creatorStats.set(creator.id, stats);
+    }
+
+    const day = new Date(sale.createdAt).toISOString().slice(0, 10);
+    const bucket = dailyVolume.get(day) || { volume: 0, sales: 0 };
+    bucket.volume += price;
+    bucket.sales += 1;
+    dailyVolume.set(day, bucket);
+
+    const rangeIndex = PRICE_RANGES.findIndex(
+      (range) => price >= range.min && price < range.max
+    );
+    if (rangeIndex >= 0) priceCounts[rangeIndex] += 1;
+  }
+
+  const topCollectionList = [...collectionStats.values()]
+    .sort((a, b) => b.volume - a.volume)
+    .slice(0, 10);
+
+  const floorPrices = topCollectionList.length
+    ? ((await models.nftListing.findAll({
+        where: { status: "ACTIVE", type: "FIXED_PRICE" },
+        attributes: [
+          [sequelize.col("token.collectionId"), "collectionId"],
+          [
+            sequelize.fn("MIN", sequelize.col("nftListing.price")),
+            "floorPrice",
+          ],
+        ],
+        include: [
+          {
+            model: models.nftToken,
+            as: "token",
+            attributes: [],
+            where: {
+              collectionId: topCollectionList.map((c) => c.id),
+            },
+          },
+        ],
+        group: ["token.collectionId"],
+        raw: true,
+      })) as any[])
+    : [];
+  const floorByCollection = new Map(
+    floorPrices.map((row) => [
+      row.collectionId,
+      parseFloat(row.floorPrice) || 0,
+    ])
+  );
+
+  const topCreatorList = [...creatorStats.values()]
+    .sort((a, b) => b.volume - a.volume)
+    .slice(0, 10);
+  if (topCreatorList.length) {
+    const collectionCounts = (await models.nftCollection.findAll({
+      where: { creatorId: topCreatorList.map((c) => c.id) },
+      attributes: [
+        "creatorId",
+        [sequelize.fn("COUNT", sequelize.col("id")), "count"],
+      ],
+      group: ["creatorId"],
+      raw: true,
+    })) as any[];
+    for (const row of collectionCounts) {
+      const creator = creatorStats.get(row.creatorId);
+      if (creator) creator.collections = parseInt(row.count) || 0;
+    }
+  }
+
+  const collectionsByCategory = (await models.nftCollection.findAll({
+    attributes: [
+      [sequelize.col("category.name"), "name"],
+      [sequelize.fn("COUNT", sequelize.col("nftCollection.id")), "value"],
+    ],
+    include: [{ model: models.nftCategory, as: "category", attributes: [] }],
+    group: ["category.id", "category.name"],
+    raw: true,
+  })) as any[];
+
+  const collectionsByChain = (await models.nftCollection.findAll({
+    attributes: [
+      "chain",
+      [sequelize.fn("COUNT", sequelize.col("id")), "collections"],
+    ],
+    group: ["chain"],
+    raw: true,
+  })) as any[];
+  const chainVolume = new Map<string, number>();
+  for (const sale of periodSales as any[]) {
+    const chain = sale.token?.collection?.chain;
+    if (chain) {
+      chainVolume.set(
+        chain,
+        (chainVolume.get(chain) || 0) + Number(sale.price)
+      );
+    }
+  }
+
+  const salesInPeriod = periodSales.length;
+  const categoryTotal = collectionsByCategory.reduce(
+    (acc, row) => acc + (parseInt(row.value) || 0),
+    0
+  );
+
+  return {
+    overview: {
+      totalCollections,
+      totalTokens,
+      totalListings,
+      totalSales,
+      totalVolume: volume,
+      totalUsers,
+      totalActivity,
+      avgPrice: totalSales > 0 ? volume / totalSales : 0,
+    },
+    trends: {
+      collectionsGrowth: growth(collectionsNow, collectionsBefore),
+      tokensGrowth: growth(tokensNow, tokensBefore),
+      volumeGrowth: growth(
+        parseFloat(volumeNow as any) || 0,
+        parseFloat(volumeBefore as any) || 0
+      ),
+      salesGrowth: growth(salesNow, salesBefore),
+    },
+    topCollections: topCollectionList.map((stats) => ({
+      id: stats.id,
+      name: stats.name,
+      volume: stats.volume,
+      sales: stats.sales,
+      floorPrice: floorByCollection.get(stats.id) || 0,
+      change24h: growth(stats.volume24h, stats.volumePrev24h),
+    })),
+    topCreators: topCreatorList,
+    recentSales: (periodSales as any[]).slice(0, 10).map((sale) => ({
+      id: sale.id,
+      tokenName: sale.token?.name || "",
+      collectionName: sale.token?.collection?.name || "",
+      price: Number(sale.price) || 0,
+      currency: sale.currency,
+      buyer: fullName(sale.buyer),
+      seller: fullName(sale.seller),
+      timestamp: sale.createdAt,
+    })),
+    chartData: {
+      volumeChart: [...dailyVolume.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, bucket]) => ({ date, ...bucket })),
+      categoryChart: collectionsByCategory.map((row) => {
+        const value = parseInt(row.value) || 0;
+        return {
+          name: row.name || "Uncategorized",
+          value,
+          percentage: categoryTotal > 0 ? (value / categoryTotal) * 100 : 0,
+        };
+      }),
+      chainChart: collectionsByChain.map((row) => ({
+        name: row.chain,
+        volume: chainVolume.get(row.chain) || 0,
+        collections: parseInt(row.collections) || 0,
+      })),
+      priceRanges: PRICE_RANGES.map((range, index) => ({
+        range: range.range,
+        count: priceCounts[index],
+        percentage:
+          salesInPeriod > 0 ? (priceCounts[index] / salesInPeriod) * 100 : 0,
+      })),
+    },
+  };
+};
@@ -0,0 +1,82 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific NFT auction by ID",
+  operationId: "getNftAuctionById",
+  tags: ["Admin", "NFT", "Auctions"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the NFT auction to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT auction details including bids",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT auction"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.auction",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const listing = await models.nftListing.findOne({
+    where: { id: params.id, type: "AUCTION" },
+    include: [
+      {
+        model: models.nftToken,
+        as: "token",
+        attributes: ["id", "name", "image", "tokenId", "collectionId"],
+        include: [
+          {
+            model: models.nftCollection,
+            as: "collection",
+            attributes: ["id", "name", "slug"],
+          },
+        ],
+      },
+      {
+        model: models.user,
+        as: "seller",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+      {
+        model: models.nftBid,
+        as: "bids",
+        include: [
+          {
+            model: models.user,
+            as: "bidder",
+            attributes: ["id", "firstName", "lastName", "email", "avatar"],
+          },
+        ],
+      },
+    ],
+    order: [[{ model: models.nftBid, as: "bids" }, "amount", "DESC"]],
+  });
+  if (!listing) {
+    throw createError({ statusCode: 404, message: "NFT auction not found" });
+  }
+
+  return listing.get({ plain: true });
+};
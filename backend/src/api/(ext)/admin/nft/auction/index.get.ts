@@ -0,0 +1,50 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { getListingIncludes } from "../listing/utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists all NFT auctions with pagination and optional filtering",
+  operationId: "listNftAuctions",
+  tags: ["Admin", "NFT", "Auctions"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of NFT auctions with pagination",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Auctions"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.auction",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftListing,
+    query,
+    where: { type: "AUCTION" },
+    sortField: query.sortField || "createdAt",
+    includeModels: getListingIncludes(),
+    numericFields: ["price", "reservePrice", "buyNowPrice", "views", "likes"],
+  });
+};
@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Deletes a specific NFT category",
+  operationId: "deleteNftCategory",
+  tags: ["Admin", "NFT", "Categories"],
+  parameters: deleteRecordParams("NFT category"),
+  responses: deleteRecordResponses("NFT category"),
+  permission: "delete.nft.category",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "nftCategory",
+    id: params.id,
+    query,
+  });
+};
@@ -0,0 +1,46 @@
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { nftCategorySchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific NFT category by ID",
+  operationId: "getNftCategoryById",
+  tags: ["Admin", "NFT", "Categories"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the NFT category to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT category details",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: nftCategorySchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Category"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.category",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  return await getRecord("nftCategory", params.id);
+};
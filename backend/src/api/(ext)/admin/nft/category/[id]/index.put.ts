@@ -0,0 +1,46 @@
+import { updateRecord, updateRecordResponses } from "@b/utils/query";
+import { slugify } from "@b/utils";
+import { nftCategoryUpdateSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Updates a specific NFT category",
+  operationId: "updateNftCategory",
+  tags: ["Admin", "NFT", "Categories"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the NFT category to update",
+      required: true,
+      schema: {
+        type: "string",
+      },
+    },
+  ],
+  requestBody: {
+    description: "New data for the NFT category",
+    content: {
+      "application/json": {
+        schema: nftCategoryUpdateSchema,
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT Category"),
+  requiresAuth: true,
+  permission: "edit.nft.category",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { id } = params;
+  const { name, slug, description, image, status } = body;
+
+  return await updateRecord("nftCategory", id, {
+    name,
+    slug: slug || (name ? slugify(name) : undefined),
+    description,
+    image,
+    status,
+  });
+};
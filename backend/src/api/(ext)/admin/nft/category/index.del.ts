@@ -0,0 +1,43 @@
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Bulk deletes NFT categories by IDs",
+  operationId: "bulkDeleteNftCategories",
+  tags: ["Admin", "NFT", "Categories"],
+  parameters: commonBulkDeleteParams("NFT Categories"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of NFT category IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("NFT Categories"),
+  requiresAuth: true,
+  permission: "delete.nft.category",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "nftCategory",
+    ids,
+    query,
+  });
+};
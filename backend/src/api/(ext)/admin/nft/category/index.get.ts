@@ -0,0 +1,53 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { nftCategorySchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists all NFT categories with pagination and optional filtering",
+  operationId: "listNftCategories",
+  tags: ["Admin", "NFT", "Categories"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of NFT categories with pagination",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: nftCategorySchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Categories"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.category",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftCategory,
+    query,
+    sortField: query.sortField || "name",
+  });
+};
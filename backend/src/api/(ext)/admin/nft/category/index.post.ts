@@ -0,0 +1,36 @@
+import { storeRecord, storeRecordResponses } from "@b/utils/query";
+import { slugify } from "@b/utils";
+import { nftCategoryStoreSchema, nftCategoryUpdateSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Stores a new NFT Category",
+  operationId: "storeNftCategory",
+  tags: ["Admin", "NFT", "Categories"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: nftCategoryUpdateSchema,
+      },
+    },
+  },
+  responses: storeRecordResponses(nftCategoryStoreSchema, "NFT Category"),
+  requiresAuth: true,
+  permission: "create.nft.category",
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+  const { name, slug, description, image, status } = body;
+
+  return await storeRecord({
+    model: "nftCategory",
+    data: {
+      name,
+      slug: slug || slugify(name),
+      description,
+      image,
+      status: status ?? true,
+    },
+  });
+};
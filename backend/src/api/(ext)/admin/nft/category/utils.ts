@@ -0,0 +1,54 @@
+import {
+  baseStringSchema,
+  baseBooleanSchema,
+  baseDateTimeSchema,
+} from "@b/utils/schema";
+
+const id = baseStringSchema("ID of the NFT category");
+const name = baseStringSchema("Name of the NFT category", 255);
+const slug = baseStringSchema("URL slug of the NFT category", 255);
+const description = baseStringSchema("Description of the NFT category");
+const image = baseStringSchema(
+  "URL to the image of the NFT category",
+  1000,
+  0,
+  true,
+  null,
+  "URL"
+);
+const status = baseBooleanSchema("Whether the NFT category is active");
+const createdAt = baseDateTimeSchema("Creation date of the NFT category");
+
+export const nftCategorySchema = {
+  id,
+  name,
+  slug,
+  description,
+  image,
+  status,
+  createdAt,
+};
+
+export const nftCategoryUpdateSchema = {
+  type: "object",
+  properties: {
+    name,
+    slug,
+    description,
+    image,
+    status,
+  },
+  required: ["name"],
+};
+
+export const nftCategoryStoreSchema = {
+  description: `Category created or updated successfully`,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: nftCategorySchema,
+      },
+    },
+  },
+};
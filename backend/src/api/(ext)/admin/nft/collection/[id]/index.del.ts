@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Deletes a specific NFT collection",
+  operationId: "deleteNftCollection",
+  tags: ["Admin", "NFT", "Collections"],
+  parameters: deleteRecordParams("NFT collection"),
+  responses: deleteRecordResponses("NFT collection"),
+  permission: "delete.nft.collection",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "nftCollection",
+    id: params.id,
+    query,
+  });
+};
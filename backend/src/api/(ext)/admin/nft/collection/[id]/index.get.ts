@@ -0,0 +1,54 @@
+import { models } from "@b/db";
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific NFT collection by ID",
+  operationId: "getNftCollectionById",
+  tags: ["Admin", "NFT", "Collections"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the NFT collection to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT collection details",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Collection"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.collection",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  return await getRecord("nftCollection", params.id, [
+    {
+      model: models.user,
+      as: "creator",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+    {
+      model: models.nftCategory,
+      as: "category",
+      attributes: ["id", "name", "slug"],
+    },
+  ]);
+};
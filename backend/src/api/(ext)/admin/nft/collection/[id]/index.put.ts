@@ -0,0 +1,96 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createNotification } from "@b/utils/notifications";
+import { logError } from "@b/utils/logger";
+import { updateRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Updates a specific NFT collection",
+  description:
+    "Updates a collection's details, verification flag or review status. The creator is notified when the status changes.",
+  operationId: "updateNftCollection",
+  tags: ["Admin", "NFT", "Collections"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the NFT collection to update",
+      required: true,
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    description: "New data for the NFT collection",
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            description: { type: "string" },
+            categoryId: { type: "string" },
+            royaltyPercentage: { type: "number" },
+            logoImage: { type: "string" },
+            bannerImage: { type: "string" },
+            featuredImage: { type: "string" },
+            isVerified: { type: "boolean" },
+            status: {
+              type: "string",
+              enum: ["DRAFT", "PENDING", "ACTIVE", "INACTIVE", "SUSPENDED"],
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT Collection"),
+  requiresAuth: true,
+  permission: "edit.nft.collection",
+};
+
+const EDITABLE_FIELDS = [
+  "name",
+  "description",
+  "categoryId",
+  "royaltyPercentage",
+  "logoImage",
+  "bannerImage",
+  "featuredImage",
+  "isVerified",
+  "status",
+];
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+
+  const collection = await models.nftCollection.findByPk(params.id);
+  if (!collection) {
+    throw createError({ statusCode: 404, message: "Collection not found" });
+  }
+
+  const updates: Record<string, any> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) updates[field] = body[field];
+  }
+
+  const previousStatus = collection.status;
+  await collection.update(updates);
+
+  if (updates.status && updates.status !== previousStatus) {
+    try {
+      await createNotification({
+        userId: collection.creatorId,
+        relatedId: collection.id,
+        title: "Collection status updated",
+        message: `Your collection "${collection.name}" is now ${updates.status.toLowerCase()}.`,
+        type: "system",
+        link: `/nft/collection/${collection.id}`,
+      });
+    } catch (error) {
+      logError("nft_collection_notification", error, __filename);
+    }
+  }
+
+  return { message: "NFT Collection updated successfully" };
+};
@@ -0,0 +1,43 @@
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Bulk deletes NFT collections by IDs",
+  operationId: "bulkDeleteNftCollections",
+  tags: ["Admin", "NFT", "Collections"],
+  parameters: commonBulkDeleteParams("NFT Collections"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of NFT collection IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("NFT Collections"),
+  requiresAuth: true,
+  permission: "delete.nft.collection",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "nftCollection",
+    ids,
+    query,
+  });
+};
@@ -0,0 +1,59 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Lists all NFT collections with pagination and optional filtering",
+  operationId: "listNftCollections",
+  tags: ["Admin", "NFT", "Collections"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of NFT collections with pagination",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Collections"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.collection",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftCollection,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: [
+      {
+        model: models.user,
+        as: "creator",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+      {
+        model: models.nftCategory,
+        as: "category",
+        attributes: ["id", "name", "slug"],
+      },
+    ],
+    numericFields: ["royaltyPercentage", "mintPrice", "totalSupply"],
+  });
+};
@@ -0,0 +1,49 @@
+import { models } from "@b/db";
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific NFT creator by ID",
+  operationId: "getNftCreatorById",
+  tags: ["Admin", "NFT", "Creators"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the NFT creator to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT creator details",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Creator"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.creator",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  return await getRecord("nftCreator", params.id, [
+    {
+      model: models.user,
+      as: "user",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+  ]);
+};
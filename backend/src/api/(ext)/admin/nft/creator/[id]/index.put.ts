@@ -0,0 +1,54 @@
+import { updateRecord, updateRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Updates a specific NFT creator",
+  operationId: "updateNftCreator",
+  tags: ["Admin", "NFT", "Creators"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the NFT creator to update",
+      required: true,
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    description: "New data for the NFT creator",
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            displayName: { type: "string" },
+            bio: { type: "string" },
+            isVerified: { type: "boolean" },
+            verificationTier: {
+              type: "string",
+              enum: ["BRONZE", "SILVER", "GOLD", "PLATINUM"],
+            },
+            profilePublic: { type: "boolean" },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT Creator"),
+  requiresAuth: true,
+  permission: "edit.nft.creator",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { displayName, bio, isVerified, verificationTier, profilePublic } =
+    body;
+
+  return await updateRecord("nftCreator", params.id, {
+    displayName,
+    bio,
+    isVerified,
+    verificationTier,
+    profilePublic,
+  });
+};
@@ -0,0 +1,54 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Lists all NFT creators with pagination and optional filtering",
+  operationId: "listNftCreators",
+  tags: ["Admin", "NFT", "Creators"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of NFT creators with pagination",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Creators"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.creator",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftCreator,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: [
+      {
+        model: models.user,
+        as: "user",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+    ],
+    numericFields: ["totalSales", "totalVolume", "totalItems", "floorPrice"],
+  });
+};
@@ -0,0 +1,67 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import { addDisputeSystemMessage, getDisputeOrFail } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Assigns an NFT dispute to an admin",
+  operationId: "assignNftDispute",
+  tags: ["Admin", "NFT", "Disputes"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the dispute",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            assignedToId: {
+              type: "string",
+              description: "ID of the admin handling the dispute",
+            },
+          },
+          required: ["assignedToId"],
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("Dispute"),
+  requiresAuth: true,
+  permission: "edit.nft.dispute",
+};
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  const { assignedToId } = body;
+
+  const assignee = await models.user.findByPk(assignedToId, {
+    attributes: ["id", "firstName", "lastName"],
+  });
+  if (!assignee) {
+    throw createError({ statusCode: 404, message: "Admin not found" });
+  }
+
+  const dispute = await getDisputeOrFail(params.id);
+  await dispute.update({
+    assignedToId,
+    ...(dispute.status === "PENDING"
+      ? { status: "INVESTIGATING", investigatedAt: new Date() }
+      : {}),
+  });
+  await addDisputeSystemMessage(
+    dispute.id,
+    user?.id as string,
+    `Dispute assigned to ${assignee.firstName} ${assignee.lastName}`.trim()
+  );
+
+  return { message: "Dispute assigned successfully" };
+};
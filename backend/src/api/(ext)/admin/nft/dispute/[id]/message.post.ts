@@ -0,0 +1,71 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createRecordResponses } from "@b/utils/query";
+import { getDisputeOrFail, notifyDisputeParties } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Posts a message on an NFT dispute",
+  description:
+    "Adds an admin message to the dispute thread. Internal messages are only visible to admins; public messages notify both parties.",
+  operationId: "createNftDisputeMessage",
+  tags: ["Admin", "NFT", "Disputes"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the dispute",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            message: { type: "string" },
+            isInternal: { type: "boolean" },
+            attachments: { type: "array", items: { type: "string" } },
+          },
+          required: ["message"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("Dispute Message"),
+  requiresAuth: true,
+  permission: "edit.nft.dispute",
+};
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  const { message, isInternal = false, attachments } = body;
+
+  if (!message || !String(message).trim()) {
+    throw createError({ statusCode: 400, message: "Message is required" });
+  }
+
+  const dispute = await getDisputeOrFail(params.id);
+
+  const created = await models.nftDisputeMessage.create({
+    disputeId: dispute.id,
+    userId: user?.id,
+    message: String(message).trim(),
+    attachments,
+    isInternal: !!isInternal,
+    isSystemMessage: false,
+  });
+
+  if (!isInternal) {
+    await notifyDisputeParties(
+      dispute,
+      "New message on your dispute",
+      `An administrator replied to the dispute "${dispute.title}".`
+    );
+  }
+
+  return created;
+};
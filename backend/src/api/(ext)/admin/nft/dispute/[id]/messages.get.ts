@@ -0,0 +1,53 @@
+import { models } from "@b/db";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { getDisputeOrFail } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists the messages of an NFT dispute",
+  description:
+    "Retrieves the full dispute thread, including internal admin notes and system messages.",
+  operationId: "listNftDisputeMessages",
+  tags: ["Admin", "NFT", "Disputes"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the dispute",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Messages retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: { type: "object" } },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: { description: "Dispute not found" },
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.dispute",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  await getDisputeOrFail(params.id);
+
+  return models.nftDisputeMessage.findAll({
+    where: { disputeId: params.id },
+    include: [
+      {
+        model: models.user,
+        as: "user",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+    ],
+    order: [["createdAt", "ASC"]],
+  });
+};
@@ -0,0 +1,60 @@
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import { addDisputeSystemMessage, getDisputeOrFail } from "../utils";
+
+const PRIORITIES = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+export const metadata: OperationObject = {
+  summary: "Updates the priority of an NFT dispute",
+  operationId: "updateNftDisputePriority",
+  tags: ["Admin", "NFT", "Disputes"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the dispute",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            priority: {
+              type: "string",
+              enum: PRIORITIES,
+            },
+          },
+          required: ["priority"],
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("Dispute"),
+  requiresAuth: true,
+  permission: "edit.nft.dispute",
+};
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  const { priority } = body;
+
+  if (!PRIORITIES.includes(priority)) {
+    throw createError({ statusCode: 400, message: "Invalid dispute priority" });
+  }
+
+  const dispute = await getDisputeOrFail(params.id);
+  await dispute.update({ priority });
+  await addDisputeSystemMessage(
+    dispute.id,
+    user?.id as string,
+    `Priority changed to ${priority.toLowerCase()}`
+  );
+
+  return { message: "Dispute priority updated successfully" };
+};
@@ -0,0 +1,195 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { Op } from "sequelize";
+import { refundNftSale } from "@b/api/(ext)/nft/utils/marketplace";
+import { cancelNftListings } from "../../listing/utils";
+import {
+  addDisputeSystemMessage,
+  getDisputeOrFail,
+  notifyDisputeParties,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Resolves an NFT dispute",
+  description:
+    "Closes a dispute and applies the chosen resolution: refunding the buyer from the seller, royalty and fee legs of the sale, cancelling the sale and returning the NFT, removing the listing, banning or warning the respondent, or taking no action.",
+  operationId: "resolveNftDispute",
+  tags: ["Admin", "NFT", "Disputes"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the dispute",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            resolutionType: {
+              type: "string",
+              enum: [
+                "REFUND",
+                "PARTIAL_REFUND",
+                "CANCEL_SALE",
+                "REMOVE_LISTING",
+                "BAN_USER",
+                "WARNING",
+                "NO_ACTION",
+              ],
+            },
+            resolution: { type: "string" },
+            refundAmount: { type: "number" },
+          },
+          required: ["resolutionType", "resolution"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: { description: "Dispute resolved successfully" },
+    400: { description: "Invalid resolution" },
+    401: { description: "Unauthorized" },
+    404: { description: "Dispute not found" },
+  },
+  requiresAuth: true,
+  permission: "edit.nft.dispute",
+};
+
+/**
+ * Finds the sale a dispute refers to: the sale of the disputed listing, or
+ * otherwise the latest sale of the disputed token to the reporter.
+ */
+async function findDisputedSale(dispute: any, transaction: any) {
+  const where: any = { status: "COMPLETED" };
+  if (dispute.listingId) {
+    where.listingId = dispute.listingId;
+  } else if (dispute.tokenId) {
+    where.tokenId = dispute.tokenId;
+    where[Op.or] = [
+      { buyerId: dispute.reporterId },
+      { sellerId: dispute.reporterId },
+    ];
+  } else {
+    return null;
+  }
+
+  return models.nftSale.findOne({
+    where,
+    order: [["createdAt", "DESC"]],
+    transaction,
+  });
+}
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  const { resolution, refundAmount } = body;
+  let { resolutionType } = body;
+
+  if (!resolution || !String(resolution).trim()) {
+    throw createError({
+      statusCode: 400,
+      message: "A resolution summary is required",
+    });
+  }
+  // Partial refunds are stored as refunds with a lower amount
+  if (resolutionType === "PARTIAL_REFUND") resolutionType = "REFUND";
+
+  const dispute = await sequelize.transaction(async (transaction) => {
+    const dispute = await getDisputeOrFail(params.id, transaction);
+    if (["RESOLVED", "REJECTED"].includes(dispute.status)) {
+      throw createError({
+        statusCode: 400,
+        message: "This dispute has already been closed",
+      });
+    }
+
+    let appliedRefund: number | undefined;
+
+    switch (resolutionType) {
+      case "REFUND":
+      case "CANCEL_SALE": {
+        const sale = await findDisputedSale(dispute, transaction);
+        if (!sale) {
+          throw createError({
+            statusCode: 400,
+            message: "No completed sale is linked to this dispute",
+          });
+        }
+        // Cancelling refunds whatever earlier partial refunds left over
+        appliedRefund = await refundNftSale(
+          sale.id,
+          resolutionType === "CANCEL_SALE"
+            ? null
+            : parseFloat(refundAmount) || 0,
+          resolutionType === "CANCEL_SALE",
+          transaction
+        );
+        break;
+      }
+      case "REMOVE_LISTING":
+        if (!dispute.listingId) {
+          throw createError({
+            statusCode: 400,
+            message: "No listing is linked to this dispute",
+          });
+        }
+        await cancelNftListings([dispute.listingId], transaction);
+        break;
+      case "BAN_USER":
+        if (!dispute.respondentId) {
+          throw createError({
+            statusCode: 400,
+            message: "This dispute has no respondent to ban",
+          });
+        }
+        await models.user.update(
+          { status: "BANNED" },
+          { where: { id: dispute.respondentId }, transaction }
+        );
+        break;
+      case "WARNING":
+      case "NO_ACTION":
+        break;
+      default:
+        throw createError({
+          statusCode: 400,
+          message: "Invalid resolution type",
+        });
+    }
+
+    await dispute.update(
+      {
+        status: "RESOLVED",
+        resolutionType,
+        resolution: String(resolution).trim(),
+        refundAmount: appliedRefund,
+        resolvedAt: new Date(),
+        resolvedById: user?.id,
+      },
+      { transaction }
+    );
+    await addDisputeSystemMessage(
+      dispute.id,
+      user?.id as string,
+      `Dispute resolved: ${String(resolution).trim()}`,
+      transaction
+    );
+
+    return dispute;
+  });
+
+  await notifyDisputeParties(
+    dispute,
+    "Dispute resolved",
+    `The dispute "${dispute.title}" has been resolved: ${dispute.resolution}`
+  );
+
+  return { message: "Dispute resolved successfully" };
+};
@@ -0,0 +1,99 @@
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import {
+  addDisputeSystemMessage,
+  getDisputeOrFail,
+  notifyDisputeParties,
+} from "../utils";
+
+const STATUSES = [
+  "PENDING",
+  "INVESTIGATING",
+  "AWAITING_RESPONSE",
+  "RESOLVED",
+  "REJECTED",
+  "ESCALATED",
+];
+
+export const metadata: OperationObject = {
+  summary: "Updates the status of an NFT dispute",
+  operationId: "updateNftDisputeStatus",
+  tags: ["Admin", "NFT", "Disputes"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the dispute",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            status: {
+              type: "string",
+              enum: STATUSES,
+            },
+          },
+          required: ["status"],
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("Dispute"),
+  requiresAuth: true,
+  permission: "edit.nft.dispute",
+};
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  const { status } = body;
+
+  if (!STATUSES.includes(status)) {
+    throw createError({ statusCode: 400, message: "Invalid dispute status" });
+  }
+  if (status === "RESOLVED") {
+    throw createError({
+      statusCode: 400,
+      message: "Use the resolve action to resolve a dispute",
+    });
+  }
+
+  const dispute = await getDisputeOrFail(params.id);
+  if (["RESOLVED", "REJECTED"].includes(dispute.status)) {
+    throw createError({
+      statusCode: 400,
+      message: "This dispute has already been closed",
+    });
+  }
+
+  const updates: Record<string, any> = { status };
+  if (status === "INVESTIGATING" && !dispute.investigatedAt) {
+    updates.investigatedAt = new Date();
+  }
+  if (status === "ESCALATED") updates.escalatedAt = new Date();
+  if (status === "REJECTED") {
+    updates.resolvedAt = new Date();
+    updates.resolvedById = user?.id;
+  }
+
+  await dispute.update(updates);
+  await addDisputeSystemMessage(
+    dispute.id,
+    user?.id as string,
+    `Status changed to ${status.replace(/_/g, " ").toLowerCase()}`
+  );
+  await notifyDisputeParties(
+    dispute,
+    "Dispute status updated",
+    `The dispute "${dispute.title}" is now ${status.replace(/_/g, " ").toLowerCase()}.`
+  );
+
+  return { message: "Dispute status updated successfully" };
+};
@@ -0,0 +1,67 @@
+import { models } from "@b/db";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+import { getDisputeIncludes } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists NFT disputes",
+  description:
+    "Retrieves NFT marketplace disputes, optionally filtered by status, priority or a search term.",
+  operationId: "listNftDisputes",
+  tags: ["Admin", "NFT", "Disputes"],
+  parameters: [
+    {
+      name: "status",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "priority",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "search",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Disputes retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: { type: "object" } },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.dispute",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  const where: any = {};
+  if (query.status) where.status = query.status;
+  if (query.priority) where.priority = query.priority;
+  if (query.search) {
+    where[Op.or] = [
+      { title: { [Op.like]: `%${query.search}%` } },
+      { description: { [Op.like]: `%${query.search}%` } },
+    ];
+  }
+
+  return models.nftDispute.findAll({
+    where,
+    include: getDisputeIncludes(),
+    order: [["createdAt", "DESC"]],
+    limit: 500,
+  });
+};
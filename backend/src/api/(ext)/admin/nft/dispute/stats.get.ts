@@ -0,0 +1,61 @@
+import { models } from "@b/db";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "Get NFT dispute statistics",
+  operationId: "getNftDisputeStats",
+  tags: ["Admin", "NFT", "Disputes"],
+  responses: {
+    200: { description: "Dispute statistics retrieved successfully" },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.dispute",
+};
+
+export default async () => {
+  const [total, pending, investigating, resolved, criticalDisputes] =
+    await Promise.all([
+      models.nftDispute.count(),
+      models.nftDispute.count({ where: { status: "PENDING" } }),
+      models.nftDispute.count({ where: { status: "INVESTIGATING" } }),
+      models.nftDispute.count({ where: { status: "RESOLVED" } }),
+      models.nftDispute.count({
+        where: {
+          priority: "CRITICAL",
+          status: { [Op.notIn]: ["RESOLVED", "REJECTED"] },
+        },
+      }),
+    ]);
+
+  const resolvedDisputes = await models.nftDispute.findAll({
+    where: { resolvedAt: { [Op.ne]: null } },
+    attributes: ["createdAt", "resolvedAt"],
+    order: [["resolvedAt", "DESC"]],
+    limit: 500,
+  });
+
+  // Average resolution time in hours over the most recent resolved disputes
+  const averageResolutionTime = resolvedDisputes.length
+    ? resolvedDisputes.reduce(
+        (acc, dispute) =>
+          acc +
+          (new Date(dispute.resolvedAt as Date).getTime() -
+            new Date(dispute.createdAt as Date).getTime()),
+        0
+      ) /
+      resolvedDisputes.length /
+      (60 * 60 * 1000)
+    : 0;
+
+  return {
+    total,
+    pending,
+    investigating,
+    resolved,
+    criticalDisputes,
+    averageResolutionTime: Math.round(averageResolutionTime * 10) / 10,
+  };
+};
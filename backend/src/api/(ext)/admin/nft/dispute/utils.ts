@@ -0,0 +1,86 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createNotification } from "@b/utils/notifications";
+import { logError } from "@b/utils/logger";
+
+const userAttributes = ["id", "firstName", "lastName", "email", "avatar"];
+
+export function getDisputeIncludes() {
+  return [
+    { model: models.user, as: "reporter", attributes: userAttributes },
+    { model: models.user, as: "respondent", attributes: userAttributes },
+    { model: models.user, as: "assignedTo", attributes: userAttributes },
+    {
+      model: models.nftListing,
+      as: "listing",
+      attributes: ["id", "price", "currency", "type", "status"],
+      include: [
+        {
+          model: models.nftToken,
+          as: "token",
+          attributes: ["id", "name", "image"],
+        },
+      ],
+    },
+    {
+      model: models.nftToken,
+      as: "token",
+      attributes: ["id", "name", "image"],
+    },
+  ];
+}
+
+export async function getDisputeOrFail(id: string, transaction?: any) {
+  const dispute = await models.nftDispute.findByPk(id, {
+    transaction,
+    ...(transaction ? { lock: transaction.LOCK.UPDATE } : {}),
+  });
+  if (!dispute) {
+    throw createError({ statusCode: 404, message: "Dispute not found" });
+  }
+  return dispute;
+}
+
+/**
+ * Appends a system message to the dispute thread so that every change made
+ * by an admin is visible in the conversation history.
+ */
+export async function addDisputeSystemMessage(
+  disputeId: string,
+  userId: string,
+  message: string,
+  transaction?: any
+) {
+  return models.nftDisputeMessage.create(
+    {
+      disputeId,
+      userId,
+      message,
+      isInternal: false,
+      isSystemMessage: true,
+    },
+    { transaction }
+  );
+}
+
+export async function notifyDisputeParties(
+  dispute: any,
+  title: string,
+  message: string
+) {
+  const recipients = [dispute.reporterId, dispute.respondentId].filter(Boolean);
+  for (const userId of recipients) {
+    try {
+      await createNotification({
+        userId,
+        relatedId: dispute.id,
+        title,
+        message,
+        type: "alert",
+        link: dispute.tokenId ? `/nft/${dispute.tokenId}` : undefined,
+      });
+    } catch (error) {
+      logError("nft_dispute_notification", error, __filename);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+import { cancelNftListings } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Deletes a specific NFT listing",
+  description:
+    "Cancels the listing if it is still active, refunding any bids, then deletes it.",
+  operationId: "deleteNftListing",
+  tags: ["Admin", "NFT", "Listings"],
+  parameters: deleteRecordParams("NFT listing"),
+  responses: deleteRecordResponses("NFT listing"),
+  permission: "delete.nft.listing",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "nftListing",
+    id: params.id,
+    query,
+    preDelete: async () => {
+      if (!query.restore) await cancelNftListings([params.id]);
+    },
+  });
+};
@@ -0,0 +1,68 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Updates a specific NFT listing",
+  description:
+    "Updates the pricing or end time of an active NFT listing. Sold, cancelled or expired listings cannot be edited.",
+  operationId: "updateNftListing",
+  tags: ["Admin", "NFT", "Listings"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the NFT listing to update",
+      required: true,
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    description: "New data for the NFT listing",
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            price: { type: "number" },
+            reservePrice: { type: "number" },
+            buyNowPrice: { type: "number" },
+            endTime: { type: "string", format: "date-time" },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT listing"),
+  requiresAuth: true,
+  permission: "edit.nft.listing",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { price, reservePrice, buyNowPrice, endTime } = body;
+
+  const listing = await models.nftListing.findOne({
+    where: { id: params.id },
+  });
+  if (!listing) {
+    throw createError({ statusCode: 404, message: "NFT listing not found" });
+  }
+  if (listing.status !== "ACTIVE") {
+    throw createError({
+      statusCode: 400,
+      message: "Only active listings can be edited",
+    });
+  }
+  if (endTime !== undefined && new Date(endTime) <= new Date()) {
+    throw createError({
+      statusCode: 400,
+      message: "End time must be in the future",
+    });
+  }
+
+  await listing.update({ price, reservePrice, buyNowPrice, endTime });
+
+  return { message: "NFT listing updated successfully" };
+};
@@ -0,0 +1,49 @@
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+import { cancelNftListings } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Bulk deletes NFT listings by IDs",
+  description:
+    "Cancels any of the listings that are still active, refunding their bids, then deletes them.",
+  operationId: "bulkDeleteNftListings",
+  tags: ["Admin", "NFT", "Listings"],
+  parameters: commonBulkDeleteParams("NFT Listings"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of NFT listing IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("NFT Listings"),
+  requiresAuth: true,
+  permission: "delete.nft.listing",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "nftListing",
+    ids,
+    query,
+    preDelete: async () => {
+      if (!query.restore) await cancelNftListings(ids);
+    },
+  });
+};
@@ -0,0 +1,49 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { getListingIncludes } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists all NFT listings with pagination and optional filtering",
+  operationId: "listNftListings",
+  tags: ["Admin", "NFT", "Listings"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of NFT listings with pagination",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Listings"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.listing",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftListing,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: getListingIncludes(),
+    numericFields: ["price", "reservePrice", "buyNowPrice", "views", "likes"],
+  });
+};
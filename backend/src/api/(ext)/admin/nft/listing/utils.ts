@@ -0,0 +1,82 @@
+import { models, sequelize } from "@b/db";
+import { Transaction } from "sequelize";
+import {
+  getListingWalletType,
+  getNftMarketplaceSettings,
+  recordNftActivity,
+  refundListingBids,
+} from "@b/api/(ext)/nft/utils/marketplace";
+
+/**
+ * Cancels the given listings on behalf of an admin. Active bids are refunded
+ * and the tokens are marked as unlisted. Each listing is cancelled in its own
+ * transaction unless one is passed in.
+ */
+export async function cancelNftListings(
+  ids: string[],
+  transaction?: Transaction
+) {
+  const settings = await getNftMarketplaceSettings();
+
+  const cancel = async (id: string, transaction: Transaction) => {
+    const listing = await models.nftListing.findByPk(id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!listing || listing.status !== "ACTIVE") return;
+
+    if (listing.type === "AUCTION") {
+      await refundListingBids(
+        listing,
+        getListingWalletType(listing, settings),
+        transaction
+      );
+    }
+    await listing.update({ status: "CANCELLED" }, { transaction });
+    await models.nftToken.update(
+      { isListed: false },
+      { where: { id: listing.tokenId }, transaction }
+    );
+
+    await recordNftActivity(
+      {
+        type: "DELIST",
+        tokenId: listing.tokenId,
+        listingId: listing.id,
+        fromUserId: listing.sellerId,
+        metadata: { cancelledByAdmin: true },
+      },
+      transaction
+    );
+  };
+
+  for (const id of ids) {
+    if (transaction) {
+      await cancel(id, transaction);
+    } else {
+      await sequelize.transaction((t) => cancel(id, t));
+    }
+  }
+}
+
+export function getListingIncludes() {
+  return [
+    {
+      model: models.nftToken,
+      as: "token",
+      attributes: ["id", "name", "image", "tokenId", "collectionId"],
+      includeModels: [
+        {
+          model: models.nftCollection,
+          as: "collection",
+          attributes: ["id", "name", "slug"],
+        },
+      ],
+    },
+    {
+      model: models.user,
+      as: "seller",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+  ];
+}
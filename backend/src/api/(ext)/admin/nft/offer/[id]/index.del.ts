@@ -0,0 +1,30 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+import { cancelNftOffers } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Deletes a specific NFT offer",
+  description:
+    "Cancels the offer if it is still active, releasing the offerer's locked funds, then deletes it.",
+  operationId: "deleteNftOffer",
+  tags: ["Admin", "NFT", "Offers"],
+  parameters: deleteRecordParams("NFT offer"),
+  responses: deleteRecordResponses("NFT offer"),
+  permission: "delete.nft.offer",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "nftOffer",
+    id: params.id,
+    query,
+    preDelete: async () => {
+      if (!query.restore) await cancelNftOffers([params.id]);
+    },
+  });
+};
@@ -0,0 +1,43 @@
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { getOfferIncludes } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific NFT offer by ID",
+  operationId: "getNftOfferById",
+  tags: ["Admin", "NFT", "Offers"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the NFT offer to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT offer details",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Offer"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.offer",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  return await getRecord("nftOffer", params.id, getOfferIncludes());
+};
@@ -0,0 +1,49 @@
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+import { cancelNftOffers } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Bulk deletes NFT offers by IDs",
+  description:
+    "Cancels any of the offers that are still active, releasing the locked funds, then deletes them.",
+  operationId: "bulkDeleteNftOffers",
+  tags: ["Admin", "NFT", "Offers"],
+  parameters: commonBulkDeleteParams("NFT Offers"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of NFT offer IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("NFT Offers"),
+  requiresAuth: true,
+  permission: "delete.nft.offer",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "nftOffer",
+    ids,
+    query,
+    preDelete: async () => {
+      if (!query.restore) await cancelNftOffers(ids);
+    },
+  });
+};
@@ -0,0 +1,49 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { getOfferIncludes } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists all NFT offers with pagination and optional filtering",
+  operationId: "listNftOffers",
+  tags: ["Admin", "NFT", "Offers"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of NFT offers with pagination",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Offers"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.offer",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftOffer,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: getOfferIncludes(),
+    numericFields: ["amount"],
+  });
+};
@@ -0,0 +1,55 @@
+import { models, sequelize } from "@b/db";
+import {
+  getListingWalletType,
+  getNftMarketplaceSettings,
+  releaseNftFunds,
+} from "@b/api/(ext)/nft/utils/marketplace";
+
+/**
+ * Cancels the given offers on behalf of an admin and returns any funds still
+ * locked for them to the offerers.
+ */
+export async function cancelNftOffers(ids: string[]) {
+  const settings = await getNftMarketplaceSettings();
+
+  for (const id of ids) {
+    await sequelize.transaction(async (transaction) => {
+      const offer = await models.nftOffer.findByPk(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (!offer || offer.status !== "ACTIVE") return;
+
+      await releaseNftFunds(
+        offer.offererId,
+        getListingWalletType(offer, settings),
+        offer.currency,
+        offer.amount,
+        transaction
+      );
+      await offer.update({ status: "CANCELLED" }, { transaction });
+    });
+  }
+}
+
+export function getOfferIncludes() {
+  return [
+    {
+      model: models.nftToken,
+      as: "token",
+      attributes: ["id", "name", "image", "tokenId", "collectionId"],
+      includeModels: [
+        {
+          model: models.nftCollection,
+          as: "collection",
+          attributes: ["id", "name", "slug"],
+        },
+      ],
+    },
+    {
+      model: models.user,
+      as: "offerer",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+  ];
+}
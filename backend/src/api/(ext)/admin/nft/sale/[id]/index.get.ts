@@ -0,0 +1,59 @@
+import { models } from "@b/db";
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific NFT sale by ID",
+  operationId: "getNftSaleById",
+  tags: ["Admin", "NFT", "Sales"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the NFT sale to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT sale details",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Sale"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.sale",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  return await getRecord("nftSale", params.id, [
+    {
+      model: models.nftToken,
+      as: "token",
+      attributes: ["id", "name", "image", "tokenId"],
+    },
+    {
+      model: models.user,
+      as: "seller",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+    {
+      model: models.user,
+      as: "buyer",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+  ]);
+};
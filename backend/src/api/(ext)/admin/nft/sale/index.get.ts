@@ -0,0 +1,70 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Lists all NFT sales with pagination and optional filtering",
+  operationId: "listNftSales",
+  tags: ["Admin", "NFT", "Sales"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of NFT sales with pagination",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Sales"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.sale",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftSale,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: [
+      {
+        model: models.nftToken,
+        as: "token",
+        attributes: ["id", "name", "image", "tokenId"],
+      },
+      {
+        model: models.user,
+        as: "seller",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+      {
+        model: models.user,
+        as: "buyer",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+    ],
+    numericFields: [
+      "price",
+      "marketplaceFee",
+      "royaltyFee",
+      "totalFee",
+      "netAmount",
+    ],
+  });
+};
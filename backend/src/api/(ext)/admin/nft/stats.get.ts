@@ -0,0 +1,143 @@
+import { models, sequelize } from "@b/db";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "Get NFT marketplace statistics",
+  description:
+    "Retrieves aggregated collection, token, listing, sales, activity and revenue statistics for the NFT admin dashboard.",
+  operationId: "getNftAdminStats",
+  tags: ["Admin", "NFT", "Dashboard"],
+  responses: {
+    200: { description: "Stats retrieved successfully" },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "access.nft",
+};
+
+const sum = async (model: any, column: string, where: any = {}) => {
+  const result = await model.sum(column, { where });
+  return parseFloat(result) || 0;
+};
+
+export default async () => {
+  const now = Date.now();
+  const last24h = new Date(now - 24 * 60 * 60 * 1000);
+  const last30d = new Date(now - 30 * 24 * 60 * 60 * 1000);
+  const completed = { status: "COMPLETED" };
+
+  const [
+    totalCollections,
+    activeCollections,
+    pendingCollections,
+    verifiedCollections,
+    totalTokens,
+    mintedTokens,
+    listedTokens,
+    totalListings,
+    activeListings,
+    activeAuctions,
+    activeFixedPrice,
+    totalSales,
+    salesLast24h,
+    totalActivity,
+    activityLast24h,
+    uniqueUsers,
+  ] = await Promise.all([
+    models.nftCollection.count(),
+    models.nftCollection.count({ where: { status: "ACTIVE" } }),
+    models.nftCollection.count({ where: { status: "PENDING" } }),
+    models.nftCollection.count({ where: { isVerified: true } }),
+    models.nftToken.count(),
+    models.nftToken.count({ where: { status: "MINTED" } }),
+    models.nftToken.count({ where: { isListed: true } }),
+    models.nftListing.count(),
+    models.nftListing.count({ where: { status: "ACTIVE" } }),
+    models.nftListing.count({ where: { status: "ACTIVE", type: "AUCTION" } }),
+    models.nftListing.count({
+      where: { status: "ACTIVE", type: "FIXED_PRICE" },
+    }),
+    models.nftSale.count({ where: completed }),
+    models.nftSale.count({
+      where: { ...completed, createdAt: { [Op.gte]: last24h } },
+    }),
+    models.nftActivity.count(),
+    models.nftActivity.count({ where: { createdAt: { [Op.gte]: last24h } } }),
+    models.nftActivity.count({
+      distinct: true,
+      col: "fromUserId",
+    }),
+  ]);
+
+  const [volume, marketplaceFees, royaltyFees, feesLast30Days] =
+    await Promise.all([
+      sum(models.nftSale, "price", completed),
+      sum(models.nftSale, "marketplaceFee", completed),
+      sum(models.nftSale, "royaltyFee", completed),
+      sum(models.nftSale, "marketplaceFee", {
+        ...completed,
+        createdAt: { [Op.gte]: last30d },
+      }),
+    ]);
+
+  const topCollectionRow = (await models.nftSale.findOne({
+    where: completed,
+    attributes: [
+      [sequelize.col("token.collection.name"), "name"],
+      [sequelize.fn("SUM", sequelize.col("nftSale.price")), "volume"],
+    ],
+    include: [
+      {
+        model: models.nftToken,
+        as: "token",
+        attributes: [],
+        include: [
+          { model: models.nftCollection, as: "collection", attributes: [] },
+        ],
+      },
+    ],
+    group: ["token.collectionId", "token.collection.name"],
+    order: [[sequelize.literal("volume"), "DESC"]],
+    raw: true,
+  })) as any;
+
+  return {
+    collections: {
+      total: totalCollections,
+      active: activeCollections,
+      pending: pendingCollections,
+      verified: verifiedCollections,
+    },
+    tokens: {
+      total: totalTokens,
+      minted: mintedTokens,
+      listed: listedTokens,
+    },
+    listings: {
+      total: totalListings,
+      active: activeListings,
+      auctions: activeAuctions,
+      fixedPrice: activeFixedPrice,
+    },
+    sales: {
+      total: totalSales,
+      volume,
+      avgPrice: totalSales > 0 ? volume / totalSales : 0,
+      last24h: salesLast24h,
+    },
+    activity: {
+      totalTransactions: totalActivity,
+      last24h: activityLast24h,
+      uniqueUsers,
+      topCollection: topCollectionRow?.name || "",
+    },
+    revenue: {
+      totalFees: marketplaceFees + royaltyFees,
+      marketplaceFees,
+      royaltyFees,
+      last30Days: feesLast30Days,
+    },
+  };
+};
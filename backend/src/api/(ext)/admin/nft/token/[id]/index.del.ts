@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Deletes a specific NFT token",
+  operationId: "deleteNftToken",
+  tags: ["Admin", "NFT", "Tokens"],
+  parameters: deleteRecordParams("NFT token"),
+  responses: deleteRecordResponses("NFT token"),
+  permission: "delete.nft.token",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "nftToken",
+    id: params.id,
+    query,
+  });
+};
@@ -0,0 +1,59 @@
+import { models } from "@b/db";
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific NFT token by ID",
+  operationId: "getNftTokenById",
+  tags: ["Admin", "NFT", "Tokens"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the NFT token to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT token details",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Token"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.token",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  return await getRecord("nftToken", params.id, [
+    {
+      model: models.nftCollection,
+      as: "collection",
+      attributes: ["id", "name", "slug", "logoImage"],
+    },
+    {
+      model: models.user,
+      as: "creator",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+    {
+      model: models.user,
+      as: "owner",
+      attributes: ["id", "firstName", "lastName", "email", "avatar"],
+    },
+  ]);
+};
@@ -0,0 +1,53 @@
+import { updateRecord, updateRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Updates a specific NFT token",
+  operationId: "updateNftToken",
+  tags: ["Admin", "NFT", "Tokens"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the NFT token to update",
+      required: true,
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    description: "New data for the NFT token",
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            description: { type: "string" },
+            image: { type: "string" },
+            rarity: {
+              type: "string",
+              enum: ["COMMON", "UNCOMMON", "RARE", "EPIC", "LEGENDARY"],
+            },
+            status: { type: "string", enum: ["DRAFT", "MINTED", "BURNED"] },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT Token"),
+  requiresAuth: true,
+  permission: "edit.nft.token",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { name, description, image, rarity, status } = body;
+
+  return await updateRecord("nftToken", params.id, {
+    name,
+    description,
+    image,
+    rarity,
+    status,
+  });
+};
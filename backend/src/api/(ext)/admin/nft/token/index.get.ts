@@ -0,0 +1,64 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Lists all NFT tokens with pagination and optional filtering",
+  operationId: "listNftTokens",
+  tags: ["Admin", "NFT", "Tokens"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of NFT tokens with pagination",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Tokens"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.nft.token",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftToken,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: [
+      {
+        model: models.nftCollection,
+        as: "collection",
+        attributes: ["id", "name", "slug", "logoImage"],
+      },
+      {
+        model: models.user,
+        as: "creator",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+      {
+        model: models.user,
+        as: "owner",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+    ],
+    numericFields: ["views", "likes", "rarityScore"],
+  });
+};
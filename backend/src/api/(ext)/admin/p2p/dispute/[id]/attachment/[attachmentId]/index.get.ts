@@ -0,0 +1,62 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  collectTradeAttachments,
+  readTradeAttachment,
+} from "../../../../../../p2p/utils/attachments";
+
+export const metadata = {
+  summary: "Get P2P Dispute Attachment (Admin)",
+  description:
+    "Returns a file attached to the disputed trade's messages or evidence as a base64 data URL.",
+  operationId: "getAdminP2PDisputeAttachment",
+  tags: ["Admin", "Disputes", "P2P"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "Dispute ID",
+      required: true,
+      schema: { type: "string" },
+    },
+    {
+      index: 1,
+      name: "attachmentId",
+      in: "path",
+      description: "Attachment ID",
+      required: true,
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: { description: "Attachment retrieved successfully." },
+    401: { description: "Unauthorized." },
+    404: { description: "Dispute or attachment not found." },
+    500: { description: "Internal Server Error." },
+  },
+  permission: "view.p2p.dispute",
+};
+
+export default async (data) => {
+  const { id, attachmentId } = data.params;
+
+  const dispute = await models.p2pDispute.findByPk(id, {
+    include: [{ association: "trade", attributes: ["id", "timeline"] }],
+  });
+  if (!dispute || !dispute.trade) {
+    throw createError({ statusCode: 404, message: "Dispute not found" });
+  }
+
+  const disputes = await models.p2pDispute.findAll({
+    where: { tradeId: dispute.tradeId },
+    attributes: ["evidence"],
+  });
+
+  return readTradeAttachment(
+    dispute.tradeId,
+    collectTradeAttachments(dispute.trade, disputes),
+    attachmentId
+  );
+};
@@ -2,25 +2,26 @@ import { models } from "@b/db";
 import { createError } from "@b/utils/error";
 
 export const metadata = {
-  summary: "Get P2P Offer by ID (Admin)",
-  description: "Retrieves detailed information about a specific offer.",
-  operationId: "getAdminP2POfferById",
-  tags: ["Admin", "Offers", "P2P"],
+  summary: "Get P2P Dispute by ID (Admin)",
+  description:
+    "Retrieves a dispute with its trade, both parties and submitted evidence.",
+  operationId: "getAdminP2PDisputeById",
+  tags: ["Admin", "Disputes", "P2P"],
   requiresAuth: true,
   parameters: [
     {
       index: 0,
       name: "id",
       in: "path",
-      description: "Offer ID",
+      description: "Dispute ID",
       required: true,
       schema: { type: "string" },
     },
   ],
   responses: {
-    200: { description: "Offer retrieved successfully." },
+    200: { description: "Dispute retrieved successfully." },
     401: { description: "Unauthorized." },
-    404: { description: "Offer not found." },
+    404: { description: "Dispute not found." },
     500: { description: "Internal Server Error." },
   },
   permission: "view.p2p.dispute",
@@ -31,22 +32,50 @@ export default async (data) => {
   const { id } = params;
 
   try {
-    const offer = await models.p2pOffer.findByPk(id, {
+    const dispute = await models.p2pDispute.findByPk(id, {
       include: [
         {
-          association: "user",
-          attributes: ["id", "firstName", "lastName", "email"],
+          association: "trade",
+          include: [
+            { association: "offer", attributes: ["id", "currency", "type"] },
+          ],
+        },
+        {
+          association: "reportedBy",
+          attributes: ["id", "firstName", "lastName", "email", "avatar"],
+        },
+        {
+          association: "against",
+          attributes: ["id", "firstName", "lastName", "email", "avatar"],
         },
-        { association: "paymentMethods" },
       ],
     });
-    if (!offer)
-      throw createError({ statusCode: 404, message: "Offer not found" });
-    return offer.toJSON();
+    if (!dispute)
+      throw createError({ statusCode: 404, message: "Dispute not found" });
+
+    const plain = dispute.toJSON();
+    return {
+      ...plain,
+      reportedBy: formatParty(plain.reportedBy),
+      against: formatParty(plain.against),
+    };
   } catch (err) {
+    if (err.statusCode) {
+      throw err;
+    }
     throw createError({
       statusCode: 500,
       message: "Internal Server Error: " + err.message,
     });
   }
 };
+
+function formatParty(party: any) {
+  if (!party) return null;
+  const name = `${party.firstName || ""} ${party.lastName || ""}`.trim();
+  return {
+    ...party,
+    name: name || party.email,
+    initials: `${party.firstName?.[0] || ""}${party.lastName?.[0] || ""}`,
+  };
+}
@@ -8,11 +8,12 @@ import {
   unauthorizedResponse,
 } from "@b/utils/query";
 import { baseDiscountSchema } from "../../utils";
+import { getDiscountError } from "../../utils/pricing";
 
 export const metadata: OperationObject = {
   summary: "Applies a discount code to a product",
   description:
-    "Allows a user to apply a discount code to a product if the discount is active and has not expired.",
+    "Allows a user to apply a discount code to a product if the discount is active, has not expired or reached its usage limit, and is either for this product or cart-wide.",
   operationId: "applyEcommerceDiscount",
   tags: ["Ecommerce", "Discounts"],
   requiresAuth: true,
@@ -72,7 +73,7 @@ export default async (data: Handler) => {
 
   const discount = await models.ecommerceDiscount.findOne({
     where: {
-      productId: productId,
+      [Op.or]: [{ productId: productId }, { productId: null }],
       code,
       status: true,
       validUntil: {
@@ -88,6 +89,11 @@ export default async (data: Handler) => {
     });
   }
 
+  const error = getDiscountError(discount);
+  if (error) {
+    throw createError({ statusCode: 400, message: error });
+  }
+
   // Check if user already has this discount applied
   const existingDiscount = await models.ecommerceUserDiscount.findOne({
     where: {
@@ -115,6 +121,9 @@ export default async (data: Handler) => {
     id: discount.id,
     code: discount.code,
     status: discount.status,
+    type: discount.type,
     percentage: discount.percentage,
+    amount: discount.amount,
+    minSpend: discount.minSpend,
   };
 };
@@ -6,10 +6,17 @@ import {
   unauthorizedResponse,
 } from "@b/utils/query";
 import { rateLimiters } from "@b/handler/Middleware";
+import {
+  CartItemInput,
+  findDiscount,
+  getDiscountError,
+  loadCartLines,
+} from "../utils/pricing";
 
 export const metadata: OperationObject = {
   summary: "Validate discount code",
-  description: "Validates a discount code and returns discount information if valid.",
+  description:
+    "Validates a discount code and returns discount information if valid. When the cart items are given, the product and minimum spend of the code are checked as well.",
   operationId: "validateDiscountCode",
   tags: ["Ecommerce", "Discounts"],
   requiresAuth: true,
@@ -24,6 +31,19 @@ export const metadata: OperationObject = {
               type: "string",
               description: "Discount code to validate",
             },
+            items: {
+              type: "array",
+              description: "Cart items the code would be used on",
+              items: {
+                type: "object",
+                properties: {
+                  productId: { type: "string" },
+                  variantId: { type: "string", nullable: true },
+                  quantity: { type: "number" },
+                },
+                required: ["productId", "quantity"],
+              },
+            },
           },
           required: ["code"],
         },
@@ -42,6 +62,8 @@ export const metadata: OperationObject = {
               code: { type: "string" },
               type: { type: "string", enum: ["PERCENTAGE", "FIXED", "FREE_SHIPPING"] },
               value: { type: "number" },
+              minSpend: { type: "number", nullable: true },
+              productId: { type: "string", nullable: true },
               message: { type: "string" },
               isValid: { type: "boolean" },
             },
@@ -77,23 +99,22 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
-  const { code } = body;
+  const { code, items } = body;
 
   if (!code || typeof code !== "string") {
-    throw createError({ 
-      statusCode: 400, 
-      message: "Discount code is required" 
+    throw createError({
+      statusCode: 400,
+      message: "Discount code is required",
     });
   }
 
+  // Cart problems such as a missing product are reported as they are
+  const lines = Array.isArray(items)
+    ? await loadCartLines(items as CartItemInput[])
+    : null;
+
   try {
-    // Find the discount by code
-    const discount = await models.ecommerceDiscount.findOne({
-      where: { 
-        code: code.toUpperCase().trim(),
-        status: true, // Only active discounts
-      },
-    });
+    const discount = await findDiscount({ code });
 
     if (!discount) {
       return {
@@ -102,66 +123,35 @@ export default async (data: Handler) => {
       };
     }
 
-    const discountData = discount.get({ plain: true }) as any;
-    const now = new Date();
-
-    // Check if discount is still valid (not expired)
-    if (discountData.validUntil && new Date(discountData.validUntil) < now) {
-      return {
-        error: "This discount code has expired",
-        isValid: false,
-      };
+    const error = getDiscountError(discount, lines);
+    if (error) {
+      return { error, isValid: false };
     }
 
-    // Check if discount hasn't started yet
-    if (discountData.validFrom && new Date(discountData.validFrom) > now) {
+    // Codes can be used once per user, the use is recorded with the order
+    const existingUse = await models.ecommerceUserDiscount.findOne({
+      where: {
+        userId: user.id,
+        discountId: discount.id,
+        status: true,
+      },
+    });
+
+    if (existingUse) {
       return {
-        error: "This discount code is not yet active",
+        error: "You have already used this discount code",
         isValid: false,
       };
     }
 
-    // Check if user has already used this discount (if it's single-use)
-    if (discountData.maxUses === 1) {
-      const existingUse = await models.ecommerceUserDiscount.findOne({
-        where: {
-          userId: user.id,
-          discountId: discountData.id,
-        },
-      });
-
-      if (existingUse) {
-        return {
-          error: "You have already used this discount code",
-          isValid: false,
-        };
-      }
-    }
-
-    // Check if discount has reached maximum uses
-    if (discountData.maxUses && discountData.maxUses > 0) {
-      const usageCount = await models.ecommerceUserDiscount.count({
-        where: {
-          discountId: discountData.id,
-        },
-      });
-
-      if (usageCount >= discountData.maxUses) {
-        return {
-          error: "This discount code has reached its usage limit",
-          isValid: false,
-        };
-      }
-    }
-
     // Generate success message based on discount type
     let message = "";
-    switch (discountData.type) {
+    switch (discount.type) {
       case "PERCENTAGE":
-        message = `${discountData.percentage}% discount applied!`;
+        message = `${discount.percentage}% discount applied!`;
         break;
       case "FIXED":
-        message = `$${discountData.amount} discount applied!`;
+        message = `${discount.amount} discount applied!`;
         break;
       case "FREE_SHIPPING":
         message = "Free shipping applied!";
@@ -170,26 +160,22 @@ export default async (data: Handler) => {
         message = "Discount applied successfully!";
     }
 
-    // Create user discount record to track usage
-    await models.ecommerceUserDiscount.create({
-      userId: user.id,
-      discountId: discountData.id,
-    });
-
     return {
-      id: discountData.id,
-      code: discountData.code,
-      type: discountData.type,
-      value: discountData.type === "PERCENTAGE" ? discountData.percentage : discountData.amount,
+      id: discount.id,
+      code: discount.code,
+      type: discount.type,
+      value:
+        discount.type === "PERCENTAGE" ? discount.percentage : discount.amount,
+      minSpend: discount.minSpend ?? null,
+      productId: discount.productId ?? null,
       message,
       isValid: true,
     };
-
   } catch (error) {
     console.error("Discount validation error:", error);
-    throw createError({ 
-      statusCode: 500, 
-      message: "Error validating discount code" 
+    throw createError({
+      statusCode: 500,
+      message: "Error validating discount code",
     });
   }
-}; 
\ No newline at end of file
+};
@@ -1,5 +1,6 @@
 import { models } from "@b/db";
 import { createError } from "@b/utils/error";
+import { PAID_ORDER_STATUSES } from "../../utils/order";
 import {
   notFoundMetadataResponse,
   serverErrorResponse,
@@ -86,11 +87,11 @@ export default async (data: Handler) => {
 
   const orderItemData = orderItem.get({ plain: true }) as any;
 
-  // Verify the order is completed
-  if (orderItemData.order.status !== "COMPLETED") {
+  // Verify the order is paid and has not been refunded or cancelled
+  if (!PAID_ORDER_STATUSES.includes(orderItemData.order.status)) {
     throw createError({ 
       statusCode: 403, 
-      message: "Order must be completed before downloading" 
+      message: "Order must be paid before downloading" 
     });
   }
 
@@ -54,7 +54,7 @@ export default async (data: Handler) => {
         model: models.ecommerceProduct,
         as: "products",
         through: {
-          attributes: ["quantity", "key", "filePath"],
+          attributes: ["quantity", "variantId", "price", "key", "filePath"],
         },
         attributes: [
           "name",
@@ -73,6 +73,19 @@ export default async (data: Handler) => {
           },
         ],
       },
+      {
+        model: models.ecommerceOrderItem,
+        as: "ecommerceOrderItems",
+        attributes: ["id", "productId", "variantId", "quantity", "price"],
+        include: [
+          {
+            model: models.ecommerceProductVariant,
+            as: "variant",
+            attributes: ["id", "sku", "options"],
+            paranoid: false,
+          },
+        ],
+      },
       {
         model: models.ecommerceShipping,
         as: "shipping",
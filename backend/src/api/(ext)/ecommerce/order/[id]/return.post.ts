@@ -0,0 +1,98 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createAdminNotification } from "@b/utils/notifications";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { notifyOrderStatus, requestOrderReturn } from "../../utils/order";
+
+export const metadata: OperationObject = {
+  summary: "Requests a return for an order",
+  description:
+    "Asks for a refund of a shipped, delivered or completed order, for example a damaged parcel or a download that does not work. An admin then refunds or declines the request.",
+  operationId: "requestEcommerceOrderReturn",
+  tags: ["Ecommerce", "Orders"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+      description: "ID of the order to return",
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            reason: {
+              type: "string",
+              description: "Why the order is being returned",
+            },
+          },
+          required: ["reason"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Return requested successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Order"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const order = await sequelize.transaction(async (transaction) => {
+    const order = await models.ecommerceOrder.findOne({
+      where: { id: params.id, userId: user.id },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!order) {
+      throw createError({ statusCode: 404, message: "Order not found" });
+    }
+    await requestOrderReturn(order, body.reason, transaction);
+    return order;
+  });
+
+  await notifyOrderStatus(order, "RETURN_REQUESTED");
+  try {
+    await createAdminNotification(
+      "edit.ecommerce.order",
+      "Order Return Requested",
+      `A return was requested for order #${order.id.slice(0, 8)}: ${order.returnReason}`,
+      "alert",
+      `/admin/ecommerce/order/${order.id}`
+    );
+  } catch (error) {
+    console.error("Failed to notify admins of a return request:", error);
+  }
+
+  return { message: "Return requested successfully" };
+};
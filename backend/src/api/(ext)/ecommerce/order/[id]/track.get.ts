@@ -32,6 +32,7 @@ export const metadata: OperationObject = {
             properties: {
               orderId: { type: "string" },
               status: { type: "string" },
+              refundedAmount: { type: "number" },
               shipping: {
                 type: "object",
                 properties: {
@@ -87,6 +88,7 @@ export default async (data: Handler) => {
           "shipper",
           "transporter",
           "vehicle",
+          "trackingNumber",
           "createdAt",
           "updatedAt",
         ],
@@ -159,9 +161,25 @@ export default async (data: Handler) => {
     }
   }
 
+  // Returns and refunds are recorded on the order itself
+  const orderEvents = {
+    RETURN_REQUESTED: "A return has been requested and is under review",
+    REFUNDED: "Order has been refunded to your wallet",
+    CANCELLED: "Order has been cancelled",
+    REJECTED: "Order has been rejected",
+  };
+  if (orderEvents[orderData.status]) {
+    timeline.push({
+      status: orderData.status,
+      timestamp: orderData.updatedAt,
+      description: orderEvents[orderData.status],
+    });
+  }
+
   return {
     orderId: orderData.id,
     status: orderData.status,
+    refundedAmount: orderData.refundedAmount,
     shipping: orderData.shipping,
     timeline: timeline.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
   };
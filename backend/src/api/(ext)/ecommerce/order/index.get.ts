@@ -61,7 +61,7 @@ export default async (data: Handler) => {
         model: models.ecommerceProduct,
         as: "products",
         through: {
-          attributes: ["quantity"],
+          attributes: ["quantity", "variantId", "price"],
         },
         attributes: ["name", "price", "status"],
       },
@@ -6,11 +6,12 @@ import { createError } from "@b/utils/error";
 import { createNotification } from "@b/utils/notifications";
 import { createRecordResponses } from "@b/utils/query";
 import { rateLimiters } from "@b/handler/Middleware";
+import { getCartItems, quoteOrder } from "../utils/pricing";
 
 export const metadata: OperationObject = {
   summary: "Creates a new order",
   description:
-    "Processes a new order for the logged-in user, checking inventory, wallet balance, and applying any available discounts.",
+    "Processes a new order for the logged-in user, checking inventory per product or variant, wallet balance, discounts and the tax rule of the shipping country.",
   operationId: "createEcommerceOrder",
   tags: ["Ecommerce", "Orders"],
   requiresAuth: true,
@@ -21,12 +22,35 @@ export const metadata: OperationObject = {
         schema: {
           type: "object",
           properties: {
+            items: {
+              type: "array",
+              description: "Products to order, replaces productId and amount",
+              items: {
+                type: "object",
+                properties: {
+                  productId: { type: "string" },
+                  variantId: { type: "string", nullable: true },
+                  quantity: { type: "number" },
+                },
+                required: ["productId", "quantity"],
+              },
+            },
             productId: { type: "string", description: "Product ID to order" },
+            variantId: {
+              type: "string",
+              description: "Variant of the product to order",
+              nullable: true,
+            },
             discountId: {
               type: "string",
               description: "Discount ID applied to the order",
               nullable: true,
             },
+            discountCode: {
+              type: "string",
+              description: "Discount code applied to the order",
+              nullable: true,
+            },
             amount: {
               type: "number",
               description: "Quantity of the product to purchase",
@@ -55,7 +79,6 @@ export const metadata: OperationObject = {
               ],
             },
           },
-          required: ["productId", "amount"],
         },
       },
     },
@@ -66,203 +89,217 @@ export const metadata: OperationObject = {
 export default async (data: Handler) => {
   // Apply rate limiting
   await rateLimiters.orderCreation(data);
-  
+
   const { user, body } = data;
   if (!user?.id) {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
-  const { productId, discountId, amount, shippingAddress } = body;
-
-  // Validate amount
-  if (!amount || amount <= 0 || !Number.isInteger(amount)) {
-    throw createError({ statusCode: 400, message: "Invalid quantity" });
-  }
-
-  const transaction = await sequelize.transaction();
+  const { discountId, discountCode, shippingAddress } = body;
+  const items = getCartItems(body);
 
   const userPk = await models.user.findByPk(user.id);
   if (!userPk) {
     throw createError({ statusCode: 404, message: "User not found" });
   }
 
-  const product = await models.ecommerceProduct.findByPk(productId, { transaction });
-  if (!product) {
-    await transaction.rollback();
-    throw createError({ statusCode: 404, message: "Product not found" });
-  }
-
-  // Validate product is active
-  if (!product.status) {
-    await transaction.rollback();
-    throw createError({ statusCode: 400, message: "Product is not available" });
-  }
-
-  // Check inventory for physical products
-  if (product.type === "PHYSICAL" && product.inventoryQuantity < amount) {
-    await transaction.rollback();
-    throw createError({ statusCode: 400, message: "Insufficient inventory" });
-  }
-
-  // Get system settings for tax and shipping
-  const systemSettings = await models.settings.findAll();
-  const settings = systemSettings.reduce((acc, setting) => {
-    acc[setting.key] = setting.value;
-    return acc;
-  }, {} as Record<string, any>);
+  const transaction = await sequelize.transaction();
+  let order: any;
+  let quote: Awaited<ReturnType<typeof quoteOrder>>;
+  let wallet: any;
 
-  // Calculate base cost
-  let subtotal = product.price * amount;
-  let userDiscount: any = null;
-  let discountAmount = 0;
+  try {
+    quote = await quoteOrder(
+      {
+        userId: user.id,
+        items,
+        discountId,
+        discountCode,
+        country: shippingAddress?.country,
+      },
+      transaction
+    );
+    const { lines, discount, totals } = quote;
 
-  // Apply discount if applicable
-  if (discountId && discountId !== "null") {
-    userDiscount = await models.ecommerceUserDiscount.findOne({
+    // Check user wallet balance
+    wallet = await models.wallet.findOne({
       where: {
         userId: user.id,
-        discountId: discountId,
+        type: quote.walletType,
+        currency: quote.currency,
       },
-      include: [
-        {
-          model: models.ecommerceDiscount,
-          as: "discount",
-        },
-      ],
+      transaction,
+      lock: transaction.LOCK.UPDATE, // Lock the wallet for update to prevent race conditions
     });
 
-    if (!userDiscount) {
-      throw createError({ statusCode: 404, message: "Discount not found" });
+    if (!wallet || wallet.balance < totals.total) {
+      throw createError({ statusCode: 400, message: "Insufficient balance" });
     }
 
-    if (userDiscount.discount.type === "PERCENTAGE") {
-      discountAmount = subtotal * (userDiscount.discount.percentage / 100);
-    } else if (userDiscount.discount.type === "FIXED") {
-      discountAmount = Math.min(userDiscount.discount.value, subtotal);
-    }
-    
-    subtotal -= discountAmount;
-  }
+    // Create order and order items
+    order = await models.ecommerceOrder.create(
+      {
+        userId: user.id,
+        status: "PENDING",
+        discountId: discount?.id || null,
+        currency: quote.currency,
+        walletType: quote.walletType,
+        ...totals,
+      },
+      { transaction }
+    );
 
-  // Calculate shipping cost for physical products
-  let shippingCost = 0;
-  if (product.type === "PHYSICAL" && settings.ecommerceShippingEnabled === "true") {
-    shippingCost = parseFloat(settings.ecommerceDefaultShippingCost || "0");
-  }
+    for (const line of lines) {
+      await models.ecommerceOrderItem.create(
+        {
+          orderId: order.id,
+          productId: line.product.id,
+          variantId: line.variant?.id || null,
+          quantity: line.quantity,
+          price: line.unitPrice,
+        },
+        { transaction }
+      );
 
-  // Calculate tax
-  let taxAmount = 0;
-  if (settings.ecommerceTaxEnabled === "true") {
-    const taxRate = parseFloat(settings.ecommerceDefaultTaxRate || "0") / 100;
-    taxAmount = subtotal * taxRate;
-  }
+      if (line.product.type !== "PHYSICAL") continue;
 
-  // Calculate total cost
-  const cost = subtotal + shippingCost + taxAmount;
+      // Update inventory with optimistic locking, on the variant when there is one
+      const stockModel = line.variant
+        ? models.ecommerceProductVariant
+        : models.ecommerceProduct;
+      const [updatedRows] = await stockModel.update(
+        {
+          inventoryQuantity: sequelize.literal(
+            `inventoryQuantity - ${line.quantity}`
+          ),
+        },
+        {
+          where: {
+            id: line.variant?.id || line.product.id,
+            inventoryQuantity: { [Op.gte]: line.quantity }, // Ensure inventory is still available
+          },
+          transaction,
+        }
+      );
 
-  // Check user wallet balance
-  const wallet = await models.wallet.findOne({
-    where: {
-      userId: user.id,
-      type: product.walletType,
-      currency: product.currency,
-    },
-    transaction,
-    lock: transaction.LOCK.UPDATE, // Lock the wallet for update to prevent race conditions
-  });
+      if (updatedRows === 0) {
+        throw createError({
+          statusCode: 400,
+          message: "Product inventory changed during checkout",
+        });
+      }
+    }
 
-  if (!wallet || wallet.balance < cost) {
-    await transaction.rollback();
-    throw createError({ statusCode: 400, message: "Insufficient balance" });
-  }
+    if (discount) {
+      // Count the use against the cap, unless another order took the last one
+      const [counted] = await models.ecommerceDiscount.update(
+        { usageCount: sequelize.literal("usageCount + 1") },
+        {
+          where: {
+            id: discount.id,
+            [Op.or]: [
+              { maxUses: null },
+              { usageCount: { [Op.lt]: sequelize.col("maxUses") } },
+            ],
+          },
+          transaction,
+        }
+      );
+      if (!counted) {
+        throw createError({
+          statusCode: 400,
+          message: "This discount code has reached its usage limit",
+        });
+      }
 
-  const newBalance = wallet.balance - cost;
+      const [claimed] = await models.ecommerceUserDiscount.update(
+        { status: true },
+        {
+          where: { userId: user.id, discountId: discount.id, status: false },
+          transaction,
+        }
+      );
+      if (!claimed) {
+        await models.ecommerceUserDiscount.create(
+          { userId: user.id, discountId: discount.id, status: true },
+          { transaction }
+        );
+      }
+    }
 
-  // Create order and order items
-  const order = await models.ecommerceOrder.create(
-    {
-      userId: user.id,
-      status: "PENDING",
-    },
-    { transaction }
-  );
+    await wallet.update(
+      { balance: wallet.balance - totals.total },
+      { transaction }
+    );
 
-  await models.ecommerceOrderItem.create(
-    {
-      orderId: order.id,
-      productId: productId,
-      quantity: amount,
-    },
-    { transaction }
-  );
+    // Create a transaction record
+    const itemsLabel = lines
+      .map(
+        (line) =>
+          `${line.product.name}${line.variant ? ` (${line.variant.sku})` : ""} x${line.quantity}`
+      )
+      .join(", ");
+    const description = `Purchase of ${itemsLabel} (${totals.subtotal.toFixed(2)}${totals.discountAmount > 0 ? ` - ${totals.discountAmount.toFixed(2)} discount` : ""}${totals.shippingCost > 0 ? ` + ${totals.shippingCost.toFixed(2)} shipping` : ""}${totals.taxAmount > 0 ? ` + ${totals.taxAmount.toFixed(2)} tax` : ""}) = ${totals.total.toFixed(2)} ${quote.currency}`;
 
-  // Update product inventory with optimistic locking
-  if (product.type === "PHYSICAL") {
-    const [updatedRows] = await models.ecommerceProduct.update(
-      { inventoryQuantity: sequelize.literal(`inventoryQuantity - ${amount}`) },
-      { 
-        where: { 
-          id: productId, 
-          inventoryQuantity: { [Op.gte]: amount } // Ensure inventory is still available
-        },
-        transaction 
-      }
+    await models.transaction.create(
+      {
+        userId: user.id,
+        walletId: wallet.id,
+        type: "PAYMENT",
+        status: "COMPLETED",
+        amount: totals.total,
+        description,
+        referenceId: order.id,
+      },
+      { transaction }
     );
 
-    if (updatedRows === 0) {
-      await transaction.rollback();
-      throw createError({ statusCode: 400, message: "Product inventory changed during checkout" });
+    // Create shipping address if the order has physical products
+    if (
+      lines.some((line) => line.product.type !== "DOWNLOADABLE") &&
+      shippingAddress
+    ) {
+      await models.ecommerceShippingAddress.create(
+        {
+          userId: user.id,
+          orderId: order.id,
+          ...shippingAddress,
+        },
+        { transaction }
+      );
     }
-  }
 
-  await wallet.update({ balance: newBalance }, { transaction });
-
-  // Create a transaction record
-  const description = `Purchase of ${product.name} x${amount} (${(product.price * amount).toFixed(2)}${discountAmount > 0 ? ` - ${discountAmount.toFixed(2)} discount` : ''}${shippingCost > 0 ? ` + ${shippingCost.toFixed(2)} shipping` : ''}${taxAmount > 0 ? ` + ${taxAmount.toFixed(2)} tax` : ''}) = ${cost.toFixed(2)} ${product.currency}`;
-  
-  await models.transaction.create(
-    {
-      userId: user.id,
-      walletId: wallet.id,
-      type: "PAYMENT",
-      status: "COMPLETED",
-      amount: cost,
-      description,
-      referenceId: order.id,
-    },
-    { transaction }
-  );
-
-  // Update discount status if applicable
-  if (userDiscount) {
-    await userDiscount.update({ status: true }, { transaction });
-  }
-
-  // Create shipping address if product is physical
-  if (product.type !== "DOWNLOADABLE" && shippingAddress) {
-    await models.ecommerceShippingAddress.create(
+    // Downloads are delivered right away, physical items still need shipping
+    await order.update(
       {
-        userId: user.id,
-        orderId: order.id,
-        ...shippingAddress,
+        status: lines.every((line) => line.product.type === "DOWNLOADABLE")
+          ? "COMPLETED"
+          : "PAID",
       },
       { transaction }
     );
-  }
 
-  // Update order status to completed
-  await order.update({ status: "COMPLETED" }, { transaction });
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
 
-  await transaction.commit();
+  const { lines, totals } = quote;
+  const [firstLine] = lines;
+  const summary =
+    lines.length === 1
+      ? `${firstLine.product.name} x${firstLine.quantity}`
+      : `${lines.length} items`;
 
   // Send order confirmation email and create notification
   try {
-    await sendOrderConfirmationEmail(userPk, order, product);
+    await sendOrderConfirmationEmail(userPk, order, firstLine.product);
     await createNotification({
       userId: user.id,
       relatedId: order.id,
       title: "Order Confirmation",
-      message: `Your order for ${product.name} x${amount} has been confirmed.`,
+      message: `Your order for ${summary} has been confirmed.`,
       type: "system",
       link: `/ecommerce/orders/${order.id}`,
       actions: [
@@ -281,11 +318,11 @@ export default async (data: Handler) => {
   }
 
   // Process rewards if applicable
-  if (product.type === "DOWNLOADABLE") {
+  if (lines.every((line) => line.product.type === "DOWNLOADABLE")) {
     try {
       await processRewards(
         user.id,
-        cost,
+        totals.total,
         "ECOMMERCE_PURCHASE",
         wallet.currency
       );
@@ -296,6 +333,7 @@ export default async (data: Handler) => {
 
   return {
     id: order.id,
+    total: totals.total,
     message: "Order created successfully",
   };
 };
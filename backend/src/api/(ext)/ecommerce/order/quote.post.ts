@@ -0,0 +1,115 @@
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { getCartItems, quoteOrder, serializeQuote } from "../utils/pricing";
+
+export const metadata: OperationObject = {
+  summary: "Prices a cart before ordering",
+  description:
+    "Computes the subtotal, discount, shipping, tax and total an order for these items would be charged, using the same rules as order creation.",
+  operationId: "quoteEcommerceOrder",
+  tags: ["Ecommerce", "Orders"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            items: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  productId: { type: "string" },
+                  variantId: { type: "string", nullable: true },
+                  quantity: { type: "number" },
+                },
+                required: ["productId", "quantity"],
+              },
+            },
+            discountId: { type: "string", nullable: true },
+            discountCode: { type: "string", nullable: true },
+            country: {
+              type: "string",
+              description: "Shipping country as an ISO 3166-1 alpha-2 code",
+              nullable: true,
+            },
+          },
+          required: ["items"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Order totals",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              currency: { type: "string" },
+              walletType: { type: "string" },
+              items: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    productId: { type: "string" },
+                    variantId: { type: "string", nullable: true },
+                    name: { type: "string" },
+                    sku: { type: "string", nullable: true },
+                    options: { type: "object", nullable: true },
+                    quantity: { type: "number" },
+                    unitPrice: { type: "number" },
+                    lineTotal: { type: "number" },
+                  },
+                },
+              },
+              discount: {
+                type: "object",
+                nullable: true,
+                properties: {
+                  id: { type: "string" },
+                  code: { type: "string" },
+                  type: { type: "string" },
+                },
+              },
+              subtotal: { type: "number" },
+              discountAmount: { type: "number" },
+              shippingCost: { type: "number" },
+              taxRate: { type: "number" },
+              taxAmount: { type: "number" },
+              total: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Product"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const quote = await quoteOrder({
+    userId: user.id,
+    items: getCartItems(body),
+    discountId: body.discountId,
+    discountCode: body.discountCode,
+    country: body.country,
+  });
+
+  return serializeQuote(quote);
+};
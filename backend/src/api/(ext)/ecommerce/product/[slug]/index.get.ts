@@ -11,7 +11,7 @@ import { baseProductSchema } from "../../utils";
 export const metadata: OperationObject = {
   summary: "Retrieves a specific ecommerce product by slug",
   description:
-    "Fetches a single ecommerce product by its slug, including details such as category and reviews.",
+    "Fetches a single ecommerce product by its slug, including details such as category, reviews and the variants on sale.",
   operationId: "getEcommerceProductBySlug",
   tags: ["Ecommerce", "Products"],
   parameters: [
@@ -68,6 +68,20 @@ export default async (data: Handler) => {
         as: "category",
         attributes: ["id", "name", "slug"],
       },
+      {
+        model: models.ecommerceProductVariant,
+        as: "variants",
+        where: { status: true },
+        required: false,
+        attributes: [
+          "id",
+          "sku",
+          "options",
+          "price",
+          "inventoryQuantity",
+          "image",
+        ],
+      },
       {
         model: models.ecommerceReview,
         as: "ecommerceReviews",
@@ -57,7 +57,7 @@ export default async (data: Handler) => {
   const userHasPurchased = await models.ecommerceOrder.findOne({
     where: {
       userId: user.id,
-      status: "COMPLETED",
+      status: ["DELIVERED", "COMPLETED"],
     },
     include: [
       {
@@ -10,7 +10,9 @@ export const baseDiscountSchema = {
 
 export const baseOrderItemSchema = {
   productId: baseStringSchema("Product ID of the item"),
+  variantId: baseStringSchema("Variant ID of the item", 191, 0, true),
   quantity: baseNumberSchema("Quantity of the product ordered"),
+  price: baseNumberSchema("Unit price charged for the item"),
   product: {
     type: "object",
     description: "Details of the product ordered",
@@ -26,6 +28,13 @@ export const baseOrderItemSchema = {
 export const baseOrderSchema = {
   id: baseStringSchema("The unique identifier for the order"),
   status: baseStringSchema("Status of the order"),
+  currency: baseStringSchema("Currency the order was paid in"),
+  subtotal: baseNumberSchema("Sum of the item prices"),
+  discountAmount: baseNumberSchema("Amount taken off by the discount code"),
+  shippingCost: baseNumberSchema("Shipping cost of the order"),
+  taxRate: baseNumberSchema("Tax percentage of the shipping country"),
+  taxAmount: baseNumberSchema("Tax charged on the discounted subtotal"),
+  total: baseNumberSchema("Amount charged to the wallet"),
   orderItems: {
     type: "array",
     description: "List of items in the order",
@@ -55,6 +64,19 @@ export const baseReviewSchema = {
   },
 };
 
+export const baseVariantSchema = {
+  id: baseStringSchema("Variant ID"),
+  sku: baseStringSchema("Stock keeping unit of the variant"),
+  options: {
+    type: "object",
+    description: "Option values of the variant, e.g. { Size: 'M' }",
+    additionalProperties: { type: "string" },
+  },
+  price: baseNumberSchema("Price of the variant"),
+  inventoryQuantity: baseNumberSchema("Inventory quantity available"),
+  image: baseStringSchema("Variant image URL", 255, 0, true),
+};
+
 export const baseProductSchema = {
   id: baseStringSchema("The unique identifier for the product"),
   name: baseStringSchema("Name of the product"),
@@ -66,6 +88,28 @@ export const baseProductSchema = {
   image: baseStringSchema("URL of the product image", 255, 0, true),
   currency: baseStringSchema("Currency of the price"),
   walletType: baseStringSchema("Wallet type for the transaction"),
+  options: {
+    type: "array",
+    description: "Options the product variants are built from",
+    items: {
+      type: "object",
+      properties: {
+        name: baseStringSchema("Option name, e.g. Size"),
+        values: {
+          type: "array",
+          items: { type: "string" },
+        },
+      },
+    },
+  },
+  variants: {
+    type: "array",
+    description: "Variants of the product with their own price and stock",
+    items: {
+      type: "object",
+      properties: baseVariantSchema,
+    },
+  },
   createdAt: baseStringSchema(
     "Timestamp when the product was created",
     undefined,
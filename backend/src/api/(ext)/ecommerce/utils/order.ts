@@ -0,0 +1,347 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { sendOrderStatusUpdateEmail } from "@b/utils/emails";
+import { createNotification } from "@b/utils/notifications";
+import { Op, Transaction } from "sequelize";
+import { roundAmount } from "./pricing";
+
+export const ORDER_STATUSES = [
+  "PENDING",
+  "PAID",
+  "PROCESSING",
+  "SHIPPED",
+  "DELIVERED",
+  "COMPLETED",
+  "RETURN_REQUESTED",
+  "REFUNDED",
+  "CANCELLED",
+  "REJECTED",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Statuses each status can move to. Cancelled, rejected and refunded orders
+// are final, a declined return request goes back to completed, and any other
+// order becomes refunded once its whole payment was refunded.
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: [
+    "PAID",
+    "PROCESSING",
+    "COMPLETED",
+    "CANCELLED",
+    "REJECTED",
+    "REFUNDED",
+  ],
+  PAID: [
+    "PROCESSING",
+    "SHIPPED",
+    "COMPLETED",
+    "CANCELLED",
+    "REJECTED",
+    "REFUNDED",
+  ],
+  PROCESSING: ["SHIPPED", "COMPLETED", "CANCELLED", "REJECTED", "REFUNDED"],
+  SHIPPED: ["DELIVERED", "RETURN_REQUESTED", "REFUNDED"],
+  DELIVERED: ["COMPLETED", "RETURN_REQUESTED", "REFUNDED"],
+  COMPLETED: ["RETURN_REQUESTED", "REFUNDED"],
+  RETURN_REQUESTED: ["COMPLETED", "REFUNDED"],
+  REFUNDED: [],
+  CANCELLED: [],
+  REJECTED: [],
+};
+
+// Paid orders whose items the buyer can use, e.g. download
+export const PAID_ORDER_STATUSES: OrderStatus[] = [
+  "PAID",
+  "PROCESSING",
+  "SHIPPED",
+  "DELIVERED",
+  "COMPLETED",
+  "RETURN_REQUESTED",
+];
+
+const REFUNDING_STATUSES: OrderStatus[] = ["CANCELLED", "REJECTED", "REFUNDED"];
+
+const STATUS_MESSAGES: Record<OrderStatus, string> = {
+  PENDING: "is awaiting confirmation",
+  PAID: "has been paid",
+  PROCESSING: "is being prepared",
+  SHIPPED: "has been shipped",
+  DELIVERED: "has been delivered",
+  COMPLETED: "has been completed",
+  RETURN_REQUESTED: "has a return request under review",
+  REFUNDED: "has been refunded",
+  CANCELLED: "has been cancelled",
+  REJECTED: "has been rejected",
+};
+
+export function getNextOrderStatuses(status: string): OrderStatus[] {
+  return ORDER_TRANSITIONS[status] || [];
+}
+
+export function isOrderFinal(status: string): boolean {
+  return getNextOrderStatuses(status).length === 0;
+}
+
+export function assertOrderTransition(from: string, to: string) {
+  if (!ORDER_STATUSES.includes(to as OrderStatus)) {
+    throw createError({ statusCode: 400, message: `Invalid status ${to}` });
+  }
+  if (!getNextOrderStatuses(from).includes(to as OrderStatus)) {
+    throw createError({
+      statusCode: 400,
+      message: `An order cannot move from ${from} to ${to}`,
+    });
+  }
+}
+
+export async function getLockedOrder(id: string, transaction: Transaction) {
+  const order = await models.ecommerceOrder.findByPk(id, {
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!order) {
+    throw createError({ statusCode: 404, message: "Order not found" });
+  }
+  return order;
+}
+
+/**
+ * Credits part or all of an order's payment back to the wallet it was paid
+ * from and records the refund in the ledger. Refunds never add up to more
+ * than the payment; a null amount refunds what earlier refunds left.
+ * Returns the amount credited and what remains refundable afterwards.
+ */
+export async function refundOrder(
+  order: any,
+  amount: number | null,
+  reason: string | null,
+  transaction: Transaction
+): Promise<{ amount: number; remaining: number }> {
+  const payment = await models.transaction.findOne({
+    where: { referenceId: order.id, type: "PAYMENT" },
+    transaction,
+  });
+  if (!payment) {
+    throw createError({
+      statusCode: 400,
+      message: "No payment was found for this order",
+    });
+  }
+
+  const refunded = Number(order.refundedAmount) || 0;
+  const remaining = roundAmount(Math.max(Number(payment.amount) - refunded, 0));
+  if (amount !== null && (!(amount > 0) || amount > remaining)) {
+    throw createError({
+      statusCode: 400,
+      message: `Refund amount must be between 0 and ${remaining}`,
+    });
+  }
+  const refund = amount ?? remaining;
+  if (refund <= 0) return { amount: 0, remaining };
+
+  const wallet = await models.wallet.findByPk(payment.walletId, {
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!wallet) {
+    throw createError({ statusCode: 404, message: "Wallet not found" });
+  }
+
+  await wallet.update(
+    { balance: roundAmount(wallet.balance + refund) },
+    { transaction }
+  );
+  // The payment holds the order id as its unique reference
+  await models.transaction.create(
+    {
+      userId: order.userId,
+      walletId: wallet.id,
+      type: "REFUND",
+      status: "COMPLETED",
+      amount: refund,
+      description: `Refund for order ${order.id}${reason ? `: ${reason}` : ""}`,
+      metadata: JSON.stringify({ orderId: order.id, reason }),
+    },
+    { transaction }
+  );
+  await order.update(
+    { refundedAmount: roundAmount(refunded + refund) },
+    { transaction }
+  );
+
+  return { amount: refund, remaining: roundAmount(remaining - refund) };
+}
+
+/**
+ * Puts the stock of an order's physical items back and gives back its use of
+ * a discount, the reverse of what checkout took.
+ */
+async function releaseOrder(order: any, transaction: Transaction) {
+  const items = await models.ecommerceOrderItem.findAll({
+    where: { orderId: order.id },
+    transaction,
+  });
+  const products = await models.ecommerceProduct.findAll({
+    where: {
+      id: { [Op.in]: items.map((item) => item.productId) },
+      type: "PHYSICAL",
+    },
+    attributes: ["id"],
+    transaction,
+  });
+  const physical = new Set(products.map((product) => product.id));
+
+  for (const item of items) {
+    if (!physical.has(item.productId)) continue;
+    // Back on the variant when there is one, where checkout took it from
+    const stockModel = item.variantId
+      ? models.ecommerceProductVariant
+      : models.ecommerceProduct;
+    await stockModel.update(
+      {
+        inventoryQuantity: sequelize.literal(
+          `inventoryQuantity + ${item.quantity}`
+        ),
+      },
+      { where: { id: item.variantId || item.productId }, transaction }
+    );
+  }
+
+  if (order.discountId) {
+    await models.ecommerceDiscount.update(
+      { usageCount: sequelize.literal("usageCount - 1") },
+      {
+        where: { id: order.discountId, usageCount: { [Op.gt]: 0 } },
+        transaction,
+      }
+    );
+    await models.ecommerceUserDiscount.update(
+      { status: false },
+      {
+        where: {
+          userId: order.userId,
+          discountId: order.discountId,
+          status: true,
+        },
+        transaction,
+      }
+    );
+  }
+}
+
+/**
+ * Moves an order to a new status. Cancelling, rejecting or refunding it
+ * credits back whatever has not been refunded yet and releases its stock and
+ * discount, and shipping it can record the tracking number on its shipment.
+ * Returns the refunded amount.
+ */
+export async function transitionOrder(
+  order: any,
+  status: string,
+  {
+    trackingNumber,
+    reason,
+  }: { trackingNumber?: string | null; reason?: string | null },
+  transaction: Transaction
+): Promise<number> {
+  assertOrderTransition(order.status, status);
+
+  if (status === "SHIPPED" && trackingNumber) {
+    const shipment = order.shippingId
+      ? await models.ecommerceShipping.findByPk(order.shippingId, {
+          transaction,
+        })
+      : null;
+    if (!shipment) {
+      throw createError({
+        statusCode: 400,
+        message:
+          "Assign a shipment to the order before adding a tracking number",
+      });
+    }
+    await shipment.update({ trackingNumber }, { transaction });
+  }
+
+  let refunded = 0;
+  if (REFUNDING_STATUSES.includes(status as OrderStatus)) {
+    ({ amount: refunded } = await refundOrder(
+      order,
+      null,
+      reason || null,
+      transaction
+    ));
+    await releaseOrder(order, transaction);
+  }
+
+  await order.update({ status }, { transaction });
+  return refunded;
+}
+
+/**
+ * Records a buyer's return request, e.g. for a damaged parcel or a broken
+ * download, for an admin to refund or decline.
+ */
+export async function requestOrderReturn(
+  order: any,
+  reason: string,
+  transaction: Transaction
+) {
+  if (!getNextOrderStatuses(order.status).includes("RETURN_REQUESTED")) {
+    throw createError({
+      statusCode: 400,
+      message: "Returns can only be requested for shipped or completed orders",
+    });
+  }
+  if (!reason?.trim()) {
+    throw createError({
+      statusCode: 400,
+      message: "Please tell us why you want to return this order",
+    });
+  }
+  await order.update(
+    { status: "RETURN_REQUESTED", returnReason: reason.trim() },
+    { transaction }
+  );
+}
+
+/**
+ * Emails and notifies the buyer about a status change or a partial refund,
+ * after commit.
+ */
+export async function notifyOrderStatus(
+  order: any,
+  status: OrderStatus,
+  refunded = 0
+) {
+  try {
+    const user = await models.user.findByPk(order.userId);
+    if (user) await sendOrderStatusUpdateEmail(user, order, status);
+
+    const summary =
+      refunded > 0 && !REFUNDING_STATUSES.includes(status)
+        ? "received a partial refund"
+        : STATUS_MESSAGES[status];
+    const refundNote =
+      refunded > 0
+        ? ` ${refunded} ${order.currency || ""} was refunded to your wallet.`
+        : "";
+    await createNotification({
+      userId: order.userId,
+      relatedId: order.id,
+      title: "Order Update",
+      message: `Your order #${order.id.slice(0, 8)} ${summary}.${refundNote}`,
+      type: "system",
+      link: `/ecommerce/orders/${order.id}`,
+      actions: [
+        {
+          label: "View Order",
+          link: `/ecommerce/orders/${order.id}`,
+          primary: true,
+        },
+      ],
+    });
+  } catch (error) {
+    console.error("Failed to notify the buyer of an order update:", error);
+  }
+}
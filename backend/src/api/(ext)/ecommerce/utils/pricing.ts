@@ -0,0 +1,426 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { Transaction } from "sequelize";
+
+export interface CartItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface CartLine {
+  product: any;
+  variant: any | null;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface PricingDiscount {
+  id?: string;
+  type: "PERCENTAGE" | "FIXED" | "FREE_SHIPPING";
+  percentage?: number | null;
+  amount?: number | null;
+  productId?: string | null;
+}
+
+export interface OrderTotals {
+  subtotal: number;
+  discountAmount: number;
+  shippingCost: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+}
+
+export interface OrderQuote {
+  lines: CartLine[];
+  discount: any | null;
+  currency: string;
+  walletType: "FIAT" | "SPOT" | "ECO";
+  totals: OrderTotals;
+}
+
+const ECOMMERCE_SETTING_KEYS = [
+  "ecommerceTaxEnabled",
+  "ecommerceDefaultTaxRate",
+  "ecommerceShippingEnabled",
+  "ecommerceDefaultShippingCost",
+];
+
+// Wallet balances go down to 8 decimals for crypto currencies
+export function roundAmount(value: number): number {
+  return Number(value.toFixed(8));
+}
+
+/**
+ * Amount a discount takes off the given lines. Product discounts only count
+ * the lines of their product, and a fixed amount never exceeds what it
+ * applies to.
+ */
+export function getDiscountAmount(
+  discount: PricingDiscount | null,
+  lines: CartLine[]
+): number {
+  if (!discount || discount.type === "FREE_SHIPPING") return 0;
+
+  const eligible = lines
+    .filter(
+      (line) => !discount.productId || line.product.id === discount.productId
+    )
+    .reduce((sum, line) => sum + line.lineTotal, 0);
+  if (eligible <= 0) return 0;
+
+  if (discount.type === "FIXED") {
+    return roundAmount(Math.min(discount.amount || 0, eligible));
+  }
+  return roundAmount((eligible * (discount.percentage || 0)) / 100);
+}
+
+/**
+ * Totals of an order: tax is charged on the discounted subtotal, shipping is
+ * added on top and waived by free-shipping codes.
+ */
+export function calculateOrderTotals(
+  lines: CartLine[],
+  options: {
+    discount?: PricingDiscount | null;
+    shippingCost?: number;
+    taxRate?: number;
+  } = {}
+): OrderTotals {
+  const { discount = null, taxRate = 0 } = options;
+  const subtotal = roundAmount(
+    lines.reduce((sum, line) => sum + line.lineTotal, 0)
+  );
+  const discountAmount = getDiscountAmount(discount, lines);
+  const shippingCost =
+    discount?.type === "FREE_SHIPPING" ? 0 : options.shippingCost || 0;
+  const taxAmount = roundAmount(((subtotal - discountAmount) * taxRate) / 100);
+
+  return {
+    subtotal,
+    discountAmount,
+    shippingCost,
+    taxRate,
+    taxAmount,
+    total: roundAmount(subtotal - discountAmount + shippingCost + taxAmount),
+  };
+}
+
+/**
+ * Returns why a discount cannot be used, or null when it can. Without lines
+ * only the code itself is checked, not the product or minimum spend.
+ */
+export function getDiscountError(
+  discount: any,
+  lines: CartLine[] | null = null,
+  now = new Date()
+): string | null {
+  if (!discount.status) {
+    return "This discount code is not active";
+  }
+  if (discount.validUntil && new Date(discount.validUntil) < now) {
+    return "This discount code has expired";
+  }
+  if (discount.maxUses && discount.usageCount >= discount.maxUses) {
+    return "This discount code has reached its usage limit";
+  }
+  if (!lines) return null;
+
+  if (
+    discount.productId &&
+    !lines.some((line) => line.product.id === discount.productId)
+  ) {
+    return "This discount code does not apply to the items in your cart";
+  }
+  const subtotal = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+  if (discount.minSpend && subtotal < discount.minSpend) {
+    return `This discount code requires a minimum spend of ${discount.minSpend}`;
+  }
+  return null;
+}
+
+export function getShippingCost(
+  settings: Record<string, any>,
+  lines: CartLine[]
+): number {
+  const hasPhysical = lines.some((line) => line.product.type === "PHYSICAL");
+  if (!hasPhysical || settings.ecommerceShippingEnabled !== "true") return 0;
+  return parseFloat(settings.ecommerceDefaultShippingCost || "0");
+}
+
+export async function loadEcommerceSettings(
+  transaction?: Transaction
+): Promise<Record<string, any>> {
+  const settings = await models.settings.findAll({
+    where: { key: ECOMMERCE_SETTING_KEYS },
+    transaction,
+  });
+  return settings.reduce(
+    (acc, setting) => {
+      acc[setting.key] = setting.value;
+      return acc;
+    },
+    {} as Record<string, any>
+  );
+}
+
+/**
+ * Tax rate for a shipping country: its tax rule when one is active, the
+ * default rate otherwise.
+ */
+export async function getTaxRate(
+  settings: Record<string, any>,
+  country?: string | null,
+  transaction?: Transaction
+): Promise<number> {
+  if (settings.ecommerceTaxEnabled !== "true") return 0;
+
+  if (country) {
+    const rule = await models.ecommerceTaxRule.findOne({
+      where: { country: country.trim().toUpperCase(), status: true },
+      transaction,
+    });
+    if (rule) return rule.rate;
+  }
+  return parseFloat(settings.ecommerceDefaultTaxRate || "0");
+}
+
+/**
+ * Loads the products and variants of a cart, merging repeated items, and
+ * checks that each is on sale and in stock. Products with variants must be
+ * ordered through one of them.
+ */
+export async function loadCartLines(
+  items: CartItemInput[],
+  transaction?: Transaction
+): Promise<CartLine[]> {
+  if (!Array.isArray(items) || !items.length) {
+    throw createError({ statusCode: 400, message: "Your cart is empty" });
+  }
+
+  const merged = new Map<string, CartItemInput>();
+  for (const item of items) {
+    if (
+      !item?.productId ||
+      !Number.isInteger(item.quantity) ||
+      item.quantity <= 0
+    ) {
+      throw createError({ statusCode: 400, message: "Invalid quantity" });
+    }
+    const key = `${item.productId}:${item.variantId || ""}`;
+    const existing = merged.get(key);
+    merged.set(key, {
+      productId: item.productId,
+      variantId: item.variantId || null,
+      quantity: (existing?.quantity || 0) + item.quantity,
+    });
+  }
+
+  const lines: CartLine[] = [];
+  for (const item of merged.values()) {
+    const product = await models.ecommerceProduct.findByPk(item.productId, {
+      include: [
+        {
+          model: models.ecommerceProductVariant,
+          as: "variants",
+          required: false,
+        },
+      ],
+      transaction,
+    });
+    if (!product) {
+      throw createError({ statusCode: 404, message: "Product not found" });
+    }
+    if (!product.status) {
+      throw createError({
+        statusCode: 400,
+        message: `${product.name} is not available`,
+      });
+    }
+
+    const variants = product.variants || [];
+    let variant: any = null;
+    if (item.variantId) {
+      variant = variants.find((entry) => entry.id === item.variantId);
+      if (!variant) {
+        throw createError({ statusCode: 404, message: "Variant not found" });
+      }
+      if (!variant.status) {
+        throw createError({
+          statusCode: 400,
+          message: `${product.name} (${variant.sku}) is not available`,
+        });
+      }
+    } else if (variants.some((entry) => entry.status)) {
+      throw createError({
+        statusCode: 400,
+        message: `Select the options of ${product.name}`,
+      });
+    }
+
+    const stock = variant
+      ? variant.inventoryQuantity
+      : product.inventoryQuantity;
+    if (product.type === "PHYSICAL" && stock < item.quantity) {
+      throw createError({
+        statusCode: 400,
+        message: `Insufficient inventory for ${product.name}`,
+      });
+    }
+
+    const unitPrice = variant ? variant.price : product.price;
+    lines.push({
+      product,
+      variant,
+      quantity: item.quantity,
+      unitPrice,
+      lineTotal: roundAmount(unitPrice * item.quantity),
+    });
+  }
+
+  const [first] = lines;
+  if (
+    lines.some(
+      (line) =>
+        line.product.currency !== first.product.currency ||
+        line.product.walletType !== first.product.walletType
+    )
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: "All items of an order must be paid from the same wallet",
+    });
+  }
+
+  return lines;
+}
+
+export async function findDiscount(
+  { discountId, code }: { discountId?: string | null; code?: string | null },
+  transaction?: Transaction
+) {
+  if (discountId && discountId !== "null") {
+    return models.ecommerceDiscount.findByPk(discountId, { transaction });
+  }
+  if (code && typeof code === "string") {
+    return models.ecommerceDiscount.findOne({
+      where: { code: code.trim() },
+      transaction,
+    });
+  }
+  return null;
+}
+
+/**
+ * Prices a cart the way an order placed from it would be charged, so that
+ * quotes and orders always agree.
+ */
+export async function quoteOrder(
+  {
+    userId,
+    items,
+    discountId,
+    discountCode,
+    country,
+  }: {
+    userId: string;
+    items: CartItemInput[];
+    discountId?: string | null;
+    discountCode?: string | null;
+    country?: string | null;
+  },
+  transaction?: Transaction
+): Promise<OrderQuote> {
+  const lines = await loadCartLines(items, transaction);
+  const settings = await loadEcommerceSettings(transaction);
+
+  let discount: any = null;
+  if ((discountId && discountId !== "null") || discountCode) {
+    discount = await findDiscount(
+      { discountId, code: discountCode },
+      transaction
+    );
+    if (!discount) {
+      throw createError({ statusCode: 404, message: "Discount not found" });
+    }
+
+    const error = getDiscountError(discount, lines);
+    if (error) {
+      throw createError({ statusCode: 400, message: error });
+    }
+
+    const used = await models.ecommerceUserDiscount.findOne({
+      where: { userId, discountId: discount.id, status: true },
+      transaction,
+    });
+    if (used) {
+      throw createError({
+        statusCode: 400,
+        message: "You have already used this discount code",
+      });
+    }
+  }
+
+  const taxRate = await getTaxRate(settings, country, transaction);
+  const totals = calculateOrderTotals(lines, {
+    discount,
+    shippingCost: getShippingCost(settings, lines),
+    taxRate,
+  });
+
+  return {
+    lines,
+    discount,
+    currency: lines[0].product.currency,
+    walletType: lines[0].product.walletType,
+    totals,
+  };
+}
+
+/**
+ * Reads the cart from an order request: either an `items` array or the
+ * single `productId` / `variantId` / `amount` of older clients.
+ */
+export function getCartItems(body: Record<string, any>): CartItemInput[] {
+  if (Array.isArray(body.items)) {
+    return body.items.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId || null,
+      quantity: Number(item.quantity),
+    }));
+  }
+  return [
+    {
+      productId: body.productId,
+      variantId: body.variantId || null,
+      quantity: Number(body.amount),
+    },
+  ];
+}
+
+export function serializeQuote(quote: OrderQuote) {
+  return {
+    currency: quote.currency,
+    walletType: quote.walletType,
+    items: quote.lines.map((line) => ({
+      productId: line.product.id,
+      variantId: line.variant?.id || null,
+      name: line.product.name,
+      sku: line.variant?.sku || null,
+      options: line.variant?.options || null,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      lineTotal: line.lineTotal,
+    })),
+    discount: quote.discount
+      ? {
+          id: quote.discount.id,
+          code: quote.discount.code,
+          type: quote.discount.type,
+        }
+      : null,
+    ...quote.totals,
+  };
+}
@@ -93,6 +93,8 @@ export default async (data: Handler) => {
     }
 
     const [currency, pair] = symbol.split("/");
+    const isPendingStop =
+      order.type === "STOP_LIMIT" || order.type === "STOP_MARKET";
 
     let refundAmount = 0;
 
@@ -126,7 +128,8 @@ export default async (data: Handler) => {
       symbol,
       BigInt(order.price),
       side,
-      totalAmount
+      totalAmount,
+      !isPendingStop
     );
 
     // Refund the leftover funds
@@ -12,6 +12,8 @@ import {
   rollbackOrderCreation,
 } from "@b/api/(ext)/ecosystem/utils/scylla/queries";
 import { fromBigInt, toBigIntFloat } from "@b/api/(ext)/ecosystem/utils/blockchain";
+import { MatchingEngine } from "@b/api/(ext)/ecosystem/utils/matchingEngine";
+import { TIME_IN_FORCE } from "@b/api/(ext)/ecosystem/utils/matchmaking";
 import { createRecordResponses } from "@b/utils/query";
 import { models } from "@b/db";
 
@@ -34,7 +36,7 @@ export const metadata: OperationObject = {
             pair: { type: "string", description: "Pair symbol (e.g., USDT)" },
             type: {
               type: "string",
-              description: "Order type, limit or market",
+              description: "Order type, limit, market or stop",
             },
             side: { type: "string", description: "Order side, buy or sell" },
             amount: { type: "number", description: "Amount of the order" },
@@ -42,6 +44,31 @@ export const metadata: OperationObject = {
               type: "number",
               description: "Price of the order (required if limit)",
             },
+            stopPrice: {
+              type: "number",
+              description: "Trigger price of the order (required if stop)",
+            },
+            limitPrice: {
+              type: "number",
+              description:
+                "Limit price once a stop order triggers, omit for stop-market",
+            },
+            timeInForce: {
+              type: "string",
+              enum: ["GTC", "IOC", "FOK"],
+              description:
+                "GTC rests on the book, IOC cancels whatever does not fill immediately, FOK fills completely or not at all",
+            },
+            postOnly: {
+              type: "boolean",
+              description: "Only add liquidity, limit GTC orders only",
+            },
+            postOnlyMode: {
+              type: "string",
+              enum: ["REJECT", "REPRICE"],
+              description:
+                "What to do when a post-only order would take liquidity: reject it (default) or move it one tick behind the best opposite price",
+            },
           },
           required: ["currency", "pair", "type", "side", "amount"],
         },
@@ -69,13 +96,30 @@ async function getBestPriceFromOrderBook(
   }
 }
 
+// Helper: Post-only price one tick behind the best opposite price.
+function repricePostOnly(
+  side: string,
+  bestPrice: number,
+  pricePrecision: number
+): number {
+  const tick = 10 ** -pricePrecision;
+  const price =
+    side.toUpperCase() === "BUY" ? bestPrice - tick : bestPrice + tick;
+  return parseFloat(price.toFixed(pricePrecision));
+}
+
 export default async (data: any) => {
   const { body, user } = data;
   if (!user?.id) {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
-  const { currency, pair, amount, price, type, side } = body;
+  const { currency, pair, amount, type, side, stopPrice, limitPrice } = body;
+  const timeInForce = (body.timeInForce || "GTC").toUpperCase();
+  const postOnly = body.postOnly === true;
+  const isStopOrder = type?.toLowerCase() === "stop";
+  // Stop orders reserve funds at the limit price, or the trigger price for stop-market
+  const price = isStopOrder ? (limitPrice ?? stopPrice) : body.price;
 
   // Basic validations
   if (!amount || Number(amount) <= 0) {
@@ -91,6 +135,20 @@ export default async (data: any) => {
     });
   }
 
+  if (!TIME_IN_FORCE.includes(timeInForce)) {
+    throw createError({
+      statusCode: 422,
+      message: "Time in force must be GTC, IOC or FOK.",
+    });
+  }
+
+  if (postOnly && (type.toLowerCase() !== "limit" || timeInForce !== "GTC")) {
+    throw createError({
+      statusCode: 422,
+      message: "Post-only is only available for GTC limit orders.",
+    });
+  }
+
   if (!currency || !pair) {
     throw createError({
       statusCode: 422,
@@ -167,6 +225,43 @@ export default async (data: any) => {
       });
     }
 
+    if (isStopOrder && (!stopPrice || stopPrice <= 0)) {
+      throw createError({
+        statusCode: 422,
+        message: "Stop price must be greater than zero for stop orders.",
+      });
+    }
+
+    if (isStopOrder && limitPrice != null && limitPrice <= 0) {
+      throw createError({
+        statusCode: 422,
+        message: "Limit price must be greater than zero for stop orders.",
+      });
+    }
+
+    if (isStopOrder) {
+      const matchingEngine = await MatchingEngine.getInstance();
+      const lastPrice = matchingEngine.getTicker(symbol).last;
+      if (!lastPrice) {
+        throw createError({
+          statusCode: 422,
+          message: "Cannot place stop order: no last trade price available.",
+        });
+      }
+      if (side.toUpperCase() === "BUY" && stopPrice <= lastPrice) {
+        throw createError({
+          statusCode: 422,
+          message: `Stop price must be above the last price of ${lastPrice} ${pair} for buy stop orders.`,
+        });
+      }
+      if (side.toUpperCase() === "SELL" && stopPrice >= lastPrice) {
+        throw createError({
+          statusCode: 422,
+          message: `Stop price must be below the last price of ${lastPrice} ${pair} for sell stop orders.`,
+        });
+      }
+    }
+
     let effectivePrice = price;
     // Market order: derive price from orderbook
     if (type.toLowerCase() === "market") {
@@ -180,6 +275,28 @@ export default async (data: any) => {
       effectivePrice = bestPrice;
     }
 
+    // Post-only: a price that crosses the book would take liquidity
+    if (postOnly) {
+      const bestPrice = await getBestPriceFromOrderBook(symbol, side);
+      const crosses =
+        bestPrice &&
+        (side.toUpperCase() === "BUY"
+          ? effectivePrice >= bestPrice
+          : effectivePrice <= bestPrice);
+      if (crosses && body.postOnlyMode === "REPRICE") {
+        effectivePrice = repricePostOnly(
+          side,
+          bestPrice,
+          Number(market.metadata.precision.price)
+        );
+      } else if (crosses) {
+        throw createError({
+          statusCode: 400,
+          message: `Post-only order would take liquidity at ${bestPrice} ${pair}.`,
+        });
+      }
+    }
+
     if (effectivePrice && effectivePrice < minPrice) {
       throw createError({
         statusCode: 422,
@@ -273,9 +390,12 @@ export default async (data: any) => {
     }
 
     // SELF-MATCH PREVENTION LOGIC
-    const userOpenOrders = await getOrders(user.id, symbol, true);
+    // Untriggered stop orders are not in the orderbook and cannot self-match yet
+    const userOpenOrders = (await getOrders(user.id, symbol, true)).filter(
+      (o) => o.type !== "STOP_LIMIT" && o.type !== "STOP_MARKET"
+    );
     // For a SELL order, check if there's any BUY order at >= effectivePrice
-    if (side.toUpperCase() === "SELL") {
+    if (!isStopOrder && side.toUpperCase() === "SELL") {
       const conflictingBuy = userOpenOrders.find(
         (o) => o.side === "BUY" && o.price >= effectivePrice
       );
@@ -288,7 +408,7 @@ export default async (data: any) => {
     }
 
     // For a BUY order, check if there's any SELL order at <= effectivePrice
-    if (side.toUpperCase() === "BUY") {
+    if (!isStopOrder && side.toUpperCase() === "BUY") {
       const conflictingSell = userOpenOrders.find(
         (o) => o.side === "SELL" && o.price <= effectivePrice
       );
@@ -308,16 +428,26 @@ export default async (data: any) => {
       amount: toBigIntFloat(amount),
       price: toBigIntFloat(effectivePrice),
       cost: toBigIntFloat(cost),
-      type,
+      type: isStopOrder
+        ? limitPrice != null
+          ? "STOP_LIMIT"
+          : "STOP_MARKET"
+        : type,
       side,
       fee: toBigIntFloat(fee),
       feeCurrency: pair,
+      triggerPrice: isStopOrder ? toBigIntFloat(stopPrice) : undefined,
+      timeInForce,
+      postOnly,
     });
 
     const order = {
       ...newOrder,
       amount: fromBigInt(newOrder.amount),
       price: fromBigInt(newOrder.price),
+      triggerPrice: newOrder.triggerPrice
+        ? fromBigInt(newOrder.triggerPrice)
+        : undefined,
       cost: fromBigInt(newOrder.cost),
       fee: fromBigInt(newOrder.fee),
       remaining: fromBigInt(newOrder.remaining),
@@ -1,4 +1,8 @@
-import { baseStringSchema, baseNumberSchema } from "@b/utils/schema";
+import {
+  baseStringSchema,
+  baseNumberSchema,
+  baseBooleanSchema,
+} from "@b/utils/schema";
 
 export const baseOrderSchema = {
   id: baseStringSchema("Order ID"),
@@ -7,11 +11,16 @@ export const baseOrderSchema = {
   side: baseStringSchema("Order side (buy/sell)"),
   amount: baseStringSchema("Order amount, converted from bigint"),
   price: baseStringSchema("Order price, converted from bigint"),
+  triggerPrice: baseStringSchema(
+    "Stop order trigger price, converted from bigint"
+  ),
   cost: baseStringSchema("Total cost, converted from bigint"),
   fee: baseStringSchema("Order fee, converted from bigint"),
   filled: baseStringSchema("Filled amount, converted from bigint"),
   remaining: baseStringSchema("Remaining amount, converted from bigint"),
   status: baseStringSchema("Order status"),
+  timeInForce: baseStringSchema("Time in force (GTC, IOC or FOK)"),
+  postOnly: baseBooleanSchema("Whether the order may only add liquidity"),
 };
 
 export const baseTickerSchema = {
@@ -1,5 +1,47 @@
-// Minimal cron utility placeholder
+import { broadcastLog, broadcastStatus } from "@b/utils/crons/broadcast";
+import { logError } from "@b/utils/logger";
+import WithdrawalQueue from "./withdrawalQueue";
+
+/**
+ * Recovers the ecosystem withdrawal queue after restarts and processes any
+ * withdrawals that are due.
+ */
 export async function processPendingEcoWithdrawals() {
-  console.log("Processing pending eco withdrawals...");
-  // Implementation would go here if ecosystem extensions are available
-} 
\ No newline at end of file
+  const cronName = "processPendingEcoWithdrawals";
+  const startTime = Date.now();
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Recovering ecosystem withdrawal queue");
+
+    const queue = WithdrawalQueue.getInstance();
+    await queue.recover();
+
+    const { chains } = await queue.getOverview();
+    const summary = Object.entries(chains)
+      .map(
+        ([chain, counts]) =>
+          `${chain}: ${counts.QUEUED} queued, ${counts.PROCESSING} processing, ${counts.RETRYING} retrying, ${counts.DEAD} dead`
+      )
+      .join("; ");
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(
+      cronName,
+      summary
+        ? `Ecosystem withdrawal queue recovered. ${summary}`
+        : "Ecosystem withdrawal queue is empty",
+      "success"
+    );
+  } catch (error: any) {
+    logError("processPendingEcoWithdrawals", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(
+      cronName,
+      `Ecosystem withdrawal queue recovery failed: ${error.message}`,
+      "error"
+    );
+    throw error;
+  }
+}
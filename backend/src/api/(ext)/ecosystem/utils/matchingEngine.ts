@@ -9,6 +9,7 @@ import {
 } from "./orderbook";
 import client from "./scylla/client";
 import {
+  activateStopOrder,
   fetchOrderBooks,
   generateOrderUpdateQueries,
   getAllOpenOrders,
@@ -37,9 +38,15 @@ function uuidToString(uuid: Uuid): string {
   return uuidStringify(uuid.buffer);
 }
 
+function isStopOrder(order: Order): boolean {
+  return order.type === "STOP_MARKET" || order.type === "STOP_LIMIT";
+}
+
 export class MatchingEngine {
   private static instancePromise: Promise<MatchingEngine> | null = null;
   private orderQueue: Record<string, Order[]> = {};
+  // Stop orders wait here, outside the orderbook, until their trigger price trades
+  private stopOrders: Record<string, Order[]> = {};
   private marketsBySymbol: Record<string, any> = {};
   private lockedOrders: Set<string> = new Set();
   private lastCandle: Record<string, Record<string, Candle>> = {};
@@ -61,6 +68,7 @@ export class MatchingEngine {
     await this.initializeOrders();
     await this.initializeLastCandles();
     await this.initializeYesterdayCandles();
+    await this.processStopOrders();
   }
 
   private async initializeMarkets() {
@@ -100,6 +108,8 @@ export class MatchingEngine {
           ...order,
           amount: BigInt(order.amount ?? 0),
           price: BigInt(order.price ?? 0),
+          triggerPrice:
+            order.triggerPrice != null ? BigInt(order.triggerPrice) : undefined,
           cost: BigInt(order.cost ?? 0),
           fee: BigInt(order.fee ?? 0),
           remaining: BigInt(order.remaining ?? 0),
@@ -110,6 +120,11 @@ export class MatchingEngine {
           id: uuidToString(order.id),
         };
 
+        if (isStopOrder(normalizedOrder)) {
+          this.addStopOrder(normalizedOrder);
+          return;
+        }
+
         if (!this.orderQueue[normalizedOrder.symbol]) {
           this.orderQueue[normalizedOrder.symbol] = [];
         }
@@ -159,6 +174,7 @@ export class MatchingEngine {
 
   private async processQueue() {
     const ordersToUpdate: Order[] = [];
+    const tradedOrders: Order[] = [];
     const orderBookUpdates: Record<string, any> = {};
 
     const allOrderBookEntries = await fetchOrderBooks();
@@ -183,16 +199,21 @@ export class MatchingEngine {
       if (orders.length === 0) continue;
 
       const promise = (async () => {
-        const { matchedOrders, bookUpdates } = await matchAndCalculateOrders(
-          orders,
-          mappedOrderBook[symbol] || { bids: {}, asks: {} }
-        );
+        const { matchedOrders, bookUpdates, cancelledOrders } =
+          await matchAndCalculateOrders(
+            orders,
+            mappedOrderBook[symbol] || { bids: {}, asks: {} }
+          );
 
-        if (matchedOrders.length === 0) {
+        if (matchedOrders.length === 0 && cancelledOrders.length === 0) {
           return;
         }
 
-        ordersToUpdate.push(...matchedOrders);
+        tradedOrders.push(...matchedOrders);
+        ordersToUpdate.push(
+          ...matchedOrders,
+          ...cancelledOrders.filter((order) => !matchedOrders.includes(order))
+        );
         orderBookUpdates[symbol] = bookUpdates;
       })();
 
@@ -205,7 +226,7 @@ export class MatchingEngine {
       return;
     }
 
-    await this.performUpdates(ordersToUpdate, orderBookUpdates);
+    await this.performUpdates(ordersToUpdate, orderBookUpdates, tradedOrders);
 
     const finalOrderBooks: Record<string, any> = {};
     for (const symbol in orderBookUpdates) {
@@ -229,11 +250,14 @@ export class MatchingEngine {
     await Promise.all(cleanupPromises);
 
     this.broadcastUpdates(ordersToUpdate, finalOrderBooks);
+
+    await this.processStopOrders(Object.keys(orderBookUpdates));
   }
 
   private async performUpdates(
     ordersToUpdate: Order[],
-    orderBookUpdates: Record<string, any>
+    orderBookUpdates: Record<string, any>,
+    tradedOrders: Order[] = ordersToUpdate
   ) {
     const locked = this.lockOrders(ordersToUpdate);
     if (!locked) {
@@ -247,7 +271,8 @@ export class MatchingEngine {
 
     updateQueries.push(...generateOrderUpdateQueries(ordersToUpdate));
 
-    const latestOrdersForCandles = getLatestOrdersForCandles(ordersToUpdate);
+    // Orders cancelled without trading must not move the candles
+    const latestOrdersForCandles = getLatestOrdersForCandles(tradedOrders);
 
     latestOrdersForCandles.forEach((order) => {
       updateQueries.push(...this.updateLastCandles(order));
@@ -288,6 +313,11 @@ export class MatchingEngine {
       return;
     }
 
+    if (isStopOrder(order)) {
+      this.addStopOrder(order);
+      return;
+    }
+
     if (!this.orderQueue[order.symbol]) {
       this.orderQueue[order.symbol] = [];
     }
@@ -299,6 +329,50 @@ export class MatchingEngine {
     await this.processQueue();
   }
 
+  private addStopOrder(order: Order) {
+    if (!this.stopOrders[order.symbol]) {
+      this.stopOrders[order.symbol] = [];
+    }
+    this.stopOrders[order.symbol].push(order);
+  }
+
+  // Moves stop orders whose trigger price was reached by the last trade into
+  // the matching queue as the limit or market order they stand for
+  private async processStopOrders(
+    symbols: string[] = Object.keys(this.stopOrders)
+  ) {
+    for (const symbol of symbols) {
+      const orders = this.stopOrders[symbol];
+      if (!orders || orders.length === 0) continue;
+
+      const lastPrice = this.getTicker(symbol).last;
+      if (!lastPrice) continue;
+
+      const triggered = orders.filter((order) => {
+        const triggerPrice = fromBigInt(order.triggerPrice ?? null);
+        return order.side === "BUY"
+          ? lastPrice >= triggerPrice
+          : lastPrice <= triggerPrice;
+      });
+      if (triggered.length === 0) continue;
+
+      this.stopOrders[symbol] = orders.filter(
+        (order) => !triggered.includes(order)
+      );
+
+      for (const order of triggered) {
+        const type = order.type === "STOP_LIMIT" ? "LIMIT" : "MARKET";
+        try {
+          await activateStopOrder(order, type);
+          await this.addToQueue({ ...order, type, updatedAt: new Date() });
+        } catch (error) {
+          logError("matching_engine", error, __filename);
+          console.error(`Failed to trigger stop order ${order.id}: ${error}`);
+        }
+      }
+    }
+  }
+
   private updateLastCandles(
     order: Order
   ): Array<{ query: string; params: any[] }> {
@@ -521,6 +595,11 @@ export class MatchingEngine {
     this.orderQueue[symbol] = this.orderQueue[symbol].filter(
       (order) => order.id !== orderId
     );
+    if (this.stopOrders[symbol]) {
+      this.stopOrders[symbol] = this.stopOrders[symbol].filter(
+        (order) => order.id !== orderId
+      );
+    }
 
     const updatedOrderBook = await fetchExistingAmounts(symbol);
     handleOrderBookBroadcast(symbol, updatedOrderBook);
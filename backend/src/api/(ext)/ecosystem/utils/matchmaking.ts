@@ -9,17 +9,47 @@ import type { Order, OrderBook } from "./scylla/queries";
 import { updateWalletBalance } from "./wallet";
 import { handleTradesBroadcast } from "./ws";
 import { logError } from "@b/utils/logger";
+import { PriceAlertMonitor } from "@b/api/user/price-alert/utils";
 
 const SCALING_FACTOR = BigInt(10 ** 18);
 
+export const TIME_IN_FORCE = ["GTC", "IOC", "FOK"];
+
+// IOC and FOK orders never rest on the book
+const isImmediateOrder = (order: Order) =>
+  order.timeInForce === "IOC" || order.timeInForce === "FOK";
+
 export const matchAndCalculateOrders = async (
   orders: Order[],
   currentOrderBook: OrderBook
 ) => {
   const matchedOrders: Order[] = [];
+  const cancelledOrders: Order[] = [];
   const bookUpdates: OrderBook = { bids: {}, asks: {} };
   const processedOrders: Set<string> = new Set();
 
+  const cancel = async (order: Order) => {
+    processedOrders.add(order.id);
+    cancelledOrders.push(order);
+    try {
+      await cancelUnfilledOrder(order, currentOrderBook, bookUpdates);
+    } catch (error) {
+      logError("match_calculate_orders", error, __filename);
+    }
+  };
+
+  // A fill-or-kill order the other side cannot fill completely is cancelled
+  // before anything is matched
+  for (const order of orders) {
+    if (
+      order.timeInForce === "FOK" &&
+      order.status === "OPEN" &&
+      getFillableAmount(order, orders) < order.remaining
+    ) {
+      await cancel(order);
+    }
+  }
+
   const buyOrders = filterAndSortOrders(orders, "BUY", true);
   const sellOrders = filterAndSortOrders(orders, "SELL", false);
 
@@ -47,6 +77,15 @@ export const matchAndCalculateOrders = async (
     }
 
     if (matchFound) {
+      // A post-only order may only add liquidity, so when it would take it
+      // it is cancelled instead of matched
+      const taker =
+        buyOrder.createdAt > sellOrder.createdAt ? buyOrder : sellOrder;
+      if (taker.postOnly) {
+        await cancel(taker);
+        continue;
+      }
+
       processedOrders.add(buyOrder.id);
       processedOrders.add(sellOrder.id);
 
@@ -93,9 +132,67 @@ export const matchAndCalculateOrders = async (
     }
   }
 
-  return { matchedOrders, bookUpdates };
+  // What an IOC or FOK order could not fill right away is cancelled
+  for (const order of orders) {
+    if (
+      isImmediateOrder(order) &&
+      order.status === "OPEN" &&
+      !cancelledOrders.includes(order)
+    ) {
+      await cancel(order);
+    }
+  }
+
+  return { matchedOrders, bookUpdates, cancelledOrders };
 };
 
+/**
+ * Amount the opposite side of the queue could fill for an order right now.
+ */
+function getFillableAmount(order: Order, orders: Order[]): bigint {
+  return orders
+    .filter(
+      (other) =>
+        other.side !== order.side &&
+        other.status === "OPEN" &&
+        (order.type === "MARKET" ||
+          other.type === "MARKET" ||
+          (order.side === "BUY"
+            ? other.price <= order.price
+            : other.price >= order.price))
+    )
+    .reduce((total, other) => total + other.remaining, BigInt(0));
+}
+
+/**
+ * Cancels what is left of an order during matching: takes it off the
+ * orderbook and refunds the funds locked for the unfilled amount, the share
+ * of the cost for a buy and the base amount for a sell.
+ */
+export async function cancelUnfilledOrder(
+  order: Order,
+  currentOrderBook: OrderBook,
+  bookUpdates: OrderBook
+) {
+  const remaining = order.remaining;
+  order.remaining = BigInt(0);
+  order.status = "CANCELED";
+  if (remaining <= BigInt(0)) return;
+
+  updateOrderBook(bookUpdates, order, currentOrderBook, remaining);
+
+  const [baseCurrency, quoteCurrency] = order.symbol.split("/");
+  const refund =
+    order.side === "BUY"
+      ? fromBigInt(order.cost) * (Number(remaining) / Number(order.amount))
+      : fromBigInt(remaining);
+  const wallet = await getUserEcosystemWalletByCurrency(
+    order.userId,
+    order.side === "BUY" ? quoteCurrency : baseCurrency
+  );
+  await updateWalletBalance(wallet, refund, "add");
+}
+
 export async function processMatchedOrders(
   buyOrder: Order,
   sellOrder: Order,
@@ -195,6 +292,11 @@ export async function processMatchedOrders(
 
   // Broadcast the trades
   handleTradesBroadcast(buyOrder.symbol, [buyTradeDetail, sellTradeDetail]);
+  PriceAlertMonitor.getInstance().evaluate(
+    "ECO",
+    buyOrder.symbol,
+    buyTradeDetail.price
+  );
 
   // Update the orderbook entries
   updateOrderBook(bookUpdates, buyOrder, currentOrderBook, amountToFill);
@@ -303,6 +405,19 @@ export function validateOrder(order: Order): boolean {
     console.error("Order validation failed: ", order);
     return false;
   }
+  // Post-only orders have to be able to rest on the book
+  if (
+    (order.timeInForce && !TIME_IN_FORCE.includes(order.timeInForce)) ||
+    (order.postOnly && (order.type !== "LIMIT" || isImmediateOrder(order)))
+  ) {
+    logError(
+      "validate_order",
+      new Error("Invalid time in force or post-only flag"),
+      __filename
+    );
+    console.error("Order validation failed: ", order);
+    return false;
+  }
   return true;
 }
 
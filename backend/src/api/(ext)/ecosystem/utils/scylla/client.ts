@@ -94,11 +94,24 @@ export function initialize(): Promise<void> {
       tradingTableQueries,
       tradingViewQueries
     );
+    await addMissingColumns(scyllaKeyspace, "orders", {
+      triggerPrice: "VARINT",
+      postOnly: "BOOLEAN",
+    });
     await initializeDatabase(
       scyllaFuturesKeyspace,
       futuresTableQueries,
       futuresViewQueries
     );
+    await addMissingColumns(scyllaFuturesKeyspace, "orders", {
+      marginMode: "TEXT",
+      postOnly: "BOOLEAN",
+      reduceOnly: "BOOLEAN",
+    });
+    await addMissingColumns(scyllaFuturesKeyspace, "position", {
+      marginMode: "TEXT",
+      margin: "VARINT",
+    });
     client.keyspace = scyllaKeyspace;
   })();
 
@@ -143,6 +156,32 @@ async function initializeDatabase(
   }
 }
 
+// Tables created before a column was introduced are altered in place
+async function addMissingColumns(
+  keyspace: string,
+  table: string,
+  columns: Record<string, string>
+) {
+  try {
+    const result = await client.execute(
+      `SELECT column_name FROM system_schema.columns WHERE keyspace_name = ? AND table_name = ?`,
+      [keyspace, table],
+      { prepare: true }
+    );
+    const existing = new Set(result.rows.map((row) => row.column_name));
+
+    for (const [column, type] of Object.entries(columns)) {
+      if (!existing.has(column)) {
+        await client.execute(
+          `ALTER TABLE ${keyspace}.${table} ADD "${column}" ${type}`
+        );
+      }
+    }
+  } catch (error) {
+    logError("scylla", error, __filename);
+  }
+}
+
 const tradingTableQueries = [
   `CREATE TABLE IF NOT EXISTS ${scyllaKeyspace}.orders (
     id UUID,
@@ -150,8 +189,10 @@ const tradingTableQueries = [
     symbol TEXT,
     type TEXT,
     "timeInForce" TEXT,
+    "postOnly" BOOLEAN,
     side TEXT,
     price VARINT,
+    "triggerPrice" VARINT,
     average VARINT,
     amount VARINT,
     filled VARINT,
@@ -220,6 +261,8 @@ const futuresTableQueries = [
     symbol TEXT,
     type TEXT,
     "timeInForce" TEXT,
+    "postOnly" BOOLEAN,
+    "reduceOnly" BOOLEAN,
     side TEXT,
     price VARINT,
     average VARINT,
@@ -228,6 +271,7 @@ const futuresTableQueries = [
     remaining VARINT,
     cost VARINT,
     leverage VARINT,
+    "marginMode" TEXT,
     fee VARINT,
     "feeCurrency" TEXT,
     status TEXT,
@@ -247,6 +291,8 @@ const futuresTableQueries = [
     "entryPrice" VARINT,
     amount VARINT,
     leverage VARINT,
+    "marginMode" TEXT,
+    margin VARINT,
     "unrealizedPnl" VARINT,
     "stopLossPrice" VARINT,
     "takeProfitPrice" VARINT,
@@ -17,8 +17,10 @@ export interface Order {
   symbol: string;
   type: string;
   timeInForce?: string;
+  postOnly?: boolean;
   side: string;
   price: bigint;
+  triggerPrice?: bigint;
   average?: bigint;
   amount: bigint;
   filled: bigint;
@@ -113,10 +115,12 @@ function mapRowToOrder(row: any): Order {
     type: row.type,
     side: row.side,
     price: row.price,
+    triggerPrice: row.triggerPrice,
     amount: row.amount,
     filled: row.filled,
     remaining: row.remaining,
     timeInForce: row.timeInForce,
+    postOnly: row.postOnly ?? false,
     cost: row.cost,
     fee: row.fee,
     feeCurrency: row.feeCurrency,
@@ -151,15 +155,15 @@ export async function cancelOrderByUuid(
   symbol: string,
   price: bigint,
   side: string,
-  amount: bigint
+  amount: bigint,
+  // Untriggered stop orders never entered the orderbook
+  updateOrderbook: boolean = true
 ): Promise<any> {
   const priceFormatted = fromBigInt(price);
   const orderbookSide = side === "BUY" ? "BIDS" : "ASKS";
-  const orderbookAmount = await getOrderbookEntry(
-    symbol,
-    priceFormatted,
-    orderbookSide
-  );
+  const orderbookAmount = updateOrderbook
+    ? await getOrderbookEntry(symbol, priceFormatted, orderbookSide)
+    : null;
 
   let orderbookQuery: string = "";
   let orderbookParams: any[] = [];
@@ -180,7 +184,7 @@ export async function cancelOrderByUuid(
         orderbookSide,
       ];
     }
-  } else {
+  } else if (updateOrderbook) {
     console.warn(
       `No orderbook entry found for symbol: ${symbol}, price: ${priceFormatted}, side: ${orderbookSide}`
     );
@@ -257,6 +261,9 @@ export async function createOrder({
   side,
   fee,
   feeCurrency,
+  triggerPrice,
+  timeInForce = "GTC",
+  postOnly = false,
 }: {
   userId: string;
   symbol: string;
@@ -267,13 +274,18 @@ export async function createOrder({
   side: string;
   fee: bigint;
   feeCurrency: string;
+  triggerPrice?: bigint;
+  timeInForce?: string;
+  postOnly?: boolean;
 }): Promise<Order> {
   const currentTimestamp = new Date();
   const query = `
-    INSERT INTO ${scyllaKeyspace}.orders (id, "userId", symbol, type, "timeInForce", side, price, amount, filled, remaining, cost, fee, "feeCurrency", status, "createdAt", "updatedAt")
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+    INSERT INTO ${scyllaKeyspace}.orders (id, "userId", symbol, type, "timeInForce", "postOnly", side, price, "triggerPrice", amount, filled, remaining, cost, fee, "feeCurrency", status, "createdAt", "updatedAt")
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
   `;
   const priceTolerance = removeTolerance(price);
+  const triggerPriceTolerance =
+    triggerPrice !== undefined ? removeTolerance(triggerPrice) : undefined;
   const amountTolerance = removeTolerance(amount);
   const costTolerance = removeTolerance(cost);
   const feeTolerance = removeTolerance(fee);
@@ -283,9 +295,11 @@ export async function createOrder({
     userId,
     symbol,
     type,
-    "GTC",
+    timeInForce,
+    postOnly,
     side,
     priceTolerance.toString(),
+    triggerPriceTolerance?.toString() ?? null,
     amountTolerance.toString(),
     "0",
     amountTolerance.toString(),
@@ -307,9 +321,11 @@ export async function createOrder({
       userId,
       symbol,
       type,
-      timeInForce: "GTC",
+      timeInForce,
+      postOnly,
       side,
       price: priceTolerance,
+      triggerPrice: triggerPriceTolerance,
       amount: amountTolerance,
       filled: BigInt(0),
       remaining: amountTolerance,
@@ -332,6 +348,31 @@ export async function createOrder({
   }
 }
 
+/**
+ * Turns a triggered stop order into the resting order it stands for.
+ * @param order - The stop order whose trigger price was reached.
+ * @param type - The order type to rest with, LIMIT or MARKET.
+ * @returns A Promise that resolves when the order has been updated.
+ */
+export async function activateStopOrder(
+  order: Order,
+  type: string
+): Promise<void> {
+  const query = `
+    UPDATE ${scyllaKeyspace}.orders
+    SET type = ?, "updatedAt" = ?
+    WHERE "userId" = ? AND "createdAt" = ? AND id = ?;
+  `;
+  const params = [type, new Date(), order.userId, order.createdAt, order.id];
+
+  try {
+    await client.execute(query, params, { prepare: true });
+  } catch (error) {
+    console.error(`Failed to activate stop order: ${error.message}`);
+    throw new Error(`Failed to activate stop order: ${error.message}`);
+  }
+}
+
 export async function getHistoricalCandles(
   symbol: string,
   interval: string,
@@ -746,6 +787,9 @@ export async function getOrders(
         ...order,
         amount: fromBigInt(order.amount),
         price: fromBigInt(order.price),
+        triggerPrice: order.triggerPrice
+          ? fromBigInt(order.triggerPrice)
+          : undefined,
         cost: fromBigInt(order.cost),
         fee: fromBigInt(order.fee),
         filled: fromBigInt(order.filled),
@@ -15,7 +15,7 @@ import { estimateGas, getAdjustedGasPrice } from "./gas";
 import { getTokenContractAddress } from "./tokens";
 import { getSmartContract } from "./smartContract";
 import { getChainId, getTimestampInSeconds } from "./chains";
-import { Op } from "sequelize";
+import { Op, Transaction } from "sequelize";
 import {
   getActiveCustodialWallets,
   getCustodialWalletContract,
@@ -1538,7 +1538,12 @@ const updateBalancePrecision = (balance, chain) => {
   return balance;
 };
 
-export const decrementWalletBalance = async (userWallet, chain, amount) => {
+export const decrementWalletBalance = async (
+  userWallet,
+  chain,
+  amount,
+  transaction?: Transaction
+) => {
   try {
     let newBalance = userWallet.balance - amount;
     newBalance = updateBalancePrecision(newBalance, chain);
@@ -1562,6 +1567,7 @@ export const decrementWalletBalance = async (userWallet, chain, amount) => {
       },
       {
         where: { id: userWallet.id },
+        transaction,
       }
     );
   } catch (error) {
@@ -1578,25 +1584,31 @@ export async function createPendingTransaction(
   amount,
   toAddress,
   withdrawalFee,
-  token
+  token,
+  risk?,
+  transaction?: Transaction
 ) {
   try {
-    return await models.transaction.create({
-      userId: userId,
-      walletId: walletId,
-      type: "WITHDRAW",
-      status: "PENDING",
-      amount: amount,
-      fee: withdrawalFee,
-      description: `Pending withdrawal of ${amount} ${currency} to ${toAddress}`,
-      metadata: JSON.stringify({
-        toAddress: toAddress,
-        chain: chain,
-        contractType: token.contractType,
-        contract: token.contract,
-        decimals: token.decimals,
-      }),
-    });
+    return await models.transaction.create(
+      {
+        userId: userId,
+        walletId: walletId,
+        type: "WITHDRAW",
+        status: "PENDING",
+        amount: amount,
+        fee: withdrawalFee,
+        description: `Pending withdrawal of ${amount} ${currency} to ${toAddress}`,
+        metadata: JSON.stringify({
+          toAddress: toAddress,
+          chain: chain,
+          contractType: token.contractType,
+          contract: token.contract,
+          decimals: token.decimals,
+          ...(risk && { risk }),
+        }),
+      },
+      { transaction }
+    );
   } catch (error) {
     logError("transaction", error, __filename);
     throw error;
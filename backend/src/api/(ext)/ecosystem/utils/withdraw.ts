@@ -143,6 +143,10 @@ export const handleEvmWithdrawal = async (
   }
 
   if (transaction && transaction.hash) {
+    // Record the broadcast before waiting for the receipt, so a failure from
+    // here on is never mistaken for a withdrawal that was not sent
+    await recordWithdrawalBroadcast(id, transaction.hash, transaction.nonce);
+
     // Checking the transaction status
     let attempts = 0;
     const maxAttempts = 10;
@@ -208,6 +212,32 @@ export const handleEvmWithdrawal = async (
   throw new Error("Transaction failed");
 };
 
+/**
+ * Stores the hash and nonce of a sent withdrawal on its transaction record.
+ */
+async function recordWithdrawalBroadcast(
+  id: string,
+  hash: string,
+  nonce?: number
+) {
+  const record = await models.transaction.findByPk(id, {
+    attributes: ["metadata"],
+  });
+  let metadata = record?.metadata || {};
+  if (typeof metadata === "string") {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      metadata = {};
+    }
+  }
+
+  await models.transaction.update(
+    { trxId: hash, metadata: JSON.stringify({ ...metadata, nonce }) },
+    { where: { id } }
+  );
+}
+
 export async function updatePrivateLedger(
   walletId: string,
   index: number,
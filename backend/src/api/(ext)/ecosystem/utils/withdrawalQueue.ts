@@ -2,15 +2,93 @@ import { models } from "@b/db";
 import { handleUTXOWithdrawal } from "@b/api/(ext)/ecosystem/utils/utxo";
 import { createNotification } from "@b/utils/notifications";
 import { getSolanaService, getTronService, getMoneroService, getTonService } from "@b/utils/safe-imports";
-import { refundUser } from "@b/api/(ext)/ecosystem/utils/wallet";
+import {
+  getEcosystemPendingTransactions,
+  refundUser,
+} from "@b/api/(ext)/ecosystem/utils/wallet";
 import { emailQueue } from "@b/utils/emails";
+import { RedisSingleton } from "@b/utils/redis";
+import { getWithdrawalHold } from "@b/api/finance/withdraw/utils";
+import { logError } from "@b/utils/logger";
+import { Op } from "sequelize";
+import os from "os";
 import { handleEvmWithdrawal } from "./withdraw";
 
+const QUEUE_KEY = "ecoWithdrawal:queue";
+const DEAD_LETTER_KEY = "ecoWithdrawal:dead";
+const JOB_KEY = "ecoWithdrawal:job:";
+const LOCK_KEY = "ecoWithdrawal:lock:";
+const CHAIN_LOCK_KEY = "ecoWithdrawal:chain:";
+
+// Leases are renewed while a withdrawal is in flight, so they only lapse when
+// the process holding them dies
+const LEASE_TTL = 90 * 1000;
+const LEASE_RENEW_INTERVAL = 30 * 1000;
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF = 30 * 1000;
+const MAX_BACKOFF = 30 * 60 * 1000;
+
+// Errors where the node never received the request, so nothing was sent
+const REJECTED_ERRORS = [
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "rate limit",
+  "Too Many Requests",
+];
+
+// Errors where the request may have reached the node and been broadcast
+const UNCERTAIN_ERRORS = [
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+  "TIMEOUT",
+  "socket hang up",
+  "timed out",
+  "timeout",
+];
+
+// Errors the chain handlers raise before anything is sent, compared without
+// regard to case; only these fail and refund a withdrawal once its handler ran
+const PRE_SEND_ERRORS = [
+  "insufficient funds",
+  "insufficient spl token balance",
+  "invalid address",
+  "invalid target wallet address",
+  "invalid solana address",
+  "invalid tron address",
+  "invalid ton address",
+  "invalid monero address",
+  "master wallet not found",
+  "private key not found",
+];
+
+export type WithdrawalJobStatus = "QUEUED" | "PROCESSING" | "RETRYING" | "DEAD";
+
+// CLAIMED: the transaction was reserved but nothing was sent to the chain yet.
+// BROADCASTING: the chain handler was called and may have sent funds.
+export type WithdrawalJobStage = "CLAIMED" | "BROADCASTING";
+
+export interface WithdrawalJob {
+  transactionId: string;
+  chain: string;
+  status: WithdrawalJobStatus;
+  stage?: WithdrawalJobStage;
+  attempts: number;
+  lastError?: string;
+  worker?: string;
+  enqueuedAt: number;
+  updatedAt: number;
+  nextAttemptAt?: number;
+}
+
 class WithdrawalQueue {
   private static instance: WithdrawalQueue;
-  private queue: string[] = [];
+  private redis = RedisSingleton.getInstance();
+  private workerId = `${os.hostname()}:${process.pid}`;
   private isProcessing: boolean = false;
-  private processingTransactions: Set<string> = new Set();
+  private wakeUpTimer: NodeJS.Timeout | null = null;
 
   private constructor() {}
 
@@ -21,92 +99,333 @@ class WithdrawalQueue {
     return WithdrawalQueue.instance;
   }
 
-  public addTransaction(transactionId: string) {
-    console.log(`[WITHDRAWAL_QUEUE] Adding transaction to queue: ${transactionId}`);
-    if (this.processingTransactions.has(transactionId)) {
-      // Transaction is already being processed
-      console.log(`[WITHDRAWAL_QUEUE] Transaction ${transactionId} already processing`);
+  /**
+   * Persists a withdrawal in the queue. The transaction ID is the idempotency
+   * key, so adding the same transaction twice leaves a single job.
+   */
+  public async addTransaction(transactionId: string) {
+    console.log(
+      `[WITHDRAWAL_QUEUE] Adding transaction to queue: ${transactionId}`
+    );
+    const transaction = await models.transaction.findByPk(transactionId, {
+      attributes: ["id", "metadata"],
+    });
+    const metadata = this.parseMetadata(transaction?.metadata);
+
+    const now = Date.now();
+    const created = await this.redis.hsetnx(
+      `${JOB_KEY}${transactionId}`,
+      "transactionId",
+      transactionId
+    );
+    if (!created) {
+      console.log(
+        `[WITHDRAWAL_QUEUE] Transaction ${transactionId} already queued`
+      );
       return;
     }
-    if (!this.queue.includes(transactionId)) {
-      this.queue.push(transactionId);
-      console.log(`[WITHDRAWAL_QUEUE] Queue size: ${this.queue.length}`);
-      this.processNext();
+
+    await this.redis
+      .multi()
+      .hset(`${JOB_KEY}${transactionId}`, {
+        chain: metadata?.chain || "UNKNOWN",
+        status: "QUEUED",
+        attempts: 0,
+        enqueuedAt: now,
+        updatedAt: now,
+      })
+      .zadd(QUEUE_KEY, "NX", now, transactionId)
+      .exec();
+
+    this.processNext();
+  }
+
+  /**
+   * Rebuilds the queue after a restart: pending withdrawals without a job are
+   * queued again, and withdrawals left in PROCESSING by a process that is no
+   * longer alive are requeued when nothing was sent to the chain, or moved to
+   * the dead-letter set for manual review otherwise.
+   */
+  public async recover() {
+    const pending = await getEcosystemPendingTransactions();
+    for (const transaction of pending) {
+      // Held withdrawals are queued when they are approved
+      if (getWithdrawalHold(transaction.metadata)) continue;
+      const queued = await this.redis.zscore(QUEUE_KEY, transaction.id);
+      if (queued === null && !(await this.isLocked(transaction.id))) {
+        await this.redis.del(`${JOB_KEY}${transaction.id}`);
+        await this.addTransaction(transaction.id);
+      }
+    }
+
+    const processing = await models.transaction.findAll({
+      where: { type: "WITHDRAW", status: "PROCESSING" },
+      include: [{ model: models.wallet, as: "wallet", where: { type: "ECO" } }],
+    });
+    for (const transaction of processing) {
+      if (await this.isLocked(transaction.id)) continue;
+
+      const job = await this.getJob(transaction.id);
+      if (job?.status === "DEAD") continue;
+
+      if (job?.stage === "CLAIMED" && !transaction.trxId) {
+        const [reset] = await models.transaction.update(
+          { status: "PENDING" },
+          { where: { id: transaction.id, status: "PROCESSING" } }
+        );
+        if (reset) {
+          await this.schedule(transaction.id, Date.now(), "QUEUED");
+        }
+        continue;
+      }
+
+      await this.moveToDeadLetter(
+        transaction.id,
+        "Processing was interrupted and the withdrawal may have been broadcast; manual review required",
+        this.parseMetadata(transaction.metadata)?.chain
+      );
+    }
+
+    this.processNext();
+  }
+
+  /**
+   * Snapshot of the queue grouped per chain: what is queued, in flight,
+   * waiting for a retry or dead-lettered.
+   */
+  public async getOverview() {
+    const ids = [
+      ...(await this.redis.zrange(QUEUE_KEY, 0, -1)),
+      ...(await this.redis.smembers(DEAD_LETTER_KEY)),
+    ];
+    const jobs = (
+      await Promise.all([...new Set(ids)].map((id) => this.getJob(id)))
+    ).filter((job): job is WithdrawalJob => !!job);
+
+    const chains: Record<string, Record<WithdrawalJobStatus, number>> = {};
+    for (const job of jobs) {
+      chains[job.chain] = chains[job.chain] || {
+        QUEUED: 0,
+        PROCESSING: 0,
+        RETRYING: 0,
+        DEAD: 0,
+      };
+      chains[job.chain][job.status]++;
     }
+
+    return { chains, jobs };
   }
 
-  private async processNext() {
-    if (this.isProcessing || this.queue.length === 0) {
-      if (this.isProcessing) {
-        console.log(`[WITHDRAWAL_QUEUE] Already processing, skipping`);
+  /**
+   * Requeues a dead-lettered withdrawal once an admin has confirmed nothing
+   * was sent to the chain.
+   */
+  public async retryDeadLetter(transactionId: string) {
+    const job = await this.getJob(transactionId);
+    if (job?.status !== "DEAD") {
+      throw new Error("Withdrawal is not in the dead-letter queue");
+    }
+
+    const [reset] = await models.transaction.update(
+      { status: "PENDING" },
+      {
+        where: {
+          id: transactionId,
+          status: { [Op.in]: ["PENDING", "PROCESSING"] },
+          trxId: null,
+        },
       }
+    );
+    if (!reset) {
+      throw new Error(
+        "Only withdrawals that are still pending and have no blockchain transaction can be retried"
+      );
+    }
+
+    await this.redis.srem(DEAD_LETTER_KEY, transactionId);
+    await this.redis.hset(`${JOB_KEY}${transactionId}`, "attempts", 0);
+    await this.schedule(transactionId, Date.now(), "QUEUED");
+    this.processNext();
+  }
+
+  /**
+   * Fails a dead-lettered withdrawal and refunds the user.
+   */
+  public async failDeadLetter(transactionId: string, reason: string) {
+    const job = await this.getJob(transactionId);
+    if (job?.status !== "DEAD") {
+      throw new Error("Withdrawal is not in the dead-letter queue");
+    }
+
+    const transaction = await models.transaction.findByPk(transactionId, {
+      attributes: ["status"],
+    });
+    if (!["PENDING", "PROCESSING"].includes(transaction?.status)) {
+      // Already settled elsewhere, so there is nothing to refund
+      await this.removeJob(transactionId);
+      throw new Error(
+        `Withdrawal is already ${transaction?.status || "removed"}`
+      );
+    }
+
+    const failed = await this.markTransactionFailed(transactionId, reason);
+    await this.removeJob(transactionId);
+    if (!failed) {
+      throw new Error("Withdrawal was already settled elsewhere");
+    }
+  }
+
+  private async processNext() {
+    if (this.isProcessing) {
+      console.log(`[WITHDRAWAL_QUEUE] Already processing, skipping`);
       return;
     }
 
     this.isProcessing = true;
-    const transactionId = this.queue.shift();
+    try {
+      let processed = true;
+      while (processed) {
+        processed = false;
+        const dueIds = await this.redis.zrangebyscore(
+          QUEUE_KEY,
+          0,
+          Date.now(),
+          "LIMIT",
+          0,
+          20
+        );
+        for (const transactionId of dueIds) {
+          if (await this.processTransaction(transactionId)) {
+            processed = true;
+            break;
+          }
+        }
+      }
+    } catch (error) {
+      logError("withdrawal_queue", error, __filename);
+    } finally {
+      this.isProcessing = false;
+      await this.scheduleWakeUp();
+    }
+  }
+
+  /**
+   * Claims and processes one withdrawal. Returns false when another process
+   * holds the transaction or its chain.
+   */
+  private async processTransaction(transactionId: string): Promise<boolean> {
+    const job = await this.getJob(transactionId);
+    if (!job) {
+      await this.redis.zrem(QUEUE_KEY, transactionId);
+      return true;
+    }
+
+    const chainLock = `${CHAIN_LOCK_KEY}${job.chain}`;
+    const transactionLock = `${LOCK_KEY}${transactionId}`;
+    // Withdrawals on the same chain share hot wallets and nonces, so they are
+    // sent one at a time across all processes
+    if (!(await this.acquireLease(chainLock))) return false;
+    if (!(await this.acquireLease(transactionLock))) {
+      await this.releaseLease(chainLock);
+      return false;
+    }
+
+    const renewTimer = setInterval(() => {
+      this.redis.pexpire(chainLock, LEASE_TTL);
+      this.redis.pexpire(transactionLock, LEASE_TTL);
+    }, LEASE_RENEW_INTERVAL);
+
+    try {
+      await this.redis.zrem(QUEUE_KEY, transactionId);
+      await this.runJob(job);
+    } finally {
+      clearInterval(renewTimer);
+      await this.releaseLease(transactionLock);
+      await this.releaseLease(chainLock);
+    }
+    return true;
+  }
+
+  private async runJob(job: WithdrawalJob) {
+    const { transactionId } = job;
     console.log(`[WITHDRAWAL_QUEUE] Processing transaction: ${transactionId}`);
 
-    if (transactionId) {
-      try {
-        this.processingTransactions.add(transactionId);
-
-        // Fetch the transaction from the database
-        const transaction = await models.transaction.findOne({
-          where: { id: transactionId },
-          include: [
-            {
-              model: models.wallet,
-              as: "wallet",
-              where: { type: "ECO" },
-            },
-          ],
-        });
-
-        if (!transaction) {
-          console.error(`[WITHDRAWAL_QUEUE] Transaction ${transactionId} not found.`);
-          throw new Error("Transaction not found");
-        }
+    let broadcasting = false;
+    try {
+      // Fetch the transaction from the database
+      const transaction = await models.transaction.findOne({
+        where: { id: transactionId },
+        include: [
+          {
+            model: models.wallet,
+            as: "wallet",
+            where: { type: "ECO" },
+          },
+        ],
+      });
 
-        console.log(`[WITHDRAWAL_QUEUE] Transaction found:`, {
-          id: transaction.id,
-          type: transaction.type,
-          status: transaction.status,
-          amount: transaction.amount
-        });
+      if (!transaction) {
+        console.error(
+          `[WITHDRAWAL_QUEUE] Transaction ${transactionId} not found.`
+        );
+        throw new Error("Transaction not found");
+      }
 
-        if (!transaction.wallet) {
-          console.error(`[WITHDRAWAL_QUEUE] Wallet not found for transaction ${transactionId}`);
-          throw new Error("Wallet not found for transaction");
-        }
+      if (!transaction.wallet) {
+        console.error(
+          `[WITHDRAWAL_QUEUE] Wallet not found for transaction ${transactionId}`
+        );
+        throw new Error("Wallet not found for transaction");
+      }
 
-        // Update transaction status to 'PROCESSING' to prevent duplicate processing
-        console.log(`[WITHDRAWAL_QUEUE] Updating transaction status to PROCESSING`);
-        const [updatedCount] = await models.transaction.update(
-          { status: "PROCESSING" },
-          { where: { id: transactionId, status: "PENDING" } }
+      if (getWithdrawalHold(transaction.metadata)) {
+        console.log(
+          `[WITHDRAWAL_QUEUE] Transaction ${transactionId} is held for approval, dropping job`
         );
+        await this.removeJob(transactionId);
+        return;
+      }
 
-        if (updatedCount === 0) {
-          console.error(`[WITHDRAWAL_QUEUE] Transaction ${transactionId} already processed or in process`);
-          throw new Error("Transaction already processed or in process");
-        }
+      // Reserve the transaction; anything but PENDING was already handled
+      const [updatedCount] = await models.transaction.update(
+        { status: "PROCESSING" },
+        { where: { id: transactionId, status: "PENDING" } }
+      );
 
-        const metadata =
-          typeof transaction.metadata === "string"
-            ? JSON.parse(transaction.metadata)
-            : transaction.metadata;
+      if (updatedCount === 0) {
+        console.log(
+          `[WITHDRAWAL_QUEUE] Transaction ${transactionId} already processed or in process, dropping job`
+        );
+        await this.removeJob(transactionId);
+        return;
+      }
 
-        console.log(`[WITHDRAWAL_QUEUE] Transaction metadata:`, metadata);
+      await this.updateJob(transactionId, {
+        status: "PROCESSING",
+        stage: "CLAIMED",
+        attempts: job.attempts + 1,
+        worker: this.workerId,
+      });
 
-        if (!metadata || !metadata.chain) {
-          console.error(`[WITHDRAWAL_QUEUE] Invalid metadata:`, metadata);
-          throw new Error("Invalid or missing chain in transaction metadata");
-        }
+      const metadata = this.parseMetadata(transaction.metadata);
 
-        // Process withdrawal based on the blockchain chain type
-        console.log(`[WITHDRAWAL_QUEUE] Processing withdrawal for chain: ${metadata.chain}`);
-        await this.processWithdrawal(transaction, metadata);
+      if (!metadata || !metadata.chain) {
+        console.error(`[WITHDRAWAL_QUEUE] Invalid metadata:`, metadata);
+        throw new Error("Invalid or missing chain in transaction metadata");
+      }
+
+      // Process withdrawal based on the blockchain chain type
+      console.log(
+        `[WITHDRAWAL_QUEUE] Processing withdrawal for chain: ${metadata.chain}`
+      );
+      await this.updateJob(transactionId, { stage: "BROADCASTING" });
+      broadcasting = true;
+      await this.processWithdrawal(transaction, metadata);
+      broadcasting = false;
+
+      // The withdrawal is done; what follows must never fail or refund it
+      try {
+        await this.removeJob(transactionId);
 
         // Send email to the user
         await this.sendWithdrawalConfirmationEmail(transaction, metadata);
@@ -114,23 +433,220 @@ class WithdrawalQueue {
         // Record admin profit if a fee is associated with the transaction
         await this.recordAdminProfit(transaction, metadata);
       } catch (error) {
-        console.error(
-          `[WITHDRAWAL_QUEUE] Failed to process transaction ${transactionId}: ${error.message}`,
-          error
-        );
+        logError("withdrawal_queue", error, __filename);
+      }
+    } catch (error) {
+      console.error(
+        `[WITHDRAWAL_QUEUE] Failed to process transaction ${transactionId}: ${error.message}`,
+        error
+      );
 
-        // Mark transaction as 'FAILED' and attempt to refund the user
-        console.log(`[WITHDRAWAL_QUEUE] Marking transaction as failed`);
-        await this.markTransactionFailed(transactionId, error.message);
+      if (broadcasting) {
+        const outcome = await this.getBroadcastOutcome(transactionId, error);
+        if (outcome === "RETRY" && job.attempts + 1 < MAX_ATTEMPTS) {
+          await this.scheduleRetry(job, error.message);
+          return;
+        }
+        if (outcome === "RETRY") {
+          await this.moveToDeadLetter(
+            transactionId,
+            `Retries exhausted: ${error.message}`
+          );
+          return;
+        }
+        if (outcome === "REVIEW") {
+          // Funds may be on their way; only an admin who checked the chain
+          // may resend or refund
+          await this.moveToDeadLetter(
+            transactionId,
+            `The withdrawal may have been broadcast, check the chain before retrying: ${error.message}`
+          );
+          return;
+        }
+      }
 
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      } finally {
-        this.processingTransactions.delete(transactionId);
-        this.isProcessing = false;
-        setImmediate(() => this.processNext()); // Process the next transaction
+      // Mark transaction as 'FAILED' and attempt to refund the user
+      console.log(`[WITHDRAWAL_QUEUE] Marking transaction as failed`);
+      try {
+        await this.markTransactionFailed(transactionId, error.message);
+      } catch (refundError) {
+        logError("withdrawal_queue", refundError, __filename);
       }
-    } else {
-      this.isProcessing = false;
+      await this.removeJob(transactionId);
+    }
+  }
+
+  /**
+   * Decides what happens to a withdrawal whose chain handler failed. It is
+   * only sent again when the node provably never got the request, and only
+   * failed and refunded on an error known to be raised before sending. Any
+   * other error, or a recorded blockchain transaction, sends it to manual
+   * review so funds are never sent twice or paid out and refunded.
+   */
+  private async getBroadcastOutcome(
+    transactionId: string,
+    error: any
+  ): Promise<"RETRY" | "REVIEW" | "FAIL"> {
+    const transaction = await models.transaction.findByPk(transactionId, {
+      attributes: ["status", "trxId"],
+    });
+    if (transaction?.trxId) return "REVIEW";
+
+    const message = `${error?.code || ""} ${error?.message || ""}`;
+    if (UNCERTAIN_ERRORS.some((pattern) => message.includes(pattern))) {
+      return "REVIEW";
+    }
+    if (REJECTED_ERRORS.some((pattern) => message.includes(pattern))) {
+      return transaction?.status === "PROCESSING" ? "RETRY" : "REVIEW";
+    }
+    const lowerMessage = message.toLowerCase();
+    if (PRE_SEND_ERRORS.some((pattern) => lowerMessage.includes(pattern))) {
+      return "FAIL";
+    }
+    return "REVIEW";
+  }
+
+  private async scheduleRetry(job: WithdrawalJob, errorMessage: string) {
+    const attempts = job.attempts + 1;
+    const backoff = Math.min(
+      BASE_BACKOFF * Math.pow(2, attempts - 1),
+      MAX_BACKOFF
+    );
+    const nextAttemptAt = Date.now() + backoff;
+
+    await models.transaction.update(
+      { status: "PENDING" },
+      { where: { id: job.transactionId, status: "PROCESSING" } }
+    );
+    await this.updateJob(job.transactionId, {
+      lastError: errorMessage,
+      stage: undefined,
+      nextAttemptAt,
+    });
+    await this.schedule(job.transactionId, nextAttemptAt, "RETRYING");
+
+    console.log(
+      `[WITHDRAWAL_QUEUE] Transaction ${job.transactionId} will be retried in ${backoff / 1000}s (attempt ${attempts} of ${MAX_ATTEMPTS})`
+    );
+  }
+
+  private async moveToDeadLetter(
+    transactionId: string,
+    reason: string,
+    chain?: string
+  ) {
+    const now = Date.now();
+    await this.redis
+      .multi()
+      .hsetnx(`${JOB_KEY}${transactionId}`, "transactionId", transactionId)
+      .hsetnx(`${JOB_KEY}${transactionId}`, "chain", chain || "UNKNOWN")
+      .hsetnx(`${JOB_KEY}${transactionId}`, "attempts", 0)
+      .hsetnx(`${JOB_KEY}${transactionId}`, "enqueuedAt", now)
+      .hset(`${JOB_KEY}${transactionId}`, {
+        status: "DEAD",
+        lastError: reason,
+        updatedAt: now,
+      })
+      .zrem(QUEUE_KEY, transactionId)
+      .sadd(DEAD_LETTER_KEY, transactionId)
+      .exec();
+
+    console.error(
+      `[WITHDRAWAL_QUEUE] Transaction ${transactionId} moved to dead-letter queue: ${reason}`
+    );
+  }
+
+  private async schedule(
+    transactionId: string,
+    dueAt: number,
+    status: WithdrawalJobStatus
+  ) {
+    await this.updateJob(transactionId, { status });
+    await this.redis.zadd(QUEUE_KEY, dueAt, transactionId);
+  }
+
+  private async scheduleWakeUp() {
+    if (this.wakeUpTimer) {
+      clearTimeout(this.wakeUpTimer);
+      this.wakeUpTimer = null;
+    }
+    const next = await this.redis.zrange(QUEUE_KEY, 0, 0, "WITHSCORES");
+    if (next.length < 2) return;
+
+    const delay = Math.max(Number(next[1]) - Date.now(), 1000);
+    this.wakeUpTimer = setTimeout(() => this.processNext(), delay);
+  }
+
+  private async getJob(transactionId: string): Promise<WithdrawalJob | null> {
+    const data = await this.redis.hgetall(`${JOB_KEY}${transactionId}`);
+    if (!data || !data.transactionId) return null;
+    return {
+      transactionId: data.transactionId,
+      chain: data.chain,
+      status: data.status as WithdrawalJobStatus,
+      stage: (data.stage as WithdrawalJobStage) || undefined,
+      attempts: Number(data.attempts || 0),
+      lastError: data.lastError || undefined,
+      worker: data.worker || undefined,
+      enqueuedAt: Number(data.enqueuedAt),
+      updatedAt: Number(data.updatedAt),
+      nextAttemptAt: data.nextAttemptAt
+        ? Number(data.nextAttemptAt)
+        : undefined,
+    };
+  }
+
+  private async updateJob(
+    transactionId: string,
+    fields: Partial<WithdrawalJob>
+  ) {
+    const key = `${JOB_KEY}${transactionId}`;
+    const updates: Record<string, string | number> = { updatedAt: Date.now() };
+    const removed: string[] = [];
+    for (const [field, value] of Object.entries(fields)) {
+      if (value === undefined) removed.push(field);
+      else updates[field] = value as string | number;
+    }
+    await this.redis.hset(key, updates);
+    if (removed.length) await this.redis.hdel(key, ...removed);
+  }
+
+  private async removeJob(transactionId: string) {
+    await this.redis
+      .multi()
+      .zrem(QUEUE_KEY, transactionId)
+      .srem(DEAD_LETTER_KEY, transactionId)
+      .del(`${JOB_KEY}${transactionId}`)
+      .exec();
+  }
+
+  private async acquireLease(key: string): Promise<boolean> {
+    const acquired = await this.redis.set(
+      key,
+      this.workerId,
+      "PX",
+      LEASE_TTL,
+      "NX"
+    );
+    return acquired === "OK";
+  }
+
+  private async releaseLease(key: string) {
+    // Only release a lease this process still holds
+    if ((await this.redis.get(key)) === this.workerId) {
+      await this.redis.del(key);
+    }
+  }
+
+  private async isLocked(transactionId: string): Promise<boolean> {
+    return (await this.redis.exists(`${LOCK_KEY}${transactionId}`)) === 1;
+  }
+
+  private parseMetadata(metadata: any) {
+    try {
+      return typeof metadata === "string" ? JSON.parse(metadata) : metadata;
+    } catch {
+      return null;
     }
   }
 
@@ -254,17 +770,32 @@ class WithdrawalQueue {
     }
   }
 
+  /**
+   * Fails a withdrawal that is still pending or processing and refunds the
+   * user. Returns false, without refunding, when it was already settled.
+   */
   private async markTransactionFailed(
     transactionId: string,
     errorMessage: string
-  ) {
-    await models.transaction.update(
+  ): Promise<boolean> {
+    const [failed] = await models.transaction.update(
       {
         status: "FAILED",
         description: `Transaction failed: ${errorMessage}`,
       },
-      { where: { id: transactionId } }
+      {
+        where: {
+          id: transactionId,
+          status: { [Op.in]: ["PENDING", "PROCESSING"] },
+        },
+      }
     );
+    if (!failed) {
+      console.log(
+        `[WITHDRAWAL_QUEUE] Transaction ${transactionId} is no longer pending, not refunding`
+      );
+      return false;
+    }
 
     const transaction = await models.transaction.findByPk(transactionId, {
       include: [{ model: models.wallet, as: "wallet", where: { type: "ECO" } }],
@@ -308,6 +839,7 @@ class WithdrawalQueue {
         ],
       });
     }
+    return true;
   }
 }
 
@@ -1,4 +1,4 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
 import {
   createPendingTransaction,
   decrementWalletBalance,
@@ -17,6 +17,8 @@ import {
   processInternalTransfer,
 } from "@b/api/finance/transfer/index.post";
 import WithdrawalQueue from "../utils/withdrawalQueue";
+import { ensureWithdrawalAllowed } from "@b/api/user/withdrawal-address/utils";
+import { assessWithdrawalRisk } from "@b/api/finance/withdraw/utils";
 import { getTronService, getMoneroService } from "@b/utils/safe-imports";
 
 // Utility function to count decimal places
@@ -39,6 +41,8 @@ export const metadata: OperationObject = {
   operationId: "withdrawFunds",
   tags: ["Wallet", "Withdrawal"],
   requiresAuth: true,
+  kycFeature: "withdraw_wallet",
+  requiresPasskey: true,
   requestBody: {
     required: true,
     content: {
@@ -98,6 +102,14 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
+  // Whitelist-only mode restricts withdrawals to confirmed saved addresses
+  await ensureWithdrawalAllowed(
+    user.id,
+    body.chain,
+    body.toAddress,
+    body.memo
+  );
+
   try {
     const { currency, chain, amount, toAddress } = body;
 
@@ -306,24 +318,43 @@ const storeWithdrawal = async (
     throw new Error("Insufficient funds");
   }
 
-  // Deduct the total amount from the user's wallet balance
-  await decrementWalletBalance(userWallet, chain, totalAmount);
+  const { risk, transaction } = await sequelize.transaction(async (t) => {
+    // Withdrawals over the user's limits or approval threshold are held for review
+    const risk = await assessWithdrawalRisk(
+      {
+        userId,
+        walletType: "ECO",
+        currency,
+        amount,
+      },
+      t
+    );
 
-  // Create the pending transaction
-  const transaction = await createPendingTransaction(
-    userId,
-    userWallet.id,
-    currency,
-    chain,
-    amount,
-    toAddress,
-    totalFee,
-    token
-  );
+    // Deduct the total amount from the user's wallet balance
+    await decrementWalletBalance(userWallet, chain, totalAmount, t);
+
+    // Create the pending transaction
+    const transaction = await createPendingTransaction(
+      userId,
+      userWallet.id,
+      currency,
+      chain,
+      amount,
+      toAddress,
+      totalFee,
+      token,
+      risk,
+      t
+    );
 
-  // Add the transaction to the withdrawal queue
-  const withdrawalQueue = WithdrawalQueue.getInstance();
-  withdrawalQueue.addTransaction(transaction.id);
+    return { risk, transaction };
+  });
+
+  // Held withdrawals are queued once they have been approved
+  if (!risk) {
+    const withdrawalQueue = WithdrawalQueue.getInstance();
+    await withdrawalQueue.addTransaction(transaction.id);
+  }
 
   // Return updated wallet balance for immediate UI update
   return {
@@ -331,7 +362,9 @@ const storeWithdrawal = async (
     balance: userWallet.balance - totalAmount,
     method: chain,
     currency,
-    message: "Withdrawal request submitted successfully",
+    message: risk
+      ? "Withdrawal request submitted and held for review by our team"
+      : "Withdrawal request submitted successfully",
     walletUpdate: {
       currency,
       balance: userWallet.balance - totalAmount,
@@ -34,6 +34,7 @@ export const metadata: OperationObject = {
     },
   ],
   requiresAuth: true,
+  kycFeature: "withdraw_forex",
   requestBody: {
     required: true,
     content: {
@@ -17,6 +17,7 @@ export const metadata: OperationObject = {
   operationId: "createForexInvestment",
   tags: ["Forex", "Investments"],
   requiresAuth: true,
+  kycFeature: "invest_forex",
   rateLimit: {
     windowMs: 3600000, // 1 hour
     max: 10 // 10 investments per hour
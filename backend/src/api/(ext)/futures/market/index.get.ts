@@ -6,10 +6,12 @@ import {
   unauthorizedResponse,
 } from "@b/utils/query";
 import { baseFuturesMarketSchema } from "./utils";
+import { FuturesMatchingEngine } from "@b/api/(ext)/futures/utils/matchingEngine";
 
 export const metadata: OperationObject = {
   summary: "Retrieves all futures markets",
-  description: "Fetches a list of all active futures markets.",
+  description:
+    "Fetches a list of all active futures markets, including the current and predicted funding rates.",
   operationId: "listFuturesMarkets",
   tags: ["Futures", "Markets"],
   responses: {
@@ -37,10 +39,20 @@ export default async () => {
   const markets = await models.futuresMarket.findAll({
     where: { status: true },
   });
-  
+  const engine = await FuturesMatchingEngine.getInstance();
+
   // Add symbol property to each market using currency/pair format
-  return markets.map((market) => ({
-    ...market.toJSON(),
-    symbol: `${market.currency}/${market.pair}`,
-  }));
+  return markets.map((market) => {
+    const symbol = `${market.currency}/${market.pair}`;
+    const funding = engine.getFundingInfo(symbol);
+    return {
+      ...market.toJSON(),
+      symbol,
+      markPrice: funding?.markPrice ?? 0,
+      indexPrice: funding?.indexPrice ?? 0,
+      fundingRate: market.fundingRate,
+      predictedFundingRate: funding?.predictedFundingRate ?? market.fundingRate,
+      nextFundingTime: market.nextFundingTime,
+    };
+  });
 };
@@ -29,4 +29,11 @@ export const baseFuturesMarketSchema = {
   currency: baseStringSchema("Futures market currency"),
   pair: baseStringSchema("Futures market pair"),
   status: baseBooleanSchema("Futures market status"),
+  markPrice: baseNumberSchema("Futures mark price"),
+  indexPrice: baseNumberSchema("Spot index price"),
+  fundingRate: baseNumberSchema("Funding rate settled at the last interval"),
+  predictedFundingRate: baseNumberSchema(
+    "Funding rate predicted for the next interval"
+  ),
+  nextFundingTime: baseStringSchema("Time of the next funding settlement"),
 };
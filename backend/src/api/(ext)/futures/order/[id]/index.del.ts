@@ -113,7 +113,12 @@ export default async (data: Handler) => {
     );
 
     const [currency, pair] = order.symbol.split("/");
-    const refundAmount = fromBigInt(order.cost) + fromBigInt(order.fee); // Refund the cost and fee
+    // Filled parts of the order already back a position with their margin,
+    // so only the unfilled share of the cost and fee is refunded
+    const unfilledShare =
+      fromBigInt(order.remaining) / fromBigInt(order.amount) || 0;
+    const refundAmount =
+      (fromBigInt(order.cost) + fromBigInt(order.fee)) * unfilledShare;
     const walletCurrency = order.side === "BUY" ? pair : currency;
 
     const wallet = await getWallet(user.id, "FUTURES", walletCurrency);
@@ -25,6 +25,13 @@ import {
   cancelOrderByUuid,
   getOrdersByUserId,
 } from "@b/api/(ext)/futures/utils/queries/order";
+import { getPosition } from "@b/api/(ext)/futures/utils/queries/positions";
+import { getOrderBook } from "@b/api/(ext)/futures/utils/queries/orderbook";
+import { TIME_IN_FORCE } from "@b/api/(ext)/futures/utils/matchmaking";
+import {
+  getMaintenanceMarginTier,
+  getMaintenanceMarginTiers,
+} from "@b/api/(ext)/futures/utils/margin";
 
 export const metadata: OperationObject = {
   summary: "Creates a new futures trading order",
@@ -61,6 +68,12 @@ export const metadata: OperationObject = {
               type: "number",
               description: "Leverage for the futures order",
             },
+            marginMode: {
+              type: "string",
+              enum: ["ISOLATED", "CROSS"],
+              description:
+                "ISOLATED backs the position with its own margin only, CROSS shares the futures wallet balance across positions",
+            },
             stopLossPrice: {
               type: "number",
               description: "Stop loss price for the order",
@@ -71,6 +84,27 @@ export const metadata: OperationObject = {
               description: "Take profit price for the order",
               nullable: true,
             },
+            timeInForce: {
+              type: "string",
+              enum: ["GTC", "IOC", "FOK"],
+              description:
+                "GTC rests on the book, IOC cancels whatever does not fill immediately, FOK fills completely or not at all",
+            },
+            postOnly: {
+              type: "boolean",
+              description: "Only add liquidity, limit GTC orders only",
+            },
+            postOnlyMode: {
+              type: "string",
+              enum: ["REJECT", "REPRICE"],
+              description:
+                "What to do when a post-only order would take liquidity: reject it (default) or move it one tick behind the best opposite price",
+            },
+            reduceOnly: {
+              type: "boolean",
+              description:
+                "Only reduce the open position on the opposite side, never increase or open one",
+            },
           },
           required: ["currency", "pair", "type", "side", "amount", "leverage"],
         },
@@ -79,8 +113,34 @@ export const metadata: OperationObject = {
   },
   responses: createRecordResponses("Order"),
   requiresAuth: true,
+  kycFeature: "futures_trading",
 };
 
+// Helper: Price for a post-only order. A price that would cross the book is
+// rejected, or moved one tick behind the best opposite price when repricing.
+async function getPostOnlyPrice(
+  symbol: string,
+  side: string,
+  price: number,
+  pricePrecision: number,
+  reprice: boolean
+): Promise<number> {
+  const { asks, bids } = await getOrderBook(symbol);
+  const best = side === "BUY" ? asks[0]?.[0] : bids[0]?.[0];
+  if (!best) return price;
+  const bestPrice = Number(best);
+  const crosses = side === "BUY" ? price >= bestPrice : price <= bestPrice;
+  if (!crosses) return price;
+  if (!reprice) {
+    throw new Error(
+      `Post-only order would take liquidity at ${bestPrice} ${symbol.split("/")[1]}`
+    );
+  }
+  const tick = 10 ** -pricePrecision;
+  const repriced = side === "BUY" ? bestPrice - tick : bestPrice + tick;
+  return parseFloat(repriced.toFixed(pricePrecision));
+}
+
 export default async (data: Handler) => {
   const { body, user } = data;
   if (!user?.id) {
@@ -91,13 +151,32 @@ export default async (data: Handler) => {
     currency,
     pair,
     amount,
-    price,
     type,
     side,
     leverage,
+    marginMode = "ISOLATED",
     stopLossPrice,
     takeProfitPrice,
   } = body;
+  let price = body.price;
+  const timeInForce = (body.timeInForce || "GTC").toUpperCase();
+  const postOnly = body.postOnly === true;
+  const reduceOnly = body.reduceOnly === true;
+
+  if (!["ISOLATED", "CROSS"].includes(marginMode)) {
+    throw createError({ statusCode: 400, message: "Invalid margin mode" });
+  }
+
+  if (!TIME_IN_FORCE.includes(timeInForce)) {
+    throw createError({ statusCode: 400, message: "Invalid time in force" });
+  }
+
+  if (postOnly && (type?.toLowerCase() !== "limit" || timeInForce !== "GTC")) {
+    throw createError({
+      statusCode: 400,
+      message: "Post-only is only available for GTC limit orders",
+    });
+  }
 
   if (!currency || !pair) {
     throw new Error("Invalid symbol");
@@ -117,6 +196,16 @@ export default async (data: Handler) => {
       throw new Error("Futures market metadata not found");
     }
 
+    if (postOnly) {
+      price = await getPostOnlyPrice(
+        symbol,
+        side,
+        price,
+        Number(market.metadata.precision?.price) || 8,
+        body.postOnlyMode === "REPRICE"
+      );
+    }
+
     const minAmount = Number(market.metadata?.limits?.amount?.min || 0);
     const maxAmount = Number(market.metadata?.limits?.amount?.max || 0);
     const minPrice = Number(market.metadata?.limits?.price?.min || 0);
@@ -155,9 +244,37 @@ export default async (data: Handler) => {
 
     const feeCalculated = (amount * price * feeRate) / 100;
     const fee = parseFloat(feeCalculated.toFixed(precision));
-    const cost = amount * price;
+    // Reduce-only orders lock no margin; the margin they release comes from
+    // the position they close
+    const cost = reduceOnly ? 0 : amount * price;
+
+    if (reduceOnly) {
+      const position = await getPosition(
+        user.id,
+        symbol,
+        side === "BUY" ? "SELL" : "BUY"
+      );
+      if (!position || position.amount <= BigInt(0)) {
+        throw new Error(`You have no open ${symbol} position to reduce`);
+      }
+      const pendingAmount = (await getOrdersByUserId(user.id))
+        .filter(
+          (o) =>
+            o.reduceOnly &&
+            o.status === "OPEN" &&
+            o.symbol === symbol &&
+            o.side === side
+        )
+        .reduce((total, o) => total + fromBigInt(o.remaining), 0);
+      const available = fromBigInt(position.amount) - pendingAmount;
+      if (amount > available) {
+        throw new Error(
+          `Reduce-only amount exceeds your open position. Maximum is ${Math.max(available, 0)} ${currency}`
+        );
+      }
+    }
 
-    if (side === "BUY" && cost < minCost) {
+    if (!reduceOnly && side === "BUY" && cost < minCost) {
       throw new Error(`Cost is too low. You need ${minCost} ${pair}`);
     }
 
@@ -165,6 +282,23 @@ export default async (data: Handler) => {
       throw new Error(`Cost is too high. Maximum is ${maxCost} ${pair}`);
     }
 
+    const tier = getMaintenanceMarginTier(
+      getMaintenanceMarginTiers(market),
+      cost * leverage
+    );
+    if (!reduceOnly && leverage > tier.maxLeverage) {
+      throw new Error(
+        `Leverage is too high for this position size. Maximum is ${tier.maxLeverage}x`
+      );
+    }
+
+    const openPosition = await getPosition(user.id, symbol, side);
+    if (!reduceOnly && openPosition && openPosition.marginMode !== marginMode) {
+      throw new Error(
+        `Your open ${symbol} position uses ${openPosition.marginMode.toLowerCase()} margin`
+      );
+    }
+
     const pairWallet = await getWalletSafe(user.id, "FUTURES", pair);
     
     if (!pairWallet) {
@@ -180,6 +314,7 @@ export default async (data: Handler) => {
 
     for (const existingOrder of existingOrders) {
       if (
+        !reduceOnly &&
         existingOrder.symbol === symbol &&
         existingOrder.leverage === leverage &&
         fromBigInt(existingOrder.amount) === amount &&
@@ -225,10 +360,14 @@ export default async (data: Handler) => {
       fee: toBigIntFloat(fee),
       feeCurrency: pair,
       leverage,
+      marginMode,
       stopLossPrice: stopLossPrice ? toBigIntFloat(stopLossPrice) : undefined,
       takeProfitPrice: takeProfitPrice
         ? toBigIntFloat(takeProfitPrice)
         : undefined,
+      timeInForce,
+      postOnly,
+      reduceOnly,
     });
 
     const order = {
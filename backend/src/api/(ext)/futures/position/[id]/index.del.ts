@@ -22,6 +22,11 @@ import {
   updatePositionStatus,
 } from "@b/api/(ext)/futures/utils/queries/positions";
 import { getWallet } from "@b/api/finance/wallet/utils";
+import {
+  calculatePnl,
+  getPositionMargin,
+} from "@b/api/(ext)/futures/utils/margin";
+import { getMarkPrice } from "@b/api/(ext)/futures/utils/markPrice";
 
 export const metadata: OperationObject = {
   summary: "Closes an open futures position",
@@ -103,7 +108,11 @@ export default async (data: Handler) => {
       });
     }
 
-    const finalBalanceChange = calculateFinalBalanceChange(position);
+    const markPrice = await getMarkPrice(symbol);
+    const pnl = markPrice
+      ? calculatePnl(position, markPrice)
+      : fromBigInt(position.unrealizedPnl);
+    const finalBalanceChange = getPositionMargin(position) + pnl;
 
     const wallet = await getWallet(
       position.userId,
@@ -118,12 +127,13 @@ export default async (data: Handler) => {
 
       if (finalBalanceChange > 0) {
         await updateWalletBalance(wallet, finalBalanceChange, "add");
-      } else {
-        await updateWalletBalance(
-          wallet,
-          Math.abs(finalBalanceChange),
-          "subtract"
-        );
+      } else if (position.marginMode === "CROSS") {
+        // Cross losses beyond the position's margin come out of the wallet;
+        // an isolated position can lose at most its own margin
+        const loss = Math.min(Math.abs(finalBalanceChange), wallet.balance);
+        if (loss > 0) {
+          await updateWalletBalance(wallet, loss, "subtract");
+        }
       }
     }
 
@@ -137,16 +147,3 @@ export default async (data: Handler) => {
     });
   }
 };
-
-const calculateFinalBalanceChange = (position) => {
-  if (!fromBigInt) {
-    throw new Error("Ecosystem extension not available for number conversion");
-  }
-
-  const entryPrice = fromBigInt(position.entryPrice);
-  const amount = fromBigInt(position.amount);
-  const unrealizedPnl = fromBigInt(position.unrealizedPnl); // Ensure PnL is a number
-  const investedAmount = entryPrice * amount;
-  const finalBalanceChange = investedAmount + unrealizedPnl;
-  return finalBalanceChange;
-};
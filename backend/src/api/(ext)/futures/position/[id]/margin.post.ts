@@ -0,0 +1,197 @@
+import { createError } from "@b/utils/error";
+import { logError } from "@b/utils/logger";
+
+// Safe import for ecosystem modules
+let toBigIntFloat: any;
+try {
+  const blockchainModule = require("@b/api/(ext)/ecosystem/utils/blockchain");
+  toBigIntFloat = blockchainModule.toBigIntFloat;
+} catch (e) {
+  // Ecosystem extension not available
+}
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  getPositionById,
+  updatePositionMargin,
+} from "@b/api/(ext)/futures/utils/queries/positions";
+import {
+  calculatePnl,
+  getPositionMargin,
+  getPositionSize,
+} from "@b/api/(ext)/futures/utils/margin";
+import { getMarkPrice } from "@b/api/(ext)/futures/utils/markPrice";
+import { handlePositionBroadcast } from "@b/api/(ext)/futures/utils/ws";
+import { changeWalletBalance } from "@b/api/(ext)/futures/utils/wallet";
+import { getWalletSafe } from "@b/api/finance/wallet/utils";
+
+export const metadata: OperationObject = {
+  summary: "Adjusts the margin of an isolated position",
+  description:
+    "Moves funds between the futures wallet and an open isolated position. Margin can only be removed while what is left still covers the position's initial margin at the mark price.",
+  operationId: "adjustFuturesPositionMargin",
+  tags: ["Futures", "Positions"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the position",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            amount: { type: "number", description: "Amount of margin" },
+            type: {
+              type: "string",
+              enum: ["ADD", "REMOVE"],
+              description: "Whether to add margin or remove it",
+            },
+          },
+          required: ["amount", "type"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Margin adjusted successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string", description: "Success message" },
+              margin: { type: "number", description: "New position margin" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid margin adjustment" },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Position"),
+    409: { description: "Position changed during the adjustment" },
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { body, params, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+  if (!toBigIntFloat) {
+    throw createError({
+      statusCode: 500,
+      message: "Ecosystem extension not available",
+    });
+  }
+
+  const amount = Number(body.amount);
+  const { type } = body;
+  if (!(amount > 0) || !["ADD", "REMOVE"].includes(type)) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid request parameters",
+    });
+  }
+
+  const position = await getPositionById(user.id, params.id);
+  if (!position) {
+    throw createError({ statusCode: 404, message: "Position not found" });
+  }
+  if (position.status !== "OPEN") {
+    throw createError({ statusCode: 400, message: "Position is not open" });
+  }
+  if (position.marginMode !== "ISOLATED") {
+    throw createError({
+      statusCode: 400,
+      message: "Margin can only be adjusted on isolated positions",
+    });
+  }
+
+  const currency = position.symbol.split("/")[1];
+  const wallet = await getWalletSafe(user.id, "FUTURES", currency);
+  if (!wallet) {
+    throw createError({
+      statusCode: 404,
+      message: `${currency} futures wallet not found`,
+    });
+  }
+
+  const margin = getPositionMargin(position);
+  let newMargin: number;
+
+  if (type === "ADD") {
+    newMargin = margin + amount;
+  } else {
+    const markPrice = await getMarkPrice(position.symbol);
+    if (!markPrice) {
+      throw createError({
+        statusCode: 400,
+        message: "Mark price is not available yet, try again shortly",
+      });
+    }
+
+    // Unrealized losses reduce what can be withdrawn, profits do not add to it
+    const initialMargin =
+      (getPositionSize(position) * markPrice) / position.leverage;
+    const removable =
+      margin + Math.min(calculatePnl(position, markPrice), 0) - initialMargin;
+    if (amount > removable) {
+      throw createError({
+        statusCode: 400,
+        message: `You can remove at most ${Math.max(removable, 0)} ${currency}`,
+      });
+    }
+    newMargin = margin - amount;
+  }
+
+  // Added margin is paid for first, under a lock on the wallet row, so
+  // parallel additions cannot all be funded from the same balance
+  if (type === "ADD") {
+    try {
+      await changeWalletBalance(wallet.id, amount, "subtract");
+    } catch (error) {
+      throw createError({ statusCode: 400, message: error.message });
+    }
+  }
+
+  // Claim the change before removed margin is paid out, so a parallel request
+  // or a liquidation working from the same margin cannot settle it too
+  const claimedMargin = toBigIntFloat(newMargin);
+  if (!(await updatePositionMargin(position, claimedMargin))) {
+    if (type === "ADD") {
+      await changeWalletBalance(wallet.id, amount, "add").catch((error) =>
+        logError("futures_margin", error, __filename)
+      );
+    }
+    throw createError({
+      statusCode: 409,
+      message: "Position changed while adjusting its margin, please try again",
+    });
+  }
+
+  if (type === "REMOVE") {
+    await changeWalletBalance(wallet.id, amount, "add");
+  }
+
+  await handlePositionBroadcast({
+    ...position,
+    margin: claimedMargin,
+  });
+
+  return { message: "Position margin updated successfully", margin: newMargin };
+};
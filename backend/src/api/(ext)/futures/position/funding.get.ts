@@ -0,0 +1,80 @@
+import { models } from "@b/db";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { createError } from "@b/utils/error";
+
+export const metadata: OperationObject = {
+  summary: "List Futures Funding History",
+  operationId: "listFuturesFundingHistory",
+  tags: ["Futures", "Positions"],
+  description:
+    "Retrieves the funding payments made and received by the authenticated user's futures positions.",
+  parameters: [
+    {
+      name: "positionId",
+      in: "query",
+      description: "Position to retrieve the funding history for.",
+      schema: { type: "string" },
+    },
+    {
+      name: "currency",
+      in: "query",
+      description: "Currency of the positions to retrieve.",
+      schema: { type: "string" },
+    },
+    {
+      name: "pair",
+      in: "query",
+      description: "Pair of the positions to retrieve.",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "A list of funding payments",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                positionId: { type: "string" },
+                symbol: { type: "string" },
+                side: { type: "string" },
+                amount: { type: "number" },
+                markPrice: { type: "number" },
+                indexPrice: { type: "number" },
+                fundingRate: { type: "number" },
+                payment: { type: "number" },
+                currency: { type: "string" },
+                createdAt: { type: "string", format: "date-time" },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id)
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const { positionId, currency, pair } = data.query;
+
+  const where: any = { userId: user.id };
+  if (positionId) where.positionId = positionId;
+  if (currency && pair) where.symbol = `${currency}/${pair}`;
+
+  return models.futuresFundingHistory.findAll({
+    where,
+    order: [["createdAt", "DESC"]],
+    limit: 500,
+  });
+};
@@ -5,6 +5,14 @@ import {
 } from "@b/utils/query";
 import { createError } from "@b/utils/error";
 import { getPositions } from "@b/api/(ext)/futures/utils/queries/positions";
+import {
+  calculateLiquidationPrice,
+  getMaintenanceMarginTiers,
+  getPositionMargin,
+} from "@b/api/(ext)/futures/utils/margin";
+import { getMarkPrice } from "@b/api/(ext)/futures/utils/markPrice";
+import { getWalletSafe } from "@b/api/finance/wallet/utils";
+import { models } from "@b/db";
 
 // Safe import for ecosystem modules
 let fromBigInt: any;
@@ -58,6 +66,10 @@ export const metadata: OperationObject = {
                 entryPrice: { type: "string" },
                 amount: { type: "string" },
                 leverage: { type: "string" },
+                marginMode: { type: "string", enum: ["ISOLATED", "CROSS"] },
+                margin: { type: "number" },
+                markPrice: { type: "number", nullable: true },
+                liquidationPrice: { type: "number", nullable: true },
                 unrealizedPnl: { type: "string" },
                 status: { type: "string" },
                 createdAt: { type: "string", format: "date-time" },
@@ -91,8 +103,43 @@ export default async (data: Handler) => {
       return [];
     }
 
+    const tiersBySymbol: Record<string, futuresMaintenanceMarginTier[]> = {};
+    const markPrices: Record<string, number | null> = {};
+    for (const position of positions) {
+      if (position.symbol in tiersBySymbol) continue;
+      const [marketCurrency, marketPair] = position.symbol.split("/");
+      const market = await models.futuresMarket.findOne({
+        where: { currency: marketCurrency, pair: marketPair },
+      });
+      tiersBySymbol[position.symbol] = getMaintenanceMarginTiers(market);
+      markPrices[position.symbol] = await getMarkPrice(position.symbol);
+    }
+
+    // Cross positions can also draw on the free balance of their wallet
+    const walletBalances: Record<string, number> = {};
+    for (const position of positions) {
+      const walletCurrency = position.symbol.split("/")[1];
+      if (position.marginMode !== "CROSS" || walletCurrency in walletBalances)
+        continue;
+      const wallet = await getWalletSafe(user.id, "FUTURES", walletCurrency);
+      walletBalances[walletCurrency] = wallet?.balance ?? 0;
+    }
+
     const result = positions.map((position) => ({
       ...position,
+      margin: getPositionMargin(position),
+      markPrice: markPrices[position.symbol],
+      liquidationPrice:
+        position.status === "OPEN" && markPrices[position.symbol]
+          ? calculateLiquidationPrice(
+              position,
+              tiersBySymbol[position.symbol],
+              markPrices[position.symbol] as number,
+              position.marginMode === "CROSS"
+                ? walletBalances[position.symbol.split("/")[1]]
+                : 0
+            )
+          : null,
       entryPrice: fromBigInt ? fromBigInt(position.entryPrice) : position.entryPrice,
       amount: fromBigInt ? fromBigInt(position.amount) : position.amount,
       leverage: position.leverage,
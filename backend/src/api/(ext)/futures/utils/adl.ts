@@ -0,0 +1,199 @@
+// Safe import for ecosystem modules
+let fromBigInt: any;
+let toBigIntFloat: any;
+let updateWalletBalance: any;
+try {
+  const blockchainModule = require("@b/api/(ext)/ecosystem/utils/blockchain");
+  fromBigInt = blockchainModule.fromBigInt;
+  toBigIntFloat = blockchainModule.toBigIntFloat;
+
+  const walletModule = require("@b/api/(ext)/ecosystem/utils/wallet");
+  updateWalletBalance = walletModule.updateWalletBalance;
+} catch (e) {
+  // Ecosystem extension not available
+}
+import { models } from "@b/db";
+import { getWalletSafe } from "@b/api/finance/wallet/utils";
+import { createNotification } from "@b/utils/notifications";
+import { logError } from "@b/utils/logger";
+import {
+  FuturesPosition,
+  getAllOpenPositions,
+  settlePosition,
+} from "./queries/positions";
+import { calculatePnl, getPositionMargin, getPositionSize } from "./margin";
+import { handlePositionBroadcast } from "./ws";
+
+const FUTURES_WALLET_TYPE = "FUTURES";
+
+export interface AdlCandidate {
+  position: FuturesPosition;
+  pnl: number;
+  score: number;
+}
+
+/**
+ * Price at which the collateral backing a position is exactly used up.
+ */
+export function calculateBankruptcyPrice(
+  position: FuturesPosition,
+  collateral: number
+): number {
+  const size = getPositionSize(position);
+  const entryPrice = fromBigInt(position.entryPrice);
+  if (size <= 0) return entryPrice;
+  const price =
+    position.side === "BUY"
+      ? entryPrice - collateral / size
+      : entryPrice + collateral / size;
+  return Math.max(price, 0);
+}
+
+/**
+ * Open positions on the opposite side of a liquidated position, in the order
+ * they are deleveraged. Only profitable positions qualify; they are ranked
+ * by return on margin multiplied by leverage.
+ */
+export async function getAdlQueue(
+  symbol: string,
+  liquidatedSide: string,
+  markPrice: number
+): Promise<AdlCandidate[]> {
+  const positions = await getAllOpenPositions();
+  return positions
+    .filter(
+      (position) =>
+        position.symbol === symbol &&
+        position.side !== liquidatedSide &&
+        position.amount > BigInt(0)
+    )
+    .map((position) => {
+      const pnl = calculatePnl(position, markPrice);
+      const margin = getPositionMargin(position);
+      const score = margin > 0 ? (pnl / margin) * position.leverage : 0;
+      return { position, pnl, score };
+    })
+    .filter((candidate) => candidate.pnl > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Recovers a liquidation shortfall the insurance fund could not pay by
+ * closing opposing positions at the liquidated position's bankruptcy price
+ * instead of the mark price. Each unit closed recovers the distance between
+ * the two prices. Returns the part of the shortfall that was recovered.
+ */
+export async function autoDeleverage(
+  liquidated: FuturesPosition,
+  markPrice: number,
+  bankruptcyPrice: number,
+  shortfall: number
+): Promise<number> {
+  if (!fromBigInt || !toBigIntFloat || !updateWalletBalance) {
+    throw new Error("Ecosystem extension not available");
+  }
+
+  const lossPerUnit = Math.abs(markPrice - bankruptcyPrice);
+  if (!(shortfall > 0) || lossPerUnit === 0) return 0;
+
+  const currency = liquidated.symbol.split("/")[1];
+  let remaining = Math.min(
+    shortfall / lossPerUnit,
+    getPositionSize(liquidated)
+  );
+  let covered = 0;
+
+  const queue = await getAdlQueue(
+    liquidated.symbol,
+    liquidated.side,
+    markPrice
+  );
+  for (const { position, score } of queue) {
+    if (remaining <= 0) break;
+
+    try {
+      const size = getPositionSize(position);
+      const closeSize = Math.min(size, remaining);
+      const fullyClosed = closeSize >= size;
+      const closedAmount = fullyClosed
+        ? position.amount
+        : toBigIntFloat(closeSize);
+      const releasedMargin = fullyClosed
+        ? position.margin
+        : (position.margin * closedAmount) / position.amount;
+
+      const entryPrice = fromBigInt(position.entryPrice);
+      const pnl =
+        position.side === "BUY"
+          ? (bankruptcyPrice - entryPrice) * closeSize
+          : (entryPrice - bankruptcyPrice) * closeSize;
+      const payout = fromBigInt(releasedMargin) + pnl;
+
+      // Claim the closed part first; a position a liquidation or the owner
+      // changed since it was ranked is skipped and paid nothing here
+      const amount = position.amount - closedAmount;
+      const margin = position.margin - releasedMargin;
+      const settled = await settlePosition(
+        position,
+        fullyClosed ? position.amount : amount,
+        fullyClosed ? position.margin : margin,
+        fullyClosed ? "CLOSED" : "OPEN"
+      );
+      if (!settled) continue;
+
+      const wallet = await getWalletSafe(
+        position.userId,
+        FUTURES_WALLET_TYPE,
+        currency
+      );
+      if (wallet && payout > 0) {
+        await updateWalletBalance(wallet, payout, "add");
+      } else if (wallet && payout < 0 && position.marginMode === "CROSS") {
+        const loss = Math.min(-payout, wallet.balance);
+        if (loss > 0) {
+          await updateWalletBalance(wallet, loss, "subtract");
+        }
+      }
+
+      await handlePositionBroadcast({
+        ...position,
+        amount,
+        margin,
+        status: fullyClosed ? "CLOSED" : position.status,
+      });
+
+      const recovered = closeSize * lossPerUnit;
+      remaining -= closeSize;
+      covered += recovered;
+
+      await models.futuresAdlEvent.create({
+        symbol: liquidated.symbol,
+        currency,
+        liquidatedUserId: liquidated.userId,
+        liquidatedPositionId: liquidated.id,
+        userId: position.userId,
+        positionId: position.id,
+        side: position.side as "BUY" | "SELL",
+        amount: closeSize,
+        price: bankruptcyPrice,
+        markPrice,
+        pnl,
+        rankScore: score,
+        shortfallCovered: recovered,
+      });
+
+      await createNotification({
+        userId: position.userId,
+        relatedId: position.id,
+        title: "Position auto-deleveraged",
+        type: "alert",
+        message: `${closeSize} ${liquidated.symbol} of your ${position.side} position was closed at ${bankruptcyPrice} by auto-deleveraging.`,
+        link: `/trade?symbol=${liquidated.symbol.replace("/", "-")}&type=futures`,
+      });
+    } catch (error) {
+      logError("futures_adl", error, __filename);
+    }
+  }
+
+  return covered;
+}
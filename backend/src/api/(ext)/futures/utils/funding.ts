@@ -0,0 +1,363 @@
+// Safe import for ecosystem modules
+let fromBigInt: any;
+let toBigIntFloat: any;
+try {
+  const blockchainModule = require("@b/api/(ext)/ecosystem/utils/blockchain");
+  fromBigInt = blockchainModule.fromBigInt;
+  toBigIntFloat = blockchainModule.toBigIntFloat;
+} catch (e) {
+  // Ecosystem extension not available
+}
+import { Transaction } from "sequelize";
+import { models, sequelize } from "@b/db";
+import { RedisSingleton } from "@b/utils/redis";
+import { logError } from "@b/utils/logger";
+import { FuturesMatchingEngine } from "./matchingEngine";
+import { getPositionMargin } from "./margin";
+import { getIndexPrice, getMarkPrice } from "./markPrice";
+import {
+  FuturesPosition,
+  getAllOpenPositions,
+  getPositionById,
+  updatePositionMargin,
+} from "./queries/positions";
+import { changeWalletBalance } from "./wallet";
+import { handleTickersBroadcast } from "./ws";
+
+const redis = RedisSingleton.getInstance();
+
+const PREMIUM_SAMPLES_KEY = "futures:funding:premium:";
+// The interest component may only move the rate this far from the premium
+const INTEREST_CLAMP = 0.0005;
+const FUTURES_WALLET_TYPE = "FUTURES";
+// Conditional margin updates tried before a settlement gives up
+const MARGIN_ATTEMPTS = 3;
+
+export interface FundingInfo {
+  markPrice: number;
+  indexPrice: number;
+  fundingRate: number;
+  predictedFundingRate: number;
+  nextFundingTime: number | null;
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Funding rate for one interval from the average premium of the futures mark
+ * price over the spot index, plus the interest component, capped per market.
+ */
+export function calculateFundingRate(
+  premium: number,
+  interestRate: number,
+  cap: number
+): number {
+  const rate =
+    premium + clamp(interestRate - premium, -INTEREST_CLAMP, INTEREST_CLAMP);
+  return clamp(rate, -cap, cap);
+}
+
+/**
+ * The next funding time aligned to the market's interval, e.g. 00:00, 08:00
+ * and 16:00 UTC for the default 8 hours.
+ */
+export function getNextFundingTime(
+  intervalHours: number,
+  from: number = Date.now()
+): Date {
+  const intervalMs = intervalHours * 60 * 60 * 1000;
+  return new Date(Math.floor(from / intervalMs + 1) * intervalMs);
+}
+
+async function getAveragePremium(symbol: string): Promise<number | null> {
+  const samples = await redis.lrange(`${PREMIUM_SAMPLES_KEY}${symbol}`, 0, -1);
+  if (!samples.length) return null;
+  return (
+    samples.reduce((sum, value) => sum + Number(value), 0) / samples.length
+  );
+}
+
+// A margin update applied to an isolated position, kept to undo it
+interface MarginChange {
+  position: FuturesPosition;
+  previous: bigint;
+}
+
+/**
+ * Moves a funding payment in or out of the margin of an isolated position
+ * with a conditional update, re-reading the position when it changed in the
+ * meantime. Payments are capped at the margin. Returns the amount moved.
+ */
+async function changeFundingMargin(
+  position: FuturesPosition,
+  amount: number,
+  type: "add" | "subtract",
+  changes: MarginChange[]
+): Promise<number> {
+  let current: FuturesPosition | null = position;
+  for (let attempt = 0; attempt < MARGIN_ATTEMPTS; attempt++) {
+    if (!current || current.status !== "OPEN") return 0;
+
+    const margin = getPositionMargin(current);
+    const moved = type === "add" ? amount : Math.min(amount, margin);
+    if (!(moved > 0)) return 0;
+
+    const previous = current.margin;
+    const updated = toBigIntFloat(
+      type === "add" ? margin + moved : margin - moved
+    );
+    if (await updatePositionMargin(current, updated)) {
+      changes.push({
+        position: { ...current, margin: updated, storedMargin: updated },
+        previous,
+      });
+      return moved;
+    }
+    current = await getPositionById(current.userId, current.id);
+  }
+  throw new Error(
+    `Position ${position.id} kept changing while settling its funding`
+  );
+}
+
+async function undoMarginChanges(changes: MarginChange[]) {
+  for (const { position, previous } of changes) {
+    try {
+      if (!(await updatePositionMargin(position, previous))) {
+        throw new Error(
+          `Position ${position.id} changed before its funding could be undone`
+        );
+      }
+    } catch (error) {
+      logError("futures_funding", error, __filename);
+    }
+  }
+}
+
+async function lockFuturesWallet(
+  userId: string,
+  currency: string,
+  transaction: Transaction
+) {
+  return models.wallet.findOne({
+    where: { userId, type: FUTURES_WALLET_TYPE, currency },
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+}
+
+/**
+ * Moves funding between the longs and shorts of a market. The paying side is
+ * charged on its notional value; what was collected is shared pro rata among
+ * the receiving side, so the transfer is always zero-sum.
+ *
+ * Isolated positions pay from and receive into their margin, cross positions
+ * their futures wallet. The wallets and the history are written in one
+ * transaction under row locks; when the settlement fails, the margin changes
+ * already made are undone, so nothing of the interval is left settled.
+ */
+export async function settleFunding(
+  market: futuresMarketAttributes,
+  rate: number,
+  markPrice: number,
+  indexPrice: number
+) {
+  if (!fromBigInt || !toBigIntFloat) {
+    throw new Error("Ecosystem extension not available");
+  }
+
+  const symbol = `${market.currency}/${market.pair}`;
+  const positions = (await getAllOpenPositions()).filter(
+    (position) => position.symbol === symbol && position.amount > BigInt(0)
+  );
+  if (positions.length === 0 || rate === 0) return 0;
+
+  // Longs pay shorts when the rate is positive, shorts pay longs otherwise
+  const payingSide = rate > 0 ? "BUY" : "SELL";
+  const payers = positions.filter((position) => position.side === payingSide);
+  const receivers = positions.filter(
+    (position) => position.side !== payingSide
+  );
+
+  const history: futuresFundingHistoryCreationAttributes[] = [];
+  const record = (position: FuturesPosition, payment: number) =>
+    history.push({
+      userId: position.userId,
+      positionId: position.id,
+      symbol,
+      side: position.side as "BUY" | "SELL",
+      amount: fromBigInt(position.amount),
+      markPrice,
+      indexPrice,
+      fundingRate: rate,
+      payment,
+      currency: market.pair,
+    });
+
+  const changes: MarginChange[] = [];
+  try {
+    await sequelize.transaction(async (transaction) => {
+      let collected = 0;
+
+      for (const position of payers) {
+        const due = fromBigInt(position.amount) * markPrice * Math.abs(rate);
+        let paid = 0;
+        if (position.marginMode === "ISOLATED") {
+          paid = await changeFundingMargin(position, due, "subtract", changes);
+        } else {
+          const wallet = await lockFuturesWallet(
+            position.userId,
+            market.pair,
+            transaction
+          );
+          paid = wallet ? Math.min(due, wallet.balance) : 0;
+          if (paid > 0) {
+            await changeWalletBalance(wallet.id, paid, "subtract", transaction);
+          }
+        }
+        collected += paid;
+        record(position, -paid);
+      }
+
+      const receiverNotional = receivers.reduce(
+        (sum, position) => sum + fromBigInt(position.amount) * markPrice,
+        0
+      );
+
+      for (const position of receivers) {
+        const share =
+          receiverNotional > 0
+            ? (collected * fromBigInt(position.amount) * markPrice) /
+              receiverNotional
+            : 0;
+        let received = 0;
+        if (share > 0) {
+          if (position.marginMode === "ISOLATED") {
+            received = await changeFundingMargin(
+              position,
+              share,
+              "add",
+              changes
+            );
+          } else {
+            const wallet = await lockFuturesWallet(
+              position.userId,
+              market.pair,
+              transaction
+            );
+            if (wallet) {
+              await changeWalletBalance(wallet.id, share, "add", transaction);
+              received = share;
+            }
+          }
+        }
+        record(position, received);
+      }
+
+      await models.futuresFundingHistory.bulkCreate(history, { transaction });
+    });
+  } catch (error) {
+    await undoMarginChanges(changes);
+    throw error;
+  }
+
+  return history.length;
+}
+
+/**
+ * Samples the premium of every futures market, publishes the current and
+ * predicted rates on the ticker and settles the markets whose funding time
+ * has come.
+ */
+export async function processFundingRates(): Promise<{
+  sampled: number;
+  settled: number;
+}> {
+  const engine = await FuturesMatchingEngine.getInstance();
+  const markets = await models.futuresMarket.findAll({
+    where: { status: true },
+  });
+
+  let sampled = 0;
+  let settled = 0;
+
+  for (const market of markets) {
+    const symbol = `${market.currency}/${market.pair}`;
+    try {
+      if (!market.nextFundingTime) {
+        await market.update({
+          nextFundingTime: getNextFundingTime(market.fundingIntervalHours),
+        });
+      }
+
+      const markPrice =
+        (await getMarkPrice(symbol)) || engine.getTicker(symbol).last;
+      const indexPrice = await getIndexPrice(symbol);
+      if (markPrice && indexPrice) {
+        const premium = (markPrice - indexPrice) / indexPrice;
+        await redis.rpush(`${PREMIUM_SAMPLES_KEY}${symbol}`, String(premium));
+        sampled++;
+      }
+
+      const averagePremium = await getAveragePremium(symbol);
+      const predictedFundingRate =
+        averagePremium !== null
+          ? calculateFundingRate(
+              averagePremium,
+              market.interestRate,
+              market.fundingRateCap
+            )
+          : 0;
+
+      let { fundingRate, nextFundingTime } = market;
+      if (new Date(nextFundingTime).getTime() <= Date.now()) {
+        // Claim the interval before paying it, so a second worker or an
+        // overlapping run that read the same funding time settles nothing
+        const next = getNextFundingTime(market.fundingIntervalHours);
+        const [claimed] = await models.futuresMarket.update(
+          { fundingRate: predictedFundingRate, nextFundingTime: next },
+          { where: { id: market.id, nextFundingTime } }
+        );
+        if (claimed > 0) {
+          if (markPrice && indexPrice) {
+            try {
+              await settleFunding(
+                market,
+                predictedFundingRate,
+                markPrice,
+                indexPrice
+              );
+            } catch (error) {
+              // Nothing of the interval was settled, so give it back for the
+              // next run to retry
+              await models.futuresMarket.update(
+                { fundingRate, nextFundingTime },
+                { where: { id: market.id, nextFundingTime: next } }
+              );
+              throw error;
+            }
+          }
+          fundingRate = predictedFundingRate;
+          nextFundingTime = next;
+          await redis.del(`${PREMIUM_SAMPLES_KEY}${symbol}`);
+          settled++;
+        }
+      }
+
+      engine.setFundingInfo(symbol, {
+        markPrice: markPrice || 0,
+        indexPrice: indexPrice || 0,
+        fundingRate,
+        predictedFundingRate,
+        nextFundingTime: new Date(nextFundingTime).getTime(),
+      });
+    } catch (error) {
+      logError("futures_funding", error, __filename);
+    }
+  }
+
+  handleTickersBroadcast(engine.getTickers());
+
+  return { sampled, settled };
+}
@@ -0,0 +1,84 @@
+import { models, sequelize } from "@b/db";
+
+export interface InsuranceFundEntry {
+  currency: string;
+  symbol: string;
+  userId: string;
+  positionId: string;
+}
+
+async function getOrCreateFund(currency: string) {
+  const [fund] = await models.futuresInsuranceFund.findOrCreate({
+    where: { currency },
+    defaults: { currency, balance: 0 },
+  });
+  return fund;
+}
+
+/**
+ * Moves funds in or out of the insurance fund of a settlement currency and
+ * records the resulting balance. Payouts are capped at the fund balance;
+ * whatever the fund cannot pay is recorded as the entry's shortfall.
+ * Returns the amount actually moved.
+ */
+async function applyEntry(
+  type: futuresInsuranceFundHistoryAttributes["type"],
+  entry: InsuranceFundEntry,
+  amount: number
+): Promise<number> {
+  if (!(amount > 0)) return 0;
+
+  const { id } = await getOrCreateFund(entry.currency);
+  return sequelize.transaction(async (t) => {
+    const fund = await models.futuresInsuranceFund.findByPk(id, {
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+
+    const applied =
+      type === "LIQUIDATION_SURPLUS" ? amount : Math.min(amount, fund.balance);
+    const balance =
+      type === "LIQUIDATION_SURPLUS"
+        ? fund.balance + applied
+        : fund.balance - applied;
+
+    await fund.update({ balance }, { transaction: t });
+    await models.futuresInsuranceFundHistory.create(
+      {
+        fundId: fund.id,
+        currency: entry.currency,
+        type,
+        amount: type === "LIQUIDATION_SURPLUS" ? applied : -applied,
+        balance,
+        shortfall: amount - applied,
+        symbol: entry.symbol,
+        userId: entry.userId,
+        positionId: entry.positionId,
+      },
+      { transaction: t }
+    );
+
+    return applied;
+  });
+}
+
+/**
+ * Pays what is left of a liquidated position's margin into the fund.
+ */
+export async function depositLiquidationSurplus(
+  entry: InsuranceFundEntry,
+  amount: number
+): Promise<void> {
+  await applyEntry("LIQUIDATION_SURPLUS", entry, amount);
+}
+
+/**
+ * Covers the loss a liquidated position ran up beyond its collateral.
+ * Returns the part of the deficit the fund paid.
+ */
+export async function coverLiquidationDeficit(
+  entry: InsuranceFundEntry,
+  deficit: number
+): Promise<number> {
+  return applyEntry("LIQUIDATION_DEFICIT", entry, deficit);
+}
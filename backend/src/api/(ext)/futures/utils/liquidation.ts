@@ -1,142 +1,348 @@
 // Safe import for ecosystem modules
 let fromBigInt: any;
-let toBigIntFloat: any;
 let client: any;
 let scyllaFuturesKeyspace: any;
-let getWalletByUserIdAndCurrency: any;
 let updateWalletBalance: any;
 try {
   const blockchainModule = require("@b/api/(ext)/ecosystem/utils/blockchain");
   fromBigInt = blockchainModule.fromBigInt;
-  toBigIntFloat = blockchainModule.toBigIntFloat;
 
   const clientModule = require("@b/api/(ext)/ecosystem/utils/scylla/client");
   client = clientModule.default;
   scyllaFuturesKeyspace = clientModule.scyllaFuturesKeyspace;
 
   const walletModule = require("@b/api/(ext)/ecosystem/utils/wallet");
-  getWalletByUserIdAndCurrency = walletModule.getWalletByUserIdAndCurrency;
   updateWalletBalance = walletModule.updateWalletBalance;
 } catch (e) {
   // Ecosystem extension not available
 }
 import { emailQueue } from "../../../../utils/emails";
 import { models } from "@b/db";
-import { FuturesPosition } from "./queries/positions";
+import { getWalletSafe } from "@b/api/finance/wallet/utils";
+import { logError } from "@b/utils/logger";
+import {
+  FuturesPosition,
+  getAllOpenPositions,
+  getPositions,
+} from "./queries/positions";
+import {
+  calculateMaintenanceMargin,
+  calculatePnl,
+  getMaintenanceMarginTiers,
+  getPositionMargin,
+} from "./margin";
+import { getMarkPrice, refreshMarkPrice } from "./markPrice";
+import {
+  coverLiquidationDeficit,
+  depositLiquidationSurplus,
+} from "./insuranceFund";
+import { autoDeleverage, calculateBankruptcyPrice } from "./adl";
 import { handlePositionBroadcast } from "./ws";
 
-const calculateMargin = (
-  position: FuturesPosition,
-  matchedPrice: number
-): number => {
-  if (!toBigIntFloat) {
-    throw new Error("Ecosystem extension not available");
-  }
+const FUTURES_WALLET_TYPE = "FUTURES";
 
-  const currentPriceBigInt = toBigIntFloat(matchedPrice); // Scale up by 18
-  const entryPriceBigInt = position.entryPrice;
-  const leverageBigInt = BigInt(position.leverage);
+type TiersBySymbol = Record<string, futuresMaintenanceMarginTier[]>;
 
-  // Ensure entryPriceBigInt is not zero to avoid division by zero
-  if (entryPriceBigInt === BigInt(0)) {
-    throw new Error("Entry price cannot be zero");
+async function getTiers(
+  symbol: string,
+  cache: TiersBySymbol = {}
+): Promise<futuresMaintenanceMarginTier[]> {
+  if (!cache[symbol]) {
+    const [currency, pair] = symbol.split("/");
+    const market = await models.futuresMarket.findOne({
+      where: { currency, pair },
+    });
+    cache[symbol] = getMaintenanceMarginTiers(market);
   }
+  return cache[symbol];
+}
 
-  // Calculate price difference based on the side of the position
-  const priceDifferenceBigInt =
-    position.side === "BUY"
-      ? currentPriceBigInt - entryPriceBigInt
-      : entryPriceBigInt - currentPriceBigInt;
-  const entryPriceWithLeverageBigInt = entryPriceBigInt / leverageBigInt;
-  const marginBigInt =
-    (priceDifferenceBigInt * BigInt(1000000000000000000)) /
-    entryPriceWithLeverageBigInt;
-
-  // Convert margin back to number for the result
-  const margin = Number(marginBigInt) / 1000000000000000000;
-
-  return margin;
-};
-
+/**
+ * Liquidates a position once the equity backing it no longer covers its
+ * maintenance margin at the mark price. Isolated positions are backed by
+ * their own margin only; cross positions share the futures wallet of their
+ * settlement currency, so the whole cross account is evaluated together.
+ */
 export const checkForLiquidation = async (
   position: FuturesPosition,
-  matchedPrice: number
-) => {
-  if (!toBigIntFloat) {
-    console.warn("Ecosystem extension not available for liquidation checks");
-    return;
-  }
-
-  const margin = calculateMargin(position, matchedPrice);
+  markPrice: number,
+  tiersCache: TiersBySymbol = {}
+): Promise<number> => {
+  if (position.status !== "OPEN" || position.amount <= BigInt(0)) return 0;
 
-  const partialLiquidationThreshold = -0.8; // 80% loss for partial liquidation
-  const fullLiquidationThreshold = -1.0; // 100% loss for full liquidation
+  if (position.marginMode === "CROSS") {
+    return checkCrossAccount(
+      position.userId,
+      position.symbol.split("/")[1],
+      { [position.symbol]: markPrice },
+      tiersCache
+    );
+  }
 
-  if (
-    margin <= partialLiquidationThreshold &&
-    margin > fullLiquidationThreshold
-  ) {
-    await liquidatePosition(position, matchedPrice, true); // Partial liquidation
-  } else if (margin <= fullLiquidationThreshold) {
-    await liquidatePosition(position, matchedPrice); // Full liquidation
+  const tiers = await getTiers(position.symbol, tiersCache);
+  const equity =
+    getPositionMargin(position) + calculatePnl(position, markPrice);
+  if (equity > calculateMaintenanceMargin(position, markPrice, tiers)) {
+    return 0;
   }
+
+  return liquidatePosition(position, markPrice);
 };
 
-export const liquidatePosition = async (
-  position: FuturesPosition,
-  matchedPrice: number,
-  partial: boolean = false
-) => {
-  if (!client || !scyllaFuturesKeyspace || !fromBigInt || !getWalletByUserIdAndCurrency || !updateWalletBalance) {
-    throw new Error("Ecosystem extension not available");
+/**
+ * Evaluates every cross position a user holds against one futures wallet.
+ * The free wallet balance and the margin and PnL of each position make up
+ * the account equity; when it drops to the summed maintenance margin all of
+ * them are liquidated.
+ */
+export async function checkCrossAccount(
+  userId: string,
+  currency: string,
+  markPrices: Record<string, number> = {},
+  tiersCache: TiersBySymbol = {}
+): Promise<number> {
+  const positions = (await getPositions(userId, undefined, "OPEN")).filter(
+    (position) =>
+      position.marginMode === "CROSS" &&
+      position.amount > BigInt(0) &&
+      position.symbol.split("/")[1] === currency
+  );
+  if (positions.length === 0) return 0;
+
+  const prices: Record<string, number> = {};
+  let maintenance = 0;
+  let equity = 0;
+  for (const position of positions) {
+    const markPrice =
+      markPrices[position.symbol] ?? (await getMarkPrice(position.symbol));
+    // Without a price for every position the account cannot be valued
+    if (!markPrice) return 0;
+    prices[position.symbol] = markPrice;
+
+    const tiers = await getTiers(position.symbol, tiersCache);
+    equity += getPositionMargin(position) + calculatePnl(position, markPrice);
+    maintenance += calculateMaintenanceMargin(position, markPrice, tiers);
   }
 
-  // Calculate the amount to liquidate
-  const amountToLiquidate = partial
-    ? (position.amount * BigInt(80)) / BigInt(100) // Liquidate 80% of the position in partial liquidation
-    : position.amount;
+  const wallet = await getWalletSafe(userId, FUTURES_WALLET_TYPE, currency);
+  equity += wallet?.balance ?? 0;
+  if (equity > maintenance) return 0;
 
-  // Update the position in the database
-  await client.execute(
-    `UPDATE ${scyllaFuturesKeyspace}.position SET amount = ?, status = ? WHERE "userId" = ? AND id = ?`,
+  return liquidatePositions(positions, prices);
+}
+
+/**
+ * Marks a position liquidated, provided it is still open with the amount it
+ * was valued at. The check and the update are one lightweight transaction,
+ * so a position that was closed, resized or liquidated by another run in the
+ * meantime is left alone. Returns whether this call closed it.
+ */
+async function closeLiquidatedPosition(
+  position: FuturesPosition
+): Promise<boolean> {
+  // The margin is part of the condition, so a margin removed after the
+  // position was valued is not counted as collateral
+  const margin =
+    position.storedMargin === undefined
+      ? position.margin
+      : position.storedMargin;
+  const result = await client.execute(
+    `UPDATE ${scyllaFuturesKeyspace}.position SET amount = ?, status = ?, "updatedAt" = ? WHERE "userId" = ? AND id = ? IF status = ? AND amount = ? AND margin = ?`,
     [
-      partial ? amountToLiquidate.toString() : "0",
-      partial ? "PARTIALLY_LIQUIDATED" : "LIQUIDATED",
+      "0",
+      "LIQUIDATED",
+      new Date(),
       position.userId,
       position.id,
+      "OPEN",
+      position.amount.toString(),
+      margin === null ? null : margin.toString(),
     ],
     { prepare: true }
   );
+  return result.wasApplied();
+}
 
-  // Update the user's wallet balance
-  const wallet = await getWalletByUserIdAndCurrency(
-    position.userId,
-    position.symbol.split("/")[1]
-  );
+/**
+ * Closes a position at the mark price and settles it. Returns 1 when it was
+ * liquidated, 0 when it was no longer open as valued.
+ */
+export const liquidatePosition = async (
+  position: FuturesPosition,
+  markPrice: number
+): Promise<number> =>
+  liquidatePositions([position], { [position.symbol]: markPrice });
 
-  if (wallet) {
-    const amountToRefund =
-      fromBigInt(amountToLiquidate) * fromBigInt(position.entryPrice);
-    await updateWalletBalance(wallet, amountToRefund, "add");
+/**
+ * Closes positions at their mark prices and settles them together. The
+ * results of cross positions are netted first, as they share one futures
+ * wallet: profits on some positions cover losses on others, and the wallet
+ * pays what is left of the loss. Only then does a net surplus go to the
+ * insurance fund, or a net deficit get covered by the fund and, once it is
+ * exhausted, by auto-deleveraging opposing positions. Both are split over
+ * the positions in proportion to their own result.
+ */
+async function liquidatePositions(
+  positions: FuturesPosition[],
+  prices: Record<string, number>
+): Promise<number> {
+  if (!client || !scyllaFuturesKeyspace || !updateWalletBalance) {
+    throw new Error("Ecosystem extension not available");
   }
 
-  // Broadcast position update
-  await handlePositionBroadcast(position);
+  const closed: FuturesPosition[] = [];
+  for (const position of positions) {
+    if (await closeLiquidatedPosition(position)) closed.push(position);
+  }
+  if (closed.length === 0) return 0;
 
-  // Send liquidation email
-  const user = await models.user.findOne({ where: { id: position.userId } });
-  if (user && user.email) {
-    if (partial) {
-      await sendPartialLiquidationNotificationEmail(
+  const { userId, marginMode } = closed[0];
+  const currency = closed[0].symbol.split("/")[1];
+  const results = closed.map((position) => {
+    const collateral = getPositionMargin(position);
+    return {
+      position,
+      collateral,
+      result: collateral + calculatePnl(position, prices[position.symbol]),
+    };
+  });
+  let remaining = results.reduce((total, { result }) => total + result, 0);
+
+  if (remaining < 0 && marginMode === "CROSS") {
+    const wallet = await getWalletSafe(userId, FUTURES_WALLET_TYPE, currency);
+    const loss = Math.min(-remaining, wallet?.balance ?? 0);
+    if (loss > 0) {
+      await updateWalletBalance(wallet, loss, "subtract");
+      remaining += loss;
+    }
+  }
+
+  const entryOf = (position: FuturesPosition) => ({
+    currency,
+    symbol: position.symbol,
+    userId,
+    positionId: position.id,
+  });
+  try {
+    if (remaining > 0) {
+      const winners = results.filter(({ result }) => result > 0);
+      const profit = winners.reduce((total, { result }) => total + result, 0);
+      for (const { position, result } of winners) {
+        await depositLiquidationSurplus(
+          entryOf(position),
+          (remaining * result) / profit
+        );
+      }
+    } else if (remaining < 0) {
+      const losers = results.filter(({ result }) => result < 0);
+      const loss = losers.reduce((total, { result }) => total - result, 0);
+      for (const { position, collateral, result } of losers) {
+        const deficit = (-remaining * -result) / loss;
+        const covered = await coverLiquidationDeficit(
+          entryOf(position),
+          deficit
+        );
+        if (covered < deficit) {
+          // Everything the account paid towards this loss counts as
+          // collateral, the deficit is what is left beyond it
+          await autoDeleverage(
+            position,
+            prices[position.symbol],
+            calculateBankruptcyPrice(position, collateral - result - deficit),
+            deficit - covered
+          );
+        }
+      }
+    }
+  } catch (error) {
+    logError("futures_liquidation", error, __filename);
+  }
+
+  const user = await models.user.findOne({ where: { id: userId } });
+  for (const position of closed) {
+    await handlePositionBroadcast({
+      ...position,
+      amount: BigInt(0),
+      status: "LIQUIDATED",
+    });
+    if (user && user.email) {
+      await sendLiquidationNotificationEmail(
         user,
         position,
-        matchedPrice
+        prices[position.symbol]
       );
-    } else {
-      await sendLiquidationNotificationEmail(user, position, matchedPrice);
     }
   }
-};
+  return closed.length;
+}
+
+/**
+ * Takes a mark price sample for every active market and liquidates the
+ * positions the new prices leave under-margined.
+ */
+export async function processLiquidations(): Promise<{
+  markets: number;
+  liquidated: number;
+}> {
+  // Loaded lazily, the matching engine itself depends on this module
+  const { FuturesMatchingEngine } = await import("./matchingEngine");
+  const engine = await FuturesMatchingEngine.getInstance();
+  const markets = await models.futuresMarket.findAll({
+    where: { status: true },
+  });
+
+  const markPrices: Record<string, number> = {};
+  const tiersCache: TiersBySymbol = {};
+  for (const market of markets) {
+    const symbol = `${market.currency}/${market.pair}`;
+    try {
+      const { markPrice, indexPrice } = await refreshMarkPrice(
+        symbol,
+        engine.getTicker(symbol).last
+      );
+      tiersCache[symbol] = getMaintenanceMarginTiers(market);
+      if (markPrice) {
+        markPrices[symbol] = markPrice;
+        engine.setMarkPrice(symbol, markPrice, indexPrice);
+      }
+    } catch (error) {
+      logError("futures_liquidation", error, __filename);
+    }
+  }
+
+  let liquidated = 0;
+  const crossAccounts = new Set<string>();
+  const positions = await getAllOpenPositions();
+  for (const position of positions) {
+    const markPrice = markPrices[position.symbol];
+    if (!markPrice || position.amount <= BigInt(0)) continue;
+
+    try {
+      if (position.marginMode === "CROSS") {
+        const currency = position.symbol.split("/")[1];
+        const account = `${position.userId}:${currency}`;
+        if (crossAccounts.has(account)) continue;
+        crossAccounts.add(account);
+        liquidated += await checkCrossAccount(
+          position.userId,
+          currency,
+          markPrices,
+          tiersCache
+        );
+      } else {
+        liquidated += await checkForLiquidation(
+          position,
+          markPrice,
+          tiersCache
+        );
+      }
+    } catch (error) {
+      logError("futures_liquidation", error, __filename);
+    }
+  }
+
+  return { markets: Object.keys(markPrices).length, liquidated };
+}
 
 export const sendWarningEmail = async (
   userId: string,
@@ -0,0 +1,101 @@
+import type { FuturesPosition } from "./queries/positions";
+
+export const DEFAULT_MAINTENANCE_MARGIN_TIERS: futuresMaintenanceMarginTier[] =
+  [
+    { maxNotional: 50000, maintenanceMarginRate: 0.005, maxLeverage: 100 },
+    { maxNotional: 250000, maintenanceMarginRate: 0.01, maxLeverage: 50 },
+    { maxNotional: 1000000, maintenanceMarginRate: 0.025, maxLeverage: 20 },
+    { maxNotional: null, maintenanceMarginRate: 0.05, maxLeverage: 10 },
+  ];
+
+const SCALE = 10 ** 18;
+const toNumber = (value: bigint): number => Number(value) / SCALE;
+
+export function getMaintenanceMarginTiers(
+  market?: Pick<futuresMarketAttributes, "maintenanceMarginTiers">
+): futuresMaintenanceMarginTier[] {
+  const tiers = market?.maintenanceMarginTiers;
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return DEFAULT_MAINTENANCE_MARGIN_TIERS;
+  }
+  return [...tiers].sort(
+    (a, b) =>
+      (a.maxNotional ?? Number.POSITIVE_INFINITY) -
+      (b.maxNotional ?? Number.POSITIVE_INFINITY)
+  );
+}
+
+/**
+ * The tier a position of the given notional value falls into. Positions
+ * larger than every bounded tier use the last one.
+ */
+export function getMaintenanceMarginTier(
+  tiers: futuresMaintenanceMarginTier[],
+  notional: number
+): futuresMaintenanceMarginTier {
+  return (
+    tiers.find(
+      (tier) => tier.maxNotional === null || notional <= tier.maxNotional
+    ) ?? tiers[tiers.length - 1]
+  );
+}
+
+export function getPositionSize(position: FuturesPosition): number {
+  return toNumber(position.amount);
+}
+
+export function getPositionMargin(position: FuturesPosition): number {
+  return toNumber(position.margin);
+}
+
+export function calculatePnl(
+  position: FuturesPosition,
+  markPrice: number
+): number {
+  const entryPrice = toNumber(position.entryPrice);
+  const size = getPositionSize(position);
+  return position.side === "BUY"
+    ? (markPrice - entryPrice) * size
+    : (entryPrice - markPrice) * size;
+}
+
+export function calculateMaintenanceMargin(
+  position: FuturesPosition,
+  markPrice: number,
+  tiers: futuresMaintenanceMarginTier[]
+): number {
+  const notional = getPositionSize(position) * markPrice;
+  return (
+    notional * getMaintenanceMarginTier(tiers, notional).maintenanceMarginRate
+  );
+}
+
+/**
+ * Price at which the equity backing a position, its margin plus any extra
+ * collateral, falls to the maintenance margin. Cross positions pass the free
+ * wallet balance as extra collateral; the estimate assumes the position's
+ * other cross positions stay flat.
+ */
+export function calculateLiquidationPrice(
+  position: FuturesPosition,
+  tiers: futuresMaintenanceMarginTier[],
+  markPrice: number,
+  extraCollateral = 0
+): number | null {
+  const size = getPositionSize(position);
+  if (size <= 0) return null;
+
+  const entryPrice = toNumber(position.entryPrice);
+  const collateral = getPositionMargin(position) + extraCollateral;
+  const { maintenanceMarginRate } = getMaintenanceMarginTier(
+    tiers,
+    size * markPrice
+  );
+
+  const price =
+    position.side === "BUY"
+      ? (entryPrice * size - collateral) / (size * (1 - maintenanceMarginRate))
+      : (entryPrice * size + collateral) / (size * (1 + maintenanceMarginRate));
+
+  return price > 0 ? price : null;
+}
@@ -0,0 +1,88 @@
+// Safe import for ecosystem modules
+let EcosystemMatchingEngine: any;
+try {
+  const engineModule = require("@b/api/(ext)/ecosystem/utils/matchingEngine");
+  EcosystemMatchingEngine = engineModule.MatchingEngine;
+} catch (e) {
+  // Ecosystem extension not available
+}
+import { RedisSingleton } from "@b/utils/redis";
+import { logError } from "@b/utils/logger";
+
+const redis = RedisSingleton.getInstance();
+
+const MARK_BASIS_KEY = "futures:mark:basis:";
+const MARK_PRICE_KEY = "futures:mark:price:";
+// Weight of the newest sample in the moving average, so a single trade far
+// from the index only moves the mark price by a fraction of the gap
+const SMOOTHING = 0.1;
+
+/**
+ * Spot index price for a futures symbol, taken from the ecosystem spot market
+ * when it exists and from the exchange ticker cache otherwise.
+ */
+export async function getIndexPrice(symbol: string): Promise<number | null> {
+  if (EcosystemMatchingEngine) {
+    try {
+      const engine = await EcosystemMatchingEngine.getInstance();
+      const last = engine.getTicker(symbol)?.last;
+      if (last) return Number(last);
+    } catch (error) {
+      logError("futures_mark_price", error, __filename);
+    }
+  }
+
+  const cachedTickers = await redis.get("exchange:tickers");
+  if (cachedTickers) {
+    const last = JSON.parse(cachedTickers)[symbol]?.last;
+    if (last) return Number(last);
+  }
+
+  return null;
+}
+
+/**
+ * The last mark price computed for a symbol.
+ */
+export async function getMarkPrice(symbol: string): Promise<number | null> {
+  const value = await redis.get(`${MARK_PRICE_KEY}${symbol}`);
+  return value !== null ? Number(value) : null;
+}
+
+const smooth = (previous: number | null, sample: number): number =>
+  previous === null ? sample : previous + SMOOTHING * (sample - previous);
+
+/**
+ * Takes a new mark price sample: the index price plus the moving average of
+ * the basis between the last traded price and the index. Markets without an
+ * index fall back to the moving average of the last price.
+ */
+export async function refreshMarkPrice(
+  symbol: string,
+  lastPrice: number
+): Promise<{ markPrice: number | null; indexPrice: number | null }> {
+  const indexPrice = await getIndexPrice(symbol);
+
+  let markPrice: number | null;
+  if (indexPrice) {
+    const previous = await redis.get(`${MARK_BASIS_KEY}${symbol}`);
+    const basis = smooth(
+      previous !== null ? Number(previous) : null,
+      lastPrice ? lastPrice - indexPrice : 0
+    );
+    await redis.set(`${MARK_BASIS_KEY}${symbol}`, String(basis));
+    markPrice = indexPrice + basis;
+  } else {
+    markPrice = lastPrice
+      ? smooth(await getMarkPrice(symbol), lastPrice)
+      : await getMarkPrice(symbol);
+  }
+
+  if (markPrice !== null && markPrice > 0) {
+    await redis.set(`${MARK_PRICE_KEY}${symbol}`, String(markPrice));
+  } else {
+    markPrice = null;
+  }
+
+  return { markPrice, indexPrice };
+}
@@ -57,6 +57,8 @@ import {
 } from "./queries/positions"; // Import getPositions and updatePositionInDB
 import { checkForLiquidation } from "./liquidation"; // Import checkForLiquidation
 import { calculateUnrealizedPnl } from "./position";
+import type { FundingInfo } from "./funding";
+import { getMarkPrice } from "./markPrice";
 
 export class FuturesMatchingEngine {
   private static instancePromise: Promise<FuturesMatchingEngine> | null = null;
@@ -65,6 +67,7 @@ export class FuturesMatchingEngine {
   private lockedOrders: Set<string> = new Set();
   private lastCandle: Record<string, Record<string, any>> = {};
   private yesterdayCandle: Record<string, any> = {};
+  private fundingInfo: Record<string, FundingInfo> = {};
 
   public static getInstance(): Promise<FuturesMatchingEngine> {
     if (!this.instancePromise) {
@@ -92,14 +95,24 @@ export class FuturesMatchingEngine {
 
   private async initializeMarkets() {
     const markets: any[] = await getFuturesMarkets();
-    markets.forEach((market) => {
+    for (const market of markets) {
       // Construct symbol from currency and pair (e.g., MASH + USDT = MASH/USDT)
       const symbol = `${market.currency}/${market.pair}`;
       // Add symbol property to market object
       market.symbol = symbol;
       this.marketsBySymbol[symbol] = market;
       this.orderQueue[symbol] = [];
-    });
+      this.fundingInfo[symbol] = {
+        // Last mark price sample, until the liquidation job takes a new one
+        markPrice: (await getMarkPrice(symbol)) ?? 0,
+        indexPrice: 0,
+        fundingRate: market.fundingRate ?? 0,
+        predictedFundingRate: market.fundingRate ?? 0,
+        nextFundingTime: market.nextFundingTime
+          ? new Date(market.nextFundingTime).getTime()
+          : null,
+      };
+    }
   }
 
   private async initializeOrders() {
@@ -229,15 +242,11 @@ export class FuturesMatchingEngine {
                   position.id,
                   position.entryPrice,
                   position.amount,
+                  position.margin,
                   unrealizedPnl,
                   position.stopLossPrice,
                   position.takeProfitPrice
                 );
-
-                await checkForLiquidation(
-                  position,
-                  Number(fromBigInt(currentPrice))
-                );
               }
             })
           );
@@ -256,6 +265,7 @@ export class FuturesMatchingEngine {
     }
 
     const ordersToUpdate: FuturesOrder[] = [];
+    const tradedOrders: FuturesOrder[] = [];
     const orderBookUpdates: Record<string, any> = {};
 
     const allOrderBookEntries = await fetchOrderBooks();
@@ -280,16 +290,21 @@ export class FuturesMatchingEngine {
       if (orders.length === 0) continue;
 
       const promise = (async () => {
-        const { matchedOrders, bookUpdates } = await matchAndCalculateOrders(
-          orders,
-          mappedOrderBook[symbol] || { bids: {}, asks: {} }
-        );
+        const { matchedOrders, bookUpdates, cancelledOrders } =
+          await matchAndCalculateOrders(
+            orders,
+            mappedOrderBook[symbol] || { bids: {}, asks: {} }
+          );
 
-        if (matchedOrders.length === 0) {
+        if (matchedOrders.length === 0 && cancelledOrders.length === 0) {
           return;
         }
 
-        ordersToUpdate.push(...matchedOrders);
+        tradedOrders.push(...matchedOrders);
+        ordersToUpdate.push(
+          ...matchedOrders,
+          ...cancelledOrders.filter((order) => !matchedOrders.includes(order))
+        );
         orderBookUpdates[symbol] = bookUpdates;
       })();
 
@@ -302,7 +317,7 @@ export class FuturesMatchingEngine {
       return;
     }
 
-    await this.performUpdates(ordersToUpdate, orderBookUpdates);
+    await this.performUpdates(ordersToUpdate, orderBookUpdates, tradedOrders);
 
     const finalOrderBooks: Record<string, any> = {};
     for (const symbol in orderBookUpdates) {
@@ -330,7 +345,8 @@ export class FuturesMatchingEngine {
 
   private async performUpdates(
     ordersToUpdate: FuturesOrder[],
-    orderBookUpdates: Record<string, any>
+    orderBookUpdates: Record<string, any>,
+    tradedOrders: FuturesOrder[] = ordersToUpdate
   ) {
     const locked = this.lockOrders(ordersToUpdate);
     if (!locked) {
@@ -344,7 +360,8 @@ export class FuturesMatchingEngine {
 
     updateQueries.push(...generateOrderUpdateQueries(ordersToUpdate));
 
-    const latestOrdersForCandles = getLatestOrdersForCandles(ordersToUpdate);
+    // Orders cancelled without trading must not move the candles
+    const latestOrdersForCandles = getLatestOrdersForCandles(tradedOrders);
 
     latestOrdersForCandles.forEach((order) => {
       updateQueries.push(...this.updateLastCandles(order));
@@ -364,14 +381,16 @@ export class FuturesMatchingEngine {
       console.warn("No queries to batch update.");
     }
 
-    // Broadcast position updates and check for liquidation
+    // Broadcast position updates and check for liquidation against the mark
+    // price, never the price of the trade that was just matched
     const positionPromises = ordersToUpdate.map(async (order) => {
       const positions = await getPositions(order.userId, order.symbol, "OPEN");
       if (positions.length > 0) {
-        if (fromBigInt) {
+        const markPrice = this.getMarkPrice(order.symbol);
+        if (markPrice) {
           await Promise.all(
             positions.map((position) =>
-              checkForLiquidation(position, fromBigInt(order.price))
+              checkForLiquidation(position, markPrice)
             )
           );
         }
@@ -651,6 +670,31 @@ export class FuturesMatchingEngine {
     await this.processQueue();
   }
 
+  public setFundingInfo(symbol: string, info: FundingInfo) {
+    this.fundingInfo[symbol] = info;
+  }
+
+  public getFundingInfo(symbol: string): FundingInfo | null {
+    return this.fundingInfo[symbol] ?? null;
+  }
+
+  public setMarkPrice(
+    symbol: string,
+    markPrice: number,
+    indexPrice: number | null
+  ) {
+    const funding = this.fundingInfo[symbol];
+    if (!funding) return;
+    funding.markPrice = markPrice;
+    if (indexPrice) {
+      funding.indexPrice = indexPrice;
+    }
+  }
+
+  public getMarkPrice(symbol: string): number | null {
+    return this.fundingInfo[symbol]?.markPrice || null;
+  }
+
   public getTickers(): { [symbol: string]: any } {
     const symbolsWithTickers: { [symbol: string]: any } = {};
     // Include all markets, even those with no trading activity (last price = 0)
@@ -670,9 +714,18 @@ export class FuturesMatchingEngine {
     percentage: number;
     high: number;
     low: number;
+    fundingRate: number;
+    predictedFundingRate: number;
+    nextFundingTime: number | null;
   } {
     const lastCandle = this.lastCandle[symbol]?.["1d"];
     const previousCandle = this.yesterdayCandle[symbol];
+    const funding = this.fundingInfo[symbol];
+    const fundingFields = {
+      fundingRate: funding?.fundingRate ?? 0,
+      predictedFundingRate: funding?.predictedFundingRate ?? 0,
+      nextFundingTime: funding?.nextFundingTime ?? null,
+    };
 
     if (!lastCandle) {
       return {
@@ -684,6 +737,7 @@ export class FuturesMatchingEngine {
         percentage: 0,
         high: 0,
         low: 0,
+        ...fundingFields,
       };
     }
 
@@ -711,6 +765,7 @@ export class FuturesMatchingEngine {
       change,
       high: lastCandle.high,
       low: lastCandle.low,
+      ...fundingFields,
     };
   }
 }
@@ -3,6 +3,7 @@ let OrderBook: any;
 let fromBigInt: any;
 let fromBigIntMultiply: any;
 let BigIntReplacer: any;
+let updateWalletBalance: any;
 try {
   const queriesModule = require("../../ecosystem/utils/scylla/queries");
   OrderBook = queriesModule.OrderBook;
@@ -11,27 +12,102 @@ try {
   fromBigInt = blockchainModule.fromBigInt;
   fromBigIntMultiply = blockchainModule.fromBigIntMultiply;
   BigIntReplacer = blockchainModule.BigIntReplacer;
+
+  const walletModule = require("../../ecosystem/utils/wallet");
+  updateWalletBalance = walletModule.updateWalletBalance;
 } catch (e) {
   // Ecosystem extension not available
 }
 import { handleTradesBroadcast } from "./ws";
 import { logError } from "@b/utils/logger";
+import { getWalletSafe } from "@b/api/finance/wallet/utils";
 import { FuturesOrder } from "./queries/order";
+import { getPosition } from "./queries/positions";
 import { updatePositions } from "./position";
 
+export const TIME_IN_FORCE = ["GTC", "IOC", "FOK"];
+
+// IOC and FOK orders never rest on the book
+const isImmediateOrder = (order: FuturesOrder) =>
+  order.timeInForce === "IOC" || order.timeInForce === "FOK";
+
 export const matchAndCalculateOrders = async (
   orders: FuturesOrder[],
   currentOrderBook: any
 ) => {
   if (!fromBigInt || !fromBigIntMultiply) {
     console.warn("Ecosystem extension not available for order matching");
-    return { matchedOrders: [], bookUpdates: { bids: {}, asks: {} } };
+    return {
+      matchedOrders: [],
+      bookUpdates: { bids: {}, asks: {} },
+      cancelledOrders: [],
+    };
   }
 
   const matchedOrders: FuturesOrder[] = [];
+  const cancelledOrders: FuturesOrder[] = [];
   const bookUpdates: any = { bids: {}, asks: {} };
   const processedOrders: Set<string> = new Set();
 
+  const cancel = async (order: FuturesOrder) => {
+    processedOrders.add(order.id);
+    cancelledOrders.push(order);
+    try {
+      await releaseUnfilledAmount(
+        order,
+        order.remaining,
+        currentOrderBook,
+        bookUpdates
+      );
+    } catch (error) {
+      logError("match_calculate_orders", error, __filename);
+    }
+  };
+
+  // Reduce-only orders can together never close more than the opposite
+  // position holds, so what is beyond it is released before matching and an
+  // order with nothing left to close is cancelled
+  const reducible = new Map<string, bigint>();
+  for (const order of orders) {
+    if (!order.reduceOnly || order.status !== "OPEN") continue;
+    const side = order.side === "BUY" ? "SELL" : "BUY";
+    const key = `${order.userId}:${order.symbol}:${side}`;
+    if (!reducible.has(key)) {
+      const position = await getPosition(order.userId, order.symbol, side);
+      reducible.set(key, position ? BigInt(position.amount) : BigInt(0));
+    }
+    const size = reducible.get(key) as bigint;
+    if (size <= BigInt(0)) {
+      await cancel(order);
+      continue;
+    }
+    if (order.remaining > size) {
+      try {
+        await releaseUnfilledAmount(
+          order,
+          order.remaining - size,
+          currentOrderBook,
+          bookUpdates
+        );
+      } catch (error) {
+        logError("match_calculate_orders", error, __filename);
+      }
+    }
+    reducible.set(key, size - order.remaining);
+  }
+
+  // A fill-or-kill order the other side cannot fill completely is cancelled
+  // before anything is matched
+  for (const order of orders) {
+    if (
+      order.timeInForce === "FOK" &&
+      order.status === "OPEN" &&
+      getFillableAmount(order, orders) < order.remaining
+    ) {
+      await cancel(order);
+    }
+  }
+
   const buyOrders = filterAndSortOrders(orders, "BUY", true);
   const sellOrders = filterAndSortOrders(orders, "SELL", false);
 
@@ -59,6 +135,15 @@ export const matchAndCalculateOrders = async (
     }
 
     if (matchFound) {
+      // A post-only order may only add liquidity, so when it would take it
+      // it is cancelled instead of matched
+      const taker =
+        buyOrder.createdAt > sellOrder.createdAt ? buyOrder : sellOrder;
+      if (taker.postOnly) {
+        await cancel(taker);
+        continue;
+      }
+
       processedOrders.add(buyOrder.id);
       processedOrders.add(sellOrder.id);
 
@@ -113,9 +198,78 @@ export const matchAndCalculateOrders = async (
     }
   }
 
-  return { matchedOrders, bookUpdates };
+  // What an IOC or FOK order could not fill right away is cancelled
+  for (const order of orders) {
+    if (
+      isImmediateOrder(order) &&
+      order.status === "OPEN" &&
+      !cancelledOrders.includes(order)
+    ) {
+      await cancel(order);
+    }
+  }
+
+  return { matchedOrders, bookUpdates, cancelledOrders };
 };
 
+/**
+ * Amount the opposite side of the queue could fill for an order right now.
+ */
+function getFillableAmount(
+  order: FuturesOrder,
+  orders: FuturesOrder[]
+): bigint {
+  return orders
+    .filter(
+      (other) =>
+        other.side !== order.side &&
+        other.status === "OPEN" &&
+        (order.type === "MARKET" ||
+          other.type === "MARKET" ||
+          (order.side === "BUY"
+            ? other.price <= order.price
+            : other.price >= order.price))
+    )
+    .reduce((total, other) => total + other.remaining, BigInt(0));
+}
+
+/**
+ * Takes part of an order's unfilled amount off the orderbook and refunds the
+ * margin and fee locked for it. An order left with nothing to fill is
+ * cancelled.
+ */
+export async function releaseUnfilledAmount(
+  order: FuturesOrder,
+  amount: bigint,
+  currentOrderBook: any,
+  bookUpdates: any
+) {
+  const released = amount < order.remaining ? amount : order.remaining;
+  order.remaining -= released;
+  if (order.remaining <= BigInt(0)) {
+    order.remaining = BigInt(0);
+    order.status = "CANCELED";
+  }
+  if (released <= BigInt(0)) return;
+
+  updateOrderBook(bookUpdates, order, currentOrderBook, released);
+
+  if (!updateWalletBalance) {
+    throw new Error("Ecosystem extension not available for wallet operations");
+  }
+  const refund =
+    fromBigInt(BigInt(order.cost) + BigInt(order.fee)) *
+    (Number(released) / Number(order.amount));
+  const wallet = await getWalletSafe(
+    order.userId,
+    "FUTURES",
+    order.symbol.split("/")[1]
+  );
+  if (wallet && refund > 0) {
+    await updateWalletBalance(wallet, refund, "add");
+  }
+}
+
 export const processMatchedOrders = async (
   buyOrder: FuturesOrder,
   sellOrder: FuturesOrder,
@@ -319,6 +473,19 @@ export function validateOrder(order: FuturesOrder): boolean {
     console.error("Order validation failed: ", order);
     return false;
   }
+  // Post-only orders have to be able to rest on the book
+  if (
+    (order.timeInForce && !TIME_IN_FORCE.includes(order.timeInForce)) ||
+    (order.postOnly && (order.type !== "LIMIT" || isImmediateOrder(order)))
+  ) {
+    logError(
+      "validate_order",
+      new Error("Invalid time in force or post-only flag"),
+      __filename
+    );
+    console.error("Order validation failed: ", order);
+    return false;
+  }
   return true;
 }
 
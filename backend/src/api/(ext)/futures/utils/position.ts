@@ -14,9 +14,11 @@ import {
   FuturesPosition,
   createPosition,
   getPosition,
+  settlePosition,
   updatePositionInDB,
   updatePositionStatus,
 } from "./queries/positions";
+import { handlePositionBroadcast } from "./ws";
 // Safe import for ecosystem modules
 let updateWalletBalance: any;
 try {
@@ -29,6 +31,8 @@ try {
 // Constants
 const SCALE_FACTOR = BigInt(10 ** 18);
 const FUTURES_WALLET_TYPE = "FUTURES";
+// Times a reduce-only fill re-reads a position that changed under it
+const REDUCE_ATTEMPTS = 3;
 
 // Types
 type Side = "BUY" | "SELL";
@@ -57,6 +61,12 @@ export const calculateUnrealizedPnl = (
   return scaleUp(pnl);
 };
 
+// Share of the margin locked by an order that backs the filled amount
+const getFilledMargin = (order: FuturesOrder, amount: bigint): bigint =>
+  order.amount > BigInt(0)
+    ? (BigInt(order.cost) * amount) / BigInt(order.amount)
+    : BigInt(0);
+
 // Main functions
 export const updatePositions = async (
   buyOrder: FuturesOrder,
@@ -75,6 +85,11 @@ const updateSinglePosition = async (
   amount: bigint,
   matchedPrice: bigint
 ): Promise<void> => {
+  if (order.reduceOnly) {
+    await reduceOppositePosition(order, amount, matchedPrice);
+    return;
+  }
+
   const position = await getPosition(order.userId, order.symbol, order.side);
 
   if (position) {
@@ -111,12 +126,110 @@ const updateExistingPosition = async (
     position.id,
     scaledNewEntryPrice,
     scaledNewAmount,
+    position.margin + getFilledMargin(order, amount),
     unrealizedPnl,
     position.stopLossPrice,
     position.takeProfitPrice
   );
 };
 
+// A reduce-only fill closes part of the position on the opposite side,
+// releasing its share of the margin together with the realized PnL. The
+// closed part is claimed with a conditional update before anything is paid,
+// so a liquidation or another close of the same position is never paid too.
+const reduceOppositePosition = async (
+  order: FuturesOrder,
+  amount: bigint,
+  matchedPrice: bigint
+): Promise<void> => {
+  if (!updateWalletBalance) {
+    throw new Error("Ecosystem extension not available for wallet operations");
+  }
+
+  for (let attempt = 0; attempt < REDUCE_ATTEMPTS; attempt++) {
+    const position = await getPosition(
+      order.userId,
+      order.symbol,
+      order.side === "BUY" ? "SELL" : "BUY"
+    );
+    if (!position || position.amount <= BigInt(0)) {
+      throw new Error(
+        `No position to reduce for user ${order.userId} and symbol ${order.symbol}`
+      );
+    }
+
+    const closedAmount = amount < position.amount ? amount : position.amount;
+    const releasedMargin = (position.margin * closedAmount) / position.amount;
+    const realizedPnl = calculateUnrealizedPnl(
+      position.entryPrice,
+      closedAmount,
+      matchedPrice,
+      position.side as Side
+    );
+    const remainingAmount = position.amount - closedAmount;
+    const margin = position.margin - releasedMargin;
+    const closed = remainingAmount <= BigInt(0);
+
+    const settled = closed
+      ? await settlePosition(
+          position,
+          position.amount,
+          position.margin,
+          "CLOSED"
+        )
+      : await settlePosition(
+          position,
+          remainingAmount,
+          margin,
+          "OPEN",
+          calculateUnrealizedPnl(
+            position.entryPrice,
+            remainingAmount,
+            matchedPrice,
+            position.side as Side
+          )
+        );
+    if (!settled) continue;
+
+    const payout = scaleDown(releasedMargin + realizedPnl);
+    const wallet = await getWallet(
+      order.userId,
+      FUTURES_WALLET_TYPE,
+      order.symbol.split("/")[1]
+    );
+    if (payout > 0) {
+      await updateWalletBalance(wallet, payout, "add");
+    } else if (payout < 0 && position.marginMode === "CROSS") {
+      const loss = Math.min(-payout, wallet.balance);
+      if (loss > 0) {
+        await updateWalletBalance(wallet, loss, "subtract");
+      }
+    }
+
+    if (closed) {
+      await handlePositionBroadcast({
+        ...position,
+        amount: BigInt(0),
+        margin: BigInt(0),
+        status: "CLOSED",
+      });
+    }
+
+    // Orders are capped to the position when they are matched, so this only
+    // happens when the position shrank while the fill was being settled
+    if (amount > closedAmount) {
+      throw new Error(
+        `Reduce-only order ${order.id} filled ${scaleDown(amount - closedAmount)} ${order.symbol} beyond the position it closed`
+      );
+    }
+    return;
+  }
+
+  throw new Error(
+    `Position of user ${order.userId} in ${order.symbol} kept changing, reduce-only fill of order ${order.id} was not settled`
+  );
+};
+
 const createNewPosition = async (
   order: FuturesOrder,
   amount: bigint,
@@ -136,6 +249,8 @@ const createNewPosition = async (
     order.price,
     amount,
     order.leverage,
+    order.marginMode === "CROSS" ? "CROSS" : "ISOLATED",
+    getFilledMargin(order, amount),
     unrealizedPnl,
     order.stopLossPrice,
     order.takeProfitPrice
@@ -25,6 +25,7 @@ try {
 import { makeUuid } from "@b/utils/passwords";
 import { FuturesMatchingEngine } from "../matchingEngine";
 import { getOrderbookEntry } from "./orderbook";
+import type { MarginMode } from "./positions";
 import { stringify as uuidStringify } from "uuid";
 
 interface Uuid {
@@ -38,6 +39,8 @@ export interface FuturesOrder {
   symbol: string;
   type: string;
   timeInForce?: string;
+  postOnly?: boolean;
+  reduceOnly?: boolean;
   side: string;
   price: bigint;
   average?: bigint;
@@ -52,6 +55,7 @@ export interface FuturesOrder {
   createdAt: Date;
   updatedAt: Date;
   leverage: number;
+  marginMode?: MarginMode;
   stopLossPrice?: bigint;
   takeProfitPrice?: bigint;
 }
@@ -125,6 +129,8 @@ function mapRowToOrder(row: any): FuturesOrder {
     filled: row.filled,
     remaining: row.remaining,
     timeInForce: row.timeInForce,
+    postOnly: row.postOnly ?? false,
+    reduceOnly: row.reduceOnly ?? false,
     cost: row.cost,
     fee: row.fee,
     feeCurrency: row.feeCurrency,
@@ -134,6 +140,7 @@ function mapRowToOrder(row: any): FuturesOrder {
     createdAt: row.createdAt,
     updatedAt: row.updatedAt,
     leverage: row.leverage,
+    marginMode: row.marginMode,
     stopLossPrice: row.stopLossPrice,
     takeProfitPrice: row.takeProfitPrice,
   };
@@ -246,8 +253,12 @@ export async function createOrder({
   fee,
   feeCurrency,
   leverage,
+  marginMode,
   stopLossPrice,
   takeProfitPrice,
+  timeInForce = "GTC",
+  postOnly = false,
+  reduceOnly = false,
 }: {
   userId: string;
   symbol: string;
@@ -259,21 +270,27 @@ export async function createOrder({
   fee: bigint;
   feeCurrency: string;
   leverage: number;
+  marginMode: MarginMode;
   stopLossPrice?: bigint;
   takeProfitPrice?: bigint;
+  timeInForce?: string;
+  postOnly?: boolean;
+  reduceOnly?: boolean;
 }): Promise<FuturesOrder> {
   if (!client || !scyllaFuturesKeyspace || !removeTolerance) {
     throw new Error("Ecosystem extension not available");
   }
 
   const currentTimestamp = new Date();
-  const leveragedAmount = applyLeverage(amount, leverage);
+  // Reduce-only orders are sized in position units and carry no leverage
+  const leveragedAmount = reduceOnly ? amount : applyLeverage(amount, leverage);
   const query = `
     INSERT INTO ${scyllaFuturesKeyspace}.orders (
-      id, "userId", symbol, type, "timeInForce", side, price, average,
-      amount, filled, remaining, cost, leverage, fee, "feeCurrency", status,
-      "stopLossPrice", "takeProfitPrice", "createdAt", "updatedAt"
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+      id, "userId", symbol, type, "timeInForce", "postOnly", "reduceOnly", side,
+      price, average, amount, filled, remaining, cost, leverage, "marginMode",
+      fee, "feeCurrency", status, "stopLossPrice", "takeProfitPrice",
+      "createdAt", "updatedAt"
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
   `;
   const priceTolerance = removeTolerance(price);
   const amountTolerance = removeTolerance(leveragedAmount); // Use leveraged amount
@@ -291,7 +308,9 @@ export async function createOrder({
     userId,
     symbol,
     type,
-    "GTC",
+    timeInForce,
+    postOnly,
+    reduceOnly,
     side,
     priceTolerance.toString(),
     "0", // average
@@ -300,6 +319,7 @@ export async function createOrder({
     amountTolerance.toString(), // remaining
     costTolerance.toString(),
     leverage.toString(), // leverage as string
+    marginMode,
     feeTolerance.toString(),
     feeCurrency,
     "OPEN",
@@ -319,7 +339,9 @@ export async function createOrder({
       userId,
       symbol,
       type,
-      timeInForce: "GTC",
+      timeInForce,
+      postOnly,
+      reduceOnly,
       side,
       price: priceTolerance,
       amount: amountTolerance,
@@ -334,6 +356,7 @@ export async function createOrder({
       createdAt: currentTimestamp,
       updatedAt: currentTimestamp,
       leverage,
+      marginMode,
       stopLossPrice: stopLossTolerance,
       takeProfitPrice: takeProfitTolerance,
     };
@@ -11,6 +11,8 @@ try {
 import { makeUuid } from "@b/utils/passwords";
 import { uuidToString } from "./order";
 
+export type MarginMode = "ISOLATED" | "CROSS";
+
 export interface FuturesPosition {
   id: string;
   userId: string;
@@ -19,6 +21,10 @@ export interface FuturesPosition {
   entryPrice: bigint;
   amount: bigint;
   leverage: number;
+  marginMode: MarginMode;
+  margin: bigint;
+  // Margin as stored, null on positions opened before margin was tracked
+  storedMargin?: bigint | null;
   unrealizedPnl: bigint;
   stopLossPrice?: bigint;
   takeProfitPrice?: bigint;
@@ -27,6 +33,43 @@ export interface FuturesPosition {
   updatedAt: Date;
 }
 
+const SCALE_FACTOR = BigInt(10 ** 18);
+
+function mapRowToPosition(row: any): FuturesPosition {
+  const entryPrice = BigInt(row.entryPrice);
+  const amount = BigInt(row.amount);
+  const leverage = Number(row.leverage);
+  return {
+    id: uuidToString(row.id),
+    userId: uuidToString(row.userId),
+    symbol: row.symbol,
+    side: row.side,
+    entryPrice,
+    amount,
+    leverage,
+    marginMode: row.marginMode === "CROSS" ? "CROSS" : "ISOLATED",
+    // Positions opened before margin was tracked hold their initial margin
+    margin:
+      row.margin !== null && row.margin !== undefined
+        ? BigInt(row.margin)
+        : (entryPrice * amount) /
+          SCALE_FACTOR /
+          BigInt(Math.max(1, Math.floor(leverage))),
+    storedMargin:
+      row.margin !== null && row.margin !== undefined
+        ? BigInt(row.margin)
+        : null,
+    unrealizedPnl: BigInt(row.unrealizedPnl),
+    stopLossPrice: row.stopLossPrice ? BigInt(row.stopLossPrice) : undefined,
+    takeProfitPrice: row.takeProfitPrice
+      ? BigInt(row.takeProfitPrice)
+      : undefined,
+    status: row.status,
+    createdAt: new Date(row.createdAt),
+    updatedAt: new Date(row.updatedAt),
+  };
+}
+
 export async function getPosition(
   userId: string,
   symbol: string,
@@ -45,26 +88,7 @@ export async function getPosition(
   try {
     const result = await client.execute(query, params, { prepare: true });
     if (result.rows.length > 0) {
-      const row = result.rows[0];
-      return {
-        id: uuidToString(row.id),
-        userId: uuidToString(row.userId),
-        symbol: row.symbol,
-        side: row.side,
-        entryPrice: BigInt(row.entryPrice),
-        amount: BigInt(row.amount),
-        leverage: Number(row.leverage),
-        unrealizedPnl: BigInt(row.unrealizedPnl),
-        stopLossPrice: row.stopLossPrice
-          ? BigInt(row.stopLossPrice)
-          : undefined,
-        takeProfitPrice: row.takeProfitPrice
-          ? BigInt(row.takeProfitPrice)
-          : undefined,
-        status: row.status,
-        createdAt: new Date(row.createdAt),
-        updatedAt: new Date(row.updatedAt),
-      };
+      return mapRowToPosition(result.rows[0]);
     }
     return null;
   } catch (error) {
@@ -102,29 +126,37 @@ export async function getPositions(
 
   try {
     const result = await client.execute(query, params, { prepare: true });
-    return result.rows.map((row) => ({
-      id: uuidToString(row.id),
-      userId: uuidToString(row.userId),
-      symbol: row.symbol,
-      side: row.side,
-      entryPrice: BigInt(row.entryPrice),
-      amount: BigInt(row.amount),
-      leverage: Number(row.leverage),
-      unrealizedPnl: BigInt(row.unrealizedPnl),
-      stopLossPrice: row.stopLossPrice ? BigInt(row.stopLossPrice) : undefined,
-      takeProfitPrice: row.takeProfitPrice
-        ? BigInt(row.takeProfitPrice)
-        : undefined,
-      status: row.status,
-      createdAt: new Date(row.createdAt),
-      updatedAt: new Date(row.updatedAt),
-    }));
+    return result.rows.map(mapRowToPosition);
   } catch (error) {
     console.error(`Failed to fetch positions: ${error.message}`);
     throw new Error(`Failed to fetch positions: ${error.message}`);
   }
 }
 
+export async function getPositionById(
+  userId: string,
+  id: string
+): Promise<FuturesPosition | null> {
+  if (!client || !scyllaFuturesKeyspace) {
+    throw new Error("Ecosystem extension not available");
+  }
+
+  const query = `
+    SELECT * FROM ${scyllaFuturesKeyspace}.position
+    WHERE "userId" = ? AND id = ?;
+  `;
+
+  try {
+    const result = await client.execute(query, [userId, id], {
+      prepare: true,
+    });
+    return result.rows.length > 0 ? mapRowToPosition(result.rows[0]) : null;
+  } catch (error) {
+    console.error(`Failed to fetch position: ${error.message}`);
+    throw new Error(`Failed to fetch position: ${error.message}`);
+  }
+}
+
 export async function getAllOpenPositions(): Promise<FuturesPosition[]> {
   if (!client || !scyllaFuturesKeyspace) {
     throw new Error("Ecosystem extension not available");
@@ -136,23 +168,7 @@ export async function getAllOpenPositions(): Promise<FuturesPosition[]> {
 
   try {
     const result = await client.execute(query, [], { prepare: true });
-    return result.rows.map((row) => ({
-      id: uuidToString(row.id),
-      userId: uuidToString(row.userId),
-      symbol: row.symbol,
-      side: row.side,
-      entryPrice: BigInt(row.entryPrice),
-      amount: BigInt(row.amount),
-      leverage: Number(row.leverage),
-      unrealizedPnl: BigInt(row.unrealizedPnl),
-      stopLossPrice: row.stopLossPrice ? BigInt(row.stopLossPrice) : undefined,
-      takeProfitPrice: row.takeProfitPrice
-        ? BigInt(row.takeProfitPrice)
-        : undefined,
-      status: row.status,
-      createdAt: new Date(row.createdAt),
-      updatedAt: new Date(row.updatedAt),
-    }));
+    return result.rows.map(mapRowToPosition);
   } catch (error) {
     console.error(`Failed to fetch open positions: ${error.message}`);
     throw new Error(`Failed to fetch open positions: ${error.message}`);
@@ -166,6 +182,8 @@ export async function createPosition(
   entryPrice: bigint,
   amount: bigint,
   leverage: number,
+  marginMode: MarginMode,
+  margin: bigint,
   unrealizedPnl: bigint,
   stopLossPrice?: bigint,
   takeProfitPrice?: bigint
@@ -175,8 +193,8 @@ export async function createPosition(
   }
 
   const query = `
-    INSERT INTO ${scyllaFuturesKeyspace}.position (id, "userId", symbol, side, "entryPrice", amount, leverage, "unrealizedPnl", "stopLossPrice", "takeProfitPrice", status, "createdAt", "updatedAt")
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'OPEN', ?, ?);
+    INSERT INTO ${scyllaFuturesKeyspace}.position (id, "userId", symbol, side, "entryPrice", amount, leverage, "marginMode", margin, "unrealizedPnl", "stopLossPrice", "takeProfitPrice", status, "createdAt", "updatedAt")
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'OPEN', ?, ?);
   `;
   const params = [
     makeUuid(),
@@ -186,6 +204,8 @@ export async function createPosition(
     entryPrice.toString(),
     amount.toString(),
     leverage,
+    marginMode,
+    margin.toString(),
     unrealizedPnl.toString(),
     stopLossPrice?.toString() || null,
     takeProfitPrice?.toString() || null,
@@ -206,6 +226,7 @@ export async function updatePositionInDB(
   id: string,
   entryPrice: bigint,
   amount: bigint,
+  margin: bigint,
   unrealizedPnl: bigint,
   stopLossPrice?: bigint,
   takeProfitPrice?: bigint
@@ -216,12 +237,13 @@ export async function updatePositionInDB(
 
   const query = `
     UPDATE ${scyllaFuturesKeyspace}.position
-    SET "entryPrice" = ?, amount = ?, "unrealizedPnl" = ?, "stopLossPrice" = ?, "takeProfitPrice" = ?, "updatedAt" = ?
+    SET "entryPrice" = ?, amount = ?, margin = ?, "unrealizedPnl" = ?, "stopLossPrice" = ?, "takeProfitPrice" = ?, "updatedAt" = ?
     WHERE "userId" = ? AND id = ?;
   `;
   const params = [
     entryPrice.toString(),
     amount.toString(),
+    margin.toString(),
     unrealizedPnl.toString(),
     stopLossPrice?.toString() || null,
     takeProfitPrice?.toString() || null,
@@ -261,3 +283,94 @@ export async function updatePositionStatus(
     throw new Error(`Failed to update position status: ${error.message}`);
   }
 }
+
+// Positions built outside this module carry no stored margin of their own
+function storedMarginOf(position: FuturesPosition): string | null {
+  const margin =
+    position.storedMargin === undefined
+      ? position.margin
+      : position.storedMargin;
+  return margin === null ? null : margin.toString();
+}
+
+/**
+ * Sets the margin of a position that is still open with the margin it was
+ * read with, so parallel adjustments and a liquidation cannot both act on
+ * the same margin. Returns whether the update was applied.
+ */
+export async function updatePositionMargin(
+  position: FuturesPosition,
+  margin: bigint
+): Promise<boolean> {
+  if (!client || !scyllaFuturesKeyspace) {
+    throw new Error("Ecosystem extension not available");
+  }
+
+  const query = `
+    UPDATE ${scyllaFuturesKeyspace}.position
+    SET margin = ?, "updatedAt" = ?
+    WHERE "userId" = ? AND id = ?
+    IF status = ? AND margin = ?;
+  `;
+  const params = [
+    margin.toString(),
+    new Date(),
+    position.userId,
+    position.id,
+    "OPEN",
+    storedMarginOf(position),
+  ];
+
+  try {
+    const result = await client.execute(query, params, { prepare: true });
+    return result.wasApplied();
+  } catch (error) {
+    console.error(`Failed to update position margin: ${error.message}`);
+    throw new Error(`Failed to update position margin: ${error.message}`);
+  }
+}
+
+/**
+ * Sets the amount, margin and status of a position that is still open with
+ * the amount and margin it was read with, so a liquidation, auto-deleveraging
+ * and closing orders never settle the same amount twice. Returns whether the
+ * update was applied.
+ */
+export async function settlePosition(
+  position: FuturesPosition,
+  amount: bigint,
+  margin: bigint,
+  status: string,
+  unrealizedPnl: bigint = position.unrealizedPnl
+): Promise<boolean> {
+  if (!client || !scyllaFuturesKeyspace) {
+    throw new Error("Ecosystem extension not available");
+  }
+
+  const query = `
+    UPDATE ${scyllaFuturesKeyspace}.position
+    SET amount = ?, margin = ?, status = ?, "unrealizedPnl" = ?, "updatedAt" = ?
+    WHERE "userId" = ? AND id = ?
+    IF status = ? AND amount = ? AND margin = ?;
+  `;
+  const params = [
+    amount.toString(),
+    margin.toString(),
+    status,
+    unrealizedPnl.toString(),
+    new Date(),
+    position.userId,
+    position.id,
+    "OPEN",
+    position.amount.toString(),
+    storedMarginOf(position),
+  ];
+
+  try {
+    const result = await client.execute(query, params, { prepare: true });
+    return result.wasApplied();
+  } catch (error) {
+    console.error(`Failed to settle position: ${error.message}`);
+    throw new Error(`Failed to settle position: ${error.message}`);
+  }
+}
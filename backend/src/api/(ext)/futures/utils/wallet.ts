@@ -1,5 +1,6 @@
 import { logError } from "../../../../utils/logger";
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { Transaction } from "sequelize";
 
 export async function getUserWalletByCurrency(
   userId: string,
@@ -26,3 +27,39 @@ export async function getUserWalletByCurrency(
     throw error;
   }
 }
+
+/**
+ * Moves funds in or out of a wallet under a row lock, so parallel changes to
+ * the same wallet apply one after the other instead of each writing a balance
+ * computed from the same read. Pass `transaction` to make the change part of
+ * a larger one. Throws when a debit exceeds the balance; returns the new
+ * balance otherwise.
+ */
+export async function changeWalletBalance(
+  walletId: string,
+  amount: number,
+  type: "add" | "subtract",
+  transaction?: Transaction
+): Promise<number> {
+  if (!transaction) {
+    return sequelize.transaction((t) =>
+      changeWalletBalance(walletId, amount, type, t)
+    );
+  }
+
+  const wallet = await models.wallet.findByPk(walletId, {
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!wallet) {
+    throw new Error("Wallet not found");
+  }
+  if (type === "subtract" && wallet.balance < amount) {
+    throw new Error("Insufficient funds");
+  }
+
+  const change = type === "add" ? amount : -amount;
+  const balance = Math.round((wallet.balance + change) * 1e8) / 1e8;
+  await wallet.update({ balance }, { transaction });
+  return balance;
+}
@@ -159,6 +159,8 @@ export async function handlePositionBroadcast(position: any) {
     ...position,
     entryPrice: fromBigInt(position.entryPrice),
     amount: fromBigInt(position.amount),
+    margin:
+      position.margin !== undefined ? fromBigInt(position.margin) : undefined,
     unrealizedPnl: fromBigInt(position.unrealizedPnl),
     stopLossPrice: position.stopLossPrice
       ? fromBigInt(position.stopLossPrice)
@@ -168,6 +168,7 @@ export const metadata = {
   operationId: "createIcoOffering",
   tags: ["ICO", "Offerings"],
   requiresAuth: true,
+  kycFeature: "create_ico",
   requestBody: {
     required: true,
     content: {
@@ -17,6 +17,7 @@ export const metadata = {
   operationId: "createIcoInvestment",
   tags: ["ICO", "Investments"],
   requiresAuth: true,
+  kycFeature: "purchase_ico",
   requestBody: {
     required: true,
     content: {
@@ -0,0 +1,134 @@
+import { models } from "@b/db";
+import { serverErrorResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "List NFT activity",
+  description:
+    "Retrieves the marketplace activity feed (mints, listings, bids, offers, sales and transfers), optionally filtered by NFT, collection, user or type.",
+  operationId: "listNftActivity",
+  tags: ["NFT", "Activity"],
+  requiresAuth: false,
+  parameters: [
+    {
+      name: "tokenId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "collectionId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "userId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "type",
+      in: "query",
+      required: false,
+      schema: {
+        type: "string",
+        enum: [
+          "MINT",
+          "TRANSFER",
+          "SALE",
+          "LIST",
+          "DELIST",
+          "BID",
+          "OFFER",
+          "BURN",
+        ],
+      },
+    },
+    {
+      name: "page",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 1 },
+    },
+    {
+      name: "limit",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 20 },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Activity retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  const page = parseInt(query.page) || 1;
+  const limit = Math.min(parseInt(query.limit) || 20, 100);
+  const offset = (page - 1) * limit;
+
+  const where: any = {};
+  if (query.tokenId) where.tokenId = query.tokenId;
+  if (query.collectionId) where.collectionId = query.collectionId;
+  if (query.type) where.type = query.type;
+  if (query.userId) {
+    where[Op.or] = [{ fromUserId: query.userId }, { toUserId: query.userId }];
+  }
+
+  const { count, rows } = await models.nftActivity.findAndCountAll({
+    where,
+    include: [
+      {
+        model: models.nftToken,
+        as: "token",
+        attributes: ["id", "name", "image"],
+      },
+      {
+        model: models.nftCollection,
+        as: "collection",
+        attributes: ["id", "name", "slug", "logoImage"],
+      },
+      {
+        model: models.user,
+        as: "fromUser",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+      {
+        model: models.user,
+        as: "toUser",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+    limit,
+    offset,
+  });
+
+  return {
+    data: rows,
+    pagination: {
+      page,
+      limit,
+      total: count,
+      totalPages: Math.ceil(count / limit),
+    },
+  };
+};
@@ -0,0 +1,81 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "List auction bids",
+  description:
+    "Retrieves the bids of an auction listing, or the authenticated user's own bids when no listing is given.",
+  operationId: "listNftBids",
+  tags: ["NFT", "Auctions"],
+  requiresAuth: true,
+  parameters: [
+    {
+      name: "listingId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "status",
+      in: "query",
+      required: false,
+      schema: {
+        type: "string",
+        enum: ["ACTIVE", "ACCEPTED", "REJECTED", "EXPIRED", "CANCELLED"],
+      },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Bids retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const where: any = {};
+  if (query.listingId) {
+    where.listingId = query.listingId;
+  } else {
+    where.bidderId = user.id;
+  }
+  if (query.status) where.status = query.status;
+
+  const bids = await models.nftBid.findAll({
+    where,
+    include: [
+      {
+        model: models.user,
+        as: "bidder",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+      {
+        model: models.nftListing,
+        as: "listing",
+        attributes: ["id", "tokenId", "status", "endTime", "currency"],
+      },
+    ],
+    order: [["amount", "DESC"]],
+    limit: 100,
+  });
+
+  return { data: bids };
+};
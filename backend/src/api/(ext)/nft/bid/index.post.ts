@@ -0,0 +1,173 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createNotification } from "@b/utils/notifications";
+import { logError } from "@b/utils/logger";
+import { createRecordResponses } from "@b/utils/query";
+import {
+  getListingWalletType,
+  getNftMarketplaceSettings,
+  lockNftFunds,
+  recordNftActivity,
+  releaseNftFunds,
+} from "../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Place an auction bid",
+  description:
+    "Places a bid on an active English auction. The bid amount is locked in the bidder's wallet and the previous highest bidder is refunded. Bids in the final minutes extend the auction when anti-sniping is enabled.",
+  operationId: "placeNftBid",
+  tags: ["NFT", "Auctions"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            listingId: { type: "string" },
+            amount: { type: "number" },
+          },
+          required: ["listingId", "amount"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Bid"),
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { listingId, amount } = body;
+  if (typeof amount !== "number" || !isFinite(amount) || amount <= 0) {
+    throw createError({
+      statusCode: 400,
+      message: "Bid amount must be greater than zero",
+    });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+
+  const { bid, outbid } = await sequelize.transaction(async (transaction) => {
+    const listing = await models.nftListing.findByPk(listingId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!listing || listing.type !== "AUCTION") {
+      throw createError({ statusCode: 404, message: "Auction not found" });
+    }
+    if (listing.status !== "ACTIVE") {
+      throw createError({ statusCode: 400, message: "Auction is not active" });
+    }
+    const now = new Date();
+    if (listing.endTime && new Date(listing.endTime) <= now) {
+      throw createError({ statusCode: 400, message: "Auction has ended" });
+    }
+    if (listing.sellerId === user.id) {
+      throw createError({
+        statusCode: 400,
+        message: "You cannot bid on your own auction",
+      });
+    }
+
+    const highestBid = await models.nftBid.findOne({
+      where: { listingId: listing.id, status: "ACTIVE" },
+      order: [["amount", "DESC"]],
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    const minimumBid = highestBid
+      ? highestBid.amount * (1 + settings.bidIncrementPercentage / 100)
+      : listing.price;
+    if (amount < minimumBid) {
+      throw createError({
+        statusCode: 400,
+        message: `Bid must be at least ${parseFloat(minimumBid.toFixed(8))} ${listing.currency}`,
+      });
+    }
+
+    const walletType = getListingWalletType(listing, settings);
+
+    await lockNftFunds(
+      user.id,
+      walletType,
+      listing.currency,
+      amount,
+      transaction
+    );
+
+    // Refund the bidder being outbid
+    if (highestBid) {
+      await releaseNftFunds(
+        highestBid.bidderId,
+        walletType,
+        highestBid.currency,
+        highestBid.amount,
+        transaction
+      );
+      await highestBid.update({ status: "REJECTED" }, { transaction });
+    }
+
+    const bid = await models.nftBid.create(
+      {
+        listingId: listing.id,
+        bidderId: user.id,
+        amount,
+        currency: listing.currency,
+        expiresAt: listing.endTime,
+        status: "ACTIVE",
+      },
+      { transaction }
+    );
+
+    // Anti-sniping: push the end time back when a bid lands in the final window
+    if (settings.enableAntiSnipe && listing.endTime) {
+      const remaining = new Date(listing.endTime).getTime() - now.getTime();
+      if (remaining < settings.antiSnipeExtension * 1000) {
+        await listing.update(
+          {
+            endTime: new Date(
+              now.getTime() + settings.antiSnipeExtension * 1000
+            ),
+          },
+          { transaction }
+        );
+      }
+    }
+
+    await recordNftActivity(
+      {
+        type: "BID",
+        tokenId: listing.tokenId,
+        listingId: listing.id,
+        fromUserId: user.id,
+        price: amount,
+        currency: listing.currency,
+      },
+      transaction
+    );
+
+    return { bid, outbid: highestBid };
+  });
+
+  if (outbid && outbid.bidderId !== user.id) {
+    try {
+      await createNotification({
+        userId: outbid.bidderId,
+        relatedId: bid.listingId,
+        title: "You have been outbid",
+        message: `A higher bid of ${bid.amount} ${bid.currency} was placed. Your ${outbid.amount} ${outbid.currency} has been returned to your wallet.`,
+        type: "alert",
+      });
+    } catch (error) {
+      logError("nft_outbid_notification", error, __filename);
+    }
+  }
+
+  return bid;
+};
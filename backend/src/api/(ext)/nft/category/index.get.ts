@@ -0,0 +1,28 @@
+import { models } from "@b/db";
+import { serverErrorResponse } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "List NFT categories",
+  description: "Retrieves all active NFT categories.",
+  operationId: "listNftCategories",
+  tags: ["NFT", "Categories"],
+  requiresAuth: false,
+  responses: {
+    200: {
+      description: "Categories retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: { type: "object" } },
+        },
+      },
+    },
+    500: serverErrorResponse,
+  },
+};
+
+export default async () => {
+  return models.nftCategory.findAll({
+    where: { status: true },
+    order: [["name", "ASC"]],
+  });
+};
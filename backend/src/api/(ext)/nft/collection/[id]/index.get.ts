@@ -0,0 +1,60 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { notFoundMetadataResponse, serverErrorResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "Get an NFT collection",
+  description: "Retrieves an NFT collection by ID or slug.",
+  operationId: "getNftCollection",
+  tags: ["NFT", "Collections"],
+  requiresAuth: false,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Collection ID or slug",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Collection retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    404: notFoundMetadataResponse("NFT Collection"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const collection = await models.nftCollection.findOne({
+    where: { [Op.or]: [{ id: params.id }, { slug: params.id }] },
+    include: [
+      {
+        model: models.user,
+        as: "creator",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+      {
+        model: models.nftCategory,
+        as: "category",
+        attributes: ["id", "name", "slug"],
+      },
+    ],
+  });
+
+  if (!collection) {
+    throw createError({ statusCode: 404, message: "Collection not found" });
+  }
+
+  return collection;
+};
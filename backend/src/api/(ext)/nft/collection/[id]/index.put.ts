@@ -0,0 +1,105 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import { getNftMarketplaceSettings } from "../../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Update an NFT collection",
+  description:
+    "Updates the descriptive fields of a collection owned by the authenticated user.",
+  operationId: "updateNftCollection",
+  tags: ["NFT", "Collections"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Collection ID",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            description: { type: "string" },
+            categoryId: { type: "string" },
+            royaltyPercentage: { type: "number" },
+            logoImage: { type: "string" },
+            bannerImage: { type: "string" },
+            featuredImage: { type: "string" },
+            website: { type: "string" },
+            discord: { type: "string" },
+            twitter: { type: "string" },
+            telegram: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT Collection"),
+};
+
+const EDITABLE_FIELDS = [
+  "description",
+  "categoryId",
+  "royaltyPercentage",
+  "logoImage",
+  "bannerImage",
+  "featuredImage",
+  "website",
+  "discord",
+  "twitter",
+  "telegram",
+];
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const collection = await models.nftCollection.findByPk(params.id);
+  if (!collection) {
+    throw createError({ statusCode: 404, message: "Collection not found" });
+  }
+  if (collection.creatorId !== user.id) {
+    throw createError({
+      statusCode: 403,
+      message: "You can only update your own collections",
+    });
+  }
+  if (collection.status === "SUSPENDED") {
+    throw createError({
+      statusCode: 403,
+      message: "Suspended collections cannot be updated",
+    });
+  }
+
+  const updates: Record<string, any> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) updates[field] = body[field];
+  }
+
+  if (updates.royaltyPercentage !== undefined) {
+    const settings = await getNftMarketplaceSettings();
+    if (
+      updates.royaltyPercentage < 0 ||
+      updates.royaltyPercentage > settings.maxRoyaltyPercentage
+    ) {
+      throw createError({
+        statusCode: 400,
+        message: `Royalty must be between 0 and ${settings.maxRoyaltyPercentage}%`,
+      });
+    }
+  }
+
+  await collection.update(updates);
+
+  return collection;
+};
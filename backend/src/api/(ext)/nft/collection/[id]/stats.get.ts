@@ -0,0 +1,105 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { notFoundMetadataResponse, serverErrorResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "Get NFT collection statistics",
+  description:
+    "Returns floor price, trading volume, item and owner counts for a collection.",
+  operationId: "getNftCollectionStats",
+  tags: ["NFT", "Collections"],
+  requiresAuth: false,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Collection ID",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Collection statistics",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              totalItems: { type: "number" },
+              owners: { type: "number" },
+              listed: { type: "number" },
+              floorPrice: { type: "number", nullable: true },
+              totalVolume: { type: "number" },
+              volume24h: { type: "number" },
+              totalSales: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+    404: notFoundMetadataResponse("NFT Collection"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const collection = await models.nftCollection.findByPk(params.id, {
+    attributes: ["id"],
+  });
+  if (!collection) {
+    throw createError({ statusCode: 404, message: "Collection not found" });
+  }
+
+  const tokenIds = (
+    await models.nftToken.findAll({
+      where: { collectionId: collection.id },
+      attributes: ["id"],
+      raw: true,
+    })
+  ).map((t) => t.id);
+
+  const since24h = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+  const [owners, listed, floorPrice, totalVolume, volume24h, totalSales] =
+    await Promise.all([
+      models.nftToken.count({
+        where: { collectionId: collection.id, ownerId: { [Op.ne]: null } },
+        distinct: true,
+        col: "ownerId",
+      }),
+      models.nftListing.count({
+        where: { tokenId: tokenIds, status: "ACTIVE" },
+      }),
+      models.nftListing.min("price", {
+        where: { tokenId: tokenIds, status: "ACTIVE", type: "FIXED_PRICE" },
+      }),
+      models.nftSale.sum("price", {
+        where: { tokenId: tokenIds, status: "COMPLETED" },
+      }),
+      models.nftSale.sum("price", {
+        where: {
+          tokenId: tokenIds,
+          status: "COMPLETED",
+          createdAt: { [Op.gte]: since24h },
+        },
+      }),
+      models.nftSale.count({
+        where: { tokenId: tokenIds, status: "COMPLETED" },
+      }),
+    ]);
+
+  return {
+    totalItems: tokenIds.length,
+    owners,
+    listed,
+    floorPrice: floorPrice ?? null,
+    totalVolume: totalVolume || 0,
+    volume24h: volume24h || 0,
+    totalSales,
+  };
+};
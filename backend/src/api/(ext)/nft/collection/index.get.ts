@@ -0,0 +1,113 @@
+import { models } from "@b/db";
+import { serverErrorResponse } from "@b/utils/query";
+import { Op, literal } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "List NFT collections",
+  description:
+    "Retrieves active NFT collections with optional search, category and creator filters.",
+  operationId: "listNftCollections",
+  tags: ["NFT", "Collections"],
+  requiresAuth: false,
+  parameters: [
+    {
+      name: "search",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+      description: "Search by collection name or symbol",
+    },
+    {
+      name: "categoryId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "creatorId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "sortBy",
+      in: "query",
+      required: false,
+      schema: { type: "string", enum: ["newest", "oldest", "name", "items"] },
+    },
+    {
+      name: "limit",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 50 },
+      description: "Maximum number of collections to return, capped at 100",
+    },
+  ],
+  responses: {
+    200: {
+      description: "Collections retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: { type: "object" } },
+        },
+      },
+    },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  const where: any = { status: "ACTIVE" };
+  if (query.search) {
+    where[Op.or] = [
+      { name: { [Op.like]: `%${query.search}%` } },
+      { symbol: { [Op.like]: `%${query.search}%` } },
+    ];
+  }
+  if (query.categoryId) where.categoryId = query.categoryId;
+  if (query.creatorId) {
+    where.creatorId = query.creatorId;
+    // Creators browsing their own collections also see drafts and pending ones
+    delete where.status;
+  }
+
+  const itemCount = literal(
+    `(SELECT COUNT(*) FROM nft_token AS t WHERE t.collectionId = nftCollection.id AND t.deletedAt IS NULL)`
+  );
+
+  let order: any = [["createdAt", "DESC"]];
+  switch (query.sortBy) {
+    case "oldest":
+      order = [["createdAt", "ASC"]];
+      break;
+    case "name":
+      order = [["name", "ASC"]];
+      break;
+    case "items":
+      order = [[itemCount, "DESC"]];
+      break;
+  }
+
+  const limit = Math.min(parseInt(query.limit) || 50, 100);
+
+  return models.nftCollection.findAll({
+    where,
+    attributes: { include: [[itemCount, "itemCount"]] },
+    include: [
+      {
+        model: models.user,
+        as: "creator",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+      {
+        model: models.nftCategory,
+        as: "category",
+        attributes: ["id", "name", "slug"],
+      },
+    ],
+    order,
+    limit,
+  });
+};
@@ -0,0 +1,133 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createRecordResponses } from "@b/utils/query";
+import { CacheManager } from "@b/utils/cache";
+import { slugify } from "@b/utils";
+import { getNftMarketplaceSettings } from "../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Create an NFT collection",
+  description:
+    "Creates a new NFT collection owned by the authenticated user. Collections require admin review when manual review is enabled.",
+  operationId: "createNftCollection",
+  tags: ["NFT", "Collections"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            symbol: { type: "string" },
+            description: { type: "string" },
+            categoryId: { type: "string" },
+            chain: { type: "string" },
+            network: { type: "string" },
+            standard: { type: "string", enum: ["ERC721", "ERC1155"] },
+            maxSupply: { type: "number" },
+            royaltyPercentage: { type: "number" },
+            logoImage: { type: "string" },
+            bannerImage: { type: "string" },
+            featuredImage: { type: "string" },
+            website: { type: "string" },
+            discord: { type: "string" },
+            twitter: { type: "string" },
+            telegram: { type: "string" },
+          },
+          required: ["name", "symbol"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Collection"),
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const {
+    name,
+    symbol,
+    description,
+    categoryId,
+    chain = "ETH",
+    network = "mainnet",
+    standard = "ERC721",
+    maxSupply,
+    royaltyPercentage = 0,
+    logoImage,
+    bannerImage,
+    featuredImage,
+    website,
+    discord,
+    twitter,
+    telegram,
+  } = body;
+
+  if (!name || !symbol) {
+    throw createError({
+      statusCode: 400,
+      message: "Collection name and symbol are required",
+    });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+  if (
+    royaltyPercentage < 0 ||
+    royaltyPercentage > settings.maxRoyaltyPercentage
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: `Royalty must be between 0 and ${settings.maxRoyaltyPercentage}%`,
+    });
+  }
+
+  if (categoryId) {
+    const category = await models.nftCategory.findByPk(categoryId);
+    if (!category || !category.status) {
+      throw createError({ statusCode: 404, message: "Category not found" });
+    }
+  }
+
+  let slug = slugify(name) || "collection";
+  if (
+    await models.nftCollection.findOne({ where: { slug }, paranoid: false })
+  ) {
+    slug = `${slug}-${Date.now().toString(36)}`;
+  }
+
+  const manualReview =
+    (await CacheManager.getInstance().getSetting("nftManualReviewRequired")) ===
+    "true";
+
+  const collection = await models.nftCollection.create({
+    name,
+    slug,
+    symbol: symbol.toUpperCase(),
+    description,
+    categoryId,
+    chain,
+    network,
+    standard,
+    maxSupply,
+    totalSupply: 0,
+    royaltyPercentage,
+    creatorId: user.id,
+    logoImage,
+    bannerImage,
+    featuredImage,
+    website,
+    discord,
+    twitter,
+    telegram,
+    isLazyMinted: true,
+    status: manualReview ? "PENDING" : "ACTIVE",
+  });
+
+  return collection;
+};
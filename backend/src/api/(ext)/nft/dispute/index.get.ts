@@ -0,0 +1,59 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "List my NFT disputes",
+  description:
+    "Retrieves the disputes the authenticated user has opened or is a respondent in.",
+  operationId: "listMyNftDisputes",
+  tags: ["NFT", "Disputes"],
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Disputes retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const disputes = await models.nftDispute.findAll({
+    where: {
+      [Op.or]: [{ reporterId: user.id }, { respondentId: user.id }],
+    },
+    include: [
+      {
+        model: models.nftToken,
+        as: "token",
+        attributes: ["id", "name", "image"],
+      },
+      {
+        model: models.nftDisputeMessage,
+        as: "messages",
+        where: { isInternal: false },
+        required: false,
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+  });
+
+  return { data: disputes };
+};
@@ -0,0 +1,135 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createAdminNotification } from "@b/utils/notifications";
+import { logError } from "@b/utils/logger";
+import { createRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Open an NFT dispute",
+  description:
+    "Opens a dispute about a listing or NFT. The respondent is the seller of the listing, or the other party of the user's latest sale of the NFT.",
+  operationId: "createNftDispute",
+  tags: ["NFT", "Disputes"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            listingId: { type: "string" },
+            tokenId: { type: "string" },
+            disputeType: {
+              type: "string",
+              enum: [
+                "FAKE_NFT",
+                "COPYRIGHT_INFRINGEMENT",
+                "SCAM",
+                "NOT_RECEIVED",
+                "WRONG_ITEM",
+                "UNAUTHORIZED_SALE",
+                "OTHER",
+              ],
+            },
+            title: { type: "string" },
+            description: { type: "string" },
+            evidence: { type: "array", items: { type: "string" } },
+          },
+          required: ["disputeType", "title", "description"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Dispute"),
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { listingId, disputeType, title, description, evidence } = body;
+  let { tokenId } = body;
+  if (!listingId && !tokenId) {
+    throw createError({
+      statusCode: 400,
+      message: "A listingId or tokenId is required",
+    });
+  }
+  if (!title || !description) {
+    throw createError({
+      statusCode: 400,
+      message: "Title and description are required",
+    });
+  }
+
+  let respondentId: string | undefined;
+  if (listingId) {
+    const listing = await models.nftListing.findByPk(listingId);
+    if (!listing) {
+      throw createError({ statusCode: 404, message: "Listing not found" });
+    }
+    tokenId = listing.tokenId;
+    respondentId = listing.sellerId;
+  } else {
+    const token = await models.nftToken.findByPk(tokenId);
+    if (!token) {
+      throw createError({ statusCode: 404, message: "NFT not found" });
+    }
+    const sale = await models.nftSale.findOne({
+      where: { tokenId, buyerId: user.id, status: "COMPLETED" },
+      order: [["createdAt", "DESC"]],
+    });
+    respondentId = sale?.sellerId || token.creatorId;
+  }
+
+  if (respondentId === user.id) {
+    throw createError({
+      statusCode: 400,
+      message: "You cannot open a dispute against yourself",
+    });
+  }
+
+  const existing = await models.nftDispute.findOne({
+    where: {
+      reporterId: user.id,
+      tokenId,
+      status: ["PENDING", "INVESTIGATING", "AWAITING_RESPONSE", "ESCALATED"],
+    },
+  });
+  if (existing) {
+    throw createError({
+      statusCode: 400,
+      message: "You already have an open dispute for this NFT",
+    });
+  }
+
+  const dispute = await models.nftDispute.create({
+    listingId,
+    tokenId,
+    disputeType,
+    status: "PENDING",
+    priority: "MEDIUM",
+    reporterId: user.id,
+    respondentId,
+    title,
+    description,
+    evidence,
+  });
+
+  try {
+    await createAdminNotification(
+      "view.nft.dispute",
+      "New NFT dispute",
+      `A new ${disputeType.replace(/_/g, " ").toLowerCase()} dispute was opened: ${title}`,
+      "alert",
+      "/admin/nft/dispute"
+    );
+  } catch (error) {
+    logError("nft_dispute_notification", error, __filename);
+  }
+
+  return dispute;
+};
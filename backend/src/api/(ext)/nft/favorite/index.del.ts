@@ -0,0 +1,77 @@
+import { models, sequelize } from "@b/db";
+import { Op } from "sequelize";
+import { createError } from "@b/utils/error";
+
+export const metadata: OperationObject = {
+  summary: "Remove an NFT or collection from favorites",
+  operationId: "removeNftFavorite",
+  tags: ["NFT", "Favorites"],
+  requiresAuth: true,
+  parameters: [
+    {
+      name: "tokenId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "collectionId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            tokenId: { type: "string" },
+            collectionId: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+  responses: {
+    200: { description: "Removed from favorites" },
+    400: { description: "Invalid request" },
+    401: { description: "Unauthorized" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, body, query } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const tokenId = body?.tokenId || query?.tokenId;
+  const collectionId = body?.collectionId || query?.collectionId;
+  if (!tokenId && !collectionId) {
+    throw createError({
+      statusCode: 400,
+      message: "A tokenId or collectionId is required",
+    });
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    const removed = await models.nftFavorite.destroy({
+      where: tokenId
+        ? { userId: user.id, tokenId }
+        : { userId: user.id, collectionId, tokenId: null },
+      force: true,
+      transaction,
+    });
+    if (removed && tokenId) {
+      await models.nftToken.decrement("likes", {
+        where: { id: tokenId, likes: { [Op.gt]: 0 } },
+        transaction,
+      });
+    }
+  });
+
+  return { message: "Removed from favorites" };
+};
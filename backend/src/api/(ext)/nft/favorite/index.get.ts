@@ -0,0 +1,82 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "List favorite NFTs and collections",
+  description:
+    "Retrieves the authenticated user's favorites. When a tokenId or collectionId is given, returns whether that item is favorited instead.",
+  operationId: "listNftFavorites",
+  tags: ["NFT", "Favorites"],
+  requiresAuth: true,
+  parameters: [
+    {
+      name: "tokenId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "collectionId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description:
+        "Favorites retrieved successfully, or an object with an isFavorited flag when a tokenId or collectionId is given",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: { type: "object" } },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  if (query.tokenId || query.collectionId) {
+    const favorite = await models.nftFavorite.findOne({
+      where: {
+        userId: user.id,
+        ...(query.tokenId
+          ? { tokenId: query.tokenId }
+          : { collectionId: query.collectionId }),
+      },
+    });
+    return { isFavorited: !!favorite };
+  }
+
+  return models.nftFavorite.findAll({
+    where: { userId: user.id },
+    include: [
+      {
+        model: models.nftToken,
+        as: "token",
+        attributes: [
+          "id",
+          "name",
+          "image",
+          "collectionId",
+          "ownerId",
+          "isListed",
+        ],
+      },
+      {
+        model: models.nftCollection,
+        as: "collection",
+        attributes: ["id", "name", "slug", "logoImage", "isVerified"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+  });
+};
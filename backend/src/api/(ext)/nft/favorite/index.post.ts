@@ -0,0 +1,80 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+
+export const metadata: OperationObject = {
+  summary: "Add an NFT or collection to favorites",
+  operationId: "addNftFavorite",
+  tags: ["NFT", "Favorites"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            tokenId: { type: "string" },
+            collectionId: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+  responses: {
+    200: { description: "Added to favorites" },
+    400: { description: "Invalid request" },
+    401: { description: "Unauthorized" },
+    404: { description: "NFT or collection not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { tokenId, collectionId } = body;
+  if (!tokenId && !collectionId) {
+    throw createError({
+      statusCode: 400,
+      message: "A tokenId or collectionId is required",
+    });
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    if (tokenId) {
+      const token = await models.nftToken.findByPk(tokenId, { transaction });
+      if (!token) {
+        throw createError({ statusCode: 404, message: "NFT not found" });
+      }
+      const [, created] = await models.nftFavorite.findOrCreate({
+        where: { userId: user.id, tokenId },
+        defaults: {
+          userId: user.id,
+          tokenId,
+          collectionId: token.collectionId,
+        },
+        transaction,
+      });
+      if (created) {
+        await token.increment("likes", { transaction });
+      }
+      return;
+    }
+
+    const collection = await models.nftCollection.findByPk(collectionId, {
+      transaction,
+    });
+    if (!collection) {
+      throw createError({ statusCode: 404, message: "Collection not found" });
+    }
+    await models.nftFavorite.findOrCreate({
+      where: { userId: user.id, collectionId, tokenId: null },
+      defaults: { userId: user.id, collectionId },
+      transaction,
+    });
+  });
+
+  return { message: "Added to favorites" };
+};
@@ -0,0 +1,109 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createNotification } from "@b/utils/notifications";
+import { logError } from "@b/utils/logger";
+import {
+  getListingWalletType,
+  getNftMarketplaceSettings,
+  refundListingBids,
+  settleNftSale,
+} from "../../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Buy a listed NFT",
+  description:
+    "Purchases a fixed-price listing, or an auction at its buy-now price, paying from the buyer's wallet. Royalties and marketplace fees are settled in the same transaction.",
+  operationId: "buyNftListing",
+  tags: ["NFT", "Listings"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Listing ID",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: { description: "NFT purchased successfully" },
+    400: { description: "Listing cannot be purchased" },
+    401: { description: "Unauthorized" },
+    404: { description: "Listing not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+
+  const sale = await sequelize.transaction(async (transaction) => {
+    const listing = await models.nftListing.findByPk(params.id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!listing) {
+      throw createError({ statusCode: 404, message: "Listing not found" });
+    }
+    if (listing.status !== "ACTIVE") {
+      throw createError({
+        statusCode: 400,
+        message: "This listing is no longer available",
+      });
+    }
+
+    let price: number;
+    if (listing.type === "FIXED_PRICE") {
+      price = listing.price;
+    } else if (listing.type === "AUCTION" && listing.buyNowPrice) {
+      if (listing.endTime && new Date(listing.endTime) <= new Date()) {
+        throw createError({ statusCode: 400, message: "Auction has ended" });
+      }
+      price = listing.buyNowPrice;
+    } else {
+      throw createError({
+        statusCode: 400,
+        message: "This listing cannot be bought directly",
+      });
+    }
+
+    const walletType = getListingWalletType(listing, settings);
+
+    if (listing.type === "AUCTION") {
+      await refundListingBids(listing, walletType, transaction);
+    }
+
+    return settleNftSale({
+      tokenId: listing.tokenId,
+      listingId: listing.id,
+      sellerId: listing.sellerId,
+      buyerId: user.id,
+      price,
+      currency: listing.currency,
+      walletType,
+      fundsLocked: false,
+      source: listing.type,
+      transaction,
+    });
+  });
+
+  try {
+    await createNotification({
+      userId: sale.sellerId,
+      relatedId: sale.tokenId,
+      title: "NFT Sold",
+      message: `Your NFT sold for ${sale.price} ${sale.currency}. You received ${sale.netAmount} ${sale.currency}.`,
+      type: "system",
+      link: `/nft/${sale.tokenId}`,
+    });
+  } catch (error) {
+    logError("nft_sale_notification", error, __filename);
+  }
+
+  return { message: "NFT purchased successfully", sale };
+};
@@ -0,0 +1,90 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { recordNftActivity } from "../../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Cancel an NFT listing",
+  description:
+    "Cancels an active listing owned by the authenticated user. Auctions that already received bids cannot be cancelled.",
+  operationId: "cancelNftListing",
+  tags: ["NFT", "Listings"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Listing ID",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: { description: "Listing cancelled successfully" },
+    400: { description: "Listing cannot be cancelled" },
+    401: { description: "Unauthorized" },
+    404: { description: "Listing not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    const listing = await models.nftListing.findByPk(params.id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!listing) {
+      throw createError({ statusCode: 404, message: "Listing not found" });
+    }
+    if (listing.sellerId !== user.id) {
+      throw createError({
+        statusCode: 403,
+        message: "You can only cancel your own listings",
+      });
+    }
+    if (listing.status !== "ACTIVE") {
+      throw createError({
+        statusCode: 400,
+        message: "Only active listings can be cancelled",
+      });
+    }
+
+    if (listing.type === "AUCTION") {
+      const activeBids = await models.nftBid.count({
+        where: { listingId: listing.id, status: "ACTIVE" },
+        transaction,
+      });
+      if (activeBids > 0) {
+        throw createError({
+          statusCode: 400,
+          message: "Auctions with active bids cannot be cancelled",
+        });
+      }
+    }
+
+    await listing.update({ status: "CANCELLED" }, { transaction });
+    await models.nftToken.update(
+      { isListed: false },
+      { where: { id: listing.tokenId }, transaction }
+    );
+
+    await recordNftActivity(
+      {
+        type: "DELIST",
+        tokenId: listing.tokenId,
+        listingId: listing.id,
+        fromUserId: user.id,
+        price: listing.price,
+        currency: listing.currency,
+      },
+      transaction
+    );
+  });
+
+  return { message: "Listing cancelled successfully" };
+};
@@ -0,0 +1,81 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { notFoundMetadataResponse, serverErrorResponse } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Get an NFT listing",
+  description: "Retrieves a marketplace listing with its NFT and active bids.",
+  operationId: "getNftListing",
+  tags: ["NFT", "Listings"],
+  requiresAuth: false,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Listing ID",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Listing retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    404: notFoundMetadataResponse("NFT Listing"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const listing = await models.nftListing.findByPk(params.id, {
+    include: [
+      {
+        model: models.nftToken,
+        as: "token",
+        include: [
+          {
+            model: models.nftCollection,
+            as: "collection",
+            attributes: ["id", "name", "slug", "logoImage", "isVerified"],
+          },
+        ],
+      },
+      {
+        model: models.user,
+        as: "seller",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+      {
+        model: models.nftBid,
+        as: "bids",
+        required: false,
+        separate: true,
+        where: { status: "ACTIVE" },
+        order: [["amount", "DESC"]],
+        include: [
+          {
+            model: models.user,
+            as: "bidder",
+            attributes: ["id", "firstName", "lastName", "avatar"],
+          },
+        ],
+      },
+    ],
+  });
+
+  if (!listing) {
+    throw createError({ statusCode: 404, message: "Listing not found" });
+  }
+
+  await listing.increment("views");
+
+  return listing;
+};
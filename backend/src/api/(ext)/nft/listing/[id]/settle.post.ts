@@ -0,0 +1,65 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { settleNftAuction } from "../../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Settle an ended NFT auction",
+  description:
+    "Settles an auction whose end time has passed. The highest bid wins if it meets the reserve price; otherwise all bids are refunded. Can be called by the seller or any bidder.",
+  operationId: "settleNftAuction",
+  tags: ["NFT", "Listings", "Auctions"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Listing ID",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: { description: "Auction settled" },
+    400: { description: "Auction cannot be settled yet" },
+    401: { description: "Unauthorized" },
+    403: { description: "Not a participant of this auction" },
+    404: { description: "Listing not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const listing = await models.nftListing.findByPk(params.id, {
+    attributes: ["id", "sellerId"],
+  });
+  if (!listing) {
+    throw createError({ statusCode: 404, message: "Listing not found" });
+  }
+
+  if (listing.sellerId !== user.id) {
+    const hasBid = await models.nftBid.count({
+      where: { listingId: listing.id, bidderId: user.id },
+    });
+    if (!hasBid) {
+      throw createError({
+        statusCode: 403,
+        message: "Only the seller or a bidder can settle this auction",
+      });
+    }
+  }
+
+  const sale = await sequelize.transaction((transaction) =>
+    settleNftAuction(listing.id, transaction)
+  );
+
+  return sale
+    ? { message: "Auction settled successfully", sale }
+    : {
+        message: "Auction ended without a winning bid; all bids were refunded",
+      };
+};
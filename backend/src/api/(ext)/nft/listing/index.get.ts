@@ -0,0 +1,168 @@
+import { models } from "@b/db";
+import { serverErrorResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "List NFT marketplace listings",
+  description:
+    "Retrieves marketplace listings with pagination. Defaults to active listings.",
+  operationId: "listNftListings",
+  tags: ["NFT", "Listings"],
+  requiresAuth: false,
+  parameters: [
+    {
+      name: "type",
+      in: "query",
+      required: false,
+      schema: { type: "string", enum: ["FIXED_PRICE", "AUCTION"] },
+    },
+    {
+      name: "status",
+      in: "query",
+      required: false,
+      schema: {
+        type: "string",
+        enum: ["ACTIVE", "SOLD", "CANCELLED", "EXPIRED"],
+      },
+    },
+    {
+      name: "sellerId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "collectionId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "currency",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "minPrice",
+      in: "query",
+      required: false,
+      schema: { type: "number" },
+    },
+    {
+      name: "maxPrice",
+      in: "query",
+      required: false,
+      schema: { type: "number" },
+    },
+    {
+      name: "sortBy",
+      in: "query",
+      required: false,
+      schema: {
+        type: "string",
+        enum: ["newest", "price_asc", "price_desc", "ending_soon"],
+      },
+    },
+    {
+      name: "page",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 1 },
+    },
+    {
+      name: "limit",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 20 },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Listings retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              pagination: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  const page = parseInt(query.page) || 1;
+  const limit = Math.min(parseInt(query.limit) || 20, 100);
+  const offset = (page - 1) * limit;
+
+  const where: any = { status: query.status || "ACTIVE" };
+  if (query.type) where.type = query.type;
+  if (query.sellerId) where.sellerId = query.sellerId;
+  if (query.currency) where.currency = query.currency;
+  if (query.minPrice || query.maxPrice) {
+    where.price = {};
+    if (query.minPrice) where.price[Op.gte] = parseFloat(query.minPrice);
+    if (query.maxPrice) where.price[Op.lte] = parseFloat(query.maxPrice);
+  }
+
+  let order: any = [["createdAt", "DESC"]];
+  switch (query.sortBy) {
+    case "price_asc":
+      order = [["price", "ASC"]];
+      break;
+    case "price_desc":
+      order = [["price", "DESC"]];
+      break;
+    case "ending_soon":
+      order = [["endTime", "ASC"]];
+      break;
+  }
+
+  const { count, rows } = await models.nftListing.findAndCountAll({
+    where,
+    include: [
+      {
+        model: models.nftToken,
+        as: "token",
+        required: true,
+        ...(query.collectionId
+          ? { where: { collectionId: query.collectionId } }
+          : {}),
+        include: [
+          {
+            model: models.nftCollection,
+            as: "collection",
+            attributes: ["id", "name", "slug", "logoImage", "isVerified"],
+          },
+        ],
+      },
+      {
+        model: models.user,
+        as: "seller",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+    ],
+    order,
+    limit,
+    offset,
+    distinct: true,
+  });
+
+  return {
+    data: rows,
+    pagination: {
+      page,
+      limit,
+      total: count,
+      totalPages: Math.ceil(count / limit),
+    },
+  };
+};
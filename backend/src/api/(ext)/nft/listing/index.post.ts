@@ -0,0 +1,199 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createRecordResponses } from "@b/utils/query";
+import {
+  getNftMarketplaceSettings,
+  recordNftActivity,
+} from "../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "List an NFT for sale",
+  description:
+    "Creates a fixed-price listing or an English auction for an NFT owned by the authenticated user.",
+  operationId: "createNftListing",
+  tags: ["NFT", "Listings"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            tokenId: { type: "string" },
+            type: { type: "string", enum: ["FIXED_PRICE", "AUCTION"] },
+            price: {
+              type: "number",
+              description: "Fixed price, or starting price for auctions",
+            },
+            currency: { type: "string" },
+            reservePrice: { type: "number" },
+            buyNowPrice: { type: "number" },
+            duration: {
+              type: "number",
+              description: "Auction duration in seconds",
+            },
+          },
+          required: ["tokenId", "price", "currency"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Listing"),
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const {
+    tokenId,
+    type = "FIXED_PRICE",
+    price,
+    currency,
+    reservePrice,
+    buyNowPrice,
+    duration,
+  } = body;
+
+  if (!["FIXED_PRICE", "AUCTION"].includes(type)) {
+    throw createError({ statusCode: 400, message: "Invalid listing type" });
+  }
+  if (typeof price !== "number" || !isFinite(price) || price <= 0) {
+    throw createError({
+      statusCode: 400,
+      message: "Price must be greater than zero",
+    });
+  }
+  if (!currency) {
+    throw createError({ statusCode: 400, message: "Currency is required" });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+
+  let startTime: Date | undefined;
+  let endTime: Date | undefined;
+
+  if (type === "FIXED_PRICE" && !settings.enableFixedPriceSales) {
+    throw createError({
+      statusCode: 400,
+      message: "Fixed-price sales are currently disabled",
+    });
+  }
+
+  if (type === "AUCTION") {
+    if (!settings.enableAuctions) {
+      throw createError({
+        statusCode: 400,
+        message: "Auctions are currently disabled",
+      });
+    }
+    if (
+      typeof duration !== "number" ||
+      duration < settings.minAuctionDuration ||
+      duration > settings.maxAuctionDuration
+    ) {
+      throw createError({
+        statusCode: 400,
+        message: `Auction duration must be between ${settings.minAuctionDuration} and ${settings.maxAuctionDuration} seconds`,
+      });
+    }
+    if (reservePrice !== undefined && reservePrice < price) {
+      throw createError({
+        statusCode: 400,
+        message: "Reserve price cannot be lower than the starting price",
+      });
+    }
+    if (buyNowPrice !== undefined && buyNowPrice <= price) {
+      throw createError({
+        statusCode: 400,
+        message: "Buy-now price must be higher than the starting price",
+      });
+    }
+    startTime = new Date();
+    endTime = new Date(startTime.getTime() + duration * 1000);
+  }
+
+  const sellerWallet = await models.wallet.findOne({
+    where: { userId: user.id, type: settings.walletType, currency },
+    attributes: ["id"],
+  });
+  if (!sellerWallet) {
+    throw createError({
+      statusCode: 400,
+      message: `You need a ${currency} wallet to receive the proceeds of this sale`,
+    });
+  }
+
+  return await sequelize.transaction(async (transaction) => {
+    const token = await models.nftToken.findByPk(tokenId, {
+      include: [{ model: models.nftCollection, as: "collection" }],
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!token) {
+      throw createError({ statusCode: 404, message: "NFT not found" });
+    }
+    if (token.ownerId !== user.id) {
+      throw createError({
+        statusCode: 403,
+        message: "You do not own this NFT",
+      });
+    }
+    if (token.status !== "MINTED") {
+      throw createError({
+        statusCode: 400,
+        message: "Only minted NFTs can be listed",
+      });
+    }
+    if (token.collection?.status !== "ACTIVE") {
+      throw createError({
+        statusCode: 400,
+        message: "This collection is not approved for trading",
+      });
+    }
+    if (token.isListed) {
+      throw createError({
+        statusCode: 400,
+        message: "This NFT is already listed",
+      });
+    }
+
+    const listing = await models.nftListing.create(
+      {
+        tokenId: token.id,
+        sellerId: user.id,
+        type,
+        price,
+        currency,
+        reservePrice: type === "AUCTION" ? reservePrice : undefined,
+        buyNowPrice: type === "AUCTION" ? buyNowPrice : undefined,
+        startTime,
+        endTime,
+        status: "ACTIVE",
+        metadata: { walletType: settings.walletType },
+      },
+      { transaction }
+    );
+
+    await token.update({ isListed: true }, { transaction });
+
+    await recordNftActivity(
+      {
+        type: "LIST",
+        tokenId: token.id,
+        collectionId: token.collectionId,
+        listingId: listing.id,
+        fromUserId: user.id,
+        price,
+        currency,
+        metadata: { listingType: type },
+      },
+      transaction
+    );
+
+    return listing;
+  });
+};
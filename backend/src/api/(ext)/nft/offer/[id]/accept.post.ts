@@ -0,0 +1,118 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createNotification } from "@b/utils/notifications";
+import { logError } from "@b/utils/logger";
+import {
+  getListingWalletType,
+  getNftMarketplaceSettings,
+  refundListingBids,
+  settleNftSale,
+} from "../../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Accept an NFT offer",
+  description:
+    "Accepts an active offer on an NFT owned by the authenticated user. Any active listing for the NFT is cancelled and the sale is settled from the offerer's locked funds.",
+  operationId: "acceptNftOffer",
+  tags: ["NFT", "Offers"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Offer ID",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: { description: "Offer accepted successfully" },
+    400: { description: "Offer cannot be accepted" },
+    401: { description: "Unauthorized" },
+    403: { description: "Forbidden" },
+    404: { description: "Offer not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+
+  const sale = await sequelize.transaction(async (transaction) => {
+    const offer = await models.nftOffer.findByPk(params.id, {
+      include: [{ model: models.nftToken, as: "token" }],
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!offer) {
+      throw createError({ statusCode: 404, message: "Offer not found" });
+    }
+    if (offer.status !== "ACTIVE") {
+      throw createError({
+        statusCode: 400,
+        message: "This offer is no longer active",
+      });
+    }
+    if (offer.expiresAt && new Date(offer.expiresAt) <= new Date()) {
+      throw createError({ statusCode: 400, message: "This offer has expired" });
+    }
+    if (!offer.token || offer.token.ownerId !== user.id) {
+      throw createError({
+        statusCode: 403,
+        message: "Only the owner of this NFT can accept offers",
+      });
+    }
+
+    const activeListing = await models.nftListing.findOne({
+      where: { tokenId: offer.tokenId, status: "ACTIVE" },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (activeListing) {
+      if (activeListing.type === "AUCTION") {
+        await refundListingBids(
+          activeListing,
+          getListingWalletType(activeListing, settings),
+          transaction
+        );
+      }
+      await activeListing.update({ status: "CANCELLED" }, { transaction });
+    }
+
+    const sale = await settleNftSale({
+      tokenId: offer.tokenId,
+      sellerId: user.id,
+      buyerId: offer.offererId,
+      price: offer.amount,
+      currency: offer.currency,
+      walletType: getListingWalletType(offer, settings),
+      fundsLocked: true,
+      source: "OFFER",
+      transaction,
+    });
+
+    await offer.update({ status: "ACCEPTED" }, { transaction });
+
+    return sale;
+  });
+
+  try {
+    await createNotification({
+      userId: sale.buyerId,
+      relatedId: sale.tokenId,
+      title: "Offer accepted",
+      message: `Your offer of ${sale.price} ${sale.currency} was accepted. The NFT is now in your collection.`,
+      type: "system",
+      link: `/nft/${sale.tokenId}`,
+    });
+  } catch (error) {
+    logError("nft_offer_notification", error, __filename);
+  }
+
+  return { message: "Offer accepted successfully", sale };
+};
@@ -0,0 +1,69 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  getListingWalletType,
+  getNftMarketplaceSettings,
+  releaseNftFunds,
+} from "../../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Cancel an NFT offer",
+  description:
+    "Cancels an active offer made by the authenticated user and returns the locked funds.",
+  operationId: "cancelNftOffer",
+  tags: ["NFT", "Offers"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Offer ID",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: { description: "Offer cancelled successfully" },
+    400: { description: "Offer cannot be cancelled" },
+    401: { description: "Unauthorized" },
+    404: { description: "Offer not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+
+  await sequelize.transaction(async (transaction) => {
+    const offer = await models.nftOffer.findOne({
+      where: { id: params.id, offererId: user.id },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!offer) {
+      throw createError({ statusCode: 404, message: "Offer not found" });
+    }
+    if (offer.status !== "ACTIVE") {
+      throw createError({
+        statusCode: 400,
+        message: "This offer is no longer active",
+      });
+    }
+
+    await releaseNftFunds(
+      user.id,
+      getListingWalletType(offer, settings),
+      offer.currency,
+      offer.amount,
+      transaction
+    );
+    await offer.update({ status: "CANCELLED" }, { transaction });
+  });
+
+  return { message: "Offer cancelled successfully" };
+};
@@ -0,0 +1,93 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createNotification } from "@b/utils/notifications";
+import { logError } from "@b/utils/logger";
+import {
+  getListingWalletType,
+  getNftMarketplaceSettings,
+  releaseNftFunds,
+} from "../../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Reject an NFT offer",
+  description:
+    "Rejects an active offer on an NFT owned by the authenticated user and returns the locked funds to the offerer.",
+  operationId: "rejectNftOffer",
+  tags: ["NFT", "Offers"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "Offer ID",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: { description: "Offer rejected successfully" },
+    400: { description: "Offer cannot be rejected" },
+    401: { description: "Unauthorized" },
+    403: { description: "Forbidden" },
+    404: { description: "Offer not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+
+  const offer = await sequelize.transaction(async (transaction) => {
+    const offer = await models.nftOffer.findByPk(params.id, {
+      include: [{ model: models.nftToken, as: "token" }],
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!offer) {
+      throw createError({ statusCode: 404, message: "Offer not found" });
+    }
+    if (!offer.token || offer.token.ownerId !== user.id) {
+      throw createError({
+        statusCode: 403,
+        message: "Only the owner of this NFT can reject offers",
+      });
+    }
+    if (offer.status !== "ACTIVE") {
+      throw createError({
+        statusCode: 400,
+        message: "This offer is no longer active",
+      });
+    }
+
+    await releaseNftFunds(
+      offer.offererId,
+      getListingWalletType(offer, settings),
+      offer.currency,
+      offer.amount,
+      transaction
+    );
+    await offer.update({ status: "REJECTED" }, { transaction });
+
+    return offer;
+  });
+
+  try {
+    await createNotification({
+      userId: offer.offererId,
+      relatedId: offer.id,
+      title: "Offer rejected",
+      message: `Your offer of ${offer.amount} ${offer.currency} was rejected and the funds were returned to your wallet.`,
+      type: "system",
+      link: `/nft/${offer.tokenId}`,
+    });
+  } catch (error) {
+    logError("nft_offer_notification", error, __filename);
+  }
+
+  return { message: "Offer rejected successfully" };
+};
@@ -0,0 +1,93 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "List NFT offers",
+  description:
+    "Retrieves the offers made on an NFT, or the authenticated user's sent or received offers.",
+  operationId: "listNftOffers",
+  tags: ["NFT", "Offers"],
+  requiresAuth: true,
+  parameters: [
+    {
+      name: "tokenId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "type",
+      in: "query",
+      required: false,
+      schema: { type: "string", enum: ["sent", "received"] },
+      description: "Used when no tokenId is given. Defaults to sent.",
+    },
+    {
+      name: "status",
+      in: "query",
+      required: false,
+      schema: {
+        type: "string",
+        enum: ["ACTIVE", "ACCEPTED", "REJECTED", "EXPIRED", "CANCELLED"],
+      },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Offers retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const where: any = {};
+  const tokenInclude: any = {
+    model: models.nftToken,
+    as: "token",
+    attributes: ["id", "name", "image", "ownerId", "collectionId"],
+  };
+
+  if (query.tokenId) {
+    where.tokenId = query.tokenId;
+  } else if (query.type === "received") {
+    tokenInclude.where = { ownerId: user.id };
+    tokenInclude.required = true;
+  } else {
+    where.offererId = user.id;
+  }
+  if (query.status) where.status = query.status;
+
+  const offers = await models.nftOffer.findAll({
+    where,
+    include: [
+      tokenInclude,
+      {
+        model: models.user,
+        as: "offerer",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+    limit: 100,
+  });
+
+  return { data: offers };
+};
@@ -0,0 +1,149 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createNotification } from "@b/utils/notifications";
+import { logError } from "@b/utils/logger";
+import { createRecordResponses } from "@b/utils/query";
+import {
+  getNftMarketplaceSettings,
+  lockNftFunds,
+  recordNftActivity,
+} from "../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Make an offer on an NFT",
+  description:
+    "Makes an offer on any NFT. The offered amount is locked in the offerer's wallet until the offer is accepted, rejected, cancelled or expires.",
+  operationId: "createNftOffer",
+  tags: ["NFT", "Offers"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            tokenId: { type: "string" },
+            amount: { type: "number" },
+            currency: { type: "string" },
+            expiresIn: {
+              type: "number",
+              description: "Offer validity in seconds (default 7 days)",
+            },
+          },
+          required: ["tokenId", "amount", "currency"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Offer"),
+};
+
+const DEFAULT_OFFER_TTL = 7 * 24 * 60 * 60;
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { tokenId, amount, currency, expiresIn = DEFAULT_OFFER_TTL } = body;
+  if (typeof amount !== "number" || !isFinite(amount) || amount <= 0) {
+    throw createError({
+      statusCode: 400,
+      message: "Offer amount must be greater than zero",
+    });
+  }
+  if (!currency) {
+    throw createError({ statusCode: 400, message: "Currency is required" });
+  }
+  if (typeof expiresIn !== "number" || expiresIn <= 0) {
+    throw createError({ statusCode: 400, message: "Invalid offer expiry" });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+  if (!settings.enableOffers) {
+    throw createError({
+      statusCode: 400,
+      message: "Offers are currently disabled",
+    });
+  }
+
+  const result = await sequelize.transaction(async (transaction) => {
+    const token = await models.nftToken.findByPk(tokenId, { transaction });
+    if (!token || token.status !== "MINTED") {
+      throw createError({ statusCode: 404, message: "NFT not found" });
+    }
+    if (token.ownerId === user.id) {
+      throw createError({
+        statusCode: 400,
+        message: "You cannot make an offer on your own NFT",
+      });
+    }
+
+    const existing = await models.nftOffer.findOne({
+      where: { tokenId: token.id, offererId: user.id, status: "ACTIVE" },
+      transaction,
+    });
+    if (existing) {
+      throw createError({
+        statusCode: 400,
+        message: "You already have an active offer on this NFT",
+      });
+    }
+
+    await lockNftFunds(
+      user.id,
+      settings.walletType,
+      currency,
+      amount,
+      transaction
+    );
+
+    const offer = await models.nftOffer.create(
+      {
+        tokenId: token.id,
+        collectionId: token.collectionId,
+        offererId: user.id,
+        amount,
+        currency,
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+        status: "ACTIVE",
+        metadata: { walletType: settings.walletType },
+      },
+      { transaction }
+    );
+
+    await recordNftActivity(
+      {
+        type: "OFFER",
+        tokenId: token.id,
+        collectionId: token.collectionId,
+        fromUserId: user.id,
+        toUserId: token.ownerId,
+        price: amount,
+        currency,
+      },
+      transaction
+    );
+
+    return { offer, ownerId: token.ownerId, tokenName: token.name };
+  });
+
+  if (result.ownerId) {
+    try {
+      await createNotification({
+        userId: result.ownerId,
+        relatedId: result.offer.id,
+        title: "New offer received",
+        message: `You received an offer of ${amount} ${currency} for ${result.tokenName}.`,
+        type: "alert",
+        link: `/nft/${tokenId}`,
+      });
+    } catch (error) {
+      logError("nft_offer_notification", error, __filename);
+    }
+  }
+
+  return result.offer;
+};
@@ -0,0 +1,113 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "List royalty payouts",
+  description:
+    "Retrieves the royalty payouts received by the authenticated user as a collection creator, with totals per currency.",
+  operationId: "listNftRoyalties",
+  tags: ["NFT", "Royalties"],
+  requiresAuth: true,
+  parameters: [
+    {
+      name: "collectionId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "page",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 1 },
+    },
+    {
+      name: "limit",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 20 },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Royalties retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+              totals: { type: "object" },
+              pagination: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const page = parseInt(query.page) || 1;
+  const limit = Math.min(parseInt(query.limit) || 20, 100);
+  const offset = (page - 1) * limit;
+
+  const where: any = { recipientId: user.id };
+  if (query.collectionId) where.collectionId = query.collectionId;
+
+  const { count, rows } = await models.nftRoyalty.findAndCountAll({
+    where,
+    include: [
+      {
+        model: models.nftToken,
+        as: "token",
+        attributes: ["id", "name", "image"],
+      },
+      {
+        model: models.nftCollection,
+        as: "collection",
+        attributes: ["id", "name", "slug", "logoImage"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+    limit,
+    offset,
+  });
+
+  const totalRows = (await models.nftRoyalty.findAll({
+    where: { ...where, status: "PAID" },
+    attributes: [
+      "currency",
+      [sequelize.fn("SUM", sequelize.col("amount")), "total"],
+    ],
+    group: ["currency"],
+    raw: true,
+  })) as any[];
+
+  const totals = totalRows.reduce(
+    (acc, row) => {
+      acc[row.currency] = parseFloat(row.total) || 0;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
+  return {
+    data: rows,
+    totals,
+    pagination: {
+      page,
+      limit,
+      total: count,
+      totalPages: Math.ceil(count / limit),
+    },
+  };
+};
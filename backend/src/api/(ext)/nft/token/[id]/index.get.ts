@@ -0,0 +1,86 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { notFoundMetadataResponse, serverErrorResponse } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Get an NFT",
+  description:
+    "Retrieves an NFT with its collection, owner, creator, active listing and recent sales.",
+  operationId: "getNftToken",
+  tags: ["NFT", "Tokens"],
+  requiresAuth: false,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "NFT ID",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    404: notFoundMetadataResponse("NFT"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const token = await models.nftToken.findByPk(params.id, {
+    include: [
+      {
+        model: models.nftCollection,
+        as: "collection",
+        include: [
+          {
+            model: models.nftCategory,
+            as: "category",
+            attributes: ["id", "name", "slug"],
+          },
+        ],
+      },
+      {
+        model: models.user,
+        as: "creator",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+      {
+        model: models.user,
+        as: "owner",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+      {
+        model: models.nftListing,
+        as: "currentListing",
+        required: false,
+      },
+      {
+        model: models.nftSale,
+        as: "sales",
+        required: false,
+        separate: true,
+        where: { status: "COMPLETED" },
+        order: [["createdAt", "DESC"]],
+        limit: 10,
+      },
+    ],
+  });
+
+  if (!token) {
+    throw createError({ statusCode: 404, message: "NFT not found" });
+  }
+
+  await token.increment("views");
+
+  return token;
+};
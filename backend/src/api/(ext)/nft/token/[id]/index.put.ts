@@ -0,0 +1,83 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Update an NFT",
+  description:
+    "Updates the metadata of an NFT. Only the creator can edit, and only while they still own it and it is not listed.",
+  operationId: "updateNftToken",
+  tags: ["NFT", "Tokens"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "NFT ID",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            description: { type: "string" },
+            image: { type: "string" },
+            animationUrl: { type: "string" },
+            externalUrl: { type: "string" },
+            attributes: { type: "array", items: { type: "object" } },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT"),
+};
+
+const EDITABLE_FIELDS = [
+  "name",
+  "description",
+  "image",
+  "animationUrl",
+  "externalUrl",
+  "attributes",
+];
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const token = await models.nftToken.findByPk(params.id);
+  if (!token) {
+    throw createError({ statusCode: 404, message: "NFT not found" });
+  }
+  if (token.creatorId !== user.id || token.ownerId !== user.id) {
+    throw createError({
+      statusCode: 403,
+      message: "Only the creator can edit an NFT they still own",
+    });
+  }
+  if (token.isListed) {
+    throw createError({
+      statusCode: 400,
+      message: "Cancel the active listing before editing this NFT",
+    });
+  }
+
+  const updates: Record<string, any> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) updates[field] = body[field];
+  }
+
+  await token.update(updates);
+
+  return token;
+};
@@ -0,0 +1,111 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { Op } from "sequelize";
+import { recordNftActivity } from "../../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Transfer an NFT",
+  description:
+    "Transfers an unlisted NFT owned by the authenticated user to another platform user, identified by user ID or email.",
+  operationId: "transferNftToken",
+  tags: ["NFT", "Tokens"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "NFT ID",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            transferToUser: {
+              type: "string",
+              description: "Recipient user ID or email",
+            },
+          },
+          required: ["transferToUser"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: { description: "NFT transferred successfully" },
+    400: { description: "Invalid transfer" },
+    401: { description: "Unauthorized" },
+    404: { description: "NFT or recipient not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { transferToUser } = body;
+  if (!transferToUser || typeof transferToUser !== "string") {
+    throw createError({ statusCode: 400, message: "Recipient is required" });
+  }
+
+  const recipient = await models.user.findOne({
+    where: {
+      [Op.or]: [{ id: transferToUser }, { email: transferToUser }],
+    },
+    attributes: ["id", "status"],
+  });
+  if (!recipient || recipient.status !== "ACTIVE") {
+    throw createError({ statusCode: 404, message: "Recipient not found" });
+  }
+  if (recipient.id === user.id) {
+    throw createError({
+      statusCode: 400,
+      message: "You cannot transfer an NFT to yourself",
+    });
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    const token = await models.nftToken.findByPk(params.id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!token) {
+      throw createError({ statusCode: 404, message: "NFT not found" });
+    }
+    if (token.ownerId !== user.id) {
+      throw createError({
+        statusCode: 403,
+        message: "You do not own this NFT",
+      });
+    }
+    if (token.isListed) {
+      throw createError({
+        statusCode: 400,
+        message: "Cancel the active listing before transferring this NFT",
+      });
+    }
+
+    await token.update({ ownerId: recipient.id }, { transaction });
+
+    await recordNftActivity(
+      {
+        type: "TRANSFER",
+        tokenId: token.id,
+        collectionId: token.collectionId,
+        fromUserId: user.id,
+        toUserId: recipient.id,
+      },
+      transaction
+    );
+  });
+
+  return { message: "NFT transferred successfully" };
+};
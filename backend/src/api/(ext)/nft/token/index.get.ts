@@ -0,0 +1,148 @@
+import { models } from "@b/db";
+import { serverErrorResponse } from "@b/utils/query";
+import { Op } from "sequelize";
+
+export const metadata: OperationObject = {
+  summary: "List NFTs",
+  description:
+    "Retrieves NFTs with optional filters for collection, creator, owner, rarity and listing state.",
+  operationId: "listNftTokens",
+  tags: ["NFT", "Tokens"],
+  requiresAuth: false,
+  parameters: [
+    {
+      name: "search",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "collectionId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "creatorId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "ownerId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "rarity",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "isListed",
+      in: "query",
+      required: false,
+      schema: { type: "boolean" },
+    },
+    {
+      name: "excludeId",
+      in: "query",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "sortBy",
+      in: "query",
+      required: false,
+      schema: {
+        type: "string",
+        enum: ["newest", "oldest", "popular", "name"],
+      },
+    },
+    {
+      name: "limit",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 50 },
+      description: "Maximum number of NFTs to return, capped at 100",
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFTs retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: { type: "object" } },
+        },
+      },
+    },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  const where: any = { status: { [Op.ne]: "BURNED" } };
+  if (query.search) where.name = { [Op.like]: `%${query.search}%` };
+  if (query.collectionId) where.collectionId = query.collectionId;
+  if (query.creatorId) where.creatorId = query.creatorId;
+  if (query.ownerId) where.ownerId = query.ownerId;
+  if (query.rarity) where.rarity = query.rarity;
+  if (query.status) where.status = query.status;
+  if (query.isListed !== undefined) where.isListed = query.isListed === "true";
+  if (query.isMinted !== undefined) where.isMinted = query.isMinted === "true";
+  if (query.excludeId) where.id = { [Op.ne]: query.excludeId };
+
+  let order: any = [["createdAt", "DESC"]];
+  switch (query.sortBy) {
+    case "oldest":
+      order = [["createdAt", "ASC"]];
+      break;
+    case "popular":
+      order = [
+        ["likes", "DESC"],
+        ["views", "DESC"],
+      ];
+      break;
+    case "name":
+      order = [["name", "ASC"]];
+      break;
+  }
+
+  const limit = Math.min(parseInt(query.limit) || 50, 100);
+
+  return models.nftToken.findAll({
+    where,
+    include: [
+      {
+        model: models.nftCollection,
+        as: "collection",
+        attributes: ["id", "name", "slug", "logoImage", "isVerified", "status"],
+        // Portfolio views include items from collections still under review
+        ...(query.creatorId || query.ownerId
+          ? {}
+          : { where: { status: "ACTIVE" } }),
+      },
+      {
+        model: models.user,
+        as: "creator",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+      {
+        model: models.user,
+        as: "owner",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+      {
+        model: models.nftListing,
+        as: "currentListing",
+        required: false,
+      },
+    ],
+    order,
+    limit,
+  });
+};
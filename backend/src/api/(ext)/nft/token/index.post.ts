@@ -0,0 +1,130 @@
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createRecordResponses } from "@b/utils/query";
+import { recordNftActivity } from "../utils/marketplace";
+
+export const metadata: OperationObject = {
+  summary: "Create an NFT",
+  description:
+    "Mints a new NFT into one of the authenticated user's collections. NFTs are lazily minted on the platform ledger and owned by the creator.",
+  operationId: "createNftToken",
+  tags: ["NFT", "Tokens"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            collectionId: { type: "string" },
+            name: { type: "string" },
+            description: { type: "string" },
+            image: { type: "string" },
+            animationUrl: { type: "string" },
+            externalUrl: { type: "string" },
+            attributes: { type: "array", items: { type: "object" } },
+            rarity: {
+              type: "string",
+              enum: ["COMMON", "UNCOMMON", "RARE", "EPIC", "LEGENDARY"],
+            },
+          },
+          required: ["collectionId", "name"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT"),
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const {
+    collectionId,
+    name,
+    description,
+    image,
+    animationUrl,
+    externalUrl,
+    attributes,
+    rarity,
+  } = body;
+
+  if (!collectionId || !name) {
+    throw createError({
+      statusCode: 400,
+      message: "Collection and name are required",
+    });
+  }
+
+  return await sequelize.transaction(async (transaction) => {
+    const collection = await models.nftCollection.findByPk(collectionId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!collection) {
+      throw createError({ statusCode: 404, message: "Collection not found" });
+    }
+    if (collection.creatorId !== user.id) {
+      throw createError({
+        statusCode: 403,
+        message: "You can only mint into your own collections",
+      });
+    }
+    if (!["ACTIVE", "DRAFT", "PENDING"].includes(collection.status)) {
+      throw createError({
+        statusCode: 400,
+        message: "This collection is not accepting new items",
+      });
+    }
+
+    const currentSupply = collection.totalSupply || 0;
+    if (collection.maxSupply && currentSupply >= collection.maxSupply) {
+      throw createError({
+        statusCode: 400,
+        message: "Collection has reached its maximum supply",
+      });
+    }
+
+    const token = await models.nftToken.create(
+      {
+        collectionId: collection.id,
+        tokenId: String(currentSupply + 1),
+        name,
+        description,
+        image,
+        animationUrl,
+        externalUrl,
+        attributes,
+        rarity,
+        creatorId: user.id,
+        ownerId: user.id,
+        status: "MINTED",
+        isMinted: true,
+        mintedAt: new Date(),
+      },
+      { transaction }
+    );
+
+    await collection.update(
+      { totalSupply: currentSupply + 1 },
+      { transaction }
+    );
+
+    await recordNftActivity(
+      {
+        type: "MINT",
+        tokenId: token.id,
+        collectionId: collection.id,
+        toUserId: user.id,
+      },
+      transaction
+    );
+
+    return token;
+  });
+};
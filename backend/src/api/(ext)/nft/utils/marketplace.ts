@@ -0,0 +1,739 @@
+import { models } from "@b/db";
+import { CacheManager } from "@b/utils/cache";
+import { createError } from "@b/utils/error";
+import { Transaction } from "sequelize";
+
+export interface NftMarketplaceSettings {
+  marketplaceFeePercentage: number;
+  maxRoyaltyPercentage: number;
+  bidIncrementPercentage: number;
+  minAuctionDuration: number; // seconds
+  maxAuctionDuration: number; // seconds
+  antiSnipeExtension: number; // seconds
+  enableAntiSnipe: boolean;
+  enableAuctions: boolean;
+  enableOffers: boolean;
+  enableFixedPriceSales: boolean;
+  walletType: "FIAT" | "SPOT" | "ECO";
+}
+
+const parseBoolean = (value: any, fallback: boolean) =>
+  value === undefined || value === null
+    ? fallback
+    : value === true || value === "true";
+
+const parseNumber = (value: any, fallback: number) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+/**
+ * Reads the NFT marketplace settings managed from the admin settings page,
+ * falling back to sensible defaults when a key has never been saved.
+ */
+export async function getNftMarketplaceSettings(): Promise<NftMarketplaceSettings> {
+  const cacheManager = CacheManager.getInstance();
+  const settings = await cacheManager.getSettings();
+
+  const walletType = settings.get("nftWalletType");
+
+  return {
+    marketplaceFeePercentage: parseNumber(
+      settings.get("nftMarketplaceFeePercentage"),
+      2.5
+    ),
+    maxRoyaltyPercentage: parseNumber(
+      settings.get("nftMaxRoyaltyPercentage"),
+      10
+    ),
+    bidIncrementPercentage: parseNumber(
+      settings.get("nftBidIncrementPercentage"),
+      5
+    ),
+    minAuctionDuration: parseNumber(
+      settings.get("nftMinAuctionDuration"),
+      3600
+    ),
+    maxAuctionDuration: parseNumber(
+      settings.get("nftMaxAuctionDuration"),
+      2592000
+    ),
+    antiSnipeExtension: parseNumber(settings.get("nftAntiSnipeExtension"), 300),
+    enableAntiSnipe: parseBoolean(settings.get("nftEnableAntiSnipe"), true),
+    enableAuctions: parseBoolean(settings.get("nftEnableAuctions"), true),
+    enableOffers: parseBoolean(settings.get("nftEnableOffers"), true),
+    enableFixedPriceSales: parseBoolean(
+      settings.get("nftEnableFixedPriceSales"),
+      true
+    ),
+    walletType: ["FIAT", "SPOT", "ECO"].includes(walletType)
+      ? walletType
+      : "SPOT",
+  };
+}
+
+/**
+ * Records an entry in the NFT activity feed.
+ */
+export async function recordNftActivity(
+  activity: nftActivityCreationAttributes,
+  transaction?: Transaction
+) {
+  return models.nftActivity.create(activity, { transaction });
+}
+
+/**
+ * Finds a user's wallet for the given currency with a row lock, creating an
+ * empty one if the user has never held that currency.
+ */
+async function getLockedWallet(
+  userId: string,
+  walletType: string,
+  currency: string,
+  transaction: Transaction,
+  createIfMissing = false
+) {
+  let wallet = await models.wallet.findOne({
+    where: { userId, type: walletType, currency },
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+
+  if (!wallet && createIfMissing) {
+    wallet = await models.wallet.create(
+      { userId, type: walletType, currency, balance: 0, inOrder: 0 },
+      { transaction }
+    );
+  }
+
+  return wallet;
+}
+
+/**
+ * Moves funds from a user's available balance into `inOrder` so they can back
+ * an auction bid or an offer until it is accepted, outbid or cancelled.
+ */
+export async function lockNftFunds(
+  userId: string,
+  walletType: string,
+  currency: string,
+  amount: number,
+  transaction: Transaction
+) {
+  const wallet = await getLockedWallet(
+    userId,
+    walletType,
+    currency,
+    transaction
+  );
+  if (!wallet) {
+    throw createError({
+      statusCode: 400,
+      message: `You don't have a ${currency} wallet`,
+    });
+  }
+
+  if (wallet.balance < amount) {
+    throw createError({
+      statusCode: 400,
+      message: `Insufficient balance. Available: ${wallet.balance} ${currency}`,
+    });
+  }
+
+  await wallet.update(
+    {
+      balance: wallet.balance - amount,
+      inOrder: (wallet.inOrder || 0) + amount,
+    },
+    { transaction }
+  );
+
+  return wallet;
+}
+
+/**
+ * Returns previously locked funds to the user's available balance.
+ */
+export async function releaseNftFunds(
+  userId: string,
+  walletType: string,
+  currency: string,
+  amount: number,
+  transaction: Transaction
+) {
+  const wallet = await getLockedWallet(
+    userId,
+    walletType,
+    currency,
+    transaction
+  );
+  if (!wallet) {
+    throw createError({
+      statusCode: 500,
+      message: `Locked ${currency} wallet not found for user ${userId}`,
+    });
+  }
+
+  await wallet.update(
+    {
+      balance: wallet.balance + amount,
+      inOrder: Math.max((wallet.inOrder || 0) - amount, 0),
+    },
+    { transaction }
+  );
+
+  return wallet;
+}
+
+interface SettleNftSaleOptions {
+  tokenId: string;
+  listingId?: string;
+  sellerId: string;
+  buyerId: string;
+  price: number;
+  currency: string;
+  walletType: string;
+  /** True when the buyer's funds were already moved to `inOrder` (bids, offers). */
+  fundsLocked: boolean;
+  source: "FIXED_PRICE" | "AUCTION" | "OFFER";
+  transaction: Transaction;
+}
+
+/**
+ * Settles an NFT sale against platform wallet balances.
+ *
+ * The buyer is debited the full price, the collection's royalty recipient is
+ * credited the royalty, the platform keeps the marketplace fee and the seller
+ * receives the remainder. Ownership of the token moves to the buyer and the
+ * sale, royalty and activity records are written in the same transaction.
+ */
+export async function settleNftSale({
+  tokenId,
+  listingId,
+  sellerId,
+  buyerId,
+  price,
+  currency,
+  walletType,
+  fundsLocked,
+  source,
+  transaction,
+}: SettleNftSaleOptions) {
+  if (sellerId === buyerId) {
+    throw createError({
+      statusCode: 400,
+      message: "You cannot buy your own NFT",
+    });
+  }
+
+  const token = await models.nftToken.findByPk(tokenId, {
+    include: [{ model: models.nftCollection, as: "collection" }],
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!token) {
+    throw createError({ statusCode: 404, message: "NFT not found" });
+  }
+  if (token.ownerId !== sellerId) {
+    throw createError({
+      statusCode: 409,
+      message: "The seller no longer owns this NFT",
+    });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+  const collection = token.collection;
+
+  const marketplaceFee = parseFloat(
+    ((price * settings.marketplaceFeePercentage) / 100).toFixed(8)
+  );
+
+  // Royalties are paid to the collection creator, except when the creator is
+  // the one selling (primary sale).
+  const royaltyPercentage = Math.min(
+    collection?.royaltyPercentage || 0,
+    settings.maxRoyaltyPercentage
+  );
+  const royaltyRecipientId = collection?.creatorId;
+  const royaltyFee =
+    royaltyRecipientId && royaltyRecipientId !== sellerId
+      ? parseFloat(((price * royaltyPercentage) / 100).toFixed(8))
+      : 0;
+
+  const totalFee = marketplaceFee + royaltyFee;
+  const netAmount = parseFloat((price - totalFee).toFixed(8));
+
+  // Debit buyer
+  const buyerWallet = await getLockedWallet(
+    buyerId,
+    walletType,
+    currency,
+    transaction
+  );
+  if (!buyerWallet) {
+    throw createError({
+      statusCode: 400,
+      message: `You don't have a ${currency} wallet`,
+    });
+  }
+
+  if (fundsLocked) {
+    if ((buyerWallet.inOrder || 0) < price) {
+      throw createError({
+        statusCode: 400,
+        message: "Buyer's locked funds are insufficient for this sale",
+      });
+    }
+    await buyerWallet.update(
+      { inOrder: buyerWallet.inOrder - price },
+      { transaction }
+    );
+  } else {
+    if (buyerWallet.balance < price) {
+      throw createError({
+        statusCode: 400,
+        message: `Insufficient balance. You need ${price} ${currency}`,
+      });
+    }
+    await buyerWallet.update(
+      { balance: buyerWallet.balance - price },
+      { transaction }
+    );
+  }
+
+  const sale = await models.nftSale.create(
+    {
+      tokenId: token.id,
+      listingId,
+      sellerId,
+      buyerId,
+      price,
+      currency,
+      marketplaceFee,
+      royaltyFee,
+      totalFee,
+      netAmount,
+      status: "COMPLETED",
+      metadata: { source, walletType },
+    },
+    { transaction }
+  );
+
+  await models.transaction.create(
+    {
+      userId: buyerId,
+      walletId: buyerWallet.id,
+      type: "NFT_PURCHASE",
+      status: "COMPLETED",
+      amount: price,
+      description: `Purchase of NFT ${token.name} for ${price} ${currency}`,
+      referenceId: sale.id,
+    },
+    { transaction }
+  );
+
+  // Credit seller
+  const sellerWallet = await getLockedWallet(
+    sellerId,
+    walletType,
+    currency,
+    transaction,
+    true
+  );
+  await sellerWallet.update(
+    { balance: sellerWallet.balance + netAmount },
+    { transaction }
+  );
+  const sellerTransaction = await models.transaction.create(
+    {
+      userId: sellerId,
+      walletId: sellerWallet.id,
+      type: "NFT_SALE",
+      status: "COMPLETED",
+      amount: netAmount,
+      fee: totalFee,
+      description: `Sale of NFT ${token.name} for ${price} ${currency}`,
+      referenceId: sale.id,
+    },
+    { transaction }
+  );
+
+  // Pay royalty
+  if (royaltyFee > 0 && royaltyRecipientId) {
+    const royaltyWallet = await getLockedWallet(
+      royaltyRecipientId,
+      walletType,
+      currency,
+      transaction,
+      true
+    );
+    await royaltyWallet.update(
+      { balance: royaltyWallet.balance + royaltyFee },
+      { transaction }
+    );
+    const royaltyTransaction = await models.transaction.create(
+      {
+        userId: royaltyRecipientId,
+        walletId: royaltyWallet.id,
+        type: "NFT_ROYALTY",
+        status: "COMPLETED",
+        amount: royaltyFee,
+        description: `Royalty for secondary sale of NFT ${token.name}`,
+        referenceId: sale.id,
+      },
+      { transaction }
+    );
+    await models.nftRoyalty.create(
+      {
+        saleId: sale.id,
+        tokenId: token.id,
+        collectionId: token.collectionId,
+        recipientId: royaltyRecipientId,
+        amount: royaltyFee,
+        percentage: royaltyPercentage,
+        currency,
+        status: "PAID",
+        paidAt: new Date(),
+        metadata: { transactionId: royaltyTransaction.id },
+      },
+      { transaction }
+    );
+  }
+
+  if (marketplaceFee > 0) {
+    await models.adminProfit.create(
+      {
+        amount: marketplaceFee,
+        currency,
+        type: "NFT_SALE",
+        transactionId: sellerTransaction.id,
+        description: `Marketplace fee for sale of NFT ${token.name}`,
+      },
+      { transaction }
+    );
+  }
+
+  // Transfer ownership
+  await token.update({ ownerId: buyerId, isListed: false }, { transaction });
+
+  if (listingId) {
+    await models.nftListing.update(
+      { status: "SOLD" },
+      { where: { id: listingId }, transaction }
+    );
+  }
+
+  await recordNftActivity(
+    {
+      type: "SALE",
+      tokenId: token.id,
+      collectionId: token.collectionId,
+      listingId,
+      fromUserId: sellerId,
+      toUserId: buyerId,
+      price,
+      currency,
+      metadata: { saleId: sale.id, source },
+    },
+    transaction
+  );
+
+  return sale;
+}
+
+/**
+ * Cancels every active bid on a listing and returns the locked funds to the
+ * bidders. Used when an auction is cancelled or settled.
+ */
+export async function refundListingBids(
+  listing: any,
+  walletType: string,
+  transaction: Transaction,
+  exceptBidId?: string
+) {
+  const bids = await models.nftBid.findAll({
+    where: { listingId: listing.id, status: "ACTIVE" },
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+
+  for (const bid of bids) {
+    if (bid.id === exceptBidId) continue;
+    await releaseNftFunds(
+      bid.bidderId,
+      walletType,
+      bid.currency,
+      bid.amount,
+      transaction
+    );
+    await bid.update({ status: "REJECTED" }, { transaction });
+  }
+}
+
+/**
+ * Returns the wallet type a listing's funds are held in. Listings store it in
+ * metadata so a later settings change does not strand locked funds.
+ */
+export function getListingWalletType(
+  listing: any,
+  settings: NftMarketplaceSettings
+): string {
+  return listing?.metadata?.walletType || settings.walletType;
+}
+
+/**
+ * Settles an ended auction: the highest bid wins when it meets the reserve
+ * price, otherwise every bidder is refunded and the listing expires.
+ */
+export async function settleNftAuction(
+  listingId: string,
+  transaction: Transaction
+) {
+  const listing = await models.nftListing.findByPk(listingId, {
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!listing) {
+    throw createError({ statusCode: 404, message: "Listing not found" });
+  }
+  if (listing.type !== "AUCTION" || listing.status !== "ACTIVE") {
+    throw createError({
+      statusCode: 400,
+      message: "Only active auctions can be settled",
+    });
+  }
+  if (listing.endTime && new Date(listing.endTime) > new Date()) {
+    throw createError({
+      statusCode: 400,
+      message: "Auction has not ended yet",
+    });
+  }
+
+  const settings = await getNftMarketplaceSettings();
+  const walletType = getListingWalletType(listing, settings);
+
+  const highestBid = await models.nftBid.findOne({
+    where: { listingId: listing.id, status: "ACTIVE" },
+    order: [["amount", "DESC"]],
+    transaction,
+  });
+
+  const reserveMet =
+    highestBid &&
+    (!listing.reservePrice || highestBid.amount >= listing.reservePrice);
+
+  if (!highestBid || !reserveMet) {
+    await refundListingBids(listing, walletType, transaction);
+    await listing.update({ status: "EXPIRED" }, { transaction });
+    await models.nftToken.update(
+      { isListed: false },
+      { where: { id: listing.tokenId }, transaction }
+    );
+    await recordNftActivity(
+      {
+        type: "DELIST",
+        tokenId: listing.tokenId,
+        listingId: listing.id,
+        fromUserId: listing.sellerId,
+        metadata: { reason: highestBid ? "RESERVE_NOT_MET" : "NO_BIDS" },
+      },
+      transaction
+    );
+    return null;
+  }
+
+  await refundListingBids(listing, walletType, transaction, highestBid.id);
+
+  const sale = await settleNftSale({
+    tokenId: listing.tokenId,
+    listingId: listing.id,
+    sellerId: listing.sellerId,
+    buyerId: highestBid.bidderId,
+    price: highestBid.amount,
+    currency: highestBid.currency,
+    walletType,
+    fundsLocked: true,
+    source: "AUCTION",
+    transaction,
+  });
+
+  await highestBid.update({ status: "ACCEPTED" }, { transaction });
+
+  return sale;
+}
+
+/**
+ * Pays a refund back to the buyer from everyone the sale paid, in proportion
+ * to what each received: the seller's net amount, the creator's royalty and
+ * the marketplace fee, which the platform funds by reversing its profit.
+ * Every leg is recorded in the ledger.
+ */
+async function transferSaleRefund(
+  sale: nftSaleAttributes,
+  amount: number,
+  transaction: Transaction
+) {
+  const settings = await getNftMarketplaceSettings();
+  const walletType = getListingWalletType(sale, settings);
+
+  const share = Number(sale.price) > 0 ? amount / Number(sale.price) : 0;
+  const sellerPart = parseFloat(
+    ((Number(sale.netAmount) || 0) * share).toFixed(8)
+  );
+  const royaltyPart = parseFloat(
+    ((Number(sale.royaltyFee) || 0) * share).toFixed(8)
+  );
+  const feePart = parseFloat((amount - sellerPart - royaltyPart).toFixed(8));
+
+  const debits: { userId: string; amount: number; party: string }[] = [
+    { userId: sale.sellerId, amount: sellerPart, party: "seller" },
+  ];
+  if (royaltyPart > 0) {
+    const royalty = await models.nftRoyalty.findOne({
+      where: { saleId: sale.id },
+      transaction,
+    });
+    if (royalty) {
+      debits.push({
+        userId: royalty.recipientId,
+        amount: royaltyPart,
+        party: "royalty recipient",
+      });
+    }
+  }
+
+  for (const debit of debits) {
+    if (!(debit.amount > 0)) continue;
+    const wallet = await getLockedWallet(
+      debit.userId,
+      walletType,
+      sale.currency,
+      transaction
+    );
+    if (!wallet || wallet.balance < debit.amount) {
+      throw createError({
+        statusCode: 400,
+        message: `The ${debit.party}'s balance is insufficient to cover this refund`,
+      });
+    }
+    await wallet.update(
+      { balance: wallet.balance - debit.amount },
+      { transaction }
+    );
+    await models.transaction.create(
+      {
+        userId: debit.userId,
+        walletId: wallet.id,
+        type: "REFUND",
+        status: "COMPLETED",
+        amount: -debit.amount,
+        description: `Refund issued for NFT sale ${sale.id}`,
+        referenceId: sale.id,
+      },
+      { transaction }
+    );
+  }
+
+  const buyerWallet = await getLockedWallet(
+    sale.buyerId,
+    walletType,
+    sale.currency,
+    transaction,
+    true
+  );
+  await buyerWallet.update(
+    { balance: buyerWallet.balance + amount },
+    { transaction }
+  );
+  const buyerTransaction = await models.transaction.create(
+    {
+      userId: sale.buyerId,
+      walletId: buyerWallet.id,
+      type: "REFUND",
+      status: "COMPLETED",
+      amount,
+      description: `Refund received for NFT sale ${sale.id}`,
+      referenceId: sale.id,
+    },
+    { transaction }
+  );
+
+  // Any rounding remainder lands here too, so the legs add up to the refund
+  if (feePart !== 0) {
+    await models.adminProfit.create(
+      {
+        amount: -feePart,
+        currency: sale.currency,
+        type: "NFT_SALE",
+        transactionId: buyerTransaction.id,
+        description: `Marketplace fee refunded for NFT sale ${sale.id}`,
+      },
+      { transaction }
+    );
+  }
+}
+
+/**
+ * Refunds part or all of a completed sale to the buyer, and returns the
+ * amount refunded. Refunds of a sale never add up to more than its price; a
+ * null amount refunds what is left. When `cancelSale` is set the token is
+ * also returned to the seller and the sale is marked as cancelled.
+ */
+export async function refundNftSale(
+  saleId: string,
+  amount: number | null,
+  cancelSale: boolean,
+  transaction: Transaction
+): Promise<number> {
+  const sale = await models.nftSale.findByPk(saleId, {
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!sale || sale.status !== "COMPLETED") {
+    throw createError({
+      statusCode: 400,
+      message: "Only completed sales can be refunded",
+    });
+  }
+
+  const refunded = Number(sale.refundedAmount) || 0;
+  const remaining = Math.max(Number(sale.price) - refunded, 0);
+  const refund = amount ?? remaining;
+  if (amount !== null && (amount <= 0 || amount > remaining)) {
+    throw createError({
+      statusCode: 400,
+      message: `Refund amount must be between 0 and ${remaining} ${sale.currency}`,
+    });
+  }
+  if (refund > 0) {
+    await transferSaleRefund(sale, refund, transaction);
+    await sale.update({ refundedAmount: refunded + refund }, { transaction });
+  }
+
+  if (cancelSale) {
+    const token = await models.nftToken.findByPk(sale.tokenId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (token && token.ownerId === sale.buyerId) {
+      await token.update(
+        { ownerId: sale.sellerId, isListed: false },
+        { transaction }
+      );
+      await recordNftActivity(
+        {
+          type: "TRANSFER",
+          tokenId: token.id,
+          collectionId: token.collectionId,
+          fromUserId: sale.buyerId,
+          toUserId: sale.sellerId,
+          metadata: { saleId: sale.id, reason: "SALE_CANCELLED" },
+        },
+        transaction
+      );
+    }
+    await sale.update({ status: "CANCELLED" }, { transaction });
+  }
+
+  return refund;
+}
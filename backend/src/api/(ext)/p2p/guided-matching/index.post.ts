@@ -6,6 +6,8 @@ import {
   getSpotPriceInUSD,
   getEcoPriceInUSD,
 } from "@b/api/finance/currency/utils"; // <-- path as in your project
+import { applyLivePrices } from "@b/api/(ext)/p2p/utils/price";
+import { getOfferVisibilityWhere } from "@b/api/(ext)/p2p/utils/relations";
 
 export const metadata = {
   summary: "Submit Guided Matching Criteria",
@@ -106,6 +108,8 @@ export default async (data: { body: any; user?: any }) => {
           body.location !== "any" && {
             "locationSettings.country": body.location,
           }),
+        // Skip blocked traders and trusted-only offers not open to this user
+        ...(await getOfferVisibilityWhere(user.id)),
       },
       include: [
         {
@@ -156,6 +160,9 @@ export default async (data: { body: any; user?: any }) => {
       };
     }
 
+    // Floating offers are compared at their live price
+    await applyLivePrices(offers);
+
     // Extract prices for savings calculation
     const prices = offers.map((o) => o.priceConfig.finalPrice);
     const bestPrice =
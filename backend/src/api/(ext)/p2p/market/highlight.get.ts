@@ -1,5 +1,7 @@
 import { models } from "@b/db";
 import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { applyLivePrices } from "@b/api/(ext)/p2p/utils/price";
+import { getOfferVisibilityWhere } from "@b/api/(ext)/p2p/utils/relations";
 
 export const metadata = {
   summary: "Get P2P Market Highlights",
@@ -7,6 +9,7 @@ export const metadata = {
     "Retrieves highlighted market data (for example, top active offers).",
   operationId: "getP2PMarketHighlights",
   tags: ["P2P", "Market"],
+  optionalAuth: true,
   responses: {
     200: { description: "P2P market highlights retrieved successfully." },
     401: unauthorizedResponse,
@@ -14,15 +17,20 @@ export const metadata = {
   },
 };
 
-export default async (data: { query?: any }) => {
+export default async (data: { query?: any; user?: any }) => {
   try {
     // Example: get the five newest active offers
     const highlights = await models.p2pOffer.findAll({
-      where: { status: "active" },
+      where: {
+        status: "active",
+        ...(await getOfferVisibilityWhere(data.user?.id)),
+      },
       order: [["createdAt", "DESC"]],
       limit: 5,
     });
-    return highlights;
+    return applyLivePrices(
+      highlights.map((offer) => offer.get({ plain: true }))
+    );
   } catch (err: any) {
     throw new Error("Internal Server Error: " + err.message);
   }
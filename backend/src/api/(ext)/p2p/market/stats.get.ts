@@ -1,10 +1,12 @@
 import { models, sequelize } from "@b/db";
 import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
 import { fn, literal } from "sequelize";
+import { applyLivePrices } from "@b/api/(ext)/p2p/utils/price";
 
 export const metadata = {
   summary: "Get P2P Market Stats",
-  description: "Retrieves aggregated market statistics from P2P trades.",
+  description:
+    "Retrieves aggregated market statistics from P2P trades and the best live price of the active offers for each currency.",
   operationId: "getP2PMarketStats",
   tags: ["P2P", "Market"],
   responses: {
@@ -25,7 +27,40 @@ export default async () => {
       ],
       raw: true,
     });
-    return stats;
+
+    const offers = await applyLivePrices(
+      await models.p2pOffer.findAll({
+        where: { status: "ACTIVE" },
+        attributes: ["type", "currency", "walletType", "priceConfig"],
+        raw: true,
+      })
+    );
+
+    // Best price on each side: the highest BUY offer and the lowest SELL offer
+    const prices: Record<
+      string,
+      {
+        currency: string;
+        walletType: string;
+        bestBuy?: number;
+        bestSell?: number;
+      }
+    > = {};
+    for (const offer of offers) {
+      const key = `${offer.walletType}:${offer.currency}`;
+      const entry = (prices[key] ??= {
+        currency: offer.currency,
+        walletType: offer.walletType,
+      });
+      const price = offer.priceConfig.finalPrice;
+      if (offer.type === "BUY") {
+        entry.bestBuy = Math.max(entry.bestBuy ?? 0, price);
+      } else {
+        entry.bestSell = Math.min(entry.bestSell ?? Infinity, price);
+      }
+    }
+
+    return { ...stats, prices: Object.values(prices) };
   } catch (err: any) {
     throw new Error("Internal Server Error: " + err.message);
   }
@@ -1,6 +1,12 @@
 import { models, sequelize } from "@b/db";
 import { serverErrorResponse } from "@b/utils/query";
 import { Op } from "sequelize";
+import { applyLivePrices } from "@b/api/(ext)/p2p/utils/price";
+import {
+  isBlockedBetween,
+  isTrustedBy,
+  isTrustedOnlyOffer,
+} from "@b/api/(ext)/p2p/utils/relations";
 
 export const metadata = {
   summary: "Get P2P Offer by ID",
@@ -24,10 +30,12 @@ export const metadata = {
     500: serverErrorResponse,
   },
   requiresAuth: false,
+  optionalAuth: true,
 };
 
-export default async (data: { params?: any }) => {
+export default async (data: { params?: any; user?: any }) => {
   const { id } = data.params || {};
+  const viewerId = data.user?.id;
   try {
     // 1) Fetch offer with associations
     const offer = await models.p2pOffer.findByPk(id, {
@@ -55,7 +63,20 @@ export default async (data: { params?: any }) => {
       return { error: "Offer not found" };
     }
 
+    // Blocked users and untrusted viewers of trusted-only offers cannot see it
+    if (offer.userId !== viewerId) {
+      const hidden = viewerId
+        ? (await isBlockedBetween(viewerId, offer.userId)) ||
+          (isTrustedOnlyOffer(offer) &&
+            !(await isTrustedBy(offer.userId, viewerId)))
+        : isTrustedOnlyOffer(offer);
+      if (hidden) {
+        return { error: "Offer not found" };
+      }
+    }
+
     const plain = offer.get({ plain: true });
+    await applyLivePrices([plain]);
     const sellerId = plain.user.id;
 
     // 2) Compute seller trade metrics
@@ -3,6 +3,8 @@ import { createError } from "@b/utils/error";
 import { getWalletSafe } from "@b/api/finance/wallet/utils";
 import { notifyTradeEvent } from "@b/api/(ext)/p2p/utils/notifications";
 import { validateTradeAmount } from "@b/api/(ext)/p2p/utils/validation";
+import { getLiveOfferPrice } from "@b/api/(ext)/p2p/utils/price";
+import { requireOfferAccess } from "@b/api/(ext)/p2p/utils/relations";
 import { createP2PAuditLog, P2PAuditEventType, P2PRiskLevel } from "@b/api/(ext)/p2p/utils/audit";
 import { Op } from "sequelize";
 
@@ -13,6 +15,7 @@ export const metadata = {
   operationId: "initiateP2PTrade",
   tags: ["P2P", "Trade"],
   requiresAuth: true,
+  kycFeature: "buy_p2p_offer",
   parameters: [
     {
       index: 0,
@@ -56,6 +59,7 @@ export const metadata = {
     200: { description: "Trade initiated successfully." },
     400: { description: "Bad Request - Invalid offer or amount." },
     401: { description: "Unauthorized." },
+    403: { description: "Forbidden - Blocked user or trusted-only offer." },
     404: { description: "Offer not found." },
     409: { description: "Conflict - Offer unavailable or insufficient balance." },
     500: { description: "Internal Server Error." },
@@ -117,6 +121,14 @@ export default async function handler(data: {
       });
     }
 
+    // Respect the block lists of both parties and trusted-only offers
+    try {
+      await requireOfferAccess(user.id, offer);
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
     // 2. Validate amount against offer limits
     const { min, max, total } = offer.amountConfig;
     if (amount < (min || 0) || amount > (max || total) || amount > total) {
@@ -207,7 +219,18 @@ export default async function handler(data: {
       riskLevel: P2PRiskLevel.HIGH,
     });
 
-    // 7. Calculate fees
+    // 7. Lock in the trade price and calculate fees. Floating offers are
+    // priced from the market at this moment.
+    let price: number;
+    try {
+      price = await getLiveOfferPrice(offer);
+    } catch (error: any) {
+      await transaction.rollback();
+      throw createError({ 
+        statusCode: 409, 
+        message: error.message 
+      });
+    }
     const { calculateTradeFees, calculateEscrowFee } = await import("../../utils/fees");
     const isMakerBuyer = offer.type === "BUY";
     const fees = await calculateTradeFees(amount, offer.currency, isMakerBuyer);
@@ -219,8 +242,8 @@ export default async function handler(data: {
       buyerId,
       sellerId,
       amount,
-      price: offer.priceConfig.finalPrice,
-      totalAmount: amount * offer.priceConfig.finalPrice,
+      price,
+      totalAmount: amount * price,
       currency: offer.currency,
       paymentMethodId,
       status: "PENDING",
@@ -267,14 +290,14 @@ export default async function handler(data: {
         offerId: offer.id,
         amount,
         currency: offer.currency,
-        price: offer.priceConfig.finalPrice,
+        price,
         paymentMethodId,
         buyerId,
         sellerId,
         buyerFee: fees.buyerFee,
         sellerFee: fees.sellerFee,
         escrowFee,
-        totalValue: amount * offer.priceConfig.finalPrice,
+        totalValue: amount * price,
         offerType: offer.type,
         walletType: offer.walletType,
       },
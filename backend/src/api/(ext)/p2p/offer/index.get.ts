@@ -10,12 +10,15 @@ import {
 import { crudParameters, paginationSchema } from "@b/utils/constants";
 import { createError } from "@b/utils/error";
 import { Op } from "sequelize";
+import { applyLivePrices } from "@b/api/(ext)/p2p/utils/price";
+import { getOfferVisibilityWhere } from "@b/api/(ext)/p2p/utils/relations";
 
 export const metadata: OperationObject = {
   summary: "Lists all p2p offers with pagination and optional filtering",
   operationId: "listP2POffers",
   tags: ["Admin", "P2P", "Offers"],
   parameters: crudParameters,
+  optionalAuth: true,
   responses: {
     200: {
       description: "Paginated list of p2p offers with detailed information",
@@ -43,11 +46,12 @@ export const metadata: OperationObject = {
 };
 
 export default async (data: Handler) => {
-  const { query } = data;
+  const { query, user } = data;
 
-  return getFiltered({
+  const result = await getFiltered({
     model: models.p2pOffer,
     query,
+    where: await getOfferVisibilityWhere(user?.id),
     sortField: query.sortField || "createdAt",
     includeModels: [
       {
@@ -63,4 +67,8 @@ export default async (data: Handler) => {
       },
     ],
   });
+
+  // getFiltered returns plain rows
+  await applyLivePrices(result.items as unknown as p2pOfferAttributes[]);
+  return result;
 };
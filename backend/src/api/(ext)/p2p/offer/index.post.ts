@@ -4,6 +4,11 @@ import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
 import { getWalletSafe } from "@b/api/finance/wallet/utils";
 import { Op } from "sequelize";
+import { validatePriceConfig } from "@b/api/(ext)/p2p/utils/validation";
+import {
+  getOfferMarketPrice,
+  isFloatingPrice,
+} from "@b/api/(ext)/p2p/utils/price";
 
 export const metadata = {
   summary: "Create a P2P Offer",
@@ -12,6 +17,7 @@ export const metadata = {
   operationId: "createP2POffer",
   tags: ["P2P", "Offer"],
   requiresAuth: true,
+  kycFeature: "make_p2p_offer",
   middleware: ["p2pOfferCreateRateLimit"],
   requestBody: {
     description: "Complete P2P offer payload",
@@ -37,12 +43,15 @@ export const metadata = {
             priceConfig: {
               type: "object",
               properties: {
-                model: { type: "string", enum: ["FIXED", "MARGIN"] },
+                model: { type: "string", enum: ["FIXED", "MARGIN", "MARKET"] },
                 value: { type: "number" },
+                marginType: { type: "string", enum: ["percentage", "fixed"] },
+                floorPrice: { type: "number" },
+                ceilingPrice: { type: "number" },
                 marketPrice: { type: "number" },
                 finalPrice: { type: "number" },
               },
-              required: ["model", "value", "finalPrice"],
+              required: ["model", "value"],
             },
             tradeSettings: {
               type: "object",
@@ -181,6 +190,13 @@ export default async function handler(data: { body: any; user?: any }) {
     }
   }
 
+  // Floating prices are computed here from the live market price, never
+  // taken from the client
+  const marketPrice = isFloatingPrice(body.priceConfig)
+    ? await getOfferMarketPrice(body.currency, body.walletType)
+    : null;
+  const priceConfig = validatePriceConfig(body.priceConfig, body.type, marketPrice);
+
   // start a transaction so creation + associations roll back together
   const t = await sequelize.transaction();
   try {
@@ -192,7 +208,7 @@ export default async function handler(data: { body: any; user?: any }) {
         currency: body.currency,
         walletType: body.walletType,
         amountConfig: body.amountConfig,
-        priceConfig: body.priceConfig,
+        priceConfig,
         tradeSettings: body.tradeSettings,
         locationSettings: body.locationSettings ?? null,
         userRequirements: body.userRequirements ?? null,
@@ -0,0 +1,44 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse } from "@b/utils/query";
+
+export const metadata = {
+  summary: "Remove Trusted or Blocked User",
+  description:
+    "Removes the authenticated user's trust or block relation with a counterparty.",
+  operationId: "deleteP2PUserRelation",
+  tags: ["P2P", "Relation"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "userId",
+      in: "path",
+      description: "Counterparty user ID",
+      required: true,
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: { description: "Relation removed successfully." },
+    401: { description: "Unauthorized." },
+    404: { description: "Relation not found." },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: { params?: any; user?: any }) => {
+  const { params, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const removed = await models.p2pUserRelation.destroy({
+    where: { userId: user.id, targetUserId: params?.userId },
+  });
+  if (!removed) {
+    throw createError({ statusCode: 404, message: "Relation not found" });
+  }
+
+  return { message: "Relation removed successfully." };
+};
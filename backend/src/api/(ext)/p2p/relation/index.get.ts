@@ -0,0 +1,50 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse } from "@b/utils/query";
+
+export const metadata = {
+  summary: "List Trusted and Blocked Users",
+  description:
+    "Retrieves the counterparties the authenticated user has marked as trusted or blocked.",
+  operationId: "listP2PUserRelations",
+  tags: ["P2P", "Relation"],
+  requiresAuth: true,
+  parameters: [
+    {
+      name: "type",
+      in: "query",
+      description: "Only return relations of this type",
+      required: false,
+      schema: { type: "string", enum: ["TRUSTED", "BLOCKED"] },
+    },
+  ],
+  responses: {
+    200: { description: "Relations retrieved successfully." },
+    401: { description: "Unauthorized." },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: { query?: any; user?: any }) => {
+  const { query, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const type = query?.type?.toUpperCase();
+  if (type && !["TRUSTED", "BLOCKED"].includes(type)) {
+    throw createError({ statusCode: 400, message: "Invalid relation type" });
+  }
+
+  return models.p2pUserRelation.findAll({
+    where: { userId: user.id, ...(type && { type }) },
+    include: [
+      {
+        model: models.user,
+        as: "targetUser",
+        attributes: ["id", "firstName", "lastName", "avatar"],
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+  });
+};
@@ -0,0 +1,112 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse } from "@b/utils/query";
+
+export const metadata = {
+  summary: "Trust or Block a User",
+  description:
+    "Marks a counterparty as trusted or blocked, either from a trade or from their profile. Replaces any existing relation with the same user.",
+  operationId: "setP2PUserRelation",
+  tags: ["P2P", "Relation"],
+  requiresAuth: true,
+  requestBody: {
+    description: "Relation payload",
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            userId: { type: "string", description: "Counterparty user ID" },
+            type: { type: "string", enum: ["TRUSTED", "BLOCKED"] },
+            tradeId: {
+              type: "string",
+              description: "Trade the counterparty was met in",
+            },
+            note: { type: "string", maxLength: 255 },
+          },
+          required: ["userId", "type"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: { description: "Relation saved successfully." },
+    400: { description: "Invalid relation." },
+    401: { description: "Unauthorized." },
+    404: { description: "User or trade not found." },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: { body: any; user?: any }) => {
+  const { body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { userId: targetUserId, tradeId, note } = body;
+  const type = body.type?.toUpperCase();
+  if (!["TRUSTED", "BLOCKED"].includes(type)) {
+    throw createError({ statusCode: 400, message: "Invalid relation type" });
+  }
+  if (targetUserId === user.id) {
+    throw createError({
+      statusCode: 400,
+      message: "You cannot trust or block yourself",
+    });
+  }
+
+  const target = await models.user.findByPk(targetUserId, {
+    attributes: ["id"],
+  });
+  if (!target) {
+    throw createError({ statusCode: 404, message: "User not found" });
+  }
+
+  // From a trade, the target must be the caller's counterparty in it
+  if (tradeId) {
+    const trade = await models.p2pTrade.findByPk(tradeId, {
+      attributes: ["buyerId", "sellerId"],
+    });
+    const parties = [trade?.buyerId, trade?.sellerId];
+    if (
+      !trade ||
+      !parties.includes(user.id) ||
+      !parties.includes(targetUserId)
+    ) {
+      throw createError({ statusCode: 404, message: "Trade not found" });
+    }
+  }
+
+  const values = {
+    type,
+    tradeId: tradeId || null,
+    note: note ? String(note).slice(0, 255) : null,
+  };
+  let relation = await models.p2pUserRelation.findOne({
+    where: { userId: user.id, targetUserId },
+  });
+  if (relation) {
+    await relation.update(values);
+  } else {
+    relation = await models.p2pUserRelation.create({
+      userId: user.id,
+      targetUserId,
+      ...values,
+    });
+  }
+
+  await models.p2pActivityLog.create({
+    userId: user.id,
+    type: type === "BLOCKED" ? "USER_BLOCKED" : "USER_TRUSTED",
+    entityId: targetUserId,
+    entityType: "USER",
+    metadata: { tradeId: tradeId || null },
+  });
+
+  return {
+    message: `User ${type === "BLOCKED" ? "blocked" : "trusted"} successfully.`,
+    data: relation,
+  };
+};
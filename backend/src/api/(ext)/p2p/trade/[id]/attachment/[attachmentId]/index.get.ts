@@ -0,0 +1,71 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { createError } from "@b/utils/error";
+import { unauthorizedResponse, serverErrorResponse } from "@b/utils/query";
+import {
+  collectTradeAttachments,
+  readTradeAttachment,
+} from "@b/api/(ext)/p2p/utils/attachments";
+
+export const metadata = {
+  summary: "Get Trade Attachment",
+  description:
+    "Returns a file attached to a trade message or dispute as a base64 data URL. Only the buyer and seller of the trade can fetch it.",
+  operationId: "getP2PTradeAttachment",
+  tags: ["P2P", "Trade"],
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "Trade ID",
+      required: true,
+      schema: { type: "string" },
+    },
+    {
+      index: 1,
+      name: "attachmentId",
+      in: "path",
+      description: "Attachment ID",
+      required: true,
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: { description: "Attachment retrieved successfully." },
+    401: unauthorizedResponse,
+    404: { description: "Trade or attachment not found." },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: { params?: any; user?: any }) => {
+  const { id, attachmentId } = data.params || {};
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const trade = await models.p2pTrade.findOne({
+    where: {
+      id,
+      [Op.or]: [{ buyerId: user.id }, { sellerId: user.id }],
+    },
+    attributes: ["id", "timeline"],
+  });
+  if (!trade) {
+    throw createError({ statusCode: 404, message: "Trade not found" });
+  }
+
+  const disputes = await models.p2pDispute.findAll({
+    where: { tradeId: trade.id },
+    attributes: ["evidence"],
+  });
+
+  return readTradeAttachment(
+    trade.id,
+    collectTradeAttachments(trade, disputes),
+    attachmentId
+  );
+};
@@ -1,11 +1,18 @@
 import { models, sequelize } from "@b/db";
 import { Op } from "sequelize";
 import { createError } from "@b/utils/error";
+import {
+  MAX_DISPUTE_ATTACHMENTS,
+  P2PTradeAttachment,
+  decodeAttachments,
+  removeTradeAttachments,
+  storeTradeAttachments,
+} from "@b/api/(ext)/p2p/utils/attachments";
 
 export const metadata = {
   summary: "Dispute Trade",
   description:
-    "Creates a dispute for a trade by providing a reason and description.",
+    "Creates a dispute for a trade by providing a reason and description. Screenshot and document evidence can carry an image or PDF as a base64 data URL.",
   operationId: "disputeP2PTrade",
   tags: ["P2P", "Trade"],
   requiresAuth: true,
@@ -52,10 +59,15 @@ export const metadata = {
                 properties: {
                   type: { type: "string", enum: ["screenshot", "document", "text"] },
                   content: { type: "string" },
-                  description: { type: "string" }
+                  description: { type: "string" },
+                  file: {
+                    type: "string",
+                    description: "Base64 data URL (JPEG, PNG, GIF, WEBP or PDF, up to 5MB)",
+                  },
+                  name: { type: "string", description: "Original file name" },
                 }
               },
-              maxItems: 5
+              maxItems: MAX_DISPUTE_ATTACHMENTS
             }
           },
           required: ["reason", "description"],
@@ -98,7 +110,15 @@ export default async (data: { params?: any; body: any; user?: any }) => {
     });
   }
 
+  // Validate evidence files before touching the trade
+  const evidenceItems = parseEvidence(evidence, sanitizeInput);
+  const evidenceFiles = decodeAttachments(
+    evidenceItems.filter((item) => item.file).map((item) => item.file),
+    MAX_DISPUTE_ATTACHMENTS
+  );
+
   const transaction = await sequelize.transaction();
+  let storedAttachments: P2PTradeAttachment[] = [];
 
   try {
     // Find and lock trade
@@ -162,6 +182,29 @@ export default async (data: { params?: any; body: any; user?: any }) => {
     // Determine the other party
     const againstId = trade.buyerId === user.id ? trade.sellerId : trade.buyerId;
 
+    storedAttachments = await storeTradeAttachments(
+      trade.id,
+      user.id,
+      evidenceFiles
+    );
+    const submittedBy = trade.buyerId === user.id ? "buyer" : "seller";
+    const submittedAt = new Date().toISOString();
+    let nextAttachment = 0;
+    const storedEvidence = evidenceItems.map((item) => {
+      const attachment = item.file
+        ? storedAttachments[nextAttachment++]
+        : undefined;
+      return {
+        type: item.type,
+        title: item.description || attachment?.name || item.type,
+        description: item.description,
+        content: item.content,
+        attachment,
+        submittedBy,
+        timestamp: submittedAt,
+      };
+    });
+
     // Create dispute
     const dispute = await models.p2pDispute.create({
       tradeId: id,
@@ -173,7 +216,7 @@ export default async (data: { params?: any; body: any; user?: any }) => {
       filedOn: new Date(),
       status: "PENDING",
       priority: determinePriority(validatedReason, trade.amount),
-      evidence: evidence || [],
+      evidence: storedEvidence,
       metadata: {
         tradeAmount: trade.amount,
         tradeCurrency: trade.offer.currency,
@@ -236,6 +279,7 @@ export default async (data: { params?: any; body: any; user?: any }) => {
       }
     };
   } catch (err: any) {
+    await removeTradeAttachments(id, storedAttachments);
     await transaction.rollback();
     
     if (err.statusCode) {
@@ -249,6 +293,48 @@ export default async (data: { params?: any; body: any; user?: any }) => {
   }
 };
 
+/**
+ * Normalise submitted evidence; file items keep their upload for decoding
+ */
+function parseEvidence(
+  evidence: any,
+  sanitizeInput: (input: string) => string
+): {
+  type: string;
+  content?: string;
+  description?: string;
+  file?: { file: string; name?: string };
+}[] {
+  if (evidence === undefined || evidence === null) {
+    return [];
+  }
+  if (!Array.isArray(evidence) || evidence.length > MAX_DISPUTE_ATTACHMENTS) {
+    throw createError({
+      statusCode: 400,
+      message: `Evidence must be a list of at most ${MAX_DISPUTE_ATTACHMENTS} items`,
+    });
+  }
+
+  return evidence.map((item) => {
+    const type = ["screenshot", "document", "text"].includes(item?.type)
+      ? item.type
+      : "text";
+    const hasFile = type !== "text" && typeof item?.file === "string";
+    return {
+      type,
+      content:
+        typeof item?.content === "string"
+          ? sanitizeInput(item.content)
+          : undefined,
+      description:
+        typeof item?.description === "string"
+          ? sanitizeInput(item.description)
+          : undefined,
+      file: hasFile ? { file: item.file, name: item.name } : undefined,
+    };
+  });
+}
+
 /**
  * Determine dispute priority based on reason and amount
  */
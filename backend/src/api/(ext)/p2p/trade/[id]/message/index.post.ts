@@ -1,10 +1,19 @@
 import { models } from "@b/db";
 import { Op, fn } from "sequelize";
 import { createError } from "@b/utils/error";
+import { requireNotBlocked } from "@b/api/(ext)/p2p/utils/relations";
+import {
+  MAX_MESSAGE_ATTACHMENTS,
+  P2PTradeAttachment,
+  decodeAttachments,
+  removeTradeAttachments,
+  storeTradeAttachments,
+} from "@b/api/(ext)/p2p/utils/attachments";
 
 export const metadata = {
   summary: "Send Trade Message",
-  description: "Sends a message within a trade (appended to the timeline).",
+  description:
+    "Sends a message within a trade (appended to the timeline). Images and PDFs can be attached as base64 data URLs.",
   operationId: "sendP2PTradeMessage",
   tags: ["P2P", "Trade"],
   requiresAuth: true,
@@ -28,15 +37,33 @@ export const metadata = {
           type: "object",
           properties: {
             message: { type: "string" },
+            attachments: {
+              type: "array",
+              description:
+                "Files to attach; a message needs text, attachments or both",
+              items: {
+                type: "object",
+                properties: {
+                  file: {
+                    type: "string",
+                    description: "Base64 data URL (JPEG, PNG, GIF, WEBP or PDF, up to 5MB)",
+                  },
+                  name: { type: "string", description: "Original file name" },
+                },
+                required: ["file"],
+              },
+              maxItems: MAX_MESSAGE_ATTACHMENTS,
+            },
           },
-          required: ["message"],
         },
       },
     },
   },
   responses: {
     200: { description: "Message sent successfully." },
+    400: { description: "Invalid message or attachment." },
     401: { description: "Unauthorized." },
+    403: { description: "Messaging between blocked users is not allowed." },
     404: { description: "Trade not found." },
     500: { description: "Internal Server Error." },
   },
@@ -44,7 +71,7 @@ export const metadata = {
 
 export default async (data: { params?: any; body: any; user?: any }) => {
   const { id } = data.params || {};
-  const { message } = data.body;
+  const { message, attachments } = data.body;
   const { user } = data;
   
   if (!user?.id) {
@@ -55,8 +82,12 @@ export default async (data: { params?: any; body: any; user?: any }) => {
   const { validateMessage } = await import("../../../utils/validation");
   const { notifyTradeEvent } = await import("../../../utils/notifications");
 
-  // Validate and sanitize message
-  const sanitizedMessage = validateMessage(message);
+  // Validate attachments up front; text is optional when files are attached
+  const files = decodeAttachments(attachments, MAX_MESSAGE_ATTACHMENTS);
+  const sanitizedMessage =
+    files.length && (message === undefined || message === null || message === "")
+      ? ""
+      : validateMessage(message);
 
   const trade = await models.p2pTrade.findOne({
     where: {
@@ -83,11 +114,21 @@ export default async (data: { params?: any; body: any; user?: any }) => {
     });
   }
 
+  await requireNotBlocked(
+    user.id,
+    user.id === trade.buyerId ? trade.sellerId : trade.buyerId
+  );
+
+  let storedAttachments: P2PTradeAttachment[] = [];
+  let saved = false;
   try {
+    storedAttachments = await storeTradeAttachments(trade.id, user.id, files);
+
     const timeline = trade.timeline || [];
     const messageEntry = {
       event: "MESSAGE",
       message: sanitizedMessage,
+      attachments: storedAttachments,
       senderId: user.id,
       senderName: user.firstName || "User",
       createdAt: new Date().toISOString(),
@@ -101,6 +142,7 @@ export default async (data: { params?: any; body: any; user?: any }) => {
       timeline,
       lastMessageAt: new Date(),
     });
+    saved = true;
 
     // Log activity
     await models.p2pActivityLog.create({
@@ -110,6 +152,7 @@ export default async (data: { params?: any; body: any; user?: any }) => {
       entityType: "TRADE",
       metadata: {
         messageLength: sanitizedMessage.length,
+        attachmentCount: storedAttachments.length,
         recipientId: user.id === trade.buyerId ? trade.sellerId : trade.buyerId,
       },
     });
@@ -128,12 +171,17 @@ export default async (data: { params?: any; body: any; user?: any }) => {
       data: {
         id: messageEntry.id,
         message: sanitizedMessage,
+        attachments: storedAttachments,
         createdAt: messageEntry.createdAt,
         senderId: user.id,
         senderName: messageEntry.senderName,
       }
     };
   } catch (err: any) {
+    if (!saved) {
+      await removeTradeAttachments(trade.id, storedAttachments);
+    }
+
     if (err.statusCode) {
       throw err;
     }
@@ -0,0 +1,272 @@
+import fs from "fs/promises";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import validator from "validator";
+import { createError } from "@b/utils/error";
+import { validateEvidenceFile } from "./validation";
+
+// Attachments live outside frontend/public so they are only reachable through
+// the trade and dispute attachment endpoints, which check access per trade.
+const ATTACHMENT_DIR = path.resolve(
+  process.env.P2P_ATTACHMENT_DIR ||
+    path.join(process.cwd(), "storage", "p2p", "trades")
+);
+
+export const MAX_MESSAGE_ATTACHMENTS = 3;
+export const MAX_DISPUTE_ATTACHMENTS = 5;
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "application/pdf": ".pdf",
+};
+
+export interface P2PTradeAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+interface DecodedAttachment {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+/**
+ * Validates and decodes base64 data URL uploads ({ file, name }) before
+ * anything is written, so a bad file rejects the whole request
+ */
+export function decodeAttachments(
+  input: any,
+  maxCount: number
+): DecodedAttachment[] {
+  if (input === undefined || input === null) {
+    return [];
+  }
+  if (!Array.isArray(input)) {
+    throw createError({
+      statusCode: 400,
+      message: "Attachments must be an array",
+    });
+  }
+  if (input.length > maxCount) {
+    throw createError({
+      statusCode: 400,
+      message: `You can attach at most ${maxCount} files`,
+    });
+  }
+
+  return input.map((item) => decodeAttachment(item));
+}
+
+function decodeAttachment(item: any): DecodedAttachment {
+  const dataUrl = typeof item?.file === "string" ? item.file : "";
+  const match = dataUrl.match(/^data:([\w.+-]+\/[\w.+-]+);base64,(.+)$/);
+  if (!match) {
+    throw createError({ statusCode: 400, message: "Invalid attachment data" });
+  }
+
+  const mimeType = match[1].toLowerCase();
+  const extension = EXTENSION_BY_MIME[mimeType];
+  if (!extension) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid file type. Allowed: JPEG, PNG, GIF, WEBP, PDF",
+    });
+  }
+
+  const buffer = Buffer.from(match[2], "base64");
+  const name = sanitizeFileName(item?.name, extension);
+
+  const { isValid, error } = validateEvidenceFile({
+    name,
+    size: buffer.length,
+    mimetype: mimeType,
+  });
+  if (!isValid) {
+    throw createError({ statusCode: 400, message: error || "Invalid file" });
+  }
+
+  if (!matchesSignature(buffer, mimeType)) {
+    throw createError({
+      statusCode: 400,
+      message: "File content does not match its declared type",
+    });
+  }
+
+  return { name, mimeType, buffer };
+}
+
+/**
+ * Keeps only the base name, strips characters that are unsafe in headers and
+ * markup, and makes sure the extension agrees with the detected type
+ */
+function sanitizeFileName(name: any, extension: string): string {
+  const base = path
+    .basename(typeof name === "string" ? name : "")
+    .replace(/[^\w.\- ]/g, "")
+    .trim()
+    .slice(0, 100);
+
+  if (!base) {
+    return `attachment${extension}`;
+  }
+
+  const currentExtension = path.extname(base).toLowerCase();
+  const matches =
+    currentExtension === extension ||
+    (extension === ".jpg" && currentExtension === ".jpeg");
+  return matches ? base : `${base}${extension}`;
+}
+
+/**
+ * Check file magic numbers so a renamed file cannot pass as an image or PDF
+ */
+function matchesSignature(buffer: Buffer, mimeType: string): boolean {
+  if (buffer.length < 12) return false;
+
+  switch (mimeType) {
+    case "image/jpeg":
+      return buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
+    case "image/png":
+      return buffer
+        .subarray(0, 4)
+        .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    case "image/gif":
+      return buffer.subarray(0, 4).toString("ascii") === "GIF8";
+    case "image/webp":
+      return (
+        buffer.subarray(0, 4).toString("ascii") === "RIFF" &&
+        buffer.subarray(8, 12).toString("ascii") === "WEBP"
+      );
+    case "application/pdf":
+      return buffer.subarray(0, 4).toString("ascii") === "%PDF";
+    default:
+      return false;
+  }
+}
+
+function tradeDir(tradeId: string): string {
+  if (!validator.isUUID(String(tradeId))) {
+    throw createError({ statusCode: 400, message: "Invalid trade ID" });
+  }
+  return path.join(ATTACHMENT_DIR, tradeId);
+}
+
+/**
+ * Writes decoded attachments under the trade's private directory
+ */
+export async function storeTradeAttachments(
+  tradeId: string,
+  uploadedBy: string,
+  files: DecodedAttachment[]
+): Promise<P2PTradeAttachment[]> {
+  if (!files.length) {
+    return [];
+  }
+
+  const dir = tradeDir(tradeId);
+  await fs.mkdir(dir, { recursive: true });
+
+  const stored: P2PTradeAttachment[] = [];
+  try {
+    for (const file of files) {
+      const attachment: P2PTradeAttachment = {
+        id: uuidv4(),
+        name: file.name,
+        mimeType: file.mimeType,
+        size: file.buffer.length,
+        uploadedBy,
+        createdAt: new Date().toISOString(),
+      };
+      await fs.writeFile(path.join(dir, attachment.id), file.buffer, {
+        flag: "wx",
+      });
+      stored.push(attachment);
+    }
+  } catch (error) {
+    await removeTradeAttachments(tradeId, stored);
+    throw error;
+  }
+
+  return stored;
+}
+
+/**
+ * Best-effort cleanup for files whose trade or dispute update did not commit
+ */
+export async function removeTradeAttachments(
+  tradeId: string,
+  attachments: P2PTradeAttachment[]
+): Promise<void> {
+  if (!attachments.length) {
+    return;
+  }
+
+  const dir = tradeDir(tradeId);
+  await Promise.all(
+    attachments.map((attachment) =>
+      fs.unlink(path.join(dir, attachment.id)).catch((error) => {
+        if (error.code !== "ENOENT") {
+          console.error("Failed to remove P2P attachment:", error);
+        }
+      })
+    )
+  );
+}
+
+/**
+ * Every attachment referenced by a trade's messages or its disputes' evidence
+ */
+export function collectTradeAttachments(
+  trade: { timeline?: any[] | null },
+  disputes: { evidence?: any[] | null }[] = []
+): P2PTradeAttachment[] {
+  const fromTimeline = (trade.timeline || []).flatMap((entry) =>
+    Array.isArray(entry?.attachments) ? entry.attachments : []
+  );
+  const fromEvidence = disputes.flatMap((dispute) =>
+    (Array.isArray(dispute.evidence) ? dispute.evidence : [])
+      .map((item) => item?.attachment)
+      .filter(Boolean)
+  );
+  return [...fromTimeline, ...fromEvidence];
+}
+
+/**
+ * Reads an attachment the caller has already been authorised for and returns
+ * it as a data URL alongside its metadata
+ */
+export async function readTradeAttachment(
+  tradeId: string,
+  attachments: P2PTradeAttachment[],
+  attachmentId: string
+): Promise<P2PTradeAttachment & { data: string }> {
+  const attachment = validator.isUUID(String(attachmentId))
+    ? attachments.find((item) => item.id === attachmentId)
+    : undefined;
+  if (!attachment) {
+    throw createError({ statusCode: 404, message: "Attachment not found" });
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = await fs.readFile(path.join(tradeDir(tradeId), attachment.id));
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      throw createError({ statusCode: 404, message: "Attachment not found" });
+    }
+    throw error;
+  }
+
+  return {
+    ...attachment,
+    data: `data:${attachment.mimeType};base64,${buffer.toString("base64")}`,
+  };
+}
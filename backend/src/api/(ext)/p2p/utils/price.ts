@@ -0,0 +1,159 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { getFiatPriceInUSD } from "@b/api/finance/currency/utils";
+import { getCurrentPrice } from "@b/api/user/price-alert/utils";
+import { logError } from "@b/utils/logger";
+
+type PricedOffer = Pick<
+  p2pOfferAttributes,
+  "type" | "currency" | "walletType" | "priceConfig"
+>;
+
+/**
+ * Whether an offer's price follows the market instead of being fixed.
+ */
+export function isFloatingPrice(priceConfig: PriceConfiguration): boolean {
+  return priceConfig?.model === "MARGIN" || priceConfig?.model === "MARKET";
+}
+
+/**
+ * USD market price of an offer currency: the fiat rate for FIAT offers and
+ * the last exchange or ecosystem trade against USDT otherwise. Returns null
+ * when no price is available.
+ */
+export async function getOfferMarketPrice(
+  currency: string,
+  walletType: WALLET_TYPE
+): Promise<number | null> {
+  try {
+    if (walletType === "FIAT") {
+      return await getFiatPriceInUSD(currency);
+    }
+    if (currency === "USDT") return 1;
+    return await getCurrentPrice(walletType, `${currency}/USDT`);
+  } catch (error) {
+    logError("p2p_market_price", error, __filename);
+    return null;
+  }
+}
+
+/**
+ * Price of an offer at the given market price. MARGIN offers add their
+ * margin to the market price (a percentage unless the margin type is
+ * "fixed"), above the market for BUY offers and below it for SELL offers,
+ * then clamp to the optional floor and ceiling. FIXED offers, and floating
+ * offers without a market price, keep their stored price.
+ */
+export function calculateEffectivePrice(
+  offer: Pick<PricedOffer, "type" | "priceConfig">,
+  marketPrice: number | null
+): number {
+  const { priceConfig } = offer;
+  if (!isFloatingPrice(priceConfig) || !marketPrice) {
+    return priceConfig.finalPrice;
+  }
+
+  let price = marketPrice;
+  if (priceConfig.model === "MARGIN") {
+    const margin = (offer.type === "BUY" ? 1 : -1) * (priceConfig.value || 0);
+    price =
+      priceConfig.marginType === "fixed"
+        ? marketPrice + margin
+        : marketPrice * (1 + margin / 100);
+  }
+  if (priceConfig.floorPrice) price = Math.max(price, priceConfig.floorPrice);
+  if (priceConfig.ceilingPrice) {
+    price = Math.min(price, priceConfig.ceilingPrice);
+  }
+
+  return parseFloat(price.toFixed(8));
+}
+
+/**
+ * Price a trade on the offer is struck at right now. Throws when a floating
+ * offer cannot be priced because the market price is unavailable.
+ */
+export async function getLiveOfferPrice(offer: PricedOffer): Promise<number> {
+  if (!isFloatingPrice(offer.priceConfig)) {
+    return offer.priceConfig.finalPrice;
+  }
+  const marketPrice = await getOfferMarketPrice(
+    offer.currency,
+    offer.walletType
+  );
+  if (!marketPrice) {
+    throw new Error(`Market price for ${offer.currency} is unavailable`);
+  }
+  return calculateEffectivePrice(offer, marketPrice);
+}
+
+/**
+ * Replaces the stored price of floating offers with their live effective
+ * price for display. Market prices are fetched once per currency.
+ */
+export async function applyLivePrices<T extends PricedOffer>(
+  offers: T[]
+): Promise<T[]> {
+  const marketPrices = new Map<string, Promise<number | null>>();
+
+  for (const offer of offers) {
+    if (!offer?.priceConfig || !isFloatingPrice(offer.priceConfig)) continue;
+
+    const key = `${offer.walletType}:${offer.currency}`;
+    if (!marketPrices.has(key)) {
+      marketPrices.set(
+        key,
+        getOfferMarketPrice(offer.currency, offer.walletType)
+      );
+    }
+    const marketPrice = await marketPrices.get(key);
+    if (!marketPrice) continue;
+
+    offer.priceConfig = {
+      ...offer.priceConfig,
+      marketPrice,
+      finalPrice: calculateEffectivePrice(offer, marketPrice),
+    };
+  }
+
+  return offers;
+}
+
+/**
+ * Stores the current effective price on every open floating offer so that
+ * queries sorting or filtering on the stored price stay close to the market.
+ * Returns the number of offers whose price changed.
+ */
+export async function repriceFloatingOffers(): Promise<number> {
+  const offers = await models.p2pOffer.findAll({
+    where: {
+      status: { [Op.in]: ["PENDING_APPROVAL", "ACTIVE", "PAUSED"] },
+      "priceConfig.model": { [Op.in]: ["MARGIN", "MARKET"] },
+    },
+  });
+
+  const stored = new Map<string, PriceConfiguration>(
+    offers.map((offer) => [offer.id, offer.priceConfig])
+  );
+  await applyLivePrices(offers);
+
+  let repriced = 0;
+  for (const offer of offers) {
+    const previous = stored.get(offer.id);
+    if (offer.priceConfig.finalPrice === previous?.finalPrice) continue;
+
+    try {
+      await offer.update({
+        priceConfig: {
+          ...offer.priceConfig,
+          priceUpdatedAt: new Date().toISOString(),
+        },
+      });
+      repriced++;
+    } catch (error) {
+      logError("p2p_offer_reprice", error, __filename);
+    }
+  }
+
+  return repriced;
+}
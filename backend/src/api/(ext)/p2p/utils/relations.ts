@@ -0,0 +1,148 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { createError } from "@b/utils/error";
+
+/**
+ * Whether an offer is restricted to its owner's trusted counterparties
+ */
+export function isTrustedOnlyOffer(offer: {
+  userRequirements?: { trustedOnly?: boolean } | null;
+}): boolean {
+  return Boolean(offer?.userRequirements?.trustedOnly);
+}
+
+/**
+ * IDs of users the given user has blocked or been blocked by
+ */
+export async function getBlockedUserIds(userId: string): Promise<string[]> {
+  const relations = await models.p2pUserRelation.findAll({
+    where: {
+      type: "BLOCKED",
+      [Op.or]: [{ userId }, { targetUserId: userId }],
+    },
+    attributes: ["userId", "targetUserId"],
+    raw: true,
+  });
+
+  return [
+    ...new Set<string>(
+      relations.map((relation) =>
+        String(
+          relation.userId === userId ? relation.targetUserId : relation.userId
+        )
+      )
+    ),
+  ];
+}
+
+/**
+ * IDs of users who have marked the given user as trusted
+ */
+export async function getTrusterIds(userId: string): Promise<string[]> {
+  const relations = await models.p2pUserRelation.findAll({
+    where: { type: "TRUSTED", targetUserId: userId },
+    attributes: ["userId"],
+    raw: true,
+  });
+  return relations.map((relation) => relation.userId);
+}
+
+/**
+ * Check if either user has blocked the other
+ */
+export async function isBlockedBetween(
+  userId: string,
+  otherUserId: string
+): Promise<boolean> {
+  const count = await models.p2pUserRelation.count({
+    where: {
+      type: "BLOCKED",
+      [Op.or]: [
+        { userId, targetUserId: otherUserId },
+        { userId: otherUserId, targetUserId: userId },
+      ],
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Check if the owner has marked the user as trusted
+ */
+export async function isTrustedBy(
+  ownerId: string,
+  userId: string
+): Promise<boolean> {
+  const count = await models.p2pUserRelation.count({
+    where: { type: "TRUSTED", userId: ownerId, targetUserId: userId },
+  });
+  return count > 0;
+}
+
+/**
+ * Require that neither user has blocked the other or throw error
+ */
+export async function requireNotBlocked(
+  userId: string,
+  otherUserId: string
+): Promise<void> {
+  if (await isBlockedBetween(userId, otherUserId)) {
+    throw createError({
+      statusCode: 403,
+      message: "You cannot interact with this user",
+    });
+  }
+}
+
+/**
+ * Require that the user may see and take the offer: nobody is blocked and,
+ * for trusted-only offers, the owner trusts the user
+ */
+export async function requireOfferAccess(
+  userId: string,
+  offer: { userId: string; userRequirements?: any }
+): Promise<void> {
+  if (offer.userId === userId) return;
+
+  await requireNotBlocked(userId, offer.userId);
+  if (isTrustedOnlyOffer(offer) && !(await isTrustedBy(offer.userId, userId))) {
+    throw createError({
+      statusCode: 403,
+      message: "This offer is only available to the advertiser's trusted users",
+    });
+  }
+}
+
+/**
+ * Sequelize conditions hiding offers the viewer may not see: offers of
+ * blocked users and trusted-only offers whose owner does not trust the
+ * viewer. Anonymous viewers never see trusted-only offers.
+ */
+export async function getOfferVisibilityWhere(
+  viewerId?: string
+): Promise<Record<string | symbol, any>> {
+  const notTrustedOnly = {
+    [Op.or]: [
+      { "userRequirements.trustedOnly": { [Op.is]: null } },
+      { "userRequirements.trustedOnly": { [Op.ne]: "true" } },
+    ],
+  };
+
+  if (!viewerId) return notTrustedOnly;
+
+  const [blockedIds, trusterIds] = await Promise.all([
+    getBlockedUserIds(viewerId),
+    getTrusterIds(viewerId),
+  ]);
+
+  const where: Record<string | symbol, any> = {
+    [Op.or]: [
+      ...notTrustedOnly[Op.or],
+      { userId: { [Op.in]: [viewerId, ...trusterIds] } },
+    ],
+  };
+  if (blockedIds.length) {
+    where[Op.not] = { userId: { [Op.in]: blockedIds } };
+  }
+  return where;
+}
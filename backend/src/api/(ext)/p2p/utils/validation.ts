@@ -1,5 +1,6 @@
 import validator from "validator";
 import { createError } from "@b/utils/error";
+import { calculateEffectivePrice } from "./price";
 
 // Trade status transitions state machine
 const TRADE_STATUS_TRANSITIONS: Record<string, string[]> = {
@@ -247,19 +248,19 @@ export function validateEvidenceFile(file: any): {
     "image/jpeg",
     "image/png",
     "image/gif",
+    "image/webp",
     "application/pdf",
-    "text/plain"
   ];
 
   if (!allowedTypes.includes(file.mimetype)) {
     return { 
       isValid: false, 
-      error: "Invalid file type. Allowed: JPEG, PNG, GIF, PDF, TXT" 
+      error: "Invalid file type. Allowed: JPEG, PNG, GIF, WEBP, PDF" 
     };
   }
 
   // Check file extension
-  const allowedExtensions = [".jpg", ".jpeg", ".png", ".gif", ".pdf", ".txt"];
+  const allowedExtensions = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".pdf"];
   const ext = file.name.toLowerCase().substring(file.name.lastIndexOf("."));
   
   if (!allowedExtensions.includes(ext)) {
@@ -355,14 +356,13 @@ export function validateUserRequirements(data: any): {
 }
 
 /**
- * Validates price configuration
+ * Validates price configuration and computes the offer's current price
  */
-export function validatePriceConfig(data: any, marketPrice?: number): {
-  model: "FIXED" | "MARGIN";
-  value: number;
-  marketPrice?: number;
-  finalPrice: number;
-} {
+export function validatePriceConfig(
+  data: any,
+  offerType: "BUY" | "SELL",
+  marketPrice?: number | null
+): PriceConfiguration {
   if (!data || typeof data !== "object") {
     throw createError({ 
       statusCode: 400, 
@@ -370,48 +370,90 @@ export function validatePriceConfig(data: any, marketPrice?: number): {
     });
   }
 
-  if (!["FIXED", "MARGIN"].includes(data.model)) {
+  if (!["FIXED", "MARGIN", "MARKET"].includes(data.model)) {
     throw createError({ 
       statusCode: 400, 
-      message: "Price model must be FIXED or MARGIN" 
+      message: "Price model must be FIXED, MARGIN or MARKET" 
     });
   }
 
-  if (typeof data.value !== "number" || data.value <= 0) {
+  if (data.model === "FIXED" && (typeof data.value !== "number" || data.value <= 0)) {
     throw createError({ 
       statusCode: 400, 
       message: "Price value must be a positive number" 
     });
   }
 
-  let finalPrice: number;
-
   if (data.model === "FIXED") {
-    finalPrice = data.value;
-  } else {
-    // MARGIN model
-    if (!marketPrice || marketPrice <= 0) {
-      throw createError({ 
-        statusCode: 400, 
-        message: "Market price is required for margin pricing" 
-      });
-    }
+    return {
+      model: "FIXED",
+      value: data.value,
+      finalPrice: parseFloat(data.value.toFixed(8)), // 8 decimal places for crypto
+    };
+  }
+
+  // Floating models follow the market price
+  if (!marketPrice || marketPrice <= 0) {
+    throw createError({ 
+      statusCode: 400, 
+      message: "Market price is required for floating pricing" 
+    });
+  }
+
+  const marginType = data.marginType === "fixed" ? "fixed" : "percentage";
+  const value = data.model === "MARGIN" ? data.value : 0;
+  if (typeof value !== "number" || isNaN(value)) {
+    throw createError({ 
+      statusCode: 400, 
+      message: "Margin must be a number" 
+    });
+  }
 
-    // Validate margin percentage (-10% to +10%)
-    if (data.value < -10 || data.value > 10) {
+  // Validate margin percentage (-10% to +10%)
+  if (marginType === "percentage" && (value < -10 || value > 10)) {
+    throw createError({ 
+      statusCode: 400, 
+      message: "Margin must be between -10% and +10%" 
+    });
+  }
+
+  for (const field of ["floorPrice", "ceilingPrice"]) {
+    if (data[field] != null && (typeof data[field] !== "number" || data[field] <= 0)) {
       throw createError({ 
         statusCode: 400, 
-        message: "Margin must be between -10% and +10%" 
+        message: `${field === "floorPrice" ? "Floor" : "Ceiling"} price must be a positive number` 
       });
     }
+  }
 
-    finalPrice = marketPrice * (1 + data.value / 100);
+  if (data.floorPrice && data.ceilingPrice && data.floorPrice > data.ceilingPrice) {
+    throw createError({ 
+      statusCode: 400, 
+      message: "Floor price cannot be above the ceiling price" 
+    });
   }
 
-  return {
+  const priceConfig: PriceConfiguration = {
     model: data.model,
-    value: data.value,
-    marketPrice: data.model === "MARGIN" ? marketPrice : undefined,
-    finalPrice: parseFloat(finalPrice.toFixed(8)), // 8 decimal places for crypto
+    value,
+    ...(data.model === "MARGIN" ? { marginType } : {}),
+    ...(data.floorPrice ? { floorPrice: data.floorPrice } : {}),
+    ...(data.ceilingPrice ? { ceilingPrice: data.ceilingPrice } : {}),
+    marketPrice,
+    finalPrice: 0,
+    priceUpdatedAt: new Date().toISOString(),
   };
-}
\ No newline at end of file
+  priceConfig.finalPrice = calculateEffectivePrice(
+    { type: offerType, priceConfig },
+    marketPrice
+  );
+
+  if (priceConfig.finalPrice <= 0) {
+    throw createError({ 
+      statusCode: 400, 
+      message: "Margin results in a price of zero or less" 
+    });
+  }
+
+  return priceConfig;
+}
@@ -0,0 +1,56 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { notFoundMetadataResponse, serverErrorResponse } from "@b/utils/query";
+import { serializeCheckout } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a checkout",
+  description:
+    "Returns what the buyer needs to review a merchant payment on the hosted checkout page.",
+  operationId: "getPaymentCheckout",
+  tags: ["Payment Gateway"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the payment intent",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Checkout details",
+      content: {
+        "application/json": {
+          schema: { type: "object" },
+        },
+      },
+    },
+    404: notFoundMetadataResponse("Checkout"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: false,
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const intent = await models.paymentIntent.findOne({
+    where: { id: params.id },
+    include: [
+      { model: models.paymentIntentProduct, as: "products" },
+      {
+        model: models.user,
+        as: "merchant",
+        attributes: ["firstName", "lastName", "avatar"],
+      },
+    ],
+  });
+  if (!intent || !intent.merchantId) {
+    throw createError({ statusCode: 404, message: "Checkout not found" });
+  }
+
+  return serializeCheckout(intent);
+};
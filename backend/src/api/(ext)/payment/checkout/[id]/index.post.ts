@@ -0,0 +1,62 @@
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { payPaymentIntent } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Pays a checkout",
+  description:
+    "Pays a merchant payment intent from the authenticated user's wallet of the intent's currency and wallet type.",
+  operationId: "payPaymentCheckout",
+  tags: ["Payment Gateway"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the payment intent",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Payment completed",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              redirectUrl: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Payment cannot be completed" },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Checkout"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const intent = await payPaymentIntent(params.id, user.id);
+
+  const redirectUrl = new URL(intent.successUrl);
+  redirectUrl.searchParams.set("paymentId", intent.id);
+  return {
+    message: "Payment completed successfully",
+    redirectUrl: redirectUrl.toString(),
+  };
+};
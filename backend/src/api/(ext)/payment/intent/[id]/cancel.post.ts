@@ -0,0 +1,56 @@
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  cancelPaymentIntent,
+  getMerchantPaymentIntent,
+  paymentIntentSchema,
+  serializePaymentIntent,
+} from "../../utils";
+import { createError } from "@b/utils/error";
+
+export const metadata: OperationObject = {
+  summary: "Cancels a payment intent",
+  description: "Cancels a pending payment intent so it can no longer be paid.",
+  operationId: "cancelPaymentIntent",
+  tags: ["Payment Gateway"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the payment intent",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Payment intent cancelled",
+      content: {
+        "application/json": {
+          schema: { type: "object", properties: paymentIntentSchema },
+        },
+      },
+    },
+    400: { description: "Payment intent is not pending" },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Payment Intent"),
+    500: serverErrorResponse,
+  },
+  requiresApi: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  await cancelPaymentIntent(params.id, user.id);
+  const intent = await getMerchantPaymentIntent(params.id, user.id);
+  return serializePaymentIntent(intent);
+};
@@ -0,0 +1,53 @@
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  getMerchantPaymentIntent,
+  paymentIntentSchema,
+  serializePaymentIntent,
+} from "../../utils";
+import { createError } from "@b/utils/error";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a payment intent",
+  description: "Returns a payment intent created by the merchant.",
+  operationId: "getPaymentIntent",
+  tags: ["Payment Gateway"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the payment intent",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Payment intent details",
+      content: {
+        "application/json": {
+          schema: { type: "object", properties: paymentIntentSchema },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Payment Intent"),
+    500: serverErrorResponse,
+  },
+  requiresApi: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const intent = await getMerchantPaymentIntent(params.id, user.id);
+  return serializePaymentIntent(intent);
+};
@@ -0,0 +1,74 @@
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  getMerchantPaymentIntent,
+  paymentIntentSchema,
+  refundPaymentIntent,
+  serializePaymentIntent,
+} from "../../utils";
+import { createError } from "@b/utils/error";
+
+export const metadata: OperationObject = {
+  summary: "Refunds a payment intent",
+  description:
+    "Refunds all or part of a completed payment from the merchant's wallet to the buyer. Omit the amount to refund the remaining balance.",
+  operationId: "refundPaymentIntent",
+  tags: ["Payment Gateway"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the payment intent",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            amount: { type: "number", description: "Amount to refund" },
+            reason: {
+              type: "string",
+              description: "Reason for the refund, up to 255 characters",
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Refund processed",
+      content: {
+        "application/json": {
+          schema: { type: "object", properties: paymentIntentSchema },
+        },
+      },
+    },
+    400: { description: "Payment cannot be refunded" },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Payment Intent"),
+    500: serverErrorResponse,
+  },
+  requiresApi: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  await refundPaymentIntent(params.id, user?.id, body?.amount, body?.reason);
+  const intent = await getMerchantPaymentIntent(params.id, user.id);
+  return serializePaymentIntent(intent);
+};
@@ -0,0 +1,94 @@
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import {
+  createPaymentIntent,
+  paymentIntentProductSchema,
+  paymentIntentSchema,
+  serializePaymentIntent,
+} from "../utils";
+import { createError } from "@b/utils/error";
+
+export const metadata: OperationObject = {
+  summary: "Creates a payment intent",
+  description:
+    "Creates a checkout for the merchant owning the plugin API key. The buyer pays it from their platform wallet on the hosted checkout page returned as checkoutUrl, and the merchant is notified of status changes through a signed IPN callback.",
+  operationId: "createPaymentIntent",
+  tags: ["Payment Gateway"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            amount: {
+              type: "number",
+              description: "Subtotal before tax and discount",
+            },
+            currency: { type: "string", description: "Currency code" },
+            walletType: {
+              type: "string",
+              description: "Wallet type the buyer pays from: FIAT or SPOT",
+            },
+            tax: { type: "number", description: "Tax added to the amount" },
+            discount: {
+              type: "number",
+              description: "Discount subtracted from the amount",
+            },
+            reference: {
+              type: "string",
+              description:
+                "Merchant's own order reference, up to 191 characters",
+            },
+            description: { type: "string" },
+            ipnUrl: {
+              type: "string",
+              description: "URL that receives signed status notifications",
+            },
+            successUrl: {
+              type: "string",
+              description: "Where the buyer is sent after paying",
+            },
+            failUrl: {
+              type: "string",
+              description: "Where the buyer is sent if they cancel",
+            },
+            expiresIn: {
+              type: "number",
+              description:
+                "Minutes until the intent expires; defaults to the platform setting",
+            },
+            products: { type: "array", items: paymentIntentProductSchema },
+          },
+          required: ["amount", "currency", "ipnUrl", "successUrl", "failUrl"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Payment intent created",
+      content: {
+        "application/json": {
+          schema: { type: "object", properties: paymentIntentSchema },
+        },
+      },
+    },
+    400: { description: "Invalid payment details" },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresApi: true,
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+
+  // API key requests carry the key on the user set by the middleware
+  const { apiKeyId } = (user || {}) as { apiKeyId?: string };
+  if (!user?.id || !apiKeyId) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const intent = await createPaymentIntent({ id: user.id, apiKeyId }, body);
+  return serializePaymentIntent(intent);
+};
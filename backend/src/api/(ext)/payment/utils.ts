@@ -0,0 +1,882 @@
+import crypto from "crypto";
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import net, { LookupFunction } from "net";
+import ip from "ip";
+import { Op } from "sequelize";
+import { models, sequelize } from "@b/db";
+import { CacheManager } from "@b/utils/cache";
+import { createError } from "@b/utils/error";
+import { logError } from "@b/utils/logger";
+import { createNotification } from "@b/utils/notifications";
+import { isProduction } from "@b/utils/constants";
+
+// IPN deliveries are retried with exponential backoff (1 min, 2 min, ...)
+// capped at one hour, and abandoned after this many attempts.
+const IPN_MAX_ATTEMPTS = 8;
+const IPN_MAX_BACKOFF_MS = 60 * 60 * 1000;
+const IPN_TIMEOUT_MS = 10000;
+const DEFAULT_EXPIRATION_MINUTES = 30;
+
+export const paymentIntentProductSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", maxLength: 191 },
+    quantity: { type: "number", minimum: 1 },
+    price: { type: "number", minimum: 0 },
+    sku: { type: "string", maxLength: 191 },
+    image: { type: "string", nullable: true },
+  },
+  required: ["name", "quantity", "price"],
+};
+
+export const paymentIntentSchema = {
+  id: { type: "string", format: "uuid" },
+  merchantId: { type: "string", format: "uuid" },
+  userId: { type: "string", format: "uuid", nullable: true },
+  reference: { type: "string", nullable: true },
+  amount: { type: "number" },
+  tax: { type: "number" },
+  discount: { type: "number" },
+  total: { type: "number" },
+  fee: { type: "number" },
+  refundedAmount: { type: "number" },
+  currency: { type: "string" },
+  walletType: { type: "string", enum: ["FIAT", "SPOT"] },
+  status: {
+    type: "string",
+    enum: [
+      "PENDING",
+      "COMPLETED",
+      "FAILED",
+      "EXPIRED",
+      "CANCELLED",
+      "REFUNDED",
+      "PARTIALLY_REFUNDED",
+    ],
+  },
+  description: { type: "string", nullable: true },
+  ipnUrl: { type: "string" },
+  successUrl: { type: "string" },
+  failUrl: { type: "string" },
+  checkoutUrl: { type: "string" },
+  expiresAt: { type: "string", format: "date-time", nullable: true },
+  paidAt: { type: "string", format: "date-time", nullable: true },
+  createdAt: { type: "string", format: "date-time" },
+  products: { type: "array", items: paymentIntentProductSchema },
+};
+
+export function roundAmount(value: number) {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+export function getIntentTotal(intent: {
+  amount: number;
+  tax: number;
+  discount: number;
+}) {
+  return roundAmount(
+    Number(intent.amount) +
+      Number(intent.tax || 0) -
+      Number(intent.discount || 0)
+  );
+}
+
+export function getCheckoutUrl(intentId: string) {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+  return `${siteUrl.replace(/\/$/, "")}/payment/${intentId}`;
+}
+
+/**
+ * Validates a merchant callback or redirect URL. Plain http is only accepted
+ * outside production.
+ */
+export function validateMerchantUrl(value: string, field: string) {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: `${field} must be a valid URL`,
+    });
+  }
+  const allowed = isProduction ? ["https:"] : ["https:", "http:"];
+  if (!allowed.includes(url.protocol)) {
+    throw createError({
+      statusCode: 400,
+      message: `${field} must use ${isProduction ? "https" : "http or https"}`,
+    });
+  }
+  return url.toString();
+}
+
+// IPv6 prefixes that carry an IPv4 address in their last four bytes:
+// IPv4-compatible (::/96), IPv4-mapped (::ffff:0:0/96) and NAT64
+// (64:ff9b::/96). A connection to them reaches the embedded address.
+const EMBEDDED_IPV4_PREFIXES = [
+  "000000000000000000000000",
+  "00000000000000000000ffff",
+  "0064ff9b0000000000000000",
+].map((prefix) => Buffer.from(prefix, "hex"));
+
+/**
+ * Whether an address is publicly routable, as opposed to unspecified,
+ * loopback, private, shared (100.64/10), benchmarking (198.18/15),
+ * link-local, multicast or reserved (240/4). IPv6 addresses that embed an
+ * IPv4 address, including 6to4, are checked as that IPv4 address.
+ */
+function isPublicAddress(address: string): boolean {
+  let bytes = ip.toBuffer(address);
+  if (bytes.length === 16) {
+    const prefix = bytes.subarray(0, 12);
+    if (EMBEDDED_IPV4_PREFIXES.some((embedded) => embedded.equals(prefix))) {
+      bytes = bytes.subarray(12);
+    } else if (bytes[0] === 0x20 && bytes[1] === 0x02) {
+      bytes = bytes.subarray(2, 6);
+    }
+  }
+
+  if (bytes.length === 4) {
+    const [a, b] = bytes;
+    return !(
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+
+  return !(
+    // Local-use NAT64 (64:ff9b:1::/48)
+    bytes.subarray(0, 6).equals(Buffer.from("0064ff9b0001", "hex")) ||
+    (bytes[0] & 0xfe) === 0xfc ||
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) ||
+    bytes[0] === 0xff
+  );
+}
+
+/**
+ * Resolves the host of an IPN URL and ensures every address it resolves to
+ * is public, so merchants cannot make the server call into its own network.
+ */
+async function resolveIpnTarget(value: string, field: string) {
+  const url = new URL(validateMerchantUrl(value, field));
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map(
+        (record) => record.address
+      );
+    } catch {
+      throw createError({
+        statusCode: 400,
+        message: `${field} host could not be resolved`,
+      });
+    }
+  }
+
+  if (!addresses.length || !addresses.every(isPublicAddress)) {
+    throw createError({
+      statusCode: 400,
+      message: `${field} must point to a public address`,
+    });
+  }
+  return { url, address: addresses[0] };
+}
+
+/**
+ * Ensures the IPN URL only resolves to public addresses. Checked when the URL
+ * is set; deliveries check it again and connect to the address they checked.
+ */
+export async function validateIpnTarget(value: string, field = "ipnUrl") {
+  const { url } = await resolveIpnTarget(value, field);
+  return url.toString();
+}
+
+/**
+ * Posts to an IPN URL and resolves with the response status. The connection
+ * is pinned to the address that passed the check, so the host cannot be
+ * re-pointed at an internal address between the check and the request, and
+ * redirects are not followed.
+ */
+async function postIpn(
+  value: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<number> {
+  const { url, address } = await resolveIpnTarget(value, "ipnUrl");
+  const family = net.isIP(address);
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) =>
+    options.all
+      ? callback(null, [{ address, family }])
+      : callback(null, address, family);
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: pinnedLookup,
+        signal: AbortSignal.timeout(IPN_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Shapes an intent for merchant responses. The API key reference is never
+ * returned.
+ */
+export function serializePaymentIntent(intent: any) {
+  const { apiKey, ipnAttempts, ipnNextAttemptAt, ...rest } = intent.get
+    ? intent.get({ plain: true })
+    : intent;
+  return {
+    ...rest,
+    total: getIntentTotal(rest),
+    checkoutUrl: getCheckoutUrl(rest.id),
+  };
+}
+
+/**
+ * Shapes an intent for the hosted checkout page, exposing only what the buyer
+ * needs to see.
+ */
+export function serializeCheckout(intent: any) {
+  const plain = intent.get ? intent.get({ plain: true }) : intent;
+  return {
+    id: plain.id,
+    merchant: plain.merchant
+      ? {
+          firstName: plain.merchant.firstName,
+          lastName: plain.merchant.lastName,
+          avatar: plain.merchant.avatar,
+        }
+      : null,
+    reference: plain.reference,
+    description: plain.description,
+    amount: plain.amount,
+    tax: plain.tax,
+    discount: plain.discount,
+    total: getIntentTotal(plain),
+    currency: plain.currency,
+    walletType: plain.walletType,
+    status: plain.status,
+    expiresAt: plain.expiresAt,
+    paidAt: plain.paidAt,
+    successUrl: plain.successUrl,
+    failUrl: plain.failUrl,
+    products: (plain.products || []).map((product) => ({
+      name: product.name,
+      quantity: product.quantity,
+      price: product.price,
+      sku: product.sku,
+      image: product.image,
+    })),
+  };
+}
+
+async function getSettingNumber(key: string, fallback: number) {
+  const value = parseFloat(await CacheManager.getInstance().getSetting(key));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+async function ensureCurrencyAvailable(walletType: string, currency: string) {
+  const record =
+    walletType === "FIAT"
+      ? await models.currency.findOne({ where: { id: currency, status: true } })
+      : await models.exchangeCurrency.findOne({
+          where: { currency, status: true },
+        });
+  if (!record) {
+    throw createError({
+      statusCode: 400,
+      message: `Currency ${currency} is not available for ${walletType} payments`,
+    });
+  }
+}
+
+export async function getMerchantPaymentIntent(
+  intentId: string,
+  merchantId: string
+) {
+  const intent = await models.paymentIntent.findOne({
+    where: { id: intentId, merchantId },
+    include: [{ model: models.paymentIntentProduct, as: "products" }],
+  });
+  if (!intent) {
+    throw createError({ statusCode: 404, message: "Payment intent not found" });
+  }
+  return intent;
+}
+
+/**
+ * Creates a payment intent on behalf of the merchant owning a plugin API key.
+ * When line items are given, their total must match the intent amount.
+ */
+export async function createPaymentIntent(
+  merchant: { id: string; apiKeyId: string },
+  body: any
+) {
+  if (!merchant?.id) {
+    throw createError({
+      statusCode: 403,
+      message: "API key is not linked to a merchant account",
+    });
+  }
+
+  if (body.reference && String(body.reference).length > 191) {
+    throw createError({
+      statusCode: 400,
+      message: "Reference must be at most 191 characters",
+    });
+  }
+
+  const walletType = body.walletType || "SPOT";
+  if (!["FIAT", "SPOT"].includes(walletType)) {
+    throw createError({
+      statusCode: 400,
+      message: "walletType must be FIAT or SPOT",
+    });
+  }
+
+  const currency = String(body.currency).toUpperCase();
+  const amount = roundAmount(Number(body.amount));
+  const tax = roundAmount(Number(body.tax || 0));
+  const discount = roundAmount(Number(body.discount || 0));
+  if (!(amount > 0) || tax < 0 || discount < 0) {
+    throw createError({
+      statusCode: 400,
+      message:
+        "Amount must be positive and tax and discount cannot be negative",
+    });
+  }
+  if (getIntentTotal({ amount, tax, discount }) <= 0) {
+    throw createError({
+      statusCode: 400,
+      message: "Discount cannot exceed the amount plus tax",
+    });
+  }
+
+  const products = Array.isArray(body.products) ? body.products : [];
+  if (products.length) {
+    const subtotal = roundAmount(
+      products.reduce(
+        (sum, product) =>
+          sum + Number(product.price) * Number(product.quantity),
+        0
+      )
+    );
+    if (subtotal !== amount) {
+      throw createError({
+        statusCode: 400,
+        message: `Product total ${subtotal} does not match amount ${amount}`,
+      });
+    }
+  }
+
+  await ensureCurrencyAvailable(walletType, currency);
+  const ipnUrl = await validateIpnTarget(body.ipnUrl);
+
+  const expiresIn =
+    Number(body.expiresIn) > 0
+      ? Number(body.expiresIn)
+      : await getSettingNumber(
+          "paymentIntentExpiration",
+          DEFAULT_EXPIRATION_MINUTES
+        );
+
+  const intent = await sequelize.transaction(async (t) => {
+    const created = await models.paymentIntent.create(
+      {
+        merchantId: merchant.id,
+        apiKey: merchant.apiKeyId,
+        reference: body.reference || null,
+        description: body.description || null,
+        amount,
+        tax,
+        discount,
+        currency,
+        walletType,
+        ipnUrl,
+        successUrl: validateMerchantUrl(body.successUrl, "successUrl"),
+        failUrl: validateMerchantUrl(body.failUrl, "failUrl"),
+        expiresAt: new Date(Date.now() + expiresIn * 60 * 1000),
+      },
+      { transaction: t }
+    );
+
+    if (products.length) {
+      await models.paymentIntentProduct.bulkCreate(
+        products.map((product) => ({
+          paymentIntentId: created.id,
+          name: product.name,
+          quantity: product.quantity,
+          price: product.price,
+          currency,
+          sku: product.sku,
+          image: product.image || null,
+        })),
+        { transaction: t }
+      );
+    }
+
+    return created;
+  });
+
+  return getMerchantPaymentIntent(intent.id, merchant.id);
+}
+
+async function findOrCreateWallet(
+  userId: string,
+  type: string,
+  currency: string,
+  t: any
+) {
+  const wallet = await models.wallet.findOne({
+    where: { userId, type, currency },
+    transaction: t,
+    lock: t.LOCK.UPDATE,
+  });
+  if (wallet) return wallet;
+  return models.wallet.create({ userId, currency, type }, { transaction: t });
+}
+
+/**
+ * Pays a pending intent from the buyer's wallet. The total is debited from
+ * the buyer and credited to the merchant less the gateway fee.
+ */
+export async function payPaymentIntent(intentId: string, payerId: string) {
+  const feePercentage = await getSettingNumber("paymentGatewayFee", 0);
+
+  const intent = await sequelize.transaction(async (t) => {
+    const intent = await models.paymentIntent.findOne({
+      where: { id: intentId },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+    if (!intent) {
+      throw createError({ statusCode: 404, message: "Payment not found" });
+    }
+    if (intent.status !== "PENDING") {
+      throw createError({
+        statusCode: 400,
+        message: `Payment is already ${intent.status.toLowerCase()}`,
+      });
+    }
+    if (intent.expiresAt && new Date(intent.expiresAt) <= new Date()) {
+      throw createError({ statusCode: 400, message: "Payment has expired" });
+    }
+    if (intent.merchantId === payerId) {
+      throw createError({
+        statusCode: 400,
+        message: "You cannot pay your own payment request",
+      });
+    }
+
+    const total = getIntentTotal(intent);
+    const fee = roundAmount((total * feePercentage) / 100);
+
+    const payerWallet = await models.wallet.findOne({
+      where: {
+        userId: payerId,
+        type: intent.walletType,
+        currency: intent.currency,
+      },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+    if (!payerWallet || payerWallet.balance < total) {
+      throw createError({
+        statusCode: 400,
+        message: `Insufficient ${intent.currency} balance in your ${intent.walletType} wallet`,
+      });
+    }
+    const merchantWallet = await findOrCreateWallet(
+      intent.merchantId,
+      intent.walletType,
+      intent.currency,
+      t
+    );
+
+    await payerWallet.update(
+      { balance: roundAmount(payerWallet.balance - total) },
+      { transaction: t }
+    );
+    await merchantWallet.update(
+      { balance: roundAmount(merchantWallet.balance + total - fee) },
+      { transaction: t }
+    );
+
+    const description = `Payment ${intent.reference || intent.id}`;
+    const payerTransaction = await models.transaction.create(
+      {
+        userId: payerId,
+        walletId: payerWallet.id,
+        type: "PAYMENT",
+        status: "COMPLETED",
+        amount: total,
+        fee: 0,
+        description,
+        referenceId: intent.id,
+        metadata: JSON.stringify({ paymentIntentId: intent.id, role: "PAYER" }),
+      },
+      { transaction: t }
+    );
+    const merchantTransaction = await models.transaction.create(
+      {
+        userId: intent.merchantId,
+        walletId: merchantWallet.id,
+        type: "PAYMENT",
+        status: "COMPLETED",
+        amount: total,
+        fee,
+        description,
+        metadata: JSON.stringify({
+          paymentIntentId: intent.id,
+          role: "MERCHANT",
+        }),
+      },
+      { transaction: t }
+    );
+
+    if (fee > 0) {
+      await models.adminProfit.create(
+        {
+          amount: fee,
+          currency: intent.currency,
+          type: "PAYMENT",
+          transactionId: merchantTransaction.id,
+          description: `Payment gateway fee for merchant (${intent.merchantId}) of ${fee} ${intent.currency}`,
+        },
+        { transaction: t }
+      );
+    }
+
+    await intent.update(
+      {
+        status: "COMPLETED",
+        userId: payerId,
+        walletId: payerWallet.id,
+        transactionId: payerTransaction.id,
+        fee,
+        paidAt: new Date(),
+        ...ipnQueuedFields(),
+      },
+      { transaction: t }
+    );
+
+    return intent;
+  });
+
+  const total = getIntentTotal(intent);
+  await createNotification({
+    userId: intent.merchantId,
+    relatedId: intent.id,
+    type: "system",
+    title: "Payment received",
+    message: `You received ${total} ${intent.currency} for ${intent.reference || "payment " + intent.id}`,
+    link: "/finance/history",
+  });
+  deliverIpnInBackground(intent.id);
+
+  return intent;
+}
+
+/**
+ * Refunds all or part of a completed intent from the merchant's wallet back
+ * to the buyer. The gateway fee is not returned to the merchant.
+ */
+export async function refundPaymentIntent(
+  intentId: string,
+  merchantId: string,
+  requestedAmount?: number,
+  reason?: string
+) {
+  if (reason && String(reason).length > 255) {
+    throw createError({
+      statusCode: 400,
+      message: "Refund reason must be at most 255 characters",
+    });
+  }
+
+  const { intent, amount } = await sequelize.transaction(async (t) => {
+    const intent = await models.paymentIntent.findOne({
+      where: { id: intentId, merchantId },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+    if (!intent) {
+      throw createError({
+        statusCode: 404,
+        message: "Payment intent not found",
+      });
+    }
+    if (!["COMPLETED", "PARTIALLY_REFUNDED"].includes(intent.status)) {
+      throw createError({
+        statusCode: 400,
+        message: "Only completed payments can be refunded",
+      });
+    }
+
+    const remaining = roundAmount(
+      getIntentTotal(intent) - Number(intent.refundedAmount || 0)
+    );
+    const amount = roundAmount(
+      requestedAmount !== undefined && requestedAmount !== null
+        ? Number(requestedAmount)
+        : remaining
+    );
+    if (!(amount > 0) || amount > remaining) {
+      throw createError({
+        statusCode: 400,
+        message: `Refund amount must be between 0 and ${remaining} ${intent.currency}`,
+      });
+    }
+
+    const merchantWallet = await models.wallet.findOne({
+      where: {
+        userId: merchantId,
+        type: intent.walletType,
+        currency: intent.currency,
+      },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+    if (!merchantWallet || merchantWallet.balance < amount) {
+      throw createError({
+        statusCode: 400,
+        message: "Insufficient merchant balance for this refund",
+      });
+    }
+    const payerWallet = await findOrCreateWallet(
+      intent.userId,
+      intent.walletType,
+      intent.currency,
+      t
+    );
+
+    await merchantWallet.update(
+      { balance: roundAmount(merchantWallet.balance - amount) },
+      { transaction: t }
+    );
+    await payerWallet.update(
+      { balance: roundAmount(payerWallet.balance + amount) },
+      { transaction: t }
+    );
+
+    const description = `Refund for payment ${intent.reference || intent.id}${
+      reason ? `: ${reason}` : ""
+    }`;
+    for (const [userId, walletId, role] of [
+      [merchantId, merchantWallet.id, "MERCHANT"],
+      [intent.userId, payerWallet.id, "PAYER"],
+    ]) {
+      await models.transaction.create(
+        {
+          userId,
+          walletId,
+          type: "REFUND",
+          status: "COMPLETED",
+          amount,
+          fee: 0,
+          description,
+          metadata: JSON.stringify({ paymentIntentId: intent.id, role }),
+        },
+        { transaction: t }
+      );
+    }
+
+    const refundedAmount = roundAmount(
+      Number(intent.refundedAmount || 0) + amount
+    );
+    await intent.update(
+      {
+        refundedAmount,
+        status:
+          refundedAmount >= getIntentTotal(intent)
+            ? "REFUNDED"
+            : "PARTIALLY_REFUNDED",
+        ...ipnQueuedFields(),
+      },
+      { transaction: t }
+    );
+
+    return { intent, amount };
+  });
+
+  await createNotification({
+    userId: intent.userId,
+    relatedId: intent.id,
+    type: "system",
+    title: "Payment refunded",
+    message: `${amount} ${intent.currency} was refunded for ${intent.reference || "payment " + intent.id}`,
+    link: "/finance/history",
+  });
+  deliverIpnInBackground(intent.id);
+
+  return intent;
+}
+
+/**
+ * Cancels a pending intent so it can no longer be paid.
+ */
+export async function cancelPaymentIntent(
+  intentId: string,
+  merchantId: string
+) {
+  const [updated] = await models.paymentIntent.update(
+    { status: "CANCELLED", ...ipnQueuedFields() },
+    { where: { id: intentId, merchantId, status: "PENDING" } }
+  );
+  if (!updated) {
+    throw createError({
+      statusCode: 400,
+      message: "Only pending payment intents can be cancelled",
+    });
+  }
+  deliverIpnInBackground(intentId);
+}
+
+// Fields that schedule a fresh IPN delivery for the intent's new status.
+function ipnQueuedFields() {
+  return { ipnAttempts: 0, ipnNextAttemptAt: new Date(), ipnDeliveredAt: null };
+}
+
+export function signIpnPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+) {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+/**
+ * Posts the intent's current state to the merchant's IPN URL, signed with the
+ * API key's signing secret (or the key itself when it has none). Failed
+ * deliveries are rescheduled with backoff.
+ */
+export async function deliverIpn(intentId: string) {
+  const intent = await models.paymentIntent.findByPk(intentId);
+  if (!intent || !intent.ipnNextAttemptAt) return false;
+
+  const apiKey = await models.apiKey.findByPk(intent.apiKey);
+  if (!apiKey) {
+    await intent.update({ ipnNextAttemptAt: null });
+    return false;
+  }
+
+  const body = JSON.stringify({
+    id: intent.id,
+    reference: intent.reference,
+    status: intent.status,
+    amount: intent.amount,
+    tax: intent.tax,
+    discount: intent.discount,
+    total: getIntentTotal(intent),
+    fee: intent.fee,
+    refundedAmount: intent.refundedAmount,
+    currency: intent.currency,
+    walletType: intent.walletType,
+    paidAt: intent.paidAt,
+    sentAt: new Date().toISOString(),
+  });
+  const timestamp = Date.now();
+
+  let delivered = false;
+  try {
+    const status = await postIpn(
+      intent.ipnUrl,
+      {
+        "Content-Type": "application/json",
+        "X-Payment-Timestamp": String(timestamp),
+        "X-Payment-Signature": signIpnPayload(
+          apiKey.secret || apiKey.key,
+          timestamp,
+          body
+        ),
+      },
+      body
+    );
+    delivered = status >= 200 && status < 300;
+  } catch (error) {
+    logError("payment_ipn", error, __filename);
+  }
+
+  const attempts = intent.ipnAttempts + 1;
+  await intent.update(
+    delivered
+      ? {
+          ipnAttempts: attempts,
+          ipnDeliveredAt: new Date(),
+          ipnNextAttemptAt: null,
+        }
+      : {
+          ipnAttempts: attempts,
+          ipnNextAttemptAt:
+            attempts >= IPN_MAX_ATTEMPTS
+              ? null
+              : new Date(
+                  Date.now() +
+                    Math.min(
+                      60 * 1000 * 2 ** (attempts - 1),
+                      IPN_MAX_BACKOFF_MS
+                    )
+                ),
+        }
+  );
+  return delivered;
+}
+
+function deliverIpnInBackground(intentId: string) {
+  deliverIpn(intentId).catch((error) =>
+    logError("payment_ipn", error, __filename)
+  );
+}
+
+/**
+ * Expires unpaid intents past their deadline and delivers due IPNs. Run by
+ * the payment gateway cron job.
+ */
+export async function processPaymentIntents() {
+  const now = new Date();
+  const [expired] = await models.paymentIntent.update(
+    { status: "EXPIRED", ...ipnQueuedFields() },
+    { where: { status: "PENDING", expiresAt: { [Op.lte]: now } } }
+  );
+
+  const due = await models.paymentIntent.findAll({
+    where: { ipnNextAttemptAt: { [Op.lte]: now } },
+    attributes: ["id"],
+    order: [["ipnNextAttemptAt", "ASC"]],
+    limit: 100,
+  });
+
+  let delivered = 0;
+  for (const { id } of due) {
+    if (await deliverIpn(id)) delivered++;
+  }
+
+  return { expired, attempted: due.length, delivered };
+}
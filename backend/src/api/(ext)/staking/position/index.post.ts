@@ -9,6 +9,7 @@ export const metadata = {
   operationId: "stakeTokens",
   tags: ["Staking", "Positions"],
   requiresAuth: true,
+  kycFeature: "invest_staking",
   rateLimit: {
     windowMs: 60000, // 1 minute
     max: 5 // 5 requests per minute
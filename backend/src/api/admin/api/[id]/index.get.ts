@@ -78,6 +78,6 @@ export default async (data: Handler) => {
         required: false,
       },
     ],
-    ["createdAt", "updatedAt"]
+    ["createdAt", "updatedAt", "secret"]
   );
 };
@@ -1,5 +1,6 @@
 import { createError } from "@b/utils/error";
 import { models } from "@b/db";
+import { sanitizeApiKey } from "@b/api/user/api-key/utils";
 
 export const metadata: OperationObject = {
   summary: "Updates an API key",
@@ -127,7 +128,7 @@ export default async (data) => {
   // Update only the provided fields
   const updatedApiKey = await apiKey.update(updatedFields);
 
-  return updatedApiKey;
+  return sanitizeApiKey(updatedApiKey);
 };
 
 const sanitizePermissions = (permissions) => {
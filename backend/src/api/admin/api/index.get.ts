@@ -75,6 +75,7 @@ export default async (data: Handler) => {
     model: models.apiKey,
     query,
     sortField: query.sortField || "createdAt",
+    excludeFields: ["secret"],
     includeModels: [
       {
         model: models.user,
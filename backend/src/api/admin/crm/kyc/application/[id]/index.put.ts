@@ -4,6 +4,7 @@ import { models } from "@b/db";
 import { createError } from "@b/utils/error";
 import { sendKycEmail } from "@b/utils/emails";
 import { RedisSingleton } from "@b/utils/redis";
+import { getKycApprovalExpiry } from "@b/utils/kyc";
 
 export const metadata = {
   summary: "Updates an existing KYC application",
@@ -68,7 +69,13 @@ export default async (req: Handler): Promise<any> => {
 
   // Validate status if provided
   if (status !== undefined) {
-    const validStatuses = ["PENDING", "APPROVED", "REJECTED", "ADDITIONAL_INFO_REQUIRED"];
+    const validStatuses = [
+      "PENDING",
+      "APPROVED",
+      "REJECTED",
+      "ADDITIONAL_INFO_REQUIRED",
+      "EXPIRED",
+    ];
     if (!validStatuses.includes(status)) {
       throw createError({
         statusCode: 400,
@@ -91,6 +98,17 @@ export default async (req: Handler): Promise<any> => {
   if (body.adminNotes !== undefined) kycApplication.adminNotes = body.adminNotes;
 
   kycApplication.reviewedAt = new Date(); // Set the reviewedAt timestamp
+
+  // A new approval starts a new validity period
+  if (status === "APPROVED" && oldStatus !== "APPROVED") {
+    const { expiresAt, documentExpiresAt } = await getKycApprovalExpiry(
+      kycApplication,
+      kycApplication.reviewedAt
+    );
+    kycApplication.expiresAt = expiresAt;
+    kycApplication.documentExpiresAt = documentExpiresAt;
+    kycApplication.expiryNotifiedAt = null;
+  }
   await kycApplication.save();
 
   // Clear user cache if status changed (especially for approvals/rejections)
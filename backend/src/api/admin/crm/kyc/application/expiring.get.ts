@@ -0,0 +1,91 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import {
+  getFiltered,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { getKycExpiryWarningDays, getKycValidity } from "@b/utils/kyc";
+
+export const metadata: OperationObject = {
+  summary: "Lists approved KYC applications due for re-verification",
+  description:
+    "Approved KYC applications expiring within the given number of days, soonest first. Defaults to the expiry warning period.",
+  operationId: "listExpiringKycApplications",
+  tags: ["Admin", "CRM", "KYC"],
+  parameters: [
+    ...crudParameters,
+    {
+      name: "days",
+      in: "query",
+      description: "Include applications expiring within this many days",
+      schema: { type: "number" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Paginated list of approved applications by expiry date",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              items: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.kyc.application",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  const warningDays = await getKycExpiryWarningDays();
+  const days = Number(query.days);
+  const withinDays = Number.isFinite(days) && days >= 0 ? days : warningDays;
+
+  const result = await getFiltered({
+    model: models.kycApplication,
+    query: { sortOrder: "asc", ...query },
+    sortField: query.sortField || "expiresAt",
+    where: {
+      status: "APPROVED",
+      expiresAt: {
+        [Op.ne]: null,
+        [Op.lte]: new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000),
+      },
+    },
+    includeModels: [
+      {
+        model: models.user,
+        as: "user",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+      {
+        model: models.kycLevel,
+        as: "level",
+        attributes: ["id", "name", "level"],
+      },
+    ],
+    excludeFields: ["data"],
+  });
+
+  return {
+    ...result,
+    items: result.items.map((item: any) => {
+      const application = item.get ? item.get({ plain: true }) : item;
+      return {
+        ...application,
+        validity: getKycValidity(application, warningDays),
+      };
+    }),
+  };
+};
@@ -29,6 +29,12 @@ export const metadata = {
             level: { type: "number" },
             fields: { type: "array", items: { type: "object" } },
             features: { type: "array", items: { type: "string" } },
+            validityDays: {
+              type: "number",
+              nullable: true,
+              description:
+                "Days an approval stays valid before re-verification, empty for no expiry",
+            },
             serviceId: {
               type: "string",
               description: "Verification service ID",
@@ -78,8 +84,16 @@ export default async (data: Handler): Promise<any> => {
     throw createError({ statusCode: 404, message: "KYC level not found" });
   }
 
-  const { name, description, level, fields, features, serviceId, status } =
-    body;
+  const {
+    name,
+    description,
+    level,
+    fields,
+    features,
+    validityDays,
+    serviceId,
+    status,
+  } = body;
 
   // Validate serviceId if provided and not empty
   let validatedServiceId = null;
@@ -100,6 +114,7 @@ export default async (data: Handler): Promise<any> => {
     level,
     fields,
     features,
+    ...(validityDays !== undefined && { validityDays: validityDays || null }),
     serviceId: validatedServiceId, // Use validated serviceId or null
     status,
     updatedAt: new Date(),
@@ -26,6 +26,12 @@ export const metadata = {
               description: "Array of features",
               items: { type: "string" },
             },
+            validityDays: {
+              type: "number",
+              nullable: true,
+              description:
+                "Days an approval stays valid before re-verification, empty for no expiry",
+            },
             serviceId: {
               type: "string",
               description: "Verification service ID",
@@ -65,8 +71,16 @@ export const metadata = {
 
 export default async (data: Handler): Promise<any> => {
   const { body } = data;
-  const { name, description, level, fields, features, serviceId, status } =
-    body;
+  const {
+    name,
+    description,
+    level,
+    fields,
+    features,
+    validityDays,
+    serviceId,
+    status,
+  } = body;
   if (!name || level === undefined || !status) {
     throw createError({ statusCode: 400, message: "Missing required fields" });
   }
@@ -90,6 +104,7 @@ export default async (data: Handler): Promise<any> => {
     level,
     fields: fields || [],
     features: features || [],
+    validityDays: validityDays || null,
     serviceId: validatedServiceId, // Use validated serviceId or null
     status,
   });
@@ -0,0 +1,99 @@
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { reviewScreeningMatch } from "@b/utils/sanctions";
+
+export const metadata: OperationObject = {
+  summary: "Accepts or dismisses a sanctions screening match",
+  description:
+    "Accepting confirms the user is the listed person and bans the account. Dismissing marks a false positive and lifts the account hold once no other match relies on it.",
+  operationId: "reviewKycScreeningMatch",
+  tags: ["Admin", "CRM", "KYC"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the screening match",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            decision: {
+              type: "string",
+              enum: ["ACCEPT", "DISMISS"],
+              description: "Whether the match is a true or a false positive",
+            },
+            note: {
+              type: "string",
+              description: "Reason for the decision",
+            },
+          },
+          required: ["decision"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Match reviewed",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              match: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid decision or match already reviewed" },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Screening match"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "edit.kyc.screening",
+};
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { decision, note } = body;
+  if (decision !== "ACCEPT" && decision !== "DISMISS") {
+    throw createError({
+      statusCode: 400,
+      message: "Decision must be ACCEPT or DISMISS",
+    });
+  }
+  if (note !== undefined && (typeof note !== "string" || note.length > 5000)) {
+    throw createError({
+      statusCode: 400,
+      message: "Note must be a string of at most 5000 characters",
+    });
+  }
+
+  const match = await reviewScreeningMatch(params.id, user.id, decision, note);
+  return {
+    message:
+      decision === "ACCEPT"
+        ? "Match accepted and account banned"
+        : "Match dismissed",
+    match,
+  };
+};
@@ -0,0 +1,70 @@
+import { models } from "@b/db";
+import {
+  getFiltered,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+
+export const metadata: OperationObject = {
+  summary: "Lists sanctions screening matches for review",
+  description:
+    "Watchlist matches raised by registration, KYC submission and nightly rescans. Filter on status PENDING for the review queue.",
+  operationId: "listKycScreeningMatches",
+  tags: ["Admin", "CRM", "KYC"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Paginated list of screening matches",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              items: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.kyc.screening",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.kycScreeningMatch,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: [
+      {
+        model: models.user,
+        as: "user",
+        attributes: [
+          "id",
+          "firstName",
+          "lastName",
+          "email",
+          "avatar",
+          "status",
+        ],
+      },
+      {
+        model: models.user,
+        as: "reviewer",
+        attributes: ["id", "firstName", "lastName"],
+      },
+      {
+        model: models.userBlock,
+        as: "hold",
+        attributes: ["id", "reason", "isActive", "createdAt"],
+      },
+    ],
+  });
+};
@@ -0,0 +1,28 @@
+import { deleteRecordResponses } from "@b/utils/query";
+import { removeWatchlist } from "@b/utils/sanctions";
+
+export const metadata: OperationObject = {
+  summary: "Removes a sanctions watchlist",
+  description:
+    "Deletes a watchlist import and its entries. Users are no longer screened against it; existing matches are kept.",
+  operationId: "deleteKycWatchlist",
+  tags: ["Admin", "CRM", "KYC"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the watchlist import",
+      schema: { type: "string" },
+    },
+  ],
+  responses: deleteRecordResponses("Watchlist"),
+  requiresAuth: true,
+  permission: "delete.kyc.screening",
+};
+
+export default async (data: Handler) => {
+  await removeWatchlist(data.params.id);
+  return { message: "Watchlist removed successfully" };
+};
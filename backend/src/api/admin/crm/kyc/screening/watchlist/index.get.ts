@@ -0,0 +1,53 @@
+import { models } from "@b/db";
+import {
+  getFiltered,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+
+export const metadata: OperationObject = {
+  summary: "Lists imported sanctions watchlists",
+  description:
+    "Watchlist imports with their entry counts. ACTIVE lists are screened against; REPLACED imports are kept as history.",
+  operationId: "listKycWatchlists",
+  tags: ["Admin", "CRM", "KYC"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Paginated list of watchlist imports",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              items: { type: "array", items: { type: "object" } },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.kyc.screening",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.kycWatchlist,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: [
+      {
+        model: models.user,
+        as: "importer",
+        attributes: ["id", "firstName", "lastName"],
+      },
+    ],
+  });
+};
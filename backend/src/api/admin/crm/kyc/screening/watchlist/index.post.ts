@@ -0,0 +1,98 @@
+import { createError } from "@b/utils/error";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { importWatchlist, WATCHLIST_SOURCES } from "@b/utils/sanctions";
+import { decodeWatchlistFile, parseWatchlistFile } from "@b/utils/watchlist";
+
+export const metadata: OperationObject = {
+  summary: "Imports a sanctions watchlist",
+  description:
+    "Imports an OFAC, EU or UN consolidated sanctions list from an XML or CSV file, replacing the active list of the same source. Existing users are screened against it on the next nightly rescan.",
+  operationId: "importKycWatchlist",
+  tags: ["Admin", "CRM", "KYC"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            source: {
+              type: "string",
+              enum: WATCHLIST_SOURCES,
+              description: "Authority that publishes the list",
+            },
+            file: {
+              type: "string",
+              description: "List file as a data URL or plain text",
+            },
+            fileName: {
+              type: "string",
+              description: "Name of the uploaded file",
+            },
+          },
+          required: ["source", "file"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Watchlist imported",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              watchlist: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Unknown source or unreadable list file" },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "create.kyc.screening",
+};
+
+export default async (data: Handler) => {
+  const { body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { source, file, fileName } = body;
+  if (!WATCHLIST_SOURCES.includes(source)) {
+    throw createError({
+      statusCode: 400,
+      message: `Source must be one of ${WATCHLIST_SOURCES.join(", ")}`,
+    });
+  }
+  if (!file) {
+    throw createError({
+      statusCode: 400,
+      message: "No watchlist file uploaded",
+    });
+  }
+
+  const { format, entries } = await parseWatchlistFile(
+    decodeWatchlistFile(file)
+  );
+  const watchlist = await importWatchlist({
+    source,
+    format,
+    fileName:
+      (typeof fileName === "string" && fileName.slice(0, 191)) ||
+      `${source.toLowerCase()}.${format.toLowerCase()}`,
+    entries,
+    importedBy: user.id,
+  });
+
+  return {
+    message: `Imported ${entries.length} ${source} watchlist entries`,
+    watchlist,
+  };
+};
@@ -5,6 +5,7 @@ import fs from "fs/promises";
 import path from "path";
 import { InlineDataPart, FileDataPart } from "@google/generative-ai";
 import { RedisSingleton } from "@b/utils/redis";
+import { getKycApprovalExpiry } from "@b/utils/kyc";
 
 // Metadata for the endpoint
 export const metadata = {
@@ -187,10 +188,19 @@ export default async (data: {
             ? "REJECTED"
             : "PENDING";
 
+    const reviewedAt = new Date();
     await application.update({
       status: newApplicationStatus,
-      updatedAt: new Date(),
-      reviewedAt: new Date(),
+      updatedAt: reviewedAt,
+      reviewedAt,
+      // A new approval starts a new validity period
+      ...(newApplicationStatus === "APPROVED" &&
+      application.status !== "APPROVED"
+        ? {
+            ...(await getKycApprovalExpiry(application, reviewedAt)),
+            expiryNotifiedAt: null,
+          }
+        : {}),
     });
 
     // Clear user cache if application was approved to ensure feature access updates immediately
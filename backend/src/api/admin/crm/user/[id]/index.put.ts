@@ -4,6 +4,7 @@ import { createError } from "@b/utils/error";
 import { models } from "@b/db";
 import { updateRecordResponses } from "@b/utils/query";
 import { userUpdateSchema } from "../utils";
+import { revokeUserSessions } from "@b/utils/session";
 
 export const metadata: OperationObject = {
   summary: "Updates a specific user by UUID",
@@ -100,6 +101,7 @@ export default async (data: Handler) => {
       { enabled: false },
       { where: { userId: id } }
     );
+    await revokeUserSessions(id);
   }
 
   return {
@@ -0,0 +1,58 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { revokeUserSessions } from "@b/utils/session";
+
+export const metadata: OperationObject = {
+  summary: "Force logout a user",
+  description:
+    "Revokes every session of a user, signing them out on all devices. They can sign in again unless their account is also blocked.",
+  operationId: "forceLogoutUser",
+  tags: ["Admin", "CRM", "User"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the user to log out",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "User logged out successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              revoked: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    403: { description: "Forbidden" },
+    404: { description: "User not found" },
+  },
+  requiresAuth: true,
+  permission: "edit.user",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  const { id } = params;
+
+  const targetUser = await models.user.findByPk(id, { attributes: ["id"] });
+  if (!targetUser) {
+    throw createError({
+      statusCode: 404,
+      message: "User not found",
+    });
+  }
+
+  const revoked = await revokeUserSessions(id);
+  return { message: "User logged out of all sessions", revoked };
+};
@@ -33,7 +33,7 @@ export const metadata = {
 export default async (data) => {
   const { body, params } = data;
   const { id } = params;
-  const { currency, pair, metadata, isTrending, isHot } = body;
+  const { currency, pair, metadata, isTrending, isHot, providers } = body;
 
   return await updateRecord("exchangeMarket", id, {
     currency,
@@ -41,5 +41,18 @@ export default async (data) => {
     metadata,
     isTrending,
     isHot,
+    providers: normalizeProviders(providers),
   });
 };
+
+// An empty list falls back to the global provider priority
+function normalizeProviders(providers?: string[] | null) {
+  if (providers === undefined) return undefined;
+  if (!Array.isArray(providers)) return null;
+  const names = [
+    ...new Set(
+      providers.map((provider) => String(provider).trim().toLowerCase())
+    ),
+  ].filter(Boolean);
+  return names.length ? names : null;
+}
@@ -64,6 +64,14 @@ const metadata = {
   },
 };
 
+const providers = {
+  type: "array",
+  nullable: true,
+  items: baseStringSchema("Exchange provider name", 191),
+  description:
+    "Providers new orders on this market are routed to, in order, null for the global priority",
+};
+
 const status = baseBooleanSchema("Operational status of the market");
 
 export const marketSchema = {
@@ -73,6 +81,7 @@ export const marketSchema = {
   isTrending,
   isHot,
   metadata,
+  providers,
   status,
 };
 
@@ -83,6 +92,7 @@ export const baseMarketSchema = {
   isTrending,
   isHot,
   metadata,
+  providers,
   status,
 };
 
@@ -94,6 +104,7 @@ export const MarketUpdateSchema = {
     isTrending,
     isHot,
     metadata,
+    providers,
   },
 };
 
@@ -1,6 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { updateRecordResponses } from "@b/utils/query";
-import { Op } from "sequelize";
+import ExchangeManager from "@b/utils/exchange";
 
 export const metadata = {
   summary: "Updates the status of an Exchange",
@@ -47,18 +47,12 @@ export default async (data: Handler) => {
   const transaction = await sequelize.transaction();
 
   try {
-    // Deactivate all other exchanges if status is true
-    if (status) {
-      await models.exchange.update(
-        { status: false },
-        { where: { id: { [Op.ne]: id } }, transaction }
-      );
-    }
-
-    // Update the status of the selected exchange
+    // Several providers may be active at once, orders are routed between
+    // them by priority and health
     await models.exchange.update({ status }, { where: { id }, transaction });
 
     await transaction.commit();
+    ExchangeManager.resetPrimary();
 
     return {
       statusCode: 200,
@@ -1,5 +1,6 @@
 import { updateRecord, updateRecordResponses } from "@b/utils/query";
 import { exchangeUpdateSchema } from "../utils";
+import ExchangeManager from "@b/utils/exchange";
 
 export const metadata = {
   summary: "Updates a specific exchange",
@@ -42,9 +43,10 @@ export default async (data) => {
     version,
     productId,
     type,
+    priority,
   } = body;
 
-  return await updateRecord("exchange", id, {
+  const result = await updateRecord("exchange", id, {
     name,
     title,
     status,
@@ -53,5 +55,8 @@ export default async (data) => {
     version,
     productId,
     type,
+    priority,
   });
+  ExchangeManager.resetPrimary();
+  return result;
 };
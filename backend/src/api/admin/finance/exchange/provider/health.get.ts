@@ -0,0 +1,47 @@
+import ExchangeManager from "@b/utils/exchange";
+import { getProviderHealth } from "@b/utils/exchange-health";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+
+export const metadata = {
+  summary: "Lists routing health of the active exchange providers",
+  description:
+    "Returns the health score, error rate, rate-limit hits and latency of each active provider in priority order, as used to route new spot orders.",
+  operationId: "getExchangeProviderHealth",
+  tags: ["Admin", "Exchange"],
+  responses: {
+    200: {
+      description: "Health of the active providers",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                provider: { type: "string" },
+                score: { type: "number" },
+                healthy: { type: "boolean" },
+                calls: { type: "number" },
+                errorRate: { type: "number" },
+                rateLimitHits: { type: "number" },
+                averageLatency: { type: "number" },
+                consecutiveFailures: { type: "number" },
+                unavailableUntil: { type: "number", nullable: true },
+                lastError: { type: "string", nullable: true },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.exchange",
+};
+
+export default async () => {
+  const providers = await ExchangeManager.getActiveProviders();
+  return providers.map((provider) => getProviderHealth(provider));
+};
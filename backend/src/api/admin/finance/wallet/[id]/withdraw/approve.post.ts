@@ -3,6 +3,7 @@ import { sendSpotWalletWithdrawalConfirmationEmail } from "@b/utils/emails";
 import { createError } from "@b/utils/error";
 import ExchangeManager from "@b/utils/exchange";
 import { models } from "@b/db";
+import { ensureWithdrawalReleased } from "@b/api/finance/withdraw/utils";
 import {
   notFoundMetadataResponse,
   serverErrorResponse,
@@ -60,6 +61,9 @@ export default async (data: Handler) => {
       throw new Error("Transaction is not pending");
     }
 
+    // Held withdrawals need their admin approvals before they are sent
+    ensureWithdrawalReleased(transaction);
+
     const { amount, userId } = transaction;
     const { currency, chain, address, memo } = transaction.metadata as any;
 
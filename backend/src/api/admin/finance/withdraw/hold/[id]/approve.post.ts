@@ -0,0 +1,81 @@
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { approveHeldWithdrawal } from "@b/api/finance/withdraw/utils";
+
+export const metadata = {
+  summary: "Approves a held withdrawal",
+  description:
+    "Records the current admin's approval of a withdrawal held by a withdrawal policy. The withdrawal is released once it has the number of distinct admin approvals the policy requires.",
+  operationId: "approveHeldWithdrawal",
+  tags: ["Admin", "Withdrawal Policies"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the held withdrawal transaction",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            note: {
+              type: "string",
+              description: "Optional note stored with the approval",
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Approval recorded",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              approvals: { type: "number" },
+              requiredApprovals: { type: "number" },
+              released: { type: "boolean" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Withdrawal"),
+    409: { description: "Admin already approved this withdrawal" },
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "edit.withdraw",
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const result = await approveHeldWithdrawal(params.id, user.id, body?.note);
+
+  return {
+    ...result,
+    message: result.released
+      ? "Withdrawal approved and released"
+      : `Approval recorded (${result.approvals} of ${result.requiredApprovals})`,
+  };
+};
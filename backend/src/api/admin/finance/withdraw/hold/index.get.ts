@@ -0,0 +1,93 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { getWithdrawalHold } from "@b/api/finance/withdraw/utils";
+
+export const metadata = {
+  summary: "Lists withdrawals held for review",
+  description:
+    "Lists pending withdrawals that exceeded a withdrawal policy limit or approval threshold, with the approvals recorded so far.",
+  operationId: "listHeldWithdrawals",
+  tags: ["Admin", "Withdrawal Policies"],
+  responses: {
+    200: {
+      description: "Held withdrawals retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                amount: { type: "number" },
+                fee: { type: "number" },
+                status: { type: "string" },
+                hold: {
+                  type: "object",
+                  properties: {
+                    reasons: { type: "array", items: { type: "string" } },
+                    requiredApprovals: { type: "number" },
+                    amountUsd: { type: "number", nullable: true },
+                    heldAt: { type: "string", format: "date-time" },
+                  },
+                },
+                approvals: { type: "array", items: { type: "object" } },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.withdraw",
+};
+
+export default async () => {
+  const transactions = await models.transaction.findAll({
+    where: {
+      type: "WITHDRAW",
+      status: "PENDING",
+      metadata: { [Op.like]: '%"status":"HELD"%' },
+    },
+    include: [
+      {
+        model: models.wallet,
+        as: "wallet",
+        attributes: ["currency", "type"],
+      },
+      {
+        model: models.user,
+        as: "user",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+      {
+        model: models.withdrawalApproval,
+        as: "withdrawalApprovals",
+        include: [
+          {
+            model: models.user,
+            as: "admin",
+            attributes: ["id", "firstName", "lastName", "email"],
+          },
+        ],
+      },
+    ],
+    order: [["createdAt", "ASC"]],
+  });
+
+  return transactions
+    .map((transaction) => {
+      const plain = transaction.get({ plain: true }) as any;
+      const { withdrawalApprovals, ...rest } = plain;
+      return {
+        ...rest,
+        hold: getWithdrawalHold(plain.metadata),
+        approvals: withdrawalApprovals || [],
+      };
+    })
+    .filter((transaction) => transaction.hold);
+};
@@ -3,6 +3,7 @@ import { updateRecordResponses } from "@b/utils/query";
 import { models, sequelize } from "@b/db";
 import { transactionUpdateSchema } from "@b/api/finance/transaction/utils";
 import { sendTransactionStatusUpdateEmail } from "@b/utils/emails";
+import { ensureWithdrawalReleased } from "@b/api/finance/withdraw/utils";
 
 export const metadata = {
   summary: "Updates an existing transaction",
@@ -55,6 +56,10 @@ export default async (data: Handler) => {
   if (transaction.status !== "PENDING") {
     throw new Error("Only pending transactions can be updated");
   }
+  if (status === "COMPLETED") {
+    // Held withdrawals need their admin approvals before they are completed
+    ensureWithdrawalReleased(transaction);
+  }
   transaction.amount = amount;
   transaction.fee = fee;
   transaction.description = description;
@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata = {
+  summary: "Deletes a withdrawal policy",
+  operationId: "deleteWithdrawalPolicy",
+  tags: ["Admin", "Withdrawal Policies"],
+  parameters: deleteRecordParams("withdrawal policy"),
+  responses: deleteRecordResponses("Withdrawal Policy"),
+  requiresAuth: true,
+  permission: "delete.withdraw.policy",
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "withdrawalPolicy",
+    id: params.id,
+    query,
+  });
+};
@@ -0,0 +1,47 @@
+import {
+  getRecord,
+  unauthorizedResponse,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+} from "@b/utils/query";
+import { baseWithdrawalPolicySchema } from "../utils";
+
+export const metadata = {
+  summary: "Retrieves a specific withdrawal policy by ID",
+  operationId: "getWithdrawalPolicyById",
+  tags: ["Admin", "Withdrawal Policies"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the withdrawal policy to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Withdrawal policy details",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: baseWithdrawalPolicySchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Withdrawal policy"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.withdraw.policy",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  return await getRecord("withdrawalPolicy", params.id);
+};
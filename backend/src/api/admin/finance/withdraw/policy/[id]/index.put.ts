@@ -0,0 +1,46 @@
+import { updateRecord, updateRecordResponses } from "@b/utils/query";
+import {
+  normalizeWithdrawalPolicy,
+  withdrawalPolicyUpdateSchema,
+} from "../utils";
+
+export const metadata = {
+  summary: "Updates an existing withdrawal policy",
+  operationId: "updateWithdrawalPolicy",
+  tags: ["Admin", "Withdrawal Policies"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the withdrawal policy to update",
+      required: true,
+      schema: {
+        type: "string",
+      },
+    },
+  ],
+  requestBody: {
+    required: true,
+    description: "Updated data for the withdrawal policy",
+    content: {
+      "application/json": {
+        schema: withdrawalPolicyUpdateSchema,
+      },
+    },
+  },
+  responses: updateRecordResponses("Withdrawal Policy"),
+  requiresAuth: true,
+  permission: "edit.withdraw.policy",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { id } = params;
+
+  return await updateRecord(
+    "withdrawalPolicy",
+    id,
+    normalizeWithdrawalPolicy(body)
+  );
+};
@@ -0,0 +1,43 @@
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+
+export const metadata = {
+  summary: "Bulk deletes withdrawal policies",
+  operationId: "bulkDeleteWithdrawalPolicies",
+  tags: ["Admin", "Withdrawal Policies"],
+  parameters: commonBulkDeleteParams("Withdrawal Policies"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of withdrawal policy IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("Withdrawal Policies"),
+  requiresAuth: true,
+  permission: "delete.withdraw.policy",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "withdrawalPolicy",
+    ids,
+    query,
+  });
+};
@@ -0,0 +1,54 @@
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { baseWithdrawalPolicySchema } from "./utils";
+
+export const metadata = {
+  summary: "Lists all withdrawal policies",
+  operationId: "listWithdrawalPolicies",
+  tags: ["Admin", "Withdrawal Policies"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description:
+        "Paginated list of withdrawal policies retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: baseWithdrawalPolicySchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Withdrawal Policies"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.withdraw.policy",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.withdrawalPolicy,
+    query,
+    sortField: query.sortField || "createdAt",
+  });
+};
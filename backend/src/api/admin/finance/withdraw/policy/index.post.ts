@@ -0,0 +1,37 @@
+import { storeRecord, storeRecordResponses } from "@b/utils/query";
+import {
+  normalizeWithdrawalPolicy,
+  withdrawalPolicyStoreSchema,
+  withdrawalPolicyUpdateSchema,
+} from "./utils";
+
+export const metadata = {
+  summary: "Stores a new withdrawal policy",
+  description:
+    "Creates a risk policy with rolling withdrawal limits and an approval threshold for a KYC level, wallet type and currency.",
+  operationId: "storeWithdrawalPolicy",
+  tags: ["Admin", "Withdrawal Policies"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: withdrawalPolicyUpdateSchema,
+      },
+    },
+  },
+  responses: storeRecordResponses(
+    withdrawalPolicyStoreSchema,
+    "Withdrawal Policy"
+  ),
+  requiresAuth: true,
+  permission: "create.withdraw.policy",
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+
+  return await storeRecord({
+    model: "withdrawalPolicy",
+    data: normalizeWithdrawalPolicy(body),
+  });
+};
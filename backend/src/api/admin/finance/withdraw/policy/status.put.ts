@@ -0,0 +1,39 @@
+import { updateRecordResponses, updateStatus } from "@b/utils/query";
+
+export const metadata = {
+  summary: "Bulk updates the status of withdrawal policies",
+  operationId: "bulkUpdateWithdrawalPolicyStatus",
+  tags: ["Admin", "Withdrawal Policies"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              description: "Array of withdrawal policy IDs to update",
+              items: { type: "string" },
+            },
+            status: {
+              type: "boolean",
+              description:
+                "New status to apply to the withdrawal policies (true for enforced, false for disabled)",
+            },
+          },
+          required: ["ids", "status"],
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("Withdrawal Policy"),
+  requiresAuth: true,
+  permission: "edit.withdraw.policy",
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+  const { ids, status } = body;
+  return updateStatus("withdrawalPolicy", ids, status);
+};
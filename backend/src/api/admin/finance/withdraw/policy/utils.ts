@@ -0,0 +1,136 @@
+import { createError } from "@b/utils/error";
+import {
+  baseNumberSchema,
+  baseStringSchema,
+  baseBooleanSchema,
+  baseIntegerSchema,
+} from "@b/utils/schema";
+
+// Base schema components for withdrawal policies
+const id = {
+  ...baseStringSchema("ID of the withdrawal policy"),
+  nullable: true,
+};
+const name = baseStringSchema("Name of the withdrawal policy");
+const kycLevel = baseIntegerSchema(
+  "KYC level the policy applies to, any level when empty",
+  true
+);
+const walletType = baseStringSchema(
+  "Wallet type the policy applies to (FIAT, SPOT or ECO), any type when empty",
+  191,
+  0,
+  true
+);
+const currency = baseStringSchema(
+  "Currency the policy applies to, any currency when empty",
+  191,
+  0,
+  true
+);
+const dailyLimit = baseNumberSchema(
+  "Maximum amount in the currency over a rolling 24 hours",
+  true
+);
+const monthlyLimit = baseNumberSchema(
+  "Maximum amount in the currency over a rolling 30 days",
+  true
+);
+const dailyLimitUsd = baseNumberSchema(
+  "Maximum USD value over a rolling 24 hours",
+  true
+);
+const monthlyLimitUsd = baseNumberSchema(
+  "Maximum USD value over a rolling 30 days",
+  true
+);
+const approvalThresholdUsd = baseNumberSchema(
+  "USD value from which a withdrawal needs admin approval",
+  true
+);
+const requiredApprovals = baseIntegerSchema(
+  "Distinct admin approvals needed to release a held withdrawal (1 or 2)"
+);
+const status = baseBooleanSchema("Whether the policy is enforced");
+
+// Base schema definition for withdrawal policies
+export const baseWithdrawalPolicySchema = {
+  id,
+  name,
+  kycLevel,
+  walletType,
+  currency,
+  dailyLimit,
+  monthlyLimit,
+  dailyLimitUsd,
+  monthlyLimitUsd,
+  approvalThresholdUsd,
+  requiredApprovals,
+  status,
+};
+
+// Schema for creating or updating a withdrawal policy
+export const withdrawalPolicyUpdateSchema = {
+  type: "object",
+  properties: {
+    name,
+    kycLevel,
+    walletType,
+    currency,
+    dailyLimit,
+    monthlyLimit,
+    dailyLimitUsd,
+    monthlyLimitUsd,
+    approvalThresholdUsd,
+    requiredApprovals,
+    status,
+  },
+  required: ["name", "requiredApprovals", "status"],
+};
+
+export const withdrawalPolicyStoreSchema = {
+  description: `Withdrawal policy created successfully`,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: baseWithdrawalPolicySchema,
+      },
+    },
+  },
+};
+
+// Empty form values mean "applies to all" or "no limit"
+export function normalizeWithdrawalPolicy(body: any) {
+  const nullable = (value: any) =>
+    value === "" || value === undefined ? null : value;
+
+  const walletType = nullable(body.walletType);
+  if (walletType !== null && !["FIAT", "SPOT", "ECO"].includes(walletType)) {
+    throw createError({
+      statusCode: 400,
+      message: "Wallet type must be FIAT, SPOT or ECO",
+    });
+  }
+  const requiredApprovals = Number(body.requiredApprovals) || 1;
+  if (![1, 2].includes(requiredApprovals)) {
+    throw createError({
+      statusCode: 400,
+      message: "Required approvals must be 1 or 2",
+    });
+  }
+
+  return {
+    name: body.name,
+    kycLevel: nullable(body.kycLevel),
+    walletType,
+    currency: nullable(body.currency),
+    dailyLimit: nullable(body.dailyLimit),
+    monthlyLimit: nullable(body.monthlyLimit),
+    dailyLimitUsd: nullable(body.dailyLimitUsd),
+    monthlyLimitUsd: nullable(body.monthlyLimitUsd),
+    approvalThresholdUsd: nullable(body.approvalThresholdUsd),
+    requiredApprovals,
+    status: body.status,
+  };
+}
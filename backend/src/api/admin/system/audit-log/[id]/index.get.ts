@@ -0,0 +1,47 @@
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { adminAuditLogIncludes, adminAuditLogSchema } from "../utils";
+
+export const metadata = {
+  summary: "Retrieves an admin audit log entry by ID",
+  operationId: "getAdminAuditLogById",
+  tags: ["Admin", "Audit Log"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the audit log entry to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Audit log entry details",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: adminAuditLogSchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Audit Log"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.system.audit",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  return await getRecord("adminAuditLog", params.id, adminAuditLogIncludes());
+};
@@ -0,0 +1,111 @@
+import { models } from "@b/db";
+import { getFiltered, unauthorizedResponse } from "@b/utils/query";
+import { stringify } from "csv-stringify/sync";
+import { adminAuditLogIncludes } from "./utils";
+
+// Maximum number of entries in a single export; narrow the filters to export
+// older entries.
+const MAX_EXPORT_ROWS = 10000;
+
+export const metadata: OperationObject = {
+  summary: "Exports admin audit log entries as a CSV file",
+  description:
+    "Exports the entries matching the same filter and sort parameters as the audit log list, newest first, up to 10,000 rows.",
+  operationId: "exportAdminAuditLogs",
+  tags: ["Admin", "Audit Log"],
+  parameters: [
+    {
+      name: "filter",
+      in: "query",
+      description: "Filter criteria, as used by the audit log list",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "sortField",
+      in: "query",
+      description: "Field to sort by",
+      required: false,
+      schema: { type: "string" },
+    },
+    {
+      name: "sortOrder",
+      in: "query",
+      description: "Sort order (asc or desc)",
+      required: false,
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "CSV file with audit log entries",
+      content: {
+        "text/csv": {
+          schema: { type: "string" },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+  },
+  requiresAuth: true,
+  permission: "export.system.audit",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  const { items } = await getFiltered({
+    model: models.adminAuditLog,
+    query: { ...query, page: 1, perPage: MAX_EXPORT_ROWS },
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    numericFields: ["statusCode"],
+    includeModels: adminAuditLogIncludes(),
+  });
+
+  const csv = stringify(
+    items.map((entry: any) => ({
+      createdAt: new Date(entry.createdAt).toISOString(),
+      adminId: entry.adminId,
+      adminEmail: entry.admin?.email || "",
+      method: entry.method,
+      route: entry.route,
+      path: entry.path,
+      targetModel: entry.targetModel || "",
+      targetId: entry.targetId || "",
+      statusCode: entry.statusCode,
+      error: entry.error || "",
+      ip: entry.ip || "",
+      userAgent: entry.userAgent || "",
+      changes: entry.changes ? JSON.stringify(entry.changes) : "",
+      omittedChanges: entry.omittedChanges,
+    })),
+    {
+      header: true,
+      columns: [
+        "createdAt",
+        "adminId",
+        "adminEmail",
+        "method",
+        "route",
+        "path",
+        "targetModel",
+        "targetId",
+        "statusCode",
+        "error",
+        "ip",
+        "userAgent",
+        "changes",
+        "omittedChanges",
+      ],
+    }
+  );
+
+  return {
+    data: csv,
+    headers: {
+      "Content-Type": "text/csv",
+      "Content-Disposition": `attachment; filename="admin_audit_log_${new Date().toISOString().split("T")[0]}.csv"`,
+    },
+  };
+};
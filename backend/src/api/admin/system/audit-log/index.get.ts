@@ -0,0 +1,57 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { adminAuditLogIncludes, adminAuditLogSchema } from "./utils";
+
+export const metadata = {
+  summary: "Lists admin audit log entries with pagination and filtering",
+  operationId: "listAdminAuditLogs",
+  tags: ["Admin", "Audit Log"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description:
+        "List of admin audit log entries with pagination information",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              items: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: adminAuditLogSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Audit Log"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "view.system.audit",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.adminAuditLog,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    numericFields: ["statusCode"],
+    includeModels: adminAuditLogIncludes(),
+  });
+};
@@ -0,0 +1,52 @@
+import { models } from "@b/db";
+
+export const adminAuditLogSchema = {
+  id: { type: "string", format: "uuid" },
+  adminId: { type: "string", format: "uuid" },
+  method: { type: "string" },
+  route: { type: "string" },
+  path: { type: "string" },
+  targetModel: { type: "string", nullable: true },
+  targetId: { type: "string", nullable: true },
+  changes: {
+    type: "array",
+    nullable: true,
+    items: {
+      type: "object",
+      properties: {
+        model: { type: "string" },
+        id: { type: "string", nullable: true },
+        action: {
+          type: "string",
+          enum: ["CREATE", "UPDATE", "DELETE", "RESTORE"],
+        },
+        before: { type: "object", nullable: true },
+        after: { type: "object", nullable: true },
+      },
+    },
+  },
+  omittedChanges: { type: "number" },
+  requestBody: { type: "object", nullable: true },
+  statusCode: { type: "number" },
+  error: { type: "string", nullable: true },
+  ip: { type: "string", nullable: true },
+  userAgent: { type: "string", nullable: true },
+  createdAt: { type: "string", format: "date-time" },
+  admin: {
+    type: "object",
+    properties: {
+      firstName: { type: "string" },
+      lastName: { type: "string" },
+      email: { type: "string" },
+      avatar: { type: "string" },
+    },
+  },
+};
+
+export const adminAuditLogIncludes = () => [
+  {
+    model: models.user,
+    as: "admin",
+    attributes: ["firstName", "lastName", "email", "avatar"],
+  },
+];
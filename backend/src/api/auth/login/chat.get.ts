@@ -93,14 +93,15 @@ export const metadata: OperationObject = {
 export default (data: Handler) => {
   const { query } = data;
   const { email, password, firstName, lastName } = query;
-  return loginUserChat(email, password, firstName, lastName);
+  return loginUserChat(email, password, firstName, lastName, data);
 };
 
 export const loginUserChat = async (
   email: string,
   password: string,
   firstName: string,
-  lastName: string
+  lastName: string,
+  request?: Handler
 ) => {
   // Validate input
   if (!validateEmail(email) || !validatePassword(password)) {
@@ -125,7 +126,7 @@ export const loginUserChat = async (
       hashedPassword,
       role,
     });
-    return await createSessionAndReturnResponse(newUser);
+    return await createSessionAndReturnResponse(newUser, request);
   } else {
     // Validate user status
     if (existingUser.status === "BANNED") {
@@ -148,6 +149,6 @@ export const loginUserChat = async (
       lastName,
       hashedPassword,
     });
-    return await createSessionAndReturnResponse(existingUser);
+    return await createSessionAndReturnResponse(existingUser, request);
   }
 };
@@ -13,6 +13,7 @@ import {
   verifyRecaptcha,
 } from "../utils";
 import { emailQueue } from "@b/utils/emails";
+import { createAuthenticationOptions } from "@b/utils/passkey";
 
 // Check reCAPTCHA status - use a function to check at runtime
 const isRecaptchaEnabled = () => 
@@ -121,6 +122,7 @@ export default async (data: Handler) => {
     return await returnUserWithTokens({
       user,
       message: "You have been logged in successfully",
+      request: data,
     });
   } catch (error) {
     throw createError({
@@ -252,6 +254,9 @@ async function handleTwoFactorAuthentication(user: any) {
   const type = user.twoFactor?.type;
   authenticator.options = { window: 2 };
   const otp = authenticator.generate(user.twoFactor.secret);
+  let passkeyOptions: Awaited<
+    ReturnType<typeof createAuthenticationOptions>
+  > | null = null;
 
   switch (type) {
     case "SMS":
@@ -263,6 +268,10 @@ async function handleTwoFactorAuthentication(user: any) {
     case "APP":
       // Handle APP OTP logic here if required
       break;
+    case "PASSKEY":
+      // Answered through the passkey login route, or with a recovery code
+      passkeyOptions = await createAuthenticationOptions("2fa", user.id);
+      break;
     default:
       throw createError({ statusCode: 400, message: "Invalid 2FA type" });
   }
@@ -274,6 +283,7 @@ async function handleTwoFactorAuthentication(user: any) {
     },
     id: user.id,
     message: "2FA required",
+    ...(passkeyOptions && { passkeyOptions }),
   };
 }
 
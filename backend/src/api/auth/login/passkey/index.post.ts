@@ -0,0 +1,105 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  assertPasskeysEnabled,
+  verifyPasskeyAssertion,
+} from "@b/utils/passkey";
+import { passkeyCredentialSchema } from "@b/api/user/profile/passkey/utils";
+import { returnUserWithTokens, sendEmailVerificationToken } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Logs in with a passkey",
+  description:
+    "Verifies a passkey assertion and logs the user in. Answers both a passwordless login challenge and the passkey step of a password login with two-factor authentication.",
+  operationId: "loginWithPasskey",
+  tags: ["Auth"],
+  requiresAuth: false,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            credential: passkeyCredentialSchema,
+          },
+          required: ["credential"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "User logged in successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid or expired passkey response" },
+    401: { description: "Passkey not recognized or invalid" },
+    403: { description: "Account is not active" },
+  },
+};
+
+export default async (data: Handler) => {
+  assertPasskeysEnabled();
+
+  const { passkey } = await verifyPasskeyAssertion(data.body.credential, [
+    "login",
+    "2fa",
+  ]);
+
+  const user = await models.user.findByPk(passkey.userId);
+  if (!user) {
+    throw createError({ statusCode: 401, message: "Passkey not recognized" });
+  }
+  if (user.status === "BANNED") {
+    throw createError({
+      statusCode: 403,
+      message: "Your account has been banned. Please contact support.",
+    });
+  }
+  if (user.status === "SUSPENDED") {
+    throw createError({
+      statusCode: 403,
+      message: "Your account is suspended. Please contact support.",
+    });
+  }
+  if (user.status === "INACTIVE") {
+    throw createError({
+      statusCode: 403,
+      message:
+        "Your account is inactive. Please verify your email or contact support.",
+    });
+  }
+  if (
+    process.env.NEXT_PUBLIC_VERIFY_EMAIL_STATUS === "true" &&
+    !user.emailVerified &&
+    user.email
+  ) {
+    await sendEmailVerificationToken(user.id, user.email);
+    throw createError({
+      statusCode: 400,
+      message: "User email not verified. Verification email sent.",
+    });
+  }
+
+  await user.update({
+    failedLoginAttempts: 0,
+    lastFailedLogin: null,
+    lastLogin: new Date(),
+  });
+
+  return await returnUserWithTokens({
+    user,
+    message: "You have been logged in successfully",
+    request: data,
+  });
+};
@@ -0,0 +1,23 @@
+import {
+  assertPasskeysEnabled,
+  createAuthenticationOptions,
+} from "@b/utils/passkey";
+import { passkeyOptionsResponse } from "@b/api/user/profile/passkey/utils";
+
+export const metadata: OperationObject = {
+  summary: "Starts a passkey login",
+  description:
+    "Returns the options for navigator.credentials.get() to log in without a password. The browser offers the passkeys it holds for this site.",
+  operationId: "getPasskeyLoginOptions",
+  tags: ["Auth"],
+  requiresAuth: false,
+  responses: {
+    200: passkeyOptionsResponse,
+    400: { description: "Passkeys are not enabled" },
+  },
+};
+
+export default async () => {
+  assertPasskeysEnabled();
+  return await createAuthenticationOptions("login");
+};
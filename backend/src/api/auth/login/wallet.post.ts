@@ -153,5 +153,6 @@ export default async (data: Handler) => {
   return await returnUserWithTokens({
     user,
     message: "You have been logged in successfully",
+    request: data,
   });
 };
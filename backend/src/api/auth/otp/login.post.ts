@@ -69,6 +69,17 @@ export default async (data: Handler) => {
 
   const user = await getUserWith2FA(id);
 
+  // Passkey logins are completed by the passkey login route, so a code sent
+  // here can only be a recovery code for a lost device.
+  if (user.twoFactor.type === "PASSKEY") {
+    await consumeRecoveryCode(user.twoFactor, otp);
+    return await returnUserWithTokens({
+      user,
+      message: "You have been logged in successfully",
+      request: data,
+    });
+  }
+
   let secretToVerify = user.twoFactor.secret;
   let wasPlaintext = false;
 
@@ -101,5 +112,6 @@ export default async (data: Handler) => {
   return await returnUserWithTokens({
     user,
     message: "You have been logged in successfully",
+    request: data,
   });
 };
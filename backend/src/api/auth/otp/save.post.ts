@@ -1,5 +1,6 @@
 import { models } from "@b/db";
 import { createError } from "@b/utils/error";
+import { getRequestSessionId, revokeUserSessions } from "@b/utils/session";
 import { encrypt } from "./utils";
 
 export const metadata: OperationObject = {
@@ -62,7 +63,12 @@ export default async (data: Handler) => {
 
   validateRequestBody(body);
 
-  const otpDetails = await saveOrUpdateOTP(user.id, body.secret, body.type);
+  const otpDetails = await saveOrUpdateOTP(
+    user.id,
+    body.secret,
+    body.type,
+    getRequestSessionId(data)
+  );
 
   return {
     message: "OTP saved successfully",
@@ -93,7 +99,8 @@ function validateRequestBody(body: { secret: string; type: string }) {
 export async function saveOrUpdateOTP(
   userId: string,
   secret: string,
-  type: "EMAIL" | "SMS" | "APP"
+  type: "EMAIL" | "SMS" | "APP",
+  currentSessionId?: string
 ) {
   const existingTwoFactor = await models.twoFactor.findOne({
     where: { userId },
@@ -101,8 +108,14 @@ export async function saveOrUpdateOTP(
 
   const encryptedSecret = encrypt(secret);
   if (existingTwoFactor) {
-    // Update existing record
-    return await updateTwoFactor(existingTwoFactor.id, encryptedSecret, type);
+    // Update existing record, signing out sessions that used the old secret
+    const updated = await updateTwoFactor(
+      existingTwoFactor.id,
+      encryptedSecret,
+      type
+    );
+    await revokeUserSessions(userId, currentSessionId);
+    return updated;
   } else {
     // Create new record
     return await createTwoFactor(userId, encryptedSecret, type);
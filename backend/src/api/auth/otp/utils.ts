@@ -117,6 +117,18 @@ export function verifyOtp(secret: string, token: string): boolean {
   return authenticator.verify({ token, secret });
 }
 
+/**
+ * Generates 12 unique recovery codes in the format XXXX-XXXX-XXXX.
+ */
+export function generateRecoveryCodes(): string[] {
+  const codes = new Set<string>();
+  while (codes.size < 12) {
+    const raw = crypto.randomBytes(6).toString("hex").toUpperCase();
+    codes.add(`${raw.slice(0, 4)}-${raw.slice(4, 8)}-${raw.slice(8, 12)}`);
+  }
+  return Array.from(codes);
+}
+
 /**
  * Normalizes a recovery code by removing hyphens and converting to uppercase.
  */
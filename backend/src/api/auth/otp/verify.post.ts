@@ -1,5 +1,6 @@
 import { createError } from "@b/utils/error";
 import { authenticator } from "otplib";
+import { getRequestSessionId } from "@b/utils/session";
 import { saveOrUpdateOTP } from "./save.post";
 
 export const metadata: OperationObject = {
@@ -76,5 +77,10 @@ export default async (data: Handler) => {
     });
   }
 
-  return await saveOrUpdateOTP(user.id, body.secret, body.type);
+  return await saveOrUpdateOTP(
+    user.id,
+    body.secret,
+    body.type,
+    getRequestSessionId(data)
+  );
 };
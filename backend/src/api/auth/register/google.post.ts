@@ -8,6 +8,7 @@ import {
 } from "../utils";
 import { serverErrorResponse } from "@b/utils/query";
 import { createError } from "@b/utils/error";
+import { screenUser } from "@b/utils/sanctions";
 
 const client = new OAuth2Client(process.env.NEXT_PUBLIC_GOOGLE_CLIENT_ID);
 
@@ -142,6 +143,18 @@ export default async (data: Handler) => {
       console.error("Error handling referral registration:", error);
     }
     isNewUser = true;
+
+    // Sanctions screening; a strong watchlist match holds the account for review
+    try {
+      if ((await screenUser(user.id, "REGISTRATION")).held) {
+        return {
+          message:
+            "Registration received. Your account is under review and we will contact you by email.",
+        };
+      }
+    } catch (error) {
+      console.error("Error screening new user against sanctions lists:", error);
+    }
   } else {
     // Check if the user has a provider_user entry
     const providerUser = await models.providerUser.findOne({
@@ -163,5 +176,6 @@ export default async (data: Handler) => {
     message: isNewUser
       ? "You have been registered successfully"
       : "You have been logged in successfully",
+    request: data,
   });
 };
@@ -3,6 +3,7 @@ import { models } from "@b/db";
 import { handleReferralRegister } from "@b/utils/affiliate";
 import { returnUserWithTokens, sendEmailVerificationToken, verifyRecaptcha } from "../utils";
 import { createError } from "@b/utils/error";
+import { screenUser } from "@b/utils/sanctions";
 
 // Check reCAPTCHA status - use a function to check at runtime
 const isRecaptchaEnabled = () => 
@@ -224,6 +225,20 @@ export default async (data: Handler) => {
     console.error("Error handling referral registration:", error);
   }
 
+  // Sanctions screening; a strong watchlist match holds the account for review
+  let held = false;
+  try {
+    held = (await screenUser(newUser.id, "REGISTRATION")).held;
+  } catch (error) {
+    console.error("Error screening new user against sanctions lists:", error);
+  }
+  if (held) {
+    return {
+      message:
+        "Registration received. Your account is under review and we will contact you by email.",
+    };
+  }
+
   // Email verification logic
   if (process.env.NEXT_PUBLIC_VERIFY_EMAIL_STATUS === "true") {
     await sendEmailVerificationToken(newUser.id, newUser.email);
@@ -234,6 +249,7 @@ export default async (data: Handler) => {
     return await returnUserWithTokens({
       user: newUser,
       message: "You have been registered successfully",
+      request: data,
     });
   }
 };
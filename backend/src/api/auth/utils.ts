@@ -2,14 +2,11 @@ import { createError } from "@b/utils/error";
 import { hashPassword, validatePassword } from "@b/utils/passwords";
 import { models } from "@b/db";
 import {
-  createSession,
-  generateAccessToken,
-  generateCsrfToken,
   generateEmailCode,
-  generateRefreshToken,
   generateTokens,
   verifyResetToken,
 } from "@b/utils/token";
+import { getSessionContext } from "@b/utils/session";
 import passwordGenerator from "generate-password";
 import { emailQueue } from "@b/utils/emails";
 import { createPublicClient, http } from "viem";
@@ -88,22 +85,25 @@ export const userRegisterSchema = {
   required: ["token"],
 };
 
-export const returnUserWithTokens = async ({ user, message }) => {
+export const returnUserWithTokens = async ({
+  user,
+  message,
+  request,
+}: {
+  user: any;
+  message: string;
+  request?: any;
+}) => {
   // Prepare user data for token generation, excluding sensitive information
   const publicUser = {
     id: user.id,
     role: user.roleId,
   };
 
-  // Generate tokens and CSRF token
-  const { accessToken, refreshToken, csrfToken, sessionId } =
-    await generateTokens(publicUser);
-  await createSession(
-    publicUser.id,
-    publicUser.role,
-    accessToken,
-    csrfToken,
-    refreshToken
+  // Generate tokens and CSRF token, recording the device signing in
+  const { accessToken, csrfToken, sessionId } = await generateTokens(
+    publicUser,
+    getSessionContext(request)
   );
 
   return {
@@ -290,30 +290,21 @@ export async function updateUser(userId, updateData) {
   );
 }
 
-export async function createSessionAndReturnResponse(user) {
+export async function createSessionAndReturnResponse(user, request?: any) {
   // Implementation for creating session, generating tokens, and returning response
   const publicUser = {
     id: user.id,
     role: user.roleId,
   };
-  const accessToken = await generateAccessToken(publicUser);
-  const refreshToken = await generateRefreshToken(publicUser);
-  const csrfToken = generateCsrfToken();
-
-  const session = await createSession(
-    user.id,
-    user.roleId,
-    accessToken,
-    csrfToken,
-    refreshToken
-  );
+  const { accessToken, refreshToken, csrfToken, sessionId } =
+    await generateTokens(publicUser, getSessionContext(request));
 
   return {
     message: "You have been logged in successfully",
     cookies: {
       accessToken: accessToken,
       refreshToken: refreshToken,
-      sessionId: session.sid,
+      sessionId: sessionId,
       csrfToken: csrfToken,
     },
   };
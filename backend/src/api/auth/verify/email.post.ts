@@ -55,10 +55,10 @@ export const metadata: OperationObject = {
 export default async (data: Handler) => {
   const { body } = data;
   const { token } = body;
-  return verifyEmailTokenQuery(token);
+  return verifyEmailTokenQuery(token, data);
 };
 
-export const verifyEmailTokenQuery = async (token: string) => {
+export const verifyEmailTokenQuery = async (token: string, data?: Handler) => {
   // Use verifyEmailCode to check if the code is valid and get the associated userId
   const userId = await verifyEmailCode(token);
 
@@ -87,5 +87,6 @@ export const verifyEmailTokenQuery = async (token: string) => {
   return await returnUserWithTokens({
     user,
     message: "Email verified successfully",
+    request: data,
   });
 };
@@ -122,5 +122,6 @@ export default async (data: Handler) => {
   return await returnUserWithTokens({
     user,
     message: "Password reset successfully",
+    request: data,
   });
 };
@@ -79,34 +79,48 @@ export default async (data: Handler) => {
 
     if (order.userId !== user.id) throw createError(401, "Unauthorized");
 
-    const exchange = await ExchangeManager.startExchange();
+    // Cancel on the venue the order was placed on
+    const exchange = order.provider
+      ? await ExchangeManager.startExchangeProvider(order.provider)
+      : await ExchangeManager.startExchange();
     if (!exchange) throw createError(503, "Service currently unavailable");
 
     try {
-      // Fetch the latest order data from the exchange
-      let orderData;
-      if (exchange.has["fetchOrder"]) {
-        orderData = await exchange.fetchOrder(order.referenceId, order.symbol);
-      } else {
-        const orders = await exchange.fetchOrders(order.symbol);
-        orderData = orders.find((o: any) => o.id === order.referenceId);
-      }
+      // Untriggered stop orders only exist locally, so there is nothing to
+      // look up or cancel at the exchange
+      const isPendingStop = !order.referenceId;
+      if (isPendingStop && order.status !== "OPEN")
+        throw createError(400, "Order is not open");
 
-      if (!orderData || !orderData.id)
-        throw createError(404, "Order not found");
-
-      // Update the order in your database with the latest status
-      await updateOrderData(id, {
-        status: orderData.status.toUpperCase(),
-        filled: orderData.filled,
-        remaining: orderData.remaining,
-        cost: orderData.cost,
-        fee: orderData.fee,
-        trades: JSON.stringify(orderData.trades),
-      });
+      if (!isPendingStop) {
+        // Fetch the latest order data from the exchange
+        let orderData;
+        if (exchange.has["fetchOrder"]) {
+          orderData = await exchange.fetchOrder(
+            order.referenceId,
+            order.symbol
+          );
+        } else {
+          const orders = await exchange.fetchOrders(order.symbol);
+          orderData = orders.find((o: any) => o.id === order.referenceId);
+        }
 
-      if (orderData.status !== "open")
-        throw createError(400, "Order is not open");
+        if (!orderData || !orderData.id)
+          throw createError(404, "Order not found");
+
+        // Update the order in your database with the latest status
+        await updateOrderData(id, {
+          status: orderData.status.toUpperCase(),
+          filled: orderData.filled,
+          remaining: orderData.remaining,
+          cost: orderData.cost,
+          fee: orderData.fee,
+          trades: JSON.stringify(orderData.trades),
+        });
+
+        if (orderData.status !== "open")
+          throw createError(400, "Order is not open");
+      }
 
       const [currency, pair] = order.symbol.split("/");
 
@@ -116,10 +130,24 @@ export default async (data: Handler) => {
       if (!currencyWallet || !pairWallet)
         throw createError(500, "Failed to fetch wallets");
 
-      // Refund the amount initially deducted
-      await exchange.cancelOrder(order.referenceId, order.symbol);
+      if (!isPendingStop) {
+        await exchange.cancelOrder(order.referenceId, order.symbol);
+      }
 
+      // Refund the amount initially deducted
       await sequelize.transaction(async (transaction) => {
+        // Claim a pending stop order so it cannot trigger while it is refunded
+        if (isPendingStop) {
+          const [claimed] = await models.exchangeOrder.update(
+            { status: "CANCELED" },
+            {
+              where: { id, status: "OPEN", referenceId: null },
+              transaction,
+            }
+          );
+          if (!claimed) throw createError(400, "Order is not open");
+        }
+
         if (order.side.toUpperCase() === "BUY") {
           // Refund cost to pairWallet (e.g., USDT)
           const cost = Number(order.amount) * Number(order.price);
@@ -1,6 +1,7 @@
 // /server/api/exchange/orders/store.post.ts
 
 import { models, sequelize } from "@b/db";
+import { Op, Transaction } from "sequelize";
 import {
   formatWaitTime,
   handleBanStatus,
@@ -8,10 +9,15 @@ import {
   sanitizeErrorMessage,
 } from "../utils";
 import ExchangeManager from "@b/utils/exchange";
+import { trackProviderCall } from "@b/utils/exchange-health";
+import { logError } from "@b/utils/logger";
 import { addOrderToTrackedOrders, addUserToWatchlist } from "./index.ws";
 import { createRecordResponses } from "@b/utils/query";
 import { adjustOrderData } from "./utils";
 
+// Milliseconds a stop order may stay claimed before it is offered again
+const STOP_TRIGGER_TIMEOUT = 5 * 60 * 1000;
+
 export const metadata: OperationObject = {
   summary: "Create Order",
   operationId: "createOrder",
@@ -34,7 +40,7 @@ export const metadata: OperationObject = {
             },
             type: {
               type: "string",
-              description: "Order type (e.g., limit, market)",
+              description: "Order type (e.g., limit, market, stop)",
             },
             side: {
               type: "string",
@@ -48,6 +54,15 @@ export const metadata: OperationObject = {
               type: "number",
               description: "Order price, required for limit orders",
             },
+            stopPrice: {
+              type: "number",
+              description: "Trigger price, required for stop orders",
+            },
+            limitPrice: {
+              type: "number",
+              description:
+                "Limit price placed once a stop order triggers, omit for stop-market",
+            },
           },
           required: ["currency", "pair", "type", "side", "amount"],
         },
@@ -78,8 +93,11 @@ export default async (data: Handler) => {
     }
 
     // Step 2: Validate input data
-    const { currency, pair, amount, price, type } = body;
+    const { currency, pair, amount, type, stopPrice, limitPrice } = body;
     const side = body.side?.toUpperCase();
+    const isStopOrder = type?.toLowerCase() === "stop";
+    // Stop orders reserve funds at the limit price, or the trigger price for stop-market
+    const price = isStopOrder ? (limitPrice ?? stopPrice) : body.price;
     if (!currency || !pair || !type || !side || amount == null) {
       throw new Error("Missing required parameters");
     }
@@ -92,6 +110,12 @@ export default async (data: Handler) => {
     if (type.toLowerCase() === "limit" && (price == null || price <= 0)) {
       throw new Error("Price must be greater than zero for limit orders");
     }
+    if (isStopOrder && (stopPrice == null || stopPrice <= 0)) {
+      throw new Error("Stop price must be greater than zero for stop orders");
+    }
+    if (isStopOrder && limitPrice != null && limitPrice <= 0) {
+      throw new Error("Limit price must be greater than zero for stop orders");
+    }
 
     // Step 3: Fetch market data and metadata
     const symbol = `${currency}/${pair}`;
@@ -145,20 +169,38 @@ export default async (data: Handler) => {
       );
     }
 
-    // Step 5: Initialize exchange and fetch ticker for price if market order
-    const exchange = await ExchangeManager.startExchange();
-    const provider = await ExchangeManager.getProvider();
-    if (!exchange) {
-      throw new Error("Exchange service is currently unavailable");
-    }
+    // Step 5: Fetch ticker for price if market order, from the first provider
+    // on the market's route that answers
+    const fetchTicker = async () =>
+      (
+        await ExchangeManager.routeOrder(symbol, (exchange) =>
+          exchange.fetchTicker(symbol)
+        )
+      ).result;
     let orderPrice = price;
     if (type.toLowerCase() === "market") {
-      const ticker = await exchange.fetchTicker(symbol);
+      const ticker = await fetchTicker();
       if (!ticker || !ticker.last) {
         throw new Error("Unable to fetch current market price");
       }
       orderPrice = ticker.last;
     }
+    if (isStopOrder) {
+      const ticker = await fetchTicker();
+      if (!ticker || !ticker.last) {
+        throw new Error("Unable to fetch current market price");
+      }
+      if (side === "BUY" && stopPrice <= ticker.last) {
+        throw new Error(
+          "Stop price must be above the current market price for buy stop orders"
+        );
+      }
+      if (side === "SELL" && stopPrice >= ticker.last) {
+        throw new Error(
+          "Stop price must be below the current market price for sell stop orders"
+        );
+      }
+    }
 
     // Step 6: Calculate and validate cost
     const formattedAmount = parseFloat(amount.toFixed(amountPrecision));
@@ -200,16 +242,77 @@ export default async (data: Handler) => {
       side === "BUY" ? Number(metadata.taker) : Number(metadata.maker);
     const feeCurrency = side === "BUY" ? currency : pair;
 
-    // Step 9: Create order with provider
-    let order;
+    // Stop orders are held locally until the trigger price is reached,
+    // see processSpotStopOrders for the placement with the provider
+    if (isStopOrder) {
+      const response = await sequelize.transaction(async (transaction) => {
+        if (side === "BUY") {
+          await updateWalletQuery(
+            pairWallet.id,
+            pairWallet.balance - cost,
+            transaction
+          );
+        } else {
+          await updateWalletQuery(
+            currencyWallet.id,
+            currencyWallet.balance - formattedAmount,
+            transaction
+          );
+        }
+
+        return createOrder(
+          user.id,
+          {
+            status: "OPEN",
+            symbol,
+            type: limitPrice != null ? "STOP_LIMIT" : "STOP_MARKET",
+            timeInForce: "GTC",
+            side,
+            price: formattedPrice,
+            stopPrice: parseFloat(stopPrice.toFixed(pricePrecision)),
+            amount: formattedAmount,
+            filled: 0,
+            remaining: formattedAmount,
+            cost,
+            trades: [],
+            fee: 0,
+            feeCurrency,
+          },
+          transaction
+        );
+      });
+
+      addOrderToTrackedOrders(user.id, {
+        id: response.id,
+        status: response.status,
+        price: response.price,
+        amount: response.amount,
+        filled: response.filled,
+        remaining: response.remaining,
+        timestamp: Date.now(),
+        cost: response.cost,
+      });
+
+      addUserToWatchlist(user.id);
+      return { message: "Stop order created successfully" };
+    }
+
+    // Step 9: Create order with the first provider on the route that takes it
+    let order, exchange, provider: string;
     try {
-      order = await exchange.createOrder(
-        symbol,
-        type.toLowerCase(),
-        side.toLowerCase(),
-        formattedAmount,
-        type.toLowerCase() === "limit" ? formattedPrice : undefined
-      );
+      ({
+        result: order,
+        exchange,
+        provider,
+      } = await ExchangeManager.routeOrder(symbol, (exchange) =>
+        exchange.createOrder(
+          symbol,
+          type.toLowerCase(),
+          side.toLowerCase(),
+          formattedAmount,
+          type.toLowerCase() === "limit" ? formattedPrice : undefined
+        )
+      ));
     } catch (error) {
       throw new Error(
         `Unable to process order: ${sanitizeErrorMessage(error.message)}`
@@ -219,8 +322,10 @@ export default async (data: Handler) => {
       throw new Error("Unable to process order");
     }
 
-    // Step 10: Fetch and adjust order data
-    let orderData = await exchange.fetchOrder(order.id, symbol);
+    // Step 10: Fetch and adjust order data from the venue it was placed on
+    let orderData = await trackProviderCall(provider, () =>
+      exchange.fetchOrder(order.id, symbol)
+    );
     if (!orderData) {
       throw new Error("Failed to fetch order");
     }
@@ -266,6 +371,7 @@ export default async (data: Handler) => {
         {
           ...orderData,
           referenceId: order.id,
+          provider,
           fee: Number(orderData.fee || 0), // Ensure fee is a number
           feeCurrency,
         },
@@ -368,6 +474,7 @@ export async function createOrder(
 const mapOrderData = (order: any) => {
   return {
     referenceId: order.referenceId,
+    provider: order.provider,
     status: order.status ? order.status.toUpperCase() : undefined,
     symbol: order.symbol,
     type: order.type ? order.type.toUpperCase() : undefined,
@@ -376,6 +483,7 @@ const mapOrderData = (order: any) => {
       : undefined,
     side: order.side ? order.side.toUpperCase() : undefined,
     price: Number(order.price),
+    stopPrice: order.stopPrice != null ? Number(order.stopPrice) : undefined,
     average: order.average != null ? Number(order.average) : undefined,
     amount: Number(order.amount),
     filled: Number(order.filled),
@@ -386,3 +494,361 @@ const mapOrderData = (order: any) => {
     feeCurrency: order.feeCurrency,
   };
 };
+
+/**
+ * Places a triggered stop order with the given provider. Funds were reserved
+ * when the stop order was created, and a fill is settled by syncSpotOrder
+ * like that of any placed order. Returns false when the order was already
+ * claimed by a cancel or another run.
+ */
+export async function triggerStopOrder(
+  exchange: any,
+  provider: string | null,
+  order: exchangeOrderAttributes
+): Promise<boolean> {
+  const isLimit = order.type === "STOP_LIMIT";
+
+  // Claim the order so a concurrent cancel or cron run cannot act on it too
+  const [claimed] = await models.exchangeOrder.update(
+    { status: "TRIGGERING" },
+    { where: { id: order.id, status: "OPEN", referenceId: null } }
+  );
+  if (!claimed) {
+    return false;
+  }
+
+  // Record the venue before calling it, so a trigger that stalls from here on
+  // is looked up there instead of being placed again
+  await models.exchangeOrder.update(
+    { provider },
+    { where: { id: order.id, status: "TRIGGERING" } }
+  );
+
+  let providerOrder;
+  try {
+    providerOrder = await trackProviderCall(provider, () =>
+      exchange.createOrder(
+        order.symbol,
+        isLimit ? "limit" : "market",
+        order.side.toLowerCase(),
+        order.amount,
+        isLimit ? order.price : undefined,
+        { clientOrderId: order.id }
+      )
+    );
+  } catch (error) {
+    await rejectStopOrder(order);
+    throw new Error(
+      `Unable to process order: ${sanitizeErrorMessage(error.message)}`
+    );
+  }
+  if (!providerOrder || !providerOrder.id) {
+    await rejectStopOrder(order);
+    throw new Error("Unable to process order");
+  }
+
+  // Store the reference first so the order is never placed twice
+  await models.exchangeOrder.update(
+    { status: "OPEN", referenceId: providerOrder.id, provider },
+    { where: { id: order.id, status: "TRIGGERING" } }
+  );
+
+  // Settled through the same conditional claim as the order sync, which may
+  // see the fill first now that the reference is stored
+  const orderData = await trackProviderCall(provider, () =>
+    exchange.fetchOrder(providerOrder.id, order.symbol)
+  );
+  if (orderData) {
+    await syncSpotOrder(
+      {
+        ...order,
+        status: "OPEN",
+        referenceId: providerOrder.id,
+        provider: provider ?? undefined,
+      },
+      orderData,
+      provider
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Applies the state a venue reports for a placed order. The status only
+ * moves away from OPEN once, so a fill seen by both the order stream and the
+ * sync cron is credited once. Returns true when the order left OPEN here.
+ */
+export async function syncSpotOrder(
+  order: exchangeOrderAttributes,
+  orderData: any,
+  provider: string | null
+): Promise<boolean> {
+  const status = String(orderData.status).toUpperCase();
+  if (status === "OPEN") {
+    await models.exchangeOrder.update(
+      {
+        filled: Number(orderData.filled),
+        remaining: Number(orderData.remaining),
+      },
+      { where: { id: order.id, status: "OPEN" } }
+    );
+    return false;
+  }
+
+  const [currency, pair] = order.symbol.split("/");
+  const market = await models.exchangeMarket.findOne({
+    where: { currency, pair },
+  });
+  if (!market || !market.metadata) {
+    throw new Error("Market data not found");
+  }
+  const metadata =
+    typeof market.metadata === "string"
+      ? JSON.parse(market.metadata)
+      : market.metadata;
+  const feeRate =
+    order.side === "BUY" ? Number(metadata.taker) : Number(metadata.maker);
+  const adjusted = adjustOrderData(orderData, provider, feeRate);
+  const isFilled = status === "CLOSED";
+
+  // Wallets are created outside the transaction that locks them
+  if (isFilled) {
+    await getOrCreateWallet(
+      order.userId,
+      order.side === "BUY" ? currency : pair
+    );
+  }
+
+  return sequelize.transaction(async (transaction) => {
+    const [claimed] = await models.exchangeOrder.update(
+      {
+        status,
+        price: Number(adjusted.price) || order.price,
+        average:
+          adjusted.average != null ? Number(adjusted.average) : undefined,
+        filled: Number(adjusted.filled),
+        remaining: Number(adjusted.remaining),
+        fee: Number(adjusted.fee || 0),
+      },
+      { where: { id: order.id, status: "OPEN" }, transaction }
+    );
+    if (!claimed || !isFilled) {
+      return !!claimed;
+    }
+
+    const fee = Number(adjusted.fee || 0);
+    if (order.side === "BUY") {
+      await adjustLockedSpotWallet(
+        order.userId,
+        currency,
+        Number(adjusted.amount) - fee,
+        transaction
+      );
+      await reconcileStopMarketBuy(order, Number(adjusted.cost), transaction);
+    } else {
+      await adjustLockedSpotWallet(
+        order.userId,
+        pair,
+        Number(adjusted.cost) - fee,
+        transaction
+      );
+    }
+    return true;
+  });
+}
+
+/**
+ * Adds `delta` to the user's spot wallet under a row lock. A debit takes no
+ * more than the balance holds; the uncovered part is returned.
+ */
+async function adjustLockedSpotWallet(
+  userId: string,
+  currency: string,
+  delta: number,
+  transaction: Transaction
+): Promise<number> {
+  const wallet = await models.wallet.findOne({
+    where: { userId, currency, type: "SPOT" },
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (!wallet) {
+    throw new Error(`${currency} wallet not found`);
+  }
+
+  const change = Math.max(delta, -Number(wallet.balance));
+  if (change > 0) {
+    await wallet.increment("balance", { by: change, transaction });
+  } else if (change < 0) {
+    await wallet.decrement("balance", { by: -change, transaction });
+  }
+  return change - delta;
+}
+
+/**
+ * Settles a filled stop-market buy against the cost reserved at its trigger
+ * price: the excess is refunded and a shortfall is taken from the quote
+ * wallet. What the wallet cannot cover is recorded as a pending transaction
+ * for review. The order's cost is moved to the filled cost at the same time,
+ * so settling the same fill again does nothing.
+ */
+export async function reconcileStopMarketBuy(
+  order: exchangeOrderAttributes,
+  filledCost: number,
+  transaction?: Transaction
+): Promise<void> {
+  if (order.type !== "STOP_MARKET" || order.side !== "BUY" || !filledCost) {
+    return;
+  }
+  if (!transaction) {
+    return sequelize.transaction((transaction) =>
+      reconcileStopMarketBuy(order, filledCost, transaction)
+    );
+  }
+
+  const difference = Number(order.cost) - filledCost;
+  if (Math.abs(difference) < 1e-8) {
+    return;
+  }
+
+  const [settled] = await models.exchangeOrder.update(
+    { cost: filledCost },
+    { where: { id: order.id, cost: order.cost }, transaction }
+  );
+  if (!settled) {
+    return;
+  }
+
+  const [, pair] = order.symbol.split("/");
+  const shortfall = await adjustLockedSpotWallet(
+    order.userId,
+    pair,
+    difference,
+    transaction
+  );
+  if (shortfall > 0) {
+    const wallet = await models.wallet.findOne({
+      where: { userId: order.userId, currency: pair, type: "SPOT" },
+      transaction,
+    });
+    await models.transaction.create(
+      {
+        userId: order.userId,
+        walletId: wallet.id,
+        type: "EXCHANGE_ORDER",
+        status: "PENDING",
+        amount: shortfall,
+        description: `Unsettled cost of stop order ${order.id} above the ${pair} balance`,
+        referenceId: order.id,
+      },
+      { transaction }
+    );
+    logError(
+      "exchange",
+      new Error(
+        `Stop order ${order.id} cost ${shortfall} ${pair} more than the wallet could cover`
+      ),
+      __filename
+    );
+  }
+}
+
+/**
+ * Releases exactly what a stop order reserved when the provider refused to
+ * place it. The order must still be claimed by the trigger, so a release
+ * never runs twice.
+ */
+async function rejectStopOrder(order: exchangeOrderAttributes) {
+  const [currency, pair] = order.symbol.split("/");
+
+  await sequelize.transaction(async (transaction) => {
+    const [rejected] = await models.exchangeOrder.update(
+      { status: "REJECTED" },
+      { where: { id: order.id, status: "TRIGGERING" }, transaction }
+    );
+    if (!rejected) {
+      return;
+    }
+
+    if (order.side === "BUY") {
+      await adjustLockedSpotWallet(
+        order.userId,
+        pair,
+        Number(order.cost),
+        transaction
+      );
+    } else {
+      await adjustLockedSpotWallet(
+        order.userId,
+        currency,
+        Number(order.amount),
+        transaction
+      );
+    }
+  });
+}
+
+/**
+ * Returns stop orders left in TRIGGERING by a crash or a failed release to
+ * the trigger queue. Orders whose trigger never reached a venue are reopened
+ * as they are. Orders recorded against a venue are looked up there by their
+ * client order id: one the venue holds keeps its reference and is settled by
+ * the order sync, one it does not hold is reopened, and one that cannot be
+ * looked up is left for the next run.
+ */
+export async function recoverStuckStopOrders(): Promise<number> {
+  const stale = { [Op.lt]: new Date(Date.now() - STOP_TRIGGER_TIMEOUT) };
+  let [recovered] = await models.exchangeOrder.update(
+    { status: "OPEN" },
+    {
+      where: {
+        status: "TRIGGERING",
+        referenceId: null,
+        provider: null,
+        updatedAt: stale,
+      },
+    }
+  );
+
+  const placing = await models.exchangeOrder.findAll({
+    where: {
+      status: "TRIGGERING",
+      referenceId: null,
+      provider: { [Op.ne]: null },
+      updatedAt: stale,
+    },
+  });
+  for (const order of placing) {
+    try {
+      const exchange = await ExchangeManager.startExchangeProvider(
+        order.provider as string
+      );
+      if (!exchange) {
+        continue;
+      }
+      const placed = (
+        await trackProviderCall(order.provider as string, () =>
+          exchange.fetchOrders(order.symbol, order.createdAt?.getTime())
+        )
+      )?.find((venueOrder) => venueOrder.clientOrderId === order.id);
+
+      const [updated] = await models.exchangeOrder.update(
+        placed
+          ? { status: "OPEN", referenceId: placed.id }
+          : { status: "OPEN", provider: null },
+        { where: { id: order.id, status: "TRIGGERING", referenceId: null } }
+      );
+      recovered += updated;
+    } catch (error) {
+      logError(
+        "exchange",
+        new Error(
+          `Stop order ${order.id} could not be looked up on ${order.provider}: ${error.message}`
+        ),
+        __filename
+      );
+    }
+  }
+  return recovered;
+}
@@ -1,8 +1,7 @@
 import ExchangeManager from "@b/utils/exchange";
 import { hasClients, messageBroker } from "@b/handler/Websocket";
 import { models } from "@b/db";
-import { getWalletSafe } from "@b/api/finance/wallet/utils";
-import { updateWalletQuery } from "./index.post";
+import { syncSpotOrder } from "./index.post";
 import { logError } from "@b/utils/logger";
 import {
   loadBanStatus,
@@ -11,6 +10,7 @@ import {
   formatWaitTime,
 } from "../utils";
 import { adjustOrderData } from "./utils";
+import { Op } from "sequelize";
 
 export const metadata = {};
 
@@ -51,52 +51,6 @@ class OrderHandler {
     }
   }
 
-  private async updateWalletBalance(userId, order, provider) {
-    try {
-      const [currency, pair] = order.symbol.split("/");
-      const market = await models.exchangeMarket.findOne({
-        where: { currency, pair },
-      });
-
-      if (!market || !market.metadata) {
-        throw new Error("Market data not found");
-      }
-
-      const metadata =
-        typeof market.metadata === "string"
-          ? JSON.parse(market.metadata)
-          : market.metadata;
-
-      // Determine fee rate and currency based on order side
-      const feeRate =
-        order.side === "BUY" ? Number(metadata.taker) : Number(metadata.maker);
-
-      // Adjust order data with fee information
-      order = adjustOrderData(order, provider, feeRate);
-
-      const amount = Number(order.amount);
-      const cost = Number(order.cost);
-      const fee = Number(order.fee);
-
-      const currencyWallet = await getWalletSafe(userId, "SPOT", currency);
-      const pairWallet = await getWalletSafe(userId, "SPOT", pair);
-
-      if (!currencyWallet || !pairWallet) {
-        throw new Error("Wallet not found");
-      }
-
-      if (order.side === "BUY") {
-        const newBalance = currencyWallet.balance + (amount - fee);
-        await updateWalletQuery(currencyWallet.id, newBalance);
-      } else {
-        const newBalance = pairWallet.balance + (cost - fee);
-        await updateWalletQuery(pairWallet.id, newBalance);
-      }
-    } catch (error) {
-      logError("wallet", error, __filename);
-    }
-  }
-
   private flushOrders() {
     if (Object.keys(this.trackedOrders).length > 0) {
       const route = "/api/exchange/order";
@@ -236,7 +190,6 @@ class OrderHandler {
             "Order was canceled or expired with no executed qty over 90 days ago and has been archived"
           )
         ) {
-          await this.removeOrder(orderId);
           return null;
         }
         if (attempt < 3) {
@@ -248,21 +201,10 @@ class OrderHandler {
     }
   }
 
-  private async updateOrder(orderId, data) {
-    try {
-      await models.exchangeOrder.update(
-        { ...data },
-        { where: { referenceId: orderId } }
-      );
-    } catch (error) {
-      logError("exchange", error, __filename);
-    }
-  }
-
-  private async removeOrder(orderId) {
+  private async removeOrder(id) {
     try {
       await models.exchangeOrder.destroy({
-        where: { referenceId: orderId },
+        where: { id },
         force: true,
       });
     } catch (error) {
@@ -312,9 +254,7 @@ class OrderHandler {
     });
   }
 
-  public async fetchOrdersForUser(userId, userOrders, exchange, provider) {
-    let symbols = userOrders.map((order) => order.symbol);
-
+  public async fetchOrdersForUser(userId, userOrders) {
     while (
       hasClients("/api/exchange/order") &&
       this.watchedUserIds.has(userId)
@@ -328,7 +268,30 @@ class OrderHandler {
 
       this.lastFetchTime = Date.now();
 
-      for (const symbol of symbols) {
+      // Each order is polled on the venue it was placed on, orders from
+      // before routing belong to the primary provider
+      const primary = await ExchangeManager.getProvider();
+      const venues = new Map<string, { provider: string; symbol: string }>();
+      for (const order of userOrders) {
+        const provider = order.provider || primary;
+        if (provider) {
+          venues.set(`${provider}:${order.symbol}`, {
+            provider,
+            symbol: order.symbol,
+          });
+        }
+      }
+      if (!venues.size) {
+        this.removeUserFromWatchlist(userId);
+        break;
+      }
+
+      for (const { provider, symbol } of venues.values()) {
+        const venueOrders = userOrders.filter(
+          (order) =>
+            order.symbol === symbol && (order.provider || primary) === provider
+        );
+
         try {
           if (Date.now() < this.unblockTime) {
             const waitTime = this.unblockTime - Date.now();
@@ -342,6 +305,12 @@ class OrderHandler {
             continue;
           }
 
+          const exchange =
+            await ExchangeManager.startExchangeProvider(provider);
+          if (!exchange) {
+            throw new Error(`Exchange provider ${provider} is unavailable`);
+          }
+
           const openOrders = await this.fetchOpenOrdersWithRetries(
             exchange,
             symbol,
@@ -352,75 +321,40 @@ class OrderHandler {
             throw new Error("Failed to fetch open orders after retries");
           }
 
-          for (const order of userOrders) {
-            const updatedOrder = openOrders.find(
-              (o) => o.id === order.referenceId
-            );
-            if (!updatedOrder) {
-              const fetchedOrder = await this.fetchOrder(
+          for (const order of venueOrders) {
+            const latestOrder =
+              openOrders.find((o) => o.id === order.referenceId) ||
+              (await this.fetchOrder(
                 exchange,
                 order.referenceId,
                 symbol,
                 provider
-              );
-
-              if (fetchedOrder) {
-                if (fetchedOrder.status !== order.status) {
-                  this.addOrderToTrackedOrders(userId, {
-                    id: order.id,
-                    status: fetchedOrder.status,
-                    price: fetchedOrder.price,
-                    amount: fetchedOrder.amount,
-                    filled: fetchedOrder.filled,
-                    remaining: fetchedOrder.remaining,
-                    timestamp: fetchedOrder.timestamp,
-                  });
-                  await this.updateOrder(fetchedOrder.id, {
-                    status: fetchedOrder.status.toUpperCase(),
-                    price: fetchedOrder.price,
-                    filled: fetchedOrder.filled,
-                    remaining: fetchedOrder.remaining,
-                  });
-                  if (fetchedOrder.status === "CLOSED") {
-                    userOrders.splice(userOrders.indexOf(order), 1);
-                    await this.updateWalletBalance(
-                      userId,
-                      fetchedOrder,
-                      provider
-                    );
-                  }
-                }
-              } else {
-                await this.removeOrder(order.referenceId);
-                userOrders.splice(userOrders.indexOf(order), 1);
-                this.removeOrderFromTrackedOrders(userId, order.id);
-                if (userOrders.length === 0) {
-                  this.removeUserFromWatchlist(userId);
-                  break;
-                }
-              }
-            } else if (updatedOrder.status !== order.status) {
-              this.addOrderToTrackedOrders(userId, {
-                id: order.id,
-                status: updatedOrder.status,
-                price: updatedOrder.price,
-                amount: updatedOrder.amount,
-                filled: updatedOrder.filled,
-                remaining: updatedOrder.remaining,
-                timestamp: updatedOrder.timestamp,
-              });
-              await this.updateOrder(updatedOrder.id, {
-                status: updatedOrder.status.toUpperCase(),
-                price: updatedOrder.price,
-                filled: updatedOrder.filled,
-                remaining: updatedOrder.remaining,
-              });
-              if (updatedOrder.status === "CLOSED") {
-                userOrders.splice(userOrders.indexOf(order), 1);
-                await this.updateWalletBalance(userId, updatedOrder, provider);
-              } else {
-                order.status = updatedOrder.status;
-              }
+              ));
+
+            if (!latestOrder) {
+              await this.removeOrder(order.id);
+              userOrders.splice(userOrders.indexOf(order), 1);
+              this.removeOrderFromTrackedOrders(userId, order.id);
+              continue;
+            }
+            if (latestOrder.status === order.status) {
+              continue;
+            }
+
+            this.addOrderToTrackedOrders(userId, {
+              id: order.id,
+              status: latestOrder.status,
+              price: latestOrder.price,
+              amount: latestOrder.amount,
+              filled: latestOrder.filled,
+              remaining: latestOrder.remaining,
+              timestamp: latestOrder.timestamp,
+            });
+            await syncSpotOrder(order, latestOrder, provider);
+            if (latestOrder.status === "OPEN") {
+              order.status = latestOrder.status;
+            } else {
+              userOrders.splice(userOrders.indexOf(order), 1);
             }
           }
 
@@ -441,11 +375,6 @@ class OrderHandler {
             });
           }
 
-          if (userOrders.length === 0) {
-            this.removeUserFromWatchlist(userId);
-            break;
-          }
-
           if (Object.keys(this.trackedOrders).length > 0) {
             this.startInterval();
           } else {
@@ -453,19 +382,18 @@ class OrderHandler {
           }
         } catch (error) {
           logError("exchange", error, __filename);
-          symbols = symbols.filter((s) => s !== symbol);
-          const filteredOrders = userOrders.filter(
-            (order) => order.symbol !== symbol
+          const remainingOrders = userOrders.filter(
+            (order) => !venueOrders.includes(order)
           );
           userOrders.length = 0;
-          userOrders.push(...filteredOrders);
-
-          if (userOrders.length === 0) {
-            this.removeUserFromWatchlist(userId);
-            break;
-          }
+          userOrders.push(...remainingOrders);
         }
       }
+
+      if (userOrders.length === 0) {
+        this.removeUserFromWatchlist(userId);
+        break;
+      }
     }
   }
 
@@ -495,8 +423,26 @@ class OrderHandler {
     }
 
     const userOrders = await models.exchangeOrder.findAll({
-      where: { userId: user.id, status: "OPEN" },
-      attributes: ["id", "referenceId", "symbol", "status", "createdAt"],
+      // Untriggered stop orders have no provider reference to poll yet
+      where: {
+        userId: user.id,
+        status: "OPEN",
+        referenceId: { [Op.ne]: null },
+      },
+      attributes: [
+        "id",
+        "userId",
+        "referenceId",
+        "provider",
+        "symbol",
+        "type",
+        "side",
+        "price",
+        "amount",
+        "cost",
+        "status",
+        "createdAt",
+      ],
       raw: true,
     });
 
@@ -505,11 +451,7 @@ class OrderHandler {
       return;
     }
 
-    const exchange = await ExchangeManager.startExchange();
-    if (!exchange) return;
-    const provider = await ExchangeManager.getProvider();
-
-    this.fetchOrdersForUser(userId, userOrders, exchange, provider);
+    this.fetchOrdersForUser(userId, userOrders);
   }
 }
 
@@ -47,6 +47,7 @@ export const baseOrderSchema = {
   timeInForce: baseStringSchema("Time in force policy for the order"),
   side: baseStringSchema("Order side (buy or sell)"),
   price: baseNumberSchema("Price per unit"),
+  stopPrice: baseNumberSchema("Trigger price for stop orders"),
   average: baseNumberSchema("Average price per unit"),
   amount: baseNumberSchema("Total amount ordered"),
   filled: baseNumberSchema("Amount filled"),
@@ -71,7 +72,10 @@ export function adjustOrderData(
   const side = order.side ? order.side.toUpperCase() : null;
   let amount = parseFloat(order.amount);
   let cost = parseFloat(order.cost);
-  let fee = parseFloat(order.fee?.cost || "0");
+  // Already adjusted orders carry the fee as a plain number
+  let fee = parseFloat(
+    (typeof order.fee === "object" ? order.fee?.cost : order.fee) || "0"
+  );
 
   if (provider === "xt") {
     const info = order.info;
@@ -4,6 +4,7 @@ import { models } from "@b/db";
 import { logError } from "@b/utils/logger";
 import { Op } from "sequelize";
 import { RedisSingleton } from "@b/utils/redis";
+import { PriceAlertMonitor } from "@b/api/user/price-alert/utils";
 import {
   loadBanStatus,
   saveBanStatus,
@@ -75,6 +76,9 @@ class TickerHandler {
   }
 
   private async updateTickerCache(tickers) {
+    // Alerts are evaluated in the background so they never hold up the stream
+    PriceAlertMonitor.getInstance().evaluateTickers("SPOT", tickers);
+
     const cachedTickers = await this.getTickerCache();
     const updatedTickers = { ...cachedTickers, ...tickers };
     const symbolsInDB = await this.getSymbolsInDB();
@@ -47,6 +47,7 @@ export const metadata: OperationObject = {
   operationId: "createTransfer",
   tags: ["Finance", "Transfer"],
   requiresAuth: true,
+  kycFeature: "transfer_wallets",
   requestBody: {
     required: true,
     content: {
@@ -5,6 +5,7 @@ import {
   unauthorizedResponse,
 } from "@b/utils/query";
 import { createError } from "@b/utils/error";
+import { assessWithdrawalRisk } from "../utils";
 
 export const metadata: OperationObject = {
   summary: "Performs a custom fiat withdraw transaction",
@@ -13,6 +14,8 @@ export const metadata: OperationObject = {
   operationId: "createCustomFiatWithdraw",
   tags: ["Wallets"],
   requiresAuth: true,
+  kycFeature: "withdraw_wallet",
+  requiresPasskey: true,
   requestBody: {
     required: true,
     content: {
@@ -96,7 +99,18 @@ export default async (data: Handler) => {
   // Net amount user will receive after fees are deducted
   const netReceiveAmount = parseFloat((totalWithdrawAmount - feeAmount).toFixed(2));
 
-  const result = await sequelize.transaction(async (t) => {
+  const { risk, ...result } = await sequelize.transaction(async (t) => {
+    // Withdrawals over the user's limits or approval threshold are held for review
+    const risk = await assessWithdrawalRisk(
+      {
+        userId: user.id,
+        walletType: "FIAT",
+        currency,
+        amount: totalWithdrawAmount,
+      },
+      t
+    );
+
     // Lock wallet row for update to ensure isolation
     const wallet = await models.wallet.findOne({
       where: { userId: user.id, currency: currency, type: "FIAT" },
@@ -127,6 +141,7 @@ export default async (data: Handler) => {
           method: method.title,
           totalAmount: totalWithdrawAmount, // Store the total for reference
           ...customFields,
+          ...(risk && { risk }),
         }),
         description: `Withdrawal of ${netReceiveAmount} ${wallet.currency} (fee: ${feeAmount}) via ${method.title}`,
       },
@@ -149,8 +164,16 @@ export default async (data: Handler) => {
       currency: wallet.currency,
       method: method.title,
       balance: wallet.balance,
+      risk,
     };
   });
 
+  if (risk) {
+    return {
+      ...result,
+      message: "Withdrawal request submitted and held for review by our team",
+    };
+  }
+
   return result;
 };
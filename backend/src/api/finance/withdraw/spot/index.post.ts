@@ -11,6 +11,8 @@ import { createError } from "@b/utils/error";
 import { sendTransactionStatusUpdateEmail } from "@b/utils/emails";
 import { handleNetworkMappingReverse } from "../../currency/[type]/[code]/[method]/index.get";
 import { CacheManager } from "@b/utils/cache";
+import { ensureWithdrawalAllowed } from "@b/api/user/withdrawal-address/utils";
+import { assessWithdrawalRisk } from "../utils";
 
 // Util to count decimals
 function countDecimals(value: number) {
@@ -32,6 +34,8 @@ export const metadata: OperationObject = {
   operationId: "createWithdraw",
   tags: ["Wallets"],
   requiresAuth: true,
+  kycFeature: "withdraw_wallet",
+  requiresPasskey: true,
   requestBody: {
     required: true,
     content: {
@@ -96,6 +100,9 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 400, message: "Invalid input" });
   }
 
+  // Whitelist-only mode restricts withdrawals to confirmed saved addresses
+  await ensureWithdrawalAllowed(user.id, chain, toAddress, memo);
+
   const userPk = await models.user.findByPk(user.id);
   if (!userPk)
     throw createError({ statusCode: 404, message: "User not found" });
@@ -219,7 +226,18 @@ export default async (data: Handler) => {
 
   // -------- MAIN WITHDRAW TRANSACTION, RACE-CONDITION SAFE --------
   // Only fetch wallet, check balance, and deduct inside the transaction!
-  const result = await sequelize.transaction(async (t) => {
+  const { risk, ...result } = await sequelize.transaction(async (t) => {
+    // Withdrawals over the user's limits or approval threshold are held for review
+    const risk = await assessWithdrawalRisk(
+      {
+        userId: user.id,
+        walletType: "SPOT",
+        currency,
+        amount: totalWithdrawAmount,
+      },
+      t
+    );
+
     // Lock the wallet row FOR UPDATE
     const wallet = await models.wallet.findOne({
       where: { userId: user.id, currency: currency, type: "SPOT" },
@@ -257,6 +275,7 @@ export default async (data: Handler) => {
           toAddress,
           memo,
           totalAmount: totalWithdrawAmount, // Store total for reference
+          ...(risk && { risk }),
         }),
         description: `Withdrawal of ${totalWithdrawAmount} ${wallet.currency} (${netWithdrawAmount} net) to ${toAddress} via ${chain}`,
       },
@@ -276,7 +295,7 @@ export default async (data: Handler) => {
       { transaction: t }
     );
 
-    return { dbTransaction, adminProfit, wallet };
+    return { dbTransaction, adminProfit, wallet, risk };
   });
 
   // Check the withdrawApproval setting
@@ -284,6 +303,17 @@ export default async (data: Handler) => {
     settings.has("withdrawApproval") &&
     settings.get("withdrawApproval") === "true";
 
+  if (risk) {
+    return {
+      message:
+        "Withdrawal request submitted and held for review by our team",
+      transaction: result.dbTransaction,
+      currency: result.wallet.currency,
+      method: chain,
+      balance: result.wallet.balance,
+    };
+  }
+
   if (withdrawApprovalEnabled) {
     // Proceed to perform the withdrawal with the exchange
     let withdrawResponse;
@@ -0,0 +1,414 @@
+// Safe import for ecosystem modules. The module itself is kept because the
+// withdrawal queue imports this file to check holds before broadcasting.
+let withdrawalQueueModule: any;
+try {
+  withdrawalQueueModule = require("@b/api/(ext)/ecosystem/utils/withdrawalQueue");
+} catch (e) {
+  // Ecosystem extension not available
+}
+import { models, sequelize } from "@b/db";
+import { Op, Transaction } from "sequelize";
+import { createError } from "@b/utils/error";
+import { createNotification } from "@b/utils/notifications";
+import {
+  getEcoPriceInUSD,
+  getFiatPriceInUSD,
+  getSpotPriceInUSD,
+} from "@b/api/finance/currency/utils";
+
+const DAY = 24 * 60 * 60 * 1000;
+const MONTH = 30 * DAY;
+
+// Withdrawals that still count against a user's limits
+const COUNTED_STATUSES = ["PENDING", "PROCESSING", "COMPLETED"];
+
+export interface WithdrawalRisk {
+  status: "HELD" | "RELEASED";
+  policyId: string;
+  reasons: string[];
+  requiredApprovals: number;
+  amountUsd: number | null;
+  heldAt: string;
+  releasedAt?: string;
+}
+
+interface WithdrawalRequest {
+  userId: string;
+  walletType: "FIAT" | "SPOT" | "ECO";
+  currency: string;
+  amount: number;
+}
+
+export function parseTransactionMetadata(metadata: any) {
+  if (!metadata) return {};
+  if (typeof metadata !== "string") return metadata;
+  try {
+    return JSON.parse(metadata) || {};
+  } catch {
+    return {};
+  }
+}
+
+export async function getUserKycLevel(userId: string): Promise<number> {
+  const application = await models.kycApplication.findOne({
+    where: { userId, status: "APPROVED" },
+    include: [
+      {
+        model: models.kycLevel,
+        as: "level",
+        attributes: ["level"],
+        paranoid: false,
+      },
+    ],
+    order: [["updatedAt", "DESC"]],
+  });
+  return (application as any)?.level?.level ?? 0;
+}
+
+/**
+ * Picks the active policy that matches the withdrawal most specifically.
+ * Currency weighs more than wallet type, which weighs more than KYC level.
+ */
+export async function findWithdrawalPolicy(
+  kycLevel: number,
+  walletType: string,
+  currency: string
+): Promise<withdrawalPolicyAttributes | null> {
+  const policies = await models.withdrawalPolicy.findAll({
+    where: {
+      status: true,
+      kycLevel: { [Op.or]: [null, kycLevel] },
+      walletType: { [Op.or]: [null, walletType] },
+      currency: { [Op.or]: [null, currency] },
+    },
+  });
+
+  let best: withdrawalPolicyAttributes | null = null;
+  let bestScore = -1;
+  for (const policy of policies) {
+    const score =
+      (policy.currency ? 4 : 0) +
+      (policy.walletType ? 2 : 0) +
+      (policy.kycLevel !== null && policy.kycLevel !== undefined ? 1 : 0);
+    if (score > bestScore) {
+      best = policy;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export async function convertToUsd(
+  amount: number,
+  currency: string,
+  walletType: string
+): Promise<number | null> {
+  if (currency === "USD" || currency === "USDT") return amount;
+  try {
+    let price: number;
+    switch (walletType) {
+      case "FIAT":
+        price = await getFiatPriceInUSD(currency);
+        break;
+      case "SPOT":
+        price = await getSpotPriceInUSD(currency);
+        break;
+      case "ECO":
+        price = await getEcoPriceInUSD(currency);
+        break;
+      default:
+        return null;
+    }
+    return Number.isFinite(price) ? amount * price : null;
+  } catch (error) {
+    console.warn(`Failed to convert ${currency} to USD:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Checks a withdrawal against the user's policy. Returns the hold to store in
+ * the transaction metadata when a rolling limit would be exceeded or the
+ * amount needs admin approval, or null when it can go ahead.
+ *
+ * Call it inside the transaction that creates the withdrawal: the user row
+ * stays locked until it commits, so concurrent withdrawals by the same user
+ * are counted against the limits one at a time.
+ */
+export async function assessWithdrawalRisk(
+  request: WithdrawalRequest,
+  transaction: Transaction
+): Promise<WithdrawalRisk | null> {
+  const { userId, walletType, currency, amount } = request;
+  await models.user.findOne({
+    where: { id: userId },
+    attributes: ["id"],
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+
+  const kycLevel = await getUserKycLevel(userId);
+  const policy = await findWithdrawalPolicy(kycLevel, walletType, currency);
+  if (!policy) return null;
+
+  const now = Date.now();
+  const recent = await models.transaction.findAll({
+    where: {
+      userId,
+      type: "WITHDRAW",
+      status: { [Op.in]: COUNTED_STATUSES },
+      createdAt: { [Op.gte]: new Date(now - MONTH) },
+    },
+    include: [
+      {
+        model: models.wallet,
+        as: "wallet",
+        attributes: ["type", "currency"],
+      },
+    ],
+    transaction,
+  });
+
+  // Per-currency limits count the currency across all wallet types, USD
+  // limits count every withdrawal in scope of the policy
+  const inScope = recent.filter(
+    (trx: any) => !policy.walletType || trx.wallet?.type === policy.walletType
+  );
+  const usdCache = new Map<string, number | null>();
+  const toUsd = async (value: number, code: string, type: string) => {
+    const key = `${type}:${code}`;
+    if (!usdCache.has(key)) {
+      usdCache.set(key, await convertToUsd(1, code, type));
+    }
+    const price = usdCache.get(key);
+    return price === null || price === undefined ? null : value * price;
+  };
+
+  const reasons: string[] = [];
+  const amountUsd = await toUsd(amount, currency, walletType);
+
+  const sumCurrency = (since: number) =>
+    recent
+      .filter(
+        (trx: any) =>
+          trx.wallet?.currency === currency &&
+          new Date(trx.createdAt).getTime() >= since
+      )
+      .reduce((total, trx) => total + Number(trx.amount || 0), 0);
+
+  if (policy.dailyLimit !== null && policy.dailyLimit !== undefined) {
+    const used = sumCurrency(now - DAY);
+    if (used + amount > policy.dailyLimit) {
+      reasons.push(
+        `24h limit of ${policy.dailyLimit} ${currency} exceeded (${used} already withdrawn)`
+      );
+    }
+  }
+  if (policy.monthlyLimit !== null && policy.monthlyLimit !== undefined) {
+    const used = sumCurrency(now - MONTH);
+    if (used + amount > policy.monthlyLimit) {
+      reasons.push(
+        `30d limit of ${policy.monthlyLimit} ${currency} exceeded (${used} already withdrawn)`
+      );
+    }
+  }
+
+  const hasUsdLimits =
+    (policy.dailyLimitUsd !== null && policy.dailyLimitUsd !== undefined) ||
+    (policy.monthlyLimitUsd !== null && policy.monthlyLimitUsd !== undefined);
+  if (hasUsdLimits) {
+    let usedDay = 0;
+    let usedMonth = 0;
+    let priced = amountUsd !== null;
+    for (const trx of inScope as any[]) {
+      const value = await toUsd(
+        Number(trx.amount || 0),
+        trx.wallet?.currency,
+        trx.wallet?.type
+      );
+      if (value === null) {
+        priced = false;
+        break;
+      }
+      usedMonth += value;
+      if (new Date(trx.createdAt).getTime() >= now - DAY) usedDay += value;
+    }
+
+    if (!priced) {
+      reasons.push("USD value could not be determined for the limit check");
+    } else {
+      if (
+        policy.dailyLimitUsd !== null &&
+        policy.dailyLimitUsd !== undefined &&
+        usedDay + (amountUsd as number) > policy.dailyLimitUsd
+      ) {
+        reasons.push(
+          `24h limit of ${policy.dailyLimitUsd} USD exceeded (${usedDay.toFixed(2)} USD already withdrawn)`
+        );
+      }
+      if (
+        policy.monthlyLimitUsd !== null &&
+        policy.monthlyLimitUsd !== undefined &&
+        usedMonth + (amountUsd as number) > policy.monthlyLimitUsd
+      ) {
+        reasons.push(
+          `30d limit of ${policy.monthlyLimitUsd} USD exceeded (${usedMonth.toFixed(2)} USD already withdrawn)`
+        );
+      }
+    }
+  }
+
+  if (
+    policy.approvalThresholdUsd !== null &&
+    policy.approvalThresholdUsd !== undefined
+  ) {
+    if (amountUsd === null) {
+      reasons.push("USD value could not be determined for the approval check");
+    } else if (amountUsd >= policy.approvalThresholdUsd) {
+      reasons.push(
+        `Amount of ${amountUsd.toFixed(2)} USD requires approval (threshold ${policy.approvalThresholdUsd} USD)`
+      );
+    }
+  }
+
+  if (!reasons.length) return null;
+
+  return {
+    status: "HELD",
+    policyId: policy.id,
+    reasons,
+    requiredApprovals: Math.max(policy.requiredApprovals || 1, 1),
+    amountUsd,
+    heldAt: new Date().toISOString(),
+  };
+}
+
+export function getWithdrawalHold(metadata: any): WithdrawalRisk | null {
+  const risk = parseTransactionMetadata(metadata).risk;
+  return risk?.status === "HELD" ? risk : null;
+}
+
+/**
+ * Blocks processing of a withdrawal that is still waiting for approvals.
+ */
+export function ensureWithdrawalReleased(transaction: { metadata?: any }) {
+  const hold = getWithdrawalHold(transaction.metadata);
+  if (hold) {
+    throw createError({
+      statusCode: 403,
+      message: `Withdrawal is on hold until it has ${hold.requiredApprovals} admin approval(s)`,
+    });
+  }
+}
+
+/**
+ * Records an admin approval of a held withdrawal and releases it once enough
+ * distinct admins approved. Released ecosystem withdrawals go to the
+ * withdrawal queue; spot and fiat withdrawals continue through the usual
+ * admin approval.
+ */
+export async function approveHeldWithdrawal(
+  transactionId: string,
+  adminId: string,
+  note?: string
+) {
+  const result = await sequelize.transaction(async (t) => {
+    const transaction = await models.transaction.findOne({
+      where: { id: transactionId, type: "WITHDRAW" },
+      include: [{ model: models.wallet, as: "wallet", attributes: ["type"] }],
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
+    if (!transaction) {
+      throw createError({ statusCode: 404, message: "Withdrawal not found" });
+    }
+    if (transaction.status !== "PENDING") {
+      throw createError({
+        statusCode: 400,
+        message: "Only pending withdrawals can be approved",
+      });
+    }
+    if (transaction.userId === adminId) {
+      throw createError({
+        statusCode: 403,
+        message: "You cannot approve your own withdrawal",
+      });
+    }
+
+    const metadata = parseTransactionMetadata(transaction.metadata);
+    const hold = getWithdrawalHold(metadata);
+    if (!hold) {
+      throw createError({
+        statusCode: 400,
+        message: "Withdrawal is not on hold",
+      });
+    }
+
+    const existing = await models.withdrawalApproval.findOne({
+      where: { transactionId, adminId },
+      transaction: t,
+    });
+    if (existing) {
+      throw createError({
+        statusCode: 409,
+        message: "You have already approved this withdrawal",
+      });
+    }
+
+    await models.withdrawalApproval.create(
+      { transactionId, adminId, note },
+      { transaction: t }
+    );
+    const approvals = await models.withdrawalApproval.count({
+      where: { transactionId },
+      transaction: t,
+    });
+
+    const released = approvals >= hold.requiredApprovals;
+    if (released) {
+      metadata.risk = {
+        ...hold,
+        status: "RELEASED",
+        releasedAt: new Date().toISOString(),
+      };
+      await transaction.update(
+        { metadata: JSON.stringify(metadata) },
+        { transaction: t }
+      );
+    }
+
+    return {
+      transaction,
+      approvals,
+      requiredApprovals: hold.requiredApprovals,
+      released,
+    };
+  });
+
+  if (result.released) {
+    const walletType = (result.transaction as any).wallet?.type;
+    if (walletType === "ECO" && withdrawalQueueModule?.default) {
+      await withdrawalQueueModule.default
+        .getInstance()
+        .addTransaction(transactionId);
+    }
+
+    await createNotification({
+      userId: result.transaction.userId,
+      relatedId: transactionId,
+      type: "system",
+      title: "Withdrawal released",
+      message:
+        walletType === "ECO"
+          ? "Your withdrawal passed review and is being processed"
+          : "Your withdrawal passed review and is awaiting final processing",
+      link: "/finance/history",
+    });
+  }
+
+  return {
+    approvals: result.approvals,
+    requiredApprovals: result.requiredApprovals,
+    released: result.released,
+  };
+}
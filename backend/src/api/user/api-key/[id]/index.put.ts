@@ -1,5 +1,6 @@
 import { createError } from "@b/utils/error";
 import { models } from "@b/db";
+import { generateApiSecret, sanitizeApiKey } from "../utils";
 
 export const metadata: OperationObject = {
   summary: "Updates an API key",
@@ -39,6 +40,15 @@ export const metadata: OperationObject = {
               description:
                 "Updated IP restriction setting (true for restricted, false for unrestricted)",
             },
+            signing: {
+              type: "boolean",
+              description:
+                "Require HMAC-signed requests (true) or remove the signing secret (false)",
+            },
+            regenerateSecret: {
+              type: "boolean",
+              description: "Replace the signing secret with a new one",
+            },
           },
         },
       },
@@ -56,6 +66,12 @@ export const metadata: OperationObject = {
               permissions: { type: "array", items: { type: "string" } },
               ipWhitelist: { type: "array", items: { type: "string" } },
               ipRestriction: { type: "boolean" },
+              signing: { type: "boolean" },
+              secret: {
+                type: "string",
+                description:
+                  "Signing secret, only returned when it is generated",
+              },
             },
           },
         },
@@ -73,7 +89,8 @@ export default async (data) => {
   if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
 
   const { id } = params;
-  const { permissions, ipWhitelist, ipRestriction } = body;
+  const { permissions, ipWhitelist, ipRestriction, signing, regenerateSecret } =
+    body;
 
   const apiKey = await models.apiKey.findOne({
     where: { id, userId: user.id },
@@ -88,8 +105,17 @@ export default async (data) => {
   if (ipRestriction !== undefined)
     updatedFields.ipRestriction = Boolean(ipRestriction);
 
+  let secret: string | undefined;
+  if (signing === false) {
+    updatedFields.secret = null;
+  } else if ((signing && !apiKey.secret) || regenerateSecret) {
+    secret = generateApiSecret();
+    updatedFields.secret = secret;
+  }
+
   // Update only the provided fields
   const updatedApiKey = await apiKey.update(updatedFields);
 
-  return updatedApiKey;
+  // The secret is only shown once, when it is generated
+  return { ...sanitizeApiKey(updatedApiKey), secret };
 };
@@ -1,6 +1,7 @@
 // /server/api/api-key/index.get.ts
 import { models } from "@b/db";
 import { createError } from "@b/utils/error";
+import { sanitizeApiKey } from "./utils";
 
 export const metadata: OperationObject = {
   summary: "Lists all API keys",
@@ -22,6 +23,11 @@ export const metadata: OperationObject = {
                 key: { type: "string" },
                 permissions: { type: "array", items: { type: "string" } },
                 ipWhitelist: { type: "array", items: { type: "string" } },
+                ipRestriction: { type: "boolean" },
+                signing: {
+                  type: "boolean",
+                  description: "Whether requests with this key must be signed",
+                },
               },
             },
           },
@@ -42,5 +48,5 @@ export default async (data) => {
     where: { userId: user.id },
   });
 
-  return apiKeys;
+  return apiKeys.map(sanitizeApiKey);
 };
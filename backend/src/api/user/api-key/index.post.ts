@@ -1,6 +1,6 @@
 import { createError } from "@b/utils/error";
 import { models } from "@b/db";
-import { generateApiKey } from "./utils";
+import { generateApiKey, generateApiSecret, sanitizeApiKey } from "./utils";
 
 export const metadata: OperationObject = {
   summary: "Creates a new API key",
@@ -30,6 +30,11 @@ export const metadata: OperationObject = {
               description:
                 "Restrict access to specific IPs (true) or allow unrestricted access (false)",
             },
+            signing: {
+              type: "boolean",
+              description:
+                "Generate a secret and require HMAC-signed requests for this key",
+            },
           },
           required: ["name"],
         },
@@ -50,6 +55,12 @@ export const metadata: OperationObject = {
               permissions: { type: "array", items: { type: "string" } },
               ipWhitelist: { type: "array", items: { type: "string" } },
               ipRestriction: { type: "boolean" },
+              signing: { type: "boolean" },
+              secret: {
+                type: "string",
+                description:
+                  "Signing secret, only returned when it is generated",
+              },
             },
           },
         },
@@ -60,13 +71,15 @@ export const metadata: OperationObject = {
     500: { description: "Server error" },
   },
   requiresAuth: true,
+  kycFeature: "api_keys",
+  requiresPasskey: true,
 };
 
 export default async (data) => {
   const { user, body } = data;
   if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
 
-  const { name, permissions, ipWhitelist, ipRestriction } = body;
+  const { name, permissions, ipWhitelist, ipRestriction, signing } = body;
 
   // Check the number of API keys the user has
   const existingApiKeys = await models.apiKey.count({
@@ -87,8 +100,10 @@ export default async (data) => {
     permissions: permissions || [],
     ipWhitelist: ipWhitelist || [],
     ipRestriction: ipRestriction ?? false,
+    secret: signing ? generateApiSecret() : undefined,
     type: "user",
   });
 
-  return newKey;
+  // The secret is only shown once, when it is generated
+  return { ...sanitizeApiKey(newKey), secret: newKey.secret };
 };
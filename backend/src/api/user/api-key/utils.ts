@@ -1,3 +1,5 @@
+import crypto from "crypto";
+
 // Custom API Key Generator
 export function generateApiKey(length = 64) {
   const characters =
@@ -8,3 +10,14 @@ export function generateApiKey(length = 64) {
   }
   return apiKey;
 }
+
+// Secret used to sign requests made with an API key
+export function generateApiSecret() {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+// Hides the secret from API key responses, exposing only whether it is set
+export function sanitizeApiKey(apiKey: any) {
+  const { secret, ...rest } = apiKey.get ? apiKey.get({ plain: true }) : apiKey;
+  return { ...rest, signing: !!secret };
+}
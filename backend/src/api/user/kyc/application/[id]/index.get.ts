@@ -5,6 +5,11 @@ import {
   serverErrorResponse,
   unauthorizedResponse,
 } from "@b/utils/query";
+import {
+  getKycExpiryWarningDays,
+  getKycValidity,
+  KycValidity,
+} from "@b/utils/kyc";
 
 export const metadata: OperationObject = {
   summary: "Retrieves a KYC application for the logged-in user",
@@ -47,7 +52,13 @@ export const metadata: OperationObject = {
               status: {
                 type: "string",
                 description: "Current status of the KYC verification",
-                enum: ["PENDING", "APPROVED", "REJECTED"],
+                enum: [
+                  "PENDING",
+                  "APPROVED",
+                  "REJECTED",
+                  "ADDITIONAL_INFO_REQUIRED",
+                  "EXPIRED",
+                ],
               },
               level: { type: "number", description: "Verification level" },
               notes: {
@@ -60,6 +71,29 @@ export const metadata: OperationObject = {
                 format: "date-time",
                 description: "Timestamp when the KYC record was created",
               },
+              validity: {
+                type: "object",
+                nullable: true,
+                description:
+                  "Validity of an approved or expired application, null otherwise",
+                properties: {
+                  status: {
+                    type: "string",
+                    enum: ["VALID", "EXPIRING", "EXPIRED", "NO_EXPIRY"],
+                  },
+                  expiresAt: {
+                    type: "string",
+                    format: "date-time",
+                    nullable: true,
+                  },
+                  documentExpiresAt: {
+                    type: "string",
+                    format: "date-time",
+                    nullable: true,
+                  },
+                  daysRemaining: { type: "number", nullable: true },
+                },
+              },
               updatedAt: {
                 type: "string",
                 format: "date-time",
@@ -91,7 +125,7 @@ export default async (data: Handler) => {
 export async function getKyc(
   userId: string,
   applicationId: string
-): Promise<kycApplicationAttributes> {
+): Promise<kycApplicationAttributes & { validity: KycValidity | null }> {
   const response = await models.kycApplication.findOne({
     where: {
       userId,
@@ -114,5 +148,11 @@ export async function getKyc(
     throw createError({ statusCode: 404, message: "KYC record not found" });
   }
 
-  return response.get({ plain: true }) as unknown as kycApplicationAttributes;
+  const application = response.get({
+    plain: true,
+  }) as unknown as kycApplicationAttributes;
+  return {
+    ...application,
+    validity: getKycValidity(application, await getKycExpiryWarningDays()),
+  };
 }
@@ -5,6 +5,11 @@ import {
   serverErrorResponse,
   unauthorizedResponse,
 } from "@b/utils/query";
+import {
+  getKycExpiryWarningDays,
+  getKycValidity,
+  KycValidity,
+} from "@b/utils/kyc";
 
 export const metadata: OperationObject = {
   summary: "Retrieves all KYC applications for the logged-in user",
@@ -39,7 +44,13 @@ export const metadata: OperationObject = {
                 status: {
                   type: "string",
                   description: "Current status of the KYC verification",
-                  enum: ["PENDING", "APPROVED", "REJECTED"],
+                  enum: [
+                    "PENDING",
+                    "APPROVED",
+                    "REJECTED",
+                    "ADDITIONAL_INFO_REQUIRED",
+                    "EXPIRED",
+                  ],
                 },
                 level: { type: "number", description: "Verification level" },
                 notes: {
@@ -52,6 +63,29 @@ export const metadata: OperationObject = {
                   format: "date-time",
                   description: "Timestamp when the KYC record was created",
                 },
+                validity: {
+                  type: "object",
+                  nullable: true,
+                  description:
+                    "Validity of an approved or expired application, null otherwise",
+                  properties: {
+                    status: {
+                      type: "string",
+                      enum: ["VALID", "EXPIRING", "EXPIRED", "NO_EXPIRY"],
+                    },
+                    expiresAt: {
+                      type: "string",
+                      format: "date-time",
+                      nullable: true,
+                    },
+                    documentExpiresAt: {
+                      type: "string",
+                      format: "date-time",
+                      nullable: true,
+                    },
+                    daysRemaining: { type: "number", nullable: true },
+                  },
+                },
                 updatedAt: {
                   type: "string",
                   format: "date-time",
@@ -78,7 +112,7 @@ export default async (data: Handler) => {
 
 export async function getKyc(
   userId: string
-): Promise<kycApplicationAttributes[]> {
+): Promise<(kycApplicationAttributes & { validity: KycValidity | null })[]> {
   const responses = await models.kycApplication.findAll({
     where: {
       userId,
@@ -100,8 +134,14 @@ export async function getKyc(
     throw new Error("KYC records not found");
   }
 
-  return responses.map(
-    (response) =>
-      response.get({ plain: true }) as unknown as kycApplicationAttributes
-  );
+  const warningDays = await getKycExpiryWarningDays();
+  return responses.map((response) => {
+    const application = response.get({
+      plain: true,
+    }) as unknown as kycApplicationAttributes;
+    return {
+      ...application,
+      validity: getKycValidity(application, warningDays),
+    };
+  });
 }
@@ -7,6 +7,8 @@ import {
 } from "@b/utils/query";
 import { validateKycField } from "./utils";
 import { RedisSingleton } from "@b/utils/redis";
+import { getKycExpiryWarningDays, getKycValidity } from "@b/utils/kyc";
+import { screenUser } from "@b/utils/sanctions";
 import { Op } from "sequelize";
 
 // Endpoint metadata for documentation
@@ -80,7 +82,7 @@ export default async (data: Handler): Promise<any> => {
   }
 
   // Check for existing application for this level
-  const existingApplication = await models.kycApplication.findOne({
+  const existingApplications = await models.kycApplication.findAll({
     where: {
       userId: user.id,
       levelId,
@@ -90,6 +92,14 @@ export default async (data: Handler): Promise<any> => {
     },
   });
 
+  // An approval close to its expiry can be renewed with a new application
+  const warningDays = await getKycExpiryWarningDays();
+  const existingApplication = existingApplications.find(
+    (application) =>
+      application.status !== "APPROVED" ||
+      getKycValidity(application, warningDays)?.status !== "EXPIRING"
+  );
+
   if (existingApplication) {
     const statusMessages = {
       PENDING: "You already have a pending application for this KYC level. Please wait for review.",
@@ -164,6 +174,15 @@ export default async (data: Handler): Promise<any> => {
     // Update rate limiting counter
     await updateRateLimit(user.id);
 
+    // Screen the names and date of birth the application declares
+    try {
+      await screenUser(user.id, "KYC_SUBMISSION", {
+        applicationId: newApplication.id,
+      });
+    } catch (error) {
+      console.error("Sanctions screening of KYC application failed:", error);
+    }
+
     return {
       message: "KYC application submitted successfully.",
       application: newApplication,
@@ -0,0 +1,49 @@
+import { createError } from "@b/utils/error";
+import { getUserPriceAlert, PriceAlertMonitor } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Deletes a price alert",
+  description: "Deletes a price alert of the authenticated user by its ID.",
+  operationId: "deletePriceAlert",
+  tags: ["Price Alerts"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "The ID of the price alert to delete",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Price alert deleted successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    404: { description: "Price alert not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const alert = await getUserPriceAlert(params.id, user.id);
+  await alert.destroy();
+
+  PriceAlertMonitor.getInstance().invalidate();
+  return { message: "Price alert deleted successfully" };
+};
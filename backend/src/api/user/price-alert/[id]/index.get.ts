@@ -0,0 +1,40 @@
+import { createError } from "@b/utils/error";
+import { getUserPriceAlert, priceAlertSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a price alert",
+  description: "Retrieves a price alert of the authenticated user by its ID.",
+  operationId: "getPriceAlert",
+  tags: ["Price Alerts"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "The ID of the price alert to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Price alert retrieved successfully",
+      content: {
+        "application/json": {
+          schema: priceAlertSchema,
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    404: { description: "Price alert not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  return getUserPriceAlert(params.id, user.id);
+};
@@ -0,0 +1,86 @@
+import { createError } from "@b/utils/error";
+import {
+  ensureAlertLimit,
+  getUserPriceAlert,
+  PriceAlertMonitor,
+  priceAlertBodySchema,
+  priceAlertSchema,
+  validatePriceAlert,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Updates a price alert",
+  description:
+    "Updates the definition of a price alert, or re-arms or disables it through its status.",
+  operationId: "updatePriceAlert",
+  tags: ["Price Alerts"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "The ID of the price alert to update",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    description: "Fields of the price alert to update",
+    content: {
+      "application/json": {
+        schema: {
+          ...priceAlertBodySchema,
+          properties: {
+            ...priceAlertBodySchema.properties,
+            status: {
+              type: "string",
+              enum: ["ACTIVE", "DISABLED"],
+              description: "ACTIVE re-arms the alert, DISABLED pauses it",
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Price alert updated successfully",
+      content: {
+        "application/json": {
+          schema: priceAlertSchema,
+        },
+      },
+    },
+    400: { description: "Invalid alert or alert limit reached" },
+    401: { description: "Unauthorized" },
+    404: { description: "Price alert not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const alert = await getUserPriceAlert(params.id, user.id);
+
+  if (body.status && !["ACTIVE", "DISABLED"].includes(body.status)) {
+    throw createError({ statusCode: 400, message: "Invalid alert status" });
+  }
+  const status = body.status ?? alert.status;
+  if (status === "ACTIVE" && alert.status !== "ACTIVE") {
+    await ensureAlertLimit(user.id);
+  }
+
+  const fields = await validatePriceAlert(
+    body,
+    alert.get({ plain: true }),
+    status === "ACTIVE"
+  );
+
+  const updatedAlert = await alert.update({ ...fields, status });
+
+  PriceAlertMonitor.getInstance().invalidate();
+  return updatedAlert;
+};
@@ -0,0 +1,53 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { priceAlertSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists all price alerts",
+  description: "Retrieves the price alerts of the authenticated user.",
+  operationId: "listPriceAlerts",
+  tags: ["Price Alerts"],
+  parameters: [
+    {
+      name: "symbol",
+      in: "query",
+      required: false,
+      description: "Only return alerts for this symbol",
+      schema: { type: "string" },
+    },
+    {
+      name: "status",
+      in: "query",
+      required: false,
+      description: "Only return alerts with this status",
+      schema: { type: "string", enum: ["ACTIVE", "TRIGGERED", "DISABLED"] },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Price alerts retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: priceAlertSchema },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const where: any = { userId: user.id };
+  if (query?.symbol) where.symbol = query.symbol;
+  if (query?.status) where.status = query.status;
+
+  return models.priceAlert.findAll({
+    where,
+    order: [["createdAt", "DESC"]],
+  });
+};
@@ -0,0 +1,60 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  ensureAlertLimit,
+  PriceAlertMonitor,
+  priceAlertBodySchema,
+  priceAlertSchema,
+  validatePriceAlert,
+} from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Creates a new price alert",
+  description:
+    "Creates a price alert that notifies the authenticated user when a market reaches a price, crosses it, or moves by a percentage within a time window.",
+  operationId: "createPriceAlert",
+  tags: ["Price Alerts"],
+  requestBody: {
+    description: "Definition of the price alert",
+    content: {
+      "application/json": {
+        schema: {
+          ...priceAlertBodySchema,
+          required: ["symbol", "condition"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Price alert created successfully",
+      content: {
+        "application/json": {
+          schema: priceAlertSchema,
+        },
+      },
+    },
+    400: { description: "Invalid alert or alert limit reached" },
+    401: { description: "Unauthorized" },
+    404: { description: "Market not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  await ensureAlertLimit(user.id);
+  const fields = await validatePriceAlert(body);
+
+  const alert = await models.priceAlert.create({
+    ...(fields as priceAlertCreationAttributes),
+    userId: user.id,
+    status: "ACTIVE",
+  });
+
+  PriceAlertMonitor.getInstance().invalidate();
+  return alert;
+};
@@ -0,0 +1,494 @@
+// Safe import for ecosystem modules. The module itself is kept because the
+// ecosystem matchmaking imports this file while the engine is still loading.
+let ecosystemEngineModule: any;
+try {
+  ecosystemEngineModule = require("@b/api/(ext)/ecosystem/utils/matchingEngine");
+} catch (e) {
+  // Ecosystem extension not available
+}
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { RedisSingleton } from "@b/utils/redis";
+import { messageBroker } from "@b/handler/Websocket";
+import { createNotification } from "@b/utils/notifications";
+import { sendPriceAlertEmail } from "@b/utils/emails";
+import { logError } from "@b/utils/logger";
+
+const MAX_ACTIVE_ALERTS = 50;
+const MAX_TIME_WINDOW = 1440;
+
+const CONDITIONS = ["ABOVE", "BELOW", "CROSSES", "PERCENT_CHANGE"];
+const MARKET_TYPES = ["SPOT", "ECO"];
+const MODES = ["ONCE", "RECURRING"];
+
+export const priceAlertSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "ID of the price alert" },
+    symbol: { type: "string", description: "Trading symbol, e.g. BTC/USDT" },
+    marketType: { type: "string", enum: MARKET_TYPES },
+    condition: { type: "string", enum: CONDITIONS },
+    price: { type: "number", description: "Target price" },
+    percentChange: {
+      type: "number",
+      description: "Signed change in percent, negative for drops",
+    },
+    timeWindow: {
+      type: "number",
+      description: "Window in minutes the percent change is measured over",
+    },
+    mode: { type: "string", enum: MODES },
+    cooldown: {
+      type: "number",
+      description: "Minutes a recurring alert stays quiet after triggering",
+    },
+    notifyEmail: { type: "boolean" },
+    note: { type: "string" },
+    status: { type: "string", enum: ["ACTIVE", "TRIGGERED", "DISABLED"] },
+    lastPrice: { type: "number" },
+    triggerCount: { type: "number" },
+    triggeredAt: { type: "string", format: "date-time" },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+export const priceAlertBodySchema = {
+  type: "object",
+  properties: {
+    symbol: priceAlertSchema.properties.symbol,
+    marketType: priceAlertSchema.properties.marketType,
+    condition: priceAlertSchema.properties.condition,
+    price: priceAlertSchema.properties.price,
+    percentChange: priceAlertSchema.properties.percentChange,
+    timeWindow: priceAlertSchema.properties.timeWindow,
+    mode: priceAlertSchema.properties.mode,
+    cooldown: priceAlertSchema.properties.cooldown,
+    notifyEmail: priceAlertSchema.properties.notifyEmail,
+    note: priceAlertSchema.properties.note,
+  },
+};
+
+/**
+ * Latest known price of a market, from the exchange ticker cache for spot
+ * markets and from the matching engine for ecosystem markets.
+ */
+export async function getCurrentPrice(
+  marketType: "SPOT" | "ECO",
+  symbol: string
+): Promise<number | null> {
+  if (marketType === "ECO") {
+    if (!ecosystemEngineModule?.MatchingEngine) return null;
+    const engine = await ecosystemEngineModule.MatchingEngine.getInstance();
+    const last = engine.getTicker(symbol)?.last;
+    return last ? Number(last) : null;
+  }
+
+  const cachedTickers =
+    await RedisSingleton.getInstance().get("exchange:tickers");
+  if (!cachedTickers) return null;
+  const last = JSON.parse(cachedTickers)[symbol]?.last;
+  return last ? Number(last) : null;
+}
+
+export function describeCondition(alert: priceAlertAttributes): string {
+  switch (alert.condition) {
+    case "ABOVE":
+      return `price above ${alert.price}`;
+    case "BELOW":
+      return `price below ${alert.price}`;
+    case "CROSSES":
+      return `price crossing ${alert.price}`;
+    case "PERCENT_CHANGE":
+      return `${alert.percentChange! > 0 ? "rise" : "drop"} of ${Math.abs(
+        alert.percentChange!
+      )}% within ${alert.timeWindow} minutes`;
+  }
+}
+
+/**
+ * Validates an alert definition and returns the normalized fields. With
+ * `existing` the body is treated as a partial update of that alert; inactive
+ * alerts skip the check against the current price.
+ */
+export async function validatePriceAlert(
+  body: any,
+  existing?: priceAlertAttributes,
+  active = true
+): Promise<Partial<priceAlertAttributes>> {
+  const alert: any = {
+    symbol: body.symbol ?? existing?.symbol,
+    marketType: body.marketType ?? existing?.marketType ?? "SPOT",
+    condition: body.condition ?? existing?.condition,
+    price: body.price ?? existing?.price ?? null,
+    percentChange: body.percentChange ?? existing?.percentChange ?? null,
+    timeWindow: body.timeWindow ?? existing?.timeWindow ?? null,
+    mode: body.mode ?? existing?.mode ?? "ONCE",
+    cooldown: Number(body.cooldown ?? existing?.cooldown ?? 0),
+    notifyEmail: Boolean(body.notifyEmail ?? existing?.notifyEmail ?? false),
+    note: body.note ?? existing?.note ?? null,
+  };
+
+  if (!alert.symbol || !alert.symbol.includes("/")) {
+    throw createError({ statusCode: 400, message: "Invalid symbol" });
+  }
+  if (!MARKET_TYPES.includes(alert.marketType)) {
+    throw createError({ statusCode: 400, message: "Invalid market type" });
+  }
+  if (!CONDITIONS.includes(alert.condition)) {
+    throw createError({ statusCode: 400, message: "Invalid alert condition" });
+  }
+  if (!MODES.includes(alert.mode)) {
+    throw createError({ statusCode: 400, message: "Invalid alert mode" });
+  }
+  if (!Number.isInteger(alert.cooldown) || alert.cooldown < 0) {
+    throw createError({
+      statusCode: 400,
+      message: "Cooldown must be a non-negative number of minutes",
+    });
+  }
+
+  const [currency, pair] = alert.symbol.split("/");
+  const market =
+    alert.marketType === "ECO"
+      ? await models.ecosystemMarket?.findOne({
+          where: { currency, pair, status: true },
+        })
+      : await models.exchangeMarket.findOne({
+          where: { currency, pair, status: true },
+        });
+  if (!market) {
+    throw createError({ statusCode: 404, message: "Market not found" });
+  }
+
+  if (alert.condition === "PERCENT_CHANGE") {
+    alert.percentChange = Number(alert.percentChange);
+    alert.timeWindow = Number(alert.timeWindow);
+    alert.price = null;
+    if (!alert.percentChange) {
+      throw createError({
+        statusCode: 400,
+        message: "Percent change is required and cannot be zero",
+      });
+    }
+    if (
+      !Number.isInteger(alert.timeWindow) ||
+      alert.timeWindow < 1 ||
+      alert.timeWindow > MAX_TIME_WINDOW
+    ) {
+      throw createError({
+        statusCode: 400,
+        message: `Time window must be between 1 and ${MAX_TIME_WINDOW} minutes`,
+      });
+    }
+  } else {
+    alert.price = Number(alert.price);
+    alert.percentChange = null;
+    alert.timeWindow = null;
+    if (!alert.price || alert.price <= 0) {
+      throw createError({
+        statusCode: 400,
+        message: "Target price must be greater than 0",
+      });
+    }
+  }
+
+  const currentPrice = await getCurrentPrice(alert.marketType, alert.symbol);
+  if (currentPrice && active && alert.mode === "ONCE") {
+    if (alert.condition === "ABOVE" && currentPrice >= alert.price) {
+      throw createError({
+        statusCode: 400,
+        message: "The current price is already above the target price",
+      });
+    }
+    if (alert.condition === "BELOW" && currentPrice <= alert.price) {
+      throw createError({
+        statusCode: 400,
+        message: "The current price is already below the target price",
+      });
+    }
+  }
+  alert.lastPrice = currentPrice;
+
+  return alert;
+}
+
+export async function ensureAlertLimit(userId: string) {
+  const activeAlerts = await models.priceAlert.count({
+    where: { userId, status: "ACTIVE" },
+  });
+  if (activeAlerts >= MAX_ACTIVE_ALERTS) {
+    throw createError({
+      statusCode: 400,
+      message: `You have reached the limit of ${MAX_ACTIVE_ALERTS} active price alerts.`,
+    });
+  }
+}
+
+interface PriceSample {
+  time: number;
+  price: number;
+}
+
+/**
+ * Keeps the active price alerts in memory and evaluates them against the
+ * prices streamed by the exchange ticker and the ecosystem matching engine.
+ */
+export class PriceAlertMonitor {
+  private static instance: PriceAlertMonitor;
+  private alerts: Map<string, priceAlertAttributes[]> | null = null;
+  private loading: Promise<void> | null = null;
+  private history: Map<string, PriceSample[]> = new Map();
+  private lastPrices: Map<string, number> = new Map();
+  private triggering: Set<string> = new Set();
+
+  public static getInstance(): PriceAlertMonitor {
+    if (!PriceAlertMonitor.instance) {
+      PriceAlertMonitor.instance = new PriceAlertMonitor();
+    }
+    return PriceAlertMonitor.instance;
+  }
+
+  private key(marketType: string, symbol: string) {
+    return `${marketType}:${symbol}`;
+  }
+
+  /**
+   * Drops the cached alerts so the next price update reloads them; called
+   * whenever alerts are created, changed or removed.
+   */
+  public invalidate() {
+    this.alerts = null;
+  }
+
+  private async loadAlerts() {
+    if (this.alerts) return;
+    if (!this.loading) {
+      this.loading = (async () => {
+        const alerts = await models.priceAlert.findAll({
+          where: { status: "ACTIVE" },
+          raw: true,
+        });
+        const grouped = new Map<string, priceAlertAttributes[]>();
+        for (const alert of alerts) {
+          const key = this.key(alert.marketType, alert.symbol);
+          if (!grouped.has(key)) grouped.set(key, []);
+          grouped.get(key)!.push(alert);
+        }
+        this.alerts = grouped;
+      })().finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  public async evaluateTickers(
+    marketType: "SPOT" | "ECO",
+    tickers: Record<string, { last?: number }>
+  ) {
+    for (const [symbol, ticker] of Object.entries(tickers)) {
+      if (ticker?.last) {
+        await this.evaluate(marketType, symbol, Number(ticker.last));
+      }
+    }
+  }
+
+  public async evaluate(
+    marketType: "SPOT" | "ECO",
+    symbol: string,
+    price: number
+  ) {
+    try {
+      await this.loadAlerts();
+      const key = this.key(marketType, symbol);
+      const alerts = this.alerts?.get(key);
+      const previousPrice = this.lastPrices.get(key);
+      this.lastPrices.set(key, price);
+
+      if (!alerts?.length) {
+        this.history.delete(key);
+        return;
+      }
+
+      const now = Date.now();
+      const samples = this.recordSample(key, alerts, now, price);
+
+      for (const alert of alerts) {
+        if (this.triggering.has(alert.id) || this.isCoolingDown(alert, now)) {
+          continue;
+        }
+        if (
+          this.isConditionMet(
+            alert,
+            price,
+            previousPrice ?? alert.lastPrice,
+            samples,
+            now
+          )
+        ) {
+          await this.trigger(alert, price, now);
+        }
+      }
+    } catch (error) {
+      logError("price_alert", error, __filename);
+    }
+  }
+
+  private recordSample(
+    key: string,
+    alerts: priceAlertAttributes[],
+    now: number,
+    price: number
+  ): PriceSample[] {
+    const longestWindow = Math.max(
+      0,
+      ...alerts
+        .filter((alert) => alert.condition === "PERCENT_CHANGE")
+        .map((alert) => alert.timeWindow || 0)
+    );
+    if (!longestWindow) {
+      this.history.delete(key);
+      return [];
+    }
+
+    const cutoff = now - longestWindow * 60 * 1000;
+    const samples = (this.history.get(key) || []).filter(
+      (sample) => sample.time >= cutoff
+    );
+    samples.push({ time: now, price });
+    this.history.set(key, samples);
+    return samples;
+  }
+
+  private isCoolingDown(alert: priceAlertAttributes, now: number) {
+    if (alert.mode !== "RECURRING" || !alert.triggeredAt) return false;
+    // A percent move is not reported twice within the window it covers
+    const quietMinutes =
+      alert.condition === "PERCENT_CHANGE"
+        ? Math.max(alert.cooldown, alert.timeWindow || 0)
+        : alert.cooldown;
+    return (
+      now - new Date(alert.triggeredAt).getTime() < quietMinutes * 60 * 1000
+    );
+  }
+
+  private isConditionMet(
+    alert: priceAlertAttributes,
+    price: number,
+    previousPrice: number | undefined,
+    samples: PriceSample[],
+    now: number
+  ): boolean {
+    const target = alert.price as number;
+    switch (alert.condition) {
+      case "ABOVE":
+        // Recurring alerts fire on the move above the target, not on every tick
+        return (
+          price >= target &&
+          (alert.mode === "ONCE" || !previousPrice || previousPrice < target)
+        );
+      case "BELOW":
+        return (
+          price <= target &&
+          (alert.mode === "ONCE" || !previousPrice || previousPrice > target)
+        );
+      case "CROSSES":
+        if (!previousPrice) return false;
+        return (
+          (previousPrice < target && price >= target) ||
+          (previousPrice > target && price <= target)
+        );
+      case "PERCENT_CHANGE": {
+        const cutoff = now - (alert.timeWindow as number) * 60 * 1000;
+        const reference = samples.find((sample) => sample.time >= cutoff);
+        if (!reference || reference.price <= 0) return false;
+        const change = ((price - reference.price) / reference.price) * 100;
+        const threshold = alert.percentChange as number;
+        return threshold > 0 ? change >= threshold : change <= threshold;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private async trigger(
+    alert: priceAlertAttributes,
+    price: number,
+    now: number
+  ) {
+    this.triggering.add(alert.id);
+    try {
+      // On the clock cool-downs are measured with
+      const triggeredAt = new Date(now);
+      const updates: Partial<priceAlertAttributes> = {
+        lastPrice: price,
+        triggerCount: alert.triggerCount + 1,
+        triggeredAt,
+      };
+      if (alert.mode === "ONCE") updates.status = "TRIGGERED";
+
+      const [affected] = await models.priceAlert.update(updates, {
+        where: { id: alert.id, status: "ACTIVE" },
+      });
+      if (!affected) {
+        this.invalidate();
+        return;
+      }
+
+      Object.assign(alert, updates);
+      if (alert.mode === "ONCE") {
+        const key = this.key(alert.marketType, alert.symbol);
+        const remaining = (this.alerts?.get(key) || []).filter(
+          (item) => item.id !== alert.id
+        );
+        this.alerts?.set(key, remaining);
+      }
+
+      await this.deliver(alert, price);
+    } catch (error) {
+      logError("price_alert", error, __filename);
+    } finally {
+      this.triggering.delete(alert.id);
+    }
+  }
+
+  private async deliver(alert: priceAlertAttributes, price: number) {
+    const description = describeCondition(alert);
+    const [currency, pair] = alert.symbol.split("/");
+
+    messageBroker.sendToClientOnRoute("/api/user", alert.userId, {
+      type: "priceAlert",
+      method: "trigger",
+      payload: { ...alert, price },
+    });
+
+    await createNotification({
+      userId: alert.userId,
+      relatedId: alert.id,
+      type: "alert",
+      title: `Price Alert: ${alert.symbol}`,
+      message: `${alert.symbol} triggered your alert for ${description} at ${price}`,
+      details: alert.note || undefined,
+      link: `/trade?symbol=${currency}-${pair}`,
+    });
+
+    if (alert.notifyEmail) {
+      const user = await models.user.findByPk(alert.userId, {
+        attributes: ["email", "firstName"],
+      });
+      if (user?.email) {
+        await sendPriceAlertEmail(user, alert, price, description);
+      }
+    }
+  }
+}
+
+export async function getUserPriceAlert(id: string, userId: string) {
+  const alert = await models.priceAlert.findOne({
+    where: { id, userId },
+  });
+  if (!alert) {
+    throw createError({ statusCode: 404, message: "Price alert not found" });
+  }
+  return alert;
+}
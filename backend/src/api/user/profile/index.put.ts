@@ -219,7 +219,7 @@ export const updateUserQuery = async (
     phone?: string;
     twoFactor?: boolean;
     profile?: any;
-    settings?: { email?: boolean; sms?: boolean; push?: boolean };
+    settings?: userAttributes["settings"];
   } = {};
 
   if (firstName !== undefined) updateData.firstName = firstName;
@@ -230,8 +230,17 @@ export const updateUserQuery = async (
   if (twoFactor !== undefined) updateData.twoFactor = twoFactor;
   if (profile !== undefined) updateData.profile = profile;
   if (settings !== undefined) {
-    updateData.settings =
+    const parsed =
       typeof settings === "string" ? JSON.parse(settings) : settings;
+    // The withdrawal whitelist is a security setting with its own confirmation
+    // flow, so profile updates keep whatever is currently stored
+    const current = await models.user.findByPk(id, {
+      attributes: ["settings"],
+    });
+    updateData.settings = {
+      ...parsed,
+      withdrawalWhitelist: current?.settings?.withdrawalWhitelist ?? false,
+    };
   }
 
   // Handle avatar removal if necessary
@@ -1,11 +1,12 @@
 import { createError } from "@b/utils/error";
 import { models } from "@b/db";
-import crypto from "crypto";
+import { getRequestSessionId, revokeUserSessions } from "@b/utils/session";
 import {
   notFoundMetadataResponse,
   serverErrorResponse,
   unauthorizedResponse,
 } from "@b/utils/query";
+import { generateRecoveryCodes } from "@b/api/auth/otp/utils";
 
 export const metadata: OperationObject = {
   summary:
@@ -81,7 +82,12 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 401, message: "Unauthorized" });
 
   const { secret, type } = data.body;
-  const result = await saveOTPQuery(data.user.id, secret, type);
+  const result = await saveOTPQuery(
+    data.user.id,
+    secret,
+    type,
+    getRequestSessionId(data)
+  );
   return {
     message: "OTP configuration saved successfully",
     recoveryCodes: result.recoveryCodes,
@@ -91,7 +97,8 @@ export default async (data: Handler) => {
 export async function saveOTPQuery(
   userId: string,
   secret: string,
-  type: twoFactorAttributes["type"]
+  type: twoFactorAttributes["type"],
+  currentSessionId?: string
 ): Promise<twoFactorAttributes> {
   if (!secret || !type)
     throw createError({
@@ -99,17 +106,6 @@ export async function saveOTPQuery(
       message: "Missing required parameters",
     });
 
-  // Generate exactly 12 unique recovery codes in the format XXXX-XXXX-XXXX.
-  const generateRecoveryCodes = (): string[] => {
-    const codes = new Set<string>();
-    while (codes.size < 12) {
-      const raw = crypto.randomBytes(6).toString("hex").toUpperCase();
-      const formatted = `${raw.slice(0, 4)}-${raw.slice(4, 8)}-${raw.slice(8, 12)}`;
-      codes.add(formatted);
-    }
-    return Array.from(codes);
-  };
-
   const recoveryCodes = generateRecoveryCodes();
   let otpDetails: twoFactorAttributes;
 
@@ -130,6 +126,8 @@ export async function saveOTPQuery(
         { where: { id: existingTwoFactor.id }, returning: true }
       );
       otpDetails = updatedRecord.get({ plain: true }) as twoFactorAttributes;
+      // Sessions signed in with the replaced secret are no longer trusted
+      await revokeUserSessions(userId, currentSessionId);
     } else {
       // Create a new twoFactor record along with recovery codes.
       const createdRecord = await models.twoFactor.create({
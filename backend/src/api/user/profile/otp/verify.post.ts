@@ -8,6 +8,7 @@ import {
   serverErrorResponse,
   unauthorizedResponse,
 } from "@b/utils/query";
+import { getRequestSessionId } from "@b/utils/session";
 import { saveOTPQuery } from "./index.post";
 
 export const metadata: OperationObject = {
@@ -94,7 +95,7 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 401, message: "Invalid OTP" });
   }
 
-  await saveOTPQuery(data.user.id, secret, type);
+  await saveOTPQuery(data.user.id, secret, type, getRequestSessionId(data));
 
   return { message: "OTP verified and saved successfully" };
 };
@@ -0,0 +1,70 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+
+export const metadata: OperationObject = {
+  summary: "Removes a passkey",
+  description:
+    "Removes a passkey from the account. The last passkey cannot be removed while passkeys are the account's two-factor method.",
+  operationId: "deletePasskey",
+  tags: ["Profile", "Passkeys"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the passkey to remove",
+      schema: { type: "string" },
+    },
+  ],
+  requiresAuth: true,
+  requiresPasskey: true,
+  responses: {
+    200: {
+      description: "Passkey removed successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Last passkey used for two-factor login" },
+    401: { description: "Unauthorized" },
+    403: { description: "Passkey confirmation required" },
+    404: { description: "Passkey not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const passkey = await models.webAuthnCredential.findOne({
+    where: { id: params.id, userId: user.id },
+  });
+  if (!passkey) {
+    throw createError({ statusCode: 404, message: "Passkey not found" });
+  }
+
+  const [count, twoFactor] = await Promise.all([
+    models.webAuthnCredential.count({ where: { userId: user.id } }),
+    models.twoFactor.findOne({ where: { userId: user.id } }),
+  ]);
+  if (count === 1 && twoFactor?.enabled && twoFactor.type === "PASSKEY") {
+    throw createError({
+      statusCode: 400,
+      message:
+        "Choose another two-factor method before removing your last passkey",
+    });
+  }
+
+  await passkey.destroy();
+  return { message: "Passkey removed successfully" };
+};
@@ -0,0 +1,83 @@
+import { createError } from "@b/utils/error";
+import {
+  assertPasskeysEnabled,
+  markPasskeyConfirmed,
+  PASSKEY_CONFIRMATION_TTL_SECONDS,
+  verifyPasskeyAssertion,
+} from "@b/utils/passkey";
+import { getRequestSessionId } from "@b/utils/session";
+import { getUserWith2FA, consumeRecoveryCode } from "@b/api/auth/otp/utils";
+import { passkeyCredentialSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Confirms a sensitive action with a passkey",
+  description:
+    "Verifies a passkey assertion, or a recovery code when the passkey's device is lost, and allows actions that require a passkey from this session for a few minutes.",
+  operationId: "confirmPasskey",
+  tags: ["Profile", "Passkeys"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            credential: passkeyCredentialSchema,
+            recoveryCode: {
+              type: "string",
+              description: "Recovery code to use instead of a passkey",
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Passkey confirmed",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              expiresIn: {
+                type: "number",
+                description: "Seconds the confirmation stays valid",
+              },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid or expired passkey response" },
+    401: { description: "Unauthorized or invalid passkey" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+  assertPasskeysEnabled();
+
+  if (body.credential) {
+    await verifyPasskeyAssertion(body.credential, ["confirm"], user.id);
+  } else if (body.recoveryCode) {
+    const account = await getUserWith2FA(user.id);
+    await consumeRecoveryCode(account.twoFactor, body.recoveryCode);
+  } else {
+    throw createError({
+      statusCode: 400,
+      message: "A passkey or recovery code is required",
+    });
+  }
+
+  await markPasskeyConfirmed(user.id, getRequestSessionId(data));
+  return {
+    message: "Passkey confirmed",
+    expiresIn: PASSKEY_CONFIRMATION_TTL_SECONDS,
+  };
+};
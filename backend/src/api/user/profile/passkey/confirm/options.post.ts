@@ -0,0 +1,30 @@
+import { createError } from "@b/utils/error";
+import {
+  assertPasskeysEnabled,
+  createAuthenticationOptions,
+} from "@b/utils/passkey";
+import { passkeyOptionsResponse } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Starts a passkey confirmation",
+  description:
+    "Returns the options for navigator.credentials.get() to confirm a sensitive action, such as a withdrawal or creating an API key.",
+  operationId: "getPasskeyConfirmationOptions",
+  tags: ["Profile", "Passkeys"],
+  requiresAuth: true,
+  responses: {
+    200: passkeyOptionsResponse,
+    400: { description: "Passkeys are not enabled" },
+    401: { description: "Unauthorized" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+  assertPasskeysEnabled();
+
+  return await createAuthenticationOptions("confirm", user.id);
+};
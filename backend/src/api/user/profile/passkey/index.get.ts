@@ -0,0 +1,33 @@
+import { createError } from "@b/utils/error";
+import { getUserPasskeys } from "@b/utils/passkey";
+import { passkeySchema, toPublicPasskey } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists the user's passkeys",
+  description: "Lists the passkeys registered to the user's account.",
+  operationId: "listPasskeys",
+  tags: ["Profile", "Passkeys"],
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Passkeys retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: passkeySchema },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: { description: "Server error" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const passkeys = await getUserPasskeys(user.id);
+  return passkeys.map(toPublicPasskey);
+};
@@ -0,0 +1,74 @@
+import { createError } from "@b/utils/error";
+import { assertPasskeysEnabled, registerPasskey } from "@b/utils/passkey";
+import {
+  passkeyCredentialSchema,
+  passkeySchema,
+  toPublicPasskey,
+} from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Registers a passkey",
+  description:
+    "Verifies the browser's response to the registration options and adds the passkey to the account. A first passkey also returns recovery codes when the account has none, to be shown to the user once.",
+  operationId: "registerPasskey",
+  tags: ["Profile", "Passkeys"],
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            credential: passkeyCredentialSchema,
+            name: {
+              type: "string",
+              description: "Label for the passkey, such as the device name",
+            },
+          },
+          required: ["credential"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Passkey registered successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              passkey: passkeySchema,
+              recoveryCodes: { type: "array", items: { type: "string" } },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid or expired passkey response" },
+    401: { description: "Unauthorized" },
+    409: { description: "Passkey already registered" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+  assertPasskeysEnabled();
+
+  const { passkey, recoveryCodes } = await registerPasskey(
+    user.id,
+    body.credential,
+    body.name
+  );
+
+  return {
+    message: "Passkey registered successfully",
+    passkey: toPublicPasskey(passkey),
+    ...(recoveryCodes && { recoveryCodes }),
+  };
+};
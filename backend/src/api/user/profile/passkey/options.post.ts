@@ -0,0 +1,38 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  assertPasskeysEnabled,
+  createRegistrationOptions,
+} from "@b/utils/passkey";
+import { passkeyOptionsResponse } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Starts adding a passkey",
+  description:
+    "Returns the options for navigator.credentials.create(). The response is then sent to the register passkey endpoint.",
+  operationId: "getPasskeyRegistrationOptions",
+  tags: ["Profile", "Passkeys"],
+  requiresAuth: true,
+  responses: {
+    200: passkeyOptionsResponse,
+    400: { description: "Passkeys are not enabled" },
+    401: { description: "Unauthorized" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+  assertPasskeysEnabled();
+
+  const account = await models.user.findByPk(user.id, {
+    attributes: ["id", "email", "firstName", "lastName"],
+  });
+  if (!account) {
+    throw createError({ statusCode: 404, message: "User not found" });
+  }
+
+  return await createRegistrationOptions(account);
+};
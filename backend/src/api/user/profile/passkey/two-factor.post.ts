@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { assertPasskeysEnabled, userHasPasskeys } from "@b/utils/passkey";
+import { getRequestSessionId, revokeUserSessions } from "@b/utils/session";
+import { encrypt, generateRecoveryCodes } from "@b/api/auth/otp/utils";
+
+export const metadata: OperationObject = {
+  summary: "Uses passkeys for two-factor login",
+  description:
+    "Makes passkeys the account's two-factor method, so password logins must be completed with a passkey. New recovery codes are returned, which also work if every passkey is lost.",
+  operationId: "enablePasskeyTwoFactor",
+  tags: ["Profile", "Passkeys"],
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Passkey two-factor login enabled",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              recoveryCodes: { type: "array", items: { type: "string" } },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Passkey two-factor login is unavailable" },
+    401: { description: "Unauthorized" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+  assertPasskeysEnabled();
+  if (process.env.NEXT_PUBLIC_2FA_PASSKEY_STATUS !== "true") {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey 2FA is not enabled",
+    });
+  }
+  if (!(await userHasPasskeys(user.id))) {
+    throw createError({
+      statusCode: 400,
+      message: "Register a passkey before using it for two-factor login",
+    });
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const values = {
+    type: "PASSKEY" as const,
+    // Passkey 2FA has no OTP secret, this one is never shown or used
+    secret: encrypt(crypto.randomBytes(20).toString("hex")),
+    enabled: true,
+    recoveryCodes: JSON.stringify(recoveryCodes),
+  };
+  const existing = await models.twoFactor.findOne({
+    where: { userId: user.id },
+  });
+  if (existing) {
+    const replacesMethod = existing.enabled && existing.type !== "PASSKEY";
+    await existing.update(values);
+    // Sessions signed in with the replaced method are no longer trusted
+    if (replacesMethod) {
+      await revokeUserSessions(user.id, getRequestSessionId(data));
+    }
+  } else {
+    await models.twoFactor.create({ userId: user.id, ...values });
+  }
+
+  return {
+    message: "Passkeys are now used for two-factor login",
+    recoveryCodes,
+  };
+};
@@ -0,0 +1,48 @@
+export const passkeyCredentialSchema = {
+  type: "object",
+  description:
+    "PublicKeyCredential returned by the browser, with binary fields base64url encoded",
+  properties: {
+    id: { type: "string" },
+    rawId: { type: "string" },
+    type: { type: "string" },
+    response: {
+      type: "object",
+      properties: {
+        clientDataJSON: { type: "string" },
+        attestationObject: { type: "string" },
+        authenticatorData: { type: "string" },
+        signature: { type: "string" },
+        userHandle: { type: "string", nullable: true },
+        transports: { type: "array", items: { type: "string" } },
+      },
+      required: ["clientDataJSON"],
+    },
+  },
+  required: ["id", "type", "response"],
+};
+
+export const passkeySchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    name: { type: "string" },
+    transports: { type: "array", items: { type: "string" } },
+    lastUsedAt: { type: "string", format: "date-time", nullable: true },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+export const passkeyOptionsResponse = {
+  description: "Options to pass to the browser's WebAuthn API",
+  content: {
+    "application/json": {
+      schema: { type: "object" },
+    },
+  },
+};
+
+export function toPublicPasskey(passkey: webAuthnCredentialAttributes) {
+  const { id, name, transports, lastUsedAt, createdAt } = passkey;
+  return { id, name, transports, lastUsedAt, createdAt };
+}
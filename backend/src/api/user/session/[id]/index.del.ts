@@ -0,0 +1,51 @@
+import { createError } from "@b/utils/error";
+import { revokeSession } from "@b/utils/session";
+
+export const metadata: OperationObject = {
+  summary: "Revokes one of the user's sessions",
+  description:
+    "Signs the user out on one device. Revoking the current session logs the user out.",
+  operationId: "revokeUserSession",
+  tags: ["User", "Sessions"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the session, as returned by the session list",
+      schema: { type: "string" },
+    },
+  ],
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Session revoked successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    404: { description: "Session not found" },
+    500: { description: "Server error" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  if (!(await revokeSession(user.id, params.id))) {
+    throw createError({ statusCode: 404, message: "Session not found" });
+  }
+  return { message: "Session revoked successfully" };
+};
@@ -0,0 +1,39 @@
+import { createError } from "@b/utils/error";
+import { getRequestSessionId, revokeUserSessions } from "@b/utils/session";
+
+export const metadata: OperationObject = {
+  summary: "Signs the user out of all other sessions",
+  description:
+    "Revokes every session of the user except the one making the request.",
+  operationId: "revokeOtherUserSessions",
+  tags: ["User", "Sessions"],
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Sessions revoked successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              revoked: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: { description: "Server error" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const revoked = await revokeUserSessions(user.id, getRequestSessionId(data));
+  return { message: "Other sessions signed out successfully", revoked };
+};
@@ -0,0 +1,47 @@
+import { createError } from "@b/utils/error";
+import { getRequestSessionId, listUserSessions } from "@b/utils/session";
+
+export const metadata: OperationObject = {
+  summary: "Lists the user's active sessions",
+  description:
+    "Lists the devices the user is signed in on, with their browser, IP address, country and when they were last used. The session making the request is marked as current.",
+  operationId: "listUserSessions",
+  tags: ["User", "Sessions"],
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Sessions retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                device: { type: "string" },
+                userAgent: { type: "string", nullable: true },
+                ipAddress: { type: "string", nullable: true },
+                country: { type: "string", nullable: true },
+                createdAt: { type: "string", nullable: true },
+                lastSeenAt: { type: "string", nullable: true },
+                current: { type: "boolean" },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: { description: "Server error" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  return await listUserSessions(user.id, getRequestSessionId(data));
+};
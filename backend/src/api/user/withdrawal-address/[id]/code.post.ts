@@ -0,0 +1,66 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { getUserWithdrawalAddress, issueConfirmationCode } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Resends a withdrawal address confirmation code",
+  description:
+    "Sends a new confirmation code for a pending withdrawal address to the user's email.",
+  operationId: "resendWithdrawalAddressCode",
+  tags: ["Withdrawal Addresses"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "The ID of the withdrawal address",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Confirmation code sent",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Address already confirmed" },
+    401: { description: "Unauthorized" },
+    404: { description: "Withdrawal address not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const account = await models.user.findByPk(user.id);
+  if (!account)
+    throw createError({ statusCode: 404, message: "User not found" });
+
+  const address = await getUserWithdrawalAddress(params.id, user.id);
+  if (address.status !== "PENDING") {
+    throw createError({
+      statusCode: 400,
+      message: "Withdrawal address is already confirmed",
+    });
+  }
+
+  await issueConfirmationCode(
+    account,
+    `address:${address.id}`,
+    `Add ${address.label} (${address.chain}: ${address.address})`
+  );
+
+  return { message: "A confirmation code has been sent to your email" };
+};
@@ -0,0 +1,94 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  confirmationBodySchema,
+  getAddressCooldownHours,
+  getUserWithdrawalAddress,
+  notifyAddressBookChange,
+  serializeWithdrawalAddress,
+  verifyConfirmation,
+  withdrawalAddressSchema,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Confirms a withdrawal address",
+  description:
+    "Confirms a pending withdrawal address with the code sent by email, and the authenticator code when app 2FA is enabled. The address becomes usable once the cool-down period has passed.",
+  operationId: "confirmWithdrawalAddress",
+  tags: ["Withdrawal Addresses"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "The ID of the withdrawal address",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          ...confirmationBodySchema,
+          required: ["code"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Withdrawal address confirmed successfully",
+      content: {
+        "application/json": {
+          schema: withdrawalAddressSchema,
+        },
+      },
+    },
+    400: { description: "Invalid code or address already confirmed" },
+    401: { description: "Unauthorized" },
+    404: { description: "Withdrawal address not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const account = await models.user.findByPk(user.id);
+  if (!account)
+    throw createError({ statusCode: 404, message: "User not found" });
+
+  const address = await getUserWithdrawalAddress(params.id, user.id);
+  if (address.status !== "PENDING") {
+    throw createError({
+      statusCode: 400,
+      message: "Withdrawal address is already confirmed",
+    });
+  }
+
+  await verifyConfirmation(
+    user.id,
+    `address:${address.id}`,
+    body?.code,
+    body?.otp
+  );
+
+  const cooldownHours = await getAddressCooldownHours();
+  const now = new Date();
+  await address.update({
+    status: "ACTIVE",
+    confirmedAt: now,
+    activatesAt: new Date(now.getTime() + cooldownHours * 60 * 60 * 1000),
+  });
+  await notifyAddressBookChange(
+    account,
+    "Withdrawal address confirmed",
+    address
+  );
+
+  return serializeWithdrawalAddress(address);
+};
@@ -0,0 +1,55 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { getUserWithdrawalAddress, notifyAddressBookChange } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Removes a withdrawal address",
+  description:
+    "Removes a saved withdrawal address of the authenticated user by its ID.",
+  operationId: "deleteWithdrawalAddress",
+  tags: ["Withdrawal Addresses"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "The ID of the withdrawal address",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Withdrawal address removed successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    404: { description: "Withdrawal address not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const account = await models.user.findByPk(user.id);
+  if (!account)
+    throw createError({ statusCode: 404, message: "User not found" });
+
+  const address = await getUserWithdrawalAddress(params.id, user.id);
+  await address.destroy();
+  await notifyAddressBookChange(account, "Withdrawal address removed", address);
+
+  return { message: "Withdrawal address removed successfully" };
+};
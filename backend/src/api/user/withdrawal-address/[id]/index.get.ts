@@ -0,0 +1,46 @@
+import { createError } from "@b/utils/error";
+import {
+  getUserWithdrawalAddress,
+  serializeWithdrawalAddress,
+  withdrawalAddressSchema,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a withdrawal address",
+  description:
+    "Retrieves a saved withdrawal address of the authenticated user by its ID.",
+  operationId: "getWithdrawalAddress",
+  tags: ["Withdrawal Addresses"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "The ID of the withdrawal address",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Withdrawal address retrieved successfully",
+      content: {
+        "application/json": {
+          schema: withdrawalAddressSchema,
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    404: { description: "Withdrawal address not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const address = await getUserWithdrawalAddress(params.id, user.id);
+  return serializeWithdrawalAddress(address);
+};
@@ -0,0 +1,78 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  getUserWithdrawalAddress,
+  notifyAddressBookChange,
+  serializeWithdrawalAddress,
+  withdrawalAddressSchema,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Renames a withdrawal address",
+  description:
+    "Updates the label of a saved withdrawal address. The destination itself cannot be changed; remove the entry and add the new address instead.",
+  operationId: "updateWithdrawalAddress",
+  tags: ["Withdrawal Addresses"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "The ID of the withdrawal address",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            label: withdrawalAddressSchema.properties.label,
+          },
+          required: ["label"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Withdrawal address updated successfully",
+      content: {
+        "application/json": {
+          schema: withdrawalAddressSchema,
+        },
+      },
+    },
+    400: { description: "Invalid label" },
+    401: { description: "Unauthorized" },
+    404: { description: "Withdrawal address not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const label = String(body?.label || "").trim();
+  if (!label || label.length > 100) {
+    throw createError({
+      statusCode: 400,
+      message: "Label must be between 1 and 100 characters",
+    });
+  }
+
+  const account = await models.user.findByPk(user.id);
+  if (!account)
+    throw createError({ statusCode: 404, message: "User not found" });
+
+  const address = await getUserWithdrawalAddress(params.id, user.id);
+  await address.update({ label });
+  await notifyAddressBookChange(account, "Withdrawal address renamed", address);
+
+  return serializeWithdrawalAddress(address);
+};
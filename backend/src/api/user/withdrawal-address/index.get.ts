@@ -0,0 +1,47 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serializeWithdrawalAddress, withdrawalAddressSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists saved withdrawal addresses",
+  description:
+    "Retrieves the withdrawal address book of the authenticated user.",
+  operationId: "listWithdrawalAddresses",
+  tags: ["Withdrawal Addresses"],
+  parameters: [
+    {
+      name: "chain",
+      in: "query",
+      required: false,
+      description: "Only return addresses on this chain",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Withdrawal addresses retrieved successfully",
+      content: {
+        "application/json": {
+          schema: { type: "array", items: withdrawalAddressSchema },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const where: any = { userId: user.id };
+  if (query?.chain) where.chain = query.chain;
+
+  const addresses = await models.withdrawalAddress.findAll({
+    where,
+    order: [["createdAt", "DESC"]],
+  });
+  return addresses.map(serializeWithdrawalAddress);
+};
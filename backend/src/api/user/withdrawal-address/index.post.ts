@@ -0,0 +1,92 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  ensureAddressLimit,
+  issueConfirmationCode,
+  notifyAddressBookChange,
+  serializeWithdrawalAddress,
+  validateWithdrawalAddress,
+  withdrawalAddressSchema,
+} from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Adds a withdrawal address",
+  description:
+    "Saves a destination address in the address book of the authenticated user. The address stays pending until it is confirmed with the code sent by email, and becomes usable once the cool-down period has passed.",
+  operationId: "createWithdrawalAddress",
+  tags: ["Withdrawal Addresses"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            chain: withdrawalAddressSchema.properties.chain,
+            address: withdrawalAddressSchema.properties.address,
+            memo: withdrawalAddressSchema.properties.memo,
+            label: withdrawalAddressSchema.properties.label,
+          },
+          required: ["chain", "address", "label"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Withdrawal address saved and confirmation code sent",
+      content: {
+        "application/json": {
+          schema: withdrawalAddressSchema,
+        },
+      },
+    },
+    400: { description: "Invalid address or address limit reached" },
+    401: { description: "Unauthorized" },
+    409: { description: "Address already saved" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const account = await models.user.findByPk(user.id);
+  if (!account)
+    throw createError({ statusCode: 404, message: "User not found" });
+
+  await ensureAddressLimit(user.id);
+  const fields = await validateWithdrawalAddress(body);
+
+  const existing = await models.withdrawalAddress.findOne({
+    where: {
+      userId: user.id,
+      chain: fields.chain,
+      address: fields.address,
+      memo: fields.memo,
+    },
+  });
+  if (existing) {
+    throw createError({
+      statusCode: 409,
+      message: "This address is already in your address book",
+    });
+  }
+
+  const address = await models.withdrawalAddress.create({
+    ...fields,
+    userId: user.id,
+    status: "PENDING",
+  });
+
+  await issueConfirmationCode(
+    account,
+    `address:${address.id}`,
+    `Add ${fields.label} (${fields.chain}: ${fields.address})`
+  );
+  await notifyAddressBookChange(account, "Withdrawal address added", address);
+
+  return serializeWithdrawalAddress(address);
+};
@@ -0,0 +1,39 @@
+import { createError } from "@b/utils/error";
+import { getAddressCooldownHours, isWhitelistEnabled } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves withdrawal address book settings",
+  description:
+    "Returns whether whitelist-only withdrawals are enabled for the authenticated user and how long new addresses wait before they can be used.",
+  operationId: "getWithdrawalAddressSettings",
+  tags: ["Withdrawal Addresses"],
+  responses: {
+    200: {
+      description: "Settings retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              whitelistOnly: { type: "boolean" },
+              cooldownHours: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  return {
+    whitelistOnly: await isWhitelistEnabled(user.id),
+    cooldownHours: await getAddressCooldownHours(),
+  };
+};
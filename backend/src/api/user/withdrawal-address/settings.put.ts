@@ -0,0 +1,114 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  confirmationBodySchema,
+  issueConfirmationCode,
+  notifyAddressBookChange,
+  verifyConfirmation,
+} from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Enables or disables whitelist-only withdrawals",
+  description:
+    "Enabling whitelist-only withdrawals takes effect immediately. Disabling it needs confirmation: a request without a code sends one by email, and the change is applied when the code (and the authenticator code, if app 2FA is enabled) is submitted.",
+  operationId: "updateWithdrawalAddressSettings",
+  tags: ["Withdrawal Addresses"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            whitelistOnly: {
+              type: "boolean",
+              description: "Only allow withdrawals to saved addresses",
+            },
+            ...confirmationBodySchema.properties,
+          },
+          required: ["whitelistOnly"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Settings updated, or confirmation code sent",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              whitelistOnly: { type: "boolean" },
+              requiresConfirmation: { type: "boolean" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid confirmation code" },
+    401: { description: "Unauthorized" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+  if (typeof body?.whitelistOnly !== "boolean") {
+    throw createError({
+      statusCode: 400,
+      message: "whitelistOnly must be a boolean",
+    });
+  }
+
+  const account = await models.user.findByPk(user.id);
+  if (!account)
+    throw createError({ statusCode: 404, message: "User not found" });
+
+  const current = !!account.settings?.withdrawalWhitelist;
+  if (current === body.whitelistOnly) {
+    return {
+      whitelistOnly: current,
+      message: "Settings are already up to date",
+    };
+  }
+
+  if (!body.whitelistOnly) {
+    if (!body.code) {
+      await issueConfirmationCode(
+        account,
+        "whitelist-off",
+        "Disable whitelist-only withdrawals"
+      );
+      return {
+        whitelistOnly: current,
+        requiresConfirmation: true,
+        message: "A confirmation code has been sent to your email",
+      };
+    }
+    await verifyConfirmation(user.id, "whitelist-off", body.code, body.otp);
+  }
+
+  await account.update({
+    settings: {
+      ...(account.settings || {}),
+      withdrawalWhitelist: body.whitelistOnly,
+    },
+  });
+  await notifyAddressBookChange(
+    account,
+    body.whitelistOnly
+      ? "Whitelist-only withdrawals enabled"
+      : "Whitelist-only withdrawals disabled"
+  );
+
+  return {
+    whitelistOnly: body.whitelistOnly,
+    message: body.whitelistOnly
+      ? "Whitelist-only withdrawals enabled"
+      : "Whitelist-only withdrawals disabled",
+  };
+};
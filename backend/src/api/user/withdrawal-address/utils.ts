@@ -0,0 +1,309 @@
+import crypto from "crypto";
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { RedisSingleton } from "@b/utils/redis";
+import { CacheManager } from "@b/utils/cache";
+import { createNotification } from "@b/utils/notifications";
+import {
+  sendWithdrawalAddressChangedEmail,
+  sendWithdrawalAddressCodeEmail,
+} from "@b/utils/emails";
+import { decrypt, isEncrypted, verifyOtp } from "@b/api/auth/otp/utils";
+
+const MAX_ADDRESSES = 100;
+const DEFAULT_COOLDOWN_HOURS = 24;
+const CODE_TTL = 15 * 60;
+const MAX_CODE_ATTEMPTS = 5;
+
+export const withdrawalAddressSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "ID of the saved address" },
+    chain: { type: "string", description: "Blockchain network, e.g. TRC20" },
+    address: { type: "string", description: "Destination address" },
+    memo: {
+      type: "string",
+      description: "Memo or destination tag required by some networks",
+    },
+    label: { type: "string", description: "Name of the address" },
+    status: { type: "string", enum: ["PENDING", "ACTIVE"] },
+    confirmedAt: { type: "string", format: "date-time" },
+    activatesAt: {
+      type: "string",
+      format: "date-time",
+      description: "When the address can first be withdrawn to",
+    },
+    usable: {
+      type: "boolean",
+      description: "Whether withdrawals to this address are allowed now",
+    },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+export const confirmationBodySchema = {
+  type: "object",
+  properties: {
+    code: {
+      type: "string",
+      description: "Confirmation code sent to the user's email",
+    },
+    otp: {
+      type: "string",
+      description: "Authenticator code, required when app 2FA is enabled",
+    },
+  },
+};
+
+/**
+ * EVM addresses are case-insensitive, every other format is compared as is.
+ */
+export function normalizeAddress(address: string): string {
+  const trimmed = String(address || "").trim();
+  return /^0x[0-9a-fA-F]{40}$/.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+}
+
+export function serializeWithdrawalAddress(
+  address: withdrawalAddressAttributes
+) {
+  const plain =
+    typeof (address as any).get === "function"
+      ? (address as any).get({ plain: true })
+      : address;
+  return {
+    ...plain,
+    usable: isAddressUsable(plain),
+  };
+}
+
+export function isAddressUsable(address: withdrawalAddressAttributes) {
+  return (
+    address.status === "ACTIVE" &&
+    !!address.activatesAt &&
+    new Date(address.activatesAt).getTime() <= Date.now()
+  );
+}
+
+/**
+ * Hours a confirmed address waits before it can be used, configurable through
+ * the "withdrawalAddressCooldown" setting.
+ */
+export async function getAddressCooldownHours(): Promise<number> {
+  const value = await CacheManager.getInstance().getSetting(
+    "withdrawalAddressCooldown"
+  );
+  const hours = parseFloat(value);
+  return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_COOLDOWN_HOURS;
+}
+
+export async function isWhitelistEnabled(userId: string): Promise<boolean> {
+  const user = await models.user.findByPk(userId, {
+    attributes: ["settings"],
+  });
+  return !!user?.settings?.withdrawalWhitelist;
+}
+
+export async function ensureAddressLimit(userId: string) {
+  const count = await models.withdrawalAddress.count({ where: { userId } });
+  if (count >= MAX_ADDRESSES) {
+    throw createError({
+      statusCode: 400,
+      message: `You can save up to ${MAX_ADDRESSES} withdrawal addresses`,
+    });
+  }
+}
+
+export async function validateWithdrawalAddress(body: any) {
+  const chain = String(body.chain || "").trim();
+  const address = normalizeAddress(body.address);
+  const memo = body.memo ? String(body.memo).trim() : null;
+  const label = String(body.label || "").trim();
+
+  if (!chain || !address || !label) {
+    throw createError({
+      statusCode: 400,
+      message: "Chain, address and label are required",
+    });
+  }
+  if (label.length > 100) {
+    throw createError({
+      statusCode: 400,
+      message: "Label must be at most 100 characters",
+    });
+  }
+
+  return { chain, address, memo, label };
+}
+
+export async function getUserWithdrawalAddress(id: string, userId: string) {
+  const address = await models.withdrawalAddress.findOne({
+    where: { id, userId },
+  });
+  if (!address) {
+    throw createError({
+      statusCode: 404,
+      message: "Withdrawal address not found",
+    });
+  }
+  return address;
+}
+
+function codeKey(userId: string, purpose: string) {
+  return `withdrawalAddress:code:${userId}:${purpose}`;
+}
+
+function hashCode(code: string) {
+  return crypto.createHash("sha256").update(code).digest("hex");
+}
+
+/**
+ * Emails a one-time code the user has to submit to confirm a sensitive
+ * address book action. Only the hash is kept, for 15 minutes.
+ */
+export async function issueConfirmationCode(
+  user: { id: string; email?: string; firstName?: string },
+  purpose: string,
+  action: string
+) {
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, "0");
+  const redis = RedisSingleton.getInstance();
+  await redis.set(
+    codeKey(user.id, purpose),
+    JSON.stringify({ hash: hashCode(code), attempts: 0 }),
+    "EX",
+    CODE_TTL
+  );
+  await sendWithdrawalAddressCodeEmail(user, code, action, CODE_TTL / 60);
+}
+
+/**
+ * Checks the emailed code and, when the user has app 2FA enabled, the
+ * authenticator code as well.
+ */
+export async function verifyConfirmation(
+  userId: string,
+  purpose: string,
+  code?: string,
+  otp?: string
+) {
+  const redis = RedisSingleton.getInstance();
+  const key = codeKey(userId, purpose);
+  const stored = await redis.get(key);
+  if (!stored) {
+    throw createError({
+      statusCode: 400,
+      message: "Confirmation code expired, please request a new one",
+    });
+  }
+
+  const entry = JSON.parse(stored);
+  const valid =
+    !!code &&
+    crypto.timingSafeEqual(
+      Buffer.from(entry.hash, "hex"),
+      Buffer.from(hashCode(String(code).trim()), "hex")
+    );
+  if (!valid) {
+    entry.attempts += 1;
+    if (entry.attempts >= MAX_CODE_ATTEMPTS) {
+      await redis.del(key);
+    } else {
+      await redis.set(key, JSON.stringify(entry), "KEEPTTL");
+    }
+    throw createError({
+      statusCode: 400,
+      message: "Invalid confirmation code",
+    });
+  }
+
+  const twoFactor = await models.twoFactor.findOne({ where: { userId } });
+  if (twoFactor?.enabled && twoFactor.type === "APP") {
+    if (!otp) {
+      throw createError({
+        statusCode: 400,
+        message: "Authenticator code is required",
+      });
+    }
+    const secret = isEncrypted(twoFactor.secret)
+      ? decrypt(twoFactor.secret)
+      : twoFactor.secret;
+    if (!verifyOtp(secret, String(otp).trim())) {
+      throw createError({
+        statusCode: 401,
+        message: "Invalid authenticator code",
+      });
+    }
+  }
+
+  await redis.del(key);
+}
+
+/**
+ * Tells the user about any change to their address book, so a compromised
+ * session cannot quietly add a destination.
+ */
+export async function notifyAddressBookChange(
+  user: { id: string; email?: string; firstName?: string },
+  action: string,
+  address?: { id?: string; chain: string; address: string; label: string }
+) {
+  const subject = address
+    ? `${address.label} (${address.chain}: ${address.address})`
+    : "";
+  await createNotification({
+    userId: user.id,
+    relatedId: address?.id,
+    type: "system",
+    title: "Withdrawal address book updated",
+    message: subject ? `${action}: ${subject}` : action,
+    details:
+      "If you did not make this change, secure your account and contact support immediately.",
+    link: "/user/profile",
+  });
+  await sendWithdrawalAddressChangedEmail(user, action, subject || "N/A");
+}
+
+/**
+ * Rejects a withdrawal when the user has whitelist-only mode enabled and the
+ * destination is not a confirmed address whose cool-down has passed.
+ */
+export async function ensureWithdrawalAllowed(
+  userId: string,
+  chain: string,
+  address: string,
+  memo?: string
+) {
+  if (!(await isWhitelistEnabled(userId))) return;
+
+  const saved = await models.withdrawalAddress.findAll({
+    where: { userId, address: normalizeAddress(address) },
+  });
+  // The memo has to match exactly: an entry saved without one does not cover
+  // a withdrawal with a memo, which could credit a different account
+  const matching = saved.filter(
+    (entry) =>
+      String(entry.chain).toUpperCase() === String(chain || "").toUpperCase() &&
+      (entry.memo ?? "") === String(memo ?? "").trim()
+  );
+  if (matching.some(isAddressUsable)) return;
+
+  // Explain why the closest entry cannot be used yet
+  const match =
+    matching.find((entry) => entry.status === "ACTIVE") || matching[0];
+  if (!match) {
+    throw createError({
+      statusCode: 403,
+      message:
+        "Whitelist-only withdrawals are enabled and this address is not in your address book",
+    });
+  }
+  throw createError({
+    statusCode: 403,
+    message:
+      match.status === "PENDING"
+        ? "This withdrawal address has not been confirmed yet"
+        : `This withdrawal address can be used from ${new Date(
+            match.activatesAt as Date
+          ).toISOString()}`,
+  });
+}
@@ -1,5 +1,6 @@
 import { Sequelize } from "sequelize";
 import { initModels } from "../models/init";
+import { registerAuditHooks } from "./utils/audit";
 import { isMainThread } from "worker_threads";
 
 export class SequelizeSingleton {
@@ -44,6 +45,7 @@ export class SequelizeSingleton {
     }
     
     this.models = this.initModels();
+    registerAuditHooks(this.sequelize);
   }
 
   public static getInstance(): SequelizeSingleton {
@@ -5,11 +5,25 @@ import {
   verifyAccessToken,
   verifyRefreshToken,
 } from "@b/utils/token";
+import {
+  getRequestSessionId,
+  getSessionContext,
+  removeSession,
+  touchSession,
+} from "@b/utils/session";
+import {
+  hasPasskeyConfirmation,
+  isPasskeyEnabled,
+  userHasPasskeys,
+} from "@b/utils/passkey";
+import { checkKycRequirement, isKycEnabled } from "@b/utils/kyc";
 import { Response } from "./Response";
 import { Request } from "./Request";
 import { MashServer } from "..";
 import logger, { logError } from "@b/utils/logger";
 import { models } from "@b/db";
+import crypto from "crypto";
+import ip from "ip";
 
 const isDemo: boolean = process.env.NEXT_PUBLIC_DEMO_STATUS === "true";
 const isMaintenance: boolean =
@@ -41,6 +55,141 @@ const PERMISSION_MAP: Record<string, string[]> = {
 // Define the NextFunction type for middleware chaining.
 type NextFunction = () => void;
 
+// Default and maximum age in milliseconds of a signed API key request.
+const API_KEY_RECV_WINDOW = 5000;
+const API_KEY_MAX_RECV_WINDOW = 60000;
+// Tolerated clock drift for timestamps ahead of the server.
+const API_KEY_CLOCK_DRIFT = 1000;
+
+type ApiKeyRejection = { statusCode: number; message: string } | null;
+
+/**
+ * Unwraps IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) so they match IPv4
+ * whitelist entries.
+ */
+function normalizeIp(address: string): string {
+  if (!ip.isV6Format(address)) return address;
+  try {
+    const buffer = ip.toBuffer(address);
+    const isMapped =
+      buffer.length === 16 &&
+      buffer.subarray(0, 10).every((byte) => byte === 0) &&
+      buffer[10] === 0xff &&
+      buffer[11] === 0xff;
+    return isMapped ? ip.toString(buffer, 12, 4) : address;
+  } catch {
+    return address;
+  }
+}
+
+/**
+ * Checks whether an address matches one of the whitelist entries, which may
+ * be single addresses or CIDR ranges.
+ */
+function isIpWhitelisted(address: string, whitelist: string[]): boolean {
+  const normalized = normalizeIp(address);
+  return whitelist.some((entry) => {
+    const allowed = String(entry).trim();
+    if (!allowed) return false;
+    try {
+      return allowed.includes("/")
+        ? ip.cidrSubnet(allowed).contains(normalized)
+        : ip.isEqual(normalizeIp(allowed), normalized);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Verifies the HMAC-SHA256 signature of a request made with a key that has a
+ * secret. The signed payload is the timestamp, method, path with its query
+ * string and raw body concatenated, and each signature is accepted once
+ * within its window.
+ */
+async function verifyApiKeySignature(
+  req: Request,
+  apiKeyRecord: any
+): Promise<ApiKeyRejection> {
+  const timestamp = Number(req.headers["x-api-timestamp"]);
+  const signature = req.headers["x-api-signature"];
+  if (!timestamp || !signature) {
+    return {
+      statusCode: 401,
+      message: "Signed request required: missing timestamp or signature",
+    };
+  }
+
+  const recvWindow = Math.min(
+    Number(req.headers["x-api-recv-window"]) || API_KEY_RECV_WINDOW,
+    API_KEY_MAX_RECV_WINDOW
+  );
+  const now = Date.now();
+  if (timestamp > now + API_KEY_CLOCK_DRIFT || now - timestamp > recvWindow) {
+    return {
+      statusCode: 401,
+      message: "Request timestamp is outside the receive window",
+    };
+  }
+
+  const path = req.rawQuery ? `${req.url}?${req.rawQuery}` : req.url;
+  const payload = `${timestamp}${req.method.toUpperCase()}${path}${req.rawBodyContent}`;
+  const expected = crypto
+    .createHmac("sha256", apiKeyRecord.secret)
+    .update(payload)
+    .digest("hex");
+  const provided = Buffer.from(String(signature).toLowerCase());
+  if (
+    provided.length !== expected.length ||
+    !crypto.timingSafeEqual(provided, Buffer.from(expected))
+  ) {
+    return { statusCode: 401, message: "Invalid request signature" };
+  }
+
+  // The receive window header is not signed, so a replayed request could
+  // ask for a longer one. Remember each signature for the longest window.
+  const stored = await RedisSingleton.getInstance().set(
+    `apiKeySignature:${apiKeyRecord.id}:${expected}`,
+    "1",
+    "PX",
+    API_KEY_MAX_RECV_WINDOW + API_KEY_CLOCK_DRIFT,
+    "NX"
+  );
+  if (!stored) {
+    return { statusCode: 401, message: "Request signature already used" };
+  }
+
+  return null;
+}
+
+/**
+ * Applies the restrictions configured on an API key: the IP whitelist when
+ * IP restriction is enabled, and request signing when the key has a secret.
+ */
+async function verifyApiKeyRequest(
+  req: Request,
+  apiKeyRecord: any
+): Promise<ApiKeyRejection> {
+  if (apiKeyRecord.ipRestriction) {
+    const whitelist: string[] =
+      typeof apiKeyRecord.ipWhitelist === "string"
+        ? JSON.parse(apiKeyRecord.ipWhitelist)
+        : apiKeyRecord.ipWhitelist || [];
+    if (!isIpWhitelisted(req.remoteAddress, whitelist)) {
+      return {
+        statusCode: 403,
+        message: "Forbidden: IP address not whitelisted for this API key",
+      };
+    }
+  }
+
+  if (apiKeyRecord.secret) {
+    return await verifyApiKeySignature(req, apiKeyRecord);
+  }
+
+  return null;
+}
+
 /**
  * Authenticate the request using either an API key or JWT.
  */
@@ -72,6 +221,17 @@ export async function authenticate(
         });
         if (!apiKeyRecord) throw new Error("Invalid API Key");
 
+        const rejection = await verifyApiKeyRequest(req, apiKeyRecord);
+        if (rejection) {
+          logger(
+            "warn",
+            "auth",
+            __filename,
+            `API Key Rejected: ${rejection.message}`
+          );
+          return res.handleError(rejection.statusCode, rejection.message);
+        }
+
         const userPermissions =
           typeof apiKeyRecord.permissions === "string"
             ? JSON.parse(apiKeyRecord.permissions)
@@ -124,6 +284,24 @@ export async function authenticate(
       return res.handleError(401, "Authentication Required");
     }
 
+    // Access tokens outlive their session by up to their expiry, so the
+    // session is checked as well to make revocation immediate.
+    const sessionId: string | undefined =
+      userPayload.sid || getRequestSessionId(req);
+    if (
+      sessionId &&
+      !(await touchSession(
+        userPayload.sub.id,
+        sessionId,
+        getSessionContext(req)
+      ))
+    ) {
+      return res.handleError(
+        401,
+        "Authentication Required: Session has been revoked"
+      );
+    }
+
     req.setUser(userPayload.sub);
     return await csrfCheck(res, req, next);
   } catch (error: any) {
@@ -137,6 +315,46 @@ export async function authenticate(
   }
 }
 
+/**
+ * Sets the user on a public request that carries a valid access token.
+ * Requests without one continue anonymously instead of being rejected.
+ */
+export async function identifyUser(
+  res: Response,
+  req: Request,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const accessToken: string | undefined =
+      req.cookies?.accessToken || req.headers.accesstoken;
+    if (accessToken) {
+      const userPayload = await verifyAccessToken(accessToken);
+      const sessionId: string | undefined =
+        userPayload?.sid || getRequestSessionId(req);
+      // A token of a revoked session identifies nobody, as in authenticate
+      if (
+        userPayload?.sub?.id &&
+        (!sessionId ||
+          (await touchSession(
+            userPayload.sub.id,
+            sessionId,
+            getSessionContext(req)
+          )))
+      ) {
+        req.setUser(userPayload.sub);
+      }
+    }
+  } catch (error: any) {
+    logger(
+      "warn",
+      "auth",
+      __filename,
+      `Optional authentication skipped: ${error.message}`
+    );
+  }
+  return next();
+}
+
 /**
  * Attempt to refresh the token when access token verification fails.
  */
@@ -189,7 +407,8 @@ async function attemptRefreshToken(
         __filename,
         `Refresh token validation failed: ${error.message}`
       );
-      newTokens = await generateTokens(user);
+      newTokens = await generateTokens(user, getSessionContext(req));
+      await removeSession(sessionId);
     }
 
     // Update tokens and set user.
@@ -228,6 +447,11 @@ export async function handleApiVerification(
       return res.handleError(401, "Invalid API key");
     }
 
+    const rejection = await verifyApiKeyRequest(req, apiKeyRecord);
+    if (rejection) {
+      return res.handleError(rejection.statusCode, rejection.message);
+    }
+
     const { type, permissions = [] } = apiKeyRecord;
     if (type !== "plugin") {
       return res.handleError(
@@ -248,6 +472,12 @@ export async function handleApiVerification(
       }
     }
 
+    // Expose the key owner so plugin routes know which account is acting.
+    req.setUser({
+      id: apiKeyRecord.userId,
+      permissions,
+      apiKeyId: apiKeyRecord.id,
+    });
     next();
   } catch (error: any) {
     logger(
@@ -639,6 +869,88 @@ export async function rolesGate(
   }
 }
 
+/**
+ * Enforces the KYC level or feature a route declares in its metadata. The
+ * 403 response says which level to complete so the client can send the
+ * user to the right KYC form.
+ */
+export async function kycGate(
+  res: Response,
+  req: Request,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { kycLevel, kycFeature } = req.metadata || {};
+    if ((!kycLevel && !kycFeature) || !(await isKycEnabled())) {
+      return next();
+    }
+
+    const user = req.user;
+    if (!user) {
+      return res.handleError(401, "Authentication Required");
+    }
+
+    const failure = await checkKycRequirement(user.id, {
+      level: kycLevel,
+      feature: kycFeature,
+    });
+    if (failure) {
+      return res.sendResponse(req, 403, {
+        statusCode: 403,
+        message: failure.nextLevel
+          ? `Complete KYC verification for ${failure.nextLevel.name} to continue`
+          : "KYC verification required",
+        kyc: failure,
+      });
+    }
+
+    next();
+  } catch (error: any) {
+    logger("error", "kycGate", __filename, `KYC Gate Error: ${error.message}`);
+    return res.handleError(500, "Internal Server Error");
+  }
+}
+
+/**
+ * Requires a recent passkey confirmation on routes flagged with
+ * requiresPasskey, for users who have registered a passkey. API key
+ * requests cannot answer a passkey challenge and rely on the key's own
+ * permissions instead.
+ */
+export async function passkeyGate(
+  res: Response,
+  req: Request,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.metadata?.requiresPasskey || !isPasskeyEnabled()) {
+      return next();
+    }
+
+    const user = req.user;
+    if (!user) {
+      return res.handleError(401, "Authentication Required");
+    }
+    if (req.headers["x-api-key"] || !(await userHasPasskeys(user.id))) {
+      return next();
+    }
+
+    if (!(await hasPasskeyConfirmation(user.id, getRequestSessionId(req)))) {
+      return res.handleError(403, "Passkey confirmation required");
+    }
+
+    next();
+  } catch (error: any) {
+    logger(
+      "error",
+      "passkeyGate",
+      __filename,
+      `Passkey Gate Error: ${error.message}`
+    );
+    return res.handleError(500, "Internal Server Error");
+  }
+}
+
 /**
  * Checks if the current user has permission to access the site during maintenance.
  */
@@ -20,7 +20,9 @@ export class Request {
   public keys: string[] = [];
   public regExp: RegExp | undefined;
   public query: Record<string, any>;
+  public rawQuery: string;
   public body: any;
+  public rawBodyContent: string = "";
   public params: Record<string, string> = {};
   public cookies: Record<string, string> = {};
   public headers: Record<string, string> = {};
@@ -43,6 +45,7 @@ export class Request {
   ) {
     this.url = req.getUrl();
     this.method = req.getMethod() as HttpMethod;
+    this.rawQuery = req.getQuery() || "";
     this.query = this.parseQuery();
     this.headers = this.parseHeaders();
     this.cookies = this.parseCookies();
@@ -99,7 +102,7 @@ export class Request {
    * Parses the URL query string into an object.
    */
   public parseQuery(): Record<string, any> {
-    return url.parse(`?${this.req.getQuery()}`, true).query;
+    return url.parse(`?${this.rawQuery}`, true).query;
   }
 
   /**
@@ -138,6 +141,8 @@ export class Request {
 
     try {
       const bodyContent: string = await this.readRequestBody();
+      // Kept as received so API key signatures can be verified against it
+      this.rawBodyContent = bodyContent;
       this.body = this.processBodyContent(contentType, bodyContent);
     } catch (error: any) {
       logger(
@@ -4,6 +4,9 @@ import { Request, Response } from "..";
 import {
   authenticate,
   handleApiVerification,
+  identifyUser,
+  kycGate,
+  passkeyGate,
   rateLimit,
   rolesGate,
   siteMaintenanceAccessGate,
@@ -11,6 +14,7 @@ import {
 import { sanitizePath } from "@b/utils/validation";
 import { isProduction } from "@b/utils/constants";
 import { logError } from "@b/utils/logger";
+import { isAuditedRoute, runAudited } from "@b/utils/audit";
 import { setupWebSocketEndpoint } from "./Websocket";
 
 // Use .js extension in production, otherwise .ts for development.
@@ -197,14 +201,22 @@ async function handleHttpMethod(
     // Determine the middleware chain based on metadata flags.
     if (metadata.requiresApi) {
       await handleApiVerification(res, req, async () => {
-        await handleRequest(res, req, handler, entryPath);
+        await handleRequest(res, req, handler, entryPath, routePath, method);
+        endBenchmarking();
+      });
+      return;
+    }
+
+    if (!metadata.requiresAuth && metadata.optionalAuth) {
+      await identifyUser(res, req, async () => {
+        await handleRequest(res, req, handler, entryPath, routePath, method);
         endBenchmarking();
       });
       return;
     }
 
     if (!metadata.requiresAuth) {
-      await handleRequest(res, req, handler, entryPath);
+      await handleRequest(res, req, handler, entryPath, routePath, method);
       endBenchmarking();
       return;
     }
@@ -213,8 +225,19 @@ async function handleHttpMethod(
       await authenticate(res, req, async () => {
         await rolesGate(app, res, req, routePath, method, async () => {
           await siteMaintenanceAccessGate(app, res, req, async () => {
-            await handleRequest(res, req, handler, entryPath);
-            endBenchmarking();
+            await kycGate(res, req, async () => {
+              await passkeyGate(res, req, async () => {
+                await handleRequest(
+                  res,
+                  req,
+                  handler,
+                  entryPath,
+                  routePath,
+                  method
+                );
+                endBenchmarking();
+              });
+            });
           });
         });
       });
@@ -226,20 +249,28 @@ async function handleHttpMethod(
  * Executes the route handler and sends the response.
  *
  * If an error occurs, it logs the error and sends an error response.
+ * Mutating admin requests are recorded in the admin audit log.
  *
  * @param res - The response object.
  * @param req - The request object.
  * @param handler - The route handler function.
  * @param entryPath - The file system path for logging errors.
+ * @param routePath - The route pattern that matched the request.
+ * @param method - The HTTP method of the route.
  */
 async function handleRequest(
   res: Response,
   req: Request,
   handler: (req: Request) => Promise<any> | any,
-  entryPath: string
+  entryPath: string,
+  routePath: string,
+  method: string
 ): Promise<void> {
   try {
-    const result = await handler(req);
+    const result =
+      req.user && isAuditedRoute(routePath, method)
+        ? await runAudited(req, routePath, method, async () => handler(req))
+        : await handler(req);
     res.sendResponse(req, 200, result);
   } catch (error: any) {
     logError("route", error, entryPath);
@@ -0,0 +1,427 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Sequelize } from "sequelize";
+import { logError } from "@b/utils/logger";
+
+// Upper bound on the record changes kept for a single request, so bulk
+// operations cannot produce unbounded audit rows. Changes past the limit are
+// counted in the entry instead of being listed.
+const MAX_CHANGES = 100;
+const REDACTED = "[REDACTED]";
+// Credential field names, matched whole so that fields such as tokenId,
+// tokenAddress or passkey are kept
+const SENSITIVE_KEY =
+  /^(?:[a-z]*(?:password|passphrase|secret|secretkey|privatekey|mnemonic|otp)|(?:access|refresh|id|csrf|recaptcha|card|txn|paymenthandle)?token|api_?key|seed(?:phrase)?|cookies?)$/i;
+// Settings whose name marks the value as a secret, such as stripeSecretKey or
+// twilioAuthToken. Matched anywhere in the name, unlike SENSITIVE_KEY.
+const SECRET_SETTING_KEY =
+  /secret|password|passphrase|privatekey|api_?key|token|mnemonic|credential/i;
+
+// Columns that hold a secret under a name SENSITIVE_KEY cannot recognise,
+// by model and given the rest of the row
+const SECRET_COLUMNS: Record<string, (row: any) => string[]> = {
+  apiKey: () => ["key"],
+  settings: (row) =>
+    SECRET_SETTING_KEY.test(String(row?.key ?? "")) ? ["value"] : [],
+};
+
+// Routes whose request body is written to a model as is, redacted with that
+// model's columns. The settings body maps each setting key to its value.
+const BODY_REDACTORS: Record<string, (body: any) => any> = {
+  "/api/admin/api": (body) => redactRecord("apiKey", body, body),
+  "/api/admin/api/:id": (body) => redactRecord("apiKey", body, body),
+  "/api/admin/system/settings": (body) =>
+    Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [
+        key,
+        redactRecord("settings", { value }, { key }).value,
+      ])
+    ),
+};
+
+interface AuditContext {
+  adminId: string;
+  method: string;
+  route: string;
+  path: string;
+  params: Record<string, string>;
+  body: any;
+  ip: string | null;
+  userAgent: string | null;
+  changes: adminAuditChange[];
+  omittedChanges: number;
+  closed: boolean;
+}
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+let getAuditModel: (() => any) | null = null;
+
+/**
+ * Whether a request should be recorded in the admin audit log: every
+ * authenticated, non-GET request under /api/admin.
+ */
+export function isAuditedRoute(routePath: string, method: string) {
+  return (
+    routePath.startsWith("/api/admin") &&
+    !["get", "head", "options"].includes(method.toLowerCase())
+  );
+}
+
+/**
+ * Replaces credentials and other secrets in a payload before it is stored.
+ */
+export function redactSensitive(value: any, depth = 0): any {
+  if (value === null || value === undefined || depth > 5) return value;
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSensitive(item, depth + 1));
+  }
+  if (value instanceof Date || typeof value !== "object") return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, val]) => [
+      key,
+      SENSITIVE_KEY.test(key) ? REDACTED : redactSensitive(val, depth + 1),
+    ])
+  );
+}
+
+/**
+ * Redacts the values of a model record by field name and by the secret
+ * columns of the model. `row` is the full row the values belong to, which
+ * may hold more than the changed values themselves.
+ */
+function redactRecord(model: string, values: any, row: any) {
+  const redacted = redactSensitive(values);
+  if (!redacted || typeof redacted !== "object") return redacted;
+  for (const column of SECRET_COLUMNS[model]?.(row) ?? []) {
+    if (column in redacted) redacted[column] = REDACTED;
+  }
+  return redacted;
+}
+
+/**
+ * Adds a record change to the audit context of the current request. Changes
+ * made inside a transaction are only added once it commits, so rolled back
+ * writes never show up in the log.
+ */
+function pushChange(change: adminAuditChange, row: any, transaction?: any) {
+  const context = auditStorage.getStore();
+  if (!context || context.closed) return;
+
+  const record = () => {
+    if (context.closed) return;
+    if (context.changes.length >= MAX_CHANGES) {
+      context.omittedChanges++;
+      return;
+    }
+    context.changes.push({
+      ...change,
+      before: redactRecord(change.model, change.before, row),
+      after: redactRecord(change.model, change.after, row),
+    });
+  };
+
+  if (transaction) {
+    transaction.afterCommit(record);
+  } else {
+    record();
+  }
+}
+
+function plain(instance: any) {
+  return instance?.get ? instance.get({ plain: true }) : instance;
+}
+
+function primaryKeyOf(model: any): string {
+  return model?.primaryKeyAttribute || "id";
+}
+
+function isAuditable(model: any) {
+  return !!model && model.name !== "adminAuditLog";
+}
+
+/**
+ * Loads the rows matched by a bulk operation so they can be compared after
+ * the operation runs. Only used while an audited request is in progress.
+ */
+async function snapshotRows(options: any) {
+  const model = options.model;
+  if (!auditStorage.getStore() || !isAuditable(model)) return;
+  try {
+    options.auditSnapshot = await model.findAll({
+      where: options.where,
+      transaction: options.transaction,
+      paranoid: false,
+      raw: true,
+      limit: MAX_CHANGES,
+    });
+  } catch (error) {
+    logError("audit", error, __filename);
+  }
+}
+
+function diffValues(before: Record<string, any>, after: Record<string, any>) {
+  const changedBefore: Record<string, any> = {};
+  const changedAfter: Record<string, any> = {};
+  for (const key of Object.keys(after)) {
+    const previous = before[key];
+    const current = after[key];
+    const same =
+      previous instanceof Date || current instanceof Date
+        ? new Date(previous).getTime() === new Date(current).getTime()
+        : JSON.stringify(previous) === JSON.stringify(current);
+    if (!same) {
+      changedBefore[key] = previous;
+      changedAfter[key] = current;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Registers the global Sequelize hooks that collect record changes into the
+ * audit context of the current request.
+ */
+export function registerAuditHooks(sequelize: Sequelize) {
+  getAuditModel = () => sequelize.models.adminAuditLog;
+
+  sequelize.addHook("afterCreate", (instance: any, options: any) => {
+    if (!isAuditable(instance.constructor)) return;
+    const model = instance.constructor;
+    pushChange(
+      {
+        model: model.name,
+        id: String(instance.get(primaryKeyOf(model)) ?? "") || null,
+        action: "CREATE",
+        before: null,
+        after: plain(instance),
+      },
+      plain(instance),
+      options?.transaction
+    );
+  });
+
+  sequelize.addHook("afterBulkCreate", (instances: any[], options: any) => {
+    for (const instance of instances) {
+      if (!isAuditable(instance.constructor)) continue;
+      const model = instance.constructor;
+      pushChange(
+        {
+          model: model.name,
+          id: String(instance.get(primaryKeyOf(model)) ?? "") || null,
+          action: "CREATE",
+          before: null,
+          after: plain(instance),
+        },
+        plain(instance),
+        options?.transaction
+      );
+    }
+  });
+
+  sequelize.addHook("afterUpdate", (instance: any, options: any) => {
+    if (!isAuditable(instance.constructor)) return;
+    const fields = instance.changed();
+    if (!fields || !fields.length) return;
+    const model = instance.constructor;
+    const before: Record<string, any> = {};
+    const after: Record<string, any> = {};
+    for (const field of fields) {
+      before[field] = instance.previous(field);
+      after[field] = instance.get(field);
+    }
+    pushChange(
+      {
+        model: model.name,
+        id: String(instance.get(primaryKeyOf(model))),
+        action: "UPDATE",
+        before,
+        after,
+      },
+      plain(instance),
+      options?.transaction
+    );
+  });
+
+  sequelize.addHook("afterDestroy", (instance: any, options: any) => {
+    if (!isAuditable(instance.constructor)) return;
+    const model = instance.constructor;
+    pushChange(
+      {
+        model: model.name,
+        id: String(instance.get(primaryKeyOf(model))),
+        action: "DELETE",
+        before: plain(instance),
+        after: null,
+      },
+      plain(instance),
+      options?.transaction
+    );
+  });
+
+  sequelize.addHook("beforeBulkUpdate", snapshotRows);
+  sequelize.addHook("beforeBulkDestroy", snapshotRows);
+  sequelize.addHook("beforeBulkRestore", snapshotRows);
+
+  sequelize.addHook("afterBulkUpdate", async (options: any) => {
+    const rows = options.auditSnapshot;
+    if (!rows?.length) return;
+    const model = options.model;
+    const pk = primaryKeyOf(model);
+    try {
+      const updated = await model.findAll({
+        where: { [pk]: rows.map((row) => row[pk]) },
+        transaction: options.transaction,
+        paranoid: false,
+        raw: true,
+      });
+      const byId = new Map(updated.map((row) => [String(row[pk]), row]));
+      for (const row of rows) {
+        const current = byId.get(String(row[pk]));
+        if (!current) continue;
+        const { before, after } = diffValues(row, current);
+        if (!Object.keys(after).length) continue;
+        pushChange(
+          {
+            model: model.name,
+            id: String(row[pk]),
+            action: "UPDATE",
+            before,
+            after,
+          },
+          current,
+          options.transaction
+        );
+      }
+    } catch (error) {
+      logError("audit", error, __filename);
+    }
+  });
+
+  sequelize.addHook("afterBulkDestroy", (options: any) => {
+    const rows = options.auditSnapshot;
+    if (!rows?.length) return;
+    const pk = primaryKeyOf(options.model);
+    for (const row of rows) {
+      pushChange(
+        {
+          model: options.model.name,
+          id: String(row[pk]),
+          action: "DELETE",
+          before: row,
+          after: null,
+        },
+        row,
+        options.transaction
+      );
+    }
+  });
+
+  sequelize.addHook("afterBulkRestore", (options: any) => {
+    const rows = options.auditSnapshot;
+    if (!rows?.length) return;
+    const pk = primaryKeyOf(options.model);
+    for (const row of rows) {
+      if (!row.deletedAt) continue;
+      pushChange(
+        {
+          model: options.model.name,
+          id: String(row[pk]),
+          action: "RESTORE",
+          before: { deletedAt: row.deletedAt },
+          after: { deletedAt: null },
+        },
+        row,
+        options.transaction
+      );
+    }
+  });
+}
+
+/**
+ * Runs an admin route handler inside an audit context, then appends an entry
+ * to the admin audit log with the actor, route, target and record changes.
+ * Failed requests are recorded too, with their status code and error.
+ */
+export async function runAudited<T>(
+  req: {
+    user: any;
+    url: string;
+    params: Record<string, string>;
+    body: any;
+    headers: Record<string, string>;
+    remoteAddress: string;
+  },
+  routePath: string,
+  method: string,
+  handler: () => Promise<T>
+): Promise<T> {
+  const context: AuditContext = {
+    adminId: req.user?.id,
+    method: method === "del" ? "DELETE" : method.toUpperCase(),
+    route: routePath,
+    path: req.url,
+    params: req.params || {},
+    body: req.body,
+    ip: req.remoteAddress || null,
+    userAgent: req.headers["user-agent"] || null,
+    changes: [],
+    omittedChanges: 0,
+    closed: false,
+  };
+
+  try {
+    const result = await auditStorage.run(context, handler);
+    await writeAuditEntry(context, 200);
+    return result;
+  } catch (error) {
+    await writeAuditEntry(
+      context,
+      error.statusCode || 500,
+      error.message || "Internal Server Error"
+    );
+    throw error;
+  }
+}
+
+async function writeAuditEntry(
+  context: AuditContext,
+  statusCode: number,
+  error?: string
+) {
+  // Work started by the handler that outlives the request (queues, timers)
+  // must not keep appending to an entry that has already been written.
+  context.closed = true;
+  if (!context.adminId || !getAuditModel) return;
+
+  const { changes } = context;
+  const targetId =
+    context.params.id ||
+    (changes.length && changes.every((c) => c.id === changes[0].id)
+      ? changes[0].id
+      : null);
+  const targetModel =
+    changes.find((c) => !targetId || c.id === targetId)?.model ?? null;
+
+  try {
+    await getAuditModel().create({
+      adminId: context.adminId,
+      method: context.method,
+      route: context.route,
+      path: context.path.slice(0, 255),
+      targetModel,
+      targetId,
+      changes,
+      omittedChanges: context.omittedChanges,
+      requestBody:
+        context.body && typeof context.body === "object"
+          ? (BODY_REDACTORS[context.route] ?? redactSensitive)(context.body)
+          : null,
+      statusCode,
+      error: error ?? null,
+      ip: context.ip,
+      userAgent: context.userAgent?.slice(0, 255) ?? null,
+    });
+  } catch (err) {
+    logError("audit", err, __filename);
+  }
+}
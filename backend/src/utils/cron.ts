@@ -24,11 +24,24 @@ import {
 import { processForexInvestments } from "./crons/forex";
 import { processIcoOfferings } from "./crons/ico";
 import { processStakingPositions } from "./crons/staking";
+import { processNftMarketplace } from "./crons/nft";
+import {
+  processFuturesFunding,
+  processFuturesLiquidations,
+} from "./crons/futures";
+import { processPaymentIntents } from "./crons/payment";
+import { processP2POfferPrices } from "./crons/p2p";
 import { processMailwizardCampaigns } from "./crons/mailwizard";
 import { processGeneralInvestments } from "./crons/investment";
 import { processAiInvestments } from "./crons/aiInvestment";
-import { processPendingOrders } from "./crons/order";
+import {
+  processPendingOrders,
+  processSpotStopOrders,
+  processSpotOrderSync,
+} from "./crons/order";
 import { processExpiredUserBlocks } from "./crons/userBlock";
+import { processKycExpirations } from "./crons/kyc";
+import { processSanctionsRescan } from "./crons/sanctions";
 // Safe import for ecosystem cron functions
 async function processPendingEcoWithdrawals() {
   try {
@@ -118,6 +131,38 @@ class CronJobManager {
         lastExecutions: [],
         nextScheduledRun: null,
       },
+      {
+        name: "processSpotStopOrders",
+        title: "Process Spot Stop Orders",
+        period: 30 * 1000,
+        description:
+          "Places spot stop-market and stop-limit orders once their trigger price is reached.",
+        function: "processSpotStopOrders",
+        handler: processSpotStopOrders,
+        lastRun: null,
+        lastRunError: null,
+        category: "normal",
+        status: "idle",
+        progress: 0,
+        lastExecutions: [],
+        nextScheduledRun: null,
+      },
+      {
+        name: "processSpotOrderSync",
+        title: "Sync Spot Orders",
+        period: 60 * 1000,
+        description:
+          "Syncs open spot orders with the provider each one was placed on and settles fills.",
+        function: "processSpotOrderSync",
+        handler: processSpotOrderSync,
+        lastRun: null,
+        lastRunError: null,
+        category: "normal",
+        status: "idle",
+        progress: 0,
+        lastExecutions: [],
+        nextScheduledRun: null,
+      },
       {
         name: "fetchFiatCurrencyPrices",
         title: "Fetch Fiat Currency Prices",
@@ -224,6 +269,38 @@ class CronJobManager {
         lastExecutions: [],
         nextScheduledRun: null,
       },
+      {
+        name: "processKycExpirations",
+        title: "Process KYC Expirations",
+        period: 60 * 60 * 1000, // Run every hour
+        description:
+          "Warns users before their KYC approval expires and downgrades them when it lapses.",
+        function: "processKycExpirations",
+        handler: processKycExpirations,
+        lastRun: null,
+        lastRunError: null,
+        category: "normal",
+        status: "idle",
+        progress: 0,
+        lastExecutions: [],
+        nextScheduledRun: null,
+      },
+      {
+        name: "processSanctionsRescan",
+        title: "Sanctions Rescan",
+        period: 24 * 60 * 60 * 1000, // Run once a day
+        description:
+          "Screens all users against the imported sanctions watchlists and holds accounts with strong matches.",
+        function: "processSanctionsRescan",
+        handler: processSanctionsRescan,
+        lastRun: null,
+        lastRunError: null,
+        category: "normal",
+        status: "idle",
+        progress: 0,
+        lastExecutions: [],
+        nextScheduledRun: null,
+      },
       {
         name: "btcDepositScanner",
         title: "Bitcoin Deposit Scanner",
@@ -251,8 +328,9 @@ class CronJobManager {
         {
           name: "processPendingEcoWithdrawals",
           title: "Process Pending Ecosystem Withdrawals",
-          period: 30 * 60 * 1000,
-          description: "Processes pending funding wallet withdrawals.",
+          period: 60 * 1000,
+          description:
+            "Recovers the ecosystem withdrawal queue after restarts and processes due withdrawals.",
           function: "processPendingEcoWithdrawals",
           handler: processPendingEcoWithdrawals,
           lastRun: null,
@@ -333,6 +411,94 @@ class CronJobManager {
           nextScheduledRun: null,
         },
       ],
+      nft: [
+        {
+          name: "processNftMarketplace",
+          title: "Process NFT Marketplace",
+          period: 60 * 1000,
+          description:
+            "Settles ended NFT auctions and expires lapsed offers, returning locked funds.",
+          function: "processNftMarketplace",
+          handler: processNftMarketplace,
+          lastRun: null,
+          lastRunError: null,
+          category: "nft",
+          status: "idle",
+          progress: 0,
+          lastExecutions: [],
+          nextScheduledRun: null,
+        },
+      ],
+      futures: [
+        {
+          name: "processFuturesFunding",
+          title: "Process Futures Funding",
+          period: 60 * 1000,
+          description:
+            "Samples the futures premium over the spot index and settles funding between longs and shorts every funding interval.",
+          function: "processFuturesFunding",
+          handler: processFuturesFunding,
+          lastRun: null,
+          lastRunError: null,
+          category: "futures",
+          status: "idle",
+          progress: 0,
+          lastExecutions: [],
+          nextScheduledRun: null,
+        },
+        {
+          name: "processFuturesLiquidations",
+          title: "Process Futures Liquidations",
+          period: 30 * 1000,
+          description:
+            "Updates the mark price of every futures market and liquidates positions whose equity no longer covers their maintenance margin.",
+          function: "processFuturesLiquidations",
+          handler: processFuturesLiquidations,
+          lastRun: null,
+          lastRunError: null,
+          category: "futures",
+          status: "idle",
+          progress: 0,
+          lastExecutions: [],
+          nextScheduledRun: null,
+        },
+      ],
+      p2p: [
+        {
+          name: "processP2POfferPrices",
+          title: "Reprice P2P Floating Offers",
+          period: 60 * 1000,
+          description:
+            "Refreshes the stored price of P2P margin and market offers from the exchange and ecosystem tickers.",
+          function: "processP2POfferPrices",
+          handler: processP2POfferPrices,
+          lastRun: null,
+          lastRunError: null,
+          category: "p2p",
+          status: "idle",
+          progress: 0,
+          lastExecutions: [],
+          nextScheduledRun: null,
+        },
+      ],
+      payment_gateway: [
+        {
+          name: "processPaymentIntents",
+          title: "Process Payment Intents",
+          period: 60 * 1000,
+          description:
+            "Expires unpaid merchant payment intents and retries failed IPN deliveries with backoff.",
+          function: "processPaymentIntents",
+          handler: processPaymentIntents,
+          lastRun: null,
+          lastRunError: null,
+          category: "payment",
+          status: "idle",
+          progress: 0,
+          lastExecutions: [],
+          nextScheduledRun: null,
+        },
+      ],
       mailwizard: [
         {
           name: "processMailwizardCampaigns",
@@ -0,0 +1,64 @@
+import { logError } from "../logger";
+import { broadcastStatus, broadcastLog } from "./broadcast";
+
+export async function processFuturesFunding() {
+  const cronName = "processFuturesFunding";
+  const startTime = Date.now();
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Starting futures funding processing");
+
+    // @ts-ignore - Dynamic import for optional futures extension
+    const funding = await import("@b/api/(ext)/futures/utils/funding");
+    const { sampled, settled } = await funding.processFundingRates();
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(
+      cronName,
+      `Futures funding processing completed. Sampled ${sampled} markets, settled ${settled}`,
+      "success"
+    );
+  } catch (error: any) {
+    logError("processFuturesFunding", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(
+      cronName,
+      `Futures funding processing failed: ${error.message}`,
+      "error"
+    );
+    throw error;
+  }
+}
+
+export async function processFuturesLiquidations() {
+  const cronName = "processFuturesLiquidations";
+  const startTime = Date.now();
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Starting futures liquidation checks");
+
+    // @ts-ignore - Dynamic import for optional futures extension
+    const liquidation = await import("@b/api/(ext)/futures/utils/liquidation");
+    const { markets, liquidated } = await liquidation.processLiquidations();
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(
+      cronName,
+      `Futures liquidation checks completed. Priced ${markets} markets, liquidated ${liquidated} positions`,
+      "success"
+    );
+  } catch (error: any) {
+    logError("processFuturesLiquidations", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(
+      cronName,
+      `Futures liquidation checks failed: ${error.message}`,
+      "error"
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,136 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { logError } from "../logger";
+import { createNotification } from "../notifications";
+import { getKycExpiryWarningDays, getUserKycAccess } from "../kyc";
+import { broadcastStatus, broadcastLog } from "./broadcast";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the user has already applied again for the level, in which case
+ * the old approval can lapse quietly.
+ */
+async function findRenewal(application: kycApplicationAttributes) {
+  return models.kycApplication.findOne({
+    where: {
+      userId: application.userId,
+      levelId: application.levelId,
+      id: { [Op.ne]: application.id },
+      status: { [Op.in]: ["PENDING", "ADDITIONAL_INFO_REQUIRED", "APPROVED"] },
+      createdAt: { [Op.gt]: application.createdAt },
+    },
+  });
+}
+
+/**
+ * Warns users whose KYC approval is about to expire and expires lapsed
+ * approvals, which drops the user back to their highest remaining level.
+ */
+export async function processKycExpirations() {
+  const cronName = "processKycExpirations";
+  const startTime = Date.now();
+
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Starting KYC expiry processing");
+
+    const now = new Date();
+    const warningDays = await getKycExpiryWarningDays();
+
+    const expiring = await models.kycApplication.findAll({
+      where: {
+        status: "APPROVED",
+        expiryNotifiedAt: null,
+        expiresAt: {
+          [Op.gt]: now,
+          [Op.lte]: new Date(now.getTime() + warningDays * DAY_MS),
+        },
+      },
+      include: [{ model: models.kycLevel, as: "level", attributes: ["name"] }],
+    });
+
+    for (const application of expiring as any[]) {
+      try {
+        if (!(await findRenewal(application))) {
+          await createNotification({
+            userId: application.userId,
+            relatedId: application.id,
+            title: "KYC Verification Expiring",
+            message: `Your ${application.level?.name || "KYC"} verification expires on ${application.expiresAt.toISOString().slice(0, 10)}. Submit a new application to keep your access.`,
+            type: "system",
+            link: "/user/kyc",
+          });
+        }
+        await application.update({ expiryNotifiedAt: now });
+      } catch (error: any) {
+        logError(
+          `processKycExpirations - warn ${application.id}`,
+          error,
+          __filename
+        );
+        broadcastLog(
+          cronName,
+          `Error warning about application ${application.id}: ${error.message}`,
+          "error"
+        );
+      }
+    }
+
+    const lapsed = await models.kycApplication.findAll({
+      where: { status: "APPROVED", expiresAt: { [Op.lte]: now } },
+      include: [{ model: models.kycLevel, as: "level", attributes: ["name"] }],
+    });
+
+    for (const application of lapsed as any[]) {
+      try {
+        await application.update({ status: "EXPIRED" });
+
+        const renewal = await findRenewal(application);
+        if (renewal?.status === "APPROVED") continue;
+
+        const { level } = await getUserKycAccess(application.userId);
+        await createNotification({
+          userId: application.userId,
+          relatedId: application.id,
+          title: "KYC Verification Expired",
+          message:
+            level > 0
+              ? `Your ${application.level?.name || "KYC"} verification has expired and your account is now at KYC level ${level}. Verify again to restore your access.`
+              : `Your ${application.level?.name || "KYC"} verification has expired. Verify again to restore your access.`,
+          type: "system",
+          link: "/user/kyc",
+        });
+      } catch (error: any) {
+        logError(
+          `processKycExpirations - expire ${application.id}`,
+          error,
+          __filename
+        );
+        broadcastLog(
+          cronName,
+          `Error expiring application ${application.id}: ${error.message}`,
+          "error"
+        );
+      }
+    }
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(
+      cronName,
+      `KYC expiry processing completed. Warned ${expiring.length}, expired ${lapsed.length} applications`,
+      "success"
+    );
+  } catch (error: any) {
+    logError("processKycExpirations", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(
+      cronName,
+      `KYC expiry processing failed: ${error.message}`,
+      "error"
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+import { models, sequelize } from "@b/db";
+import { Op } from "sequelize";
+import { logError } from "../logger";
+import { broadcastStatus, broadcastLog } from "./broadcast";
+
+export async function processNftMarketplace() {
+  const cronName = "processNftMarketplace";
+  const startTime = Date.now();
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Starting NFT marketplace processing");
+
+    // @ts-ignore - Dynamic import for optional NFT extension
+    const marketplace = await import("@b/api/(ext)/nft/utils/marketplace");
+    const settings = await marketplace.getNftMarketplaceSettings();
+    const now = new Date();
+
+    // Settle auctions whose end time has passed
+    const endedAuctions = await models.nftListing.findAll({
+      where: {
+        type: "AUCTION",
+        status: "ACTIVE",
+        endTime: { [Op.lte]: now },
+      },
+      attributes: ["id"],
+    });
+
+    broadcastLog(
+      cronName,
+      `Found ${endedAuctions.length} ended auctions to settle`,
+      "info"
+    );
+
+    for (const auction of endedAuctions) {
+      try {
+        await sequelize.transaction((transaction) =>
+          marketplace.settleNftAuction(auction.id, transaction)
+        );
+        broadcastLog(cronName, `Auction ${auction.id} settled`, "success");
+      } catch (error: any) {
+        logError(
+          `processNftMarketplace - auction ${auction.id}`,
+          error,
+          __filename
+        );
+        broadcastLog(
+          cronName,
+          `Error settling auction ${auction.id}: ${error.message}`,
+          "error"
+        );
+      }
+    }
+
+    // Expire lapsed offers and return the locked funds
+    const expiredOffers = await models.nftOffer.findAll({
+      where: { status: "ACTIVE", expiresAt: { [Op.lte]: now } },
+      attributes: ["id"],
+    });
+
+    broadcastLog(
+      cronName,
+      `Found ${expiredOffers.length} expired offers to release`,
+      "info"
+    );
+
+    for (const { id } of expiredOffers) {
+      try {
+        await sequelize.transaction(async (transaction) => {
+          const offer = await models.nftOffer.findByPk(id, {
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+          });
+          if (!offer || offer.status !== "ACTIVE") return;
+
+          await marketplace.releaseNftFunds(
+            offer.offererId,
+            marketplace.getListingWalletType(offer, settings),
+            offer.currency,
+            offer.amount,
+            transaction
+          );
+          await offer.update({ status: "EXPIRED" }, { transaction });
+        });
+        broadcastLog(cronName, `Offer ${id} expired`, "success");
+      } catch (error: any) {
+        logError(`processNftMarketplace - offer ${id}`, error, __filename);
+        broadcastLog(
+          cronName,
+          `Error expiring offer ${id}: ${error.message}`,
+          "error"
+        );
+      }
+    }
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(cronName, "NFT marketplace processing completed", "success");
+  } catch (error: any) {
+    logError("processNftMarketplace", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(
+      cronName,
+      `NFT marketplace processing failed: ${error.message}`,
+      "error"
+    );
+    throw error;
+  }
+}
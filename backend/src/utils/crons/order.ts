@@ -1,5 +1,15 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
 import { logError } from "../logger";
 import { BinaryOrderService } from "@b/api/exchange/binary/order/util/BinaryOrderService";
+import ExchangeManager from "@b/utils/exchange";
+import { trackProviderCall } from "@b/utils/exchange-health";
+import { loadBanStatus } from "@b/api/exchange/utils";
+import {
+  recoverStuckStopOrders,
+  syncSpotOrder,
+  triggerStopOrder,
+} from "@b/api/exchange/order/index.post";
 import { broadcastStatus, broadcastProgress, broadcastLog } from "./broadcast";
 
 /**
@@ -34,3 +44,226 @@ export async function processPendingOrders(shouldBroadcast: boolean = true) {
     throw error;
   }
 }
+
+/**
+ * Places spot stop orders with the provider once the ticker reaches their
+ * trigger price. Until then they are only held in the database.
+ */
+export async function processSpotStopOrders() {
+  const cronName = "processSpotStopOrders";
+  const startTime = Date.now();
+
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Starting spot stop orders processing");
+
+    const recovered = await recoverStuckStopOrders();
+    if (recovered > 0) {
+      broadcastLog(
+        cronName,
+        `Returned ${recovered} stalled stop orders to the trigger queue`,
+        "warning"
+      );
+    }
+
+    const stopOrders = await models.exchangeOrder.findAll({
+      where: {
+        status: "OPEN",
+        type: { [Op.in]: ["STOP_MARKET", "STOP_LIMIT"] },
+        referenceId: null,
+      },
+    });
+
+    if (stopOrders.length === 0) {
+      broadcastStatus(cronName, "completed", {
+        duration: Date.now() - startTime,
+      });
+      broadcastLog(cronName, "No pending stop orders", "info");
+      return;
+    }
+
+    const unblockTime = await loadBanStatus();
+    if (Date.now() < unblockTime) {
+      broadcastStatus(cronName, "completed", {
+        duration: Date.now() - startTime,
+      });
+      broadcastLog(
+        cronName,
+        "Exchange is temporarily blocked, skipping this run",
+        "warning"
+      );
+      return;
+    }
+
+    const exchange = await ExchangeManager.startExchange();
+    if (!exchange) {
+      throw new Error("Exchange service is currently unavailable");
+    }
+
+    const symbols = [...new Set(stopOrders.map((order) => order.symbol))];
+    const tickers = await exchange.fetchTickers(symbols);
+
+    let triggered = 0;
+    for (const order of stopOrders) {
+      const lastPrice = Number(tickers[order.symbol]?.last);
+      if (!lastPrice) continue;
+
+      const reached =
+        order.side === "BUY"
+          ? lastPrice >= Number(order.stopPrice)
+          : lastPrice <= Number(order.stopPrice);
+      if (!reached) continue;
+
+      try {
+        // Placed on the healthiest provider of the market's route
+        const [provider] = await ExchangeManager.getOrderRoute(order.symbol);
+        const venue =
+          provider && (await ExchangeManager.startExchangeProvider(provider));
+        if (!venue) {
+          throw new Error(`No exchange provider available for ${order.symbol}`);
+        }
+
+        const placed = await triggerStopOrder(
+          venue,
+          provider,
+          order.get({ plain: true }) as exchangeOrderAttributes
+        );
+        if (!placed) continue;
+        triggered++;
+        broadcastLog(
+          cronName,
+          `Triggered stop order ${order.id} at ${lastPrice} ${order.symbol}`,
+          "success"
+        );
+      } catch (error: any) {
+        logError(
+          `processSpotStopOrders - order ${order.id}`,
+          error,
+          __filename
+        );
+        broadcastLog(
+          cronName,
+          `Error triggering stop order ${order.id}: ${error.message}`,
+          "error"
+        );
+      }
+    }
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(
+      cronName,
+      `Spot stop orders processing completed. Triggered ${triggered} of ${stopOrders.length} orders`,
+      "success"
+    );
+  } catch (error: any) {
+    logError("processSpotStopOrders", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(
+      cronName,
+      `Spot stop orders processing failed: ${error.message}`,
+      "error"
+    );
+    throw error;
+  }
+}
+
+/**
+ * Syncs open spot orders with the venue each one was placed on, so fills are
+ * settled even while the owner has no order stream open. This includes stop
+ * orders whose trigger is still running: both settle through syncSpotOrder,
+ * which credits a fill once. Orders from before routing have no provider and
+ * belong to the primary.
+ */
+export async function processSpotOrderSync() {
+  const cronName = "processSpotOrderSync";
+  const startTime = Date.now();
+
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Starting spot order sync");
+
+    const unblockTime = await loadBanStatus();
+    if (Date.now() < unblockTime) {
+      broadcastStatus(cronName, "completed", {
+        duration: Date.now() - startTime,
+      });
+      broadcastLog(
+        cronName,
+        "Exchange is temporarily blocked, skipping this run",
+        "warning"
+      );
+      return;
+    }
+
+    const openOrders = await models.exchangeOrder.findAll({
+      where: { status: "OPEN", referenceId: { [Op.ne]: null } },
+      order: [["updatedAt", "ASC"]],
+      limit: 200,
+      raw: true,
+    });
+
+    const primary = await ExchangeManager.getProvider();
+    const byProvider = new Map<string, exchangeOrderAttributes[]>();
+    for (const order of openOrders) {
+      const provider = order.provider || primary;
+      if (!provider) continue;
+      byProvider.set(provider, [...(byProvider.get(provider) || []), order]);
+    }
+
+    let settled = 0;
+    for (const [provider, orders] of byProvider) {
+      const exchange = await ExchangeManager.startExchangeProvider(provider);
+      if (!exchange) {
+        broadcastLog(
+          cronName,
+          `Provider ${provider} is unavailable, ${orders.length} orders left for the next run`,
+          "warning"
+        );
+        continue;
+      }
+
+      for (const order of orders) {
+        try {
+          const orderData = await trackProviderCall(provider, () =>
+            exchange.fetchOrder(order.referenceId, order.symbol)
+          );
+          if (orderData && (await syncSpotOrder(order, orderData, provider))) {
+            settled++;
+            broadcastLog(
+              cronName,
+              `Order ${order.id} is ${String(orderData.status).toUpperCase()} on ${provider}`,
+              "success"
+            );
+          }
+        } catch (error: any) {
+          logError(
+            `processSpotOrderSync - order ${order.id}`,
+            error,
+            __filename
+          );
+          broadcastLog(
+            cronName,
+            `Error syncing order ${order.id} on ${provider}: ${error.message}`,
+            "error"
+          );
+        }
+      }
+    }
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(
+      cronName,
+      `Spot order sync completed. ${settled} of ${openOrders.length} orders left OPEN`,
+      "success"
+    );
+  } catch (error: any) {
+    logError("processSpotOrderSync", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(cronName, `Spot order sync failed: ${error.message}`, "error");
+    throw error;
+  }
+}
@@ -0,0 +1,33 @@
+import { logError } from "../logger";
+import { broadcastStatus, broadcastLog } from "./broadcast";
+
+export async function processP2POfferPrices() {
+  const cronName = "processP2POfferPrices";
+  const startTime = Date.now();
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Starting P2P floating offer repricing");
+
+    // @ts-ignore - Dynamic import for optional p2p extension
+    const price = await import("@b/api/(ext)/p2p/utils/price");
+    const repriced = await price.repriceFloatingOffers();
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(
+      cronName,
+      `P2P floating offer repricing completed. Repriced ${repriced} offers`,
+      "success"
+    );
+  } catch (error: any) {
+    logError("processP2POfferPrices", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(
+      cronName,
+      `P2P floating offer repricing failed: ${error.message}`,
+      "error"
+    );
+    throw error;
+  }
+}
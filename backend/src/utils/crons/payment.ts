@@ -0,0 +1,34 @@
+import { logError } from "../logger";
+import { broadcastStatus, broadcastLog } from "./broadcast";
+
+export async function processPaymentIntents() {
+  const cronName = "processPaymentIntents";
+  const startTime = Date.now();
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Starting payment intent processing");
+
+    // @ts-ignore - Dynamic import for optional payment gateway extension
+    const payment = await import("@b/api/(ext)/payment/utils");
+    const { expired, attempted, delivered } =
+      await payment.processPaymentIntents();
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(
+      cronName,
+      `Payment intent processing completed. Expired ${expired}, delivered ${delivered}/${attempted} IPNs`,
+      "success"
+    );
+  } catch (error: any) {
+    logError("processPaymentIntents", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(
+      cronName,
+      `Payment intent processing failed: ${error.message}`,
+      "error"
+    );
+    throw error;
+  }
+}
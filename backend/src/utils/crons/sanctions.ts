@@ -0,0 +1,92 @@
+import { models } from "@b/db";
+import { logError } from "../logger";
+import { getWatchlistIndex, screenUser } from "../sanctions";
+import { broadcastStatus, broadcastLog, broadcastProgress } from "./broadcast";
+
+const RESCAN_BATCH_SIZE = 500;
+
+/**
+ * Screens every user against the active watchlists, so that users are
+ * checked against newly listed names and against names from KYC data they
+ * submitted since their last screening.
+ */
+export async function processSanctionsRescan() {
+  const cronName = "processSanctionsRescan";
+  const startTime = Date.now();
+
+  try {
+    broadcastStatus(cronName, "running");
+    broadcastLog(cronName, "Starting sanctions rescan");
+
+    const index = await getWatchlistIndex();
+    if (!index.entries.length) {
+      broadcastStatus(cronName, "completed", {
+        duration: Date.now() - startTime,
+      });
+      broadcastLog(
+        cronName,
+        "No sanctions watchlists imported, skipping rescan",
+        "info"
+      );
+      return;
+    }
+
+    const total = await models.user.count();
+    let screened = 0;
+    let matched = 0;
+    let held = 0;
+
+    for (let offset = 0; offset < total; offset += RESCAN_BATCH_SIZE) {
+      const users = await models.user.findAll({
+        attributes: ["id"],
+        order: [
+          ["createdAt", "ASC"],
+          ["id", "ASC"],
+        ],
+        limit: RESCAN_BATCH_SIZE,
+        offset,
+      });
+      if (!users.length) break;
+
+      for (const user of users) {
+        try {
+          const result = await screenUser(user.id, "RESCAN", { index });
+          matched += result.matches.length;
+          if (result.held) held++;
+        } catch (error: any) {
+          logError(
+            `processSanctionsRescan - user ${user.id}`,
+            error,
+            __filename
+          );
+          broadcastLog(
+            cronName,
+            `Error screening user ${user.id}: ${error.message}`,
+            "error"
+          );
+        }
+        screened++;
+      }
+
+      broadcastProgress(cronName, Math.round((screened / total) * 100));
+    }
+
+    broadcastStatus(cronName, "completed", {
+      duration: Date.now() - startTime,
+    });
+    broadcastLog(
+      cronName,
+      `Sanctions rescan completed. Screened ${screened} users, ${matched} new matches, ${held} accounts held`,
+      "success"
+    );
+  } catch (error: any) {
+    logError("processSanctionsRescan", error, __filename);
+    broadcastStatus(cronName, "failed");
+    broadcastLog(
+      cronName,
+      `Sanctions rescan failed: ${error.message}`,
+      "error"
+    );
+    throw error;
+  }
+}
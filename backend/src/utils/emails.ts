@@ -480,47 +480,21 @@ export async function sendOrderConfirmationEmail(user, order, product) {
     day: "numeric",
   });
 
-  // Get the order with items to calculate proper totals
+  // The order stores the totals it was charged with
   const fullOrder = await models.ecommerceOrder.findByPk(order.id, {
     include: [
       {
         model: models.ecommerceOrderItem,
-        as: "orderItems",
-        include: [
-          {
-            model: models.ecommerceProduct,
-            as: "product",
-          },
-        ],
+        as: "ecommerceOrderItems",
       },
     ],
   });
 
-  // Calculate order totals
-  const subtotal = fullOrder?.orderItems?.reduce((total, item) => {
-    return total + (item.product.price * item.quantity);
-  }, 0) || product.price;
-
-  // Get system settings for shipping and tax
-  const systemSettings = await models.settings.findAll();
-  const settings = systemSettings.reduce((acc, setting) => {
-    acc[setting.key] = setting.value;
-    return acc;
-  }, {} as Record<string, any>);
-
-  // Calculate shipping and tax
-  let shippingCost = 0;
-  if (product.type === "PHYSICAL" && settings.ecommerceShippingEnabled === "true") {
-    shippingCost = parseFloat(settings.ecommerceDefaultShippingCost || "0");
-  }
-
-  let taxAmount = 0;
-  if (settings.ecommerceTaxEnabled === "true") {
-    const taxRate = parseFloat(settings.ecommerceDefaultTaxRate || "0") / 100;
-    taxAmount = subtotal * taxRate;
-  }
-
-  const orderTotal = subtotal + shippingCost + taxAmount;
+  const subtotal = fullOrder?.subtotal ?? product.price;
+  const shippingCost = fullOrder?.shippingCost ?? 0;
+  const taxAmount = fullOrder?.taxAmount ?? 0;
+  const orderTotal = fullOrder?.total ?? subtotal;
+  const firstItem = fullOrder?.ecommerceOrderItems?.[0];
 
   const emailData = {
     TO: user.email,
@@ -528,8 +502,8 @@ export async function sendOrderConfirmationEmail(user, order, product) {
     ORDER_NUMBER: order.id,
     ORDER_DATE: orderDate,
     PRODUCT_NAME: product.name,
-    QUANTITY: fullOrder?.orderItems?.[0]?.quantity || 1,
-    PRODUCT_PRICE: product.price.toString(),
+    QUANTITY: firstItem?.quantity || 1,
+    PRODUCT_PRICE: (firstItem?.price ?? product.price).toString(),
     PRODUCT_CURRENCY: product.currency,
     SUBTOTAL: subtotal.toFixed(2),
     SHIPPING_COST: shippingCost.toFixed(2),
@@ -541,6 +515,39 @@ export async function sendOrderConfirmationEmail(user, order, product) {
 
   await emailQueue.add({ emailData, emailType: "OrderConfirmation" });
 }
+export async function sendOrderStatusUpdateEmail(user, order, status) {
+  const orderItems = await models.ecommerceOrderItem.findAll({
+    where: { orderId: order.id },
+    include: [
+      {
+        model: models.ecommerceProduct,
+        as: "product",
+        attributes: ["name", "price", "currency"],
+      },
+    ],
+  });
+
+  // Items keep the price they were bought at
+  const productDetails = orderItems
+    .map(
+      (item) => `
+    <li>Product Name: ${item.product.name}</li>
+    <li>Quantity: ${item.quantity}</li>
+    <li>Price: ${item.price ?? item.product.price} ${item.product.currency}</li>
+  `
+    )
+    .join("");
+
+  const emailData = {
+    TO: user.email,
+    CUSTOMER_NAME: user.firstName,
+    ORDER_NUMBER: order.id,
+    ORDER_STATUS: status,
+    PRODUCT_DETAILS: productDetails,
+  };
+
+  await emailQueue.add({ emailData, emailType: "OrderStatusUpdate" });
+}
 
 /**
  * Send an email to a specific target with a provided HTML template.
@@ -621,3 +628,70 @@ export async function sendForexTransactionEmail(
 
   await emailQueue.add({ emailData, emailType });
 }
+
+export async function sendPriceAlertEmail(
+  user: any,
+  alert: any,
+  price: number,
+  description: string
+) {
+  // Define the type of email template to use, which matches the SQL record
+  const emailType = "PriceAlertTriggered";
+
+  // Prepare the email data
+  const emailData = {
+    TO: user.email,
+    FIRSTNAME: user.firstName,
+    SYMBOL: alert.symbol,
+    CONDITION: description,
+    PRICE: price,
+    NOTE: alert.note || "N/A",
+    TRIGGERED_AT: format(new Date(), "yyyy-MM-dd HH:mm:ss"),
+  };
+
+  // Send the email
+  await emailQueue.add({ emailData, emailType });
+}
+
+export async function sendWithdrawalAddressCodeEmail(
+  user: any,
+  code: string,
+  action: string,
+  expiresInMinutes: number
+) {
+  // Define the type of email template to use, which matches the SQL record
+  const emailType = "WithdrawalAddressConfirmation";
+
+  // Prepare the email data
+  const emailData = {
+    TO: user.email,
+    FIRSTNAME: user.firstName,
+    ACTION: action,
+    CODE: code,
+    EXPIRES: expiresInMinutes,
+  };
+
+  // Send the email
+  await emailQueue.add({ emailData, emailType });
+}
+
+export async function sendWithdrawalAddressChangedEmail(
+  user: any,
+  action: string,
+  address: string
+) {
+  // Define the type of email template to use, which matches the SQL record
+  const emailType = "WithdrawalAddressBookChanged";
+
+  // Prepare the email data
+  const emailData = {
+    TO: user.email,
+    FIRSTNAME: user.firstName,
+    ACTION: action,
+    ADDRESS: address,
+    CHANGED_AT: format(new Date(), "yyyy-MM-dd HH:mm:ss"),
+  };
+
+  // Send the email
+  await emailQueue.add({ emailData, emailType });
+}
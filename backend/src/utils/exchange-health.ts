@@ -0,0 +1,226 @@
+import * as ccxt from "ccxt";
+
+// Calls older than this no longer count towards a provider's score
+const HEALTH_WINDOW = 5 * 60 * 1000;
+const MAX_SAMPLES = 200;
+// Consecutive failures that take a provider out of rotation for a cool-down
+const MAX_CONSECUTIVE_FAILURES = 3;
+const FAILURE_COOLDOWN = 60 * 1000;
+const RATE_LIMIT_COOLDOWN = 60 * 1000;
+// Average latency above which the score starts to drop, and where it bottoms out
+const LATENCY_TARGET = 1000;
+const LATENCY_CEILING = 10000;
+const HEALTHY_SCORE = 0.5;
+
+interface ProviderSample {
+  timestamp: number;
+  latency: number;
+  ok: boolean;
+  rateLimited: boolean;
+}
+
+interface ProviderState {
+  samples: ProviderSample[];
+  consecutiveFailures: number;
+  unavailableUntil: number;
+  lastError: string | null;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  score: number;
+  healthy: boolean;
+  calls: number;
+  errorRate: number;
+  rateLimitHits: number;
+  averageLatency: number;
+  consecutiveFailures: number;
+  unavailableUntil: number | null;
+  lastError: string | null;
+}
+
+const states = new Map<string, ProviderState>();
+
+function getState(provider: string): ProviderState {
+  let state = states.get(provider);
+  if (!state) {
+    state = {
+      samples: [],
+      consecutiveFailures: 0,
+      unavailableUntil: 0,
+      lastError: null,
+    };
+    states.set(provider, state);
+  }
+  return state;
+}
+
+function addSample(state: ProviderState, sample: ProviderSample) {
+  state.samples.push(sample);
+  const cutoff = sample.timestamp - HEALTH_WINDOW;
+  while (
+    state.samples.length > MAX_SAMPLES ||
+    (state.samples.length && state.samples[0].timestamp < cutoff)
+  ) {
+    state.samples.shift();
+  }
+}
+
+export function isRateLimitError(error: any): boolean {
+  return (
+    error instanceof ccxt.RateLimitExceeded ||
+    error instanceof ccxt.DDoSProtection ||
+    error?.code === -1003
+  );
+}
+
+/**
+ * Errors that say something about the venue rather than the order: it is
+ * unreachable, throttling us or refusing our credentials.
+ */
+export function isProviderError(error: any): boolean {
+  return (
+    error instanceof ccxt.NetworkError ||
+    error instanceof ccxt.AuthenticationError ||
+    isRateLimitError(error)
+  );
+}
+
+/**
+ * Whether an order refused by one venue may be placed on the next one. A
+ * timeout is not retried because the order may still have reached the venue,
+ * and invalid orders are refused everywhere alike.
+ */
+export function canFailOver(error: any): boolean {
+  if (error instanceof ccxt.RequestTimeout) return false;
+  return (
+    isProviderError(error) ||
+    error instanceof ccxt.InsufficientFunds ||
+    error instanceof ccxt.BadSymbol ||
+    error instanceof ccxt.NotSupported
+  );
+}
+
+export function recordProviderSuccess(provider: string, latency: number) {
+  const state = getState(provider);
+  addSample(state, {
+    timestamp: Date.now(),
+    latency,
+    ok: true,
+    rateLimited: false,
+  });
+  state.consecutiveFailures = 0;
+}
+
+/**
+ * Only venue-side errors count against a provider, an order the venue
+ * rejected on its merits leaves the score alone.
+ */
+export function recordProviderFailure(
+  provider: string,
+  error: any,
+  latency = 0
+) {
+  if (!isProviderError(error)) return;
+
+  const now = Date.now();
+  const state = getState(provider);
+  const rateLimited = isRateLimitError(error);
+  addSample(state, { timestamp: now, latency, ok: false, rateLimited });
+  state.consecutiveFailures += 1;
+  state.lastError = error?.message || String(error);
+
+  if (rateLimited) {
+    state.unavailableUntil = Math.max(
+      state.unavailableUntil,
+      now + RATE_LIMIT_COOLDOWN
+    );
+  } else if (state.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    state.unavailableUntil = Math.max(
+      state.unavailableUntil,
+      now + FAILURE_COOLDOWN
+    );
+  }
+}
+
+/**
+ * Runs a call against a provider and records its latency and outcome
+ */
+export async function trackProviderCall(
+  provider: string | null,
+  call: () => Promise<any>
+): Promise<any> {
+  const startedAt = Date.now();
+  try {
+    const result = await call();
+    if (provider) recordProviderSuccess(provider, Date.now() - startedAt);
+    return result;
+  } catch (error) {
+    if (provider)
+      recordProviderFailure(provider, error, Date.now() - startedAt);
+    throw error;
+  }
+}
+
+export function getProviderHealth(provider: string): ProviderHealth {
+  const now = Date.now();
+  const state = getState(provider);
+  const samples = state.samples.filter(
+    (sample) => sample.timestamp >= now - HEALTH_WINDOW
+  );
+  const calls = samples.length;
+  const failures = samples.filter((sample) => !sample.ok).length;
+  const rateLimitHits = samples.filter((sample) => sample.rateLimited).length;
+  const averageLatency = calls
+    ? samples.reduce((sum, sample) => sum + sample.latency, 0) / calls
+    : 0;
+
+  const errorRate = calls ? failures / calls : 0;
+  const rateLimitRate = calls ? rateLimitHits / calls : 0;
+  const latencyPenalty = Math.min(
+    Math.max(
+      (averageLatency - LATENCY_TARGET) / (LATENCY_CEILING - LATENCY_TARGET),
+      0
+    ),
+    1
+  );
+  const score = Math.max(
+    0,
+    1 - 0.6 * errorRate - 0.2 * rateLimitRate - 0.2 * latencyPenalty
+  );
+  const coolingDown = state.unavailableUntil > now;
+
+  return {
+    provider,
+    score: Number(score.toFixed(4)),
+    healthy: !coolingDown && score >= HEALTHY_SCORE,
+    calls,
+    errorRate: Number(errorRate.toFixed(4)),
+    rateLimitHits,
+    averageLatency: Math.round(averageLatency),
+    consecutiveFailures: state.consecutiveFailures,
+    unavailableUntil: coolingDown ? state.unavailableUntil : null,
+    lastError: state.lastError,
+  };
+}
+
+/**
+ * Orders providers for routing: healthy ones first in the given priority
+ * order, then unhealthy ones as a last resort, best score first.
+ */
+export function rankProviders(providers: string[]): string[] {
+  const health = providers.map((provider) => getProviderHealth(provider));
+  const healthy = health.filter((entry) => entry.healthy);
+  const unhealthy = health
+    .filter((entry) => !entry.healthy)
+    .sort((a, b) => b.score - a.score);
+  return [...healthy, ...unhealthy].map((entry) => entry.provider);
+}
+
+export function resetProviderHealth(provider?: string) {
+  if (provider) {
+    states.delete(provider);
+  } else {
+    states.clear();
+  }
+}
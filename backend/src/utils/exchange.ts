@@ -2,6 +2,12 @@ import * as ccxt from "ccxt";
 import { sleep } from "./system";
 import { models } from "@b/db";
 import { logError } from "@b/utils/logger";
+import { PAPER_PROVIDER, PaperExchange } from "./paper-exchange";
+import {
+  canFailOver,
+  rankProviders,
+  trackProviderCall,
+} from "./exchange-health";
 import {
   loadBanStatus,
   saveBanStatus,
@@ -15,28 +21,112 @@ class ExchangeManager {
   private provider: string | null = null;
   private exchange: any = null;
   private exchangeProvider: any = null;
-  private lastAttemptTime: number | null = null;
-  private attemptCount: number = 0;
+  // Failed initialization attempts per provider, so one misconfigured venue
+  // does not hold back the others
+  private readonly attempts = new Map<
+    string,
+    { count: number; lastAttemptTime: number | null }
+  >();
   private isInitializing: boolean = false;
   private initializationQueue: Array<{resolve: Function, reject: Function}> = [];
 
   private constructor() {}
 
   private async fetchActiveProvider(): Promise<string | null> {
+    const providers = await this.getActiveProviders();
+    return providers[0] || null;
+  }
+
+  /**
+   * Active providers in priority order, the first one is the primary that
+   * serves market data
+   */
+  public async getActiveProviders(): Promise<string[]> {
     try {
-      const provider = await models.exchange.findOne({
+      const providers = await models.exchange.findAll({
         where: {
           status: true,
         },
+        attributes: ["name"],
+        order: [
+          ["priority", "ASC"],
+          ["name", "ASC"],
+        ],
+        raw: true,
       });
-      if (!provider) {
-        return null;
-      }
-      return provider.name;
+      return providers.map((provider) => provider.name);
     } catch (error) {
       logError("exchange", error, __filename);
-      return null;
+      return [];
+    }
+  }
+
+  /**
+   * Providers to try for a new order on a market. A market may list its own
+   * provider order, otherwise the global priority applies. Unhealthy
+   * providers are moved to the back.
+   */
+  public async getOrderRoute(symbol: string): Promise<string[]> {
+    const active = await this.getActiveProviders();
+    const [currency, pair] = symbol.split("/");
+
+    let preferred: string[] = [];
+    try {
+      const market = await models.exchangeMarket.findOne({
+        where: { currency, pair },
+        attributes: ["providers"],
+      });
+      preferred = Array.isArray(market?.providers) ? market.providers : [];
+    } catch (error) {
+      logError("exchange", error, __filename);
+    }
+
+    const route = preferred.length
+      ? preferred.filter((provider) => active.includes(provider))
+      : active;
+    return rankProviders(route);
+  }
+
+  /**
+   * Runs an order operation on the first provider of the route that accepts
+   * it. Errors that rule out only one venue move on to the next provider,
+   * any other error is thrown as is.
+   */
+  public async routeOrder(
+    symbol: string,
+    operation: (exchange: any, provider: string) => Promise<any>
+  ): Promise<{ result: any; exchange: any; provider: string }> {
+    const route = await this.getOrderRoute(symbol);
+    let lastError: any = null;
+
+    for (const provider of route) {
+      const exchange = await this.startExchangeProvider(provider);
+      if (!exchange) {
+        lastError = new Error(`Exchange provider ${provider} is unavailable`);
+        continue;
+      }
+
+      try {
+        const result = await trackProviderCall(provider, () =>
+          operation(exchange, provider)
+        );
+        return { result, exchange, provider };
+      } catch (error) {
+        lastError = error;
+        if (!canFailOver(error)) {
+          throw error;
+        }
+        logError(
+          "exchange",
+          new Error(
+            `Provider ${provider} failed for ${symbol}, trying the next one: ${error.message}`
+          ),
+          __filename
+        );
+      }
     }
+
+    throw lastError || new Error("Exchange service is currently unavailable");
   }
 
   private async initializeExchange(
@@ -52,14 +142,32 @@ class ExchangeManager {
     }
 
     const now = Date.now();
+    const attempts = this.attempts.get(provider) || {
+      count: 0,
+      lastAttemptTime: null,
+    };
+    this.attempts.set(provider, attempts);
     if (
-      this.attemptCount >= 3 &&
-      this.lastAttemptTime &&
-      now - this.lastAttemptTime < 30 * 60 * 1000
+      attempts.count >= 3 &&
+      attempts.lastAttemptTime &&
+      now - attempts.lastAttemptTime < 30 * 60 * 1000
     ) {
       return null;
     }
 
+    // The paper venue simulates fills locally and needs no credentials
+    if (provider === PAPER_PROVIDER) {
+      try {
+        const exchange = new PaperExchange();
+        await exchange.loadMarkets();
+        this.exchangeCache.set(provider, exchange);
+        return exchange;
+      } catch (error) {
+        logError("exchange", error, __filename);
+        return null;
+      }
+    }
+
     const apiKey = process.env[`APP_${provider.toUpperCase()}_API_KEY`];
     const apiSecret = process.env[`APP_${provider.toUpperCase()}_API_SECRET`];
     const apiPassphrase =
@@ -71,8 +179,8 @@ class ExchangeManager {
         new Error(`API credentials for ${provider} are missing.`),
         __filename
       );
-      this.attemptCount += 1;
-      this.lastAttemptTime = now;
+      attempts.count += 1;
+      attempts.lastAttemptTime = now;
       return null;
     }
 
@@ -112,18 +220,14 @@ class ExchangeManager {
       }
 
       this.exchangeCache.set(provider, exchange);
-      this.attemptCount = 0;
-      this.lastAttemptTime = null;
+      this.attempts.delete(provider);
       return exchange;
     } catch (error) {
       logError("exchange", error, __filename);
-      this.attemptCount += 1;
-      this.lastAttemptTime = now;
+      attempts.count += 1;
+      attempts.lastAttemptTime = now;
 
-      if (
-        retries > 0 &&
-        (this.attemptCount < 3 || now - this.lastAttemptTime >= 30 * 60 * 1000)
-      ) {
+      if (retries > 0 && attempts.count < 3) {
         await sleep(5000);
         return this.initializeExchange(provider, retries - 1);
       }
@@ -208,6 +312,10 @@ class ExchangeManager {
       throw new Error("Provider is required to start exchange provider.");
     }
 
+    if (provider === this.provider && this.exchange) {
+      return this.exchange;
+    }
+
     this.exchangeProvider =
       this.exchangeCache.get(provider) ||
       (await this.initializeExchange(provider));
@@ -226,6 +334,15 @@ class ExchangeManager {
     }
   }
 
+  /**
+   * Forgets the primary provider so the next call picks it again from the
+   * active providers, connections stay cached for routing
+   */
+  public resetPrimary(): void {
+    this.provider = null;
+    this.exchange = null;
+  }
+
   public async getProvider(): Promise<string | null> {
     if (!this.provider) {
       this.provider = await this.fetchActiveProvider();
@@ -244,6 +361,15 @@ class ExchangeManager {
     }
 
     try {
+      if (provider === PAPER_PROVIDER) {
+        const exchange = new PaperExchange();
+        await exchange.loadMarkets();
+        return {
+          status: true,
+          message: `Paper trading feed loaded with ${exchange.symbols.length} markets`,
+        };
+      }
+
       const apiKey = process.env[`APP_${provider.toUpperCase()}_API_KEY`];
       const apiSecret = process.env[`APP_${provider.toUpperCase()}_API_SECRET`];
       const apiPassphrase =
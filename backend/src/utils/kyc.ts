@@ -0,0 +1,396 @@
+import { models } from "@b/db";
+import { CacheManager } from "./cache";
+import { RedisSingleton } from "./redis";
+
+const redis = RedisSingleton.getInstance();
+
+const KYC_CACHE_TTL_SECONDS = 300;
+const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cleared by the kycApplication and kycLevel hooks whenever they change
+const kycAccessKey = (userId: string) => `user:${userId}:kyc`;
+const KYC_LEVELS_KEY = "kyc:levels";
+
+export interface KycAccess {
+  level: number;
+  levelId: string | null;
+  // Level of an application still under review, if any
+  pendingLevel: number | null;
+}
+
+export interface KycLevelSummary {
+  id: string;
+  name: string;
+  level: number;
+  features: string[];
+}
+
+export interface KycRequirement {
+  level?: number;
+  feature?: string;
+}
+
+export interface KycRequirementFailure {
+  requiredLevel: number;
+  currentLevel: number;
+  feature: string | null;
+  nextLevel: { id: string; name: string; level: number } | null;
+  pendingLevel: number | null;
+}
+
+export type KycValidityStatus = "VALID" | "EXPIRING" | "EXPIRED" | "NO_EXPIRY";
+
+export interface KycValidity {
+  status: KycValidityStatus;
+  expiresAt: Date | null;
+  documentExpiresAt: Date | null;
+  daysRemaining: number | null;
+}
+
+/** KYC level features are stored as JSON, sometimes double encoded. */
+export function parseKycFeatures(features: any): string[] {
+  let parsed = features;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(parsed)
+    ? parsed
+        .filter((feature) => typeof feature === "string")
+        .map((feature) => feature.toLowerCase())
+    : [];
+}
+
+async function readCache<T>(key: string): Promise<T | null> {
+  try {
+    const cached = await redis.get(key);
+    return cached ? (JSON.parse(cached) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(
+  key: string,
+  value: any,
+  ttlSeconds = KYC_CACHE_TTL_SECONDS
+) {
+  try {
+    await redis.set(key, JSON.stringify(value), "EX", ttlSeconds);
+  } catch {
+    // The lookup still works without the cache
+  }
+}
+
+/** Whether KYC is turned on for the site in the "kycStatus" setting. */
+export async function isKycEnabled(): Promise<boolean> {
+  const value = await CacheManager.getInstance().getSetting("kycStatus");
+  return value === true || value === "true";
+}
+
+/**
+ * The user's highest approved KYC level, cached so that gated routes do not
+ * hit the database on every request. Approvals past their expiry count for
+ * nothing, and the cache never outlives the next approval to expire.
+ */
+export async function getUserKycAccess(userId: string): Promise<KycAccess> {
+  const cached = await readCache<KycAccess>(kycAccessKey(userId));
+  if (cached) return cached;
+
+  const applications = await models.kycApplication.findAll({
+    where: { userId },
+    include: [
+      {
+        model: models.kycLevel,
+        as: "level",
+        attributes: ["id", "level"],
+      },
+    ],
+  });
+
+  const now = Date.now();
+  const access: KycAccess = { level: 0, levelId: null, pendingLevel: null };
+  let ttlSeconds = KYC_CACHE_TTL_SECONDS;
+  for (const application of applications as any[]) {
+    const level = application.level?.level;
+    if (typeof level !== "number") continue;
+    if (application.status === "APPROVED") {
+      const expiresAt = parseDate(application.expiresAt)?.getTime();
+      if (expiresAt !== undefined) {
+        if (expiresAt <= now) continue;
+        ttlSeconds = Math.min(ttlSeconds, Math.ceil((expiresAt - now) / 1000));
+      }
+      if (level > access.level) {
+        access.level = level;
+        access.levelId = application.level.id;
+      }
+    } else if (
+      ["PENDING", "ADDITIONAL_INFO_REQUIRED"].includes(application.status) &&
+      level > (access.pendingLevel ?? 0)
+    ) {
+      access.pendingLevel = level;
+    }
+  }
+
+  await writeCache(kycAccessKey(userId), access, ttlSeconds);
+  return access;
+}
+
+/** Active KYC levels in ascending order, cached like the user lookup. */
+export async function getActiveKycLevels(): Promise<KycLevelSummary[]> {
+  const cached = await readCache<KycLevelSummary[]>(KYC_LEVELS_KEY);
+  if (cached) return cached;
+
+  const levels = await models.kycLevel.findAll({
+    where: { status: "ACTIVE" },
+    attributes: ["id", "name", "level", "features"],
+    order: [["level", "ASC"]],
+  });
+  const summaries = levels.map((level) => ({
+    id: level.id,
+    name: level.name,
+    level: level.level,
+    features: parseKycFeatures(level.features),
+  }));
+
+  await writeCache(KYC_LEVELS_KEY, summaries);
+  return summaries;
+}
+
+/**
+ * Level a requirement asks for. Features unlocked at a level stay unlocked
+ * at the levels above it, so a feature needs the lowest active level that
+ * lists it; a feature no level lists only needs an approved KYC.
+ */
+export function getRequiredKycLevel(
+  requirement: KycRequirement,
+  levels: KycLevelSummary[]
+): number {
+  let required = requirement.level ?? 0;
+  if (requirement.feature) {
+    const feature = requirement.feature.toLowerCase();
+    const unlockedAt = levels.find((level) => level.features.includes(feature));
+    required = Math.max(required, unlockedAt?.level ?? 1);
+  }
+  return required;
+}
+
+/**
+ * Checks a user against a route's KYC requirement. Returns null when the
+ * user may proceed, or what they are missing and which level to complete.
+ */
+export async function checkKycRequirement(
+  userId: string,
+  requirement: KycRequirement
+): Promise<KycRequirementFailure | null> {
+  const [access, levels] = await Promise.all([
+    getUserKycAccess(userId),
+    getActiveKycLevels(),
+  ]);
+
+  const requiredLevel = getRequiredKycLevel(requirement, levels);
+  if (access.level >= requiredLevel) return null;
+
+  const next = levels.find((level) => level.level >= requiredLevel);
+  return {
+    requiredLevel,
+    currentLevel: access.level,
+    feature: requirement.feature ?? null,
+    nextLevel: next
+      ? { id: next.id, name: next.name, level: next.level }
+      : null,
+    pendingLevel: access.pendingLevel,
+  };
+}
+
+/**
+ * Days before an approval expires that the user is warned and may submit a
+ * new application, from the "kycExpiryWarningDays" setting.
+ */
+export async function getKycExpiryWarningDays(): Promise<number> {
+  const value = await CacheManager.getInstance().getSetting(
+    "kycExpiryWarningDays"
+  );
+  const days = parseInt(value, 10);
+  return Number.isFinite(days) && days >= 0
+    ? days
+    : DEFAULT_EXPIRY_WARNING_DAYS;
+}
+
+function parseFieldDefinitions(fields: any): any[] {
+  if (typeof fields === "string") {
+    try {
+      fields = JSON.parse(fields);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(fields)) return [];
+  // Sections group their own fields
+  return fields.flatMap((field) =>
+    Array.isArray(field?.fields) && field.type === "SECTION"
+      ? [field, ...parseFieldDefinitions(field.fields)]
+      : [field]
+  );
+}
+
+function parseDate(value: any): Date | null {
+  if (typeof value !== "string" && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const isExpiryName = (name: any) =>
+  typeof name === "string" && /expir/i.test(name);
+
+/**
+ * Earliest document expiry date in submitted KYC data. Dates come from DATE
+ * fields flagged as a document expiry or named like one, and from expiry
+ * entries in identity document details.
+ */
+export function extractDocumentExpiry(fields: any, data: any): Date | null {
+  if (!data || typeof data !== "object") return null;
+
+  const dates: Date[] = [];
+  for (const field of parseFieldDefinitions(fields)) {
+    const value = data[field?.id];
+    if (value === undefined || value === null) continue;
+
+    if (
+      field.type === "DATE" &&
+      (field.documentExpiry ||
+        isExpiryName(field.id) ||
+        isExpiryName(field.label))
+    ) {
+      const date = parseDate(value);
+      if (date) dates.push(date);
+    } else if (field.type === "IDENTITY" && typeof value === "object") {
+      for (const [key, entry] of Object.entries(value)) {
+        const date = isExpiryName(key) ? parseDate(entry) : null;
+        if (date) dates.push(date);
+      }
+    }
+  }
+
+  return dates.length
+    ? new Date(Math.min(...dates.map((date) => date.getTime())))
+    : null;
+}
+
+const NAME_PARTS: [keyof KycIdentityName, RegExp][] = [
+  ["full", /full.?name|^name$/i],
+  ["first", /first.?name|given.?name|forename/i],
+  ["middle", /middle.?name/i],
+  ["last", /last.?name|surname|family.?name/i],
+];
+
+interface KycIdentityName {
+  full?: string;
+  first?: string;
+  middle?: string;
+  last?: string;
+}
+
+/**
+ * Names and dates of birth in submitted KYC data, taken from text fields
+ * named like a name part and DATE fields named like a date of birth.
+ */
+export function extractKycIdentity(
+  fields: any,
+  data: any
+): { names: string[]; birthDates: string[] } {
+  const identity = { names: [] as string[], birthDates: [] as string[] };
+  if (!data || typeof data !== "object") return identity;
+
+  const name: KycIdentityName = {};
+  for (const field of parseFieldDefinitions(fields)) {
+    const value = data[field?.id];
+    if (typeof value !== "string" || !value.trim()) continue;
+
+    if (field.type === "DATE") {
+      if (/birth|dob/i.test(`${field.id} ${field.label ?? ""}`)) {
+        identity.birthDates.push(value);
+      }
+    } else if (field.type === "TEXT") {
+      const part = NAME_PARTS.find(
+        ([, pattern]) =>
+          pattern.test(field.id) || pattern.test(field.label ?? "")
+      );
+      if (part && !name[part[0]]) name[part[0]] = value.trim();
+    }
+  }
+
+  if (name.full) identity.names.push(name.full);
+  const parts = [name.first, name.middle, name.last].filter(Boolean);
+  if (parts.length > 1) identity.names.push(parts.join(" "));
+  return identity;
+}
+
+/**
+ * Expiry of an application approved now: the level's validity period, cut
+ * short by the earliest document expiry in the submitted data.
+ */
+export async function getKycApprovalExpiry(
+  application: { levelId: string; data: any },
+  approvedAt: Date = new Date()
+): Promise<{ expiresAt: Date | null; documentExpiresAt: Date | null }> {
+  const level = await models.kycLevel.findByPk(application.levelId, {
+    attributes: ["validityDays", "fields"],
+  });
+
+  const documentExpiresAt = extractDocumentExpiry(
+    level?.fields,
+    application.data
+  );
+  let expiresAt = level?.validityDays
+    ? new Date(approvedAt.getTime() + level.validityDays * DAY_MS)
+    : null;
+  if (documentExpiresAt && (!expiresAt || documentExpiresAt < expiresAt)) {
+    expiresAt = documentExpiresAt;
+  }
+  return { expiresAt, documentExpiresAt };
+}
+
+/**
+ * Validity of an approved or expired application. Returns null for
+ * applications that were never approved.
+ */
+export function getKycValidity(
+  application: Pick<
+    kycApplicationAttributes,
+    "status" | "expiresAt" | "documentExpiresAt"
+  >,
+  warningDays: number,
+  now: Date = new Date()
+): KycValidity | null {
+  if (!["APPROVED", "EXPIRED"].includes(application.status)) return null;
+
+  const expiresAt = parseDate(application.expiresAt);
+  const documentExpiresAt = parseDate(application.documentExpiresAt);
+  if (!expiresAt) {
+    return {
+      status: application.status === "EXPIRED" ? "EXPIRED" : "NO_EXPIRY",
+      expiresAt: null,
+      documentExpiresAt,
+      daysRemaining: null,
+    };
+  }
+
+  const remainingMs = expiresAt.getTime() - now.getTime();
+  let status: KycValidityStatus = "VALID";
+  if (application.status === "EXPIRED" || remainingMs <= 0) {
+    status = "EXPIRED";
+  } else if (remainingMs <= warningDays * DAY_MS) {
+    status = "EXPIRING";
+  }
+  return {
+    status,
+    expiresAt,
+    documentExpiresAt,
+    daysRemaining: Math.max(0, Math.ceil(remainingMs / DAY_MS)),
+  };
+}
@@ -0,0 +1,739 @@
+import fs from "fs";
+import * as ccxt from "ccxt";
+import { sleep } from "./system";
+import { logError } from "@b/utils/logger";
+
+export const PAPER_PROVIDER = "paper";
+
+/**
+ * One market in the price feed. Precision values are decimal places and are
+ * exposed as tick sizes, the way ccxt reports them for real venues.
+ */
+export interface PaperMarketConfig {
+  price: number;
+  pricePrecision?: number;
+  amountPrecision?: number;
+  minAmount?: number;
+  minCost?: number;
+  taker?: number;
+  maker?: number;
+}
+
+export interface PaperFeed {
+  markets: Record<string, PaperMarketConfig>;
+  balances?: Record<string, number>;
+}
+
+interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+// Used when APP_PAPER_FEED is not set so a fresh install can demo spot trading
+const DEFAULT_FEED: PaperFeed = {
+  markets: {
+    "BTC/USDT": { price: 60000, pricePrecision: 2, amountPrecision: 6 },
+    "ETH/USDT": { price: 3000, pricePrecision: 2, amountPrecision: 5 },
+    "BNB/USDT": { price: 550, pricePrecision: 2, amountPrecision: 4 },
+  },
+  balances: { USDT: 10000000, BTC: 100, ETH: 1000, BNB: 10000 },
+};
+
+const TIMEFRAME_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  M: 30 * 24 * 60 * 60 * 1000,
+};
+
+const MAX_HISTORY = 10000;
+const ORDER_BOOK_LEVELS = 100;
+// Each synthetic order book level sits this fraction further from the price
+const ORDER_BOOK_STEP = 0.0005;
+
+// Parsed from the exponent so 4 decimals gives 0.0001 rather than 0.00009999...
+function tickSize(decimals: number): number {
+  return Number(`1e-${decimals}`);
+}
+
+export function parseTimeframe(timeframe: string): number {
+  const match = /^(\d+)([mhdwM])$/.exec(timeframe);
+  if (!match) {
+    throw new ccxt.BadRequest(`paper does not support timeframe ${timeframe}`);
+  }
+  return Number(match[1]) * TIMEFRAME_UNITS[match[2]];
+}
+
+/**
+ * A simulated ccxt.pro exchange for staging, demos and tests. Prices come from
+ * a JSON feed file (APP_PAPER_FEED) that is re-read when it changes, or from
+ * setPrice. Market orders fill in full at the feed price and limit orders
+ * fill at their own price once the feed reaches it, so every run with the same
+ * feed produces the same fills. State is kept in memory and resets on restart.
+ */
+export class PaperExchange {
+  readonly id = PAPER_PROVIDER;
+  readonly name = "Paper Trading";
+  readonly has: Record<string, boolean> = {
+    fetchMarkets: true,
+    fetchCurrencies: true,
+    fetchTicker: true,
+    fetchTickers: true,
+    fetchOrderBook: true,
+    fetchOHLCV: true,
+    fetchTrades: true,
+    fetchBalance: true,
+    createOrder: true,
+    cancelOrder: true,
+    fetchOrder: true,
+    fetchOrders: true,
+    fetchOpenOrders: true,
+    fetchClosedOrders: true,
+    watchTicker: true,
+    watchTickers: true,
+    watchOrderBook: true,
+    watchOHLCV: true,
+    watchTrades: true,
+    fetchDepositAddress: false,
+    fetchDeposits: false,
+    fetchWithdrawals: false,
+    withdraw: false,
+  };
+
+  markets: Record<string, any> = {};
+  currencies: Record<string, any> = {};
+  symbols: string[] = [];
+
+  private feed: PaperFeed = { markets: {} };
+  private feedMtime = 0;
+  private feedCheckedAt = 0;
+  private readonly history = new Map<string, PricePoint[]>();
+  private readonly orders = new Map<string, any>();
+  private readonly fills = new Map<string, any[]>();
+  private nextOrderId = 1;
+  private nextTradeId = 1;
+  // Bumped by close so watches that were waiting reject like a dropped socket
+  private connection = 0;
+
+  constructor(
+    private readonly options: {
+      feedPath?: string;
+      feed?: PaperFeed;
+      watchInterval?: number;
+    } = {}
+  ) {
+    if (options.feed) {
+      this.applyFeed(options.feed);
+    }
+  }
+
+  milliseconds(): number {
+    return Date.now();
+  }
+
+  async checkRequiredCredentials(): Promise<boolean> {
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.connection++;
+  }
+
+  // ------------------------------------------------------------------------
+  // Price feed
+  // ------------------------------------------------------------------------
+
+  /**
+   * Moves the feed price for a market and fills any resting orders it crosses
+   */
+  setPrice(symbol: string, price: number, timestamp = Date.now()): void {
+    const market = this.feed.markets[symbol];
+    if (!market) {
+      throw new ccxt.BadSymbol(`paper does not have market symbol ${symbol}`);
+    }
+    if (!(price > 0)) {
+      throw new ccxt.BadRequest(`paper price for ${symbol} must be positive`);
+    }
+    market.price = price;
+    this.recordPrice(symbol, price, timestamp);
+    this.matchOpenOrders(symbol, timestamp);
+  }
+
+  private feedPath(): string | undefined {
+    return this.options.feedPath ?? process.env.APP_PAPER_FEED;
+  }
+
+  // Re-reads the feed file at most once a second and only when it changed
+  private refreshFeed(): void {
+    if (this.options.feed) return;
+
+    const now = Date.now();
+    if (this.feedCheckedAt && now - this.feedCheckedAt < 1000) return;
+    this.feedCheckedAt = now;
+
+    const feedPath = this.feedPath();
+    if (!feedPath) {
+      if (!this.feedMtime) {
+        this.feedMtime = -1;
+        this.applyFeed(structuredClone(DEFAULT_FEED));
+      }
+      return;
+    }
+
+    try {
+      const { mtimeMs } = fs.statSync(feedPath);
+      if (mtimeMs === this.feedMtime) return;
+      const feed = JSON.parse(fs.readFileSync(feedPath, "utf8"));
+      this.applyFeed(feed);
+      this.feedMtime = mtimeMs;
+    } catch (error) {
+      logError("paper-exchange", error, __filename);
+      if (!this.symbols.length) {
+        throw new ccxt.ExchangeNotAvailable(
+          `paper could not read price feed ${feedPath}: ${error.message}`
+        );
+      }
+    }
+  }
+
+  private applyFeed(feed: PaperFeed): void {
+    if (!feed || typeof feed.markets !== "object") {
+      throw new ccxt.BadResponse("paper price feed must contain markets");
+    }
+
+    const previous = this.feed.markets;
+    this.feed = { markets: {}, balances: feed.balances || {} };
+    this.markets = {};
+    this.currencies = {};
+
+    for (const [symbol, config] of Object.entries(feed.markets)) {
+      const [base, quote] = symbol.split("/");
+      const price = Number(config?.price);
+      if (!base || !quote || !(price > 0)) {
+        logError(
+          "paper-exchange",
+          new Error(`Skipping invalid paper market ${symbol}`),
+          __filename
+        );
+        continue;
+      }
+
+      this.feed.markets[symbol] = { ...config, price };
+      this.markets[symbol] = this.buildMarket(symbol, base, quote, config);
+      this.addCurrency(base, config.amountPrecision ?? 8);
+      this.addCurrency(quote, config.pricePrecision ?? 8);
+
+      if (previous[symbol]?.price !== price) {
+        this.recordPrice(symbol, price, Date.now());
+        this.matchOpenOrders(symbol, Date.now());
+      }
+    }
+
+    this.symbols = Object.keys(this.markets);
+  }
+
+  private buildMarket(
+    symbol: string,
+    base: string,
+    quote: string,
+    config: PaperMarketConfig
+  ) {
+    const pricePrecision = config.pricePrecision ?? 2;
+    const amountPrecision = config.amountPrecision ?? 6;
+    const amountTick = tickSize(amountPrecision);
+    return {
+      id: `${base}${quote}`,
+      symbol,
+      base,
+      quote,
+      baseId: base,
+      quoteId: quote,
+      type: "spot",
+      spot: true,
+      active: true,
+      taker: config.taker ?? 0.001,
+      maker: config.maker ?? 0.001,
+      precision: {
+        price: tickSize(pricePrecision),
+        amount: amountTick,
+      },
+      limits: {
+        amount: { min: config.minAmount ?? amountTick, max: null },
+        price: { min: tickSize(pricePrecision), max: null },
+        cost: { min: config.minCost ?? 1, max: null },
+        leverage: {},
+      },
+      info: config,
+    };
+  }
+
+  private addCurrency(code: string, precision: number): void {
+    const existing = this.currencies[code];
+    if (existing && existing.precision >= precision) return;
+    this.currencies[code] = {
+      id: code,
+      code,
+      name: code,
+      active: true,
+      deposit: false,
+      withdraw: false,
+      fee: 0,
+      precision,
+      networks: {},
+      info: {},
+    };
+  }
+
+  private recordPrice(symbol: string, price: number, timestamp: number): void {
+    const points = this.history.get(symbol) || [];
+    points.push({ timestamp, price });
+    if (points.length > MAX_HISTORY) {
+      points.splice(0, points.length - MAX_HISTORY);
+    }
+    this.history.set(symbol, points);
+  }
+
+  private market(symbol: string) {
+    this.refreshFeed();
+    const market = this.markets[symbol];
+    if (!market) {
+      throw new ccxt.BadSymbol(`paper does not have market symbol ${symbol}`);
+    }
+    return market;
+  }
+
+  private price(symbol: string): number {
+    this.market(symbol);
+    return this.feed.markets[symbol].price;
+  }
+
+  // ------------------------------------------------------------------------
+  // Market data
+  // ------------------------------------------------------------------------
+
+  async loadMarkets(reload = false): Promise<Record<string, any>> {
+    if (reload) {
+      this.feedCheckedAt = 0;
+      this.feedMtime = 0;
+    }
+    this.refreshFeed();
+    return this.markets;
+  }
+
+  async fetchMarkets(): Promise<any[]> {
+    return Object.values(await this.loadMarkets());
+  }
+
+  async fetchCurrencies(): Promise<Record<string, any>> {
+    await this.loadMarkets();
+    return this.currencies;
+  }
+
+  async fetchTicker(symbol: string): Promise<any> {
+    const price = this.price(symbol);
+    const now = Date.now();
+    const dayAgo = now - TIMEFRAME_UNITS.d;
+    const points = (this.history.get(symbol) || []).filter(
+      (point) => point.timestamp >= dayAgo
+    );
+    const open = this.priceAt(symbol, dayAgo);
+    const prices = [open, ...points.map((point) => point.price)];
+    const volume = (this.fills.get(symbol) || [])
+      .filter((trade) => trade.timestamp >= dayAgo)
+      .reduce((sum, trade) => sum + trade.amount, 0);
+    const [bid, ask] = this.topOfBook(symbol, price);
+
+    return {
+      symbol,
+      timestamp: now,
+      datetime: new Date(now).toISOString(),
+      high: Math.max(...prices),
+      low: Math.min(...prices),
+      bid,
+      ask,
+      open,
+      close: price,
+      last: price,
+      change: price - open,
+      percentage: open ? ((price - open) / open) * 100 : 0,
+      baseVolume: volume,
+      quoteVolume: volume * price,
+      info: {},
+    };
+  }
+
+  async fetchTickers(symbols?: string[]): Promise<Record<string, any>> {
+    this.refreshFeed();
+    const tickers: Record<string, any> = {};
+    for (const symbol of symbols || this.symbols) {
+      if (this.markets[symbol]) {
+        tickers[symbol] = await this.fetchTicker(symbol);
+      }
+    }
+    return tickers;
+  }
+
+  private topOfBook(symbol: string, price: number): [number, number] {
+    const tick = this.markets[symbol].precision.price;
+    const offset = Math.max(price * ORDER_BOOK_STEP, tick);
+    return [
+      this.roundPrice(symbol, price - offset),
+      this.roundPrice(symbol, price + offset),
+    ];
+  }
+
+  private roundPrice(symbol: string, price: number): number {
+    const decimals = this.feed.markets[symbol].pricePrecision ?? 2;
+    return Number(price.toFixed(decimals));
+  }
+
+  /**
+   * Synthetic book around the feed price with a fixed, shrinking size per level
+   */
+  async fetchOrderBook(symbol: string, limit = 50): Promise<any> {
+    const price = this.price(symbol);
+    const market = this.markets[symbol];
+    const levels = Math.min(
+      Math.max(Number(limit) || 50, 1),
+      ORDER_BOOK_LEVELS
+    );
+    const baseSize =
+      Math.max(market.limits.cost.min / price, market.limits.amount.min) * 100;
+    const amountDecimals = this.feed.markets[symbol].amountPrecision ?? 6;
+
+    const bids: [number, number][] = [];
+    const asks: [number, number][] = [];
+    for (let level = 1; level <= levels; level++) {
+      const size = Number((baseSize / level).toFixed(amountDecimals));
+      bids.push([
+        this.roundPrice(symbol, price * (1 - level * ORDER_BOOK_STEP)),
+        size,
+      ]);
+      asks.push([
+        this.roundPrice(symbol, price * (1 + level * ORDER_BOOK_STEP)),
+        size,
+      ]);
+    }
+
+    const now = Date.now();
+    return {
+      symbol,
+      bids,
+      asks,
+      timestamp: now,
+      datetime: new Date(now).toISOString(),
+      nonce: now,
+    };
+  }
+
+  // The price in effect at a moment, taking the first known price before that
+  private priceAt(symbol: string, timestamp: number): number {
+    const points = this.history.get(symbol) || [];
+    let price = points[0]?.price ?? this.feed.markets[symbol].price;
+    for (const point of points) {
+      if (point.timestamp > timestamp) break;
+      price = point.price;
+    }
+    return price;
+  }
+
+  /**
+   * Candles built from the recorded feed prices, with volume from paper fills
+   */
+  async fetchOHLCV(
+    symbol: string,
+    timeframe = "1m",
+    since?: number,
+    limit = 500,
+    params: { until?: number } = {}
+  ): Promise<number[][]> {
+    this.market(symbol);
+    const duration = parseTimeframe(timeframe);
+    const now = Date.now();
+    const until = Math.min(params.until ?? now, now);
+    const count = Math.max(Number(limit) || 500, 1);
+    let start =
+      since !== undefined
+        ? Math.floor(since / duration) * duration
+        : Math.floor(until / duration) * duration - (count - 1) * duration;
+
+    const points = this.history.get(symbol) || [];
+    const trades = this.fills.get(symbol) || [];
+    const candles: number[][] = [];
+    for (; start <= until && candles.length < count; start += duration) {
+      const end = start + duration;
+      const open = this.priceAt(symbol, start);
+      const inside = points
+        .filter((point) => point.timestamp > start && point.timestamp < end)
+        .map((point) => point.price);
+      const close = inside.length ? inside[inside.length - 1] : open;
+      const volume = trades
+        .filter((trade) => trade.timestamp >= start && trade.timestamp < end)
+        .reduce((sum, trade) => sum + trade.amount, 0);
+      candles.push([
+        start,
+        open,
+        Math.max(open, ...inside),
+        Math.min(open, ...inside),
+        close,
+        volume,
+      ]);
+    }
+    return candles;
+  }
+
+  async fetchTrades(
+    symbol: string,
+    since?: number,
+    limit = 50
+  ): Promise<any[]> {
+    this.market(symbol);
+    return (this.fills.get(symbol) || [])
+      .filter((trade) => since === undefined || trade.timestamp >= since)
+      .slice(-limit)
+      .map((trade) => ({ ...trade, order: undefined }));
+  }
+
+  async fetchBalance(): Promise<any> {
+    this.refreshFeed();
+    const balance: any = { info: {}, free: {}, used: {}, total: {} };
+    for (const [code, amount] of Object.entries(this.feed.balances || {})) {
+      balance[code] = { free: amount, used: 0, total: amount };
+      balance.free[code] = amount;
+      balance.used[code] = 0;
+      balance.total[code] = amount;
+    }
+    return balance;
+  }
+
+  // ------------------------------------------------------------------------
+  // Orders
+  // ------------------------------------------------------------------------
+
+  async createOrder(
+    symbol: string,
+    type: string,
+    side: string,
+    amount: number,
+    price?: number,
+    params: { clientOrderId?: string } = {}
+  ): Promise<any> {
+    const market = this.market(symbol);
+    const orderType = String(type).toLowerCase();
+    const orderSide = String(side).toLowerCase();
+    if (!["market", "limit"].includes(orderType)) {
+      throw new ccxt.InvalidOrder(`paper does not support ${type} orders`);
+    }
+    if (!["buy", "sell"].includes(orderSide)) {
+      throw new ccxt.InvalidOrder(`paper order side must be buy or sell`);
+    }
+    if (!(Number(amount) >= market.limits.amount.min)) {
+      throw new ccxt.InvalidOrder(
+        `paper amount of ${symbol} must be at least ${market.limits.amount.min}`
+      );
+    }
+    if (orderType === "limit" && !(Number(price) > 0)) {
+      throw new ccxt.InvalidOrder(`paper limit orders require a price`);
+    }
+
+    const now = Date.now();
+    const id = String(this.nextOrderId++);
+    const order = {
+      id,
+      clientOrderId: params.clientOrderId,
+      symbol,
+      type: orderType,
+      side: orderSide,
+      price: orderType === "limit" ? Number(price) : this.price(symbol),
+      average: undefined as number | undefined,
+      amount: Number(amount),
+      filled: 0,
+      remaining: Number(amount),
+      cost: 0,
+      status: "open",
+      timeInForce: "GTC",
+      timestamp: now,
+      datetime: new Date(now).toISOString(),
+      lastTradeTimestamp: undefined as number | undefined,
+      fee: { cost: 0, currency: market.quote },
+      trades: [] as any[],
+      info: {},
+    };
+    this.orders.set(id, order);
+
+    if (orderType === "market" || this.crosses(order, this.price(symbol))) {
+      this.fill(order, now);
+    }
+
+    return this.copy(order);
+  }
+
+  private crosses(order: any, price: number): boolean {
+    return order.side === "buy" ? price <= order.price : price >= order.price;
+  }
+
+  // Fills the whole remaining amount at the order price
+  private fill(order: any, timestamp: number): void {
+    const amount = order.remaining;
+    const cost = amount * order.price;
+    const trade = {
+      id: String(this.nextTradeId++),
+      order: order.id,
+      symbol: order.symbol,
+      type: order.type,
+      side: order.side,
+      takerOrMaker: order.type === "market" ? "taker" : "maker",
+      price: order.price,
+      amount,
+      cost,
+      timestamp,
+      datetime: new Date(timestamp).toISOString(),
+      fee: { cost: 0, currency: order.fee.currency },
+      info: {},
+    };
+
+    order.trades.push(trade);
+    order.filled += amount;
+    order.remaining = 0;
+    order.cost += cost;
+    order.average = order.cost / order.filled;
+    order.status = "closed";
+    order.lastTradeTimestamp = timestamp;
+
+    const trades = this.fills.get(order.symbol) || [];
+    trades.push(trade);
+    if (trades.length > MAX_HISTORY) {
+      trades.splice(0, trades.length - MAX_HISTORY);
+    }
+    this.fills.set(order.symbol, trades);
+  }
+
+  private matchOpenOrders(symbol: string, timestamp: number): void {
+    const price = this.feed.markets[symbol]?.price;
+    if (!price) return;
+    for (const order of this.orders.values()) {
+      if (
+        order.symbol === symbol &&
+        order.status === "open" &&
+        this.crosses(order, price)
+      ) {
+        this.fill(order, timestamp);
+      }
+    }
+  }
+
+  private copy(order: any): any {
+    return {
+      ...order,
+      fee: { ...order.fee },
+      trades: order.trades.map((trade) => ({ ...trade })),
+    };
+  }
+
+  private findOrder(id: string | number, symbol?: string): any {
+    this.refreshFeed();
+    const order = this.orders.get(String(id));
+    if (!order || (symbol && order.symbol !== symbol)) {
+      throw new ccxt.OrderNotFound(`paper order ${id} not found`);
+    }
+    return order;
+  }
+
+  async fetchOrder(id: string | number, symbol?: string): Promise<any> {
+    return this.copy(this.findOrder(id, symbol));
+  }
+
+  async fetchOrders(
+    symbol?: string,
+    since?: number,
+    limit?: number
+  ): Promise<any[]> {
+    this.refreshFeed();
+    const orders = [...this.orders.values()].filter(
+      (order) =>
+        (!symbol || order.symbol === symbol) &&
+        (since === undefined || order.timestamp >= since)
+    );
+    return (limit ? orders.slice(-limit) : orders).map((order) =>
+      this.copy(order)
+    );
+  }
+
+  async fetchOpenOrders(
+    symbol?: string,
+    since?: number,
+    limit?: number
+  ): Promise<any[]> {
+    return (await this.fetchOrders(symbol, since, limit)).filter(
+      (order) => order.status === "open"
+    );
+  }
+
+  async fetchClosedOrders(
+    symbol?: string,
+    since?: number,
+    limit?: number
+  ): Promise<any[]> {
+    return (await this.fetchOrders(symbol, since, limit)).filter(
+      (order) => order.status !== "open"
+    );
+  }
+
+  async cancelOrder(id: string | number, symbol?: string): Promise<any> {
+    const order = this.findOrder(id, symbol);
+    if (order.status !== "open") {
+      throw new ccxt.OrderNotFound(
+        `paper order ${id} is already ${order.status}`
+      );
+    }
+    order.status = "canceled";
+    return this.copy(order);
+  }
+
+  // ------------------------------------------------------------------------
+  // Streams: ccxt.pro resolves on the next update, the paper venue on a timer
+  // ------------------------------------------------------------------------
+
+  private async nextTick(): Promise<void> {
+    const connection = this.connection;
+    await sleep(this.options.watchInterval ?? 1000);
+    if (connection !== this.connection) {
+      throw new ccxt.ExchangeClosedByUser("paper connection closed by user");
+    }
+  }
+
+  async watchTicker(symbol: string): Promise<any> {
+    await this.nextTick();
+    return this.fetchTicker(symbol);
+  }
+
+  async watchTickers(symbols?: string[]): Promise<Record<string, any>> {
+    await this.nextTick();
+    return this.fetchTickers(symbols);
+  }
+
+  async watchOrderBook(symbol: string, limit?: number): Promise<any> {
+    await this.nextTick();
+    return this.fetchOrderBook(symbol, limit);
+  }
+
+  async watchOHLCV(
+    symbol: string,
+    timeframe = "1m",
+    since?: number,
+    limit = 1
+  ): Promise<number[][]> {
+    await this.nextTick();
+    return this.fetchOHLCV(symbol, timeframe, since, limit);
+  }
+
+  async watchTrades(
+    symbol: string,
+    since?: number,
+    limit?: number
+  ): Promise<any[]> {
+    await this.nextTick();
+    return this.fetchTrades(symbol, since, limit);
+  }
+}
@@ -0,0 +1,304 @@
+import crypto from "crypto";
+import { models } from "@b/db";
+import { createError } from "./error";
+import { RedisSingleton } from "./redis";
+import {
+  COSE_ALGORITHMS,
+  generateChallenge,
+  getRelyingParty,
+  toBase64Url,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  WebAuthnCredentialJSON,
+} from "./webauthn";
+import { encrypt, generateRecoveryCodes } from "@b/api/auth/otp/utils";
+
+const redis = RedisSingleton.getInstance();
+
+const CHALLENGE_TTL_SECONDS = 300;
+// How long a passkey confirmation unlocks sensitive actions for a session
+export const PASSKEY_CONFIRMATION_TTL_SECONDS = 300;
+const MAX_CREDENTIAL_ID_LENGTH = 512;
+
+/**
+ * What a challenge was issued for. Passwordless logins require user
+ * verification on the authenticator, since the passkey is the only factor.
+ */
+type ChallengePurpose = "register" | "login" | "2fa" | "confirm";
+
+interface ChallengeRecord {
+  purpose: ChallengePurpose;
+  userId?: string;
+}
+
+const challengeKey = (challenge: string) => `passkey:challenge:${challenge}`;
+const confirmationKey = (userId: string, sessionId?: string) =>
+  `passkey:confirmed:${userId}:${sessionId || "none"}`;
+
+export const isPasskeyEnabled = () =>
+  process.env.NEXT_PUBLIC_PASSKEY_STATUS === "true";
+
+export function assertPasskeysEnabled() {
+  if (!isPasskeyEnabled()) {
+    throw createError({ statusCode: 400, message: "Passkeys are not enabled" });
+  }
+}
+
+async function issueChallenge(record: ChallengeRecord): Promise<string> {
+  const challenge = generateChallenge();
+  await redis.set(
+    challengeKey(challenge),
+    JSON.stringify(record),
+    "EX",
+    CHALLENGE_TTL_SECONDS
+  );
+  return challenge;
+}
+
+/**
+ * Reads the challenge a response was signed over and consumes it, so each
+ * challenge can be answered only once.
+ */
+async function consumeChallenge(
+  credential: WebAuthnCredentialJSON,
+  purposes: ChallengePurpose[]
+): Promise<{ challenge: string; record: ChallengeRecord }> {
+  let challenge: string | undefined;
+  try {
+    const clientData = JSON.parse(
+      Buffer.from(credential.response.clientDataJSON, "base64url").toString(
+        "utf8"
+      )
+    );
+    challenge = clientData.challenge;
+  } catch {
+    challenge = undefined;
+  }
+  if (typeof challenge !== "string" || !challenge) {
+    throw createError({ statusCode: 400, message: "Invalid passkey response" });
+  }
+
+  // Only the request that deletes the challenge may use it
+  const key = challengeKey(challenge);
+  const raw = await redis.get(key);
+  const deleted = raw ? await redis.del(key) : 0;
+  const record: ChallengeRecord | null = deleted ? JSON.parse(raw!) : null;
+  if (!record || !purposes.includes(record.purpose)) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey challenge has expired, please try again",
+    });
+  }
+  return { challenge, record };
+}
+
+function toDescriptor(credential: webAuthnCredentialAttributes) {
+  return {
+    type: "public-key",
+    id: credential.credentialId,
+    ...(credential.transports?.length
+      ? { transports: credential.transports }
+      : {}),
+  };
+}
+
+export async function getUserPasskeys(userId: string) {
+  return models.webAuthnCredential.findAll({
+    where: { userId },
+    order: [["createdAt", "ASC"]],
+  });
+}
+
+export async function userHasPasskeys(userId: string): Promise<boolean> {
+  return (await models.webAuthnCredential.count({ where: { userId } })) > 0;
+}
+
+/** Options for navigator.credentials.create() to add a passkey. */
+export async function createRegistrationOptions(user: {
+  id: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}) {
+  const existing = await getUserPasskeys(user.id);
+  const challenge = await issueChallenge({
+    purpose: "register",
+    userId: user.id,
+  });
+  const displayName =
+    [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+    user.email ||
+    user.id;
+
+  return {
+    challenge,
+    rp: getRelyingParty(),
+    user: {
+      id: toBase64Url(Buffer.from(user.id)),
+      name: user.email || user.id,
+      displayName,
+    },
+    pubKeyCredParams: Object.values(COSE_ALGORITHMS).map((alg) => ({
+      type: "public-key",
+      alg,
+    })),
+    timeout: CHALLENGE_TTL_SECONDS * 1000,
+    attestation: "none",
+    authenticatorSelection: {
+      residentKey: "preferred",
+      userVerification: "preferred",
+    },
+    excludeCredentials: existing.map(toDescriptor),
+  };
+}
+
+/**
+ * Verifies and stores a new passkey. A user's first passkey also gets
+ * recovery codes if they have none yet, so a lost device never locks them
+ * out; the codes are returned once and only their list is stored.
+ */
+export async function registerPasskey(
+  userId: string,
+  credential: WebAuthnCredentialJSON,
+  name?: string
+) {
+  const { challenge, record } = await consumeChallenge(credential, [
+    "register",
+  ]);
+  if (record.userId !== userId) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey challenge has expired, please try again",
+    });
+  }
+
+  const verified = verifyRegistrationResponse(credential, challenge);
+  if (verified.credentialId.length > MAX_CREDENTIAL_ID_LENGTH) {
+    throw createError({
+      statusCode: 400,
+      message: "This authenticator is not supported",
+    });
+  }
+  if (
+    await models.webAuthnCredential.findOne({
+      where: { credentialId: verified.credentialId },
+    })
+  ) {
+    throw createError({
+      statusCode: 409,
+      message: "This passkey is already registered",
+    });
+  }
+
+  const count = await models.webAuthnCredential.count({ where: { userId } });
+  const passkey = await models.webAuthnCredential.create({
+    userId,
+    name: name?.trim().slice(0, 191) || `Passkey ${count + 1}`,
+    credentialId: verified.credentialId,
+    publicKey: verified.publicKey,
+    algorithm: verified.algorithm,
+    counter: verified.counter,
+    transports: verified.transports,
+  });
+
+  let recoveryCodes: string[] | undefined;
+  const twoFactor = await models.twoFactor.findOne({ where: { userId } });
+  if (!twoFactor?.recoveryCodes) {
+    recoveryCodes = generateRecoveryCodes();
+    if (twoFactor) {
+      await twoFactor.update({
+        recoveryCodes: JSON.stringify(recoveryCodes),
+      });
+    } else {
+      // Holds the recovery codes until the user turns on two-factor login
+      await models.twoFactor.create({
+        userId,
+        type: "PASSKEY",
+        secret: encrypt(crypto.randomBytes(20).toString("hex")),
+        enabled: false,
+        recoveryCodes: JSON.stringify(recoveryCodes),
+      });
+    }
+  }
+
+  return { passkey, recoveryCodes };
+}
+
+/**
+ * Options for navigator.credentials.get(). With a user the allowed
+ * credentials are listed and the answer must come from one of them;
+ * without one the browser offers the site's discoverable passkeys.
+ */
+export async function createAuthenticationOptions(
+  purpose: Exclude<ChallengePurpose, "register">,
+  userId?: string
+) {
+  const challenge = await issueChallenge({ purpose, userId });
+  const allowCredentials = userId
+    ? (await getUserPasskeys(userId)).map(toDescriptor)
+    : [];
+
+  return {
+    challenge,
+    rpId: getRelyingParty().id,
+    timeout: CHALLENGE_TTL_SECONDS * 1000,
+    userVerification: purpose === "login" ? "required" : "preferred",
+    ...(allowCredentials.length ? { allowCredentials } : {}),
+  };
+}
+
+/**
+ * Verifies a passkey assertion for one of the given purposes and returns
+ * the credential used, whose userId identifies the user. When the
+ * challenge was issued to a user, or a userId is given, the passkey must
+ * belong to that user.
+ */
+export async function verifyPasskeyAssertion(
+  credential: WebAuthnCredentialJSON,
+  purposes: Exclude<ChallengePurpose, "register">[],
+  userId?: string
+) {
+  const { challenge, record } = await consumeChallenge(credential, purposes);
+  if (userId && record.userId !== userId) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey challenge has expired, please try again",
+    });
+  }
+
+  const passkey = await models.webAuthnCredential.findOne({
+    where: {
+      credentialId: credential.id,
+      ...(record.userId && { userId: record.userId }),
+    },
+  });
+  if (!passkey) {
+    throw createError({ statusCode: 401, message: "Passkey not recognized" });
+  }
+
+  const counter = verifyAuthenticationResponse(
+    credential,
+    passkey,
+    challenge,
+    record.purpose === "login"
+  );
+  await passkey.update({ counter, lastUsedAt: new Date() });
+  return { passkey, purpose: record.purpose };
+}
+
+/** Unlocks actions that require a passkey for the session for a while. */
+export async function markPasskeyConfirmed(userId: string, sessionId?: string) {
+  await redis.set(
+    confirmationKey(userId, sessionId),
+    Date.now().toString(),
+    "EX",
+    PASSKEY_CONFIRMATION_TTL_SECONDS
+  );
+}
+
+export async function hasPasskeyConfirmation(
+  userId: string,
+  sessionId?: string
+): Promise<boolean> {
+  return Boolean(await redis.get(confirmationKey(userId, sessionId)));
+}
@@ -0,0 +1,724 @@
+import { models, sequelize } from "@b/db";
+import { Op, Transaction } from "sequelize";
+import { CacheManager } from "./cache";
+import { createError } from "./error";
+import { extractKycIdentity } from "./kyc";
+
+export type WatchlistSource = kycWatchlistAttributes["source"];
+export type ScreeningTrigger = kycScreeningMatchAttributes["trigger"];
+
+export const WATCHLIST_SOURCES: WatchlistSource[] = ["OFAC", "EU", "UN"];
+
+// Scores run from 0 to 100 and can be tuned in the settings of the same name
+const DEFAULT_MATCH_THRESHOLD = 85;
+const DEFAULT_HOLD_THRESHOLD = 92;
+// A single word matching a longer name, such as a first name, is weak
+const SINGLE_WORD_FACTOR = 0.8;
+const BIRTH_DATE_MATCH_BONUS = 5;
+// Listed dates are often approximate, so a mismatch lowers the score
+// instead of ruling the entry out
+const BIRTH_DATE_MISMATCH_PENALTY = 15;
+const ENTRY_IMPORT_BATCH = 1000;
+
+const HOLD_REASON = "Sanctions screening match pending compliance review";
+const CONFIRMED_HOLD_REASON = "Confirmed sanctions screening match";
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+export interface WatchlistEntryInput {
+  externalId: string;
+  type: "INDIVIDUAL" | "ENTITY";
+  name: string;
+  aliases: string[];
+  birthDates: string[];
+  nationalities: string[];
+  programs: string[];
+  remarks?: string | null;
+}
+
+export interface ScreeningSubject {
+  names: string[];
+  birthDates: string[];
+}
+
+interface IndexedEntry extends kycScreeningMatchEntry {
+  id: string;
+  source: WatchlistSource;
+  externalId: string;
+  names: { name: string; tokens: string[] }[];
+}
+
+export interface WatchlistIndex {
+  entries: IndexedEntry[];
+  // Blocking key to entry positions, so a search only scores entries that
+  // share a word prefix or suffix with the screened name
+  keys: Map<string, number[]>;
+}
+
+export interface WatchlistHit {
+  entry: IndexedEntry;
+  screenedName: string;
+  matchedName: string;
+  score: number;
+  birthDateMatched: boolean | null;
+}
+
+export interface ScreeningResult {
+  matches: kycScreeningMatchAttributes[];
+  held: boolean;
+}
+
+/** Lower case letters and digits only, with accents and punctuation removed. */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function nameTokens(name: string): string[] {
+  const normalized = normalizeName(name);
+  return normalized ? normalized.split(" ") : [];
+}
+
+/** Jaro-Winkler similarity of two strings, from 0 to 1. */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const range = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(i + range + 1, b.length);
+    for (let j = Math.max(0, i - range); j < end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (!matches) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro =
+    (matches / a.length +
+      matches / b.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Similarity of two tokenised names from 0 to 100, ignoring word order. Each
+ * word of the shorter name is paired with the closest unused word of the
+ * longer one, so a listed name with extra middle names still matches.
+ */
+export function scoreNames(a: string[], b: string[]): number {
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (!short.length) return 0;
+
+  const unused = [...long];
+  let total = 0;
+  for (const token of short) {
+    let best = 0;
+    let bestIndex = -1;
+    unused.forEach((candidate, index) => {
+      const similarity = jaroWinkler(token, candidate);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) unused.splice(bestIndex, 1);
+    total += best;
+  }
+
+  let score = total / short.length;
+  if (short.length === 1 && long.length > 1) score *= SINGLE_WORD_FACTOR;
+  return Math.round(score * 10000) / 100;
+}
+
+const pad = (value: string) => value.padStart(2, "0");
+
+/**
+ * Normalises a listed or submitted date of birth to YYYY-MM-DD, YYYY-MM or
+ * YYYY, keeping only the precision the source gives. A range of years
+ * expands to every year in it.
+ */
+export function normalizeBirthDate(value: any): string[] {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? [] : [value.toISOString().slice(0, 10)];
+  }
+  if (typeof value !== "string") return [];
+  const text = value.trim().toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/(\d{4})\s*(?:to|-|–)\s*(\d{4})\b/))) {
+    const [from, to] = [Number(match[1]), Number(match[2])];
+    if (to >= from && to - from <= 10) {
+      return Array.from({ length: to - from + 1 }, (_, i) => String(from + i));
+    }
+  }
+  if ((match = text.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?/))) {
+    if (match[2] === "00") return [match[1]];
+    if (!match[3] || match[3] === "00") return [`${match[1]}-${match[2]}`];
+    return [`${match[1]}-${match[2]}-${match[3]}`];
+  }
+  if ((match = text.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/))) {
+    return [`${match[3]}-${pad(match[2])}-${pad(match[1])}`];
+  }
+  if (
+    (match = text.match(/^(?:(\d{1,2})\s+)?([a-z]{3})[a-z]*\.?\s+(\d{4})$/))
+  ) {
+    const month = MONTHS.indexOf(match[2]) + 1;
+    if (month) {
+      const yearMonth = `${match[3]}-${pad(String(month))}`;
+      return [match[1] ? `${yearMonth}-${pad(match[1])}` : yearMonth];
+    }
+  }
+  if ((match = text.match(/\b(\d{4})\b/))) return [match[1]];
+  return [];
+}
+
+/**
+ * Whether normalised dates of birth agree at the precision both sides give,
+ * or null when either side has none.
+ */
+export function compareBirthDates(
+  subject: string[],
+  listed: string[]
+): boolean | null {
+  if (!subject.length || !listed.length) return null;
+  return subject.some((a) =>
+    listed.some((b) => a.startsWith(b) || b.startsWith(a))
+  );
+}
+
+function blockingKeys(tokens: string[]): string[] {
+  return tokens
+    .filter((token) => token.length > 1)
+    .flatMap((token) => [`p:${token.slice(0, 3)}`, `s:${token.slice(-3)}`]);
+}
+
+// JSON columns come back as strings from some drivers
+function parseList(value: any): string[] {
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value)
+    ? value.filter((item) => typeof item === "string")
+    : [];
+}
+
+export function buildWatchlistIndex(
+  entries: kycWatchlistEntryAttributes[]
+): WatchlistIndex {
+  const index: WatchlistIndex = { entries: [], keys: new Map() };
+
+  for (const entry of entries) {
+    const aliases = parseList(entry.aliases);
+    const names = [entry.name, ...aliases]
+      .map((name) => ({ name, tokens: nameTokens(name) }))
+      .filter((name) => name.tokens.length);
+    if (!names.length) continue;
+
+    const position =
+      index.entries.push({
+        id: entry.id,
+        source: entry.source,
+        externalId: entry.externalId,
+        type: entry.type,
+        name: entry.name,
+        aliases,
+        birthDates: parseList(entry.birthDates).flatMap(normalizeBirthDate),
+        nationalities: parseList(entry.nationalities),
+        programs: parseList(entry.programs),
+        remarks: entry.remarks ?? null,
+        names,
+      }) - 1;
+
+    for (const key of new Set(
+      names.flatMap((name) => blockingKeys(name.tokens))
+    )) {
+      const bucket = index.keys.get(key);
+      if (bucket) bucket.push(position);
+      else index.keys.set(key, [position]);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Entries whose name or an alias matches one of the subject's names at or
+ * above the threshold, best first, with each entry reported once under its
+ * best scoring name.
+ */
+export function searchWatchlistIndex(
+  index: WatchlistIndex,
+  subject: ScreeningSubject,
+  threshold: number
+): WatchlistHit[] {
+  const birthDates = subject.birthDates.flatMap(normalizeBirthDate);
+  const best = new Map<number, WatchlistHit>();
+
+  for (const screenedName of subject.names) {
+    const tokens = nameTokens(screenedName);
+    const candidates = new Set<number>();
+    for (const key of blockingKeys(tokens)) {
+      index.keys.get(key)?.forEach((position) => candidates.add(position));
+    }
+
+    for (const position of candidates) {
+      const entry = index.entries[position];
+      const birthDateMatched =
+        entry.type === "INDIVIDUAL"
+          ? compareBirthDates(birthDates, entry.birthDates)
+          : null;
+
+      for (const name of entry.names) {
+        let score = scoreNames(tokens, name.tokens);
+        if (birthDateMatched === true) {
+          score = Math.min(100, score + BIRTH_DATE_MATCH_BONUS);
+        } else if (birthDateMatched === false) {
+          score = Math.max(0, score - BIRTH_DATE_MISMATCH_PENALTY);
+        }
+        if (score < threshold || score <= (best.get(position)?.score ?? -1)) {
+          continue;
+        }
+        best.set(position, {
+          entry,
+          screenedName,
+          matchedName: name.name,
+          score,
+          birthDateMatched,
+        });
+      }
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+let cachedIndex: { version: string; index: WatchlistIndex } | null = null;
+
+/**
+ * In-memory index of the active watchlists, rebuilt whenever the set of
+ * active imports changes.
+ */
+export async function getWatchlistIndex(): Promise<WatchlistIndex> {
+  const lists = await models.kycWatchlist.findAll({
+    where: { status: "ACTIVE" },
+    attributes: ["id"],
+    order: [["id", "ASC"]],
+  });
+  const ids = lists.map((list) => list.id);
+  const version = ids.join(",");
+  if (cachedIndex && cachedIndex.version === version) return cachedIndex.index;
+
+  const entries = ids.length
+    ? await models.kycWatchlistEntry.findAll({
+        where: { watchlistId: ids },
+        raw: true,
+      })
+    : [];
+  cachedIndex = { version, index: buildWatchlistIndex(entries) };
+  return cachedIndex.index;
+}
+
+async function getScoreSetting(key: string, fallback: number) {
+  const value = parseFloat(await CacheManager.getInstance().getSetting(key));
+  return Number.isFinite(value) && value >= 0 && value <= 100
+    ? value
+    : fallback;
+}
+
+/**
+ * Lowest score that is queued for review and lowest score that also holds
+ * the account, from the "sanctionsMatchThreshold" and
+ * "sanctionsHoldThreshold" settings.
+ */
+export async function getScreeningThresholds() {
+  return {
+    match: await getScoreSetting(
+      "sanctionsMatchThreshold",
+      DEFAULT_MATCH_THRESHOLD
+    ),
+    hold: await getScoreSetting(
+      "sanctionsHoldThreshold",
+      DEFAULT_HOLD_THRESHOLD
+    ),
+  };
+}
+
+/**
+ * Names and dates of birth to screen a user under: the account name and
+ * whatever their KYC applications declare.
+ */
+export async function getScreeningSubject(
+  userId: string
+): Promise<ScreeningSubject | null> {
+  const user = await models.user.findByPk(userId, {
+    attributes: ["id", "firstName", "lastName"],
+  });
+  if (!user) return null;
+
+  const names = [[user.firstName, user.lastName].filter(Boolean).join(" ")];
+  const birthDates: string[] = [];
+
+  const applications = await models.kycApplication.findAll({
+    where: { userId, status: { [Op.ne]: "REJECTED" } },
+    attributes: ["id", "data"],
+    include: [{ model: models.kycLevel, as: "level", attributes: ["fields"] }],
+  });
+  for (const application of applications as any[]) {
+    const identity = extractKycIdentity(
+      application.level?.fields,
+      application.data
+    );
+    names.push(...identity.names);
+    birthDates.push(...identity.birthDates);
+  }
+
+  const seen = new Set<string>();
+  return {
+    names: names.filter((name) => {
+      const normalized = normalizeName(name);
+      if (!normalized || seen.has(normalized)) return false;
+      seen.add(normalized);
+      return true;
+    }),
+    birthDates,
+  };
+}
+
+/**
+ * Holds an account for sanctions review with a permanent user block, reusing
+ * the screening hold already in place. Suspending the user also ends their
+ * sessions.
+ */
+async function placeScreeningHold(
+  userId: string,
+  transaction?: Transaction
+): Promise<string> {
+  const held = await models.kycScreeningMatch.findOne({
+    where: {
+      userId,
+      holdId: { [Op.ne]: null },
+      status: { [Op.in]: ["PENDING", "ACCEPTED"] },
+    },
+    include: [
+      {
+        model: models.userBlock,
+        as: "hold",
+        where: { isActive: true },
+        attributes: ["id"],
+      },
+    ],
+    transaction,
+  });
+  if (held) return held.holdId;
+
+  const hold = await models.userBlock.create(
+    {
+      userId,
+      adminId: null,
+      reason: HOLD_REASON,
+      isTemporary: false,
+      isActive: true,
+    },
+    { transaction }
+  );
+  await models.user.update(
+    { status: "SUSPENDED" },
+    { where: { id: userId, status: { [Op.ne]: "BANNED" } }, transaction }
+  );
+  return hold.id;
+}
+
+/**
+ * Lifts a screening hold once no other pending or accepted match relies on
+ * it, reactivating the account unless another block is still active.
+ */
+async function releaseScreeningHold(
+  match: kycScreeningMatchAttributes,
+  transaction: Transaction
+) {
+  const open = await models.kycScreeningMatch.findOne({
+    where: {
+      holdId: match.holdId,
+      id: { [Op.ne]: match.id },
+      status: { [Op.in]: ["PENDING", "ACCEPTED"] },
+    },
+    transaction,
+  });
+  if (open) return;
+
+  await models.userBlock.update(
+    { isActive: false },
+    { where: { id: match.holdId }, transaction }
+  );
+  const otherBlock = await models.userBlock.findOne({
+    where: { userId: match.userId, isActive: true },
+    transaction,
+  });
+  if (!otherBlock) {
+    await models.user.update(
+      { status: "ACTIVE" },
+      { where: { id: match.userId, status: "SUSPENDED" }, transaction }
+    );
+  }
+}
+
+/**
+ * Screens a user against the active watchlists. New matches go to the review
+ * queue, and one scoring at or above the hold threshold also holds the
+ * account. Entries already matched for the user are not raised again, so a
+ * dismissed false positive stays dismissed across rescans.
+ */
+export async function screenUser(
+  userId: string,
+  trigger: ScreeningTrigger,
+  options: { applicationId?: string; index?: WatchlistIndex } = {}
+): Promise<ScreeningResult> {
+  const none: ScreeningResult = { matches: [], held: false };
+
+  const index = options.index ?? (await getWatchlistIndex());
+  if (!index.entries.length) return none;
+
+  const subject = await getScreeningSubject(userId);
+  if (!subject?.names.length) return none;
+
+  const thresholds = await getScreeningThresholds();
+  const hits = searchWatchlistIndex(index, subject, thresholds.match);
+  if (!hits.length) return none;
+
+  const previous = await models.kycScreeningMatch.findAll({
+    where: { userId },
+    attributes: ["source", "externalId"],
+  });
+  const seen = new Set(
+    previous.map((match) => `${match.source}:${match.externalId}`)
+  );
+  const fresh = hits.filter(
+    (hit) => !seen.has(`${hit.entry.source}:${hit.entry.externalId}`)
+  );
+  if (!fresh.length) return none;
+
+  return sequelize.transaction(async (transaction) => {
+    const holdId =
+      fresh[0].score >= thresholds.hold
+        ? await placeScreeningHold(userId, transaction)
+        : null;
+
+    const matches = await models.kycScreeningMatch.bulkCreate(
+      fresh.map(({ entry, ...hit }) => ({
+        userId,
+        applicationId: options.applicationId ?? null,
+        trigger,
+        source: entry.source,
+        externalId: entry.externalId,
+        entryId: entry.id,
+        entry: {
+          type: entry.type,
+          name: entry.name,
+          aliases: entry.aliases,
+          birthDates: entry.birthDates,
+          nationalities: entry.nationalities,
+          programs: entry.programs,
+          remarks: entry.remarks,
+        },
+        screenedName: hit.screenedName,
+        matchedName: hit.matchedName,
+        score: hit.score,
+        birthDateMatched: hit.birthDateMatched,
+        holdId: hit.score >= thresholds.hold ? holdId : null,
+      })),
+      { transaction }
+    );
+    return { matches, held: !!holdId };
+  });
+}
+
+/**
+ * Records an admin's decision on a pending match. Accepting confirms the user
+ * is listed and bans the account under the screening hold. Dismissing marks
+ * a false positive and lifts the hold once no other match relies on it.
+ */
+export async function reviewScreeningMatch(
+  id: string,
+  reviewerId: string,
+  decision: "ACCEPT" | "DISMISS",
+  note?: string
+) {
+  return sequelize.transaction(async (transaction) => {
+    const match = await models.kycScreeningMatch.findByPk(id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!match) {
+      throw createError({
+        statusCode: 404,
+        message: "Screening match not found",
+      });
+    }
+    if (match.status !== "PENDING") {
+      throw createError({
+        statusCode: 400,
+        message: `Screening match has already been ${match.status.toLowerCase()}`,
+      });
+    }
+
+    await match.update(
+      {
+        status: decision === "ACCEPT" ? "ACCEPTED" : "DISMISSED",
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        reviewNote: note || null,
+      },
+      { transaction }
+    );
+
+    if (decision === "ACCEPT") {
+      const holdId =
+        match.holdId ?? (await placeScreeningHold(match.userId, transaction));
+      await models.userBlock.update(
+        { reason: CONFIRMED_HOLD_REASON, isActive: true },
+        { where: { id: holdId }, transaction }
+      );
+      await match.update({ holdId }, { transaction });
+      await models.user.update(
+        { status: "BANNED" },
+        { where: { id: match.userId }, transaction }
+      );
+    } else if (match.holdId) {
+      await releaseScreeningHold(match, transaction);
+    }
+
+    return match;
+  });
+}
+
+/**
+ * Replaces the active list of a source with freshly parsed entries. The
+ * previous import is kept as REPLACED history without its entries; matches
+ * keep their own copy of the entry they matched.
+ */
+export async function importWatchlist(list: {
+  source: WatchlistSource;
+  format: "XML" | "CSV";
+  fileName: string;
+  entries: WatchlistEntryInput[];
+  importedBy?: string;
+}) {
+  const watchlist = await sequelize.transaction(async (transaction) => {
+    const previous = await models.kycWatchlist.findAll({
+      where: { source: list.source, status: "ACTIVE" },
+      attributes: ["id"],
+      transaction,
+    });
+    if (previous.length) {
+      const ids = previous.map((item) => item.id);
+      await models.kycWatchlistEntry.destroy({
+        where: { watchlistId: ids },
+        transaction,
+      });
+      await models.kycWatchlist.update(
+        { status: "REPLACED" },
+        { where: { id: ids }, transaction }
+      );
+      await models.kycScreeningMatch.update(
+        { entryId: null },
+        {
+          where: { source: list.source, entryId: { [Op.ne]: null } },
+          transaction,
+        }
+      );
+    }
+
+    const created = await models.kycWatchlist.create(
+      {
+        source: list.source,
+        format: list.format,
+        fileName: list.fileName,
+        entryCount: list.entries.length,
+        status: "ACTIVE",
+        importedBy: list.importedBy ?? null,
+      },
+      { transaction }
+    );
+    for (let i = 0; i < list.entries.length; i += ENTRY_IMPORT_BATCH) {
+      await models.kycWatchlistEntry.bulkCreate(
+        list.entries.slice(i, i + ENTRY_IMPORT_BATCH).map((entry) => ({
+          ...entry,
+          watchlistId: created.id,
+          source: list.source,
+        })),
+        { transaction }
+      );
+    }
+    return created;
+  });
+
+  cachedIndex = null;
+  return watchlist;
+}
+
+/** Stops screening against an active list and deletes its entries. */
+export async function removeWatchlist(id: string) {
+  const watchlist = await models.kycWatchlist.findByPk(id);
+  if (!watchlist) {
+    throw createError({ statusCode: 404, message: "Watchlist not found" });
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    if (watchlist.status === "ACTIVE") {
+      await models.kycScreeningMatch.update(
+        { entryId: null },
+        {
+          where: { source: watchlist.source, entryId: { [Op.ne]: null } },
+          transaction,
+        }
+      );
+    }
+    await models.kycWatchlistEntry.destroy({
+      where: { watchlistId: id },
+      transaction,
+    });
+    await watchlist.destroy({ transaction });
+  });
+
+  cachedIndex = null;
+}
@@ -0,0 +1,265 @@
+import crypto from "crypto";
+import { RedisSingleton } from "./redis";
+
+const redis = RedisSingleton.getInstance();
+
+// Last-seen times are written at most this often per session, so that
+// authenticated requests usually cost a single read
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+// Country headers set by CDNs and proxies in front of the app, as there is
+// no geo-IP database on the server
+const COUNTRY_HEADERS = [
+  "cf-ipcountry",
+  "cloudfront-viewer-country",
+  "x-vercel-ip-country",
+  "x-country-code",
+];
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+  [/Dart\/|okhttp/i, "Mobile app"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone/, "iPhone"],
+  [/iPad/, "iPad"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+export interface SessionContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+  device: string;
+  country: string | null;
+}
+
+export interface UserSession {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  country: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  current: boolean;
+}
+
+export const sessionKey = (sessionId: string) => `sessionId:${sessionId}`;
+const userSessionsKey = (userId: string) => `userSessions:${userId}`;
+
+/**
+ * Identifier shown for a session in listings. The session id itself works
+ * as a credential, so it is never sent back to clients.
+ */
+export function getSessionPublicId(sessionId: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(sessionId)
+    .digest("hex")
+    .slice(0, 24);
+}
+
+/** Short label such as "Chrome on Windows" for a user agent. */
+export function describeDevice(userAgent?: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+}
+
+function getHeader(request: any, name: string): string | null {
+  const value = request?.headers?.[name];
+  return (Array.isArray(value) ? value[0] : value) || null;
+}
+
+/** Device, user agent, IP and country of the request that uses a session. */
+export function getSessionContext(request?: any): SessionContext {
+  const userAgent = getHeader(request, "user-agent");
+  const country = COUNTRY_HEADERS.map((name) => getHeader(request, name)).find(
+    (value) => value && /^[A-Z]{2}$/i.test(value)
+  );
+  return {
+    ipAddress: request?.remoteAddress || null,
+    userAgent: userAgent ? userAgent.slice(0, 255) : null,
+    device: describeDevice(userAgent),
+    country: country ? country.toUpperCase() : null,
+  };
+}
+
+export function getRequestSessionId(request: any): string | undefined {
+  return request?.cookies?.sessionId || getHeader(request, "sessionid");
+}
+
+function parseSession(raw: string | null): any | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+function getSessionUserId(session: any): string | undefined {
+  return session?.user?.id ?? session?.userId;
+}
+
+/**
+ * Stores a session and adds it to its user's index, which lives as long as
+ * the user's longest session.
+ */
+export async function registerSession(
+  userId: string,
+  sessionId: string,
+  session: Record<string, any>,
+  ttlSeconds: number
+) {
+  await redis.set(
+    sessionKey(sessionId),
+    JSON.stringify(session),
+    "EX",
+    ttlSeconds
+  );
+  await addToUserIndex(userId, sessionId, ttlSeconds);
+}
+
+async function addToUserIndex(
+  userId: string,
+  sessionId: string,
+  ttlSeconds: number
+) {
+  const indexKey = userSessionsKey(userId);
+  await redis.sadd(indexKey, sessionId);
+  if ((await redis.ttl(indexKey)) < ttlSeconds) {
+    await redis.expire(indexKey, ttlSeconds);
+  }
+}
+
+/**
+ * Checks that a session still exists and belongs to the user, and records
+ * when and from where it was last used. Returns false once it has been
+ * revoked or has expired.
+ */
+export async function touchSession(
+  userId: string,
+  sessionId: string,
+  context?: Partial<SessionContext>
+): Promise<boolean> {
+  const key = sessionKey(sessionId);
+  const session = parseSession(await redis.get(key));
+  if (!session) return false;
+
+  const ownerId = getSessionUserId(session);
+  if (ownerId && ownerId !== userId) return false;
+
+  const now = Date.now();
+  const lastSeen = session.lastSeenAt ? Date.parse(session.lastSeenAt) : 0;
+  if (now - lastSeen < LAST_SEEN_INTERVAL_MS) return true;
+
+  session.lastSeenAt = new Date(now).toISOString();
+  if (context?.ipAddress) session.ipAddress = context.ipAddress;
+  if (context?.country) session.country = context.country;
+  // Only rewrite the session while it still exists and keep its expiry, so
+  // one revoked since it was read is not brought back
+  const updated = await redis.set(
+    key,
+    JSON.stringify(session),
+    "KEEPTTL",
+    "XX"
+  );
+  if (updated !== "OK") return false;
+
+  const ttl = await redis.ttl(key);
+  if (ttl === -2) return false;
+  // Sessions created before the index existed are added on first use
+  if (ttl > 0) await addToUserIndex(userId, sessionId, ttl);
+  return true;
+}
+
+/** Active sessions of a user, most recently used first. */
+export async function listUserSessions(
+  userId: string,
+  currentSessionId?: string
+): Promise<UserSession[]> {
+  const indexKey = userSessionsKey(userId);
+  const sessionIds = await redis.smembers(indexKey);
+  if (!sessionIds.length) return [];
+
+  const values = await redis.mget(...sessionIds.map(sessionKey));
+  const sessions: UserSession[] = [];
+  const stale: string[] = [];
+  sessionIds.forEach((sessionId, index) => {
+    const session = parseSession(values[index]);
+    if (!session || getSessionUserId(session) !== userId) {
+      stale.push(sessionId);
+      return;
+    }
+    sessions.push({
+      id: getSessionPublicId(sessionId),
+      device: session.device || describeDevice(session.userAgent),
+      userAgent: session.userAgent ?? null,
+      ipAddress: session.ipAddress || null,
+      country: session.country ?? null,
+      createdAt: session.createdAt ?? null,
+      lastSeenAt: session.lastSeenAt ?? session.createdAt ?? null,
+      current: sessionId === currentSessionId,
+    });
+  });
+  if (stale.length) await redis.srem(indexKey, ...stale);
+
+  return sessions.sort((a, b) =>
+    (b.lastSeenAt || "").localeCompare(a.lastSeenAt || "")
+  );
+}
+
+/** Revokes one of a user's sessions by its public id. */
+export async function revokeSession(
+  userId: string,
+  publicId: string
+): Promise<boolean> {
+  const indexKey = userSessionsKey(userId);
+  const sessionIds = await redis.smembers(indexKey);
+  const sessionId = sessionIds.find(
+    (id) => getSessionPublicId(id) === publicId
+  );
+  if (!sessionId) return false;
+
+  await redis.del(sessionKey(sessionId));
+  await redis.srem(indexKey, sessionId);
+  return true;
+}
+
+/**
+ * Revokes every session of a user, except the one making the request when
+ * given. Returns how many sessions were revoked.
+ */
+export async function revokeUserSessions(
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const indexKey = userSessionsKey(userId);
+  const sessionIds = (await redis.smembers(indexKey)).filter(
+    (id) => id !== exceptSessionId
+  );
+  if (!sessionIds.length) return 0;
+
+  await redis.del(...sessionIds.map(sessionKey));
+  await redis.srem(indexKey, ...sessionIds);
+  return sessionIds.length;
+}
+
+/** Ends a session on logout, whoever it belongs to. */
+export async function removeSession(sessionId: string) {
+  const key = sessionKey(sessionId);
+  const userId = getSessionUserId(parseSession(await redis.get(key)));
+  await redis.del(key);
+  if (userId) await redis.srem(userSessionsKey(userId), sessionId);
+}
@@ -2,6 +2,12 @@ import { jwtVerify, SignJWT } from "jose";
 import crypto from "crypto";
 import { makeUuid } from "./passwords";
 import { RedisSingleton } from "./redis";
+import {
+  registerSession,
+  removeSession,
+  SessionContext,
+  sessionKey,
+} from "./session";
 
 export const issuerKey = "platform";
 const redis = RedisSingleton.getInstance();
@@ -24,34 +30,44 @@ const getExpiryInSeconds = (expiry: string): number => {
   }
 };
 
-export async function generateTokens(user) {
-  const accessToken = await generateAccessToken(user);
+const getSessionExpiryInSeconds = (): number =>
+  getExpiryInSeconds(process.env.JWT_REFRESH_EXPIRY || "14d");
+
+export async function generateTokens(
+  user,
+  context: Partial<SessionContext> = {}
+) {
+  const sessionId = crypto.randomBytes(24).toString("hex");
+  const accessToken = await generateAccessToken(user, sessionId);
   const refreshToken = await generateRefreshToken(user);
   const csrfToken = crypto.randomBytes(24).toString("hex");
-  const sessionId = crypto.randomBytes(24).toString("hex");
-  const userSessionKey = `sessionId:${sessionId}`;
 
-  const JWT_REFRESH_EXPIRY = process.env.JWT_REFRESH_EXPIRY || "14d";
-  const refreshTokenExpiryInSeconds = getExpiryInSeconds(JWT_REFRESH_EXPIRY);
-
-  const userData = { refreshToken, csrfToken, sessionId, user };
-  await redis.set(
-    userSessionKey,
-    JSON.stringify(userData),
-    "EX",
-    refreshTokenExpiryInSeconds
+  const now = new Date().toISOString();
+  const userData = {
+    refreshToken,
+    csrfToken,
+    sessionId,
+    user,
+    ...context,
+    createdAt: now,
+    lastSeenAt: now,
+  };
+  await registerSession(
+    user.id,
+    sessionId,
+    userData,
+    getSessionExpiryInSeconds()
   );
 
   return { accessToken, refreshToken, csrfToken, sessionId };
 }
 
 export async function refreshTokens(user, sessionId) {
-  const accessToken = await generateAccessToken(user);
+  const accessToken = await generateAccessToken(user, sessionId);
   const csrfToken = crypto.randomBytes(24).toString("hex");
 
   // Assuming we fetch the existing session data to keep the refresh token and user info intact
-  const userSessionKey = `sessionId:${sessionId}`;
-  const sessionData = await redis.get(userSessionKey);
+  const sessionData = await redis.get(sessionKey(sessionId));
 
   if (!sessionData) {
     throw new Error("Session not found. Please re-authenticate.");
@@ -62,25 +78,28 @@ export async function refreshTokens(user, sessionId) {
   session.accessToken = accessToken;
 
   // Update the session data in Redis with the new access token and updated CSRF token
-  const JWT_REFRESH_EXPIRY = process.env.JWT_REFRESH_EXPIRY || "14d";
-  const refreshTokenExpiryInSeconds = getExpiryInSeconds(JWT_REFRESH_EXPIRY);
-  await redis.set(
-    userSessionKey,
-    JSON.stringify(session),
-    "EX",
-    refreshTokenExpiryInSeconds
+  await registerSession(
+    user.id,
+    sessionId,
+    session,
+    getSessionExpiryInSeconds()
   ); // Extend session expiry
 
   return { accessToken, csrfToken };
 }
 
 // Generate Access Token
-export const generateAccessToken = async (user: any): Promise<string> => {
+export const generateAccessToken = async (
+  user: any,
+  sessionId?: string
+): Promise<string> => {
   const JWT_EXPIRY = process.env.JWT_EXPIRY || "15m";
   const jwtClaims = {
     sub: user,
     iss: issuerKey,
     jti: makeUuid(),
+    // Ties the token to its session, so revoking the session ends it
+    ...(sessionId && { sid: sessionId }),
   };
   const APP_ACCESS_TOKEN_SECRET =
     process.env.APP_ACCESS_TOKEN_SECRET || "secret";
@@ -245,27 +264,27 @@ export const createSession = async (
   accessToken: string,
   csrfToken: string,
   refreshToken: string,
-  ipAddress: string = ""
+  context: Partial<SessionContext> = {}
 ): Promise<{ sid: string; userId: string; roleId: number }> => {
   const sessionId = makeUuid(); // Generate a unique session ID
-  const userSessionKey = `sessionId:${sessionId}`;
-  const sessionData = JSON.stringify({
+  const now = new Date().toISOString();
+  const sessionData = {
     userId,
     roleId,
+    user: { id: userId, role: roleId },
     sid: makeUuid(),
     accessToken,
     csrfToken,
     refreshToken,
-    ipAddress,
-  });
-  // Assuming the session's expiration time is also 14 days (in seconds)
-  const JWT_REFRESH_EXPIRY = process.env.JWT_REFRESH_EXPIRY || "14d";
-  const refreshTokenExpiryInSeconds = getExpiryInSeconds(JWT_REFRESH_EXPIRY);
-  await redis.set(
-    userSessionKey,
+    ...context,
+    createdAt: now,
+    lastSeenAt: now,
+  };
+  await registerSession(
+    userId,
+    sessionId,
     sessionData,
-    "EX",
-    refreshTokenExpiryInSeconds
+    getSessionExpiryInSeconds()
   );
 
   return { sid: sessionId, userId, roleId };
@@ -273,6 +292,5 @@ export const createSession = async (
 
 // Delete a specific session for a user
 export const deleteSession = async (sessionId: string): Promise<void> => {
-  const userSessionKey = `sessionId:${sessionId}`;
-  await redis.del(userSessionKey);
+  await removeSession(sessionId);
 };
@@ -0,0 +1,371 @@
+import { parse } from "csv-parse/sync";
+import { parseStringPromise, processors } from "xml2js";
+import { createError } from "./error";
+import { normalizeBirthDate, WatchlistEntryInput } from "./sanctions";
+
+// Header names in consolidated or hand made CSV lists, lower case without
+// separators. The first non-empty column listed for a field wins.
+const CSV_COLUMNS = {
+  id: [
+    "entitylogicalid",
+    "externalid",
+    "id",
+    "uid",
+    "entnum",
+    "dataid",
+    "referencenumber",
+    "reference",
+  ],
+  name: ["namealiaswholename", "name", "fullname", "wholename", "sdnname"],
+  alias: ["aliases", "alias", "aka"],
+  birthDate: [
+    "birthdatebirthdate",
+    "birthdateyear",
+    "dateofbirth",
+    "birthdate",
+    "dob",
+  ],
+  type: ["entitysubjecttype", "subjecttype", "type", "sdntype"],
+  program: [
+    "entityregulationprogramme",
+    "programme",
+    "program",
+    "programs",
+    "listtype",
+  ],
+  nationality: [
+    "citizenshipcountrydescription",
+    "nationality",
+    "nationalities",
+    "citizenship",
+  ],
+  remarks: ["entityremark", "remarks", "remark", "comments"],
+};
+
+type CsvField = keyof typeof CSV_COLUMNS;
+
+const list = (value: any): any[] =>
+  Array.isArray(value)
+    ? value
+    : value === undefined || value === null
+      ? []
+      : [value];
+
+// xml2js gives text elements as strings, or as { _, $ } when they carry
+// attributes
+function text(value: any): string {
+  const item = list(value)[0];
+  if (item === undefined || item === null) return "";
+  return String(typeof item === "object" ? (item._ ?? "") : item).trim();
+}
+
+const attr = (node: any, name: string): string =>
+  String(node?.$?.[name] ?? "").trim();
+
+const joinName = (...parts: string[]) => parts.filter(Boolean).join(" ");
+
+const unique = (values: string[]) => [
+  ...new Set(values.map((value) => value.trim()).filter(Boolean)),
+];
+
+function entryType(value: string): WatchlistEntryInput["type"] {
+  return !value || /^(p|person|individual)$/i.test(value)
+    ? "INDIVIDUAL"
+    : "ENTITY";
+}
+
+/** Contents of an uploaded list sent as a data URL, base64 or plain text. */
+export function decodeWatchlistFile(file: any): string {
+  if (Buffer.isBuffer(file)) return file.toString("utf-8");
+  if (file && typeof file === "object" && file.data) {
+    return Buffer.isBuffer(file.data)
+      ? file.data.toString("utf-8")
+      : String(file.data);
+  }
+  if (typeof file === "string" && file.startsWith("data:")) {
+    const base64 = file.split(",")[1];
+    if (!base64) {
+      throw createError({ statusCode: 400, message: "Invalid file format" });
+    }
+    return Buffer.from(base64, "base64").toString("utf-8");
+  }
+  if (typeof file === "string") return file;
+  throw createError({
+    statusCode: 400,
+    message: `Invalid file format. Received type: ${typeof file}`,
+  });
+}
+
+function parseOfacXml(root: any): WatchlistEntryInput[] {
+  return list(root.sdnEntry).map((node) => ({
+    externalId: text(node.uid),
+    type: entryType(text(node.sdnType)),
+    name: joinName(text(node.firstName), text(node.lastName)),
+    aliases: unique(
+      list(node.akaList?.[0]?.aka).map((aka) =>
+        joinName(text(aka.firstName), text(aka.lastName))
+      )
+    ),
+    birthDates: unique(
+      list(node.dateOfBirthList?.[0]?.dateOfBirthItem).flatMap((item) =>
+        normalizeBirthDate(text(item.dateOfBirth))
+      )
+    ),
+    nationalities: unique(
+      list(node.nationalityList?.[0]?.nationality).map((item) =>
+        text(item.country)
+      )
+    ),
+    programs: unique(list(node.programList?.[0]?.program).map(text)),
+    remarks: text(node.remarks) || null,
+  }));
+}
+
+function parseEuXml(root: any): WatchlistEntryInput[] {
+  return list(root.sanctionEntity).map((node) => {
+    const names = unique(
+      list(node.nameAlias).map(
+        (alias) =>
+          attr(alias, "wholeName") ||
+          joinName(
+            attr(alias, "firstName"),
+            attr(alias, "middleName"),
+            attr(alias, "lastName")
+          )
+      )
+    );
+    return {
+      externalId: attr(node, "logicalId") || attr(node, "euReferenceNumber"),
+      type: entryType(attr(list(node.subjectType)[0], "code")),
+      name: names[0] ?? "",
+      aliases: names.slice(1),
+      birthDates: unique(
+        list(node.birthdate).flatMap((item) =>
+          normalizeBirthDate(attr(item, "birthdate") || attr(item, "year"))
+        )
+      ),
+      nationalities: unique(
+        list(node.citizenship).map((item) => attr(item, "countryDescription"))
+      ),
+      programs: unique(
+        list(node.regulation).map((item) => attr(item, "programme"))
+      ),
+      remarks: unique(list(node.remark).map(text)).join("\n") || null,
+    };
+  });
+}
+
+function parseUnXml(root: any): WatchlistEntryInput[] {
+  const individuals = list(root.INDIVIDUALS?.[0]?.INDIVIDUAL).map(
+    (node): WatchlistEntryInput => ({
+      externalId: text(node.REFERENCE_NUMBER) || text(node.DATAID),
+      type: "INDIVIDUAL",
+      name: joinName(
+        text(node.FIRST_NAME),
+        text(node.SECOND_NAME),
+        text(node.THIRD_NAME),
+        text(node.FOURTH_NAME)
+      ),
+      aliases: unique(
+        list(node.INDIVIDUAL_ALIAS).map((alias) => text(alias.ALIAS_NAME))
+      ),
+      birthDates: unique(
+        list(node.INDIVIDUAL_DATE_OF_BIRTH).flatMap((item) => {
+          const [from, to] = [text(item.FROM_YEAR), text(item.TO_YEAR)];
+          return normalizeBirthDate(
+            text(item.DATE) ||
+              text(item.YEAR) ||
+              (from && to ? `${from} to ${to}` : from)
+          );
+        })
+      ),
+      nationalities: unique(
+        list(node.NATIONALITY).flatMap((item) => list(item.VALUE).map(text))
+      ),
+      programs: unique([text(node.UN_LIST_TYPE)]),
+      remarks: text(node.COMMENTS1) || null,
+    })
+  );
+  const entities = list(root.ENTITIES?.[0]?.ENTITY).map(
+    (node): WatchlistEntryInput => ({
+      externalId: text(node.REFERENCE_NUMBER) || text(node.DATAID),
+      type: "ENTITY",
+      name: text(node.FIRST_NAME),
+      aliases: unique(
+        list(node.ENTITY_ALIAS).map((alias) => text(alias.ALIAS_NAME))
+      ),
+      birthDates: [],
+      nationalities: [],
+      programs: unique([text(node.UN_LIST_TYPE)]),
+      remarks: text(node.COMMENTS1) || null,
+    })
+  );
+  return [...individuals, ...entities];
+}
+
+async function parseXmlList(content: string): Promise<WatchlistEntryInput[]> {
+  let xml: any;
+  try {
+    xml = await parseStringPromise(content, {
+      tagNameProcessors: [processors.stripPrefix],
+    });
+  } catch (error: any) {
+    throw createError({
+      statusCode: 400,
+      message: `Invalid XML watchlist: ${error.message}`,
+    });
+  }
+
+  const [root] = Object.keys(xml ?? {});
+  switch (root) {
+    case "sdnList":
+      return parseOfacXml(xml.sdnList);
+    case "export":
+      return parseEuXml(xml.export);
+    case "CONSOLIDATED_LIST":
+      return parseUnXml(xml.CONSOLIDATED_LIST);
+    default:
+      throw createError({
+        statusCode: 400,
+        message:
+          "Unrecognised XML watchlist. Upload the OFAC SDN, EU or UN consolidated list.",
+      });
+  }
+}
+
+// OFAC's sdn.csv has no header and keeps aliases and dates of birth in the
+// remarks column
+function parseOfacCsv(rows: string[][]): WatchlistEntryInput[] {
+  return rows
+    .filter((row) => /^\d+$/.test(row[0]?.trim() ?? ""))
+    .map((row) => {
+      const value = (column: number) => {
+        const cell = row[column]?.trim() ?? "";
+        return cell === "-0-" ? "" : cell;
+      };
+      const remarks = value(11);
+      const matches = (pattern: RegExp) =>
+        [...remarks.matchAll(pattern)].map((match) => match[1]);
+      return {
+        externalId: value(0),
+        type: entryType(value(2)),
+        name: value(1),
+        aliases: unique(matches(/a\.k\.a\.\s*'([^']+)'/gi)),
+        birthDates: unique(
+          matches(/DOB\s+([^;]+)/gi).flatMap(normalizeBirthDate)
+        ),
+        nationalities: unique(matches(/nationality\s+([^;]+)/gi)),
+        programs: unique(value(3).split(/[[\]\s]+/)),
+        remarks: remarks || null,
+      };
+    });
+}
+
+// Lists with a header row, such as the EU consolidated CSV, may spread an
+// entry over several rows sharing its identifier
+function parseHeaderCsv(rows: string[][]): WatchlistEntryInput[] {
+  const header = rows[0].map((cell) =>
+    cell.toLowerCase().replace(/[^a-z]/g, "")
+  );
+  const columns = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([field, names]) => [
+      field,
+      names.map((name) => header.indexOf(name)).filter((index) => index >= 0),
+    ])
+  ) as Record<CsvField, number[]>;
+  const read = (row: string[], field: CsvField) =>
+    columns[field].map((index) => row[index]?.trim()).find(Boolean) ?? "";
+
+  const entries = new Map<string, WatchlistEntryInput>();
+  rows.slice(1).forEach((row, index) => {
+    const name = read(row, "name");
+    if (!name) return;
+
+    const externalId = read(row, "id") || `row-${index + 2}`;
+    let entry = entries.get(externalId);
+    if (!entry) {
+      entry = {
+        externalId,
+        type: entryType(read(row, "type")),
+        name,
+        aliases: [],
+        birthDates: [],
+        nationalities: [],
+        programs: [],
+        remarks: read(row, "remarks") || null,
+      };
+      entries.set(externalId, entry);
+    } else {
+      entry.aliases.push(name);
+    }
+
+    entry.aliases.push(...read(row, "alias").split(/[;|]/));
+    entry.birthDates.push(...normalizeBirthDate(read(row, "birthDate")));
+    entry.nationalities.push(read(row, "nationality"));
+    entry.programs.push(read(row, "program"));
+  });
+
+  return [...entries.values()].map((entry) => ({
+    ...entry,
+    aliases: unique(entry.aliases).filter((alias) => alias !== entry.name),
+    birthDates: unique(entry.birthDates),
+    nationalities: unique(entry.nationalities),
+    programs: unique(entry.programs),
+  }));
+}
+
+function parseCsvList(content: string): WatchlistEntryInput[] {
+  const firstLine = content.split("\n", 1)[0];
+  const delimiter =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0)
+      ? ";"
+      : ",";
+
+  let rows: string[][];
+  try {
+    rows = parse(content, {
+      delimiter,
+      bom: true,
+      relax_column_count: true,
+      relax_quotes: true,
+      skip_empty_lines: true,
+    });
+  } catch (error: any) {
+    throw createError({
+      statusCode: 400,
+      message: `Invalid CSV watchlist: ${error.message}`,
+    });
+  }
+  if (!rows.length) return [];
+
+  const header = rows[0].map((cell) =>
+    cell.toLowerCase().replace(/[^a-z]/g, "")
+  );
+  const hasHeader = [...CSV_COLUMNS.id, ...CSV_COLUMNS.name].some((name) =>
+    header.includes(name)
+  );
+  return hasHeader ? parseHeaderCsv(rows) : parseOfacCsv(rows);
+}
+
+/**
+ * Parses an uploaded sanctions list. XML files may be the OFAC SDN list or
+ * the EU or UN consolidated list; CSV files may be OFAC's sdn.csv or any list
+ * with a header row naming at least a name column.
+ */
+export async function parseWatchlistFile(
+  content: string
+): Promise<{ format: "XML" | "CSV"; entries: WatchlistEntryInput[] }> {
+  const trimmed = content.replace(/^\uFEFF/, "").trimStart();
+  const format = trimmed.startsWith("<") ? "XML" : "CSV";
+  const parsed =
+    format === "XML" ? await parseXmlList(trimmed) : parseCsvList(trimmed);
+
+  const entries = parsed.filter((entry) => entry.externalId && entry.name);
+  if (!entries.length) {
+    throw createError({
+      statusCode: 400,
+      message: "No listed names were found in the watchlist file",
+    });
+  }
+  return { format, entries };
+}
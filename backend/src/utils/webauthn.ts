@@ -0,0 +1,405 @@
+import crypto from "crypto";
+import { createError } from "./error";
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+// COSE algorithms accepted for new credentials, in order of preference
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257,
+};
+
+export interface WebAuthnCredentialJSON {
+  id: string;
+  rawId?: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject?: string;
+    authenticatorData?: string;
+    signature?: string;
+    userHandle?: string | null;
+    transports?: string[];
+  };
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: string;
+  algorithm: number;
+  counter: number;
+  transports: string[];
+}
+
+export interface StoredCredential {
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+}
+
+/** Relying party the site's passkeys are scoped to, from the site URL. */
+export function getRelyingParty() {
+  const siteUrl = new URL(
+    process.env.NEXT_PUBLIC_SITE_URL || "http://localhost"
+  );
+  return {
+    id: siteUrl.hostname.replace(/^www\./, ""),
+    name: process.env.NEXT_PUBLIC_SITE_NAME || "Platform",
+  };
+}
+
+export function toBase64Url(buffer: Buffer | Uint8Array): string {
+  return Buffer.from(buffer).toString("base64url");
+}
+
+export function fromBase64Url(value: string): Buffer {
+  if (typeof value !== "string") {
+    throw createError({ statusCode: 400, message: "Invalid passkey response" });
+  }
+  return Buffer.from(value, "base64url");
+}
+
+export function generateChallenge(): string {
+  return toBase64Url(crypto.randomBytes(32));
+}
+
+/**
+ * Decodes the CBOR subset used by WebAuthn: integers, byte and text
+ * strings, arrays, maps and the simple values. Returns the value and the
+ * offset just after it, since credential public keys are followed by
+ * extension data in the authenticator data.
+ */
+export function decodeCbor(buffer: Buffer, offset = 0): [any, number] {
+  if (offset >= buffer.length) throw new Error("Unexpected end of CBOR data");
+  const initial = buffer[offset++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    length = buffer.readUInt8(offset);
+    offset += 1;
+  } else if (info === 25) {
+    length = buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (info === 26) {
+    length = buffer.readUInt32BE(offset);
+    offset += 4;
+  } else if (info === 27) {
+    length = Number(buffer.readBigUInt64BE(offset));
+    offset += 8;
+  } else {
+    throw new Error("Indefinite length CBOR items are not supported");
+  }
+
+  switch (major) {
+    case 0:
+      return [length, offset];
+    case 1:
+      return [-1 - length, offset];
+    case 2:
+    case 3: {
+      const end = offset + length;
+      if (end > buffer.length) throw new Error("Unexpected end of CBOR data");
+      const bytes = buffer.subarray(offset, end);
+      return [major === 2 ? Buffer.from(bytes) : bytes.toString("utf8"), end];
+    }
+    case 4: {
+      const items: any[] = [];
+      for (let i = 0; i < length; i++) {
+        const [item, next] = decodeCbor(buffer, offset);
+        items.push(item);
+        offset = next;
+      }
+      return [items, offset];
+    }
+    case 5: {
+      const map = new Map<any, any>();
+      for (let i = 0; i < length; i++) {
+        const [key, afterKey] = decodeCbor(buffer, offset);
+        const [value, afterValue] = decodeCbor(buffer, afterKey);
+        map.set(key, value);
+        offset = afterValue;
+      }
+      return [map, offset];
+    }
+    case 7:
+      if (info === 20) return [false, offset];
+      if (info === 21) return [true, offset];
+      if (info === 22 || info === 23) return [null, offset];
+      throw new Error("Unsupported CBOR simple value");
+    default:
+      throw new Error("Unsupported CBOR item");
+  }
+}
+
+/** Converts a COSE_Key to a Node public key. */
+export function coseToPublicKey(coseKey: Buffer): {
+  key: crypto.KeyObject;
+  algorithm: number;
+} {
+  const [map] = decodeCbor(coseKey);
+  if (!(map instanceof Map)) throw new Error("Invalid credential public key");
+  const kty = map.get(1);
+  const algorithm = map.get(3);
+
+  let jwk: Record<string, string>;
+  if (kty === 2 && algorithm === COSE_ALGORITHMS.ES256 && map.get(-1) === 1) {
+    jwk = {
+      kty: "EC",
+      crv: "P-256",
+      x: toBase64Url(map.get(-2)),
+      y: toBase64Url(map.get(-3)),
+    };
+  } else if (
+    kty === 1 &&
+    algorithm === COSE_ALGORITHMS.EdDSA &&
+    map.get(-1) === 6
+  ) {
+    jwk = { kty: "OKP", crv: "Ed25519", x: toBase64Url(map.get(-2)) };
+  } else if (kty === 3 && algorithm === COSE_ALGORITHMS.RS256) {
+    jwk = {
+      kty: "RSA",
+      n: toBase64Url(map.get(-1)),
+      e: toBase64Url(map.get(-2)),
+    };
+  } else {
+    throw new Error("Unsupported credential public key algorithm");
+  }
+
+  return {
+    key: crypto.createPublicKey({ key: jwk, format: "jwk" }),
+    algorithm,
+  };
+}
+
+function parseAuthenticatorData(authData: Buffer) {
+  if (authData.length < 37) throw new Error("Authenticator data is too short");
+  const flags = authData[32];
+  const parsed: {
+    rpIdHash: Buffer;
+    flags: number;
+    counter: number;
+    credentialId?: Buffer;
+    publicKey?: Buffer;
+  } = {
+    rpIdHash: authData.subarray(0, 32),
+    flags,
+    counter: authData.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    // AAGUID (16 bytes), credential id length (2 bytes), id, COSE key
+    let offset = 37 + 16;
+    const idLength = authData.readUInt16BE(offset);
+    offset += 2;
+    parsed.credentialId = authData.subarray(offset, offset + idLength);
+    offset += idLength;
+    const [, end] = decodeCbor(authData, offset);
+    parsed.publicKey = authData.subarray(offset, end);
+  }
+
+  return parsed;
+}
+
+/**
+ * Origins a ceremony may come from: the relying party's host or one of its
+ * subdomains, over HTTPS except on localhost.
+ */
+function isAllowedOrigin(origin: string, rpId: string): boolean {
+  try {
+    const url = new URL(origin);
+    const hostMatches =
+      url.hostname === rpId || url.hostname.endsWith(`.${rpId}`);
+    const secure = url.protocol === "https:" || url.hostname === "localhost";
+    return hostMatches && secure;
+  } catch {
+    return false;
+  }
+}
+
+function verifyClientData(
+  clientDataJSON: string,
+  type: "webauthn.create" | "webauthn.get",
+  expectedChallenge: string
+) {
+  const raw = fromBase64Url(clientDataJSON);
+  let clientData: any;
+  try {
+    clientData = JSON.parse(raw.toString("utf8"));
+  } catch {
+    throw createError({ statusCode: 400, message: "Invalid passkey response" });
+  }
+
+  if (clientData.type !== type) {
+    throw createError({ statusCode: 400, message: "Invalid passkey response" });
+  }
+  if (clientData.challenge !== expectedChallenge) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey challenge does not match",
+    });
+  }
+  if (!isAllowedOrigin(clientData.origin, getRelyingParty().id)) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey was created for another site",
+    });
+  }
+  return raw;
+}
+
+function verifyAuthenticatorFlags(
+  authData: ReturnType<typeof parseAuthenticatorData>,
+  requireUserVerification: boolean
+) {
+  const expectedHash = crypto
+    .createHash("sha256")
+    .update(getRelyingParty().id)
+    .digest();
+  if (!authData.rpIdHash.equals(expectedHash)) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey was created for another site",
+    });
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw createError({
+      statusCode: 400,
+      message: "User presence is required",
+    });
+  }
+  if (requireUserVerification && !(authData.flags & FLAG_USER_VERIFIED)) {
+    throw createError({
+      statusCode: 400,
+      message: "The passkey must verify the user with a PIN or biometrics",
+    });
+  }
+}
+
+/**
+ * Verifies a navigator.credentials.create() response. Attestation is
+ * requested as "none", so the attestation statement is not checked and the
+ * credential is trusted on first use like any passkey.
+ */
+export function verifyRegistrationResponse(
+  credential: WebAuthnCredentialJSON,
+  expectedChallenge: string,
+  requireUserVerification = false
+): VerifiedRegistration {
+  if (
+    credential?.type !== "public-key" ||
+    !credential.response?.attestationObject
+  ) {
+    throw createError({ statusCode: 400, message: "Invalid passkey response" });
+  }
+  verifyClientData(
+    credential.response.clientDataJSON,
+    "webauthn.create",
+    expectedChallenge
+  );
+
+  let authData: ReturnType<typeof parseAuthenticatorData>;
+  let algorithm: number;
+  try {
+    const [attestation] = decodeCbor(
+      fromBase64Url(credential.response.attestationObject)
+    );
+    authData = parseAuthenticatorData(attestation.get("authData"));
+    if (!authData.credentialId || !authData.publicKey) {
+      throw new Error("No credential in the attestation");
+    }
+    algorithm = coseToPublicKey(authData.publicKey).algorithm;
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      message: `Invalid passkey response: ${error.message}`,
+    });
+  }
+  verifyAuthenticatorFlags(authData, requireUserVerification);
+
+  return {
+    credentialId: toBase64Url(authData.credentialId),
+    publicKey: toBase64Url(authData.publicKey),
+    algorithm,
+    counter: authData.counter,
+    transports: Array.isArray(credential.response.transports)
+      ? credential.response.transports.filter((t) => typeof t === "string")
+      : [],
+  };
+}
+
+/**
+ * Verifies a navigator.credentials.get() response against a stored
+ * credential and returns the authenticator's new signature counter.
+ */
+export function verifyAuthenticationResponse(
+  credential: WebAuthnCredentialJSON,
+  stored: StoredCredential,
+  expectedChallenge: string,
+  requireUserVerification = false
+): number {
+  const { response } = credential || ({} as WebAuthnCredentialJSON);
+  if (
+    credential?.type !== "public-key" ||
+    !response?.authenticatorData ||
+    !response.signature
+  ) {
+    throw createError({ statusCode: 400, message: "Invalid passkey response" });
+  }
+  const clientData = verifyClientData(
+    response.clientDataJSON,
+    "webauthn.get",
+    expectedChallenge
+  );
+
+  const rawAuthData = fromBase64Url(response.authenticatorData);
+  let authData: ReturnType<typeof parseAuthenticatorData>;
+  let valid: boolean;
+  try {
+    authData = parseAuthenticatorData(rawAuthData);
+    const { key, algorithm } = coseToPublicKey(fromBase64Url(stored.publicKey));
+    const signed = Buffer.concat([
+      rawAuthData,
+      crypto.createHash("sha256").update(clientData).digest(),
+    ]);
+    const signature = fromBase64Url(response.signature);
+    valid =
+      algorithm === COSE_ALGORITHMS.EdDSA
+        ? crypto.verify(null, signed, key, signature)
+        : crypto.verify("sha256", signed, key, signature);
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      message: `Invalid passkey response: ${error.message}`,
+    });
+  }
+  if (!valid) {
+    throw createError({
+      statusCode: 401,
+      message: "Passkey signature is invalid",
+    });
+  }
+  verifyAuthenticatorFlags(authData, requireUserVerification);
+
+  // Authenticators that count signatures must always move forward, a
+  // counter going back means the credential was cloned
+  if (
+    (authData.counter > 0 || stored.counter > 0) &&
+    authData.counter <= stored.counter
+  ) {
+    throw createError({
+      statusCode: 401,
+      message:
+        "Passkey counter did not increase, the authenticator may be cloned",
+    });
+  }
+
+  return authData.counter;
+}
@@ -0,0 +1,310 @@
+import {
+  fakeRow,
+  fakeTransaction,
+  findWhere,
+  FakeRow,
+  matchesWhere,
+} from "../helpers/models";
+
+const mockWallets: FakeRow[] = [];
+const mockTransactions: FakeRow[] = [];
+const mockShipments: FakeRow[] = [];
+const mockOrders: FakeRow[] = [];
+const mockItems: FakeRow[] = [];
+const mockProducts: FakeRow[] = [];
+const mockVariants: FakeRow[] = [];
+const mockDiscounts: FakeRow[] = [];
+const mockUserDiscounts: FakeRow[] = [];
+
+// Bulk updates, where `field + n` literals are applied to each matched row
+function mockUpdate(rows: FakeRow[]) {
+  return jest.fn(async (changes: Record<string, any>, { where }: any) => {
+    const matched = rows.filter((row) => matchesWhere(row, where));
+    for (const row of matched) {
+      for (const [field, value] of Object.entries(changes)) {
+        const [, sign, by] = value?.sql?.match(/ ([+-]) (\d+)$/) || [];
+        row[field] = sign
+          ? row[field] + (sign === "+" ? 1 : -1) * Number(by)
+          : value;
+      }
+    }
+    return [matched.length];
+  });
+}
+
+jest.mock("@b/db", () => ({
+  sequelize: {
+    literal: (sql: string) => ({ sql }),
+    transaction: jest.fn(async (callback) => callback(fakeTransaction())),
+  },
+  models: {
+    ecommerceOrder: {
+      findByPk: jest.fn(async (id) => findWhere(mockOrders, { id })),
+    },
+    ecommerceOrderItem: {
+      findAll: jest.fn(async ({ where }) =>
+        mockItems.filter((row) => matchesWhere(row, where))
+      ),
+    },
+    ecommerceProduct: {
+      findAll: jest.fn(async ({ where }) =>
+        mockProducts.filter((row) => matchesWhere(row, where))
+      ),
+      update: mockUpdate(mockProducts),
+    },
+    ecommerceProductVariant: { update: mockUpdate(mockVariants) },
+    ecommerceDiscount: { update: mockUpdate(mockDiscounts) },
+    ecommerceUserDiscount: { update: mockUpdate(mockUserDiscounts) },
+    wallet: {
+      findByPk: jest.fn(async (id) => findWhere(mockWallets, { id })),
+    },
+    transaction: {
+      findOne: jest.fn(async ({ where }) => findWhere(mockTransactions, where)),
+      create: jest.fn(async (values) => {
+        const row = fakeRow(values);
+        mockTransactions.push(row);
+        return row;
+      }),
+    },
+    ecommerceShipping: {
+      findByPk: jest.fn(async (id) => findWhere(mockShipments, { id })),
+    },
+    user: { findByPk: jest.fn(async () => null) },
+  },
+}));
+jest.mock("@b/utils/emails", () => ({
+  sendOrderStatusUpdateEmail: jest.fn(),
+}));
+jest.mock("@b/utils/notifications", () => ({ createNotification: jest.fn() }));
+
+import {
+  refundOrder,
+  requestOrderReturn,
+  transitionOrder,
+} from "@b/api/(ext)/ecommerce/utils/order";
+import refundRoute from "@b/api/(ext)/admin/ecommerce/order/[id]/refund.post";
+
+function paidOrder(values: Record<string, any> = {}) {
+  mockWallets.push(fakeRow({ id: "wallet-1", balance: 20 }));
+  mockTransactions.push(
+    fakeRow({
+      id: "payment-1",
+      walletId: "wallet-1",
+      type: "PAYMENT",
+      amount: 80,
+      referenceId: "order-1",
+    })
+  );
+  return fakeRow({
+    id: "order-1",
+    userId: "user-1",
+    status: "PAID",
+    currency: "USD",
+    refundedAmount: 0,
+    ...values,
+  });
+}
+
+// A physical product in stock by variant, a digital one and a used discount
+function stockedOrder(values: Record<string, any> = {}) {
+  mockProducts.push(
+    fakeRow({ id: "shirt", type: "PHYSICAL", inventoryQuantity: 10 }),
+    fakeRow({ id: "mug", type: "PHYSICAL", inventoryQuantity: 4 }),
+    fakeRow({ id: "ebook", type: "DOWNLOADABLE", inventoryQuantity: 0 })
+  );
+  mockVariants.push(fakeRow({ id: "shirt-m", inventoryQuantity: 3 }));
+  mockItems.push(
+    fakeRow({
+      orderId: "order-1",
+      productId: "shirt",
+      variantId: "shirt-m",
+      quantity: 2,
+    }),
+    fakeRow({
+      orderId: "order-1",
+      productId: "mug",
+      variantId: null,
+      quantity: 1,
+    }),
+    fakeRow({
+      orderId: "order-1",
+      productId: "ebook",
+      variantId: null,
+      quantity: 1,
+    })
+  );
+  mockDiscounts.push(fakeRow({ id: "discount-1", usageCount: 5 }));
+  mockUserDiscounts.push(
+    fakeRow({ userId: "user-1", discountId: "discount-1", status: true })
+  );
+  const order = paidOrder({ discountId: "discount-1", ...values });
+  mockOrders.push(order);
+  return order;
+}
+
+const stock = () => ({
+  shirt: mockProducts[0].inventoryQuantity,
+  shirtM: mockVariants[0].inventoryQuantity,
+  mug: mockProducts[1].inventoryQuantity,
+  ebook: mockProducts[2].inventoryQuantity,
+});
+
+beforeEach(() => {
+  for (const rows of [
+    mockWallets,
+    mockTransactions,
+    mockShipments,
+    mockOrders,
+    mockItems,
+    mockProducts,
+    mockVariants,
+    mockDiscounts,
+    mockUserDiscounts,
+  ]) {
+    rows.length = 0;
+  }
+});
+
+describe("transitionOrder", () => {
+  it("refunds the whole payment to the original wallet on cancellation", async () => {
+    const order = paidOrder();
+
+    const refunded = await transitionOrder(
+      order,
+      "CANCELLED",
+      { reason: "Out of stock" },
+      fakeTransaction()
+    );
+
+    expect(refunded).toBe(80);
+    expect(order.status).toBe("CANCELLED");
+    expect(order.refundedAmount).toBe(80);
+    expect(mockWallets[0].balance).toBe(100);
+    expect(mockTransactions[1]).toMatchObject({
+      walletId: "wallet-1",
+      type: "REFUND",
+      amount: 80,
+      description: "Refund for order order-1: Out of stock",
+    });
+  });
+
+  it("only credits what earlier partial refunds left", async () => {
+    const order = paidOrder({ status: "DELIVERED" });
+    await refundOrder(order, 30, null, fakeTransaction());
+
+    const refunded = await transitionOrder(
+      order,
+      "REFUNDED",
+      {},
+      fakeTransaction()
+    );
+
+    expect(refunded).toBe(50);
+    expect(order.refundedAmount).toBe(80);
+    expect(mockWallets[0].balance).toBe(100);
+  });
+
+  it("puts back the stock and the discount use of a cancelled order", async () => {
+    const order = stockedOrder();
+
+    await transitionOrder(order, "CANCELLED", {}, fakeTransaction());
+
+    expect(stock()).toEqual({ shirt: 10, shirtM: 5, mug: 5, ebook: 0 });
+    expect(mockDiscounts[0].usageCount).toBe(4);
+    expect(mockUserDiscounts[0].status).toBe(false);
+  });
+
+  it("keeps the stock of an order moving on", async () => {
+    const order = stockedOrder();
+
+    await transitionOrder(order, "PROCESSING", {}, fakeTransaction());
+
+    expect(stock()).toEqual({ shirt: 10, shirtM: 3, mug: 4, ebook: 0 });
+    expect(mockDiscounts[0].usageCount).toBe(5);
+  });
+
+  it("rejects moves the lifecycle does not allow", async () => {
+    const order = paidOrder({ status: "REFUNDED" });
+
+    await expect(
+      transitionOrder(order, "SHIPPED", {}, fakeTransaction())
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      message: "An order cannot move from REFUNDED to SHIPPED",
+    });
+  });
+
+  it("records the tracking number on the assigned shipment", async () => {
+    const shipment = fakeRow({ id: "shipment-1", trackingNumber: null });
+    mockShipments.push(shipment);
+    const order = paidOrder({ shippingId: "shipment-1" });
+
+    await transitionOrder(
+      order,
+      "SHIPPED",
+      { trackingNumber: "1Z999" },
+      fakeTransaction()
+    );
+
+    expect(order.status).toBe("SHIPPED");
+    expect(shipment.trackingNumber).toBe("1Z999");
+  });
+});
+
+describe("refundOrder", () => {
+  it("never refunds more than was paid", async () => {
+    const order = paidOrder({ refundedAmount: 70 });
+
+    await expect(
+      refundOrder(order, 20, null, fakeTransaction())
+    ).rejects.toMatchObject({
+      message: "Refund amount must be between 0 and 10",
+    });
+    expect(mockWallets[0].balance).toBe(20);
+  });
+});
+
+describe("refund an order", () => {
+  const refund = (body: Record<string, any>) =>
+    refundRoute({ params: { id: "order-1" }, body } as any);
+
+  it("marks an order refunded and releases it once fully refunded", async () => {
+    const order = stockedOrder();
+
+    await expect(refund({ amount: 30 })).resolves.toMatchObject({
+      remaining: 50,
+      status: "PAID",
+    });
+    expect(stock().mug).toBe(4);
+
+    await expect(refund({})).resolves.toMatchObject({
+      refunded: 50,
+      remaining: 0,
+      status: "REFUNDED",
+    });
+    expect(order.refundedAmount).toBe(80);
+    expect(stock()).toEqual({ shirt: 10, shirtM: 5, mug: 5, ebook: 0 });
+    expect(mockDiscounts[0].usageCount).toBe(4);
+  });
+
+  it("rejects refunding a final order", async () => {
+    stockedOrder({ status: "CANCELLED" });
+
+    await expect(refund({})).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe("requestOrderReturn", () => {
+  it("is only open once the order has shipped", async () => {
+    await expect(
+      requestOrderReturn(paidOrder(), "Broken", fakeTransaction())
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    const order = paidOrder({ status: "COMPLETED" });
+    await requestOrderReturn(order, " Download fails ", fakeTransaction());
+    expect(order).toMatchObject({
+      status: "RETURN_REQUESTED",
+      returnReason: "Download fails",
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { findWhere, fakeRow, FakeRow } from "../helpers/models";
+
+const mockProducts: FakeRow[] = [];
+const mockDiscounts: FakeRow[] = [];
+const mockTaxRules: FakeRow[] = [];
+const mockUserDiscounts: FakeRow[] = [];
+const mockSettings: Record<string, string> = {};
+
+jest.mock("@b/db", () => ({
+  models: {
+    ecommerceProduct: {
+      findByPk: jest.fn(async (id) => findWhere(mockProducts, { id })),
+    },
+    ecommerceProductVariant: {},
+    ecommerceDiscount: {
+      findByPk: jest.fn(async (id) => findWhere(mockDiscounts, { id })),
+      findOne: jest.fn(async ({ where }) => findWhere(mockDiscounts, where)),
+    },
+    ecommerceTaxRule: {
+      findOne: jest.fn(async ({ where }) => findWhere(mockTaxRules, where)),
+    },
+    ecommerceUserDiscount: {
+      findOne: jest.fn(async ({ where }) =>
+        findWhere(mockUserDiscounts, where)
+      ),
+    },
+    settings: {
+      findAll: jest.fn(async () =>
+        Object.entries(mockSettings).map(([key, value]) => ({ key, value }))
+      ),
+    },
+  },
+}));
+
+import {
+  calculateOrderTotals,
+  CartLine,
+  getDiscountError,
+  quoteOrder,
+} from "@b/api/(ext)/ecommerce/utils/pricing";
+
+const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+function product(values: Record<string, any>) {
+  const row = fakeRow({
+    type: "PHYSICAL",
+    status: true,
+    inventoryQuantity: 10,
+    currency: "USD",
+    walletType: "SPOT",
+    variants: [],
+    ...values,
+  });
+  mockProducts.push(row);
+  return row;
+}
+
+function discount(values: Record<string, any>) {
+  const row = fakeRow({
+    id: `discount-${mockDiscounts.length + 1}`,
+    type: "PERCENTAGE",
+    percentage: 0,
+    amount: null,
+    minSpend: null,
+    maxUses: null,
+    usageCount: 0,
+    productId: null,
+    validUntil: tomorrow,
+    status: true,
+    ...values,
+  });
+  mockDiscounts.push(row);
+  return row;
+}
+
+function line(productId: string, unitPrice: number, quantity = 1): CartLine {
+  return {
+    product: { id: productId, type: "PHYSICAL" },
+    variant: null,
+    quantity,
+    unitPrice,
+    lineTotal: unitPrice * quantity,
+  };
+}
+
+beforeEach(() => {
+  mockProducts.length = 0;
+  mockDiscounts.length = 0;
+  mockTaxRules.length = 0;
+  mockUserDiscounts.length = 0;
+  for (const key of Object.keys(mockSettings)) delete mockSettings[key];
+});
+
+describe("calculateOrderTotals", () => {
+  it("charges tax on the discounted subtotal and adds shipping", () => {
+    const totals = calculateOrderTotals([line("a", 40, 2), line("b", 20)], {
+      discount: { type: "PERCENTAGE", percentage: 10 },
+      shippingCost: 5,
+      taxRate: 20,
+    });
+
+    expect(totals).toEqual({
+      subtotal: 100,
+      discountAmount: 10,
+      shippingCost: 5,
+      taxRate: 20,
+      taxAmount: 18,
+      total: 113,
+    });
+  });
+
+  it("limits a product discount to the lines of that product", () => {
+    const totals = calculateOrderTotals([line("a", 30), line("b", 70)], {
+      discount: { type: "FIXED", amount: 50, productId: "a" },
+    });
+
+    expect(totals.discountAmount).toBe(30);
+    expect(totals.total).toBe(70);
+  });
+
+  it("waives shipping for free-shipping codes", () => {
+    const totals = calculateOrderTotals([line("a", 30)], {
+      discount: { type: "FREE_SHIPPING" },
+      shippingCost: 8,
+    });
+
+    expect(totals.shippingCost).toBe(0);
+    expect(totals.total).toBe(30);
+  });
+});
+
+describe("getDiscountError", () => {
+  it("enforces the minimum spend and usage cap", () => {
+    expect(
+      getDiscountError(discount({ minSpend: 50 }), [line("a", 49)])
+    ).toMatch(/minimum spend of 50/);
+    expect(getDiscountError(discount({ maxUses: 3, usageCount: 3 }))).toBe(
+      "This discount code has reached its usage limit"
+    );
+    expect(getDiscountError(discount({ minSpend: 50 }), [line("a", 50)])).toBe(
+      null
+    );
+  });
+
+  it("rejects product codes for carts without the product", () => {
+    expect(
+      getDiscountError(discount({ productId: "b" }), [line("a", 10)])
+    ).toMatch(/does not apply/);
+  });
+});
+
+describe("quoteOrder", () => {
+  beforeEach(() => {
+    Object.assign(mockSettings, {
+      ecommerceTaxEnabled: "true",
+      ecommerceDefaultTaxRate: "10",
+      ecommerceShippingEnabled: "true",
+      ecommerceDefaultShippingCost: "5",
+    });
+    product({
+      id: "shirt",
+      name: "Shirt",
+      price: 25,
+      options: [{ name: "Size", values: ["S", "M"] }],
+      variants: [
+        {
+          id: "shirt-m",
+          sku: "SHIRT-M",
+          options: { Size: "M" },
+          price: 30,
+          inventoryQuantity: 1,
+          status: true,
+        },
+      ],
+    });
+    product({ id: "ebook", name: "Ebook", price: 10, type: "DOWNLOADABLE" });
+  });
+
+  it("prices variants and applies the tax rule of the shipping country", async () => {
+    mockTaxRules.push(fakeRow({ country: "GB", rate: 20, status: true }));
+    discount({ code: "SAVE5", type: "FIXED", amount: 5 });
+
+    const quote = await quoteOrder({
+      userId: "user-1",
+      items: [
+        { productId: "shirt", variantId: "shirt-m", quantity: 1 },
+        { productId: "ebook", quantity: 2 },
+      ],
+      discountCode: "SAVE5",
+      country: "gb",
+    });
+
+    expect(quote.lines.map((entry) => entry.unitPrice)).toEqual([30, 10]);
+    expect(quote.totals).toEqual({
+      subtotal: 50,
+      discountAmount: 5,
+      shippingCost: 5,
+      taxRate: 20,
+      taxAmount: 9,
+      total: 59,
+    });
+  });
+
+  it("falls back to the default rate for countries without a rule", async () => {
+    const quote = await quoteOrder({
+      userId: "user-1",
+      items: [{ productId: "ebook", quantity: 1 }],
+      country: "FR",
+    });
+
+    expect(quote.totals).toMatchObject({ taxRate: 10, total: 11 });
+  });
+
+  it("checks the stock of the variant rather than the product", async () => {
+    await expect(
+      quoteOrder({
+        userId: "user-1",
+        items: [{ productId: "shirt", variantId: "shirt-m", quantity: 2 }],
+      })
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      message: "Insufficient inventory for Shirt",
+    });
+  });
+
+  it("requires a variant for products that have them", async () => {
+    await expect(
+      quoteOrder({
+        userId: "user-1",
+        items: [{ productId: "shirt", quantity: 1 }],
+      })
+    ).rejects.toMatchObject({ message: "Select the options of Shirt" });
+  });
+
+  it("refuses a code the user has already used", async () => {
+    const used = discount({ code: "ONCE", percentage: 10 });
+    mockUserDiscounts.push(
+      fakeRow({ userId: "user-1", discountId: used.id, status: true })
+    );
+
+    await expect(
+      quoteOrder({
+        userId: "user-1",
+        items: [{ productId: "ebook", quantity: 1 }],
+        discountCode: "ONCE",
+      })
+    ).rejects.toMatchObject({
+      message: "You have already used this discount code",
+    });
+  });
+});
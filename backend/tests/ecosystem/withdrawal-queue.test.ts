@@ -0,0 +1,260 @@
+import { fakeRow, updateWhere, FakeRow } from "../helpers/models";
+
+const mockTransactions: FakeRow[] = [];
+const mockHandleEvmWithdrawal = jest.fn();
+const mockRefundUser = jest.fn();
+const mockHashes = new Map<string, Record<string, any>>();
+const mockQueue = new Map<string, number>();
+const mockDeadLetters = new Set<string>();
+
+// Just the hash, sorted set and set commands the queue uses
+function mockRedis() {
+  const commands: Record<string, (...args: any[]) => any> = {
+    hset: (key: string, fields: Record<string, any>) => {
+      mockHashes.set(key, { ...(mockHashes.get(key) || {}), ...fields });
+    },
+    hsetnx: (key: string, field: string, value: any) => {
+      const hash = mockHashes.get(key) || {};
+      if (field in hash) return 0;
+      mockHashes.set(key, { ...hash, [field]: value });
+      return 1;
+    },
+    hdel: (key: string, ...fields: string[]) => {
+      const hash = mockHashes.get(key) || {};
+      fields.forEach((field) => delete hash[field]);
+    },
+    hgetall: (key: string) => mockHashes.get(key) || {},
+    del: (key: string) => mockHashes.delete(key),
+    zadd: (_key: string, ...args: any[]) => {
+      const [score, member] = args.slice(-2);
+      mockQueue.set(member, Number(score));
+    },
+    zrem: (_key: string, member: string) => mockQueue.delete(member),
+    sadd: (_key: string, member: string) => mockDeadLetters.add(member),
+    srem: (_key: string, member: string) => mockDeadLetters.delete(member),
+  };
+  const client: any = {};
+  for (const [name, command] of Object.entries(commands)) {
+    client[name] = jest.fn(async (...args: any[]) => command(...args));
+  }
+  client.multi = () => {
+    const queued: (() => any)[] = [];
+    const chain: any = { exec: async () => queued.map((run) => run()) };
+    for (const [name, command] of Object.entries(commands)) {
+      chain[name] = (...args: any[]) => {
+        queued.push(() => command(...args));
+        return chain;
+      };
+    }
+    return chain;
+  };
+  return client;
+}
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/redis", () => {
+  const client = mockRedis();
+  return { RedisSingleton: { getInstance: () => client } };
+});
+jest.mock("@b/utils/notifications", () => ({ createNotification: jest.fn() }));
+jest.mock("@b/utils/emails", () => ({ emailQueue: { add: jest.fn() } }));
+jest.mock("@b/utils/safe-imports", () => ({}));
+jest.mock("@b/api/(ext)/ecosystem/utils/utxo", () => ({}));
+jest.mock("@b/api/(ext)/ecosystem/utils/wallet", () => ({
+  getEcosystemPendingTransactions: jest.fn(async () => []),
+  refundUser: (...args: any[]) => mockRefundUser(...args),
+}));
+jest.mock("@b/api/finance/withdraw/utils", () => ({
+  getWithdrawalHold: jest.fn(() => null),
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/withdraw", () => ({
+  handleEvmWithdrawal: (...args: any[]) => mockHandleEvmWithdrawal(...args),
+}));
+jest.mock("@b/db", () => {
+  const byId = (id: string) =>
+    mockTransactions.find((transaction) => transaction.id === id) || null;
+  return {
+    models: {
+      wallet: {},
+      user: { findOne: jest.fn(async () => null) },
+      adminProfit: { create: jest.fn() },
+      transaction: {
+        findOne: jest.fn(async ({ where }) => byId(where.id)),
+        findByPk: jest.fn(async (id) => byId(id)),
+        update: jest.fn(async (changes, { where }) =>
+          updateWhere(mockTransactions, changes, where)
+        ),
+      },
+    },
+  };
+});
+
+import { models } from "@b/db";
+import WithdrawalQueue from "@b/api/(ext)/ecosystem/utils/withdrawalQueue";
+
+const queue = WithdrawalQueue.getInstance() as any;
+
+function seedWithdrawal() {
+  const transaction = fakeRow({
+    id: "withdrawal-1",
+    userId: "user-1",
+    walletId: "wallet-1",
+    status: "PENDING",
+    amount: 1,
+    fee: 0,
+    trxId: null,
+    metadata: JSON.stringify({ chain: "ETH", toAddress: "0xabc" }),
+    wallet: { type: "ECO", currency: "ETH" },
+  });
+  mockTransactions.push(transaction);
+  mockHashes.set("ecoWithdrawal:job:withdrawal-1", {
+    transactionId: "withdrawal-1",
+    chain: "ETH",
+    status: "QUEUED",
+    attempts: 0,
+  });
+  return transaction;
+}
+
+const run = () =>
+  queue.runJob({
+    transactionId: "withdrawal-1",
+    chain: "ETH",
+    status: "QUEUED",
+    attempts: 0,
+    enqueuedAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+
+const job = () => mockHashes.get("ecoWithdrawal:job:withdrawal-1");
+
+beforeEach(() => {
+  mockTransactions.length = 0;
+  mockHashes.clear();
+  mockQueue.clear();
+  mockDeadLetters.clear();
+  mockHandleEvmWithdrawal.mockReset();
+  mockRefundUser.mockReset();
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("WithdrawalQueue", () => {
+  it("completes a withdrawal the chain handler sent", async () => {
+    const transaction = seedWithdrawal();
+    mockHandleEvmWithdrawal.mockResolvedValue(true);
+
+    await run();
+
+    expect(transaction.status).toBe("COMPLETED");
+    expect(job()).toBeUndefined();
+  });
+
+  it("never resends a withdrawal that timed out after broadcast", async () => {
+    const transaction = seedWithdrawal();
+    mockHandleEvmWithdrawal.mockImplementation(async () => {
+      transaction.trxId = "0xhash";
+      throw new Error("timeout waiting for receipt");
+    });
+
+    await run();
+
+    expect(mockDeadLetters.has("withdrawal-1")).toBe(true);
+    expect(mockQueue.has("withdrawal-1")).toBe(false);
+    expect(job()?.status).toBe("DEAD");
+    expect(transaction.status).toBe("PROCESSING");
+    expect(mockRefundUser).not.toHaveBeenCalled();
+  });
+
+  it("sends a failed withdrawal with a recorded hash to review", async () => {
+    const transaction = seedWithdrawal();
+    mockHandleEvmWithdrawal.mockImplementation(async () => {
+      transaction.trxId = "0xhash";
+      throw new Error("Transaction failed");
+    });
+
+    await run();
+
+    expect(mockDeadLetters.has("withdrawal-1")).toBe(true);
+    expect(mockRefundUser).not.toHaveBeenCalled();
+  });
+
+  it("sends a timeout without a recorded hash to review", async () => {
+    const transaction = seedWithdrawal();
+    mockHandleEvmWithdrawal.mockRejectedValue(new Error("ETIMEDOUT"));
+
+    await run();
+
+    expect(mockDeadLetters.has("withdrawal-1")).toBe(true);
+    expect(transaction.status).toBe("PROCESSING");
+    expect(mockRefundUser).not.toHaveBeenCalled();
+  });
+
+  it("retries when the node refused the connection", async () => {
+    const transaction = seedWithdrawal();
+    mockHandleEvmWithdrawal.mockRejectedValue(
+      new Error("connect ECONNREFUSED 127.0.0.1:8545")
+    );
+
+    await run();
+
+    expect(mockQueue.has("withdrawal-1")).toBe(true);
+    expect(job()?.status).toBe("RETRYING");
+    expect(transaction.status).toBe("PENDING");
+  });
+
+  it("fails and refunds a withdrawal rejected before sending", async () => {
+    const transaction = seedWithdrawal();
+    mockHandleEvmWithdrawal.mockRejectedValue(
+      new Error("Insufficient funds in the hot wallet")
+    );
+
+    await run();
+
+    expect(transaction.status).toBe("FAILED");
+    expect(mockRefundUser).toHaveBeenCalledTimes(1);
+    expect(mockDeadLetters.size).toBe(0);
+  });
+
+  it("keeps a sent withdrawal when its follow-up steps fail", async () => {
+    const transaction = seedWithdrawal();
+    transaction.fee = 0.01;
+    mockHandleEvmWithdrawal.mockResolvedValue(true);
+    (models.adminProfit.create as jest.Mock).mockRejectedValueOnce(
+      new Error("Deadlock found when trying to get lock")
+    );
+
+    await run();
+
+    expect(transaction.status).toBe("COMPLETED");
+    expect(mockRefundUser).not.toHaveBeenCalled();
+    expect(job()).toBeUndefined();
+  });
+
+  it("does not refund a withdrawal the chain handler already completed", async () => {
+    const transaction = seedWithdrawal();
+    mockHandleEvmWithdrawal.mockImplementation(async () => {
+      transaction.status = "COMPLETED";
+      throw new Error("Cannot read properties of undefined");
+    });
+
+    await run();
+
+    expect(transaction.status).toBe("COMPLETED");
+    expect(mockRefundUser).not.toHaveBeenCalled();
+  });
+
+  it("sends a withdrawal failing with an unknown error to review", async () => {
+    const transaction = seedWithdrawal();
+    // E.g. a handler that sent the funds and then failed to confirm them
+    mockHandleEvmWithdrawal.mockRejectedValue(
+      new Error("Unexpected confirmation response")
+    );
+
+    await run();
+
+    expect(transaction.status).not.toBe("FAILED");
+    expect(mockRefundUser).not.toHaveBeenCalled();
+    expect(mockDeadLetters.has("withdrawal-1")).toBe(true);
+  });
+});
@@ -0,0 +1,173 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as ccxt from "ccxt";
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/system", () => ({
+  sleep: (ms: number) => new Promise((resolve) => setTimeout(resolve, ms)),
+}));
+
+import { PaperExchange, parseTimeframe } from "@b/utils/paper-exchange";
+
+const feed = () => ({
+  markets: {
+    "BTC/USDT": { price: 100, pricePrecision: 2, amountPrecision: 4 },
+  },
+  balances: { USDT: 1000, BTC: 1 },
+});
+
+describe("PaperExchange", () => {
+  let exchange: PaperExchange;
+
+  beforeEach(async () => {
+    exchange = new PaperExchange({ feed: feed(), watchInterval: 0 });
+    await exchange.loadMarkets();
+  });
+
+  it("exposes feed markets the way ccxt reports them", () => {
+    expect(exchange.symbols).toEqual(["BTC/USDT"]);
+    expect(exchange.markets["BTC/USDT"]).toMatchObject({
+      base: "BTC",
+      quote: "USDT",
+      type: "spot",
+      precision: { price: 0.01, amount: 0.0001 },
+    });
+    expect(Object.keys(exchange.currencies).sort()).toEqual(["BTC", "USDT"]);
+  });
+
+  it("fills market orders in full at the feed price", async () => {
+    const order = await exchange.createOrder("BTC/USDT", "market", "buy", 2);
+
+    expect(order).toMatchObject({
+      id: "1",
+      status: "closed",
+      price: 100,
+      filled: 2,
+      remaining: 0,
+      cost: 200,
+      fee: { cost: 0, currency: "USDT" },
+    });
+    expect(order.trades).toHaveLength(1);
+    await expect(
+      exchange.fetchOrder(Number(order.id), "BTC/USDT")
+    ).resolves.toMatchObject({ status: "closed" });
+  });
+
+  it("rests limit orders until the feed crosses them", async () => {
+    const order = await exchange.createOrder("BTC/USDT", "limit", "buy", 1, 95);
+    expect(order.status).toBe("open");
+    expect(await exchange.fetchOpenOrders("BTC/USDT")).toHaveLength(1);
+
+    exchange.setPrice("BTC/USDT", 96);
+    expect((await exchange.fetchOrder(order.id)).status).toBe("open");
+
+    exchange.setPrice("BTC/USDT", 94);
+    expect(await exchange.fetchOrder(order.id)).toMatchObject({
+      status: "closed",
+      price: 95,
+      filled: 1,
+      cost: 95,
+    });
+  });
+
+  it("fills marketable limit orders at the limit price", async () => {
+    const order = await exchange.createOrder(
+      "BTC/USDT",
+      "limit",
+      "sell",
+      1,
+      90
+    );
+    expect(order).toMatchObject({ status: "closed", price: 90, cost: 90 });
+  });
+
+  it("cancels open orders and refuses to cancel filled ones", async () => {
+    const open = await exchange.createOrder(
+      "BTC/USDT",
+      "limit",
+      "sell",
+      1,
+      120
+    );
+    const filled = await exchange.createOrder("BTC/USDT", "market", "sell", 1);
+
+    await expect(
+      exchange.cancelOrder(open.id, "BTC/USDT")
+    ).resolves.toMatchObject({ status: "canceled" });
+    await expect(
+      exchange.cancelOrder(filled.id, "BTC/USDT")
+    ).rejects.toBeInstanceOf(ccxt.OrderNotFound);
+  });
+
+  it("rejects unknown symbols and amounts below the minimum", async () => {
+    await expect(
+      exchange.createOrder("DOGE/USDT", "market", "buy", 1)
+    ).rejects.toBeInstanceOf(ccxt.BadSymbol);
+    await expect(
+      exchange.createOrder("BTC/USDT", "market", "buy", 0.00001)
+    ).rejects.toBeInstanceOf(ccxt.InvalidOrder);
+  });
+
+  it("builds candles from recorded prices and fill volume", async () => {
+    const start = parseTimeframe("1h") * 1000;
+    const local = new PaperExchange({ feed: feed(), watchInterval: 0 });
+    jest.spyOn(Date, "now").mockReturnValue(start + 1000);
+    try {
+      await local.loadMarkets();
+      local.setPrice("BTC/USDT", 110, start + 2000);
+      local.setPrice("BTC/USDT", 90, start + 3000);
+      local.setPrice("BTC/USDT", 105, start + 4000);
+      await local.createOrder("BTC/USDT", "market", "buy", 3);
+
+      const [candle] = await local.fetchOHLCV("BTC/USDT", "1h", start, 1);
+      expect(candle).toEqual([start, 100, 110, 90, 105, 3]);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it("returns a synthetic book around the feed price", async () => {
+    const book = await exchange.fetchOrderBook("BTC/USDT", 5);
+
+    expect(book.bids).toHaveLength(5);
+    expect(book.asks).toHaveLength(5);
+    expect(book.bids[0][0]).toBeLessThan(100);
+    expect(book.asks[0][0]).toBeGreaterThan(100);
+  });
+
+  it("resolves watch calls with the latest data until closed", async () => {
+    exchange.setPrice("BTC/USDT", 101);
+    await expect(exchange.watchTicker("BTC/USDT")).resolves.toMatchObject({
+      last: 101,
+    });
+
+    const pending = exchange.watchTicker("BTC/USDT");
+    await exchange.close();
+    await expect(pending).rejects.toBeInstanceOf(ccxt.ExchangeClosedByUser);
+  });
+});
+
+describe("PaperExchange feed file", () => {
+  it("reloads the feed when the file changes", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "paper-feed-"));
+    const feedPath = path.join(dir, "feed.json");
+    fs.writeFileSync(feedPath, JSON.stringify(feed()));
+
+    try {
+      const exchange = new PaperExchange({ feedPath, watchInterval: 0 });
+      await exchange.loadMarkets();
+      expect((await exchange.fetchTicker("BTC/USDT")).last).toBe(100);
+
+      const next = feed();
+      next.markets["BTC/USDT"].price = 120;
+      fs.writeFileSync(feedPath, JSON.stringify(next));
+      fs.utimesSync(feedPath, new Date(), new Date(Date.now() + 5000));
+      await exchange.loadMarkets(true);
+
+      expect((await exchange.fetchTicker("BTC/USDT")).last).toBe(120);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,263 @@
+import { fakeRow, FakeRow, updateWhere } from "../helpers/models";
+
+let mockAlerts: FakeRow[] = [];
+let mockTickers: Record<string, { last: number }> = {};
+let mockActiveAlerts = 0;
+const mockMarkets = [{ currency: "BTC", pair: "USDT", status: true }];
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/notifications", () => ({ createNotification: jest.fn() }));
+jest.mock("@b/utils/emails", () => ({ sendPriceAlertEmail: jest.fn() }));
+jest.mock("@b/handler/Websocket", () => ({
+  messageBroker: { sendToClientOnRoute: jest.fn() },
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/matchingEngine", () => ({}));
+jest.mock("@b/utils/redis", () => ({
+  RedisSingleton: {
+    getInstance: () => ({
+      get: jest.fn(async () => JSON.stringify(mockTickers)),
+    }),
+  },
+}));
+jest.mock("@b/db", () => ({
+  models: {
+    exchangeMarket: {
+      findOne: jest.fn(
+        async ({ where }) =>
+          mockMarkets.find(
+            (market) =>
+              market.currency === where.currency && market.pair === where.pair
+          ) || null
+      ),
+    },
+    priceAlert: {
+      count: jest.fn(async () => mockActiveAlerts),
+      // Raw rows, like the monitor asks for
+      findAll: jest.fn(async () =>
+        mockAlerts
+          .filter((alert) => alert.status === "ACTIVE")
+          .map(({ update, increment, decrement, ...alert }) => alert)
+      ),
+      update: jest.fn(async (changes, { where }) =>
+        updateWhere(mockAlerts, changes, where)
+      ),
+    },
+    user: {
+      findByPk: jest.fn(async () => ({
+        email: "user@example.com",
+        firstName: "Ada",
+      })),
+    },
+  },
+}));
+
+import { createNotification } from "@b/utils/notifications";
+import { sendPriceAlertEmail } from "@b/utils/emails";
+import {
+  ensureAlertLimit,
+  PriceAlertMonitor,
+  validatePriceAlert,
+} from "@b/api/user/price-alert/utils";
+
+const MINUTE = 60 * 1000;
+
+function alert(values: Record<string, any>) {
+  const row = fakeRow({
+    id: `alert-${mockAlerts.length + 1}`,
+    userId: "user-1",
+    symbol: "BTC/USDT",
+    marketType: "SPOT",
+    price: null,
+    percentChange: null,
+    timeWindow: null,
+    mode: "ONCE",
+    cooldown: 0,
+    notifyEmail: false,
+    note: null,
+    status: "ACTIVE",
+    lastPrice: 100,
+    triggerCount: 0,
+    triggeredAt: null,
+    ...values,
+  });
+  mockAlerts.push(row);
+  return row;
+}
+
+let now: number;
+let monitor: PriceAlertMonitor;
+
+beforeEach(() => {
+  mockAlerts = [];
+  mockTickers = { "BTC/USDT": { last: 100 } };
+  mockActiveAlerts = 0;
+  now = Date.now();
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+  monitor = new PriceAlertMonitor();
+  jest.clearAllMocks();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("validatePriceAlert", () => {
+  it("normalizes a price alert", async () => {
+    await expect(
+      validatePriceAlert({
+        symbol: "BTC/USDT",
+        condition: "ABOVE",
+        price: "120",
+      })
+    ).resolves.toMatchObject({
+      marketType: "SPOT",
+      mode: "ONCE",
+      price: 120,
+      percentChange: null,
+      lastPrice: 100,
+    });
+  });
+
+  it("rejects an unknown symbol or market", async () => {
+    await expect(
+      validatePriceAlert({ symbol: "BTCUSDT", condition: "ABOVE", price: 1 })
+    ).rejects.toMatchObject({ statusCode: 400, message: "Invalid symbol" });
+    await expect(
+      validatePriceAlert({ symbol: "DOGE/EUR", condition: "ABOVE", price: 1 })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it("rejects a one-off alert the current price already meets", async () => {
+    await expect(
+      validatePriceAlert({ symbol: "BTC/USDT", condition: "ABOVE", price: 90 })
+    ).rejects.toMatchObject({
+      message: "The current price is already above the target price",
+    });
+    await expect(
+      validatePriceAlert({ symbol: "BTC/USDT", condition: "BELOW", price: 110 })
+    ).rejects.toMatchObject({
+      message: "The current price is already below the target price",
+    });
+    // A recurring alert waits for the next move instead
+    await expect(
+      validatePriceAlert({
+        symbol: "BTC/USDT",
+        condition: "ABOVE",
+        price: 90,
+        mode: "RECURRING",
+      })
+    ).resolves.toMatchObject({ price: 90 });
+  });
+
+  it("requires a percent and a bounded window for percent change alerts", async () => {
+    const percent = (percentChange: number, timeWindow: number) =>
+      validatePriceAlert({
+        symbol: "BTC/USDT",
+        condition: "PERCENT_CHANGE",
+        percentChange,
+        timeWindow,
+      });
+
+    await expect(percent(0, 60)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(percent(-5, 0)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(percent(-5, 1441)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(percent(-5, 60)).resolves.toMatchObject({
+      percentChange: -5,
+      timeWindow: 60,
+      price: null,
+    });
+  });
+});
+
+describe("ensureAlertLimit", () => {
+  it("rejects a user at the limit of active alerts", async () => {
+    mockActiveAlerts = 50;
+
+    await expect(ensureAlertLimit("user-1")).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+});
+
+describe("PriceAlertMonitor", () => {
+  it("triggers a one-off alert once and notifies the user", async () => {
+    const row = alert({ condition: "ABOVE", price: 110, notifyEmail: true });
+
+    await monitor.evaluate("SPOT", "BTC/USDT", 105);
+    await monitor.evaluate("SPOT", "BTC/USDT", 111);
+    await monitor.evaluate("SPOT", "BTC/USDT", 112);
+
+    expect(row).toMatchObject({
+      status: "TRIGGERED",
+      triggerCount: 1,
+      lastPrice: 111,
+    });
+    expect(createNotification).toHaveBeenCalledTimes(1);
+    expect(sendPriceAlertEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ email: "user@example.com" }),
+      expect.objectContaining({ id: row.id }),
+      111,
+      "price above 110"
+    );
+  });
+
+  it("triggers a crossing alert from either side", async () => {
+    const row = alert({ condition: "CROSSES", price: 110, mode: "RECURRING" });
+
+    await monitor.evaluate("SPOT", "BTC/USDT", 105);
+    await monitor.evaluate("SPOT", "BTC/USDT", 115);
+    await monitor.evaluate("SPOT", "BTC/USDT", 112);
+    await monitor.evaluate("SPOT", "BTC/USDT", 108);
+
+    expect(row.triggerCount).toBe(2);
+  });
+
+  it("keeps a recurring alert quiet until its cool-down has passed", async () => {
+    const row = alert({
+      condition: "ABOVE",
+      price: 110,
+      mode: "RECURRING",
+      cooldown: 10,
+    });
+
+    await monitor.evaluate("SPOT", "BTC/USDT", 111);
+    await monitor.evaluate("SPOT", "BTC/USDT", 105);
+    now += 5 * MINUTE;
+    await monitor.evaluate("SPOT", "BTC/USDT", 111);
+    await monitor.evaluate("SPOT", "BTC/USDT", 105);
+    now += 10 * MINUTE;
+    await monitor.evaluate("SPOT", "BTC/USDT", 111);
+
+    expect(row).toMatchObject({ status: "ACTIVE", triggerCount: 2 });
+  });
+
+  it("triggers on a percent drop within the window only", async () => {
+    const row = alert({
+      condition: "PERCENT_CHANGE",
+      percentChange: -5,
+      timeWindow: 10,
+    });
+
+    await monitor.evaluate("SPOT", "BTC/USDT", 100);
+    now += 15 * MINUTE;
+    // 6% below a sample that has left the window
+    await monitor.evaluate("SPOT", "BTC/USDT", 94);
+    expect(row.triggerCount).toBe(0);
+
+    now += 5 * MINUTE;
+    await monitor.evaluate("SPOT", "BTC/USDT", 89);
+    expect(row).toMatchObject({ status: "TRIGGERED", lastPrice: 89 });
+  });
+
+  it("does not deliver an alert it could not claim", async () => {
+    const row = alert({ condition: "ABOVE", price: 110 });
+    await monitor.evaluate("SPOT", "BTC/USDT", 105);
+    // Disabled by the user after the monitor loaded it
+    row.status = "DISABLED";
+
+    await monitor.evaluate("SPOT", "BTC/USDT", 111);
+
+    expect(row.triggerCount).toBe(0);
+    expect(createNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import * as ccxt from "ccxt";
+
+const mockProviders: { name: string; status: boolean; priority: number }[] = [];
+const mockMarkets: Record<string, any> = {};
+const mockVenues: Record<string, any> = {};
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/system", () => ({ sleep: jest.fn() }));
+jest.mock("@b/api/exchange/utils", () => ({
+  loadBanStatus: jest.fn(async () => 0),
+  saveBanStatus: jest.fn(),
+  handleBanStatus: jest.fn(async () => false),
+}));
+jest.mock("@b/utils/paper-exchange", () => ({
+  PAPER_PROVIDER: "paper",
+  PaperExchange: jest.fn(),
+}));
+jest.mock("@b/db", () => ({
+  models: {
+    exchange: {
+      findAll: jest.fn(async () =>
+        mockProviders
+          .filter((provider) => provider.status)
+          .sort((a, b) => a.priority - b.priority)
+          .map(({ name }) => ({ name }))
+      ),
+    },
+    exchangeMarket: {
+      findOne: jest.fn(
+        async ({ where }) => mockMarkets[`${where.currency}/${where.pair}`]
+      ),
+    },
+  },
+}));
+
+import ExchangeManager from "@b/utils/exchange";
+import {
+  canFailOver,
+  getProviderHealth,
+  rankProviders,
+  recordProviderFailure,
+  recordProviderSuccess,
+  resetProviderHealth,
+} from "@b/utils/exchange-health";
+
+beforeEach(() => {
+  resetProviderHealth();
+  mockProviders.length = 0;
+  for (const key of Object.keys(mockMarkets)) delete mockMarkets[key];
+  for (const key of Object.keys(mockVenues)) delete mockVenues[key];
+  jest
+    .spyOn(ExchangeManager, "startExchangeProvider")
+    .mockImplementation(async (provider) => mockVenues[provider] || null);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const venue = (createOrder: jest.Mock) => ({ createOrder });
+
+describe("provider health", () => {
+  it("takes a provider out of rotation after repeated network errors", () => {
+    for (let i = 0; i < 3; i++) {
+      recordProviderFailure("binance", new ccxt.NetworkError("down"));
+    }
+
+    expect(getProviderHealth("binance")).toMatchObject({
+      healthy: false,
+      consecutiveFailures: 3,
+      lastError: "down",
+    });
+    expect(rankProviders(["binance", "kucoin"])).toEqual(["kucoin", "binance"]);
+  });
+
+  it("cools a provider down on its first rate-limit hit", () => {
+    recordProviderSuccess("binance", 100);
+    recordProviderFailure("binance", new ccxt.RateLimitExceeded("slow down"));
+
+    const health = getProviderHealth("binance");
+    expect(health.healthy).toBe(false);
+    expect(health.rateLimitHits).toBe(1);
+    expect(health.unavailableUntil).toBeGreaterThan(Date.now());
+  });
+
+  it("lowers the score of slow providers", () => {
+    recordProviderSuccess("binance", 200);
+    recordProviderSuccess("kucoin", 5500);
+
+    expect(getProviderHealth("binance").score).toBe(1);
+    expect(getProviderHealth("kucoin").score).toBeCloseTo(0.9);
+  });
+
+  it("ignores orders a venue rejected on their merits", () => {
+    recordProviderFailure("binance", new ccxt.InvalidOrder("bad price"));
+
+    expect(getProviderHealth("binance")).toMatchObject({
+      calls: 0,
+      consecutiveFailures: 0,
+    });
+  });
+
+  it("does not fail over timeouts or invalid orders", () => {
+    expect(canFailOver(new ccxt.ExchangeNotAvailable("down"))).toBe(true);
+    expect(canFailOver(new ccxt.InsufficientFunds("empty"))).toBe(true);
+    expect(canFailOver(new ccxt.RequestTimeout("timeout"))).toBe(false);
+    expect(canFailOver(new ccxt.InvalidOrder("bad"))).toBe(false);
+    expect(canFailOver(new Error("database"))).toBe(false);
+  });
+});
+
+describe("ExchangeManager.routeOrder", () => {
+  beforeEach(() => {
+    mockProviders.push(
+      { name: "kucoin", status: true, priority: 2 },
+      { name: "binance", status: true, priority: 1 },
+      { name: "xt", status: false, priority: 0 }
+    );
+  });
+
+  it("follows the provider priority", async () => {
+    await expect(ExchangeManager.getOrderRoute("BTC/USDT")).resolves.toEqual([
+      "binance",
+      "kucoin",
+    ]);
+  });
+
+  it("prefers the active providers listed on the market", async () => {
+    mockMarkets["BTC/USDT"] = { providers: ["xt", "kucoin"] };
+
+    await expect(ExchangeManager.getOrderRoute("BTC/USDT")).resolves.toEqual([
+      "kucoin",
+    ]);
+  });
+
+  it("places the order on the next provider when the primary is down", async () => {
+    const primary = jest
+      .fn()
+      .mockRejectedValue(new ccxt.ExchangeNotAvailable("maintenance"));
+    const backup = jest.fn().mockResolvedValue({ id: "42" });
+    mockVenues.binance = venue(primary);
+    mockVenues.kucoin = venue(backup);
+
+    const routed = await ExchangeManager.routeOrder("BTC/USDT", (exchange) =>
+      exchange.createOrder("BTC/USDT", "market", "buy", 1)
+    );
+
+    expect(routed.provider).toBe("kucoin");
+    expect(routed.result).toEqual({ id: "42" });
+    expect(getProviderHealth("binance").errorRate).toBe(1);
+    expect(getProviderHealth("kucoin").calls).toBe(1);
+  });
+
+  it("skips an unhealthy primary without calling it", async () => {
+    const primary = jest.fn();
+    const backup = jest.fn().mockResolvedValue({ id: "7" });
+    mockVenues.binance = venue(primary);
+    mockVenues.kucoin = venue(backup);
+    recordProviderFailure("binance", new ccxt.RateLimitExceeded("429"));
+
+    const routed = await ExchangeManager.routeOrder("BTC/USDT", (exchange) =>
+      exchange.createOrder("BTC/USDT", "market", "buy", 1)
+    );
+
+    expect(routed.provider).toBe("kucoin");
+    expect(primary).not.toHaveBeenCalled();
+  });
+
+  it("does not retry an order the venue refused on its merits", async () => {
+    const primary = jest
+      .fn()
+      .mockRejectedValue(new ccxt.InvalidOrder("amount too small"));
+    const backup = jest.fn();
+    mockVenues.binance = venue(primary);
+    mockVenues.kucoin = venue(backup);
+
+    await expect(
+      ExchangeManager.routeOrder("BTC/USDT", (exchange) =>
+        exchange.createOrder("BTC/USDT", "market", "buy", 1)
+      )
+    ).rejects.toBeInstanceOf(ccxt.InvalidOrder);
+    expect(backup).not.toHaveBeenCalled();
+  });
+});
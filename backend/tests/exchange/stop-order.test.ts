@@ -0,0 +1,365 @@
+import {
+  fakeRow,
+  fakeTransaction,
+  findWhere,
+  matchesWhere,
+  updateWhere,
+  FakeRow,
+} from "../helpers/models";
+
+const mockWallets: FakeRow[] = [];
+const mockOrders: FakeRow[] = [];
+const mockTransactions: any[] = [];
+const mockCreateOrder = jest.fn();
+const mockFetchOrder = jest.fn();
+const mockFetchOrders = jest.fn();
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/redis", () => ({
+  RedisSingleton: { getInstance: () => ({}) },
+}));
+jest.mock("@b/utils/exchange", () => ({
+  __esModule: true,
+  default: {
+    startExchangeProvider: jest.fn(async () => ({
+      fetchOrders: (...args: any[]) => mockFetchOrders(...args),
+    })),
+  },
+}));
+jest.mock("@b/api/exchange/order/index.ws", () => ({
+  addOrderToTrackedOrders: jest.fn(),
+  addUserToWatchlist: jest.fn(),
+}));
+jest.mock("@b/db", () => ({
+  sequelize: {
+    transaction: jest.fn(async (callback) => callback(fakeTransaction())),
+  },
+  models: {
+    wallet: {
+      findOne: jest.fn(async ({ where }) => findWhere(mockWallets, where)),
+    },
+    exchangeMarket: {
+      findOne: jest.fn(async () => ({
+        metadata: { taker: 0.1, maker: 0.1 },
+      })),
+    },
+    exchangeOrder: {
+      findAll: jest.fn(async ({ where }) =>
+        mockOrders.filter((order) => matchesWhere(order, where))
+      ),
+      update: jest.fn(async (changes, { where }) =>
+        updateWhere(mockOrders, changes, where)
+      ),
+    },
+    transaction: {
+      create: jest.fn(async (values) => {
+        mockTransactions.push(values);
+        return values;
+      }),
+    },
+  },
+}));
+
+import {
+  reconcileStopMarketBuy,
+  recoverStuckStopOrders,
+  syncSpotOrder,
+  triggerStopOrder,
+} from "@b/api/exchange/order/index.post";
+
+const exchange = {
+  createOrder: (...args: any[]) => mockCreateOrder(...args),
+  fetchOrder: (...args: any[]) => mockFetchOrder(...args),
+};
+const usdt = () => findWhere(mockWallets, { currency: "USDT" })!;
+const btc = () => findWhere(mockWallets, { currency: "BTC" })!;
+
+function seedOrder(values: Record<string, any>) {
+  const order = fakeRow({
+    id: "order-1",
+    userId: "user-1",
+    symbol: "BTC/USDT",
+    type: "STOP_MARKET",
+    side: "BUY",
+    status: "OPEN",
+    referenceId: null,
+    provider: null,
+    amount: 1,
+    price: 100,
+    stopPrice: 100,
+    cost: 100,
+    updatedAt: new Date(),
+    ...values,
+  });
+  mockOrders.push(order);
+  return order;
+}
+
+beforeEach(() => {
+  mockWallets.length = 0;
+  mockOrders.length = 0;
+  mockTransactions.length = 0;
+  mockCreateOrder.mockReset();
+  mockFetchOrder.mockReset();
+  mockFetchOrders.mockReset();
+  mockWallets.push(
+    fakeRow({
+      id: "wallet-usdt",
+      userId: "user-1",
+      type: "SPOT",
+      currency: "USDT",
+      balance: 50,
+    }),
+    fakeRow({
+      id: "wallet-btc",
+      userId: "user-1",
+      type: "SPOT",
+      currency: "BTC",
+      balance: 0,
+    })
+  );
+});
+
+describe("reconcileStopMarketBuy", () => {
+  it("refunds the part of the reserved cost the fill did not use", async () => {
+    const order = seedOrder({});
+
+    await reconcileStopMarketBuy({ ...order } as any, 95);
+
+    expect(usdt().balance).toBe(55);
+    expect(usdt().increment).toHaveBeenCalledWith(
+      "balance",
+      expect.objectContaining({ by: 5 })
+    );
+    expect(mockOrders[0].cost).toBe(95);
+  });
+
+  it("settles the same fill only once", async () => {
+    const order = seedOrder({});
+
+    await reconcileStopMarketBuy({ ...order } as any, 95);
+    await reconcileStopMarketBuy({ ...order } as any, 95);
+
+    expect(usdt().balance).toBe(55);
+  });
+
+  it("records the part of a shortfall the wallet cannot cover", async () => {
+    const order = seedOrder({});
+
+    await reconcileStopMarketBuy({ ...order } as any, 180);
+
+    expect(usdt().balance).toBe(0);
+    expect(mockTransactions).toEqual([
+      expect.objectContaining({
+        type: "EXCHANGE_ORDER",
+        status: "PENDING",
+        amount: 30,
+        referenceId: "order-1",
+      }),
+    ]);
+  });
+
+  it("leaves stop-limit orders alone", async () => {
+    const order = seedOrder({ type: "STOP_LIMIT" });
+
+    await reconcileStopMarketBuy({ ...order } as any, 80);
+
+    expect(usdt().balance).toBe(50);
+    expect(mockOrders[0].cost).toBe(100);
+  });
+});
+
+describe("triggerStopOrder", () => {
+  it("releases exactly the reserved cost when the provider refuses", async () => {
+    const order = seedOrder({ price: 90, cost: 100.1 });
+    mockCreateOrder.mockRejectedValue(new Error("Insufficient liquidity"));
+
+    await expect(
+      triggerStopOrder(exchange, "binance", { ...order } as any)
+    ).rejects.toThrow();
+
+    expect(mockOrders[0].status).toBe("REJECTED");
+    expect(usdt().balance).toBeCloseTo(150.1);
+  });
+
+  it("returns the reserved amount of a rejected sell", async () => {
+    const order = seedOrder({ side: "SELL", amount: 0.5 });
+    mockCreateOrder.mockResolvedValue({});
+
+    await expect(
+      triggerStopOrder(exchange, "binance", { ...order } as any)
+    ).rejects.toThrow();
+
+    expect(btc().balance).toBe(0.5);
+    expect(usdt().balance).toBe(50);
+  });
+
+  it("credits a fill once when the order sync sees it too", async () => {
+    const order = seedOrder({ type: "STOP_LIMIT", amount: 0.5, cost: 50 });
+    const filled = {
+      id: "42",
+      status: "closed",
+      price: 100,
+      amount: 0.5,
+      filled: 0.5,
+      remaining: 0,
+      cost: 50,
+      fee: { cost: 0 },
+    };
+    mockCreateOrder.mockResolvedValue({ id: "42" });
+    // The sync cron settles the fill as soon as the reference is stored
+    mockFetchOrder.mockImplementation(async () => {
+      await syncSpotOrder({ ...mockOrders[0] } as any, filled, "paper");
+      return filled;
+    });
+
+    await expect(
+      triggerStopOrder(exchange, "paper", { ...order } as any)
+    ).resolves.toBe(true);
+
+    expect(mockCreateOrder).toHaveBeenCalledWith(
+      "BTC/USDT",
+      "limit",
+      "buy",
+      0.5,
+      100,
+      { clientOrderId: "order-1" }
+    );
+    expect(mockOrders[0]).toMatchObject({
+      status: "CLOSED",
+      referenceId: "42",
+      provider: "paper",
+    });
+    expect(btc().balance).toBeCloseTo(0.4995);
+  });
+
+  it("does not place an order another run has claimed", async () => {
+    const order = seedOrder({ status: "TRIGGERING" });
+
+    await expect(
+      triggerStopOrder(exchange, "binance", { ...order } as any)
+    ).resolves.toBe(false);
+    expect(mockCreateOrder).not.toHaveBeenCalled();
+  });
+});
+
+describe("syncSpotOrder", () => {
+  const filled = {
+    status: "closed",
+    price: 100,
+    amount: 0.5,
+    filled: 0.5,
+    remaining: 0,
+    cost: 50,
+    fee: { cost: 0 },
+  };
+
+  it("credits a fill reported by the venue once", async () => {
+    const order = seedOrder({
+      type: "LIMIT",
+      status: "OPEN",
+      referenceId: "42",
+      provider: "paper",
+      amount: 0.5,
+      cost: 50,
+    });
+
+    await expect(
+      syncSpotOrder({ ...order } as any, filled, "paper")
+    ).resolves.toBe(true);
+    await expect(
+      syncSpotOrder({ ...order } as any, filled, "paper")
+    ).resolves.toBe(false);
+
+    expect(mockOrders[0].status).toBe("CLOSED");
+    // 0.1% taker fee taken from the bought amount
+    expect(btc().balance).toBeCloseTo(0.4995);
+  });
+
+  it("only records progress while the order is open", async () => {
+    const order = seedOrder({
+      type: "LIMIT",
+      referenceId: "42",
+      amount: 1,
+      filled: 0,
+      remaining: 1,
+    });
+
+    await expect(
+      syncSpotOrder(
+        { ...order } as any,
+        { ...filled, status: "open", filled: 0.4, remaining: 0.6 },
+        "paper"
+      )
+    ).resolves.toBe(false);
+
+    expect(mockOrders[0]).toMatchObject({ status: "OPEN", filled: 0.4 });
+    expect(btc().balance).toBe(0);
+  });
+});
+
+describe("recoverStuckStopOrders", () => {
+  it("reopens stop orders whose trigger stalled before placement", async () => {
+    const stale = new Date(Date.now() - 10 * 60 * 1000);
+    seedOrder({ id: "stalled", status: "TRIGGERING", updatedAt: stale });
+    seedOrder({ id: "running", status: "TRIGGERING" });
+    seedOrder({
+      id: "placed",
+      status: "TRIGGERING",
+      referenceId: "provider-1",
+      updatedAt: stale,
+    });
+
+    await expect(recoverStuckStopOrders()).resolves.toBe(1);
+
+    expect(mockOrders.map((order) => order.status)).toEqual([
+      "OPEN",
+      "TRIGGERING",
+      "TRIGGERING",
+    ]);
+  });
+
+  it("looks up orders recorded against a venue before reopening them", async () => {
+    const stale = new Date(Date.now() - 10 * 60 * 1000);
+    seedOrder({
+      id: "accepted",
+      status: "TRIGGERING",
+      provider: "paper",
+      updatedAt: stale,
+    });
+    seedOrder({
+      id: "lost",
+      status: "TRIGGERING",
+      provider: "paper",
+      updatedAt: stale,
+    });
+    mockFetchOrders.mockResolvedValue([
+      { id: "7", clientOrderId: "accepted", status: "closed" },
+    ]);
+
+    await expect(recoverStuckStopOrders()).resolves.toBe(2);
+
+    expect(mockOrders[0]).toMatchObject({
+      status: "OPEN",
+      referenceId: "7",
+      provider: "paper",
+    });
+    expect(mockOrders[1]).toMatchObject({
+      status: "OPEN",
+      referenceId: null,
+      provider: null,
+    });
+  });
+
+  it("leaves an order the venue cannot be asked about", async () => {
+    seedOrder({
+      status: "TRIGGERING",
+      provider: "paper",
+      updatedAt: new Date(Date.now() - 10 * 60 * 1000),
+    });
+    mockFetchOrders.mockRejectedValue(new Error("Exchange unavailable"));
+
+    await expect(recoverStuckStopOrders()).resolves.toBe(0);
+    expect(mockOrders[0].status).toBe("TRIGGERING");
+  });
+});
@@ -0,0 +1,169 @@
+import { fakeRow, fakeTransaction, FakeRow } from "../helpers/models";
+
+const mockWithdrawals: FakeRow[] = [];
+const mockApprovals: any[] = [];
+const mockUserLocks = new Map<string, Promise<void>>();
+
+jest.mock("@b/utils/notifications", () => ({ createNotification: jest.fn() }));
+jest.mock("@b/api/finance/currency/utils", () => ({
+  getEcoPriceInUSD: jest.fn(),
+  getFiatPriceInUSD: jest.fn(),
+  getSpotPriceInUSD: jest.fn(),
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/withdrawalQueue", () => ({
+  default: { getInstance: () => ({ addTransaction: jest.fn() }) },
+}));
+jest.mock("@b/db", () => ({
+  // Row locks are held until the callback settles, like a commit would
+  sequelize: {
+    transaction: jest.fn(async (callback) => {
+      const transaction = { ...fakeTransaction(), releases: [] as any[] };
+      try {
+        return await callback(transaction);
+      } finally {
+        transaction.releases.forEach((release) => release());
+      }
+    }),
+  },
+  models: {
+    user: {
+      findOne: jest.fn(async ({ where, transaction, lock }) => {
+        if (lock) {
+          while (mockUserLocks.has(where.id)) {
+            await mockUserLocks.get(where.id);
+          }
+          let release: () => void = () => undefined;
+          mockUserLocks.set(
+            where.id,
+            new Promise<void>((resolve) => {
+              release = () => {
+                mockUserLocks.delete(where.id);
+                resolve();
+              };
+            })
+          );
+          transaction.releases.push(release);
+        }
+        return { id: where.id };
+      }),
+    },
+    kycApplication: { findOne: jest.fn(async () => null) },
+    kycLevel: {},
+    wallet: {},
+    withdrawalPolicy: {
+      findAll: jest.fn(async () => [
+        {
+          id: "policy-1",
+          status: true,
+          kycLevel: null,
+          walletType: null,
+          currency: null,
+          dailyLimit: 100,
+          requiredApprovals: 1,
+        },
+      ]),
+    },
+    transaction: {
+      findAll: jest.fn(async () => [...mockWithdrawals]),
+      findOne: jest.fn(
+        async ({ where }) =>
+          mockWithdrawals.find((row) => row.id === where.id) || null
+      ),
+    },
+    withdrawalApproval: {
+      findOne: jest.fn(async ({ where }) =>
+        mockApprovals.find(
+          (approval) =>
+            approval.transactionId === where.transactionId &&
+            approval.adminId === where.adminId
+        )
+      ),
+      create: jest.fn(async (values) => mockApprovals.push(values)),
+      count: jest.fn(async () => mockApprovals.length),
+    },
+  },
+}));
+
+import { sequelize } from "@b/db";
+import {
+  approveHeldWithdrawal,
+  assessWithdrawalRisk,
+  getWithdrawalHold,
+} from "@b/api/finance/withdraw/utils";
+
+// Checks the limits and records the withdrawal in one transaction, the way
+// the withdraw routes do
+function withdraw(id: string, amount: number) {
+  return sequelize.transaction(async (t) => {
+    const risk = await assessWithdrawalRisk(
+      { userId: "user-1", walletType: "SPOT", currency: "USDT", amount },
+      t
+    );
+    mockWithdrawals.push(
+      fakeRow({
+        id,
+        userId: "user-1",
+        type: "WITHDRAW",
+        status: "PENDING",
+        amount,
+        createdAt: new Date(),
+        wallet: { type: "SPOT", currency: "USDT" },
+        metadata: JSON.stringify({ ...(risk && { risk }) }),
+      })
+    );
+    return risk;
+  });
+}
+
+beforeEach(() => {
+  mockWithdrawals.length = 0;
+  mockApprovals.length = 0;
+  mockUserLocks.clear();
+});
+
+describe("assessWithdrawalRisk", () => {
+  it("lets a withdrawal within the limits go ahead", async () => {
+    await expect(withdraw("withdrawal-1", 60)).resolves.toBeNull();
+  });
+
+  it("holds a withdrawal over the 24h limit", async () => {
+    await withdraw("withdrawal-1", 60);
+
+    const risk = await withdraw("withdrawal-2", 60);
+
+    expect(risk).toMatchObject({ status: "HELD", policyId: "policy-1" });
+    expect(risk?.reasons[0]).toContain("24h limit of 100 USDT exceeded");
+  });
+
+  it("counts concurrent withdrawals by the same user one at a time", async () => {
+    const risks = await Promise.all([
+      withdraw("withdrawal-1", 60),
+      withdraw("withdrawal-2", 60),
+    ]);
+
+    expect(risks[0]).toBeNull();
+    expect(risks[1]).toMatchObject({ status: "HELD" });
+  });
+});
+
+describe("approveHeldWithdrawal", () => {
+  beforeEach(async () => {
+    await withdraw("withdrawal-1", 150);
+  });
+
+  it("releases a held withdrawal once an admin approves it", async () => {
+    const result = await approveHeldWithdrawal("withdrawal-1", "admin-1");
+
+    expect(result).toMatchObject({ approvals: 1, released: true });
+    expect(getWithdrawalHold(mockWithdrawals[0].metadata)).toBeNull();
+  });
+
+  it("rejects an admin approving their own withdrawal", async () => {
+    await expect(
+      approveHeldWithdrawal("withdrawal-1", "user-1")
+    ).rejects.toMatchObject({ statusCode: 403 });
+
+    expect(mockApprovals).toHaveLength(0);
+    expect(getWithdrawalHold(mockWithdrawals[0].metadata)).not.toBeNull();
+  });
+});
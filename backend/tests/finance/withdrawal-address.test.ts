@@ -0,0 +1,142 @@
+import { fakeRow, FakeRow } from "../helpers/models";
+
+let mockAddresses: FakeRow[] = [];
+let mockWhitelist = true;
+
+jest.mock("@b/utils/redis", () => ({
+  RedisSingleton: { getInstance: () => ({}) },
+}));
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: {
+    getInstance: () => ({ getSetting: jest.fn(async () => undefined) }),
+  },
+}));
+jest.mock("@b/utils/notifications", () => ({ createNotification: jest.fn() }));
+jest.mock("@b/utils/emails", () => ({
+  sendWithdrawalAddressChangedEmail: jest.fn(),
+  sendWithdrawalAddressCodeEmail: jest.fn(),
+}));
+jest.mock("@b/api/auth/otp/utils", () => ({
+  decrypt: jest.fn(),
+  isEncrypted: jest.fn(),
+  verifyOtp: jest.fn(),
+}));
+jest.mock("@b/db", () => ({
+  models: {
+    user: {
+      findByPk: jest.fn(async () => ({
+        settings: { withdrawalWhitelist: mockWhitelist },
+      })),
+    },
+    withdrawalAddress: {
+      findAll: jest.fn(async ({ where }) =>
+        mockAddresses.filter(
+          (row) => row.userId === where.userId && row.address === where.address
+        )
+      ),
+    },
+  },
+}));
+
+import {
+  ensureWithdrawalAllowed,
+  normalizeAddress,
+} from "@b/api/user/withdrawal-address/utils";
+
+const EVM_ADDRESS = "0xAbCdEf0123456789aBcDeF0123456789AbCdEf01";
+const HOUR = 60 * 60 * 1000;
+
+function savedAddress(values: Record<string, any> = {}) {
+  return fakeRow({
+    id: `address-${mockAddresses.length + 1}`,
+    userId: "user-1",
+    chain: "ERC20",
+    address: normalizeAddress(EVM_ADDRESS),
+    memo: null,
+    label: "Cold wallet",
+    status: "ACTIVE",
+    activatesAt: new Date(Date.now() - HOUR),
+    ...values,
+  });
+}
+
+const withdraw = (chain: string, address: string, memo?: string) =>
+  ensureWithdrawalAllowed("user-1", chain, address, memo);
+
+beforeEach(() => {
+  mockAddresses = [];
+  mockWhitelist = true;
+});
+
+describe("ensureWithdrawalAllowed", () => {
+  it("allows any destination while whitelist-only mode is off", async () => {
+    mockWhitelist = false;
+
+    await expect(withdraw("ERC20", EVM_ADDRESS)).resolves.toBeUndefined();
+  });
+
+  it("allows a usable saved address whatever the case of an EVM address", async () => {
+    mockAddresses = [savedAddress()];
+
+    await expect(
+      withdraw("erc20", EVM_ADDRESS.toLowerCase())
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects an address that is not in the address book", async () => {
+    mockAddresses = [savedAddress({ chain: "BEP20" })];
+
+    await expect(withdraw("ERC20", EVM_ADDRESS)).rejects.toMatchObject({
+      statusCode: 403,
+      message: expect.stringContaining("not in your address book"),
+    });
+  });
+
+  it("requires the memo to match the saved one exactly", async () => {
+    mockAddresses = [
+      savedAddress({ chain: "XRP", address: "rExchange", memo: null }),
+      savedAddress({ chain: "XRP", address: "rTagged", memo: "1001" }),
+    ];
+
+    // A saved entry without a memo does not cover another account's tag
+    await expect(withdraw("XRP", "rExchange", "2002")).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    await expect(withdraw("XRP", "rTagged")).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    await expect(withdraw("XRP", "rTagged", "2002")).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    await expect(withdraw("XRP", "rTagged", " 1001 ")).resolves.toBeUndefined();
+    await expect(withdraw("XRP", "rExchange")).resolves.toBeUndefined();
+  });
+
+  it("rejects an address that was not confirmed yet", async () => {
+    mockAddresses = [savedAddress({ status: "PENDING", activatesAt: null })];
+
+    await expect(withdraw("ERC20", EVM_ADDRESS)).rejects.toMatchObject({
+      statusCode: 403,
+      message: "This withdrawal address has not been confirmed yet",
+    });
+  });
+
+  it("rejects an address still in its cool-down", async () => {
+    const activatesAt = new Date(Date.now() + HOUR);
+    mockAddresses = [savedAddress({ activatesAt })];
+
+    await expect(withdraw("ERC20", EVM_ADDRESS)).rejects.toMatchObject({
+      statusCode: 403,
+      message: `This withdrawal address can be used from ${activatesAt.toISOString()}`,
+    });
+  });
+
+  it("uses a usable entry when a pending duplicate was saved first", async () => {
+    mockAddresses = [
+      savedAddress({ status: "PENDING", activatesAt: null }),
+      savedAddress(),
+    ];
+
+    await expect(withdraw("ERC20", EVM_ADDRESS)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+import type { FuturesPosition } from "@b/api/(ext)/futures/utils/queries/positions";
+
+const mockUpdateWalletBalance = jest.fn();
+const mockSettlePosition = jest.fn();
+const mockAdlEvents: any[] = [];
+let mockPositions: FuturesPosition[] = [];
+let mockWallet = { id: "wallet-1", balance: 0 };
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/notifications", () => ({ createNotification: jest.fn() }));
+jest.mock("@b/db", () => ({
+  models: {
+    futuresAdlEvent: {
+      create: jest.fn(async (values) => {
+        mockAdlEvents.push(values);
+        return values;
+      }),
+    },
+  },
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/blockchain", () => ({
+  fromBigInt: (value: bigint) => Number(value) / 10 ** 18,
+  toBigIntFloat: (value: number) =>
+    BigInt(Math.round(value * 10 ** 6)) * BigInt(10 ** 12),
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/wallet", () => ({
+  updateWalletBalance: (...args: any[]) => mockUpdateWalletBalance(...args),
+}));
+jest.mock("@b/api/finance/wallet/utils", () => ({
+  getWalletSafe: jest.fn(async () => mockWallet),
+}));
+jest.mock("@b/api/(ext)/futures/utils/queries/positions", () => ({
+  getAllOpenPositions: jest.fn(async () => mockPositions),
+  settlePosition: (...args: any[]) => mockSettlePosition(...args),
+}));
+jest.mock("@b/api/(ext)/futures/utils/ws", () => ({
+  handlePositionBroadcast: jest.fn(),
+}));
+
+import {
+  autoDeleverage,
+  calculateBankruptcyPrice,
+  getAdlQueue,
+} from "@b/api/(ext)/futures/utils/adl";
+
+const scaled = (value: number) =>
+  BigInt(Math.round(value * 10 ** 6)) * BigInt(10 ** 12);
+
+function position(
+  id: string,
+  side: "BUY" | "SELL",
+  entryPrice: number,
+  amount: number,
+  margin: number,
+  leverage = 10
+): FuturesPosition {
+  return {
+    id,
+    userId: `user-${id}`,
+    symbol: "BTC/USDT",
+    side,
+    entryPrice: scaled(entryPrice),
+    amount: scaled(amount),
+    leverage,
+    marginMode: "ISOLATED",
+    margin: scaled(margin),
+    unrealizedPnl: BigInt(0),
+    status: "OPEN",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+beforeEach(() => {
+  mockPositions = [];
+  mockAdlEvents.length = 0;
+  mockWallet = { id: "wallet-1", balance: 0 };
+  mockUpdateWalletBalance.mockReset();
+  mockSettlePosition.mockReset();
+  mockSettlePosition.mockResolvedValue(true);
+});
+
+describe("calculateBankruptcyPrice", () => {
+  it("is where the collateral of a position runs out", () => {
+    expect(calculateBankruptcyPrice(position("a", "BUY", 100, 2, 20), 20)).toBe(
+      90
+    );
+    expect(
+      calculateBankruptcyPrice(position("a", "SELL", 100, 2, 20), 20)
+    ).toBe(110);
+  });
+});
+
+describe("getAdlQueue", () => {
+  it("ranks profitable opposing positions by leveraged return on margin", async () => {
+    mockPositions = [
+      // 10 profit on 10 margin at 5x
+      position("low", "SELL", 110, 1, 10, 5),
+      // 10 profit on 10 margin at 20x
+      position("high", "SELL", 110, 1, 10, 20),
+      // In loss, never deleveraged
+      position("losing", "SELL", 90, 1, 10, 50),
+      // Same side as the liquidated position
+      position("same", "BUY", 50, 1, 10, 50),
+    ];
+
+    const queue = await getAdlQueue("BTC/USDT", "BUY", 100);
+
+    expect(queue.map(({ position }) => position.id)).toEqual(["high", "low"]);
+    expect(queue[0].score).toBe(20);
+  });
+});
+
+describe("autoDeleverage", () => {
+  const liquidated = position("liquidated", "BUY", 120, 2, 24);
+
+  it("closes opposing positions at the bankruptcy price and pays them", async () => {
+    mockPositions = [position("short", "SELL", 110, 1, 10)];
+
+    // Mark 100, bankruptcy 95: each unit closed recovers 5
+    const covered = await autoDeleverage(liquidated, 100, 95, 2.5);
+
+    expect(covered).toBeCloseTo(2.5);
+    expect(mockSettlePosition).toHaveBeenCalledWith(
+      mockPositions[0],
+      scaled(0.5),
+      scaled(5),
+      "OPEN"
+    );
+    // Half the margin plus 15 profit per unit on half a unit
+    expect(mockUpdateWalletBalance).toHaveBeenCalledWith(
+      mockWallet,
+      12.5,
+      "add"
+    );
+    expect(mockAdlEvents).toEqual([
+      expect.objectContaining({ positionId: "short", amount: 0.5 }),
+    ]);
+  });
+
+  it("pays nothing for a position that changed since it was ranked", async () => {
+    mockPositions = [
+      position("closed-meanwhile", "SELL", 110, 1, 10),
+      position("next", "SELL", 105, 1, 10),
+    ];
+    mockSettlePosition.mockResolvedValueOnce(false);
+
+    const covered = await autoDeleverage(liquidated, 100, 95, 2.5);
+
+    expect(covered).toBeCloseTo(2.5);
+    expect(mockUpdateWalletBalance).toHaveBeenCalledTimes(1);
+    expect(mockAdlEvents).toEqual([
+      expect.objectContaining({ positionId: "next" }),
+    ]);
+  });
+});
@@ -0,0 +1,291 @@
+import type { FuturesPosition } from "@b/api/(ext)/futures/utils/queries/positions";
+
+const mockHistory: any[] = [];
+let mockPositions: FuturesPosition[] = [];
+let mockWallets: Record<string, { id: string; balance: number }> = {};
+let mockStored: { nextFundingTime: Date; fundingRate: number };
+let mockHistoryError: Error | null = null;
+
+const mockChangeWalletBalance = jest.fn(
+  async (walletId: string, amount: number, type: "add" | "subtract") => {
+    const wallet = Object.values(mockWallets).find(
+      ({ id }) => id === walletId
+    )!;
+    if (type === "subtract" && wallet.balance < amount) {
+      throw new Error("Insufficient funds");
+    }
+    wallet.balance += type === "add" ? amount : -amount;
+    return wallet.balance;
+  }
+);
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/redis", () => ({
+  RedisSingleton: {
+    getInstance: () => ({
+      // Every sample puts the mark 0.1% over the index
+      lrange: jest.fn(async () => ["0.001"]),
+      rpush: jest.fn(),
+      del: jest.fn(),
+    }),
+  },
+}));
+// The conditional update behaves like the single row UPDATE it stands for
+jest.mock("@b/db", () => ({
+  // Wallet balances are rolled back when the callback throws
+  sequelize: {
+    transaction: jest.fn(async (callback) => {
+      const balances = Object.values(mockWallets).map(({ balance }) => balance);
+      try {
+        return await callback({ LOCK: { UPDATE: "UPDATE" } });
+      } catch (error) {
+        Object.values(mockWallets).forEach((wallet, index) => {
+          wallet.balance = balances[index];
+        });
+        throw error;
+      }
+    }),
+  },
+  models: {
+    wallet: {
+      findOne: jest.fn(async ({ where }) => mockWallets[where.userId] || null),
+    },
+    futuresMarket: {
+      findAll: jest.fn(async () => [mockMarket()]),
+      update: jest.fn(async (values: any, { where }: any) => {
+        if (
+          mockStored.nextFundingTime.getTime() !==
+          where.nextFundingTime.getTime()
+        ) {
+          return [0];
+        }
+        Object.assign(mockStored, values);
+        return [1];
+      }),
+    },
+    futuresFundingHistory: {
+      bulkCreate: jest.fn(async (rows: any[]) => {
+        if (mockHistoryError) throw mockHistoryError;
+        mockHistory.push(...rows);
+        return rows;
+      }),
+    },
+  },
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/blockchain", () => ({
+  fromBigInt: (value: bigint) => Number(value) / 10 ** 18,
+  toBigIntFloat: (value: number) =>
+    BigInt(Math.round(value * 10 ** 6)) * BigInt(10 ** 12),
+}));
+jest.mock("@b/api/(ext)/futures/utils/wallet", () => ({
+  changeWalletBalance: (...args: [string, number, "add" | "subtract"]) =>
+    mockChangeWalletBalance(...args),
+}));
+jest.mock("@b/api/(ext)/futures/utils/matchingEngine", () => ({
+  FuturesMatchingEngine: {
+    getInstance: jest.fn(async () => ({
+      getTicker: () => ({ last: 100 }),
+      getTickers: () => ({}),
+      setFundingInfo: jest.fn(),
+    })),
+  },
+}));
+jest.mock("@b/api/(ext)/futures/utils/markPrice", () => ({
+  getMarkPrice: jest.fn(async () => 100.1),
+  getIndexPrice: jest.fn(async () => 100),
+}));
+// Margin updates only apply to the margin they were read with
+jest.mock("@b/api/(ext)/futures/utils/queries/positions", () => ({
+  getAllOpenPositions: jest.fn(async () => mockPositions),
+  getPositionById: jest.fn(async (_userId: string, id: string) => {
+    const stored = mockPositions.find((position) => position.id === id);
+    return stored ? { ...stored } : null;
+  }),
+  updatePositionMargin: jest.fn(async (position: any, margin: bigint) => {
+    const stored = mockPositions.find(({ id }) => id === position.id)!;
+    if (stored.status !== "OPEN" || stored.margin !== position.margin) {
+      return false;
+    }
+    stored.margin = margin;
+    return true;
+  }),
+}));
+jest.mock("@b/api/(ext)/futures/utils/ws", () => ({
+  handleTickersBroadcast: jest.fn(),
+}));
+
+import {
+  calculateFundingRate,
+  processFundingRates,
+  settleFunding,
+} from "@b/api/(ext)/futures/utils/funding";
+
+const scaled = (value: number) =>
+  BigInt(Math.round(value * 10 ** 6)) * BigInt(10 ** 12);
+
+function mockMarket(): any {
+  return {
+    id: "market-1",
+    currency: "BTC",
+    pair: "USDT",
+    interestRate: 0.0001,
+    fundingRateCap: 0.0075,
+    fundingIntervalHours: 8,
+    ...mockStored,
+    update: jest.fn(),
+  };
+}
+
+function position(
+  userId: string,
+  side: "BUY" | "SELL",
+  amount: number,
+  marginMode: "ISOLATED" | "CROSS" = "CROSS"
+): FuturesPosition {
+  return {
+    id: `position-${userId}`,
+    userId,
+    symbol: "BTC/USDT",
+    side,
+    entryPrice: scaled(100),
+    amount: scaled(amount),
+    leverage: 10,
+    marginMode,
+    margin: scaled(amount * 10),
+    unrealizedPnl: BigInt(0),
+    status: "OPEN",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+beforeEach(() => {
+  mockHistory.length = 0;
+  mockPositions = [position("long", "BUY", 2), position("short", "SELL", 2)];
+  mockWallets = {
+    long: { id: "wallet-long", balance: 1000 },
+    short: { id: "wallet-short", balance: 1000 },
+  };
+  mockStored = {
+    nextFundingTime: new Date(Date.now() - 1000),
+    fundingRate: 0,
+  };
+  mockHistoryError = null;
+  mockChangeWalletBalance.mockClear();
+});
+
+const margin = (userId: string) =>
+  Number(mockPositions.find((item) => item.userId === userId)!.margin) /
+  10 ** 18;
+
+describe("calculateFundingRate", () => {
+  it("clamps the interest component and caps the rate", () => {
+    expect(calculateFundingRate(0.001, 0.0001, 0.0075)).toBeCloseTo(0.0005);
+    expect(calculateFundingRate(0.0001, 0.0001, 0.0075)).toBeCloseTo(0.0001);
+    expect(calculateFundingRate(0.02, 0.0001, 0.0075)).toBe(0.0075);
+  });
+});
+
+describe("settleFunding", () => {
+  it("moves what the paying side was charged to the other side", async () => {
+    await settleFunding(mockMarket(), 0.001, 100, 100);
+
+    expect(mockWallets.long.balance).toBeCloseTo(999.8);
+    expect(mockWallets.short.balance).toBeCloseTo(1000.2);
+    expect(mockHistory.map(({ payment }) => payment)).toEqual([-0.2, 0.2]);
+  });
+
+  it("shares only what the paying wallets could cover", async () => {
+    mockWallets.long.balance = 0.05;
+
+    await settleFunding(mockMarket(), 0.001, 100, 100);
+
+    expect(mockWallets.long.balance).toBe(0);
+    expect(mockWallets.short.balance).toBeCloseTo(1000.05);
+  });
+
+  it("settles isolated positions from their margin", async () => {
+    mockPositions = [
+      position("long", "BUY", 2, "ISOLATED"),
+      position("short", "SELL", 2, "ISOLATED"),
+    ];
+
+    await settleFunding(mockMarket(), 0.001, 100, 100);
+
+    expect(margin("long")).toBeCloseTo(19.8);
+    expect(margin("short")).toBeCloseTo(20.2);
+    expect(mockChangeWalletBalance).not.toHaveBeenCalled();
+    expect(mockHistory.map(({ payment }) => payment)).toEqual([-0.2, 0.2]);
+  });
+
+  it("charges an isolated position no more than its margin", async () => {
+    mockPositions = [
+      { ...position("long", "BUY", 2, "ISOLATED"), margin: scaled(0.05) },
+      position("short", "SELL", 2),
+    ];
+
+    await settleFunding(mockMarket(), 0.001, 100, 100);
+
+    expect(margin("long")).toBe(0);
+    expect(mockWallets.short.balance).toBeCloseTo(1000.05);
+  });
+
+  it("leaves nothing settled when the settlement fails", async () => {
+    mockPositions = [
+      position("long", "BUY", 2, "ISOLATED"),
+      position("short", "SELL", 2),
+    ];
+    mockHistoryError = new Error("Connection lost");
+
+    await expect(settleFunding(mockMarket(), 0.001, 100, 100)).rejects.toThrow(
+      "Connection lost"
+    );
+
+    expect(margin("long")).toBe(20);
+    expect(mockWallets.short.balance).toBe(1000);
+  });
+});
+
+describe("processFundingRates", () => {
+  it("settles a due interval and schedules the next one", async () => {
+    const { settled } = await processFundingRates();
+
+    expect(settled).toBe(1);
+    expect(mockHistory).toHaveLength(2);
+    expect(mockStored.nextFundingTime.getTime()).toBeGreaterThan(Date.now());
+    expect(mockStored.fundingRate).toBeCloseTo(0.0005);
+  });
+
+  it("settles an interval once across overlapping runs", async () => {
+    // Both runs read the market before either claims its funding time
+    const results = await Promise.all([
+      processFundingRates(),
+      processFundingRates(),
+    ]);
+
+    expect(results.map(({ settled }) => settled).sort()).toEqual([0, 1]);
+    expect(mockHistory).toHaveLength(2);
+    expect(mockChangeWalletBalance).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives a failed interval back to be retried", async () => {
+    const due = mockStored.nextFundingTime;
+    mockHistoryError = new Error("Connection lost");
+
+    await expect(processFundingRates()).resolves.toMatchObject({ settled: 0 });
+    expect(mockStored).toEqual({ nextFundingTime: due, fundingRate: 0 });
+
+    mockHistoryError = null;
+    await expect(processFundingRates()).resolves.toMatchObject({ settled: 1 });
+    expect(mockHistory).toHaveLength(2);
+  });
+
+  it("leaves an interval that is not due yet", async () => {
+    mockStored.nextFundingTime = new Date(Date.now() + 60 * 1000);
+
+    const { settled } = await processFundingRates();
+
+    expect(settled).toBe(0);
+    expect(mockChangeWalletBalance).not.toHaveBeenCalled();
+  });
+});
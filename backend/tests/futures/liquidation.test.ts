@@ -0,0 +1,194 @@
+import type { FuturesPosition } from "@b/api/(ext)/futures/utils/queries/positions";
+
+const mockExecute = jest.fn();
+const mockUpdateWalletBalance = jest.fn();
+const mockDeposit = jest.fn();
+const mockCover = jest.fn();
+const mockAutoDeleverage = jest.fn();
+const mockBroadcast = jest.fn();
+let mockPositions: FuturesPosition[] = [];
+let mockWallet = { balance: 0 };
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/emails", () => ({ emailQueue: { add: jest.fn() } }));
+jest.mock("@b/db", () => ({
+  models: { user: { findOne: jest.fn(async () => null) } },
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/blockchain", () => ({
+  fromBigInt: (value: bigint) => Number(value) / 10 ** 18,
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/scylla/client", () => ({
+  default: { execute: (...args: any[]) => mockExecute(...args) },
+  scyllaFuturesKeyspace: "futures",
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/wallet", () => ({
+  updateWalletBalance: (...args: any[]) => mockUpdateWalletBalance(...args),
+}));
+jest.mock("@b/api/finance/wallet/utils", () => ({
+  getWalletSafe: jest.fn(async () => mockWallet),
+}));
+jest.mock("@b/api/(ext)/futures/utils/queries/positions", () => ({
+  getPositions: jest.fn(async () => mockPositions),
+  getAllOpenPositions: jest.fn(async () => mockPositions),
+}));
+jest.mock("@b/api/(ext)/futures/utils/markPrice", () => ({
+  getMarkPrice: jest.fn(),
+  refreshMarkPrice: jest.fn(),
+}));
+jest.mock("@b/api/(ext)/futures/utils/insuranceFund", () => ({
+  depositLiquidationSurplus: (...args: any[]) => mockDeposit(...args),
+  coverLiquidationDeficit: (...args: any[]) => mockCover(...args),
+}));
+jest.mock("@b/api/(ext)/futures/utils/adl", () => ({
+  autoDeleverage: (...args: any[]) => mockAutoDeleverage(...args),
+  // The collateral stands in for the price, so tests can check it
+  calculateBankruptcyPrice: (_position: any, collateral: number) => collateral,
+}));
+jest.mock("@b/api/(ext)/futures/utils/ws", () => ({
+  handlePositionBroadcast: (...args: any[]) => mockBroadcast(...args),
+}));
+
+import {
+  checkCrossAccount,
+  checkForLiquidation,
+} from "@b/api/(ext)/futures/utils/liquidation";
+
+const scaled = (value: number) =>
+  BigInt(Math.round(value * 10 ** 6)) * BigInt(10 ** 12);
+
+function position(
+  id: string,
+  symbol: string,
+  entryPrice: number,
+  margin: number,
+  marginMode: "ISOLATED" | "CROSS" = "CROSS"
+): FuturesPosition {
+  return {
+    id,
+    userId: "user-1",
+    symbol,
+    side: "BUY",
+    entryPrice: scaled(entryPrice),
+    amount: scaled(1),
+    leverage: 10,
+    marginMode,
+    margin: scaled(margin),
+    unrealizedPnl: BigInt(0),
+    status: "OPEN",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+// Half the notional as maintenance margin, so the accounts below are
+// liquidated and the settlement is what is being tested
+const tiers = (...symbols: string[]) =>
+  Object.fromEntries(
+    symbols.map((symbol) => [
+      symbol,
+      [{ maxNotional: null, maintenanceMarginRate: 0.5, maxLeverage: 10 }],
+    ])
+  );
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockPositions = [];
+  mockWallet = { balance: 0 };
+  mockExecute.mockResolvedValue({ wasApplied: () => true });
+  mockCover.mockImplementation(async (_entry, deficit) => deficit);
+});
+
+describe("checkCrossAccount", () => {
+  it("nets profits against losses and the wallet before the insurance fund", async () => {
+    mockPositions = [
+      position("btc", "BTC/USDT", 100, 10),
+      position("eth", "ETH/USDT", 100, 10),
+    ];
+    mockWallet = { balance: 10 };
+
+    // BTC ends 40 up on its margin, ETH 50 down: the wallet pays the last 10
+    const liquidated = await checkCrossAccount(
+      "user-1",
+      "USDT",
+      { "BTC/USDT": 130, "ETH/USDT": 40 },
+      tiers("BTC/USDT", "ETH/USDT")
+    );
+
+    expect(liquidated).toBe(2);
+    expect(mockUpdateWalletBalance).toHaveBeenCalledWith(
+      mockWallet,
+      expect.closeTo(10),
+      "subtract"
+    );
+    expect(mockDeposit).not.toHaveBeenCalled();
+    expect(mockCover).not.toHaveBeenCalled();
+    expect(mockBroadcast).toHaveBeenCalledTimes(2);
+  });
+
+  it("pays only the net surplus into the insurance fund", async () => {
+    mockPositions = [
+      position("btc", "BTC/USDT", 100, 10),
+      position("eth", "ETH/USDT", 100, 10),
+    ];
+
+    await checkCrossAccount(
+      "user-1",
+      "USDT",
+      { "BTC/USDT": 130, "ETH/USDT": 70 },
+      tiers("BTC/USDT", "ETH/USDT")
+    );
+
+    expect(mockDeposit).toHaveBeenCalledTimes(1);
+    expect(mockDeposit).toHaveBeenCalledWith(
+      expect.objectContaining({ positionId: "btc" }),
+      expect.closeTo(20)
+    );
+    expect(mockUpdateWalletBalance).not.toHaveBeenCalled();
+    expect(mockCover).not.toHaveBeenCalled();
+  });
+
+  it("does not settle positions that changed before they were closed", async () => {
+    mockPositions = [position("btc", "BTC/USDT", 100, 10)];
+    mockExecute.mockResolvedValue({ wasApplied: () => false });
+
+    const liquidated = await checkCrossAccount(
+      "user-1",
+      "USDT",
+      { "BTC/USDT": 50 },
+      tiers("BTC/USDT")
+    );
+
+    expect(liquidated).toBe(0);
+    expect(mockExecute.mock.calls[0][0]).toContain(
+      "IF status = ? AND amount = ? AND margin = ?"
+    );
+    expect(mockExecute.mock.calls[0][1].slice(-3)).toEqual([
+      "OPEN",
+      scaled(1).toString(),
+      scaled(10).toString(),
+    ]);
+    expect(mockCover).not.toHaveBeenCalled();
+    expect(mockBroadcast).not.toHaveBeenCalled();
+  });
+});
+
+describe("checkForLiquidation", () => {
+  it("deleverages the part of a deficit the fund cannot cover", async () => {
+    const isolated = position("btc", "BTC/USDT", 100, 10, "ISOLATED");
+    mockCover.mockResolvedValue(5);
+
+    // 10 margin against a loss of 30 leaves a deficit of 20
+    await checkForLiquidation(isolated, 70, tiers("BTC/USDT"));
+
+    expect(mockCover).toHaveBeenCalledWith(
+      expect.objectContaining({ positionId: "btc" }),
+      expect.closeTo(20)
+    );
+    expect(mockAutoDeleverage).toHaveBeenCalledWith(
+      isolated,
+      70,
+      expect.closeTo(10),
+      expect.closeTo(15)
+    );
+  });
+});
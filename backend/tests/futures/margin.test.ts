@@ -0,0 +1,160 @@
+import type { FuturesPosition } from "@b/api/(ext)/futures/utils/queries/positions";
+
+let mockBalance: number;
+let mockStored: { status: string; margin: bigint };
+const mockWallet = { id: "wallet-1", balance: 0 };
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/db", () => ({ models: {} }));
+jest.mock("@b/api/(ext)/ecosystem/utils/blockchain", () => ({
+  toBigIntFloat: (value: number) =>
+    BigInt(Math.round(value * 10 ** 6)) * BigInt(10 ** 12),
+}));
+// Balance changes apply one at a time, like under the wallet row lock
+const mockChangeWalletBalance = jest.fn(
+  async (_walletId: string, amount: number, type: "add" | "subtract") => {
+    if (type === "subtract" && mockBalance < amount) {
+      throw new Error("Insufficient funds");
+    }
+    mockBalance += type === "add" ? amount : -amount;
+    return mockBalance;
+  }
+);
+jest.mock("@b/api/(ext)/futures/utils/wallet", () => ({
+  changeWalletBalance: (...args: [string, number, "add" | "subtract"]) =>
+    mockChangeWalletBalance(...args),
+}));
+jest.mock("@b/api/finance/wallet/utils", () => ({
+  getWalletSafe: jest.fn(async () => mockWallet),
+}));
+// The conditional update behaves like the Scylla LWT it stands for
+jest.mock("@b/api/(ext)/futures/utils/queries/positions", () => ({
+  getPositionById: jest.fn(async () => ({
+    ...mockPosition(),
+    status: mockStored.status,
+    margin: mockStored.margin,
+    storedMargin: mockStored.margin,
+  })),
+  updatePositionMargin: jest.fn(
+    async (position: FuturesPosition, margin: bigint) => {
+      if (
+        mockStored.status !== "OPEN" ||
+        mockStored.margin !== position.storedMargin
+      ) {
+        return false;
+      }
+      mockStored.margin = margin;
+      return true;
+    }
+  ),
+}));
+jest.mock("@b/api/(ext)/futures/utils/markPrice", () => ({
+  getMarkPrice: jest.fn(async () => 100),
+}));
+jest.mock("@b/api/(ext)/futures/utils/ws", () => ({
+  handlePositionBroadcast: jest.fn(),
+}));
+
+import adjustMargin from "@b/api/(ext)/futures/position/[id]/margin.post";
+
+const scaled = (value: number) =>
+  BigInt(Math.round(value * 10 ** 6)) * BigInt(10 ** 12);
+
+function mockPosition(): FuturesPosition {
+  return {
+    id: "position-1",
+    userId: "user-1",
+    symbol: "BTC/USDT",
+    side: "BUY",
+    entryPrice: scaled(100),
+    amount: scaled(1),
+    leverage: 10,
+    marginMode: "ISOLATED",
+    margin: scaled(30),
+    storedMargin: scaled(30),
+    unrealizedPnl: BigInt(0),
+    status: "OPEN",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+const request = (type: "ADD" | "REMOVE", amount: number) =>
+  adjustMargin({
+    user: { id: "user-1" },
+    params: { id: "position-1" },
+    body: { type, amount },
+  } as any);
+
+beforeEach(() => {
+  mockStored = { status: "OPEN", margin: scaled(30) };
+  mockBalance = 100;
+  mockChangeWalletBalance.mockClear();
+});
+
+describe("adjust futures position margin", () => {
+  it("credits parallel removals of the same margin once", async () => {
+    // Both requests read the position before either claims the change
+    const results = await Promise.allSettled([
+      request("REMOVE", 15),
+      request("REMOVE", 15),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(mockChangeWalletBalance).toHaveBeenCalledTimes(1);
+    expect(mockBalance).toBe(115);
+    expect(mockStored.margin).toBe(scaled(15));
+  });
+
+  it("does not pay out margin of a position liquidated meanwhile", async () => {
+    mockStored.status = "LIQUIDATED";
+    const { getPositionById } = jest.requireMock(
+      "@b/api/(ext)/futures/utils/queries/positions"
+    );
+    getPositionById.mockResolvedValueOnce(mockPosition());
+
+    await expect(request("REMOVE", 10)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(mockChangeWalletBalance).not.toHaveBeenCalled();
+  });
+
+  it("claims no margin the wallet cannot pay for", async () => {
+    await expect(request("ADD", 120)).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(mockStored.margin).toBe(scaled(30));
+  });
+
+  it("funds parallel additions from the balance only once", async () => {
+    // Each addition alone is covered, both together are not
+    const results = await Promise.allSettled([
+      request("ADD", 60),
+      request("ADD", 60),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(mockBalance).toBe(40);
+    expect(mockStored.margin).toBe(scaled(90));
+  });
+
+  it("returns the payment for an addition that lost its claim", async () => {
+    // Margin was added elsewhere after this request read the position
+    mockStored.margin = scaled(35);
+    const { getPositionById } = jest.requireMock(
+      "@b/api/(ext)/futures/utils/queries/positions"
+    );
+    getPositionById.mockResolvedValueOnce(mockPosition());
+
+    await expect(request("ADD", 20)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(mockBalance).toBe(100);
+  });
+});
@@ -0,0 +1,262 @@
+import type { FuturesOrder } from "@b/api/(ext)/futures/utils/queries/order";
+import type { FuturesPosition } from "@b/api/(ext)/futures/utils/queries/positions";
+
+const mockUpdateWalletBalance = jest.fn();
+const mockSettlePosition = jest.fn();
+const mockLogError = jest.fn();
+let mockPositions: FuturesPosition[] = [];
+const mockWallet = { id: "wallet-1", balance: 100 };
+
+jest.mock("@b/utils/logger", () => ({
+  logError: (...args: any[]) => mockLogError(...args),
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/scylla/queries", () => ({
+  OrderBook: {},
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/blockchain", () => ({
+  fromBigInt: (value: bigint) => Number(value) / 10 ** 18,
+  fromBigIntMultiply: (a: bigint, b: bigint) =>
+    (Number(a) / 10 ** 18) * (Number(b) / 10 ** 18),
+  BigIntReplacer: (_key: string, value: any) =>
+    typeof value === "bigint" ? value.toString() : value,
+}));
+jest.mock("@b/api/(ext)/ecosystem/utils/wallet", () => ({
+  updateWalletBalance: (...args: any[]) => mockUpdateWalletBalance(...args),
+}));
+jest.mock("@b/api/finance/wallet/utils", () => ({
+  getWallet: jest.fn(async () => mockWallet),
+  getWalletSafe: jest.fn(async () => mockWallet),
+}));
+jest.mock("@b/api/(ext)/futures/utils/ws", () => ({
+  handleTradesBroadcast: jest.fn(),
+  handlePositionBroadcast: jest.fn(),
+}));
+jest.mock("@b/api/(ext)/futures/utils/queries/positions", () => ({
+  getPosition: jest.fn(
+    async (userId: string, symbol: string, side: string) =>
+      mockPositions.find(
+        (position) =>
+          position.userId === userId &&
+          position.symbol === symbol &&
+          position.side === side
+      ) || null
+  ),
+  settlePosition: (...args: any[]) => mockSettlePosition(...args),
+  createPosition: jest.fn(),
+  updatePositionInDB: jest.fn(),
+  updatePositionStatus: jest.fn(),
+}));
+
+import { matchAndCalculateOrders } from "@b/api/(ext)/futures/utils/matchmaking";
+
+const scaled = (value: number) =>
+  BigInt(Math.round(value * 10 ** 6)) * BigInt(10 ** 12);
+
+let clock = 0;
+
+function order(
+  id: string,
+  side: "BUY" | "SELL",
+  amount: number,
+  values: Partial<FuturesOrder> = {}
+): FuturesOrder {
+  return {
+    id,
+    userId: `user-${id}`,
+    symbol: "BTC/USDT",
+    type: "LIMIT",
+    timeInForce: "GTC",
+    side,
+    price: scaled(100),
+    amount: scaled(amount),
+    filled: BigInt(0),
+    remaining: scaled(amount),
+    cost: scaled(amount * 10),
+    fee: BigInt(0),
+    feeCurrency: "USDT",
+    trades: "[]",
+    status: "OPEN",
+    leverage: 10,
+    // Orders are created in the order a test lists them
+    createdAt: new Date(++clock),
+    updatedAt: new Date(clock),
+    ...values,
+  };
+}
+
+function position(
+  userId: string,
+  side: "BUY" | "SELL",
+  amount: number
+): FuturesPosition {
+  return {
+    id: `position-${userId}`,
+    userId,
+    symbol: "BTC/USDT",
+    side,
+    entryPrice: scaled(110),
+    amount: scaled(amount),
+    leverage: 10,
+    marginMode: "ISOLATED",
+    margin: scaled(amount * 11),
+    unrealizedPnl: BigInt(0),
+    status: "OPEN",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+const match = (orders: FuturesOrder[]) =>
+  matchAndCalculateOrders(orders, { bids: {}, asks: {} });
+
+beforeEach(() => {
+  mockPositions = [];
+  mockUpdateWalletBalance.mockReset();
+  mockSettlePosition.mockReset();
+  mockSettlePosition.mockResolvedValue(true);
+  mockLogError.mockReset();
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("time in force", () => {
+  it("cancels what an IOC order could not fill right away", async () => {
+    const resting = order("maker", "SELL", 1);
+    const ioc = order("taker", "BUY", 2, { timeInForce: "IOC" });
+
+    const { cancelledOrders } = await match([resting, ioc]);
+
+    expect(ioc).toMatchObject({
+      filled: scaled(1),
+      remaining: BigInt(0),
+      status: "CANCELED",
+    });
+    expect(cancelledOrders).toEqual([ioc]);
+    // The margin locked for the unfilled half goes back
+    expect(mockUpdateWalletBalance).toHaveBeenCalledWith(mockWallet, 10, "add");
+  });
+
+  it("cancels an FOK order the book cannot fill completely", async () => {
+    const resting = order("maker", "SELL", 1);
+    const fok = order("taker", "BUY", 2, { timeInForce: "FOK" });
+
+    const { matchedOrders } = await match([resting, fok]);
+
+    expect(matchedOrders).toEqual([]);
+    expect(fok.status).toBe("CANCELED");
+    expect(resting).toMatchObject({ status: "OPEN", remaining: scaled(1) });
+  });
+
+  it("fills an FOK order the book can fill completely", async () => {
+    const resting = order("maker", "SELL", 2);
+    const fok = order("taker", "BUY", 2, { timeInForce: "FOK" });
+
+    await match([resting, fok]);
+
+    expect(fok).toMatchObject({ status: "CLOSED", filled: scaled(2) });
+  });
+});
+
+describe("post-only", () => {
+  it("cancels a post-only order that would take liquidity", async () => {
+    const resting = order("maker", "SELL", 1);
+    const postOnly = order("taker", "BUY", 1, { postOnly: true });
+
+    const { matchedOrders, cancelledOrders } = await match([resting, postOnly]);
+
+    expect(matchedOrders).toEqual([]);
+    expect(cancelledOrders).toEqual([postOnly]);
+    expect(resting.status).toBe("OPEN");
+  });
+
+  it("lets a resting post-only order be filled as the maker", async () => {
+    const postOnly = order("maker", "SELL", 1, { postOnly: true });
+    const taker = order("taker", "BUY", 1);
+
+    await match([postOnly, taker]);
+
+    expect(postOnly.status).toBe("CLOSED");
+  });
+});
+
+describe("reduce-only", () => {
+  it("cancels a reduce-only order without a position to close", async () => {
+    const reduceOnly = order("closer", "BUY", 1, { reduceOnly: true });
+
+    const { cancelledOrders } = await match([reduceOnly]);
+
+    expect(cancelledOrders).toEqual([reduceOnly]);
+    expect(reduceOnly.status).toBe("CANCELED");
+  });
+
+  it("caps reduce-only orders together to the position they close", async () => {
+    mockPositions = [position("user-1", "SELL", 1)];
+    const first = order("first", "BUY", 0.8, {
+      userId: "user-1",
+      reduceOnly: true,
+    });
+    const second = order("second", "BUY", 0.8, {
+      userId: "user-1",
+      reduceOnly: true,
+    });
+
+    await match([first, second]);
+
+    expect(first.remaining).toBe(scaled(0.8));
+    expect(second.remaining).toBe(scaled(0.2));
+  });
+
+  it("settles a fill once the position claim applies", async () => {
+    mockPositions = [position("user-1", "SELL", 1)];
+    const reduceOnly = order("closer", "BUY", 1, {
+      userId: "user-1",
+      reduceOnly: true,
+    });
+    const maker = order("maker", "SELL", 1);
+    // A liquidation check touched the position between read and claim
+    mockSettlePosition.mockResolvedValueOnce(false);
+
+    await match([maker, reduceOnly]);
+
+    expect(mockSettlePosition).toHaveBeenCalledTimes(2);
+    expect(mockSettlePosition).toHaveBeenLastCalledWith(
+      mockPositions[0],
+      scaled(1),
+      scaled(11),
+      "CLOSED"
+    );
+    // 11 margin and 10 profit on a short from 110 closed at 100
+    expect(mockUpdateWalletBalance).toHaveBeenCalledTimes(1);
+    expect(mockUpdateWalletBalance).toHaveBeenCalledWith(mockWallet, 21, "add");
+  });
+
+  it("reports a fill beyond a position that shrank meanwhile", async () => {
+    mockPositions = [position("user-1", "SELL", 1)];
+    const reduceOnly = order("closer", "BUY", 1, {
+      userId: "user-1",
+      reduceOnly: true,
+    });
+    const maker = order("maker", "SELL", 1);
+    const { getPosition } = jest.requireMock(
+      "@b/api/(ext)/futures/utils/queries/positions"
+    );
+    getPosition
+      .mockResolvedValueOnce(mockPositions[0])
+      .mockResolvedValueOnce(position("user-1", "SELL", 0.5));
+
+    await match([maker, reduceOnly]);
+
+    expect(mockSettlePosition).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: scaled(0.5) }),
+      scaled(0.5),
+      scaled(5.5),
+      "CLOSED"
+    );
+    expect(mockLogError).toHaveBeenCalledWith(
+      "process_matched_orders",
+      expect.objectContaining({
+        message: expect.stringContaining("beyond the position"),
+      }),
+      expect.any(String)
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import crypto from "crypto";
+
+const mockRedisStore = new Map<string, number>();
+
+jest.mock("@b/utils/logger", () => ({
+  __esModule: true,
+  default: jest.fn(),
+  logError: jest.fn(),
+}));
+jest.mock("@b/utils/token", () => ({}));
+jest.mock("@b/utils/redis", () => ({
+  RedisSingleton: {
+    getInstance: () => ({
+      // SET key value PX ttl NX, with expiry checked against Date.now()
+      set: jest.fn(async (key: string, _value: string, _px, ttl: number) => {
+        const expiresAt = mockRedisStore.get(key);
+        if (expiresAt !== undefined && expiresAt > Date.now()) return null;
+        mockRedisStore.set(key, Date.now() + ttl);
+        return "OK";
+      }),
+    }),
+  },
+}));
+jest.mock("@b/db", () => ({
+  models: {
+    apiKey: {
+      findOne: jest.fn(async () => ({
+        id: "key-1",
+        userId: "user-1",
+        secret: "secret",
+        permissions: ["trade"],
+      })),
+    },
+  },
+}));
+
+import { authenticate } from "@b/handler/Middleware";
+
+const START = 1_700_000_000_000;
+
+function signedRequest(timestamp: number, recvWindow?: number) {
+  const url = "/api/exchange/order";
+  const body = '{"amount":1}';
+  const signature = crypto
+    .createHmac("sha256", "secret")
+    .update(`${timestamp}POST${url}${body}`)
+    .digest("hex");
+  return {
+    method: "POST",
+    url,
+    rawQuery: "",
+    rawBodyContent: body,
+    cookies: {},
+    remoteAddress: "203.0.113.10",
+    headers: {
+      "x-api-key": "public-key",
+      "x-api-timestamp": String(timestamp),
+      "x-api-signature": signature,
+      ...(recvWindow ? { "x-api-recv-window": String(recvWindow) } : {}),
+    },
+    setUser: jest.fn(),
+  };
+}
+
+async function send(req: any) {
+  const res = { handleError: jest.fn() };
+  const next = jest.fn();
+  await authenticate(res as any, req, next);
+  return { next, res };
+}
+
+beforeEach(() => {
+  mockRedisStore.clear();
+  jest.spyOn(Date, "now").mockReturnValue(START);
+});
+
+describe("API key request signing", () => {
+  it("accepts a correctly signed request", async () => {
+    const { next, res } = await send(signedRequest(START));
+
+    expect(next).toHaveBeenCalled();
+    expect(res.handleError).not.toHaveBeenCalled();
+  });
+
+  it("rejects a replay of the same signature", async () => {
+    await send(signedRequest(START));
+    const { next, res } = await send(signedRequest(START));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.handleError).toHaveBeenCalledWith(
+      401,
+      "Request signature already used"
+    );
+  });
+
+  it("rejects a replay that asks for a longer receive window", async () => {
+    await send(signedRequest(START));
+
+    // Past the default window, but inside the one the replay asks for
+    jest.spyOn(Date, "now").mockReturnValue(START + 30_000);
+    const { next, res } = await send(signedRequest(START, 60_000));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.handleError).toHaveBeenCalledWith(
+      401,
+      "Request signature already used"
+    );
+  });
+
+  it("rejects a request older than its receive window", async () => {
+    jest.spyOn(Date, "now").mockReturnValue(START + 10_000);
+    const { next, res } = await send(signedRequest(START));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.handleError).toHaveBeenCalledWith(
+      401,
+      "Request timestamp is outside the receive window"
+    );
+  });
+
+  it("rejects a tampered body", async () => {
+    const req = signedRequest(START);
+    req.rawBodyContent = '{"amount":100}';
+    const { res } = await send(req);
+
+    expect(res.handleError).toHaveBeenCalledWith(
+      401,
+      "Invalid request signature"
+    );
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * In-memory stand-ins for Sequelize rows and transactions, enough for the
+ * money-moving helpers that read a row and then update it.
+ */
+export type FakeRow = Record<string, any> & { update: jest.Mock };
+
+export function fakeRow(values: Record<string, any>): FakeRow {
+  const row = { ...values } as FakeRow;
+  row.update = jest.fn(async (changes: Record<string, any>) =>
+    Object.assign(row, changes)
+  );
+  row.increment = jest.fn(async (field: string, { by }: { by: number }) => {
+    row[field] += by;
+    return row;
+  });
+  row.decrement = jest.fn(async (field: string, { by }: { by: number }) => {
+    row[field] -= by;
+    return row;
+  });
+  return row;
+}
+
+// Sequelize operators are registered symbols, so they can be read back here
+const OPERATORS: Record<string, (field: any, value: any) => boolean> = {
+  lt: (field, value) => field < value,
+  lte: (field, value) => field <= value,
+  gt: (field, value) => field > value,
+  gte: (field, value) => field >= value,
+  ne: (field, value) => field !== value,
+  in: (field, value) => value.includes(field),
+};
+
+function matchesField(field: any, condition: any) {
+  if (
+    condition === null ||
+    typeof condition !== "object" ||
+    condition instanceof Date
+  ) {
+    return field === condition;
+  }
+  return Object.getOwnPropertySymbols(condition).every((operator) => {
+    const test = OPERATORS[Symbol.keyFor(operator) || ""];
+    return !!test && test(field, condition[operator]);
+  });
+}
+
+export function matchesWhere(row: FakeRow, where: Record<string, any>) {
+  return Object.entries(where).every(([key, condition]) =>
+    matchesField(row[key], condition)
+  );
+}
+
+/** Finds the first row matching `where`. */
+export function findWhere(rows: FakeRow[], where: Record<string, any>) {
+  return rows.find((row) => matchesWhere(row, where)) || null;
+}
+
+/** Applies a bulk update like `Model.update` and returns `[affectedCount]`. */
+export function updateWhere(
+  rows: FakeRow[],
+  changes: Record<string, any>,
+  where: Record<string, any>
+): [number] {
+  const matched = rows.filter((row) => matchesWhere(row, where));
+  matched.forEach((row) => Object.assign(row, changes));
+  return [matched.length];
+}
+
+export function fakeTransaction(): any {
+  return {
+    LOCK: { UPDATE: "UPDATE" },
+    afterCommit: jest.fn((callback: () => void) => callback()),
+  };
+}
@@ -0,0 +1,254 @@
+import {
+  fakeRow,
+  fakeTransaction,
+  findWhere,
+  FakeRow,
+} from "../helpers/models";
+
+const mockWallets: FakeRow[] = [];
+const mockSales: FakeRow[] = [];
+const mockTokens: FakeRow[] = [];
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: {
+    getInstance: () => ({
+      getSettings: async () =>
+        new Map([
+          ["nftMarketplaceFeePercentage", "2.5"],
+          ["nftMaxRoyaltyPercentage", "10"],
+        ]),
+    }),
+  },
+}));
+jest.mock("@b/db", () => ({
+  models: {
+    wallet: {
+      findOne: jest.fn(async ({ where }) => findWhere(mockWallets, where)),
+      create: jest.fn(async (values) => {
+        const wallet = fakeRow({ id: `wallet-${values.userId}`, ...values });
+        mockWallets.push(wallet);
+        return wallet;
+      }),
+    },
+    nftToken: {
+      findByPk: jest.fn(async (id) => findWhere(mockTokens, { id })),
+    },
+    nftCollection: {},
+    nftSale: {
+      findByPk: jest.fn(async (id) => findWhere(mockSales, { id })),
+      create: jest.fn(async (values) => {
+        const sale = fakeRow({ id: "sale-1", refundedAmount: 0, ...values });
+        mockSales.push(sale);
+        return sale;
+      }),
+    },
+    transaction: {
+      create: jest.fn(async (values) => ({ id: "trx-1", ...values })),
+      bulkCreate: jest.fn(async (rows) => rows),
+    },
+    nftRoyalty: {
+      create: jest.fn(),
+      findOne: jest.fn(async ({ where }) =>
+        where.saleId === "sale-1" ? { recipientId: "creator" } : null
+      ),
+    },
+    adminProfit: { create: jest.fn() },
+    nftListing: { update: jest.fn() },
+    nftActivity: { create: jest.fn() },
+  },
+}));
+
+import { models } from "@b/db";
+import {
+  refundNftSale,
+  settleNftSale,
+} from "@b/api/(ext)/nft/utils/marketplace";
+
+const wallet = (userId: string) => findWhere(mockWallets, { userId });
+
+function seedWallet(userId: string, balance: number, inOrder = 0) {
+  mockWallets.push(
+    fakeRow({
+      id: `wallet-${userId}`,
+      userId,
+      type: "SPOT",
+      currency: "USDT",
+      balance,
+      inOrder,
+    })
+  );
+}
+
+beforeEach(() => {
+  mockWallets.length = 0;
+  mockSales.length = 0;
+  mockTokens.length = 0;
+  mockTokens.push(
+    fakeRow({
+      id: "token-1",
+      name: "Token",
+      ownerId: "seller",
+      collectionId: "collection-1",
+      collection: { royaltyPercentage: 5, creatorId: "creator" },
+    })
+  );
+});
+
+describe("settleNftSale", () => {
+  const settle = (overrides: Record<string, any> = {}) =>
+    settleNftSale({
+      tokenId: "token-1",
+      sellerId: "seller",
+      buyerId: "buyer",
+      price: 100,
+      currency: "USDT",
+      walletType: "SPOT",
+      fundsLocked: false,
+      source: "FIXED_PRICE",
+      transaction: fakeTransaction(),
+      ...overrides,
+    });
+
+  it("splits the price between seller, royalty recipient and platform", async () => {
+    seedWallet("buyer", 150);
+
+    const sale = await settle();
+
+    expect(wallet("buyer")?.balance).toBe(50);
+    expect(wallet("seller")?.balance).toBe(92.5);
+    expect(wallet("creator")?.balance).toBe(5);
+    expect(sale).toMatchObject({
+      marketplaceFee: 2.5,
+      royaltyFee: 5,
+      totalFee: 7.5,
+      netAmount: 92.5,
+      status: "COMPLETED",
+    });
+    expect(mockTokens[0].ownerId).toBe("buyer");
+  });
+
+  it("takes the price out of locked funds for bids and offers", async () => {
+    seedWallet("buyer", 0, 100);
+
+    await settle({ fundsLocked: true, source: "OFFER" });
+
+    expect(wallet("buyer")).toMatchObject({ balance: 0, inOrder: 0 });
+  });
+
+  it("rejects a buyer who cannot cover the price", async () => {
+    seedWallet("buyer", 99);
+
+    await expect(settle()).rejects.toMatchObject({ statusCode: 400 });
+    expect(wallet("buyer")?.balance).toBe(99);
+    expect(mockTokens[0].ownerId).toBe("seller");
+  });
+
+  it("rejects a sale to the seller", async () => {
+    seedWallet("seller", 100);
+
+    await expect(settle({ buyerId: "seller" })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+});
+
+describe("refundNftSale", () => {
+  beforeEach(() => {
+    mockTokens[0].ownerId = "buyer";
+    mockSales.push(
+      fakeRow({
+        id: "sale-1",
+        tokenId: "token-1",
+        sellerId: "seller",
+        buyerId: "buyer",
+        price: "100.000000000000000000",
+        currency: "USDT",
+        marketplaceFee: 2.5,
+        royaltyFee: 5,
+        totalFee: 7.5,
+        netAmount: 92.5,
+        refundedAmount: 0,
+        status: "COMPLETED",
+        metadata: { walletType: "SPOT" },
+      })
+    );
+    seedWallet("seller", 500);
+    seedWallet("creator", 100);
+    seedWallet("buyer", 0);
+  });
+
+  it("takes a partial refund from each party in proportion to its share", async () => {
+    const refunded = await refundNftSale(
+      "sale-1",
+      40,
+      false,
+      fakeTransaction()
+    );
+
+    expect(refunded).toBe(40);
+    expect(wallet("seller")?.balance).toBe(463);
+    expect(wallet("creator")?.balance).toBe(98);
+    expect(wallet("buyer")?.balance).toBe(40);
+    // The platform funds its part of the fee by reversing the profit
+    expect(models.adminProfit.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: -1, type: "NFT_SALE" }),
+      expect.anything()
+    );
+    expect(mockSales[0]).toMatchObject({
+      refundedAmount: 40,
+      status: "COMPLETED",
+    });
+  });
+
+  it("never refunds more than the sale price in total", async () => {
+    await refundNftSale("sale-1", 60, false, fakeTransaction());
+
+    await expect(
+      refundNftSale("sale-1", 50, false, fakeTransaction())
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(wallet("buyer")?.balance).toBe(60);
+    expect(mockSales[0].refundedAmount).toBe(60);
+  });
+
+  it("refunds the rest and returns the token when cancelling", async () => {
+    await refundNftSale("sale-1", 30, false, fakeTransaction());
+
+    const refunded = await refundNftSale(
+      "sale-1",
+      null,
+      true,
+      fakeTransaction()
+    );
+
+    expect(refunded).toBe(70);
+    expect(wallet("buyer")?.balance).toBe(100);
+    // A seller who was paid the net amount can always cover a full refund
+    expect(wallet("seller")?.balance).toBe(407.5);
+    expect(wallet("creator")?.balance).toBe(95);
+    expect(mockSales[0].status).toBe("CANCELLED");
+    expect(mockTokens[0].ownerId).toBe("seller");
+  });
+
+  it("rejects a refund the seller cannot cover", async () => {
+    wallet("seller")!.balance = 10;
+
+    await expect(
+      refundNftSale("sale-1", 20, false, fakeTransaction())
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockSales[0].refundedAmount).toBe(0);
+  });
+
+  it("rejects a refund the royalty recipient cannot cover", async () => {
+    wallet("creator")!.balance = 0;
+
+    await expect(
+      refundNftSale("sale-1", 20, false, fakeTransaction())
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      message:
+        "The royalty recipient's balance is insufficient to cover this refund",
+    });
+    expect(mockSales[0].refundedAmount).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const attachmentDir = fs.mkdtempSync(path.join(os.tmpdir(), "p2p-attachments-"));
+process.env.P2P_ATTACHMENT_DIR = attachmentDir;
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/api/(ext)/p2p/utils/price", () => ({
+  calculateEffectivePrice: jest.fn(),
+}));
+
+import {
+  collectTradeAttachments,
+  decodeAttachments,
+  readTradeAttachment,
+  removeTradeAttachments,
+  storeTradeAttachments,
+} from "@b/api/(ext)/p2p/utils/attachments";
+
+const TRADE_ID = "7d6f4a52-3c1e-4b8a-9f0d-2e5b6c7a8d9e";
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(16),
+]);
+const PDF = Buffer.from("%PDF-1.4\n%fake receipt\n");
+
+const dataUrl = (mimeType: string, buffer: Buffer) =>
+  `data:${mimeType};base64,${buffer.toString("base64")}`;
+
+afterAll(() => {
+  fs.rmSync(attachmentDir, { recursive: true, force: true });
+});
+
+describe("decodeAttachments", () => {
+  it("accepts images and PDFs and fixes up the file name", () => {
+    const [image, pdf] = decodeAttachments(
+      [
+        { file: dataUrl("image/png", PNG), name: "../../receipt.png" },
+        { file: dataUrl("application/pdf", PDF), name: "statement" },
+      ],
+      3
+    );
+
+    expect(image).toMatchObject({ name: "receipt.png", mimeType: "image/png" });
+    expect(pdf).toMatchObject({
+      name: "statement.pdf",
+      mimeType: "application/pdf",
+    });
+  });
+
+  it("rejects types outside the whitelist", () => {
+    expect(() =>
+      decodeAttachments([{ file: dataUrl("text/html", PDF) }], 3)
+    ).toThrow("Invalid file type");
+  });
+
+  it("rejects content that does not match the declared type", () => {
+    expect(() =>
+      decodeAttachments([{ file: dataUrl("image/png", PDF) }], 3)
+    ).toThrow("does not match");
+  });
+
+  it("rejects files over the size limit", () => {
+    const large = Buffer.concat([PDF, Buffer.alloc(5 * 1024 * 1024)]);
+    expect(() =>
+      decodeAttachments([{ file: dataUrl("application/pdf", large) }], 3)
+    ).toThrow("5MB");
+  });
+
+  it("rejects more files than allowed", () => {
+    const file = { file: dataUrl("image/png", PNG) };
+    expect(() => decodeAttachments([file, file], 1)).toThrow("at most 1");
+  });
+});
+
+describe("trade attachment storage", () => {
+  it("stores files under the trade and reads back referenced ones", async () => {
+    const [stored] = await storeTradeAttachments(
+      TRADE_ID,
+      "buyer-1",
+      decodeAttachments([{ file: dataUrl("image/png", PNG) }], 3)
+    );
+
+    const attachments = collectTradeAttachments(
+      { timeline: [{ event: "MESSAGE", attachments: [stored] }] },
+      [{ evidence: [{ type: "text", content: "no file" }] }]
+    );
+    const read = await readTradeAttachment(TRADE_ID, attachments, stored.id);
+
+    expect(read.data).toBe(dataUrl("image/png", PNG));
+    expect(read.uploadedBy).toBe("buyer-1");
+  });
+
+  it("refuses attachments the trade does not reference", async () => {
+    const [stored] = await storeTradeAttachments(
+      TRADE_ID,
+      "buyer-1",
+      decodeAttachments([{ file: dataUrl("application/pdf", PDF) }], 3)
+    );
+
+    await expect(
+      readTradeAttachment(TRADE_ID, [], stored.id)
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it("removes files whose update did not commit", async () => {
+    const [stored] = await storeTradeAttachments(
+      TRADE_ID,
+      "seller-1",
+      decodeAttachments([{ file: dataUrl("application/pdf", PDF) }], 3)
+    );
+    await removeTradeAttachments(TRADE_ID, [stored]);
+
+    expect(fs.existsSync(path.join(attachmentDir, TRADE_ID, stored.id))).toBe(
+      false
+    );
+  });
+});
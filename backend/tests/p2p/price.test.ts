@@ -0,0 +1,219 @@
+import { fakeRow, FakeRow } from "../helpers/models";
+
+let mockOffers: FakeRow[] = [];
+let offerCount = 0;
+const mockPrices: Record<string, number | null> = {};
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/db", () => ({
+  models: {
+    p2pOffer: { findAll: jest.fn(async () => mockOffers) },
+  },
+}));
+jest.mock("@b/api/finance/currency/utils", () => ({
+  getFiatPriceInUSD: jest.fn(async (currency: string) => mockPrices[currency]),
+}));
+jest.mock("@b/api/user/price-alert/utils", () => ({
+  getCurrentPrice: jest.fn(
+    async (_marketType: string, symbol: string) =>
+      mockPrices[symbol.split("/")[0]] ?? null
+  ),
+}));
+
+import { getCurrentPrice } from "@b/api/user/price-alert/utils";
+import {
+  applyLivePrices,
+  calculateEffectivePrice,
+  getLiveOfferPrice,
+  repriceFloatingOffers,
+} from "@b/api/(ext)/p2p/utils/price";
+import { validatePriceConfig } from "@b/api/(ext)/p2p/utils/validation";
+
+function offer(
+  type: "BUY" | "SELL",
+  priceConfig: Partial<PriceConfiguration>,
+  values: Record<string, any> = {}
+) {
+  return fakeRow({
+    id: `offer-${++offerCount}`,
+    type,
+    currency: "BTC",
+    walletType: "SPOT",
+    priceConfig: { model: "FIXED", value: 0, finalPrice: 0, ...priceConfig },
+    ...values,
+  }) as FakeRow & p2pOfferAttributes;
+}
+
+beforeEach(() => {
+  mockOffers = [];
+  Object.assign(mockPrices, { BTC: 100, ETH: 10, EUR: 1.1 });
+  jest.clearAllMocks();
+});
+
+describe("calculateEffectivePrice", () => {
+  it("adds a percentage margin above the market for buy offers and below for sell offers", () => {
+    const margin = { model: "MARGIN" as const, value: 5 };
+
+    expect(calculateEffectivePrice(offer("BUY", margin), 100)).toBe(105);
+    expect(calculateEffectivePrice(offer("SELL", margin), 100)).toBe(95);
+  });
+
+  it("adds a fixed margin as an amount", () => {
+    expect(
+      calculateEffectivePrice(
+        offer("SELL", { model: "MARGIN", value: 3, marginType: "fixed" }),
+        100
+      )
+    ).toBe(97);
+  });
+
+  it("keeps the price between the floor and the ceiling", () => {
+    const limited = {
+      model: "MARKET" as const,
+      floorPrice: 90,
+      ceilingPrice: 110,
+    };
+
+    expect(calculateEffectivePrice(offer("BUY", limited), 80)).toBe(90);
+    expect(calculateEffectivePrice(offer("BUY", limited), 120)).toBe(110);
+    expect(calculateEffectivePrice(offer("BUY", limited), 100)).toBe(100);
+  });
+
+  it("keeps the stored price of fixed offers and without a market price", () => {
+    expect(
+      calculateEffectivePrice(
+        offer("BUY", { model: "FIXED", finalPrice: 42 }),
+        100
+      )
+    ).toBe(42);
+    expect(
+      calculateEffectivePrice(
+        offer("BUY", { model: "MARKET", finalPrice: 99 }),
+        null
+      )
+    ).toBe(99);
+  });
+});
+
+describe("validatePriceConfig", () => {
+  it("prices a floating offer from the market", () => {
+    expect(
+      validatePriceConfig(
+        { model: "MARGIN", value: 2, floorPrice: 50 },
+        "BUY",
+        100
+      )
+    ).toMatchObject({
+      model: "MARGIN",
+      marginType: "percentage",
+      floorPrice: 50,
+      marketPrice: 100,
+      finalPrice: 102,
+    });
+  });
+
+  it("rejects floating pricing without a market price", () => {
+    expect(() => validatePriceConfig({ model: "MARKET" }, "BUY", null)).toThrow(
+      "Market price is required for floating pricing"
+    );
+  });
+
+  it("rejects a percentage margin beyond 10%", () => {
+    expect(() =>
+      validatePriceConfig({ model: "MARGIN", value: 12 }, "BUY", 100)
+    ).toThrow("Margin must be between -10% and +10%");
+  });
+
+  it("rejects invalid floor and ceiling prices", () => {
+    expect(() =>
+      validatePriceConfig({ model: "MARKET", floorPrice: -1 }, "BUY", 100)
+    ).toThrow("Floor price must be a positive number");
+    expect(() =>
+      validatePriceConfig(
+        { model: "MARKET", floorPrice: 120, ceilingPrice: 110 },
+        "BUY",
+        100
+      )
+    ).toThrow("Floor price cannot be above the ceiling price");
+  });
+
+  it("rejects a fixed margin that prices the offer at zero", () => {
+    expect(() =>
+      validatePriceConfig(
+        { model: "MARGIN", value: 100, marginType: "fixed" },
+        "SELL",
+        100
+      )
+    ).toThrow("Margin results in a price of zero or less");
+  });
+});
+
+describe("getLiveOfferPrice", () => {
+  it("prices floating offers from the market at the time of the trade", async () => {
+    mockPrices.BTC = 200;
+
+    await expect(
+      getLiveOfferPrice(
+        offer("SELL", { model: "MARGIN", value: 1, finalPrice: 99 })
+      )
+    ).resolves.toBe(198);
+  });
+
+  it("refuses a floating offer when the market price is unavailable", async () => {
+    mockPrices.BTC = null;
+
+    await expect(
+      getLiveOfferPrice(offer("SELL", { model: "MARKET", finalPrice: 99 }))
+    ).rejects.toThrow("Market price for BTC is unavailable");
+  });
+
+  it("uses the fiat rate for fiat offers", async () => {
+    await expect(
+      getLiveOfferPrice(
+        offer(
+          "BUY",
+          { model: "MARKET" },
+          { currency: "EUR", walletType: "FIAT" }
+        )
+      )
+    ).resolves.toBe(1.1);
+  });
+});
+
+describe("applyLivePrices", () => {
+  it("fetches each market price once and leaves fixed offers alone", async () => {
+    const offers = [
+      offer("BUY", { model: "MARKET" }),
+      offer("SELL", { model: "MARGIN", value: 10 }),
+      offer("BUY", { model: "FIXED", finalPrice: 50 }),
+    ];
+
+    await applyLivePrices(offers);
+
+    expect(offers.map((item) => item.priceConfig.finalPrice)).toEqual([
+      100, 90, 50,
+    ]);
+    expect(getCurrentPrice).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("repriceFloatingOffers", () => {
+  it("stores the new price of offers whose price moved", async () => {
+    mockOffers = [
+      offer("BUY", { model: "MARKET", finalPrice: 100 }),
+      offer("BUY", { model: "MARKET", finalPrice: 10 }, { currency: "ETH" }),
+    ];
+    mockPrices.ETH = 12;
+
+    await expect(repriceFloatingOffers()).resolves.toBe(1);
+
+    expect(mockOffers[0].update).not.toHaveBeenCalled();
+    expect(mockOffers[1].update).toHaveBeenCalledWith({
+      priceConfig: expect.objectContaining({
+        marketPrice: 12,
+        finalPrice: 12,
+        priceUpdatedAt: expect.any(String),
+      }),
+    });
+  });
+});
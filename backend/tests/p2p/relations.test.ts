@@ -0,0 +1,202 @@
+import { Op } from "sequelize";
+import { fakeRow, FakeRow, matchesWhere } from "../helpers/models";
+
+let mockRelations: FakeRow[] = [];
+const mockActivity: any[] = [];
+const mockTrades: Record<string, { buyerId: string; sellerId: string }> = {
+  "trade-1": { buyerId: "alice", sellerId: "bob" },
+};
+
+// matchesWhere only reads string keys, so the `Op.or` branch is checked here
+function mockMatchesRelation(row: FakeRow, where: any) {
+  const anyOf = where[Op.or];
+  return (
+    matchesWhere(row, where) &&
+    (!anyOf || anyOf.some((condition: any) => matchesWhere(row, condition)))
+  );
+}
+
+jest.mock("@b/db", () => ({
+  models: {
+    user: {
+      findByPk: jest.fn(async (id: string) =>
+        ["alice", "bob", "carol"].includes(id) ? { id } : null
+      ),
+    },
+    p2pTrade: {
+      findByPk: jest.fn(async (id: string) => mockTrades[id] || null),
+    },
+    p2pActivityLog: {
+      create: jest.fn(async (values: any) => mockActivity.push(values)),
+    },
+    p2pUserRelation: {
+      findAll: jest.fn(async ({ where }) =>
+        mockRelations.filter((row) => mockMatchesRelation(row, where))
+      ),
+      findOne: jest.fn(
+        async ({ where }) =>
+          mockRelations.find((row) => mockMatchesRelation(row, where)) || null
+      ),
+      count: jest.fn(
+        async ({ where }) =>
+          mockRelations.filter((row) => mockMatchesRelation(row, where)).length
+      ),
+      create: jest.fn(async (values: any) => {
+        const row = fakeRow({ id: `relation-${mockRelations.length + 1}` });
+        Object.assign(row, values);
+        mockRelations.push(row);
+        return row;
+      }),
+    },
+  },
+}));
+
+import setRelation from "@b/api/(ext)/p2p/relation/index.post";
+import {
+  getBlockedUserIds,
+  getOfferVisibilityWhere,
+  requireOfferAccess,
+} from "@b/api/(ext)/p2p/utils/relations";
+
+function relation(userId: string, targetUserId: string, type: string) {
+  mockRelations.push(
+    fakeRow({
+      id: `relation-${mockRelations.length + 1}`,
+      userId,
+      targetUserId,
+      type,
+    })
+  );
+}
+
+const trustedOnlyOffer = {
+  userId: "bob",
+  userRequirements: { trustedOnly: true },
+};
+
+beforeEach(() => {
+  mockRelations = [];
+  mockActivity.length = 0;
+});
+
+describe("getBlockedUserIds", () => {
+  it("lists users blocked in either direction once", async () => {
+    relation("alice", "bob", "BLOCKED");
+    relation("bob", "alice", "BLOCKED");
+    relation("carol", "alice", "BLOCKED");
+    relation("alice", "dave", "TRUSTED");
+
+    expect((await getBlockedUserIds("alice")).sort()).toEqual(["bob", "carol"]);
+  });
+});
+
+describe("requireOfferAccess", () => {
+  it("lets anyone else take a regular offer", async () => {
+    await expect(
+      requireOfferAccess("alice", { userId: "bob" })
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects a user blocked by or blocking the advertiser", async () => {
+    relation("bob", "alice", "BLOCKED");
+
+    await expect(
+      requireOfferAccess("alice", { userId: "bob" })
+    ).rejects.toMatchObject({ statusCode: 403 });
+    await expect(
+      requireOfferAccess("bob", { userId: "alice" })
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it("limits trusted-only offers to users the advertiser trusts", async () => {
+    // Trust in the other direction does not count
+    relation("alice", "bob", "TRUSTED");
+
+    await expect(
+      requireOfferAccess("alice", trustedOnlyOffer)
+    ).rejects.toMatchObject({
+      statusCode: 403,
+      message: "This offer is only available to the advertiser's trusted users",
+    });
+
+    relation("bob", "alice", "TRUSTED");
+    await expect(
+      requireOfferAccess("alice", trustedOnlyOffer)
+    ).resolves.toBeUndefined();
+  });
+
+  it("always lets the advertiser open their own offer", async () => {
+    await expect(
+      requireOfferAccess("bob", trustedOnlyOffer)
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("getOfferVisibilityWhere", () => {
+  it("hides trusted-only offers from anonymous viewers", async () => {
+    const where = await getOfferVisibilityWhere();
+
+    expect(where[Op.or]).toHaveLength(2);
+    expect(where[Op.not]).toBeUndefined();
+  });
+
+  it("shows trusted-only offers of trusters and hides blocked users", async () => {
+    relation("bob", "alice", "TRUSTED");
+    relation("alice", "carol", "BLOCKED");
+
+    const where = await getOfferVisibilityWhere("alice");
+
+    expect(where[Op.or]).toContainEqual({
+      userId: { [Op.in]: ["alice", "bob"] },
+    });
+    expect(where[Op.not]).toEqual({ userId: { [Op.in]: ["carol"] } });
+  });
+});
+
+describe("set a user relation", () => {
+  const request = (body: any) => setRelation({ user: { id: "alice" }, body });
+
+  it("replaces an existing relation with the same user", async () => {
+    await request({ userId: "bob", type: "trusted", note: "fast payer" });
+    await request({ userId: "bob", type: "BLOCKED" });
+
+    expect(mockRelations).toHaveLength(1);
+    expect(mockRelations[0]).toMatchObject({
+      userId: "alice",
+      targetUserId: "bob",
+      type: "BLOCKED",
+      note: null,
+    });
+    expect(mockActivity.map(({ type }) => type)).toEqual([
+      "USER_TRUSTED",
+      "USER_BLOCKED",
+    ]);
+  });
+
+  it("rejects an invalid type or the caller themselves", async () => {
+    await expect(
+      request({ userId: "bob", type: "FRIEND" })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      request({ userId: "alice", type: "BLOCKED" })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockRelations).toEqual([]);
+  });
+
+  it("rejects an unknown user", async () => {
+    await expect(
+      request({ userId: "mallory", type: "BLOCKED" })
+    ).rejects.toMatchObject({ statusCode: 404, message: "User not found" });
+  });
+
+  it("only links a trade between the caller and the user", async () => {
+    await expect(
+      request({ userId: "carol", type: "TRUSTED", tradeId: "trade-1" })
+    ).rejects.toMatchObject({ statusCode: 404, message: "Trade not found" });
+
+    await expect(
+      request({ userId: "bob", type: "TRUSTED", tradeId: "trade-1" })
+    ).resolves.toMatchObject({ message: "User trusted successfully." });
+    expect(mockRelations[0].tradeId).toBe("trade-1");
+  });
+});
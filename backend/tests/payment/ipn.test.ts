@@ -0,0 +1,137 @@
+import { EventEmitter } from "events";
+import http from "http";
+import https from "https";
+import { fakeRow, FakeRow } from "../helpers/models";
+
+const mockLookup = jest.fn();
+let mockIntent: FakeRow | null = null;
+
+jest.mock("dns/promises", () => ({
+  lookup: (...args: any[]) => mockLookup(...args),
+}));
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/notifications", () => ({ createNotification: jest.fn() }));
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: { getInstance: () => ({}) },
+}));
+jest.mock("@b/db", () => ({
+  sequelize: {},
+  models: {
+    paymentIntent: { findByPk: jest.fn(async () => mockIntent) },
+    apiKey: {
+      findByPk: jest.fn(async () => ({ key: "key", secret: "signing-secret" })),
+    },
+  },
+}));
+
+import { deliverIpn, validateIpnTarget } from "@b/api/(ext)/payment/utils";
+
+// Answers every request with `status` and keeps the options it was made with
+function stubRequest(client: typeof http | typeof https, status: number) {
+  return jest
+    .spyOn(client as typeof https, "request")
+    .mockImplementation((_url: any, _options: any, callback: any) => {
+      const request: any = new EventEmitter();
+      request.end = () => callback({ statusCode: status, resume: jest.fn() });
+      return request;
+    });
+}
+
+function seedIntent(ipnUrl = "https://merchant.example/ipn") {
+  mockIntent = fakeRow({
+    id: "intent-1",
+    status: "COMPLETED",
+    amount: 10,
+    tax: 0,
+    discount: 0,
+    ipnUrl,
+    ipnAttempts: 0,
+    ipnNextAttemptAt: new Date(),
+  });
+  return mockIntent;
+}
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  mockLookup.mockReset();
+  mockLookup.mockResolvedValue([{ address: "93.184.216.34", family: 4 }]);
+});
+
+describe("validateIpnTarget", () => {
+  it.each([
+    "127.0.0.1",
+    "10.0.0.1",
+    "100.64.0.1",
+    "169.254.169.254",
+    "198.18.0.1",
+    "240.0.0.1",
+    "[::1]",
+    "[::ffff:127.0.0.1]",
+    "[::ffff:a9fe:a9fe]",
+    "[64:ff9b::a00:1]",
+    "[2002:7f00:1::1]",
+    "[fd00::1]",
+  ])("rejects an IPN URL pointing at %s", async (host) => {
+    await expect(
+      validateIpnTarget(`https://${host}/ipn`)
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it("rejects a host that resolves to an internal address", async () => {
+    mockLookup.mockResolvedValue([
+      { address: "93.184.216.34", family: 4 },
+      { address: "10.0.0.5", family: 4 },
+    ]);
+
+    await expect(
+      validateIpnTarget("https://merchant.example/ipn")
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it("accepts a host with public addresses", async () => {
+    await expect(
+      validateIpnTarget("https://merchant.example/ipn")
+    ).resolves.toBe("https://merchant.example/ipn");
+  });
+});
+
+describe("deliverIpn", () => {
+  it("connects to the address it checked, whatever DNS answers later", async () => {
+    const intent = seedIntent();
+    const request = stubRequest(https, 200);
+
+    await expect(deliverIpn("intent-1")).resolves.toBe(true);
+
+    const options: any = request.mock.calls[0][1];
+    const callback = jest.fn();
+    options.lookup("merchant.example", { all: true }, callback);
+    expect(callback).toHaveBeenCalledWith(null, [
+      { address: "93.184.216.34", family: 4 },
+    ]);
+    expect(mockLookup).toHaveBeenCalledTimes(1);
+    expect(options.headers["X-Payment-Signature"]).toEqual(expect.any(String));
+    expect(intent.ipnNextAttemptAt).toBeNull();
+    expect(intent.ipnDeliveredAt).toBeInstanceOf(Date);
+  });
+
+  it("does not follow a redirect", async () => {
+    const intent = seedIntent();
+    stubRequest(https, 302);
+
+    await expect(deliverIpn("intent-1")).resolves.toBe(false);
+
+    expect(intent.ipnAttempts).toBe(1);
+    expect(intent.ipnNextAttemptAt).toBeInstanceOf(Date);
+  });
+
+  it("does not call a host that now resolves to an internal address", async () => {
+    const intent = seedIntent("http://merchant.example/ipn");
+    const request = stubRequest(http, 200);
+    mockLookup.mockResolvedValue([{ address: "127.0.0.1", family: 4 }]);
+
+    await expect(deliverIpn("intent-1")).resolves.toBe(false);
+
+    expect(request).not.toHaveBeenCalled();
+    expect(intent.ipnAttempts).toBe(1);
+  });
+});
@@ -0,0 +1,163 @@
+const mockHooks: Record<string, (...args: any[]) => any> = {};
+const mockSettings: Record<string, any>[] = [];
+const mockApiKeys: Record<string, any>[] = [];
+
+// A row as the audit hooks see it: get() and the model as its constructor
+function mockInstance(model: any, values: Record<string, any>) {
+  return {
+    ...values,
+    constructor: model,
+    get: (field?: any) =>
+      typeof field === "string" ? values[field] : { ...values },
+  };
+}
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: { getInstance: () => ({ clearCache: jest.fn() }) },
+}));
+jest.mock("@b/db", () => {
+  const apiKey: any = {
+    name: "apiKey",
+    primaryKeyAttribute: "id",
+    create: jest.fn(async (values, options) => {
+      const instance = mockInstance(apiKey, { id: "key-1", ...values });
+      mockApiKeys.push(values);
+      await mockHooks.afterCreate(instance, options);
+      return instance;
+    }),
+  };
+  const settings: any = {
+    name: "settings",
+    primaryKeyAttribute: "id",
+    findAll: jest.fn(async (options) => {
+      const where = options?.where || {};
+      return mockSettings
+        .filter((row) =>
+          where.key
+            ? row.key === where.key
+            : where.id
+              ? where.id.includes(row.id)
+              : true
+        )
+        .map((row) => ({ ...row }));
+    }),
+    create: jest.fn(async (values, options) => {
+      const row = { id: `setting-${mockSettings.length + 1}`, ...values };
+      mockSettings.push(row);
+      await mockHooks.afterCreate(mockInstance(settings, row), options);
+      return row;
+    }),
+    update: jest.fn(async (changes, options) => {
+      const hookOptions = { ...options, model: settings };
+      await mockHooks.beforeBulkUpdate(hookOptions);
+      mockSettings
+        .filter((row) => row.key === options.where.key)
+        .forEach((row) => Object.assign(row, changes));
+      await mockHooks.afterBulkUpdate(hookOptions);
+    }),
+  };
+  return {
+    models: { apiKey, settings },
+    sequelize: {
+      transaction: jest.fn(async () => {
+        const callbacks: (() => void)[] = [];
+        return {
+          afterCommit: (callback: () => void) => callbacks.push(callback),
+          commit: async () => callbacks.forEach((callback) => callback()),
+          rollback: jest.fn(),
+        };
+      }),
+    },
+  };
+});
+
+import { registerAuditHooks, runAudited } from "@b/utils/audit";
+import storeApiKey from "@b/api/admin/api/index.post";
+import updateSettings from "@b/api/admin/system/settings/index.put";
+
+const auditLog = { create: jest.fn() };
+
+registerAuditHooks({
+  addHook: (name: string, hook: (...args: any[]) => any) => {
+    mockHooks[name] = hook;
+  },
+  models: { adminAuditLog: auditLog },
+} as any);
+
+function audit(route: string, method: string, body: any, handler: () => any) {
+  const req = {
+    user: { id: "admin-1" },
+    url: route,
+    params: {},
+    body,
+    headers: {},
+    remoteAddress: "203.0.113.10",
+  };
+  return runAudited(req, route, method, handler);
+}
+
+const entry = () => auditLog.create.mock.calls[0][0];
+
+beforeEach(() => {
+  auditLog.create.mockClear();
+  mockSettings.length = 0;
+  mockApiKeys.length = 0;
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+describe("admin audit log", () => {
+  it("does not record the key of a new API key", async () => {
+    const body = {
+      userId: "user-1",
+      name: "Trading bot",
+      type: "user",
+      permissions: ["trade"],
+    };
+
+    await audit("/api/admin/api", "post", body, () =>
+      storeApiKey({ body } as any)
+    );
+
+    const { changes } = entry();
+    expect(changes[0]).toMatchObject({
+      model: "apiKey",
+      action: "CREATE",
+      after: { key: "[REDACTED]", name: "Trading bot" },
+    });
+    expect(JSON.stringify(entry())).not.toContain(mockApiKeys[0].key);
+  });
+
+  it("does not record the values of secret settings", async () => {
+    mockSettings.push(
+      { id: "setting-1", key: "stripeSecretKey", value: "sk_live_old" },
+      { id: "setting-2", key: "siteName", value: "Old name" }
+    );
+    const body = {
+      stripeSecretKey: "sk_live_new",
+      siteName: "New name",
+      twilioAuthToken: "twilio-token",
+    };
+
+    await audit("/api/admin/system/settings", "put", body, () =>
+      updateSettings({ body })
+    );
+
+    const recorded = JSON.stringify(entry());
+    expect(recorded).not.toContain("sk_live_old");
+    expect(recorded).not.toContain("sk_live_new");
+    expect(recorded).not.toContain("twilio-token");
+    expect(entry().requestBody).toEqual({
+      stripeSecretKey: "[REDACTED]",
+      siteName: "New name",
+      twilioAuthToken: "[REDACTED]",
+    });
+    expect(entry().changes).toContainEqual(
+      expect.objectContaining({
+        model: "settings",
+        before: { value: "Old name" },
+        after: { value: "New name" },
+      })
+    );
+  });
+});
@@ -0,0 +1,255 @@
+const mockValues = new Map<string, string>();
+const mockTtls = new Map<string, number>();
+
+jest.mock("@b/utils/redis", () => ({
+  RedisSingleton: {
+    getInstance: () => ({
+      get: jest.fn(async (key: string) => mockValues.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string, _ex, ttl: number) => {
+        mockValues.set(key, value);
+        mockTtls.set(key, ttl);
+        return "OK";
+      }),
+    }),
+  },
+}));
+
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: {
+    getInstance: () => ({ getSetting: jest.fn(async () => "true") }),
+  },
+}));
+
+const mockLevels = [
+  { id: "level-1", name: "Basic", level: 1, features: '["view_wallets"]' },
+  {
+    id: "level-2",
+    name: "Advanced",
+    level: 2,
+    features: ["withdraw_wallet", "API_KEYS"],
+  },
+];
+const mockApplications: any[] = [];
+let mockValidityLevel: any = null;
+
+jest.mock("@b/db", () => ({
+  models: {
+    kycLevel: {
+      findAll: jest.fn(async () => mockLevels),
+      findByPk: jest.fn(async () => mockValidityLevel),
+    },
+    kycApplication: { findAll: jest.fn(async () => mockApplications) },
+  },
+}));
+
+import { models } from "@b/db";
+import {
+  checkKycRequirement,
+  extractDocumentExpiry,
+  getKycApprovalExpiry,
+  getKycValidity,
+  getRequiredKycLevel,
+  getUserKycAccess,
+  parseKycFeatures,
+} from "@b/utils/kyc";
+
+function apply(
+  status: string,
+  level: (typeof mockLevels)[number],
+  expiresAt: Date | null = null
+) {
+  mockApplications.push({
+    status,
+    expiresAt,
+    level: { id: level.id, level: level.level },
+  });
+}
+
+beforeEach(() => {
+  mockValues.clear();
+  mockTtls.clear();
+  mockApplications.length = 0;
+  mockValidityLevel = null;
+  jest.clearAllMocks();
+});
+
+describe("getRequiredKycLevel", () => {
+  const levels = mockLevels.map((level) => ({
+    ...level,
+    features: parseKycFeatures(level.features),
+  }));
+
+  it("needs the lowest level that unlocks the feature", () => {
+    expect(getRequiredKycLevel({ feature: "withdraw_wallet" }, levels)).toBe(2);
+    expect(getRequiredKycLevel({ feature: "api_keys" }, levels)).toBe(2);
+  });
+
+  it("needs an approved KYC for features no level lists", () => {
+    expect(getRequiredKycLevel({ feature: "futures_trading" }, levels)).toBe(1);
+  });
+
+  it("keeps the higher of a level and a feature requirement", () => {
+    expect(
+      getRequiredKycLevel({ level: 3, feature: "view_wallets" }, levels)
+    ).toBe(3);
+  });
+});
+
+describe("checkKycRequirement", () => {
+  it("tells the user which level to complete", async () => {
+    apply("APPROVED", mockLevels[0]);
+    apply("PENDING", mockLevels[1]);
+
+    expect(
+      await checkKycRequirement("user-1", { feature: "withdraw_wallet" })
+    ).toEqual({
+      requiredLevel: 2,
+      currentLevel: 1,
+      feature: "withdraw_wallet",
+      nextLevel: { id: "level-2", name: "Advanced", level: 2 },
+      pendingLevel: 2,
+    });
+  });
+
+  it("lets through users whose level unlocks the feature", async () => {
+    apply("APPROVED", mockLevels[1]);
+
+    expect(
+      await checkKycRequirement("user-1", { feature: "view_wallets" })
+    ).toBeNull();
+  });
+
+  it("ignores applications that were not approved", async () => {
+    apply("REJECTED", mockLevels[1]);
+
+    expect(await getUserKycAccess("user-1")).toEqual({
+      level: 0,
+      levelId: null,
+      pendingLevel: null,
+    });
+  });
+
+  it("ignores approvals that have expired", async () => {
+    apply("APPROVED", mockLevels[1], new Date(Date.now() - 1000));
+    apply("APPROVED", mockLevels[0]);
+
+    expect(await getUserKycAccess("user-1")).toMatchObject({
+      level: 1,
+      levelId: "level-1",
+    });
+  });
+
+  it("caches the access no longer than until an approval expires", async () => {
+    apply("APPROVED", mockLevels[1], new Date(Date.now() + 60 * 1000));
+
+    await getUserKycAccess("user-1");
+
+    expect(mockTtls.get("user:user-1:kyc")).toBeLessThanOrEqual(60);
+  });
+
+  it("caches the lookups", async () => {
+    apply("APPROVED", mockLevels[1]);
+
+    await checkKycRequirement("user-1", { level: 1 });
+    await checkKycRequirement("user-1", { level: 2 });
+
+    expect(models.kycApplication.findAll).toHaveBeenCalledTimes(1);
+    expect(models.kycLevel.findAll).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("extractDocumentExpiry", () => {
+  const fields = [
+    { id: "passport", type: "IDENTITY" },
+    {
+      id: "section",
+      type: "SECTION",
+      fields: [
+        { id: "licence_expiry", type: "DATE" },
+        { id: "birth_date", type: "DATE" },
+      ],
+    },
+  ];
+
+  it("takes the earliest expiry across fields and sections", () => {
+    expect(
+      extractDocumentExpiry(JSON.stringify(fields), {
+        passport: { number: "X1", expiryDate: "2031-05-01" },
+        licence_expiry: "2029-01-15",
+        birth_date: "1990-01-01",
+      })
+    ).toEqual(new Date("2029-01-15"));
+  });
+
+  it("ignores dates that are not expiries", () => {
+    expect(
+      extractDocumentExpiry(fields, { birth_date: "1990-01-01" })
+    ).toBeNull();
+  });
+});
+
+describe("getKycApprovalExpiry", () => {
+  const approvedAt = new Date("2026-01-01T00:00:00Z");
+
+  it("expires after the level's validity period", async () => {
+    mockValidityLevel = { validityDays: 365, fields: [] };
+
+    expect(
+      await getKycApprovalExpiry({ levelId: "level-2", data: {} }, approvedAt)
+    ).toEqual({
+      expiresAt: new Date("2027-01-01T00:00:00Z"),
+      documentExpiresAt: null,
+    });
+  });
+
+  it("expires early when a document does", async () => {
+    mockValidityLevel = {
+      validityDays: 365,
+      fields: [{ id: "id_expiry", type: "DATE" }],
+    };
+
+    const expiry = await getKycApprovalExpiry(
+      { levelId: "level-2", data: { id_expiry: "2026-06-01" } },
+      approvedAt
+    );
+    expect(expiry.expiresAt).toEqual(new Date("2026-06-01"));
+    expect(expiry.documentExpiresAt).toEqual(new Date("2026-06-01"));
+  });
+});
+
+describe("getKycValidity", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+  const expiresIn = (days: number) =>
+    new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  it("warns inside the warning period", () => {
+    expect(
+      getKycValidity(
+        { status: "APPROVED", expiresAt: expiresIn(10) } as any,
+        30,
+        now
+      )
+    ).toMatchObject({ status: "EXPIRING", daysRemaining: 10 });
+    expect(
+      getKycValidity(
+        { status: "APPROVED", expiresAt: expiresIn(60) } as any,
+        30,
+        now
+      )
+    ).toMatchObject({ status: "VALID", daysRemaining: 60 });
+  });
+
+  it("reports lapsed and open-ended approvals", () => {
+    expect(
+      getKycValidity(
+        { status: "APPROVED", expiresAt: expiresIn(-1) } as any,
+        30,
+        now
+      )
+    ).toMatchObject({ status: "EXPIRED", daysRemaining: 0 });
+    expect(
+      getKycValidity({ status: "APPROVED", expiresAt: null } as any, 30, now)
+    ).toMatchObject({ status: "NO_EXPIRY", expiresAt: null });
+    expect(getKycValidity({ status: "PENDING" } as any, 30, now)).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+jest.mock("@b/utils/redis", () => ({
+  RedisSingleton: { getInstance: () => ({}) },
+}));
+
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: {
+    getInstance: () => ({ getSetting: jest.fn(async () => undefined) }),
+  },
+}));
+
+const mockMatches: any[] = [];
+const mockBlocks: any[] = [];
+const mockUser = { id: "user-1", firstName: "Ivan", lastName: "Petrov" };
+
+jest.mock("@b/db", () => ({
+  sequelize: {
+    transaction: jest.fn(async (callback: any) =>
+      callback({ LOCK: { UPDATE: "UPDATE" } })
+    ),
+  },
+  models: {
+    user: {
+      findByPk: jest.fn(async () => mockUser),
+      update: jest.fn(async () => [1]),
+    },
+    kycApplication: {
+      findAll: jest.fn(async () => [
+        {
+          data: { dob: "1975-03-02", full_name: "Ivan Sergeyevich Petrov" },
+          level: {
+            fields: [
+              { id: "full_name", type: "TEXT", label: "Full name" },
+              { id: "dob", type: "DATE", label: "Date of birth" },
+            ],
+          },
+        },
+      ]),
+    },
+    kycScreeningMatch: {
+      findAll: jest.fn(async () => mockMatches),
+      findOne: jest.fn(async () => null),
+      bulkCreate: jest.fn(async (rows: any[]) => {
+        mockMatches.push(...rows);
+        return rows;
+      }),
+    },
+    userBlock: {
+      create: jest.fn(async (values: any) => {
+        const block = { id: `block-${mockBlocks.length + 1}`, ...values };
+        mockBlocks.push(block);
+        return block;
+      }),
+    },
+  },
+}));
+
+import { models } from "@b/db";
+import {
+  buildWatchlistIndex,
+  normalizeBirthDate,
+  scoreNames,
+  screenUser,
+  searchWatchlistIndex,
+} from "@b/utils/sanctions";
+
+function entry(values: Partial<kycWatchlistEntryAttributes>) {
+  return {
+    id: `entry-${values.externalId}`,
+    watchlistId: "list-1",
+    source: "OFAC",
+    externalId: "1",
+    type: "INDIVIDUAL",
+    name: "",
+    aliases: [],
+    birthDates: [],
+    nationalities: [],
+    programs: [],
+    ...values,
+  } as kycWatchlistEntryAttributes;
+}
+
+const index = buildWatchlistIndex([
+  entry({
+    externalId: "100",
+    name: "PETROV, Ivan Sergeyevich",
+    aliases: ["Iwan Petrow"],
+    birthDates: ["02 Mar 1975"],
+  }),
+  entry({ externalId: "200", name: "José Álvarez Gómez" }),
+  entry({
+    externalId: "300",
+    name: "Northern Star Trading LLC",
+    type: "ENTITY",
+  }),
+]);
+
+beforeEach(() => {
+  mockMatches.length = 0;
+  mockBlocks.length = 0;
+  jest.clearAllMocks();
+});
+
+describe("normalizeBirthDate", () => {
+  it("keeps the precision the source gives", () => {
+    expect(normalizeBirthDate("02 Mar 1975")).toEqual(["1975-03-02"]);
+    expect(normalizeBirthDate("Mar 1975")).toEqual(["1975-03"]);
+    expect(normalizeBirthDate("circa 1975")).toEqual(["1975"]);
+    expect(normalizeBirthDate("02/03/1975")).toEqual(["1975-03-02"]);
+    expect(normalizeBirthDate("1975-00-00")).toEqual(["1975"]);
+  });
+
+  it("expands ranges of years", () => {
+    expect(normalizeBirthDate("1974 to 1976")).toEqual([
+      "1974",
+      "1975",
+      "1976",
+    ]);
+  });
+});
+
+describe("scoreNames", () => {
+  it("ignores word order, case and accents", () => {
+    expect(scoreNames(["gomez", "jose"], ["jose", "alvarez", "gomez"])).toBe(
+      100
+    );
+  });
+
+  it("discounts a single word against a longer name", () => {
+    expect(scoreNames(["ivan"], ["ivan", "petrov"])).toBe(80);
+  });
+});
+
+describe("searchWatchlistIndex", () => {
+  it("matches misspelt names and aliases", () => {
+    const [hit] = searchWatchlistIndex(
+      index,
+      { names: ["Ivan Petrow"], birthDates: [] },
+      85
+    );
+    expect(hit.entry.externalId).toBe("100");
+    expect(hit.score).toBeGreaterThanOrEqual(95);
+  });
+
+  it("weighs the date of birth", () => {
+    const search = (birthDates: string[]) =>
+      searchWatchlistIndex(
+        index,
+        { names: ["Ivan Petrov"], birthDates },
+        0
+      ).find((hit) => hit.entry.externalId === "100")!;
+
+    expect(search(["1975-03-02"])).toMatchObject({
+      score: 100,
+      birthDateMatched: true,
+    });
+    expect(search(["1990-01-01"])).toMatchObject({
+      birthDateMatched: false,
+    });
+    expect(search(["1990-01-01"]).score).toBeLessThan(90);
+  });
+
+  it("leaves unrelated names alone", () => {
+    expect(
+      searchWatchlistIndex(
+        index,
+        { names: ["Maria Schneider"], birthDates: [] },
+        85
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("screenUser", () => {
+  it("queues matches and holds the account on a strong one", async () => {
+    const result = await screenUser("user-1", "REGISTRATION", { index });
+
+    expect(result.held).toBe(true);
+    expect(mockMatches).toHaveLength(1);
+    expect(mockMatches[0]).toMatchObject({
+      userId: "user-1",
+      source: "OFAC",
+      externalId: "100",
+      birthDateMatched: true,
+      holdId: "block-1",
+    });
+    expect(models.userBlock.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1", adminId: null }),
+      expect.anything()
+    );
+    expect(models.user.update).toHaveBeenCalledWith(
+      { status: "SUSPENDED" },
+      expect.objectContaining({
+        where: expect.objectContaining({ id: "user-1" }),
+      })
+    );
+  });
+
+  it("does not raise an entry again once it was matched", async () => {
+    await screenUser("user-1", "REGISTRATION", { index });
+    const rescan = await screenUser("user-1", "RESCAN", { index });
+
+    expect(rescan).toEqual({ matches: [], held: false });
+    expect(models.userBlock.create).toHaveBeenCalledTimes(1);
+  });
+});
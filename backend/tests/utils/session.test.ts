@@ -0,0 +1,206 @@
+const mockValues = new Map<string, string>();
+const mockSets = new Map<string, Set<string>>();
+const mockTtls = new Map<string, number>();
+// Runs after each read, to change the store between a read and a write
+let mockAfterGet: (() => void) | null = null;
+
+jest.mock("@b/utils/redis", () => ({
+  RedisSingleton: {
+    getInstance: () => ({
+      get: jest.fn(async (key: string) => {
+        const value = mockValues.get(key) ?? null;
+        mockAfterGet?.();
+        return value;
+      }),
+      mget: jest.fn(async (...keys: string[]) =>
+        keys.map((key) => mockValues.get(key) ?? null)
+      ),
+      set: jest.fn(async (key: string, value: string, ...options: any[]) => {
+        if (options.includes("XX") && !mockValues.has(key)) return null;
+        mockValues.set(key, value);
+        if (options[0] === "EX") mockTtls.set(key, options[1]);
+        return "OK";
+      }),
+      del: jest.fn(async (...keys: string[]) => {
+        keys.forEach((key) => {
+          mockValues.delete(key);
+          mockTtls.delete(key);
+        });
+        return keys.length;
+      }),
+      ttl: jest.fn(async (key: string) => mockTtls.get(key) ?? -2),
+      expire: jest.fn(async (key: string, ttl: number) => {
+        mockTtls.set(key, ttl);
+        return 1;
+      }),
+      sadd: jest.fn(async (key: string, member: string) => {
+        if (!mockSets.has(key)) mockSets.set(key, new Set());
+        mockSets.get(key)!.add(member);
+        return 1;
+      }),
+      srem: jest.fn(async (key: string, ...members: string[]) => {
+        members.forEach((member) => mockSets.get(key)?.delete(member));
+        return members.length;
+      }),
+      smembers: jest.fn(async (key: string) => [...(mockSets.get(key) ?? [])]),
+    }),
+  },
+}));
+
+import {
+  describeDevice,
+  getSessionContext,
+  getSessionPublicId,
+  listUserSessions,
+  registerSession,
+  removeSession,
+  revokeSession,
+  revokeUserSessions,
+  touchSession,
+} from "@b/utils/session";
+
+const CHROME_ON_WINDOWS =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36";
+const SAFARI_ON_IPHONE =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1";
+
+function signIn(userId: string, sessionId: string, lastSeenAt: string) {
+  return registerSession(
+    userId,
+    sessionId,
+    {
+      user: { id: userId },
+      ...getSessionContext({
+        remoteAddress: "203.0.113.7",
+        headers: { "user-agent": CHROME_ON_WINDOWS, "cf-ipcountry": "de" },
+      }),
+      createdAt: lastSeenAt,
+      lastSeenAt,
+    },
+    3600
+  );
+}
+
+beforeEach(() => {
+  mockValues.clear();
+  mockSets.clear();
+  mockTtls.clear();
+  mockAfterGet = null;
+});
+
+describe("describeDevice", () => {
+  it("names the browser and platform", () => {
+    expect(describeDevice(CHROME_ON_WINDOWS)).toBe("Chrome on Windows");
+    expect(describeDevice(SAFARI_ON_IPHONE)).toBe("Safari on iPhone");
+    expect(describeDevice(undefined)).toBe("Unknown device");
+  });
+});
+
+describe("listUserSessions", () => {
+  it("lists a user's sessions without exposing their ids", async () => {
+    await signIn("user-1", "sid-old", "2026-01-01T00:00:00.000Z");
+    await signIn("user-1", "sid-new", "2026-01-02T00:00:00.000Z");
+    await signIn("user-2", "sid-other", "2026-01-03T00:00:00.000Z");
+
+    const sessions = await listUserSessions("user-1", "sid-old");
+
+    expect(sessions).toEqual([
+      expect.objectContaining({
+        id: getSessionPublicId("sid-new"),
+        current: false,
+      }),
+      expect.objectContaining({
+        id: getSessionPublicId("sid-old"),
+        device: "Chrome on Windows",
+        ipAddress: "203.0.113.7",
+        country: "DE",
+        current: true,
+      }),
+    ]);
+    expect(JSON.stringify(sessions)).not.toContain("sid-");
+  });
+
+  it("drops sessions that have expired from the index", async () => {
+    await signIn("user-1", "sid-1", "2026-01-01T00:00:00.000Z");
+    mockValues.delete("sessionId:sid-1");
+
+    expect(await listUserSessions("user-1")).toEqual([]);
+    expect(mockSets.get("userSessions:user-1")?.size).toBe(0);
+  });
+});
+
+describe("revoking sessions", () => {
+  it("revokes a single session by its public id", async () => {
+    await signIn("user-1", "sid-1", "2026-01-01T00:00:00.000Z");
+    await signIn("user-1", "sid-2", "2026-01-01T00:00:00.000Z");
+
+    expect(await revokeSession("user-1", getSessionPublicId("sid-1"))).toBe(
+      true
+    );
+    expect(await revokeSession("user-2", getSessionPublicId("sid-2"))).toBe(
+      false
+    );
+
+    expect(await touchSession("user-1", "sid-1")).toBe(false);
+    expect(await touchSession("user-1", "sid-2")).toBe(true);
+  });
+
+  it("keeps only the current session when signing out everywhere else", async () => {
+    await signIn("user-1", "sid-1", "2026-01-01T00:00:00.000Z");
+    await signIn("user-1", "sid-2", "2026-01-01T00:00:00.000Z");
+    await signIn("user-1", "sid-3", "2026-01-01T00:00:00.000Z");
+
+    expect(await revokeUserSessions("user-1", "sid-2")).toBe(2);
+
+    const sessions = await listUserSessions("user-1", "sid-2");
+    expect(sessions.map((session) => session.current)).toEqual([true]);
+  });
+
+  it("removes a logged out session from its user's index", async () => {
+    await signIn("user-1", "sid-1", "2026-01-01T00:00:00.000Z");
+
+    await removeSession("sid-1");
+
+    expect(mockValues.has("sessionId:sid-1")).toBe(false);
+    expect(mockSets.get("userSessions:user-1")?.has("sid-1")).toBe(false);
+  });
+});
+
+describe("touchSession", () => {
+  it("records when and where a session was last used", async () => {
+    await signIn("user-1", "sid-1", "2026-01-01T00:00:00.000Z");
+
+    expect(
+      await touchSession("user-1", "sid-1", { ipAddress: "198.51.100.2" })
+    ).toBe(true);
+
+    const [session] = await listUserSessions("user-1");
+    expect(session.ipAddress).toBe("198.51.100.2");
+    expect(session.lastSeenAt).not.toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("rejects a session that belongs to another user", async () => {
+    await signIn("user-1", "sid-1", "2026-01-01T00:00:00.000Z");
+
+    expect(await touchSession("user-2", "sid-1")).toBe(false);
+  });
+
+  it("keeps the expiry of a session it refreshes", async () => {
+    await signIn("user-1", "sid-1", "2026-01-01T00:00:00.000Z");
+    mockTtls.set("sessionId:sid-1", 120);
+
+    expect(await touchSession("user-1", "sid-1")).toBe(true);
+    expect(mockTtls.get("sessionId:sid-1")).toBe(120);
+  });
+
+  it("does not bring back a session revoked while it was being used", async () => {
+    await signIn("user-1", "sid-1", "2026-01-01T00:00:00.000Z");
+    mockAfterGet = () => {
+      mockAfterGet = null;
+      revokeSession("user-1", getSessionPublicId("sid-1"));
+    };
+
+    expect(await touchSession("user-1", "sid-1")).toBe(false);
+    expect(mockValues.has("sessionId:sid-1")).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+import crypto from "crypto";
+import {
+  decodeCbor,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@b/utils/webauthn";
+
+const ORIGIN = "https://example.com";
+const CHALLENGE = "test-challenge";
+
+// Minimal CBOR encoder for the structures an authenticator produces
+function encodeCbor(value: any): Buffer {
+  const head = (major: number, length: number) => {
+    if (length < 24) return Buffer.from([(major << 5) | length]);
+    if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+    const buf = Buffer.alloc(3);
+    buf[0] = (major << 5) | 25;
+    buf.writeUInt16BE(length, 1);
+    return buf;
+  };
+  if (typeof value === "number") {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (Buffer.isBuffer(value))
+    return Buffer.concat([head(2, value.length), value]);
+  if (typeof value === "string") {
+    const bytes = Buffer.from(value, "utf8");
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (value instanceof Map) {
+    const parts: Buffer[] = [head(5, value.size)];
+    value.forEach((v, k) => parts.push(encodeCbor(k), encodeCbor(v)));
+    return Buffer.concat(parts);
+  }
+  throw new Error("Unsupported value");
+}
+
+function createAuthenticator() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", {
+    namedCurve: "P-256",
+  });
+  const jwk = publicKey.export({ format: "jwk" });
+  const coseKey = encodeCbor(
+    new Map<number, any>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x!, "base64url")],
+      [-3, Buffer.from(jwk.y!, "base64url")],
+    ])
+  );
+  return { privateKey, coseKey, credentialId: crypto.randomBytes(16) };
+}
+
+function authenticatorData(flags: number, counter: number, attested?: Buffer) {
+  const rpIdHash = crypto.createHash("sha256").update("example.com").digest();
+  const counterBytes = Buffer.alloc(4);
+  counterBytes.writeUInt32BE(counter);
+  return Buffer.concat([
+    rpIdHash,
+    Buffer.from([flags]),
+    counterBytes,
+    attested ?? Buffer.alloc(0),
+  ]);
+}
+
+function clientDataJSON(type: string, origin = ORIGIN) {
+  return Buffer.from(
+    JSON.stringify({ type, challenge: CHALLENGE, origin })
+  ).toString("base64url");
+}
+
+function register(authenticator: ReturnType<typeof createAuthenticator>) {
+  const idLength = Buffer.alloc(2);
+  idLength.writeUInt16BE(authenticator.credentialId.length);
+  const authData = authenticatorData(
+    0x41,
+    0,
+    Buffer.concat([
+      Buffer.alloc(16),
+      idLength,
+      authenticator.credentialId,
+      authenticator.coseKey,
+    ])
+  );
+  return verifyRegistrationResponse(
+    {
+      id: authenticator.credentialId.toString("base64url"),
+      type: "public-key",
+      response: {
+        clientDataJSON: clientDataJSON("webauthn.create"),
+        attestationObject: encodeCbor(
+          new Map<string, any>([
+            ["fmt", "none"],
+            ["attStmt", new Map()],
+            ["authData", authData],
+          ])
+        ).toString("base64url"),
+        transports: ["internal"],
+      },
+    },
+    CHALLENGE
+  );
+}
+
+function assertion(
+  authenticator: ReturnType<typeof createAuthenticator>,
+  counter: number,
+  flags = 0x05
+) {
+  const authData = authenticatorData(flags, counter);
+  const clientData = clientDataJSON("webauthn.get");
+  const signature = crypto.sign(
+    "sha256",
+    Buffer.concat([
+      authData,
+      crypto
+        .createHash("sha256")
+        .update(Buffer.from(clientData, "base64url"))
+        .digest(),
+    ]),
+    authenticator.privateKey
+  );
+  return {
+    id: authenticator.credentialId.toString("base64url"),
+    type: "public-key",
+    response: {
+      clientDataJSON: clientData,
+      authenticatorData: authData.toString("base64url"),
+      signature: signature.toString("base64url"),
+    },
+  };
+}
+
+beforeAll(() => {
+  process.env.NEXT_PUBLIC_SITE_URL = ORIGIN;
+});
+
+describe("decodeCbor", () => {
+  it("returns the value and the offset after it", () => {
+    const encoded = Buffer.concat([encodeCbor(-7), encodeCbor("rest")]);
+    expect(decodeCbor(encoded)).toEqual([-7, 1]);
+    expect(decodeCbor(encoded, 1)).toEqual(["rest", encoded.length]);
+  });
+});
+
+describe("verifyRegistrationResponse", () => {
+  it("extracts the credential and its public key", () => {
+    const authenticator = createAuthenticator();
+
+    const registration = register(authenticator);
+
+    expect(registration).toEqual({
+      credentialId: authenticator.credentialId.toString("base64url"),
+      publicKey: authenticator.coseKey.toString("base64url"),
+      algorithm: -7,
+      counter: 0,
+      transports: ["internal"],
+    });
+  });
+
+  it("rejects a response for another challenge", () => {
+    expect(() =>
+      verifyRegistrationResponse(
+        {
+          id: "x",
+          type: "public-key",
+          response: {
+            clientDataJSON: clientDataJSON("webauthn.create"),
+            attestationObject: "AA",
+          },
+        },
+        "other-challenge"
+      )
+    ).toThrow("Passkey challenge does not match");
+  });
+});
+
+describe("verifyAuthenticationResponse", () => {
+  it("accepts a valid assertion and returns the new counter", () => {
+    const authenticator = createAuthenticator();
+    const stored = register(authenticator);
+
+    expect(
+      verifyAuthenticationResponse(
+        assertion(authenticator, 1),
+        stored,
+        CHALLENGE,
+        true
+      )
+    ).toBe(1);
+  });
+
+  it("rejects an assertion signed by another key", () => {
+    const stored = register(createAuthenticator());
+    const other = createAuthenticator();
+
+    expect(() =>
+      verifyAuthenticationResponse(assertion(other, 1), stored, CHALLENGE)
+    ).toThrow("Passkey signature is invalid");
+  });
+
+  it("rejects a counter that did not increase", () => {
+    const authenticator = createAuthenticator();
+    const stored = { ...register(authenticator), counter: 5 };
+
+    expect(() =>
+      verifyAuthenticationResponse(
+        assertion(authenticator, 5),
+        stored,
+        CHALLENGE
+      )
+    ).toThrow("Passkey counter did not increase");
+  });
+
+  it("requires user verification when asked to", () => {
+    const authenticator = createAuthenticator();
+    const stored = register(authenticator);
+
+    expect(() =>
+      verifyAuthenticationResponse(
+        assertion(authenticator, 1, 0x01),
+        stored,
+        CHALLENGE,
+        true
+      )
+    ).toThrow("The passkey must verify the user");
+  });
+});
@@ -206,6 +206,8 @@ enum ExchangeOrderSide {
 enum ExchangeOrderType {
   MARKET = "MARKET",
   LIMIT = "LIMIT",
+  STOP_MARKET = "STOP_MARKET",
+  STOP_LIMIT = "STOP_LIMIT",
 }
 
 enum ExchangeOrderStatus {
@@ -226,6 +228,7 @@ enum ExchangeTimeInForce {
 interface ExchangeOrder {
   id: string;
   referenceId: string;
+  provider?: string;
   userId: string;
   user: User;
   status: ExchangeOrderStatus;
@@ -234,6 +237,7 @@ interface ExchangeOrder {
   timeInForce: ExchangeTimeInForce;
   side: ExchangeOrderSide;
   price: number;
+  stopPrice?: number;
   average: number;
   amount: number;
   filled: number;
@@ -74,8 +74,15 @@ interface OperationObject {
   deprecated?: boolean;
   security?: Array<Record<string, string[]>>;
   requiresAuth?: boolean;
+  // Public routes only: identify the caller when a valid token is sent
+  optionalAuth?: boolean;
   requiresApi?: boolean;
   permission?: string | string[];
+  // Users with passkeys must have confirmed one recently to call the route
+  requiresPasskey?: boolean;
+  // Minimum approved KYC level and/or a feature the user's level must unlock
+  kycLevel?: number;
+  kycFeature?: string;
   rateLimit?: {
     windowMs: number;
     max: number;
@@ -0,0 +1,43 @@
+interface adminAuditChange {
+  model: string;
+  id: string | null;
+  action: "CREATE" | "UPDATE" | "DELETE" | "RESTORE";
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}
+
+interface adminAuditLogAttributes {
+  id: string;
+  adminId: string;
+  method: string;
+  route: string; // Route pattern, e.g. /api/admin/crm/user/:id
+  path: string;
+  targetModel?: string | null;
+  targetId?: string | null;
+  changes?: adminAuditChange[] | null;
+  omittedChanges: number;
+  requestBody?: Record<string, any> | null;
+  statusCode: number;
+  error?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt?: Date;
+}
+
+type adminAuditLogPk = "id";
+type adminAuditLogId = adminAuditLogAttributes[adminAuditLogPk];
+type adminAuditLogOptionalAttributes =
+  | "id"
+  | "targetModel"
+  | "targetId"
+  | "changes"
+  | "omittedChanges"
+  | "requestBody"
+  | "error"
+  | "ip"
+  | "userAgent"
+  | "createdAt";
+type adminAuditLogCreationAttributes = Optional<
+  adminAuditLogAttributes,
+  adminAuditLogOptionalAttributes
+>;
@@ -14,7 +14,9 @@ interface adminProfitAttributes {
     | "FOREX_INVESTMENT"
     | "ICO_CONTRIBUTION"
     | "STAKING"
-    | "P2P_TRADE";
+    | "P2P_TRADE"
+    | "NFT_SALE"
+    | "PAYMENT";
   amount: number;
   currency: string;
   chain?: string | null;
@@ -6,6 +6,7 @@ interface apiKeyAttributes {
   permissions: string[]; // Permissions as an array of strings
   ipRestriction: boolean;
   ipWhitelist: string[]; // IP Whitelist as an array of strings
+  secret?: string; // HMAC secret for signed requests
   type: string;
   createdAt?: Date;
   deletedAt?: Date;
@@ -15,11 +16,7 @@ interface apiKeyAttributes {
 type apiKeyPk = "id";
 type apiKeyId = apiKeyAttributes[apiKeyPk];
 type apiKeyOptionalAttributes =
-  | "id"
-  | "userId"
-  | "createdAt"
-  | "deletedAt"
-  | "updatedAt";
+  "id" | "userId" | "secret" | "createdAt" | "deletedAt" | "updatedAt";
 type apiKeyCreationAttributes = Optional<
   apiKeyAttributes,
   apiKeyOptionalAttributes
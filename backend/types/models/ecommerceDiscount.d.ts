@@ -1,9 +1,14 @@
 interface ecommerceDiscountAttributes {
   id: string;
   code: string;
+  type: "PERCENTAGE" | "FIXED" | "FREE_SHIPPING";
   percentage: number;
+  amount?: number | null;
+  minSpend?: number | null;
+  maxUses?: number | null;
+  usageCount: number;
   validUntil: Date;
-  productId: string;
+  productId?: string | null;
   status: boolean;
   createdAt?: Date;
   deletedAt?: Date;
@@ -14,6 +19,9 @@ type ecommerceDiscountPk = "id";
 type ecommerceDiscountId = ecommerceDiscountAttributes[ecommerceDiscountPk];
 type ecommerceDiscountOptionalAttributes =
   | "id"
+  | "type"
+  | "percentage"
+  | "usageCount"
   | "status"
   | "createdAt"
   | "deletedAt"
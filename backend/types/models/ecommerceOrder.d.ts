@@ -1,11 +1,32 @@
 interface ecommerceOrderAttributes {
   id: string;
   userId: string;
-  status: "PENDING" | "COMPLETED" | "CANCELLED" | "REJECTED";
+  status:
+    | "PENDING"
+    | "PAID"
+    | "PROCESSING"
+    | "SHIPPED"
+    | "DELIVERED"
+    | "COMPLETED"
+    | "RETURN_REQUESTED"
+    | "REFUNDED"
+    | "CANCELLED"
+    | "REJECTED";
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
   shippingId?: string; // Added shippingId
+  discountId?: string | null;
+  currency?: string | null;
+  walletType?: "FIAT" | "SPOT" | "ECO" | null;
+  subtotal: number;
+  discountAmount: number;
+  shippingCost: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  refundedAmount: number;
+  returnReason?: string | null;
 }
 
 type ecommerceOrderPk = "id";
@@ -16,7 +37,15 @@ type ecommerceOrderOptionalAttributes =
   | "createdAt"
   | "deletedAt"
   | "updatedAt"
-  | "shippingId"; // Added shippingId
+  | "shippingId" // Added shippingId
+  | "subtotal"
+  | "discountAmount"
+  | "shippingCost"
+  | "taxRate"
+  | "taxAmount"
+  | "total"
+  | "refundedAmount"
+  | "returnReason";
 
 type ecommerceOrderCreationAttributes = Optional<
   ecommerceOrderAttributes,
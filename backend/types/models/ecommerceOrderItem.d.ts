@@ -2,7 +2,9 @@ interface ecommerceOrderItemAttributes {
   id: string;
   orderId: string;
   productId: string;
+  variantId?: string | null;
   quantity: number;
+  price?: number | null;
   key?: string;
   filePath?: string;
   instructions?: string;
@@ -12,6 +12,7 @@ interface ecommerceProductAttributes {
   image?: string;
   currency: string;
   walletType: "FIAT" | "SPOT" | "ECO";
+  options?: ecommerceProductOption[] | null;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -25,6 +26,7 @@ type ecommerceProductOptionalAttributes =
   | "image"
   | "currency"
   | "walletType"
+  | "options"
   | "createdAt"
   | "deletedAt"
   | "updatedAt";
@@ -33,6 +35,11 @@ type ecommerceProductCreationAttributes = Optional<
   ecommerceProductOptionalAttributes
 >;
 
+interface ecommerceProductOption {
+  name: string;
+  values: string[];
+}
+
 interface ecommerceProduct extends ecommerceProductAttributes {
   category?: ecommerceCategoryAttributes;
   ecommerceReviews?: any[]; // Replace 'any' with the actual review type if available
@@ -0,0 +1,29 @@
+interface ecommerceProductVariantAttributes {
+  id: string;
+  productId: string;
+  sku: string;
+  options: Record<string, string>;
+  price: number;
+  inventoryQuantity: number;
+  image?: string;
+  status: boolean;
+  createdAt?: Date;
+  deletedAt?: Date;
+  updatedAt?: Date;
+}
+
+type ecommerceProductVariantPk = "id";
+type ecommerceProductVariantId =
+  ecommerceProductVariantAttributes[ecommerceProductVariantPk];
+type ecommerceProductVariantOptionalAttributes =
+  | "id"
+  | "inventoryQuantity"
+  | "image"
+  | "status"
+  | "createdAt"
+  | "deletedAt"
+  | "updatedAt";
+type ecommerceProductVariantCreationAttributes = Optional<
+  ecommerceProductVariantAttributes,
+  ecommerceProductVariantOptionalAttributes
+>;
@@ -15,6 +15,7 @@ interface ecommerceShippingAttributes {
   cost?: number;
   tax?: number;
   deliveryDate?: Date;
+  trackingNumber?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -0,0 +1,21 @@
+interface ecommerceTaxRuleAttributes {
+  id: string;
+  name: string;
+  country: string;
+  rate: number;
+  status: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type ecommerceTaxRulePk = "id";
+type ecommerceTaxRuleId = ecommerceTaxRuleAttributes[ecommerceTaxRulePk];
+type ecommerceTaxRuleOptionalAttributes =
+  | "id"
+  | "status"
+  | "createdAt"
+  | "updatedAt";
+type ecommerceTaxRuleCreationAttributes = Optional<
+  ecommerceTaxRuleAttributes,
+  ecommerceTaxRuleOptionalAttributes
+>;
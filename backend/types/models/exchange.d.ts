@@ -11,6 +11,7 @@ interface exchangeAttributes {
   version?: string;
   productId?: string;
   type?: string;
+  priority?: number;
 }
 
 type exchangePk = "id";
@@ -22,7 +23,8 @@ type exchangeOptionalAttributes =
   | "licenseStatus"
   | "version"
   | "productId"
-  | "type";
+  | "type"
+  | "priority";
 type exchangeCreationAttributes = Optional<
   exchangeAttributes,
   exchangeOptionalAttributes
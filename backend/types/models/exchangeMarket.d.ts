@@ -8,6 +8,7 @@ interface exchangeMarketAttributes {
   isTrending?: boolean;
   isHot?: boolean;
   metadata?: string;
+  providers?: string[] | null;
   status: boolean;
 }
 
@@ -17,7 +18,8 @@ type exchangeMarketOptionalAttributes =
   | "id"
   | "isTrending"
   | "isHot"
-  | "metadata";
+  | "metadata"
+  | "providers";
 type exchangeMarketCreationAttributes = Optional<
   exchangeMarketAttributes,
   exchangeMarketOptionalAttributes
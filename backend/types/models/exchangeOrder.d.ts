@@ -5,13 +5,21 @@ interface exchangeOrderAttributes {
   id: string;
 
   referenceId?: string;
+  provider?: string;
   userId: string;
-  status: "OPEN" | "CLOSED" | "CANCELED" | "EXPIRED" | "REJECTED";
+  status:
+    | "OPEN"
+    | "TRIGGERING"
+    | "CLOSED"
+    | "CANCELED"
+    | "EXPIRED"
+    | "REJECTED";
   symbol: string;
-  type: "MARKET" | "LIMIT";
+  type: "MARKET" | "LIMIT" | "STOP_MARKET" | "STOP_LIMIT";
   timeInForce: "GTC" | "IOC" | "FOK" | "PO";
   side: "BUY" | "SELL";
   price: number;
+  stopPrice?: number;
   average?: number;
   amount: number;
   filled: number;
@@ -30,6 +38,8 @@ type exchangeOrderId = exchangeOrderAttributes[exchangeOrderPk];
 type exchangeOrderOptionalAttributes =
   | "id"
   | "referenceId"
+  | "provider"
+  | "stopPrice"
   | "average"
   | "trades"
   | "createdAt"
@@ -0,0 +1,26 @@
+interface futuresAdlEventAttributes {
+  id: string;
+  symbol: string;
+  currency: string;
+  liquidatedUserId: string;
+  liquidatedPositionId: string;
+  userId: string;
+  positionId: string;
+  side: "BUY" | "SELL";
+  amount: number;
+  price: number;
+  markPrice: number;
+  pnl: number;
+  rankScore: number;
+  shortfallCovered: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type futuresAdlEventPk = "id";
+type futuresAdlEventId = futuresAdlEventAttributes[futuresAdlEventPk];
+type futuresAdlEventOptionalAttributes = "id" | "createdAt" | "updatedAt";
+type futuresAdlEventCreationAttributes = Optional<
+  futuresAdlEventAttributes,
+  futuresAdlEventOptionalAttributes
+>;
@@ -0,0 +1,24 @@
+interface futuresFundingHistoryAttributes {
+  id: string;
+  userId: string;
+  positionId: string;
+  symbol: string;
+  side: "BUY" | "SELL";
+  amount: number;
+  markPrice: number;
+  indexPrice: number;
+  fundingRate: number;
+  payment: number;
+  currency: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type futuresFundingHistoryPk = "id";
+type futuresFundingHistoryId =
+  futuresFundingHistoryAttributes[futuresFundingHistoryPk];
+type futuresFundingHistoryOptionalAttributes = "id" | "createdAt" | "updatedAt";
+type futuresFundingHistoryCreationAttributes = Optional<
+  futuresFundingHistoryAttributes,
+  futuresFundingHistoryOptionalAttributes
+>;
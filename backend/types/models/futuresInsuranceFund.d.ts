@@ -0,0 +1,17 @@
+interface futuresInsuranceFundAttributes {
+  id: string;
+  currency: string;
+  balance: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type futuresInsuranceFundPk = "id";
+type futuresInsuranceFundId =
+  futuresInsuranceFundAttributes[futuresInsuranceFundPk];
+type futuresInsuranceFundOptionalAttributes =
+  "id" | "balance" | "createdAt" | "updatedAt";
+type futuresInsuranceFundCreationAttributes = Optional<
+  futuresInsuranceFundAttributes,
+  futuresInsuranceFundOptionalAttributes
+>;
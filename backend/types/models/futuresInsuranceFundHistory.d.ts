@@ -0,0 +1,30 @@
+interface futuresInsuranceFundHistoryAttributes {
+  id: string;
+  fundId: string;
+  currency: string;
+  type: "LIQUIDATION_SURPLUS" | "LIQUIDATION_DEFICIT";
+  amount: number;
+  balance: number;
+  shortfall: number;
+  symbol?: string;
+  userId?: string;
+  positionId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type futuresInsuranceFundHistoryPk = "id";
+type futuresInsuranceFundHistoryId =
+  futuresInsuranceFundHistoryAttributes[futuresInsuranceFundHistoryPk];
+type futuresInsuranceFundHistoryOptionalAttributes =
+  | "id"
+  | "shortfall"
+  | "symbol"
+  | "userId"
+  | "positionId"
+  | "createdAt"
+  | "updatedAt";
+type futuresInsuranceFundHistoryCreationAttributes = Optional<
+  futuresInsuranceFundHistoryAttributes,
+  futuresInsuranceFundHistoryOptionalAttributes
+>;
@@ -1,6 +1,14 @@
 
 
 
+interface futuresMaintenanceMarginTier {
+  // Upper bound of the position notional covered by the tier; null for the
+  // last, unbounded tier
+  maxNotional: number | null;
+  maintenanceMarginRate: number;
+  maxLeverage: number;
+}
+
 interface futuresMarketAttributes {
   id: string;
   currency: string;
@@ -8,6 +16,12 @@ interface futuresMarketAttributes {
   isTrending?: boolean;
   isHot?: boolean;
   metadata?: string;
+  fundingIntervalHours: number;
+  fundingRateCap: number;
+  interestRate: number;
+  fundingRate: number;
+  nextFundingTime?: Date;
+  maintenanceMarginTiers?: futuresMaintenanceMarginTier[] | null;
   status: boolean;
   createdAt?: Date;
   deletedAt?: Date;
@@ -21,6 +35,12 @@ type futuresMarketOptionalAttributes =
   | "isTrending"
   | "isHot"
   | "metadata"
+  | "fundingIntervalHours"
+  | "fundingRateCap"
+  | "interestRate"
+  | "fundingRate"
+  | "nextFundingTime"
+  | "maintenanceMarginTiers"
   | "createdAt"
   | "deletedAt"
   | "updatedAt";
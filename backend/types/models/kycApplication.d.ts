@@ -2,10 +2,18 @@ interface kycApplicationAttributes {
   id: string;
   userId: string;
   levelId: string;
-  status: "PENDING" | "APPROVED" | "REJECTED" | "ADDITIONAL_INFO_REQUIRED";
+  status:
+    | "PENDING"
+    | "APPROVED"
+    | "REJECTED"
+    | "ADDITIONAL_INFO_REQUIRED"
+    | "EXPIRED";
   data: any;
   adminNotes?: string;
   reviewedAt?: Date;
+  expiresAt?: Date | null;
+  documentExpiresAt?: Date | null;
+  expiryNotifiedAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
   deletedAt?: Date;
@@ -17,6 +25,9 @@ type kycApplicationOptionalAttributes =
   | "id"
   | "adminNotes"
   | "reviewedAt"
+  | "expiresAt"
+  | "documentExpiresAt"
+  | "expiryNotifiedAt"
   | "createdAt"
   | "updatedAt"
   | "deletedAt";
@@ -7,6 +7,7 @@ interface kycLevelAttributes {
   level: number;
   fields?: any; // JSON array of field objects
   features?: any; // JSON array of features
+  validityDays?: number | null; // Null when approvals never expire
   status: "ACTIVE" | "DRAFT" | "INACTIVE";
   createdAt?: Date;
   updatedAt?: Date;
@@ -20,6 +21,7 @@ type kycLevelOptionalAttributes =
   | "description"
   | "fields"
   | "features"
+  | "validityDays"
   | "createdAt"
   | "updatedAt";
 type kycLevelCreationAttributes = Omit<
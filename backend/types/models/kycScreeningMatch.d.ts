@@ -0,0 +1,50 @@
+interface kycScreeningMatchEntry {
+  type: "INDIVIDUAL" | "ENTITY";
+  name: string;
+  aliases: string[];
+  birthDates: string[];
+  nationalities: string[];
+  programs: string[];
+  remarks?: string | null;
+}
+
+interface kycScreeningMatchAttributes {
+  id: string;
+  userId: string;
+  applicationId?: string | null;
+  trigger: "REGISTRATION" | "KYC_SUBMISSION" | "RESCAN";
+  source: "OFAC" | "EU" | "UN";
+  externalId: string;
+  entryId?: string | null;
+  entry: kycScreeningMatchEntry;
+  screenedName: string;
+  matchedName: string;
+  score: number;
+  birthDateMatched?: boolean | null;
+  status: "PENDING" | "ACCEPTED" | "DISMISSED";
+  holdId?: string | null;
+  reviewedBy?: string | null;
+  reviewedAt?: Date | null;
+  reviewNote?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type kycScreeningMatchPk = "id";
+type kycScreeningMatchId = kycScreeningMatchAttributes[kycScreeningMatchPk];
+type kycScreeningMatchOptionalAttributes =
+  | "id"
+  | "applicationId"
+  | "entryId"
+  | "birthDateMatched"
+  | "status"
+  | "holdId"
+  | "reviewedBy"
+  | "reviewedAt"
+  | "reviewNote"
+  | "createdAt"
+  | "updatedAt";
+type kycScreeningMatchCreationAttributes = Optional<
+  kycScreeningMatchAttributes,
+  kycScreeningMatchOptionalAttributes
+>;
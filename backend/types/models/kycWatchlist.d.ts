@@ -0,0 +1,20 @@
+interface kycWatchlistAttributes {
+  id: string;
+  source: "OFAC" | "EU" | "UN";
+  format: "XML" | "CSV";
+  fileName: string;
+  entryCount: number;
+  status: "ACTIVE" | "REPLACED";
+  importedBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type kycWatchlistPk = "id";
+type kycWatchlistId = kycWatchlistAttributes[kycWatchlistPk];
+type kycWatchlistOptionalAttributes =
+  "id" | "entryCount" | "status" | "importedBy" | "createdAt" | "updatedAt";
+type kycWatchlistCreationAttributes = Optional<
+  kycWatchlistAttributes,
+  kycWatchlistOptionalAttributes
+>;
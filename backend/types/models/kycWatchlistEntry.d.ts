@@ -0,0 +1,32 @@
+interface kycWatchlistEntryAttributes {
+  id: string;
+  watchlistId: string;
+  source: "OFAC" | "EU" | "UN";
+  externalId: string;
+  type: "INDIVIDUAL" | "ENTITY";
+  name: string;
+  aliases: string[];
+  birthDates: string[];
+  nationalities: string[];
+  programs: string[];
+  remarks?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type kycWatchlistEntryPk = "id";
+type kycWatchlistEntryId = kycWatchlistEntryAttributes[kycWatchlistEntryPk];
+type kycWatchlistEntryOptionalAttributes =
+  | "id"
+  | "type"
+  | "aliases"
+  | "birthDates"
+  | "nationalities"
+  | "programs"
+  | "remarks"
+  | "createdAt"
+  | "updatedAt";
+type kycWatchlistEntryCreationAttributes = Optional<
+  kycWatchlistEntryAttributes,
+  kycWatchlistEntryOptionalAttributes
+>;
@@ -318,6 +318,7 @@ interface nftSaleAttributes {
   royaltyFee: number;
   totalFee: number;
   netAmount: number;
+  refundedAmount?: number;
   transactionHash?: string;
   blockNumber?: number;
   status: "PENDING" | "COMPLETED" | "FAILED" | "CANCELLED";
@@ -333,6 +334,7 @@ type nftSaleOptionalAttributes =
   | "id"
   | "listingId"
   | "currency"
+  | "refundedAmount"
   | "transactionHash"
   | "blockNumber"
   | "status"
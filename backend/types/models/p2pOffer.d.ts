@@ -1,7 +1,7 @@
 // Types for P2P Offer
 
 type TRADE_TYPE = "BUY" | "SELL";
-type PRICE_MODEL = "FIXED" | "MARGIN";
+type PRICE_MODEL = "FIXED" | "MARGIN" | "MARKET";
 type OFFER_VISIBILITY = "PUBLIC" | "PRIVATE";
 type OFFER_STATUS =
   | "DRAFT"
@@ -17,8 +17,14 @@ type WALLET_TYPE = "FIAT" | "SPOT" | "ECO";
 interface PriceConfiguration {
   model: PRICE_MODEL;
   value: number;
+  // MARGIN offers only: margin as a percentage (default) or a fixed amount
+  marginType?: "percentage" | "fixed";
+  floorPrice?: number;
+  ceilingPrice?: number;
   marketPrice?: number;
   finalPrice: number;
+  // When a floating offer's stored price was last refreshed
+  priceUpdatedAt?: string;
 }
 
 interface TradeSettings {
@@ -0,0 +1,14 @@
+type P2P_USER_RELATION_TYPE = "TRUSTED" | "BLOCKED";
+
+interface p2pUserRelationAttributes {
+  id: string;
+  userId: string;
+  targetUserId: string;
+  type: P2P_USER_RELATION_TYPE;
+  tradeId?: string; // Trade the relation was recorded from, if any
+  note?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface p2pUserRelationCreationAttributes extends Partial<p2pUserRelationAttributes> {}
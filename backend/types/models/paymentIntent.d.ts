@@ -2,17 +2,34 @@ interface paymentIntentAttributes {
   id: string;
   userId?: string;
   walletId?: string;
+  merchantId?: string;
+  walletType: "FIAT" | "SPOT";
+  reference?: string | null;
   amount: number;
   currency: string;
   tax: number; // New field
   discount: number; // New field
-  status: "PENDING" | "COMPLETED" | "FAILED" | "EXPIRED";
+  fee: number;
+  refundedAmount: number;
+  status:
+    | "PENDING"
+    | "COMPLETED"
+    | "FAILED"
+    | "EXPIRED"
+    | "CANCELLED"
+    | "REFUNDED"
+    | "PARTIALLY_REFUNDED";
   ipnUrl: string;
   successUrl: string;
   failUrl: string;
   apiKey: string;
   transactionId: string | null;
   description?: string;
+  expiresAt?: Date | null;
+  paidAt?: Date | null;
+  ipnAttempts: number;
+  ipnNextAttemptAt?: Date | null;
+  ipnDeliveredAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -23,6 +40,16 @@ type paymentIntentOptionalAttributes =
   | "id"
   | "userId"
   | "walletId"
+  | "merchantId"
+  | "walletType"
+  | "reference"
+  | "fee"
+  | "refundedAmount"
+  | "expiresAt"
+  | "paidAt"
+  | "ipnAttempts"
+  | "ipnNextAttemptAt"
+  | "ipnDeliveredAt"
   | "transactionId"
   | "description"
   | "createdAt"
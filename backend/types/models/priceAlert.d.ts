@@ -0,0 +1,43 @@
+interface priceAlertAttributes {
+  id: string;
+  userId: string;
+  symbol: string;
+  marketType: "SPOT" | "ECO";
+  condition: "ABOVE" | "BELOW" | "CROSSES" | "PERCENT_CHANGE";
+  price?: number;
+  percentChange?: number;
+  timeWindow?: number;
+  mode: "ONCE" | "RECURRING";
+  cooldown: number;
+  notifyEmail: boolean;
+  note?: string;
+  status: "ACTIVE" | "TRIGGERED" | "DISABLED";
+  lastPrice?: number;
+  triggerCount: number;
+  triggeredAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type priceAlertPk = "id";
+type priceAlertId = priceAlertAttributes[priceAlertPk];
+type priceAlertOptionalAttributes =
+  | "id"
+  | "marketType"
+  | "price"
+  | "percentChange"
+  | "timeWindow"
+  | "mode"
+  | "cooldown"
+  | "notifyEmail"
+  | "note"
+  | "status"
+  | "lastPrice"
+  | "triggerCount"
+  | "triggeredAt"
+  | "createdAt"
+  | "updatedAt";
+type priceAlertCreationAttributes = Optional<
+  priceAlertAttributes,
+  priceAlertOptionalAttributes
+>;
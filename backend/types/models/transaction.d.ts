@@ -26,7 +26,10 @@ interface transactionAttributes {
     | "STAKING"
     | "STAKING_REWARD"
     | "P2P_OFFER_TRANSFER"
-    | "P2P_TRADE";
+    | "P2P_TRADE"
+    | "NFT_PURCHASE"
+    | "NFT_SALE"
+    | "NFT_ROYALTY";
   status:
     | "PENDING"
     | "FAILED"
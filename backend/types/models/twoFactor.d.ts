@@ -2,7 +2,7 @@ interface twoFactorAttributes {
   id: string;
   userId: string;
   secret: string;
-  type: "EMAIL" | "SMS" | "APP";
+  type: "EMAIL" | "SMS" | "APP" | "PASSKEY";
   enabled: boolean;
   recoveryCodes?: string;
   createdAt?: Date;
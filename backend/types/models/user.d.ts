@@ -20,6 +20,7 @@ interface userAttributes {
     email?: boolean;
     sms?: boolean;
     push?: boolean;
+    withdrawalWhitelist?: boolean;
   };
   createdAt?: Date;
   deletedAt?: Date;
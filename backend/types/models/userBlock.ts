@@ -1,7 +1,7 @@
 export interface userBlockAttributes {
   id: string;
   userId: string;
-  adminId: string;
+  adminId?: string | null;
   reason: string;
   isTemporary: boolean;
   duration?: number;
@@ -0,0 +1,22 @@
+interface webAuthnCredentialAttributes {
+  id: string;
+  userId: string;
+  name: string;
+  credentialId: string;
+  publicKey: string;
+  algorithm: number;
+  counter: number;
+  transports: string[];
+  lastUsedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type webAuthnCredentialPk = "id";
+type webAuthnCredentialId = webAuthnCredentialAttributes[webAuthnCredentialPk];
+type webAuthnCredentialOptionalAttributes =
+  "id" | "counter" | "transports" | "lastUsedAt" | "createdAt" | "updatedAt";
+type webAuthnCredentialCreationAttributes = Optional<
+  webAuthnCredentialAttributes,
+  webAuthnCredentialOptionalAttributes
+>;
@@ -0,0 +1,28 @@
+interface withdrawalAddressAttributes {
+  id: string;
+  userId: string;
+  chain: string;
+  address: string;
+  memo?: string;
+  label: string;
+  status: "PENDING" | "ACTIVE";
+  confirmedAt?: Date;
+  activatesAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type withdrawalAddressPk = "id";
+type withdrawalAddressId = withdrawalAddressAttributes[withdrawalAddressPk];
+type withdrawalAddressOptionalAttributes =
+  | "id"
+  | "memo"
+  | "status"
+  | "confirmedAt"
+  | "activatesAt"
+  | "createdAt"
+  | "updatedAt";
+type withdrawalAddressCreationAttributes = Optional<
+  withdrawalAddressAttributes,
+  withdrawalAddressOptionalAttributes
+>;
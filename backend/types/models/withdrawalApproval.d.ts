@@ -0,0 +1,17 @@
+interface withdrawalApprovalAttributes {
+  id: string;
+  transactionId: string;
+  adminId: string;
+  note?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type withdrawalApprovalPk = "id";
+type withdrawalApprovalId = withdrawalApprovalAttributes[withdrawalApprovalPk];
+type withdrawalApprovalOptionalAttributes =
+  "id" | "note" | "createdAt" | "updatedAt";
+type withdrawalApprovalCreationAttributes = Optional<
+  withdrawalApprovalAttributes,
+  withdrawalApprovalOptionalAttributes
+>;
@@ -0,0 +1,37 @@
+interface withdrawalPolicyAttributes {
+  id: string;
+  name: string;
+  kycLevel?: number | null;
+  walletType?: "FIAT" | "SPOT" | "ECO" | null;
+  currency?: string | null;
+  dailyLimit?: number | null;
+  monthlyLimit?: number | null;
+  dailyLimitUsd?: number | null;
+  monthlyLimitUsd?: number | null;
+  approvalThresholdUsd?: number | null;
+  requiredApprovals: number;
+  status: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type withdrawalPolicyPk = "id";
+type withdrawalPolicyId = withdrawalPolicyAttributes[withdrawalPolicyPk];
+type withdrawalPolicyOptionalAttributes =
+  | "id"
+  | "kycLevel"
+  | "walletType"
+  | "currency"
+  | "dailyLimit"
+  | "monthlyLimit"
+  | "dailyLimitUsd"
+  | "monthlyLimitUsd"
+  | "approvalThresholdUsd"
+  | "requiredApprovals"
+  | "status"
+  | "createdAt"
+  | "updatedAt";
+type withdrawalPolicyCreationAttributes = Optional<
+  withdrawalPolicyAttributes,
+  withdrawalPolicyOptionalAttributes
+>;
@@ -474,6 +474,7 @@ export function LeftSidebar({
           status={status}
           setStatus={setStatus}
           currentLevel={currentLevel}
+          setCurrentLevel={setCurrentLevel}
           onOpenVerificationServices={onOpenVerificationServices}
         />
       )}
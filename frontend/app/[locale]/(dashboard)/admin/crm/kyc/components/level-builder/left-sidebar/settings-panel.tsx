@@ -29,6 +29,7 @@ interface SettingsPanelProps {
   status: "DRAFT" | "ACTIVE" | "INACTIVE";
   setStatus?: (status: "DRAFT" | "ACTIVE" | "INACTIVE") => void;
   currentLevel: KycLevel | null;
+  setCurrentLevel?: (level: KycLevel) => void;
   onOpenVerificationServices?: () => void;
 }
 
@@ -44,6 +45,7 @@ export function SettingsPanel({
   status,
   setStatus,
   currentLevel,
+  setCurrentLevel,
   onOpenVerificationServices,
 }: SettingsPanelProps) {
   const t = useTranslations("dashboard");
@@ -152,6 +154,35 @@ export function SettingsPanel({
                 {t("describe_the_purpose_it_collects")}
               </p>
             </div>
+
+            <div className="space-y-2 mt-4">
+              <Label
+                htmlFor="level-validity"
+                className="text-gray-700 dark:text-zinc-300"
+              >
+                {t("validity_period_days")}
+              </Label>
+              <Input
+                id="level-validity"
+                type="number"
+                value={currentLevel?.validityDays ?? ""}
+                onChange={(e) => {
+                  if (!currentLevel || !setCurrentLevel) return;
+                  const value = Number.parseInt(e.target.value);
+                  setCurrentLevel({
+                    ...currentLevel,
+                    validityDays: !isNaN(value) && value > 0 ? value : null,
+                  });
+                  onChangesUnsaved?.();
+                }}
+                min="1"
+                placeholder="No expiry"
+                className="bg-white dark:bg-zinc-900 border-gray-200 dark:border-zinc-700"
+              />
+              <p className="text-xs text-gray-500 dark:text-zinc-400">
+                {t("approvals_expire_after_this_many_days")}
+              </p>
+            </div>
           </div>
 
           <div className="p-4 border-b border-gray-200 dark:border-zinc-800">
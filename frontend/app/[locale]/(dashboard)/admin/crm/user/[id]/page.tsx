@@ -70,6 +70,7 @@ import {
   PieChart,
   LineChart,
   Users,
+  LogOut,
 } from "lucide-react";
 import { $fetch } from "@/lib/api";
 import { toast } from "sonner";
@@ -306,6 +307,26 @@ export default function UserDetailPage() {
     }
   };
 
+  const handleForceLogout = async () => {
+    try {
+      setIsLoading(true);
+      const { error } = await $fetch({
+        url: `/api/admin/crm/user/${params.id}/logout`,
+        method: "POST",
+      });
+
+      if (error) {
+        throw new Error(error);
+      }
+
+      toast.success("User logged out of all sessions");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to log out user");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
     toast.success(`${label} copied to clipboard`);
@@ -2123,6 +2144,17 @@ export default function UserDetailPage() {
                       )}
                     </div>
                   </div>
+
+                  <div className="flex justify-between items-center p-4 border rounded-lg">
+                    <div>
+                      <h4 className="font-medium">Active Sessions</h4>
+                      <p className="text-sm text-muted-foreground">Sign the user out on every device</p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleForceLogout} disabled={isLoading}>
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Force Logout
+                    </Button>
+                  </div>
                   
                   <div className="flex justify-between items-center p-4 border rounded-lg">
                     <div>
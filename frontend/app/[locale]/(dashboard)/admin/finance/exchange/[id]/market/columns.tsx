@@ -5,6 +5,7 @@ import {
   TrendingUp,
   Clock,
   Flame,
+  Route,
 } from "lucide-react";
 
 export const columns: ColumnDefinition[] = [
@@ -164,6 +165,25 @@ export const columns: ColumnDefinition[] = [
       },
     },
   },
+  {
+    key: "providers",
+    title: "Providers",
+    type: "tags",
+    icon: Route,
+    sortable: false,
+    searchable: false,
+    filterable: false,
+    editable: true,
+    usedInCreate: false,
+    description:
+      "Providers to route orders to, in order. Leave empty to use the provider priority",
+    render: {
+      type: "tags",
+      config: { maxDisplay: 3 },
+    },
+    priority: 3,
+    expandedOnly: true,
+  },
   {
     key: "status",
     title: "Status",
@@ -1,4 +1,10 @@
-import { Shield, User, CheckSquare, ClipboardList } from "lucide-react";
+import {
+  Shield,
+  User,
+  CheckSquare,
+  ClipboardList,
+  ListOrdered,
+} from "lucide-react";
 
 export const columns: ColumnDefinition[] = [
   {
@@ -65,6 +71,20 @@ export const columns: ColumnDefinition[] = [
     description: "License status",
     priority: 1,
   },
+  {
+    key: "priority",
+    title: "Priority",
+    type: "number",
+    icon: ListOrdered,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description:
+      "Order routing priority among active providers, lower is tried first",
+    priority: 1,
+  },
   // {
   //   key: "type",
   //   title: "Type",
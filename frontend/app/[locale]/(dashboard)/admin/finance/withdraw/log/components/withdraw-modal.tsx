@@ -25,6 +25,14 @@ interface Transaction extends BaseTransaction {
   referenceId?: string;
 }
 
+interface WithdrawalRisk {
+  status: "HELD" | "RELEASED";
+  reasons: string[];
+  requiredApprovals: number;
+  amountUsd?: number | null;
+  heldAt?: string;
+}
+
 interface WithdrawModalProps {
   withdrawId: string | null;
   isOpen: boolean;
@@ -144,6 +152,25 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
     }
   };
 
+  const approveRelease = async () => {
+    if (!withdrawId) return;
+    setIsLoading(true);
+    try {
+      const { error } = await $fetch({
+        method: "POST",
+        url: `/api/admin/finance/withdraw/hold/${withdrawId}/approve`,
+      });
+      if (!error) {
+        await fetchTransaction();
+        onWithdrawUpdated?.();
+      }
+    } catch (err) {
+      console.error("Failed to approve withdraw", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleClose = () => {
     setTransaction(null);
     setAmount("");
@@ -159,6 +186,16 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
 
   const isEditable = transaction?.status === "PENDING";
 
+  let risk: WithdrawalRisk | null = null;
+  try {
+    risk = transaction?.metadata
+      ? JSON.parse(transaction.metadata)?.risk || null
+      : null;
+  } catch (err) {
+    risk = null;
+  }
+  const isHeld = isEditable && risk?.status === "HELD";
+
   return (
     <>
       <Sheet open={isOpen} onOpenChange={handleClose}>
@@ -300,6 +337,38 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
                     </div>
                   </div>
 
+                  {/* Risk Hold Section */}
+                  {isHeld && risk && (
+                    <div className="bg-amber-50 dark:bg-amber-950/20 rounded-xl p-6 border border-amber-200/50 dark:border-amber-800/50">
+                      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2 text-amber-800 dark:text-amber-400">
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                        </svg>
+                        Held for Review
+                      </h3>
+                      <ul className="list-disc pl-5 space-y-1 text-sm">
+                        {risk.reasons.map((reason, index) => (
+                          <li key={index}>{reason}</li>
+                        ))}
+                      </ul>
+                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mt-4">
+                        <p className="text-sm text-muted-foreground">
+                          Requires {risk.requiredApprovals} distinct admin approval
+                          {risk.requiredApprovals > 1 ? "s" : ""} before it can be
+                          processed.
+                        </p>
+                        <Button
+                          variant="default"
+                          onClick={approveRelease}
+                          disabled={isLoading}
+                          className="w-full sm:w-auto"
+                        >
+                          Approve Release
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Metadata Section */}
                   {transaction.metadata && (
                     <div className="bg-white dark:bg-zinc-800/50 rounded-xl p-6 border border-zinc-200 dark:border-zinc-700">
@@ -345,7 +414,7 @@ export const WithdrawModal: React.FC<WithdrawModalProps> = ({
                         <Button
                           variant="default"
                           onClick={() => updateTransaction("COMPLETED")}
-                          disabled={isLoading}
+                          disabled={isLoading || isHeld}
                           className="w-full sm:w-auto bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-800 text-white shadow-lg hover:shadow-xl transition-all duration-200"
                         >
                           <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
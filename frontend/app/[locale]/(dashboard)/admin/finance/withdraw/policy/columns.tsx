@@ -0,0 +1,178 @@
+import {
+  ClipboardList,
+  DollarSign,
+  CheckSquare,
+  Shield,
+  Wallet,
+  Users,
+} from "lucide-react";
+
+export const columns: ColumnDefinition[] = [
+  {
+    key: "id",
+    title: "ID",
+    type: "text",
+    icon: ClipboardList,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    description: "Unique identifier for the withdrawal policy",
+    priority: 2,
+    expandedOnly: true,
+  },
+  {
+    key: "name",
+    title: "Name",
+    type: "text",
+    icon: Shield,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Name of the policy",
+    priority: 1,
+  },
+  {
+    key: "kycLevel",
+    title: "KYC Level",
+    type: "number",
+    icon: Users,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "KYC level the policy applies to, leave empty for all levels",
+    priority: 1,
+  },
+  {
+    key: "walletType",
+    title: "Wallet Type",
+    type: "select",
+    icon: Wallet,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Wallet type the policy applies to, leave empty for all types",
+    options: [
+      { value: "FIAT", label: "Fiat" },
+      { value: "SPOT", label: "Spot" },
+      { value: "ECO", label: "Ecosystem" },
+    ],
+    priority: 1,
+  },
+  {
+    key: "currency",
+    title: "Currency",
+    type: "text",
+    icon: DollarSign,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Currency the policy applies to, leave empty for all currencies",
+    priority: 1,
+  },
+  {
+    key: "dailyLimit",
+    title: "24h Limit",
+    type: "number",
+    icon: DollarSign,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Maximum amount in the currency over a rolling 24 hours",
+    priority: 2,
+  },
+  {
+    key: "monthlyLimit",
+    title: "30d Limit",
+    type: "number",
+    icon: DollarSign,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Maximum amount in the currency over a rolling 30 days",
+    expandedOnly: true,
+    priority: 2,
+  },
+  {
+    key: "dailyLimitUsd",
+    title: "24h Limit (USD)",
+    type: "number",
+    icon: DollarSign,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Maximum USD value over a rolling 24 hours",
+    priority: 2,
+  },
+  {
+    key: "monthlyLimitUsd",
+    title: "30d Limit (USD)",
+    type: "number",
+    icon: DollarSign,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Maximum USD value over a rolling 30 days",
+    expandedOnly: true,
+    priority: 2,
+  },
+  {
+    key: "approvalThresholdUsd",
+    title: "Approval Threshold (USD)",
+    type: "number",
+    icon: Shield,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description:
+      "Withdrawals worth this much or more are held until approved by admins",
+    priority: 1,
+  },
+  {
+    key: "requiredApprovals",
+    title: "Required Approvals",
+    type: "select",
+    icon: Users,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Distinct admin approvals needed to release a held withdrawal",
+    options: [
+      { value: "1", label: "1" },
+      { value: "2", label: "2" },
+    ],
+    priority: 1,
+  },
+  {
+    key: "status",
+    title: "Status",
+    type: "boolean",
+    icon: CheckSquare,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Whether this policy is enforced",
+    priority: 1,
+  },
+];
@@ -0,0 +1,26 @@
+"use client";
+import DataTable from "@/components/blocks/data-table";
+import { columns } from "./columns";
+export default function WithdrawPolicyPage() {
+  return (
+    <DataTable
+      apiEndpoint="/api/admin/finance/withdraw/policy"
+      model="withdrawalPolicy"
+      permissions={{
+        access: "access.withdraw.policy",
+        view: "view.withdraw.policy",
+        create: "create.withdraw.policy",
+        edit: "edit.withdraw.policy",
+        delete: "delete.withdraw.policy",
+      }}
+      pageSize={10}
+      canCreate
+      canEdit
+      canDelete
+      canView
+      title="Withdrawal Policies"
+      itemTitle="Withdrawal Policy"
+      columns={columns}
+    />
+  );
+}
@@ -0,0 +1,241 @@
+import {
+  CalendarIcon,
+  Code,
+  Globe,
+  Hash,
+  Laptop,
+  Mail,
+  Route,
+  User,
+} from "lucide-react";
+
+const renderJson = (value: any) =>
+  value && (!Array.isArray(value) || value.length) ? (
+    <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  ) : (
+    <span className="text-muted-foreground">-</span>
+  );
+
+export const columns: ColumnDefinition[] = [
+  {
+    key: "admin",
+    title: "Admin",
+    type: "compound",
+    icon: User,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    description: "Admin who performed the action",
+    priority: 1,
+    render: {
+      type: "compound",
+      config: {
+        image: {
+          key: "avatar",
+          fallback: "/img/placeholder.svg",
+          type: "image",
+          title: "Avatar",
+          description: "Admin's avatar",
+          editable: false,
+          usedInCreate: false,
+        },
+        primary: {
+          key: ["firstName", "lastName"],
+          title: ["First Name", "Last Name"],
+          description: ["Admin's first name", "Admin's last name"],
+          editable: false,
+          usedInCreate: false,
+          icon: User,
+        },
+        secondary: {
+          key: "email",
+          title: "Email",
+          icon: Mail,
+          editable: false,
+          usedInCreate: false,
+        },
+      },
+    },
+  },
+  {
+    key: "method",
+    title: "Method",
+    type: "select",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "HTTP method of the request",
+    priority: 1,
+    options: [
+      { value: "POST", label: "POST", color: "success" },
+      { value: "PUT", label: "PUT", color: "info" },
+      { value: "DELETE", label: "DELETE", color: "danger" },
+    ],
+    render: {
+      type: "badge",
+      config: {
+        variant: (value: string) => {
+          switch (value) {
+            case "POST":
+              return "success";
+            case "PUT":
+              return "info";
+            case "DELETE":
+              return "danger";
+            default:
+              return "default";
+          }
+        },
+      },
+    },
+  },
+  {
+    key: "route",
+    title: "Route",
+    type: "text",
+    icon: Route,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    description: "Route pattern that handled the request",
+    priority: 1,
+  },
+  {
+    key: "path",
+    title: "Path",
+    type: "text",
+    icon: Route,
+    sortable: false,
+    searchable: true,
+    filterable: true,
+    description: "Requested URL path",
+    priority: 3,
+    expandedOnly: true,
+  },
+  {
+    key: "targetModel",
+    title: "Target Model",
+    type: "text",
+    icon: Code,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    description: "Model of the record the action targeted",
+    priority: 2,
+  },
+  {
+    key: "targetId",
+    title: "Target ID",
+    type: "text",
+    icon: Hash,
+    sortable: false,
+    searchable: true,
+    filterable: true,
+    description: "ID of the record the action targeted",
+    priority: 2,
+  },
+  {
+    key: "statusCode",
+    title: "Status",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Response status code",
+    priority: 1,
+    render: {
+      type: "badge",
+      config: {
+        variant: (value: number) =>
+          value >= 500 ? "danger" : value >= 400 ? "warning" : "success",
+      },
+    },
+  },
+  {
+    key: "error",
+    title: "Error",
+    type: "textarea",
+    sortable: false,
+    searchable: true,
+    filterable: false,
+    description: "Error message when the request failed",
+    priority: 3,
+    expandedOnly: true,
+  },
+  {
+    key: "changes",
+    title: "Changes",
+    type: "textarea",
+    sortable: false,
+    searchable: false,
+    filterable: false,
+    description:
+      "Records created, updated or deleted, with before/after values",
+    priority: 3,
+    expandedOnly: true,
+    render: { type: "custom", render: renderJson },
+  },
+  {
+    key: "omittedChanges",
+    title: "Omitted Changes",
+    type: "number",
+    sortable: false,
+    searchable: false,
+    filterable: false,
+    description: "Changes beyond the per-entry limit that were not listed",
+    priority: 3,
+    expandedOnly: true,
+  },
+  {
+    key: "requestBody",
+    title: "Request Body",
+    type: "textarea",
+    sortable: false,
+    searchable: false,
+    filterable: false,
+    description: "Request payload with secrets redacted",
+    priority: 3,
+    expandedOnly: true,
+    render: { type: "custom", render: renderJson },
+  },
+  {
+    key: "ip",
+    title: "IP Address",
+    type: "text",
+    icon: Globe,
+    sortable: false,
+    searchable: true,
+    filterable: true,
+    description: "IP address of the admin",
+    priority: 2,
+  },
+  {
+    key: "userAgent",
+    title: "User Agent",
+    type: "text",
+    icon: Laptop,
+    sortable: false,
+    searchable: true,
+    filterable: true,
+    description: "Browser or client used for the request",
+    priority: 3,
+    expandedOnly: true,
+  },
+  {
+    key: "createdAt",
+    title: "Date",
+    type: "date",
+    icon: CalendarIcon,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Time the action was performed",
+    priority: 1,
+    render: {
+      type: "date",
+      format: "PPPpp",
+    },
+  },
+];
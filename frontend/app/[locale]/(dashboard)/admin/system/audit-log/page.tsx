@@ -0,0 +1,100 @@
+"use client";
+import DataTable from "@/components/blocks/data-table";
+import { columns } from "./columns";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { $fetch } from "@/lib/api";
+import { useTableStore } from "@/components/blocks/data-table/store";
+import { useUserStore } from "@/store/user";
+
+export default function AdminAuditLogPage() {
+  const { hasPermission } = useUserStore();
+  const canExport = hasPermission("export.system.audit");
+
+  // Export with the same filters and sorting as the table.
+  const exportCsv = async () => {
+    const { filters, sorting } = useTableStore.getState();
+    const params: Record<string, any> = {};
+    const filter = Object.entries(filters).reduce(
+      (acc, [key, value]) => {
+        if (value !== undefined && value !== null) {
+          if (typeof value === "object") {
+            if ("value" in value && value.value !== "") {
+              acc[key] = {
+                value: value.value,
+                operator: value.operator || "equal",
+              };
+            }
+          } else {
+            acc[key] = { value, operator: "contains" };
+          }
+        }
+        return acc;
+      },
+      {} as Record<string, any>
+    );
+    if (Object.keys(filter).length > 0) {
+      params.filter = JSON.stringify(filter);
+    }
+    if (sorting.length > 0) {
+      params.sortField = sorting.map((s) => s.id).join(",");
+      params.sortOrder = sorting
+        .map((s) => (s.desc ? "desc" : "asc"))
+        .join(",");
+    }
+
+    const { data, error } = await $fetch({
+      url: "/api/admin/system/audit-log/export",
+      params,
+      silentSuccess: true,
+    });
+    if (error || !data?.data) return;
+
+    const url = window.URL.createObjectURL(
+      new Blob([data.data], { type: "text/csv" })
+    );
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `admin_audit_log_${new Date().toISOString().split("T")[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <DataTable
+      apiEndpoint="/api/admin/system/audit-log"
+      model="adminAuditLog"
+      permissions={{
+        access: "access.system.audit",
+        view: "view.system.audit",
+        create: "create.system.audit",
+        edit: "edit.system.audit",
+        delete: "delete.system.audit",
+      }}
+      pageSize={20}
+      canCreate={false}
+      canEdit={false}
+      canDelete={false}
+      canView={true}
+      isParanoid={false}
+      title="Admin Audit Log"
+      itemTitle="Audit Entry"
+      columns={columns}
+      extraTopButtons={() =>
+        canExport ? (
+          <Button
+            type="button"
+            variant="outline"
+            className="flex items-center gap-2"
+            onClick={exportCsv}
+          >
+            <Download className="h-4 w-4" />
+            Export to CSV
+          </Button>
+        ) : null
+      }
+    />
+  );
+}
@@ -0,0 +1 @@
+export const permission = "access.system.audit";
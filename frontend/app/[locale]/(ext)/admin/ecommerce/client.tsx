@@ -16,6 +16,7 @@ import {
   ChevronDown,
   Truck,
   DollarSign,
+  Percent,
   Star,
   Heart,
 } from "lucide-react";
@@ -97,6 +98,7 @@ export default function Client({ children }: ClientProps) {
     { name: "Discounts", href: "/admin/ecommerce/discount", icon: DollarSign },
     { name: "Reviews", href: "/admin/ecommerce/review", icon: Star },
     { name: "Shipping", href: "/admin/ecommerce/shipping", icon: Truck },
+    { name: "Tax Rules", href: "/admin/ecommerce/tax", icon: Percent },
     { name: "Wishlist", href: "/admin/ecommerce/wishlist", icon: Heart },
     { name: "Settings", href: "/admin/ecommerce/settings", icon: Settings },
   ];
@@ -120,6 +122,7 @@ export default function Client({ children }: ClientProps) {
         { name: "Orders", href: "/admin/ecommerce/order", icon: ShoppingBag },
         { name: "Discounts", href: "/admin/ecommerce/discount", icon: DollarSign },
         { name: "Shipping", href: "/admin/ecommerce/shipping", icon: Truck },
+        { name: "Tax Rules", href: "/admin/ecommerce/tax", icon: Percent },
       ]
     },
   ];
@@ -1,4 +1,12 @@
-import { Shield, ClipboardList, CheckSquare, ImageIcon } from "lucide-react";
+import {
+  Shield,
+  ClipboardList,
+  CheckSquare,
+  ImageIcon,
+  Tags,
+  Wallet,
+  Hash,
+} from "lucide-react";
 import { format } from "date-fns";
 
 export const columns: ColumnDefinition[] = [
@@ -33,7 +41,7 @@ export const columns: ColumnDefinition[] = [
     filterable: true,
     editable: true,
     usedInCreate: true,
-    description: "Product details",
+    description: "Product the code is limited to, empty for a cart-wide code",
     render: {
       type: "compound",
       config: {
@@ -82,6 +90,24 @@ export const columns: ColumnDefinition[] = [
     description: "Discount code",
     priority: 1,
   },
+  {
+    key: "type",
+    title: "Type",
+    type: "select",
+    icon: Tags,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "How the discount is applied",
+    options: [
+      { value: "PERCENTAGE", label: "Percentage" },
+      { value: "FIXED", label: "Fixed Amount" },
+      { value: "FREE_SHIPPING", label: "Free Shipping" },
+    ],
+    priority: 1,
+  },
   {
     key: "percentage",
     title: "Percentage",
@@ -95,6 +121,59 @@ export const columns: ColumnDefinition[] = [
     description: "Discount percentage",
     priority: 1,
   },
+  {
+    key: "amount",
+    title: "Amount",
+    type: "number",
+    icon: Wallet,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Amount taken off a fixed discount",
+    priority: 2,
+  },
+  {
+    key: "minSpend",
+    title: "Minimum Spend",
+    type: "number",
+    icon: Wallet,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Cart subtotal required to use the code",
+    priority: 2,
+    expandedOnly: true,
+  },
+  {
+    key: "maxUses",
+    title: "Usage Cap",
+    type: "number",
+    icon: Hash,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description:
+      "Number of orders the code can be used on, empty for unlimited",
+    priority: 2,
+    expandedOnly: true,
+  },
+  {
+    key: "usageCount",
+    title: "Used",
+    type: "number",
+    icon: Hash,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Number of orders that used the code",
+    priority: 2,
+  },
   {
     key: "validUntil",
     title: "Valid Until",
@@ -40,6 +40,19 @@ interface OrderClientProps {
   orderId: string;
 }
 
+const ORDER_STATUS_LABELS: Record<string, string> = {
+  PENDING: "Pending",
+  PAID: "Paid",
+  PROCESSING: "Processing",
+  SHIPPED: "Shipped",
+  DELIVERED: "Delivered",
+  COMPLETED: "Completed",
+  RETURN_REQUESTED: "Return Requested",
+  REFUNDED: "Refunded",
+  CANCELLED: "Cancelled",
+  REJECTED: "Rejected",
+};
+
 // Properly memoized debounce function
 function useDebounce<T extends (...args: any[]) => any>(
   callback: T,
@@ -64,6 +77,9 @@ export default function OrderDetailClient({ orderId }: OrderClientProps) {
   const [shippingAddress, setShippingAddress] = useState<any>({});
   const [selectedShipment, setSelectedShipment] = useState<string>("");
   const [orderStatus, setOrderStatus] = useState<string>("");
+  const [nextStatuses, setNextStatuses] = useState<string[]>([]);
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
   const [isEditingShipping, setIsEditingShipping] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
@@ -106,6 +122,8 @@ export default function OrderDetailClient({ orderId }: OrderClientProps) {
       });
     }
     setOrderStatus(data.order.status);
+    setNextStatuses(data.nextStatuses ?? []);
+    setTrackingNumber(data.order.shipping?.trackingNumber ?? "");
     setError(null);
     setIsLoading(false);
   }, [orderId]);
@@ -173,33 +191,39 @@ export default function OrderDetailClient({ orderId }: OrderClientProps) {
     }));
   };
   const handleStatusSelectChange = async (value: string) => {
-    // Only allow status change if current status is PENDING
-    if (order.status !== "PENDING") {
-      toast.error("Can only change status when order is pending");
-      return;
-    }
+    if (value === orderStatus) return;
     setIsUpdating(true);
     const { error } = await $fetch({
       url: `${api}/${orderId}`,
       method: "PUT",
       body: {
         status: value,
+        trackingNumber: value === "SHIPPED" ? trackingNumber || null : null,
       },
     });
     if (error) {
       console.error("Error updating order status:", error);
       toast.error("Error updating order status");
     } else {
-      setOrderStatus(value);
-      setOrder((prev: any) =>
-        prev
-          ? {
-              ...prev,
-              status: value,
-            }
-          : null
-      );
       toast.success("Order status updated");
+      fetchOrder();
+    }
+    setIsUpdating(false);
+  };
+  const handleRefund = async () => {
+    setIsUpdating(true);
+    const { error } = await $fetch({
+      url: `${api}/${orderId}/refund`,
+      method: "POST",
+      body: {
+        amount: refundAmount ? parseFloat(refundAmount) : null,
+      },
+    });
+    if (error) {
+      console.error("Error refunding order:", error);
+    } else {
+      setRefundAmount("");
+      fetchOrder();
     }
     setIsUpdating(false);
   };
@@ -351,8 +375,8 @@ export default function OrderDetailClient({ orderId }: OrderClientProps) {
 
   // Status check for editing
   const canEditStatus = useMemo(() => {
-    return order?.status === "PENDING";
-  }, [order?.status]);
+    return nextStatuses.length > 0;
+  }, [nextStatuses]);
   if (isLoading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -395,8 +419,20 @@ export default function OrderDetailClient({ orderId }: OrderClientProps) {
     switch (status) {
       case "PENDING":
         return <Badge variant="secondary">Pending</Badge>;
+      case "PAID":
+        return <Badge variant="secondary">Paid</Badge>;
+      case "PROCESSING":
+        return <Badge variant="secondary">Processing</Badge>;
+      case "SHIPPED":
+        return <Badge variant="secondary">Shipped</Badge>;
+      case "DELIVERED":
+        return <Badge variant="success">Delivered</Badge>;
       case "COMPLETED":
         return <Badge variant="success">Completed</Badge>;
+      case "RETURN_REQUESTED":
+        return <Badge variant="destructive">Return Requested</Badge>;
+      case "REFUNDED":
+        return <Badge variant="secondary">Refunded</Badge>;
       case "CANCELLED":
         return <Badge variant="destructive">Cancelled</Badge>;
       case "REJECTED":
@@ -451,19 +487,61 @@ export default function OrderDetailClient({ orderId }: OrderClientProps) {
                 <SelectValue placeholder="Select status" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="PENDING">Pending</SelectItem>
-                <SelectItem value="COMPLETED">Completed</SelectItem>
-                <SelectItem value="CANCELLED">Cancelled</SelectItem>
-                <SelectItem value="REJECTED">Rejected</SelectItem>
+                {[orderStatus, ...nextStatuses].map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {ORDER_STATUS_LABELS[status] ?? status}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             {getStatusBadge(orderStatus)}
             {!canEditStatus && (
               <p className="text-xs text-zinc-500 dark:text-zinc-400">
-                (Status can only be changed when order is pending)
+                (This order is final and can no longer change)
               </p>
             )}
           </div>
+          {nextStatuses.includes("SHIPPED") && (
+            <div className="flex items-center gap-2 mt-3">
+              <Label htmlFor="trackingNumber" className="whitespace-nowrap">
+                Tracking number
+              </Label>
+              <Input
+                id="trackingNumber"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                placeholder="Recorded on the shipment when shipped"
+              />
+            </div>
+          )}
+          {canEditStatus && (
+            <div className="flex items-center gap-2 mt-3">
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                placeholder={`Refund amount (${
+                  order.refundedAmount
+                    ? `${order.refundedAmount} refunded so far`
+                    : "full by default"
+                })`}
+              />
+              <Button
+                variant="outline"
+                onClick={handleRefund}
+                disabled={isUpdating}
+              >
+                Refund
+              </Button>
+            </div>
+          )}
+          {order.returnReason && order.status === "RETURN_REQUESTED" && (
+            <p className="text-sm text-red-600 dark:text-red-400 mt-3">
+              Return reason: {order.returnReason}
+            </p>
+          )}
         </div>
       </div>
 
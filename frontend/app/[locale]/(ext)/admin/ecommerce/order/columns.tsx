@@ -70,10 +70,16 @@ export const columns: ColumnDefinition[] = [
     sortable: true,
     searchable: true,
     filterable: true,
-    description: "PENDING, COMPLETED, CANCELLED, REJECTED",
+    description: "Lifecycle status of the order",
     options: [
       { value: "PENDING", label: "Pending" },
+      { value: "PAID", label: "Paid" },
+      { value: "PROCESSING", label: "Processing" },
+      { value: "SHIPPED", label: "Shipped" },
+      { value: "DELIVERED", label: "Delivered" },
       { value: "COMPLETED", label: "Completed" },
+      { value: "RETURN_REQUESTED", label: "Return Requested" },
+      { value: "REFUNDED", label: "Refunded" },
       { value: "CANCELLED", label: "Cancelled" },
       { value: "REJECTED", label: "Rejected" },
     ],
@@ -84,7 +90,13 @@ export const columns: ColumnDefinition[] = [
         variant: (value) => {
           switch (value) {
             case "PENDING":
+            case "RETURN_REQUESTED":
               return "warning";
+            case "PAID":
+            case "PROCESSING":
+            case "SHIPPED":
+              return "info";
+            case "DELIVERED":
             case "COMPLETED":
               return "success";
             case "CANCELLED":
@@ -0,0 +1,75 @@
+import {
+  Shield,
+  ClipboardList,
+  Globe,
+  Percent,
+  CheckSquare,
+} from "lucide-react";
+
+export const columns: ColumnDefinition[] = [
+  // Hidden by default
+  {
+    key: "id",
+    title: "ID",
+    type: "text",
+    icon: Shield,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    description: "Unique tax rule identifier",
+    priority: 3,
+    expandedOnly: true,
+  },
+  {
+    key: "name",
+    title: "Name",
+    type: "text",
+    icon: ClipboardList,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Name of the tax, e.g. UK VAT",
+    priority: 1,
+  },
+  {
+    key: "country",
+    title: "Country",
+    type: "text",
+    icon: Globe,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Shipping country as a two-letter ISO code, e.g. GB",
+    priority: 1,
+  },
+  {
+    key: "rate",
+    title: "Rate",
+    type: "number",
+    icon: Percent,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Tax percentage charged on orders shipped to the country",
+    priority: 1,
+  },
+  {
+    key: "status",
+    title: "Status",
+    type: "boolean",
+    icon: CheckSquare,
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    editable: true,
+    usedInCreate: true,
+    description: "Whether the rule is applied",
+    priority: 1,
+  },
+];
@@ -0,0 +1,26 @@
+"use client";
+import DataTable from "@/components/blocks/data-table";
+import { columns } from "./columns";
+export default function EcommerceTaxPage() {
+  return (
+    <DataTable
+      apiEndpoint="/api/admin/ecommerce/tax"
+      model="ecommerceTaxRule"
+      permissions={{
+        access: "access.ecommerce.tax",
+        view: "view.ecommerce.tax",
+        create: "create.ecommerce.tax",
+        edit: "edit.ecommerce.tax",
+        delete: "delete.ecommerce.tax",
+      }}
+      pageSize={10}
+      canCreate
+      canEdit
+      canDelete
+      canView
+      title="Ecommerce Tax Rules"
+      itemTitle="Tax Rule"
+      columns={columns}
+    />
+  );
+}
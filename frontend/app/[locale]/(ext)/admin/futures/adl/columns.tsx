@@ -0,0 +1,172 @@
+import { CalendarIcon, Mail, User } from "lucide-react";
+
+const userCompound = (description: string) => ({
+  type: "compound" as const,
+  config: {
+    image: {
+      key: "avatar",
+      fallback: "/img/placeholder.svg",
+      type: "image",
+      title: "Avatar",
+      description: "User's avatar",
+      editable: false,
+      usedInCreate: false,
+    },
+    primary: {
+      key: ["firstName", "lastName"],
+      title: ["First Name", "Last Name"],
+      description: [`${description} first name`, `${description} last name`],
+      editable: false,
+      usedInCreate: false,
+      icon: User,
+    },
+    secondary: {
+      key: "email",
+      title: "Email",
+      icon: Mail,
+      editable: false,
+      usedInCreate: false,
+    },
+  },
+});
+
+export const columns: ColumnDefinition[] = [
+  {
+    key: "symbol",
+    title: "Market",
+    type: "text",
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    description: "Market the event happened on",
+    priority: 1,
+  },
+  {
+    key: "user",
+    title: "Deleveraged User",
+    type: "compound",
+    icon: User,
+    sortable: false,
+    searchable: false,
+    filterable: false,
+    description: "Owner of the position that was deleveraged",
+    priority: 1,
+    render: userCompound("Deleveraged user's"),
+  },
+  {
+    key: "side",
+    title: "Side",
+    type: "select",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Side of the deleveraged position",
+    priority: 1,
+    options: [
+      { value: "BUY", label: "Buy" },
+      { value: "SELL", label: "Sell" },
+    ],
+    render: {
+      type: "badge",
+      config: {
+        variant: (value: string) => (value === "BUY" ? "success" : "danger"),
+      },
+    },
+  },
+  {
+    key: "amount",
+    title: "Closed Amount",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Size of the position that was closed",
+    priority: 1,
+  },
+  {
+    key: "price",
+    title: "Bankruptcy Price",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Price the position was closed at",
+    priority: 2,
+  },
+  {
+    key: "markPrice",
+    title: "Mark Price",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Mark price at the time of the liquidation",
+    priority: 2,
+  },
+  {
+    key: "pnl",
+    title: "Realized PnL",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "PnL realized by the deleveraged position",
+    priority: 2,
+  },
+  {
+    key: "rankScore",
+    title: "Rank Score",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: false,
+    description: "Return on margin multiplied by leverage when ranked",
+    priority: 3,
+  },
+  {
+    key: "shortfallCovered",
+    title: "Shortfall Covered",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Part of the liquidation shortfall recovered by this event",
+    priority: 2,
+  },
+  {
+    key: "liquidatedUser",
+    title: "Liquidated User",
+    type: "compound",
+    icon: User,
+    sortable: false,
+    searchable: false,
+    filterable: false,
+    description: "Owner of the liquidated position",
+    priority: 3,
+    expandedOnly: true,
+    render: userCompound("Liquidated user's"),
+  },
+  {
+    key: "liquidatedPositionId",
+    title: "Liquidated Position ID",
+    type: "text",
+    sortable: false,
+    searchable: true,
+    filterable: true,
+    description: "ID of the liquidated position",
+    priority: 4,
+    expandedOnly: true,
+  },
+  {
+    key: "createdAt",
+    title: "Date",
+    type: "date",
+    icon: CalendarIcon,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "When the position was deleveraged",
+    priority: 1,
+    render: { type: "date", format: "PPpp" },
+  },
+];
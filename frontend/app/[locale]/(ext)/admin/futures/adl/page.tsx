@@ -0,0 +1,28 @@
+"use client";
+import DataTable from "@/components/blocks/data-table";
+import { columns } from "./columns";
+
+export default function FuturesAdlEventsPage() {
+  return (
+    <DataTable
+      apiEndpoint="/api/admin/futures/adl"
+      model="futuresAdlEvent"
+      permissions={{
+        access: "access.futures.adl",
+        view: "view.futures.adl",
+        create: "create.futures.adl",
+        edit: "edit.futures.adl",
+        delete: "delete.futures.adl",
+      }}
+      pageSize={20}
+      canCreate={false}
+      canEdit={false}
+      canDelete={false}
+      canView={true}
+      isParanoid={false}
+      title="Auto-Deleveraging Events"
+      itemTitle="ADL Event"
+      columns={columns}
+    />
+  );
+}
@@ -0,0 +1,139 @@
+import { CalendarIcon, Mail, User } from "lucide-react";
+
+export const columns: ColumnDefinition[] = [
+  {
+    key: "currency",
+    title: "Currency",
+    type: "text",
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    description: "Settlement currency of the fund",
+    priority: 1,
+  },
+  {
+    key: "type",
+    title: "Type",
+    type: "select",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Whether the liquidation paid into or drew from the fund",
+    priority: 1,
+    options: [
+      { value: "LIQUIDATION_SURPLUS", label: "Surplus", color: "success" },
+      { value: "LIQUIDATION_DEFICIT", label: "Deficit", color: "danger" },
+    ],
+    render: {
+      type: "badge",
+      config: {
+        variant: (value: string) =>
+          value === "LIQUIDATION_SURPLUS" ? "success" : "danger",
+      },
+    },
+  },
+  {
+    key: "amount",
+    title: "Amount",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Amount paid into (positive) or out of (negative) the fund",
+    priority: 1,
+  },
+  {
+    key: "balance",
+    title: "Balance",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "Fund balance after the entry",
+    priority: 1,
+  },
+  {
+    key: "shortfall",
+    title: "Shortfall",
+    type: "number",
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description:
+      "Part of a deficit the fund could not cover, passed on to auto-deleveraging",
+    priority: 2,
+  },
+  {
+    key: "symbol",
+    title: "Market",
+    type: "text",
+    sortable: true,
+    searchable: true,
+    filterable: true,
+    description: "Market of the liquidated position",
+    priority: 2,
+  },
+  {
+    key: "user",
+    title: "Liquidated User",
+    type: "compound",
+    icon: User,
+    sortable: false,
+    searchable: false,
+    filterable: false,
+    description: "Owner of the liquidated position",
+    priority: 3,
+    render: {
+      type: "compound",
+      config: {
+        image: {
+          key: "avatar",
+          fallback: "/img/placeholder.svg",
+          type: "image",
+          title: "Avatar",
+          description: "User's avatar",
+          editable: false,
+          usedInCreate: false,
+        },
+        primary: {
+          key: ["firstName", "lastName"],
+          title: ["First Name", "Last Name"],
+          description: ["User's first name", "User's last name"],
+          editable: false,
+          usedInCreate: false,
+          icon: User,
+        },
+        secondary: {
+          key: "email",
+          title: "Email",
+          icon: Mail,
+          editable: false,
+          usedInCreate: false,
+        },
+      },
+    },
+  },
+  {
+    key: "positionId",
+    title: "Position ID",
+    type: "text",
+    sortable: false,
+    searchable: true,
+    filterable: true,
+    description: "ID of the liquidated position",
+    priority: 4,
+    expandedOnly: true,
+  },
+  {
+    key: "createdAt",
+    title: "Date",
+    type: "date",
+    icon: CalendarIcon,
+    sortable: true,
+    searchable: false,
+    filterable: true,
+    description: "When the entry was recorded",
+    priority: 1,
+    render: { type: "date", format: "PPpp" },
+  },
+];
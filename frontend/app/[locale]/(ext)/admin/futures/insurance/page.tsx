@@ -0,0 +1,78 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import DataTable from "@/components/blocks/data-table";
+import { Card, CardContent } from "@/components/ui/card";
+import { $fetch } from "@/lib/api";
+import { columns } from "./columns";
+
+interface InsuranceFund {
+  id: string;
+  currency: string;
+  balance: number;
+  updatedAt: string;
+}
+
+export default function FuturesInsuranceFundPage() {
+  const [funds, setFunds] = useState<InsuranceFund[]>([]);
+
+  useEffect(() => {
+    const fetchFunds = async () => {
+      const { data, error } = await $fetch({
+        url: "/api/admin/futures/insurance",
+        params: { perPage: 100 },
+        silent: true,
+      });
+      if (!error && data?.items) {
+        setFunds(data.items);
+      }
+    };
+    fetchFunds();
+  }, []);
+
+  return (
+    <>
+      {funds.length > 0 && (
+        <div className="mb-6 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {funds.map((fund) => (
+            <Card key={fund.id}>
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">
+                  {fund.currency} Insurance Fund
+                </p>
+                <p className="text-2xl font-semibold">
+                  {fund.balance.toLocaleString(undefined, {
+                    maximumFractionDigits: 8,
+                  })}{" "}
+                  {fund.currency}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Updated {new Date(fund.updatedAt).toLocaleString()}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+      <DataTable
+        apiEndpoint="/api/admin/futures/insurance/history"
+        model="futuresInsuranceFundHistory"
+        permissions={{
+          access: "access.futures.insurance",
+          view: "view.futures.insurance",
+          create: "create.futures.insurance",
+          edit: "edit.futures.insurance",
+          delete: "delete.futures.insurance",
+        }}
+        pageSize={20}
+        canCreate={false}
+        canEdit={false}
+        canDelete={false}
+        canView={true}
+        isParanoid={false}
+        title="Insurance Fund History"
+        itemTitle="Fund Entry"
+        columns={columns}
+      />
+    </>
+  );
+}
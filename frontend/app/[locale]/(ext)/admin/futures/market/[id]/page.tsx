@@ -12,6 +12,9 @@ import { useParams } from "next/navigation";
 import FuturesBasicInfoStep from "@/app/[locale]/(ext)/admin/futures/market/components/step-1";
 import FuturesMetadataStep from "@/app/[locale]/(ext)/admin/futures/market/components/step-2";
 import FuturesFeesStep from "@/app/[locale]/(ext)/admin/futures/market/components/step-3";
+import FuturesMarginTiersStep, {
+  MarginTier,
+} from "@/app/[locale]/(ext)/admin/futures/market/components/step-4";
 import Stepper from "@/components/ui/stepper";
 import { useTranslations } from "next-intl";
 
@@ -38,6 +41,7 @@ export interface FuturesMarketForm {
   isTrending: boolean;
   isHot: boolean;
   metadata: FuturesMetadata;
+  maintenanceMarginTiers: MarginTier[];
 }
 
 export interface TokenOption {
@@ -61,6 +65,7 @@ const initialFormValues: FuturesMarketForm = {
     taker: 1,
     maker: 1,
   },
+  maintenanceMarginTiers: [],
 };
 
 const TOTAL_STEPS = 2;
@@ -135,6 +140,7 @@ const EditFuturesMarket = () => {
               ...data.metadata.limits,
             },
           },
+          maintenanceMarginTiers: data.maintenanceMarginTiers || [],
         });
       } catch (err: any) {
         toast.error(err.message || "Failed to load market data");
@@ -200,8 +206,8 @@ const EditFuturesMarket = () => {
   const stepLabels = [
     { label: "Basic Info", description: "Currency, Pair, & flags" },
     {
-      label: "Metadata & Fees",
-      description: "Configure market settings & fees",
+      label: "Metadata, Fees & Margin",
+      description: "Configure market settings, fees & margin tiers",
     },
   ];
 
@@ -255,6 +261,10 @@ const EditFuturesMarket = () => {
               formData={formData}
               updateNestedField={updateNestedField}
             />
+            <FuturesMarginTiersStep
+              formData={formData}
+              updateField={updateField}
+            />
           </>
         )}
       </Stepper>
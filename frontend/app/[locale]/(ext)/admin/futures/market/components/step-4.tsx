@@ -0,0 +1,128 @@
+import React from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Icon } from "@iconify/react";
+import { useTranslations } from "next-intl";
+
+export interface MarginTier {
+  maxNotional: number | null;
+  maintenanceMarginRate: number;
+  maxLeverage: number;
+}
+
+export interface FuturesMarginTiersStepProps {
+  formData: {
+    maintenanceMarginTiers: MarginTier[];
+  };
+  updateField: (field: "maintenanceMarginTiers", value: MarginTier[]) => void;
+}
+
+const FuturesMarginTiersStep: React.FC<FuturesMarginTiersStepProps> = ({
+  formData,
+  updateField,
+}) => {
+  const t = useTranslations("ext");
+  const tiers = formData.maintenanceMarginTiers;
+
+  const updateTier = (index: number, field: keyof MarginTier, value: any) => {
+    updateField(
+      "maintenanceMarginTiers",
+      tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier))
+    );
+  };
+
+  const addTier = () => {
+    const last = tiers[tiers.length - 1];
+    updateField("maintenanceMarginTiers", [
+      ...tiers,
+      {
+        maxNotional: null,
+        maintenanceMarginRate: last ? last.maintenanceMarginRate * 2 : 0.005,
+        maxLeverage: last ? Math.max(1, Math.floor(last.maxLeverage / 2)) : 100,
+      },
+    ]);
+  };
+
+  const removeTier = (index: number) => {
+    updateField(
+      "maintenanceMarginTiers",
+      tiers.filter((_, i) => i !== index)
+    );
+  };
+
+  return (
+    <Card className="p-5 space-y-3">
+      <h2 className="text-lg font-semibold mb-2">
+        {t("maintenance_margin_tiers")}
+      </h2>
+      <p className="text-sm text-zinc-500 dark:text-zinc-400">
+        {t("maintenance_margin_tiers_description")}
+      </p>
+
+      {tiers.length === 0 && (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          {t("no_custom_tiers_default_tiers_apply")}
+        </p>
+      )}
+
+      {tiers.map((tier, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-3">
+          <Input
+            title="Max Notional"
+            description="Largest position value in the tier. Leave empty for the last tier."
+            type="number"
+            placeholder="Unlimited"
+            value={tier.maxNotional ?? ""}
+            onChange={(e) =>
+              updateTier(
+                index,
+                "maxNotional",
+                e.target.value === "" ? null : parseFloat(e.target.value)
+              )
+            }
+          />
+          <Input
+            title="Maintenance Margin Rate"
+            description="Share of the notional kept as equity, e.g. 0.005 for 0.5%."
+            type="number"
+            step="0.001"
+            value={tier.maintenanceMarginRate}
+            onChange={(e) =>
+              updateTier(
+                index,
+                "maintenanceMarginRate",
+                parseFloat(e.target.value) || 0
+              )
+            }
+          />
+          <Input
+            title="Max Leverage"
+            description="Highest leverage allowed in the tier."
+            type="number"
+            value={tier.maxLeverage}
+            onChange={(e) =>
+              updateTier(index, "maxLeverage", parseInt(e.target.value) || 1)
+            }
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="self-end"
+            onClick={() => removeTier(index)}
+          >
+            <Icon icon="mdi:trash-can-outline" />
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" onClick={addTier}>
+        <Icon icon="mdi:plus" className="mr-2" />
+        {t("add_tier")}
+      </Button>
+    </Card>
+  );
+};
+
+export default FuturesMarginTiersStep;
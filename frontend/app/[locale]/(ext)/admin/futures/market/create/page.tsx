@@ -11,6 +11,9 @@ import { Button } from "@/components/ui/button";
 import FuturesBasicInfoStep from "@/app/[locale]/(ext)/admin/futures/market/components/step-1";
 import FuturesMetadataStep from "@/app/[locale]/(ext)/admin/futures/market/components/step-2";
 import FuturesFeesStep from "@/app/[locale]/(ext)/admin/futures/market/components/step-3";
+import FuturesMarginTiersStep, {
+  MarginTier,
+} from "@/app/[locale]/(ext)/admin/futures/market/components/step-4";
 import Stepper from "@/components/ui/stepper";
 import { useTranslations } from "next-intl";
 
@@ -37,6 +40,7 @@ export interface FuturesMarketForm {
   isTrending: boolean;
   isHot: boolean;
   metadata: FuturesMetadata;
+  maintenanceMarginTiers: MarginTier[];
 }
 
 export interface TokenOption {
@@ -60,6 +64,7 @@ const initialFormValues: FuturesMarketForm = {
     taker: 1,
     maker: 1,
   },
+  maintenanceMarginTiers: [],
 };
 
 const TOTAL_STEPS = 3;
@@ -158,8 +163,8 @@ const CreateFuturesMarket = () => {
       description: "Configure market settings",
     },
     {
-      label: "Fees",
-      description: "Set taker & maker fees",
+      label: "Fees & Margin",
+      description: "Set fees & maintenance margin tiers",
     },
   ];
 
@@ -206,10 +211,16 @@ const CreateFuturesMarket = () => {
           />
         )}
         {step === 3 && (
-          <FuturesFeesStep
-            formData={formData}
-            updateNestedField={updateNestedField}
-          />
+          <>
+            <FuturesFeesStep
+              formData={formData}
+              updateNestedField={updateNestedField}
+            />
+            <FuturesMarginTiersStep
+              formData={formData}
+              updateField={updateField}
+            />
+          </>
         )}
       </Stepper>
     </div>
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { $fetch } from "@/lib/api";
+
+interface AttachmentPreviewProps {
+  disputeId: string;
+  attachment: {
+    id: string;
+    name: string;
+    mimeType: string;
+    size: number;
+  };
+}
+
+// Attachments are stored privately, so the preview goes through the admin
+// endpoint and is shown from an object URL rather than a public path.
+export function AttachmentPreview({
+  disputeId,
+  attachment,
+}: AttachmentPreviewProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    const load = async () => {
+      const { data, error } = await $fetch({
+        url: `/api/admin/p2p/dispute/${disputeId}/attachment/${attachment.id}`,
+        silentSuccess: true,
+      });
+      if (cancelled) return;
+      if (error || !data?.data) {
+        setError(error || "Failed to load attachment");
+        return;
+      }
+      const blob = await (await fetch(data.data)).blob();
+      if (cancelled) return;
+      objectUrl = URL.createObjectURL(blob);
+      setUrl(objectUrl);
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [disputeId, attachment.id]);
+
+  const isImage = attachment.mimeType.startsWith("image/");
+
+  return (
+    <div className="rounded-md border bg-muted/30 p-2">
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : !url ? (
+        <div className="flex h-24 items-center justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : isImage ? (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          <img
+            src={url}
+            alt={attachment.name}
+            className="max-h-64 w-auto rounded-sm object-contain"
+          />
+        </a>
+      ) : (
+        <iframe
+          src={url}
+          title={attachment.name}
+          className="h-64 w-full rounded-sm bg-white"
+        />
+      )}
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-1 text-xs text-muted-foreground">
+          <FileText className="h-3 w-3 shrink-0" />
+          <span className="truncate">{attachment.name}</span>
+          <span className="shrink-0">
+            ({(attachment.size / 1024).toFixed(0)} KB)
+          </span>
+        </div>
+        {url && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={url} download={attachment.name}>
+              Download
+            </a>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
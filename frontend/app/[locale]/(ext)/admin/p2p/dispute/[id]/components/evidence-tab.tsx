@@ -10,10 +10,75 @@ import {
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
+import { AttachmentPreview } from "./attachment-preview";
 interface EvidenceTabProps {
   dispute: any;
 }
+
+function EvidenceList({
+  dispute,
+  submittedBy,
+}: {
+  dispute: any;
+  submittedBy: "buyer" | "seller";
+}) {
+  const items =
+    dispute.evidence?.filter((e: any) => e.submittedBy === submittedBy) || [];
+
+  if (!items.length) {
+    return (
+      <div className="rounded-md border border-dashed p-4 text-center text-muted-foreground">
+        No evidence submitted by {submittedBy}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {items.map((evidence: any, index: number) => {
+        return (
+          <div key={index} className="rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <FileText className="h-5 w-5 text-blue-500" />
+              <div>
+                <p className="font-medium">{evidence.title}</p>
+                {evidence.timestamp && (
+                  <p className="text-xs text-muted-foreground">
+                    Uploaded on {new Date(evidence.timestamp).toLocaleString()}
+                  </p>
+                )}
+              </div>
+            </div>
+            {evidence.content && (
+              <p className="mt-2 text-sm text-muted-foreground">
+                {evidence.content}
+              </p>
+            )}
+            {evidence.attachment && (
+              <div className="mt-3">
+                <AttachmentPreview
+                  disputeId={dispute.id}
+                  attachment={evidence.attachment}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
 export function EvidenceTab({ dispute }: EvidenceTabProps) {
+  const chatAttachments = (dispute.trade?.timeline || []).flatMap(
+    (entry: any) =>
+      (entry.attachments || []).map((attachment: any) => ({
+        ...attachment,
+        sentBy:
+          attachment.uploadedBy === dispute.trade.buyerId ? "Buyer" : "Seller",
+      }))
+  );
+
   return (
     <Card>
       <CardHeader>
@@ -27,35 +92,7 @@ export function EvidenceTab({ dispute }: EvidenceTabProps) {
           <div>
             <h3 className="mb-3 font-medium">Buyer Evidence</h3>
             <div className="space-y-3">
-              {dispute.evidence?.filter((e: any) => e.submittedBy === "buyer")
-                .length ? (
-                dispute.evidence
-                  .filter((e: any) => e.submittedBy === "buyer")
-                  .map((evidence: any, index: number) => {
-                    return (
-                      <div key={index} className="rounded-md border p-3">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <FileText className="h-5 w-5 text-blue-500" />
-                            <div>
-                              <p className="font-medium">{evidence.title}</p>
-                              <p className="text-xs text-muted-foreground">
-                                Uploaded on {evidence.timestamp}
-                              </p>
-                            </div>
-                          </div>
-                          <Button variant="outline" size="sm">
-                            View
-                          </Button>
-                        </div>
-                      </div>
-                    );
-                  })
-              ) : (
-                <div className="rounded-md border border-dashed p-4 text-center text-muted-foreground">
-                  No evidence submitted by buyer
-                </div>
-              )}
+              <EvidenceList dispute={dispute} submittedBy="buyer" />
             </div>
           </div>
 
@@ -64,40 +101,38 @@ export function EvidenceTab({ dispute }: EvidenceTabProps) {
           <div>
             <h3 className="mb-3 font-medium">Seller Evidence</h3>
             <div className="space-y-3">
-              {dispute.evidence?.filter((e: any) => e.submittedBy === "seller")
-                .length ? (
-                dispute.evidence
-                  .filter((e: any) => e.submittedBy === "seller")
-                  .map((evidence: any, index: number) => {
-                    return (
-                      <div key={index} className="rounded-md border p-3">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <FileText className="h-5 w-5 text-blue-500" />
-                            <div>
-                              <p className="font-medium">{evidence.title}</p>
-                              <p className="text-xs text-muted-foreground">
-                                Uploaded on {evidence.timestamp}
-                              </p>
-                            </div>
-                          </div>
-                          <Button variant="outline" size="sm">
-                            View
-                          </Button>
-                        </div>
-                      </div>
-                    );
-                  })
-              ) : (
-                <div className="rounded-md border border-dashed p-4 text-center text-muted-foreground">
-                  No evidence submitted by seller
-                </div>
-              )}
+              <EvidenceList dispute={dispute} submittedBy="seller" />
             </div>
           </div>
 
           <Separator />
 
+          <div>
+            <h3 className="mb-3 font-medium">Trade Chat Attachments</h3>
+            {chatAttachments.length ? (
+              <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                {chatAttachments.map((attachment: any) => (
+                  <div key={attachment.id} className="space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      {attachment.sentBy} ·{" "}
+                      {new Date(attachment.createdAt).toLocaleString()}
+                    </p>
+                    <AttachmentPreview
+                      disputeId={dispute.id}
+                      attachment={attachment}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="rounded-md border border-dashed p-4 text-center text-muted-foreground">
+                No files were shared in the trade chat
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
           <div>
             <h3 className="mb-3 font-medium">Upload Additional Evidence</h3>
             <div className="rounded-md border border-dashed p-6 text-center">
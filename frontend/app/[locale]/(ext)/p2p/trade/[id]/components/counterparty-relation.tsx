@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ShieldCheck, Ban } from "lucide-react";
+import { $fetch } from "@/lib/api";
+import { useTranslations } from "next-intl";
+
+type RelationType = "TRUSTED" | "BLOCKED";
+
+interface CounterpartyRelationProps {
+  tradeId: string;
+  counterpartyId: string;
+}
+
+export function CounterpartyRelation({
+  tradeId,
+  counterpartyId,
+}: CounterpartyRelationProps) {
+  const t = useTranslations("ext");
+  const [relation, setRelation] = useState<RelationType | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchRelation = async () => {
+      const { data, error } = await $fetch({
+        url: "/api/p2p/relation",
+        silent: true,
+      });
+      if (!error && Array.isArray(data)) {
+        const existing = data.find(
+          (item: any) => item.targetUserId === counterpartyId
+        );
+        setRelation(existing?.type || null);
+      }
+    };
+    fetchRelation();
+  }, [counterpartyId]);
+
+  const toggleRelation = async (type: RelationType) => {
+    setLoading(true);
+    const { error } =
+      relation === type
+        ? await $fetch({
+            url: `/api/p2p/relation/${counterpartyId}`,
+            method: "DELETE",
+          })
+        : await $fetch({
+            url: "/api/p2p/relation",
+            method: "POST",
+            body: { userId: counterpartyId, type, tradeId },
+          });
+    if (!error) {
+      setRelation(relation === type ? null : type);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="flex gap-2 mt-2">
+      <Button
+        size="sm"
+        variant={relation === "TRUSTED" ? "default" : "outline"}
+        disabled={loading}
+        onClick={() => toggleRelation("TRUSTED")}
+      >
+        <ShieldCheck className="h-4 w-4 mr-1" />
+        {relation === "TRUSTED" ? t("trusted") : t("trust_user")}
+      </Button>
+      <Button
+        size="sm"
+        variant={relation === "BLOCKED" ? "destructive" : "outline"}
+        disabled={loading}
+        onClick={() => toggleRelation("BLOCKED")}
+      >
+        <Ban className="h-4 w-4 mr-1" />
+        {relation === "BLOCKED" ? t("unblock_user") : t("block_user")}
+      </Button>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { TradeTimeline } from "./trade-timeline";
+import { CounterpartyRelation } from "./counterparty-relation";
 import { Badge } from "@/components/ui/badge";
 import { Copy, CheckCircle2 } from "lucide-react";
 import { useState } from "react";
@@ -141,6 +142,10 @@ export function TradeDetailsTab({ trade }: TradeDetailsTabProps) {
                 {t("trades_•")} {trade.counterparty.completionRate}
                 {t("%_completion_rate")}
               </p>
+              <CounterpartyRelation
+                tradeId={trade.id}
+                counterpartyId={trade.counterparty.id}
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,231 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { $fetch } from "@/lib/api";
+import { useRouter } from "@/i18n/routing";
+import { useUserStore } from "@/store/user";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+
+interface CheckoutProduct {
+  name: string;
+  quantity: number;
+  price: number;
+  sku?: string;
+  image?: string;
+}
+
+interface Checkout {
+  id: string;
+  status:
+    | "PENDING"
+    | "COMPLETED"
+    | "FAILED"
+    | "EXPIRED"
+    | "CANCELLED"
+    | "REFUNDED"
+    | "PARTIALLY_REFUNDED";
+  amount: number;
+  tax: number;
+  discount: number;
+  total: number;
+  currency: string;
+  walletType: "FIAT" | "SPOT";
+  description?: string;
+  reference?: string;
+  successUrl: string;
+  failUrl: string;
+  expiresAt?: string;
+  merchant: { firstName: string; lastName: string; avatar?: string } | null;
+  products: CheckoutProduct[];
+}
+
+export default function PaymentCheckoutPage() {
+  const t = useTranslations("payment/[id]/page");
+  const { id } = useParams() as { id: string };
+  const router = useRouter();
+  const { user } = useUserStore();
+  const [checkout, setCheckout] = useState<Checkout | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [paying, setPaying] = useState(false);
+
+  const fetchCheckout = useCallback(async () => {
+    const { data, error } = await $fetch<Checkout>({
+      url: `/api/payment/checkout/${id}`,
+      silent: true,
+    });
+    if (!error && data) {
+      setCheckout(data);
+    }
+    setLoading(false);
+  }, [id]);
+
+  useEffect(() => {
+    fetchCheckout();
+  }, [fetchCheckout]);
+
+  const pay = async () => {
+    if (!user?.id) {
+      router.push("/login");
+      return;
+    }
+    setPaying(true);
+    const { data, error } = await $fetch<{ redirectUrl: string }>({
+      url: `/api/payment/checkout/${id}`,
+      method: "POST",
+    });
+    setPaying(false);
+    if (error || !data) {
+      fetchCheckout();
+      return;
+    }
+    window.location.href = data.redirectUrl;
+  };
+
+  const cancel = () => {
+    if (checkout) {
+      window.location.href = checkout.failUrl;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!checkout) {
+    return (
+      <p className="text-center text-muted-foreground">
+        {t("checkout_not_found")}
+      </p>
+    );
+  }
+
+  const isPending = checkout.status === "PENDING";
+  const merchantName = checkout.merchant
+    ? `${checkout.merchant.firstName} ${checkout.merchant.lastName}`.trim()
+    : t("merchant");
+
+  return (
+    <div className="container max-w-lg">
+      <Card>
+        <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+          <Avatar>
+            <AvatarImage src={checkout.merchant?.avatar} />
+            <AvatarFallback>
+              {merchantName.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1">
+            <CardTitle className="text-lg">{merchantName}</CardTitle>
+            {checkout.description && (
+              <CardDescription>{checkout.description}</CardDescription>
+            )}
+          </div>
+          <Badge variant={isPending ? "outline" : "secondary"}>
+            {checkout.status.replace("_", " ")}
+          </Badge>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {checkout.products.length > 0 && (
+            <div className="space-y-2">
+              {checkout.products.map((product, index) => (
+                <div
+                  key={`${product.sku ?? product.name}-${index}`}
+                  className="flex justify-between text-sm"
+                >
+                  <span>
+                    {product.name} × {product.quantity}
+                  </span>
+                  <span>
+                    {product.price * product.quantity} {checkout.currency}
+                  </span>
+                </div>
+              ))}
+              <Separator />
+            </div>
+          )}
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{t("subtotal")}</span>
+              <span>
+                {checkout.amount} {checkout.currency}
+              </span>
+            </div>
+            {checkout.tax > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t("tax")}</span>
+                <span>
+                  {checkout.tax} {checkout.currency}
+                </span>
+              </div>
+            )}
+            {checkout.discount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t("discount")}</span>
+                <span>
+                  -{checkout.discount} {checkout.currency}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold text-base pt-2">
+              <span>{t("total")}</span>
+              <span>
+                {checkout.total} {checkout.currency}
+              </span>
+            </div>
+          </div>
+          {isPending && (
+            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+              <ShieldCheck className="h-4 w-4" />
+              {t("paid_from_wallet", {
+                currency: checkout.currency,
+                walletType: checkout.walletType,
+              })}
+            </p>
+          )}
+          {isPending && checkout.expiresAt && (
+            <p className="text-xs text-muted-foreground">
+              {t("expires_at", {
+                date: new Date(checkout.expiresAt).toLocaleString(),
+              })}
+            </p>
+          )}
+        </CardContent>
+        <CardFooter className="flex gap-2">
+          {isPending ? (
+            <>
+              <Button variant="outline" className="flex-1" onClick={cancel}>
+                {t("cancel")}
+              </Button>
+              <Button className="flex-1" onClick={pay} disabled={paying}>
+                {paying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {user?.id ? t("pay_now") : t("login_to_pay")}
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {t("payment_not_available")}
+            </p>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
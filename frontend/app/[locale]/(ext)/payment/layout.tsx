@@ -0,0 +1,13 @@
+"use client";
+
+import type { ReactNode } from "react";
+import SiteHeader from "@/components/partials/header/site-header";
+
+export default function PaymentLayout({ children }: { children: ReactNode }) {
+  return (
+    <div className="min-h-screen flex flex-col">
+      <SiteHeader menu={[]} />
+      <main className="flex-1 py-24">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { $fetch } from "@/lib/api";
+
+interface AdjustMarginDialogProps {
+  position: {
+    id: string;
+    symbol: string;
+    margin?: number;
+  } | null;
+  onClose: () => void;
+  onAdjusted: () => void;
+}
+
+export default function AdjustMarginDialog({
+  position,
+  onClose,
+  onAdjusted,
+}: AdjustMarginDialogProps) {
+  const [type, setType] = useState<"ADD" | "REMOVE">("ADD");
+  const [amount, setAmount] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!position || !(Number(amount) > 0)) return;
+    setIsSubmitting(true);
+    const { error } = await $fetch({
+      url: `/api/futures/position/${position.id}/margin`,
+      method: "POST",
+      body: { type, amount: Number(amount) },
+    });
+    setIsSubmitting(false);
+    if (!error) {
+      setAmount("");
+      onAdjusted();
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!position} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Adjust Margin</DialogTitle>
+          <DialogDescription>
+            {position?.symbol} isolated position, current margin{" "}
+            {Number(position?.margin ?? 0).toFixed(4)}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-1 rounded-md bg-muted p-1">
+          {(["ADD", "REMOVE"] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setType(value)}
+              className={cn(
+                "rounded px-2 py-1 text-xs font-medium transition-colors",
+                type === value
+                  ? "bg-background text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {value === "ADD" ? "Add Margin" : "Remove Margin"}
+            </button>
+          ))}
+        </div>
+        <Input
+          type="number"
+          min={0}
+          placeholder="Amount"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !(Number(amount) > 0)}
+          >
+            Confirm
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
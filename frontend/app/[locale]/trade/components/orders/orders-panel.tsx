@@ -25,6 +25,7 @@ import {
 import { useSearchParams } from "next/navigation";
 import { useWebSocketStore } from "@/store/websocket-store";
 import { useUserStore } from "@/store/user";
+import AdjustMarginDialog from "./adjust-margin-dialog";
 interface ExchangeOrder {
   id: string;
   referenceId?: string;
@@ -77,6 +78,8 @@ interface FuturesPosition {
   entryPrice: string;
   amount: string;
   leverage: string;
+  marginMode?: "ISOLATED" | "CROSS";
+  margin?: number;
   unrealizedPnl: string;
   status: string;
   createdAt: string;
@@ -132,6 +135,8 @@ export default function OrdersPanel({
     ExchangeOrder[] | FuturesOrder[]
   >([]);
   const [positions, setPositions] = useState<FuturesPosition[]>([]);
+  const [marginPosition, setMarginPosition] =
+    useState<FuturesPosition | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [timeFilter, setTimeFilter] = useState("all");
@@ -1173,6 +1178,9 @@ export default function OrdersPanel({
                       <th className="text-right p-2 font-medium text-muted-foreground dark:text-zinc-400">
                         Liq. Price{pair ? ` (${pair})` : ''}
                       </th>
+                      <th className="text-right p-2 font-medium text-muted-foreground dark:text-zinc-400">
+                        Margin
+                      </th>
                       <th className="text-right p-2 font-medium text-muted-foreground dark:text-zinc-400">
                         PnL
                       </th>
@@ -1225,6 +1233,27 @@ export default function OrdersPanel({
                               ? Number(position.liquidationPrice).toFixed(2)
                               : "-"}
                           </td>
+                          <td className="p-2 text-right font-mono text-foreground dark:text-zinc-300">
+                            <div className="flex items-center justify-end gap-1">
+                              <span>{Number(position.margin ?? 0).toFixed(2)}</span>
+                              <Badge
+                                variant="outline"
+                                className="h-4 text-[9px] border-zinc-200 dark:border-zinc-700"
+                              >
+                                {position.marginMode === "CROSS" ? "Cross" : "Isolated"}
+                              </Badge>
+                              {position.marginMode !== "CROSS" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-5 px-1 text-[10px] text-muted-foreground dark:text-zinc-400"
+                                  onClick={() => setMarginPosition(position)}
+                                >
+                                  Adjust
+                                </Button>
+                              )}
+                            </div>
+                          </td>
                           <td className="p-2 text-right font-mono">
                             <span
                               className={
@@ -1271,6 +1300,11 @@ export default function OrdersPanel({
           </div>
         )}
       </div>
+      <AdjustMarginDialog
+        position={marginPosition}
+        onClose={() => setMarginPosition(null)}
+        onAdjusted={fetchPositions}
+      />
     </div>
   );
 }
@@ -23,6 +23,7 @@ import { cn } from "@/lib/utils";
 import { $fetch } from "@/lib/api";
 import { useTranslations } from "next-intl";
 import type { FuturesMarket, WalletData } from "./types";
+import MarginModeSelector, { type MarginMode } from "./margin-mode-selector";
 
 interface LimitOrderFormProps {
   symbol: string;
@@ -64,6 +65,7 @@ export default function LimitOrderForm({
   const [limitPrice, setLimitPrice] = useState("");
   const [amount, setAmount] = useState("");
   const [leverage, setLeverage] = useState(10);
+  const [marginMode, setMarginMode] = useState<MarginMode>("ISOLATED");
   const [orderType, setOrderType] = useState<"long" | "short">("long");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [orderError, setOrderError] = useState<string | null>(null);
@@ -257,6 +259,7 @@ export default function LimitOrderForm({
         amount: Number(amount),
         price: Number(limitPrice),
         leverage,
+        marginMode,
         stopLoss: stopLoss ? Number(stopLoss) : undefined,
         takeProfit: takeProfit ? Number(takeProfit) : undefined,
       };
@@ -379,6 +382,11 @@ export default function LimitOrderForm({
         </div>
       </div>
 
+      <MarginModeSelector
+        marginMode={marginMode}
+        setMarginMode={setMarginMode}
+      />
+
       {/* Leverage Slider */}
       <div className="space-y-1.5">
         <div className="flex justify-between items-center">
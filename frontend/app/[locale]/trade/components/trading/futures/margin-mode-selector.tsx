@@ -0,0 +1,53 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { useTranslations } from "next-intl";
+
+export type MarginMode = "ISOLATED" | "CROSS";
+
+interface MarginModeSelectorProps {
+  marginMode: MarginMode;
+  setMarginMode: (marginMode: MarginMode) => void;
+}
+
+export default function MarginModeSelector({
+  marginMode,
+  setMarginMode,
+}: MarginModeSelectorProps) {
+  const t = useTranslations(
+    "trade/components/trading/futures/margin-mode-selector"
+  );
+  const modes: { value: MarginMode; label: string }[] = [
+    { value: "ISOLATED", label: t("isolated") },
+    { value: "CROSS", label: t("cross") },
+  ];
+
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{t("margin_mode")}</Label>
+      <div className="grid grid-cols-2 gap-1 rounded-md bg-muted p-1">
+        {modes.map((mode) => (
+          <button
+            key={mode.value}
+            type="button"
+            onClick={() => setMarginMode(mode.value)}
+            className={cn(
+              "rounded px-2 py-1 text-xs font-medium transition-colors",
+              marginMode === mode.value
+                ? "bg-background text-foreground shadow-sm"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {marginMode === "ISOLATED"
+          ? t("isolated_description")
+          : t("cross_description")}
+      </p>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import { cn } from "@/lib/utils";
 import { $fetch } from "@/lib/api";
 import { useTranslations } from "next-intl";
 import type { FuturesMarket, WalletData } from "./types";
+import MarginModeSelector, { type MarginMode } from "./margin-mode-selector";
 
 interface MarketOrderFormProps {
   symbol: string;
@@ -61,6 +62,7 @@ export default function MarketOrderForm({
   
   const [amount, setAmount] = useState("");
   const [leverage, setLeverage] = useState(10);
+  const [marginMode, setMarginMode] = useState<MarginMode>("ISOLATED");
   const [orderType, setOrderType] = useState<"long" | "short">("long");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [orderError, setOrderError] = useState<string | null>(null);
@@ -220,6 +222,7 @@ export default function MarketOrderForm({
         type: "MARKET",
         amount: Number(amount),
         leverage,
+        marginMode,
         stopLoss: stopLoss ? Number(stopLoss) : undefined,
         takeProfit: takeProfit ? Number(takeProfit) : undefined,
       };
@@ -287,6 +290,11 @@ export default function MarketOrderForm({
         </div>
       </div>
 
+      <MarginModeSelector
+        marginMode={marginMode}
+        setMarginMode={setMarginMode}
+      />
+
       {/* Leverage Slider */}
       <div className="space-y-1.5">
         <div className="flex justify-between items-center">
@@ -137,6 +137,7 @@ export const adminMenu: MenuItem[] = [
       "access.transfer",
       "access.wallet",
       "access.withdraw.method",
+      "access.withdraw.policy",
       "access.withdraw",
     ],
     child: [
@@ -397,7 +398,11 @@ export const adminMenu: MenuItem[] = [
         href: "/admin/finance/withdraw/log",
         description:
           "Comprehensive withdrawal system management with automated processing, fraud prevention, and compliance controls.",
-        permission: ["access.withdraw.method", "access.withdraw"],
+        permission: [
+          "access.withdraw.method",
+          "access.withdraw.policy",
+          "access.withdraw",
+        ],
         child: [
           {
             key: "admin-withdrawal-methods",
@@ -408,6 +413,15 @@ export const adminMenu: MenuItem[] = [
             description:
               "Configure withdrawal options including bank transfers, crypto withdrawals, and third-party processors.",
           },
+          {
+            key: "admin-withdrawal-policies",
+            title: "Withdrawal Policies",
+            href: "/admin/finance/withdraw/policy",
+            permission: "access.withdraw.policy",
+            icon: "ph:shield-check-duotone",
+            description:
+              "Set rolling withdrawal limits per KYC level and currency, and require admin approvals above a USD threshold.",
+          },
           {
             key: "admin-withdrawal-logs",
             title: "Withdrawal Records",
@@ -574,6 +588,24 @@ export const adminMenu: MenuItem[] = [
                 description:
                   "Real-time position monitoring with P&L tracking, margin calls, and automated risk management.",
               },
+              {
+                key: "admin-futures-insurance-fund",
+                title: "Insurance Fund",
+                href: "/admin/futures/insurance",
+                permission: "access.futures.insurance",
+                icon: "ph:shield-check-duotone",
+                description:
+                  "Insurance fund balances per settlement currency with the ledger of liquidation surpluses and deficits.",
+              },
+              {
+                key: "admin-futures-adl",
+                title: "Auto-Deleveraging",
+                href: "/admin/futures/adl",
+                permission: "access.futures.adl",
+                icon: "ph:arrows-in-line-horizontal-duotone",
+                description:
+                  "Positions closed by auto-deleveraging when a liquidation shortfall exceeded the insurance fund.",
+              },
             ],
           },
           {
@@ -769,6 +801,7 @@ export const adminMenu: MenuItem[] = [
       "access.cron",
       "access.extension",
       "access.system.log",
+      "access.system.audit",
       "access.notification.template",
       "access.settings",
       "access.system.update",
@@ -836,7 +869,7 @@ export const adminMenu: MenuItem[] = [
         icon: "ph:monitor-duotone",
         description:
           "Comprehensive system monitoring with logging, performance metrics, and automated task management.",
-        permission: ["access.system.log", "access.cron"],
+        permission: ["access.system.log", "access.system.audit", "access.cron"],
         child: [
           {
             key: "admin-system-logs",
@@ -847,6 +880,15 @@ export const adminMenu: MenuItem[] = [
             description:
               "Centralized logging system with real-time monitoring, log aggregation, and advanced search capabilities.",
           },
+          {
+            key: "admin-audit-log",
+            title: "Admin Audit Log",
+            href: "/admin/system/audit-log",
+            icon: "ph:clipboard-text-duotone",
+            permission: "access.system.audit",
+            description:
+              "Append-only record of every admin change with actor, target, before/after values, IP and user agent.",
+          },
           {
             key: "admin-scheduled-tasks",
             title: "Scheduled Tasks",
@@ -149,6 +149,18 @@ export const FIELD_DEFINITIONS: FieldDefinition[] = [
     category: "wallet",
     subcategory: "Restrictions",
   },
+  {
+    key: "withdrawalAddressCooldown",
+    label: "New Withdrawal Address Cool-down (hours)",
+    type: "number",
+    description:
+      "Hours a newly confirmed address book entry waits before it can receive withdrawals",
+    category: "wallet",
+    subcategory: "Restrictions",
+    min: 0,
+    max: 720,
+    step: 1,
+  },
   {
     key: "fiatWallets",
     label: "Fiat Wallets",
@@ -179,6 +191,30 @@ export const FIELD_DEFINITIONS: FieldDefinition[] = [
     max: 100,
     step: 0.1,
   },
+  {
+    key: "paymentGatewayFee",
+    label: "Merchant Payment Fee (%)",
+    type: "number",
+    description:
+      "Fee percentage deducted from merchants' proceeds for payment gateway checkouts",
+    category: "wallet",
+    subcategory: "Fees",
+    min: 0,
+    max: 100,
+    step: 0.1,
+  },
+  {
+    key: "paymentIntentExpiration",
+    label: "Merchant Checkout Expiration (minutes)",
+    type: "number",
+    description:
+      "Default time a merchant payment intent stays payable before it expires",
+    category: "wallet",
+    subcategory: "Restrictions",
+    min: 5,
+    max: 10080,
+    step: 1,
+  },
 
   // Features Settings
   {
@@ -205,6 +241,30 @@ export const FIELD_DEFINITIONS: FieldDefinition[] = [
     category: "features",
     subcategory: "Verification",
   },
+  {
+    key: "sanctionsMatchThreshold",
+    label: "Sanctions Match Threshold (%)",
+    type: "number",
+    description:
+      "Lowest watchlist match score that is queued for compliance review",
+    category: "features",
+    subcategory: "Verification",
+    min: 50,
+    max: 100,
+    step: 1,
+  },
+  {
+    key: "sanctionsHoldThreshold",
+    label: "Sanctions Hold Threshold (%)",
+    type: "number",
+    description:
+      "Lowest watchlist match score that also suspends the account until the match is reviewed",
+    category: "features",
+    subcategory: "Verification",
+    min: 50,
+    max: 100,
+    step: 1,
+  },
   {
     key: "spotWallets",
     label: "Spot Trading",
@@ -569,7 +629,11 @@ export const DEFAULT_SETTINGS = {
   mlmSystem: "UNILEVEL",
   navbarLogoDisplay: "SQUARE_WITH_NAME",
   newsStatus: "true",
+  paymentGatewayFee: "0",
+  paymentIntentExpiration: "30",
   referralApprovalRequired: "true",
+  sanctionsHoldThreshold: "92",
+  sanctionsMatchThreshold: "85",
   siteMaintenanceMode: "true",
   spotWithdrawFee: "1",
   stakingRestrictions: "false",
@@ -589,6 +653,7 @@ export const DEFAULT_SETTINGS = {
   walletRestrictions: "true",
   walletTransferFee: "1",
   withdraw: "true",
+  withdrawalAddressCooldown: "24",
   withdrawalRestrictions: "false",
   withdrawApproval: "true",
   withdrawChainFee: "false",
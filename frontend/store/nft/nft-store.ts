@@ -262,7 +262,7 @@ export const useNftStore = create<NFTStore>((set, get) => ({
     if (error) {
       set({ error });
     } else {
-      set({ activities: data || [] });
+      set({ activities: data?.data || [] });
     }
   },
 
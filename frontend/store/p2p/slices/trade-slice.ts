@@ -1,5 +1,19 @@
 import { $fetch } from "@/lib/api";
 
+// Files are sent as base64 data URLs; the API accepts images and PDFs
+export interface P2PTradeAttachmentUpload {
+  file: string;
+  name?: string;
+}
+
+export interface P2PDisputeEvidence {
+  type: "screenshot" | "document" | "text";
+  content?: string;
+  description?: string;
+  file?: string;
+  name?: string;
+}
+
 export interface TradeState {
   // Trade data
   tradeDashboardData: P2PTradeDashboardData | null;
@@ -46,9 +60,14 @@ export interface TradeActions {
   disputeTrade: (
     id: string,
     reason: string,
-    description: string
+    description: string,
+    evidence?: P2PDisputeEvidence[]
+  ) => Promise<boolean>;
+  sendMessage: (
+    id: string,
+    message: string,
+    attachments?: P2PTradeAttachmentUpload[]
   ) => Promise<boolean>;
-  sendMessage: (id: string, message: string) => Promise<boolean>;
   submitRating: (
     id: string,
     rating: number,
@@ -295,13 +314,18 @@ export const createTradeSlice = (
     }
   },
 
-  disputeTrade: async (id: string, reason: string, description: string) => {
+  disputeTrade: async (
+    id: string,
+    reason: string,
+    description: string,
+    evidence?: P2PDisputeEvidence[]
+  ) => {
     try {
       set({ isDisputingTrade: true, disputeTradeError: null });
       const { data, error } = await $fetch({
         url: `/api/p2p/trade/${id}/dispute`,
         method: "POST",
-        body: { reason, description },
+        body: { reason, description, evidence },
       });
 
       set({ isDisputingTrade: false });
@@ -323,13 +347,17 @@ export const createTradeSlice = (
     }
   },
 
-  sendMessage: async (id: string, message: string) => {
+  sendMessage: async (
+    id: string,
+    message: string,
+    attachments?: P2PTradeAttachmentUpload[]
+  ) => {
     try {
       set({ isSendingMessage: true, sendMessageError: null });
       const { data, error } = await $fetch({
         url: `/api/p2p/trade/${id}/message`,
         method: "POST",
-        body: { message },
+        body: { message, attachments },
       });
 
       set({ isSendingMessage: false });
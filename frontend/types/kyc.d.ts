@@ -87,6 +87,7 @@ interface KycLevel {
   level: number;
   fields?: KycField[];
   features?: any;
+  validityDays?: number | null;
   status: "ACTIVE" | "DRAFT" | "INACTIVE";
   createdAt?: Date;
   updatedAt?: Date;